@@ -6,8 +6,12 @@
 let oc = null;
 let isInitialized = false;
 
-// Local path for OpenCascade files (served from public folder)
-const OC_PATH = '/opencascade';
+// Set when hosted outside a browser Web Worker (see src/core/kernel-node.ts):
+// { openCascadePath, readText(path), require }
+const kernelHost = self.kernelHost || null;
+
+// Local path for OpenCascade files (served from public folder, or a directory on disk)
+const OC_PATH = kernelHost ? kernelHost.openCascadePath : '/opencascade';
 
 // Shape registry - stores OCCT shapes by ID for boolean operations
 const shapeRegistry = new Map();
@@ -36,31 +40,36 @@ async function initializeKernel() {
     const jsUrl = `${OC_PATH}/opencascade.full.js`;
     console.log('[GeometryWorker] Fetching:', jsUrl);
 
-    const response = await fetch(jsUrl);
-    if (!response.ok) {
-      throw new Error('Failed to fetch OpenCascade.js: ' + response.status);
+    let jsText;
+    if (kernelHost) {
+      jsText = await kernelHost.readText(jsUrl);
+    } else {
+      const response = await fetch(jsUrl);
+      if (!response.ok) {
+        throw new Error('Failed to fetch OpenCascade.js: ' + response.status);
+      }
+      jsText = await response.text();
     }
-
-    let jsText = await response.text();
     console.log('[GeometryWorker] Downloaded', (jsText.length / 1024 / 1024).toFixed(2), 'MB');
 
-    // Remove ES module export and make it assign to global
+    // Remove ES module export and return the factory instead
     // The file ends with: export default Module;
-    // We replace it to expose Module globally
-    jsText = jsText.replace('export default Module;', 'self.opencascade = Module;');
-
-    // Evaluate in worker context
-    (0, eval)(jsText);
+    // Under Node the Emscripten loader reads the WASM through require('fs')
+    jsText = jsText.replace('export default Module;', 'return Module;');
+    const opencascade = new Function('require', '__dirname', jsText)(
+      kernelHost ? kernelHost.require : undefined,
+      OC_PATH
+    );
 
     console.log('[GeometryWorker] JS loaded, checking for opencascade function...');
 
-    if (typeof self.opencascade === 'undefined') {
+    if (typeof opencascade !== 'function') {
       throw new Error('opencascade not defined after eval');
     }
 
     console.log('[GeometryWorker] Initializing WASM...');
 
-    oc = await self.opencascade({
+    oc = await opencascade({
       locateFile: function(filename) {
         console.log('[GeometryWorker] locateFile:', filename);
         return `${OC_PATH}/${filename}`;
@@ -1684,21 +1693,7 @@ function getBoundingBox(shapeId) {
     throw new Error('Shape not found: ' + shapeId);
   }
 
-  const bbox = new oc.Bnd_Box_1();
-  oc.BRepBndLib.Add(shape, bbox, false);
-
-  const min = bbox.CornerMin();
-  const max = bbox.CornerMax();
-
-  return {
-    min: { x: min.X(), y: min.Y(), z: min.Z() },
-    max: { x: max.X(), y: max.Y(), z: max.Z() },
-    size: {
-      x: max.X() - min.X(),
-      y: max.Y() - min.Y(),
-      z: max.Z() - min.Z()
-    }
-  };
+  return shapeBounds(shape);
 }
 
 /**
@@ -1773,6 +1768,114 @@ function measureDistance(shapeId1, shapeId2) {
   };
 }
 
+/**
+ * Describe every face of a shape for manufacturability checks: surface type,
+ * area, centroid and bounds, cylinder radius/axis/parameter ranges, plus a
+ * triangulation tagged with the face each triangle belongs to. Face indices
+ * are 1-based and match the indices used by shell and filletEdges.
+ * @param {string} shapeId - ID of the shape
+ * @param {number} deflection - Linear mesh deflection (mm)
+ */
+function analyzeFaces(shapeId, deflection = 0.2) {
+  if (!oc) throw new Error('Kernel not initialized');
+
+  const shape = getShape(shapeId);
+  if (!shape) {
+    throw new Error('Shape not found: ' + shapeId);
+  }
+
+  new oc.BRepMesh_IncrementalMesh_2(shape, deflection, false, 0.5, false);
+
+  const faceMap = new oc.TopTools_IndexedMapOfShape_1();
+  oc.TopExp.MapShapes_1(shape, oc.TopAbs_ShapeEnum.TopAbs_FACE, faceMap);
+
+  const faces = [];
+  const positions = [];
+  const indices = [];
+  const faceIds = [];
+  let indexOffset = 0;
+
+  for (let index = 1; index <= faceMap.Extent(); index++) {
+    const face = oc.TopoDS.Face_1(faceMap.FindKey(index));
+
+    const props = new oc.GProp_GProps_1();
+    oc.BRepGProp.SurfaceProperties_1(face, props, true, false);
+    const centroid = props.CentreOfMass();
+
+    const info = {
+      index: index,
+      type: 'other',
+      area: props.Mass(),
+      center: { x: centroid.X(), y: centroid.Y(), z: centroid.Z() },
+      bounds: shapeBounds(face)
+    };
+
+    const surface = new oc.BRepAdaptor_Surface_2(face, true);
+    const surfaceType = surface.GetType();
+    if (surfaceType === oc.GeomAbs_SurfaceType.GeomAbs_Plane) {
+      info.type = 'plane';
+    } else if (surfaceType === oc.GeomAbs_SurfaceType.GeomAbs_Cylinder) {
+      const cylinder = surface.Cylinder();
+      const axis = cylinder.Axis();
+      const location = axis.Location();
+      const direction = axis.Direction();
+      info.type = 'cylinder';
+      info.radius = cylinder.Radius();
+      info.axis = {
+        location: { x: location.X(), y: location.Y(), z: location.Z() },
+        direction: { x: direction.X(), y: direction.Y(), z: direction.Z() }
+      };
+      // U is the angle around the axis, V the distance along it
+      info.sweep = surface.LastUParameter() - surface.FirstUParameter();
+      info.length = surface.LastVParameter() - surface.FirstVParameter();
+    } else if (surfaceType === oc.GeomAbs_SurfaceType.GeomAbs_Cone) {
+      info.type = 'cone';
+    }
+    faces.push(info);
+
+    const location = new oc.TopLoc_Location_1();
+    const triangulation = oc.BRep_Tool.Triangulation(face, location, 0);
+    if (!triangulation || triangulation.IsNull()) continue;
+
+    const transform = location.Transformation();
+    const nbNodes = triangulation.get().NbNodes();
+    const nbTriangles = triangulation.get().NbTriangles();
+
+    for (let i = 1; i <= nbNodes; i++) {
+      const node = triangulation.get().Node(i).Transformed(transform);
+      positions.push(node.X(), node.Y(), node.Z());
+    }
+
+    const reversed = face.Orientation_1() === oc.TopAbs_Orientation.TopAbs_REVERSED;
+    for (let i = 1; i <= nbTriangles; i++) {
+      const triangle = triangulation.get().Triangle(i);
+      const n1 = triangle.Value(1) - 1 + indexOffset;
+      const n2 = triangle.Value(2) - 1 + indexOffset;
+      const n3 = triangle.Value(3) - 1 + indexOffset;
+      if (reversed) {
+        indices.push(n1, n3, n2);
+      } else {
+        indices.push(n1, n2, n3);
+      }
+      faceIds.push(index);
+    }
+
+    indexOffset += nbNodes;
+  }
+
+  console.log('[GeometryWorker] Analyzed', faces.length, 'faces,', faceIds.length, 'triangles');
+
+  return {
+    faces: faces,
+    mesh: {
+      positions: new Float32Array(positions),
+      indices: new Uint32Array(indices),
+      faceIds: new Uint32Array(faceIds)
+    },
+    bounds: shapeBounds(shape)
+  };
+}
+
 // ============================================================================
 // MESHING
 // ============================================================================
@@ -2011,6 +2114,105 @@ function exportOBJ(shapeId) {
   return obj;
 }
 
+// ============================================================================
+// FILE IMPORT FUNCTIONS
+// ============================================================================
+
+/**
+ * Count unique sub-shapes of a given type
+ */
+function countSubShapes(shape, type) {
+  const map = new oc.TopTools_IndexedMapOfShape_1();
+  oc.TopExp.MapShapes_1(shape, type, map);
+  return map.Extent();
+}
+
+function shapeBounds(shape) {
+  const bbox = new oc.Bnd_Box_1();
+  oc.BRepBndLib.Add(shape, bbox, false);
+
+  const min = bbox.CornerMin();
+  const max = bbox.CornerMax();
+
+  return {
+    min: { x: min.X(), y: min.Y(), z: min.Z() },
+    max: { x: max.X(), y: max.Y(), z: max.Z() },
+    size: {
+      x: max.X() - min.X(),
+      y: max.Y() - min.Y(),
+      z: max.Z() - min.Z()
+    }
+  };
+}
+
+/**
+ * Import a STEP or IGES file. Every solid (or free shell for surface-only
+ * IGES files) is registered as its own shape, plus the whole compound.
+ * @param {ArrayBuffer|string} data - File content
+ * @param {string} format - 'step' or 'iges'
+ */
+function importCAD(data, format) {
+  if (!oc) throw new Error('Kernel not initialized');
+
+  console.log('[GeometryWorker] Importing', format.toUpperCase());
+
+  const filename = format === 'iges' ? '/tmp/import.igs' : '/tmp/import.step';
+  oc.FS.writeFile(filename, typeof data === 'string' ? data : new Uint8Array(data));
+
+  const reader = format === 'iges' ? new oc.IGESControl_Reader_1() : new oc.STEPControl_Reader_1();
+  const readStatus = reader.ReadFile(filename);
+  oc.FS.unlink(filename);
+  if (readStatus !== 1) { // IFSelect_RetDone
+    throw new Error('Failed to read ' + format.toUpperCase() + ' file: ' + readStatus);
+  }
+
+  reader.TransferRoots(new oc.Message_ProgressRange_1());
+  const shape = reader.OneShape();
+  if (shape.IsNull()) {
+    throw new Error('No geometry transferred from ' + format.toUpperCase() + ' file');
+  }
+
+  // Bodies: solids, or shells when the file carries surfaces only
+  let bodyType = oc.TopAbs_ShapeEnum.TopAbs_SOLID;
+  if (countSubShapes(shape, bodyType) === 0) {
+    bodyType = oc.TopAbs_ShapeEnum.TopAbs_SHELL;
+  }
+
+  const solids = [];
+  const explorer = new oc.TopExp_Explorer_2(shape, bodyType, oc.TopAbs_ShapeEnum.TopAbs_SHAPE);
+  while (explorer.More()) {
+    const body = explorer.Current();
+    const props = new oc.GProp_GProps_1();
+    oc.BRepGProp.VolumeProperties_1(body, props, true, false, false);
+
+    solids.push({
+      shapeId: registerShape(body),
+      kind: bodyType === oc.TopAbs_ShapeEnum.TopAbs_SOLID ? 'solid' : 'shell',
+      bounds: shapeBounds(body),
+      numFaces: countSubShapes(body, oc.TopAbs_ShapeEnum.TopAbs_FACE),
+      numEdges: countSubShapes(body, oc.TopAbs_ShapeEnum.TopAbs_EDGE),
+      volume: Math.abs(props.Mass())
+    });
+    explorer.Next();
+  }
+
+  const shapeId = registerShape(shape);
+  const mesh = meshShape(shape);
+
+  console.log('[GeometryWorker] Imported', solids.length, 'bodies');
+
+  return {
+    shapeId: shapeId,
+    mesh: mesh,
+    data: {
+      solids: solids,
+      numFaces: countSubShapes(shape, oc.TopAbs_ShapeEnum.TopAbs_FACE),
+      numEdges: countSubShapes(shape, oc.TopAbs_ShapeEnum.TopAbs_EDGE),
+      bounds: shapeBounds(shape)
+    }
+  };
+}
+
 // Message handler
 self.onmessage = async function(event) {
   const data = event.data;
@@ -2086,12 +2288,16 @@ self.onmessage = async function(event) {
         result = { data: getMassProperties(params.shapeId) };
       } else if (operation === 'measureDistance') {
         result = { data: measureDistance(params.shapeId1, params.shapeId2) };
+      } else if (operation === 'analyzeFaces') {
+        result = { data: analyzeFaces(params.shapeId, params.deflection) };
       } else if (operation === 'exportSTL') {
         const stlData = exportSTL(params.shapeId);
         result = { data: stlData, format: 'stl' };
       } else if (operation === 'exportSTEP') {
         const stepData = exportSTEP(params.shapeId);
         result = { data: stepData, format: 'step' };
+      } else if (operation === 'importCAD') {
+        result = importCAD(params.data, params.format);
       } else if (operation === 'exportOBJ') {
         const objData = exportOBJ(params.shapeId);
         result = { data: objData, format: 'obj' };
@@ -2119,7 +2325,7 @@ self.onmessage = async function(event) {
         id: id,
         type: type,
         success: true,
-        payload: { mesh: result.mesh, shapeId: result.shapeId }
+        payload: result
       });
     }
     else {
@@ -3,6 +3,11 @@
  */
 
 import { createDemoRunner, getAllDemoScenarios } from './src/integration/index';
+import { initKernel, disposeKernel, type KernelBackend } from './src/core/kernel';
+
+// --kernel=node (default) or --kernel=in-process
+const kernelArg = process.argv.find((arg) => arg.startsWith('--kernel='));
+const kernelBackend = (kernelArg?.split('=')[1] ?? 'node') as KernelBackend;
 
 async function main() {
   console.log('='.repeat(60));
@@ -10,6 +15,12 @@ async function main() {
   console.log('='.repeat(60));
   console.log('');
 
+  try {
+    await initKernel({ backend: kernelBackend });
+  } catch (error) {
+    console.warn(`Geometry kernel unavailable (${error instanceof Error ? error.message : error}); solids will be skipped`);
+  }
+
   const scenarios = getAllDemoScenarios();
   console.log(`Total scenarios: ${scenarios.length}`);
   scenarios.forEach((s, i) => {
@@ -36,4 +47,6 @@ async function main() {
   console.log('='.repeat(60));
 }
 
-main().catch(console.error);
+main()
+  .catch(console.error)
+  .finally(() => disposeKernel());
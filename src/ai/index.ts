@@ -6,6 +6,7 @@
  * - Knowledge domain classification
  * - Solution generation and optimization
  * - Design rationale explanation
+ * - Pluggable reasoning providers with a deterministic local fallback
  */
 
 // Export types
@@ -57,6 +58,10 @@ export type {
   ReasoningRequest,
   ReasoningResponse,
   AIServiceConfig,
+  ResultSchema,
+  ProviderRequest,
+  ProviderResponse,
+  ReasoningProvider,
 } from './types';
 
 // Export domain selector
@@ -84,6 +89,28 @@ export {
   createDesignExplainer,
 } from './explainer';
 
+// Export reasoning providers
+export {
+  ReasoningService,
+  LocalProvider,
+  AnthropicProvider,
+  createReasoningService,
+  estimateTokens,
+  validateResult,
+  parseEnvelope,
+  extractJson,
+  requirementSchema,
+  classificationSchema,
+  explanationSchema,
+  requirementParsingRequest,
+  domainClassificationRequest,
+  explanationRequest,
+} from './providers';
+export type {
+  ReasoningFixture,
+  ReasoningEnvelope,
+} from './providers';
+
 // Export orchestrator
 export {
   AIOrchestrator,
@@ -19,6 +19,8 @@ import type {
   OptimizationObjectives,
   DesignRationale,
   AIServiceConfig,
+  ReasoningRequest,
+  ResultSchema,
   SolutionMetrics,
   ComplianceStatus,
   CodeCheck,
@@ -28,6 +30,44 @@ import { DomainSelector } from './domain-selector';
 import { NaturalLanguageParser } from './nl-parser';
 import { SolutionOptimizer } from './optimizer';
 import { DesignExplainer } from './explainer';
+import {
+  ReasoningService,
+  createReasoningService,
+  requirementParsingRequest,
+  requirementSchema,
+  domainClassificationRequest,
+  classificationSchema,
+  explanationRequest,
+  explanationSchema,
+} from './providers';
+import { selectMaterials, type Material } from './reasoning';
+import type { StockForm } from '../knowledge/materials';
+
+/** Stock forms each domain builds from */
+const domainForms: Record<string, StockForm[]> = {
+  access: ['structural', 'tube', 'plate'],
+  structure: ['structural', 'tube', 'plate'],
+  enclosure: ['sheet'],
+  flow: ['tube', 'sheet'],
+  mechanical: ['bar', 'plate'],
+};
+
+/** Forms the main members of each domain are cut from */
+const domainPrimaryForms: Record<string, StockForm[]> = {
+  access: ['structural', 'tube'],
+  structure: ['structural', 'tube'],
+  enclosure: ['sheet'],
+  flow: ['tube', 'sheet'],
+  mechanical: ['bar'],
+};
+
+/** Material ids the domain calculators understand */
+function domainMaterialId(material: Material): string {
+  if (material.type === 'stainless') return 'stainless-steel';
+  if (material.type === 'aluminum') return 'aluminum';
+  if (material.name.toLowerCase().includes('galvanized')) return 'galvanized-steel';
+  return 'carbon-steel';
+}
 
 // ============================================================================
 // ORCHESTRATOR RESULT TYPES
@@ -79,7 +119,7 @@ export interface OrchestratorConfig {
   /** Maximum solutions to generate */
   maxSolutions?: number;
 
-  /** AI service configuration */
+  /** AI service configuration; keyword heuristics are used when absent */
   aiService?: AIServiceConfig;
 
   /** Enable detailed logging */
@@ -96,6 +136,7 @@ export class AIOrchestrator {
   private nlParser: NaturalLanguageParser;
   private optimizer: SolutionOptimizer;
   private explainer: DesignExplainer;
+  private reasoning: ReasoningService | null;
 
   constructor(config: OrchestratorConfig = {}) {
     this.config = {
@@ -108,6 +149,7 @@ export class AIOrchestrator {
     this.nlParser = new NaturalLanguageParser();
     this.optimizer = new SolutionOptimizer(config.optimizationObjectives);
     this.explainer = new DesignExplainer();
+    this.reasoning = config.aiService ? createReasoningService(config.aiService) : null;
   }
 
   /**
@@ -120,7 +162,12 @@ export class AIOrchestrator {
 
     // Step 1: Parse natural language requirements
     this.log('Step 1: Parsing natural language requirements...');
-    const parsedRequirements = this.nlParser.parse(request.description);
+    const parsedRequirements = await this.reason<ParsedRequirements>(
+      requirementParsingRequest(request.description),
+      requirementSchema,
+      warnings,
+      () => this.nlParser.parse(request.description)
+    );
     stepsCompleted.push('requirement-parsing');
 
     if (parsedRequirements.unparsedParts.length > 0) {
@@ -129,7 +176,12 @@ export class AIOrchestrator {
 
     // Step 2: Classify domain
     this.log('Step 2: Classifying knowledge domain...');
-    const classification = this.domainSelector.classifyDomain(request);
+    const classification = await this.reason<DomainClassification>(
+      domainClassificationRequest(request),
+      classificationSchema,
+      warnings,
+      () => this.domainSelector.classifyDomain(request)
+    );
     stepsCompleted.push('domain-classification');
 
     if (classification.confidence < 0.6) {
@@ -164,6 +216,15 @@ export class AIOrchestrator {
       topSolution,
       solutions.slice(1)
     );
+    if (this.reasoning && solutions.length > 0) {
+      const explanation = await this.reason<{ summary: string }>(
+        explanationRequest(request, classification, topSolution, solutions.slice(1)),
+        explanationSchema,
+        warnings,
+        () => ({ summary: rationale.summary })
+      );
+      rationale.summary = explanation.summary;
+    }
     stepsCompleted.push('explanation');
 
     // Step 7: Generate full report
@@ -301,16 +362,12 @@ export class AIOrchestrator {
       Math.pow(request.pointB.position.y - request.pointA.position.y, 2)
     );
 
-    // Default material based on environment
-    let material = 'carbon-steel';
-    if (request.environment.conditions.corrosive) {
-      material = 'stainless-steel';
-    } else if (request.environment.conditions.exposure === 'outdoor') {
-      material = 'galvanized-steel';
-    }
+    const selected = this.selectMaterial(request, domain);
+    const material = selected ? domainMaterialId(selected) : 'carbon-steel';
 
     const baseParams: Record<string, unknown> = {
       material,
+      ...(selected?.grade ? { materialGrade: selected.grade } : {}),
       startPoint: request.pointA.position,
       endPoint: request.pointB.position,
     };
@@ -337,6 +394,40 @@ export class AIOrchestrator {
     }
   }
 
+  /**
+   * Pick a material from the database for the request's environment,
+   * temperature range, schedule and material preferences
+   */
+  private selectMaterial(request: DesignRequest, domain: string): Material | undefined {
+    const conditions = request.environment.conditions;
+    const preferences = request.constraints.materialPreferences ?? [];
+    const required = preferences.filter(p => p.preference === 'required').map(p => p.material);
+    const schedule = request.constraints.schedule;
+
+    const [top] = selectMaterials(
+      {
+        partType: domain === 'enclosure' ? 'enclosure' : domain === 'mechanical' ? 'mechanical' : 'structural',
+        environment: conditions.corrosive ? 'marine' : conditions.exposure === 'indoor' ? 'indoor' : 'outdoor',
+        loadCase: { type: conditions.vibration === 'high' ? 'cyclic' : 'static', forces: [], safetyFactor: 1.5 },
+        availableMaterials: [],
+        availableProcesses: [],
+        quantity: 1,
+        leadTime: schedule?.priority === 'strict' ? { min: 0, max: schedule.maxLeadTime, unit: 'days' } : undefined,
+        temperature: conditions.temperatureRange,
+        welded: domain === 'structure' || domain === 'access',
+      },
+      {
+        forms: domainForms[domain],
+        primaryForms: domainPrimaryForms[domain],
+        required,
+        preferred: preferences.filter(p => p.preference === 'preferred').map(p => p.material),
+        excluded: preferences.filter(p => p.preference === 'avoid').map(p => p.material),
+        maxResults: 1,
+      }
+    );
+    return top?.material;
+  }
+
   /**
    * Get access domain parameters
    */
@@ -666,6 +757,32 @@ export class AIOrchestrator {
     };
   }
 
+  /**
+   * Answer a step with the reasoning provider, falling back to the
+   * heuristic when no provider is configured or the provider fails
+   */
+  private async reason<T>(
+    reasoningRequest: ReasoningRequest,
+    schema: ResultSchema,
+    warnings: string[],
+    heuristic: () => T
+  ): Promise<T> {
+    if (!this.reasoning) return heuristic();
+
+    const response = await this.reasoning.reason<T>(reasoningRequest, schema);
+    if (response.success && response.result !== null) {
+      this.log(
+        `${reasoningRequest.type} answered by ${response.provider}` +
+        (response.cached ? ' (cached)' : ` in ${response.attempts} attempt(s), ${response.tokensUsed} tokens`)
+      );
+      return response.result;
+    }
+
+    const reason = response.errors?.[response.errors.length - 1] ?? 'no result';
+    warnings.push(`Reasoning provider failed ${reasoningRequest.type} (${reason}); used heuristics instead`);
+    return heuristic();
+  }
+
   /**
    * Log message if verbose mode enabled
    */
@@ -0,0 +1,95 @@
+/**
+ * Anthropic Reasoning Provider
+ *
+ * Calls the Anthropic Messages API for reasoning requests.
+ */
+
+import type {
+  AIServiceConfig,
+  ProviderRequest,
+  ProviderResponse,
+  ReasoningProvider,
+} from '../types';
+
+const DEFAULT_ENDPOINT = 'https://api.anthropic.com/v1/messages';
+const API_VERSION = '2023-06-01';
+
+/** API model ids for the configured model names */
+const modelIds: Record<Exclude<AIServiceConfig['model'], 'local'>, string> = {
+  'claude-3-opus': 'claude-3-opus-20240229',
+  'claude-3-sonnet': 'claude-3-sonnet-20240229',
+  'claude-3-haiku': 'claude-3-haiku-20240307',
+};
+
+/** Status codes worth retrying: timeout, rate limit, server errors and overload */
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+// ============================================================================
+// ANTHROPIC PROVIDER CLASS
+// ============================================================================
+
+export class AnthropicProvider implements ReasoningProvider {
+  readonly name: string;
+  private endpoint: string;
+  private apiKey: string;
+  private modelId: string;
+
+  constructor(config: AIServiceConfig) {
+    if (config.model === 'local') {
+      throw new Error('AnthropicProvider requires a remote model');
+    }
+    if (!config.apiKey) {
+      throw new Error('AnthropicProvider requires an API key');
+    }
+
+    this.name = config.model;
+    this.endpoint = config.endpoint ?? DEFAULT_ENDPOINT;
+    this.apiKey = config.apiKey;
+    this.modelId = modelIds[config.model];
+  }
+
+  async complete(call: ProviderRequest, signal?: AbortSignal): Promise<ProviderResponse> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      signal,
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': API_VERSION,
+        'anthropic-dangerous-direct-browser-access': 'true',
+      },
+      body: JSON.stringify({
+        model: this.modelId,
+        max_tokens: call.maxTokens,
+        temperature: call.temperature,
+        system: call.system,
+        messages: [{ role: 'user', content: call.prompt }],
+      }),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      const error = new Error(`Anthropic API error ${response.status}: ${detail.slice(0, 200)}`);
+      throw Object.assign(error, { retryable: isRetryableStatus(response.status) });
+    }
+
+    const data = await response.json() as {
+      content?: Array<{ type: string; text?: string }>;
+      usage?: { input_tokens?: number; output_tokens?: number };
+    };
+    const text = (data.content ?? [])
+      .filter(block => block.type === 'text')
+      .map(block => block.text ?? '')
+      .join('');
+
+    return {
+      text,
+      tokensUsed: {
+        input: data.usage?.input_tokens ?? 0,
+        output: data.usage?.output_tokens ?? 0,
+      },
+    };
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Reasoning Providers
+ *
+ * Pluggable backends for AI reasoning requests:
+ * - Anthropic Messages API for the claude-3 models
+ * - Deterministic local provider (fixtures + heuristics) for offline use
+ * - ReasoningService adding validation, retries, budgeting and caching
+ */
+
+import type { AIServiceConfig } from '../types';
+import { ReasoningService } from './service';
+import { LocalProvider, type ReasoningFixture } from './local';
+import { AnthropicProvider } from './anthropic';
+
+export { ReasoningService, estimateTokens } from './service';
+export { LocalProvider } from './local';
+export type { ReasoningFixture } from './local';
+export { AnthropicProvider } from './anthropic';
+export { extractJson, parseEnvelope, validateResult } from './schema';
+export type { ReasoningEnvelope } from './schema';
+export {
+  requirementSchema,
+  classificationSchema,
+  explanationSchema,
+  requirementParsingRequest,
+  domainClassificationRequest,
+  explanationRequest,
+} from './prompts';
+
+// ============================================================================
+// FACTORY FUNCTION
+// ============================================================================
+
+/**
+ * Create the reasoning service for a configuration. Returns null when a
+ * remote model is configured without an API key, in which case callers
+ * fall back to the keyword heuristics.
+ */
+export function createReasoningService(
+  config: AIServiceConfig,
+  fixtures: ReasoningFixture[] = []
+): ReasoningService | null {
+  if (config.provider) {
+    return new ReasoningService(config.provider, config);
+  }
+  if (config.model === 'local') {
+    return new ReasoningService(new LocalProvider(fixtures), config);
+  }
+  if (!config.apiKey) {
+    return null;
+  }
+  return new ReasoningService(new AnthropicProvider(config), config);
+}
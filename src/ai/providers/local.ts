@@ -0,0 +1,130 @@
+/**
+ * Local Reasoning Provider
+ *
+ * Deterministic, offline provider. Answers from registered fixtures first,
+ * then from the keyword heuristics, so the full reasoning path (prompting,
+ * validation, retries, caching) runs without a model.
+ */
+
+import type {
+  DesignRequest,
+  DesignSolution,
+  DomainClassification,
+  ProviderRequest,
+  ProviderResponse,
+  ReasoningProvider,
+  ReasoningRequest,
+} from '../types';
+import type { ReasoningEnvelope } from './schema';
+import { estimateTokens } from './service';
+import { DomainSelector } from '../domain-selector';
+import { NaturalLanguageParser } from '../nl-parser';
+import { DesignExplainer } from '../explainer';
+
+/**
+ * Canned reply for matching requests
+ */
+export interface ReasoningFixture {
+  /** Request type, a pattern tested against the prompt and description, or a predicate */
+  match: ReasoningRequest['type'] | RegExp | ((request: ReasoningRequest) => boolean);
+
+  /** Raw reply text, or an envelope to serialize as JSON */
+  reply: string | ReasoningEnvelope | ((request: ReasoningRequest) => string | ReasoningEnvelope);
+}
+
+// ============================================================================
+// LOCAL PROVIDER CLASS
+// ============================================================================
+
+export class LocalProvider implements ReasoningProvider {
+  readonly name = 'local';
+  private fixtures: ReasoningFixture[];
+  private domainSelector = new DomainSelector();
+  private nlParser = new NaturalLanguageParser();
+  private explainer = new DesignExplainer();
+
+  constructor(fixtures: ReasoningFixture[] = []) {
+    this.fixtures = [...fixtures];
+  }
+
+  /**
+   * Register a fixture; later fixtures take precedence
+   */
+  addFixture(fixture: ReasoningFixture): void {
+    this.fixtures.unshift(fixture);
+  }
+
+  async complete(call: ProviderRequest, signal?: AbortSignal): Promise<ProviderResponse> {
+    if (signal?.aborted) {
+      throw new Error('Request aborted');
+    }
+
+    const fixture = this.fixtures.find(f => this.matches(f, call.request));
+    const reply = fixture
+      ? typeof fixture.reply === 'function' ? fixture.reply(call.request) : fixture.reply
+      : this.heuristicReply(call.request);
+    const text = typeof reply === 'string' ? reply : JSON.stringify(reply);
+
+    return {
+      text,
+      tokensUsed: {
+        input: estimateTokens(call.system) + estimateTokens(call.prompt),
+        output: estimateTokens(text),
+      },
+    };
+  }
+
+  private matches(fixture: ReasoningFixture, request: ReasoningRequest): boolean {
+    if (typeof fixture.match === 'string') return fixture.match === request.type;
+    if (fixture.match instanceof RegExp) {
+      return fixture.match.test(request.prompt) || fixture.match.test(String(request.context.description ?? ''));
+    }
+    return fixture.match(request);
+  }
+
+  /**
+   * Answer from the keyword heuristics using the request context
+   */
+  private heuristicReply(request: ReasoningRequest): ReasoningEnvelope {
+    const context = request.context;
+
+    switch (request.type) {
+      case 'requirement-parsing': {
+        const parsed = this.nlParser.parse(String(context.description ?? request.prompt));
+        return {
+          result: parsed,
+          reasoning: 'Parsed with local keyword patterns',
+          confidence: parsed.confidence,
+        };
+      }
+
+      case 'domain-classification': {
+        const classification = this.domainSelector.classifyDomain(context.request as DesignRequest);
+        return {
+          result: classification,
+          reasoning: classification.reasoning,
+          confidence: classification.confidence,
+        };
+      }
+
+      case 'explanation': {
+        const classification = context.classification as DomainClassification;
+        const rationale = this.explainer.generateRationale(
+          context.request as DesignRequest,
+          classification,
+          context.solution as DesignSolution
+        );
+        return {
+          result: { summary: rationale.summary },
+          reasoning: 'Summarized with local explanation templates',
+          confidence: classification.confidence,
+        };
+      }
+
+      default: {
+        const error = new Error(`Local provider has no fixture or heuristic for '${request.type}' requests`);
+        throw Object.assign(error, { retryable: false });
+      }
+    }
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Reasoning Prompts
+ *
+ * Request builders and result schemas for the steps of the design
+ * pipeline that can be answered by a reasoning provider.
+ */
+
+import type {
+  DesignRequest,
+  DesignSolution,
+  DomainClassification,
+  ReasoningRequest,
+  ResultSchema,
+} from '../types';
+
+// ============================================================================
+// RESULT SCHEMAS
+// ============================================================================
+
+const confidence: ResultSchema = { type: 'number', minimum: 0, maximum: 1 };
+
+const domain: ResultSchema = {
+  type: 'string',
+  enum: ['access', 'structure', 'enclosure', 'flow', 'mechanical'],
+};
+
+/** Matches ParsedRequirements */
+export const requirementSchema: ResultSchema = {
+  type: 'object',
+  properties: {
+    endpoints: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          role: { type: 'string', enum: ['start', 'end'] },
+          description: { type: 'string' },
+          type: {
+            type: 'string',
+            enum: ['floor', 'wall', 'ceiling', 'equipment', 'structure', 'opening', 'custom'],
+          },
+          elevation: { type: 'number' },
+          confidence,
+        },
+        required: ['role', 'description', 'confidence'],
+      },
+    },
+    constraints: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: {
+            type: 'string',
+            enum: ['dimensional', 'material', 'code', 'cost', 'schedule', 'environmental'],
+          },
+          description: { type: 'string' },
+          value: { anyOf: [{ type: 'number' }, { type: 'string' }] },
+          unit: { type: 'string' },
+          confidence,
+        },
+        required: ['type', 'description', 'confidence'],
+      },
+    },
+    preferences: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          aspect: { type: 'string' },
+          preference: { type: 'string' },
+          strength: { type: 'string', enum: ['must', 'should', 'could', 'would-like'] },
+          confidence,
+        },
+        required: ['aspect', 'preference', 'strength', 'confidence'],
+      },
+    },
+    confidence,
+    unparsedParts: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['endpoints', 'constraints', 'preferences', 'confidence', 'unparsedParts'],
+};
+
+/** Matches DomainClassification */
+export const classificationSchema: ResultSchema = {
+  type: 'object',
+  properties: {
+    primaryDomain: domain,
+    confidence,
+    secondaryDomains: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { domain, confidence, reason: { type: 'string' } },
+        required: ['domain', 'confidence', 'reason'],
+      },
+    },
+    reasoning: { type: 'string' },
+  },
+  required: ['primaryDomain', 'confidence', 'secondaryDomains', 'reasoning'],
+};
+
+/** Summary paragraph for a design rationale */
+export const explanationSchema: ResultSchema = {
+  type: 'object',
+  properties: { summary: { type: 'string' } },
+  required: ['summary'],
+};
+
+// ============================================================================
+// REQUEST BUILDERS
+// ============================================================================
+
+/**
+ * Extract endpoints, constraints and preferences from a description
+ */
+export function requirementParsingRequest(description: string): ReasoningRequest {
+  return {
+    type: 'requirement-parsing',
+    context: { description },
+    prompt:
+      'Extract the structured requirements from this engineering design description. ' +
+      'List the start and end endpoints, every dimensional, material, code, cost, schedule ' +
+      'or environmental constraint (values in mm where dimensional), the stated preferences, ' +
+      'and any sentences you could not interpret.',
+  };
+}
+
+/**
+ * Classify a design request into its knowledge domain
+ */
+export function domainClassificationRequest(request: DesignRequest): ReasoningRequest {
+  return {
+    type: 'domain-classification',
+    context: { request },
+    prompt:
+      'Classify this design request into its primary knowledge domain ' +
+      '(access, structure, enclosure, flow or mechanical). Consider the description and the ' +
+      'elevation change between the two connection points, and list any secondary domains involved.',
+  };
+}
+
+/**
+ * Summarize why the selected solution was chosen
+ */
+export function explanationRequest(
+  request: DesignRequest,
+  classification: DomainClassification,
+  solution: DesignSolution,
+  alternatives: DesignSolution[] = []
+): ReasoningRequest {
+  return {
+    type: 'explanation',
+    context: {
+      request,
+      classification,
+      solution: { ...solution, rationale: undefined },
+      alternatives: alternatives.map(a => a.elementType),
+    },
+    prompt:
+      'Write a short summary paragraph for an engineer explaining what this design is, ' +
+      'why it suits the requirement and which code checks it satisfies.',
+  };
+}
@@ -0,0 +1,131 @@
+/**
+ * Structured Output
+ *
+ * Extracts the JSON envelope from a provider reply and validates the
+ * result against a ResultSchema.
+ */
+
+import type { ResultSchema } from '../types';
+
+/**
+ * Envelope every provider reply must contain
+ */
+export interface ReasoningEnvelope {
+  result: unknown;
+  reasoning: string;
+  confidence: number;
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Pull the first JSON object out of a reply, tolerating code fences and prose
+ */
+export function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const body = fenced ? fenced[1] : text;
+  const start = body.indexOf('{');
+  const end = body.lastIndexOf('}');
+  if (start < 0 || end <= start) {
+    throw new Error('Reply contains no JSON object');
+  }
+  try {
+    return JSON.parse(body.slice(start, end + 1));
+  } catch (error) {
+    throw new Error(`Reply is not valid JSON: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Parse and validate a reply; returns the envelope or the list of problems
+ */
+export function parseEnvelope(
+  text: string,
+  schema?: ResultSchema
+): { envelope: ReasoningEnvelope | null; errors: string[] } {
+  let value: unknown;
+  try {
+    value = extractJson(text);
+  } catch (error) {
+    return { envelope: null, errors: [(error as Error).message] };
+  }
+
+  const errors = validateResult(value, envelopeSchema(schema), '');
+  if (errors.length > 0) return { envelope: null, errors };
+  return { envelope: value as ReasoningEnvelope, errors: [] };
+}
+
+/**
+ * Schema of the reply envelope wrapping a result schema
+ */
+export function envelopeSchema(schema?: ResultSchema): ResultSchema {
+  return {
+    type: 'object',
+    properties: {
+      result: schema ?? { anyOf: [] },
+      reasoning: { type: 'string' },
+      confidence: { type: 'number', minimum: 0, maximum: 1 },
+    },
+    required: ['result', 'reasoning', 'confidence'],
+  };
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate a value against a schema, returning one message per violation.
+ * An empty anyOf accepts anything.
+ */
+export function validateResult(value: unknown, schema: ResultSchema, path = 'result'): string[] {
+  const at = path || 'reply';
+
+  if ('anyOf' in schema) {
+    if (schema.anyOf.length === 0) return [];
+    const attempts = schema.anyOf.map(option => validateResult(value, option, path));
+    return attempts.some(errors => errors.length === 0)
+      ? []
+      : [`${at} matches none of the allowed forms (${attempts.map(e => e[0]).join('; ')})`];
+  }
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return [`${at} must be a string`];
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${at} must be one of ${schema.enum.join(', ')}`];
+      }
+      return [];
+
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return [`${at} must be a number`];
+      if (schema.minimum !== undefined && value < schema.minimum) return [`${at} must be >= ${schema.minimum}`];
+      if (schema.maximum !== undefined && value > schema.maximum) return [`${at} must be <= ${schema.maximum}`];
+      return [];
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${at} must be a boolean`];
+
+    case 'array':
+      if (!Array.isArray(value)) return [`${at} must be an array`];
+      return value.flatMap((item, i) => validateResult(item, schema.items, `${path}[${i}]`));
+
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${at} must be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      const errors: string[] = [];
+      for (const key of schema.required ?? []) {
+        if (record[key] === undefined) errors.push(`${path ? `${path}.` : ''}${key} is required`);
+      }
+      for (const [key, property] of Object.entries(schema.properties)) {
+        if (record[key] === undefined) continue;
+        errors.push(...validateResult(record[key], property, path ? `${path}.${key}` : key));
+      }
+      return errors;
+    }
+  }
+}
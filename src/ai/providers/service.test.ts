@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import type {
+  AIServiceConfig,
+  ProviderRequest,
+  ProviderResponse,
+  ReasoningProvider,
+  ReasoningRequest,
+  ResultSchema,
+} from '../types';
+import { ReasoningService } from './service';
+
+const request: ReasoningRequest = {
+  type: 'domain-classification',
+  context: { description: 'stairs to a mezzanine' },
+  prompt: 'Classify this request',
+};
+
+const schema: ResultSchema = {
+  type: 'object',
+  properties: { domain: { type: 'string', enum: ['access', 'structure'] } },
+  required: ['domain'],
+};
+
+const valid = JSON.stringify({ result: { domain: 'access' }, reasoning: 'stairs', confidence: 0.9 });
+
+function config(overrides: Partial<AIServiceConfig> = {}): AIServiceConfig {
+  return {
+    model: 'local',
+    maxTokens: 1000,
+    temperature: 0,
+    enableCaching: false,
+    timeout: 1000,
+    ...overrides,
+  };
+}
+
+/** Replies with each entry in turn (an Error is thrown), recording the calls */
+function scripted(replies: Array<string | Error>, tokens = { input: 10, output: 5 }) {
+  const calls: ProviderRequest[] = [];
+  const provider: ReasoningProvider = {
+    name: 'scripted',
+    async complete(call: ProviderRequest): Promise<ProviderResponse> {
+      calls.push(call);
+      const reply = replies[Math.min(calls.length - 1, replies.length - 1)];
+      if (reply instanceof Error) throw reply;
+      return { text: reply, tokensUsed: tokens };
+    },
+  };
+  return { provider, calls };
+}
+
+describe('ReasoningService', () => {
+  it('returns a validated result', async () => {
+    const { provider } = scripted([valid]);
+    const response = await new ReasoningService(provider, config()).reason(request, schema);
+
+    expect(response.success).toBe(true);
+    expect(response.result).toEqual({ domain: 'access' });
+    expect(response.confidence).toBe(0.9);
+    expect(response.attempts).toBe(1);
+    expect(response.tokensUsed).toBe(15);
+  });
+
+  it('retries an invalid reply with the validation errors fed back', async () => {
+    const invalid = JSON.stringify({ result: { domain: 'plumbing' }, reasoning: '', confidence: 0.5 });
+    const { provider, calls } = scripted([invalid, valid]);
+    const response = await new ReasoningService(provider, config()).reason(request, schema);
+
+    expect(response.success).toBe(true);
+    expect(response.attempts).toBe(2);
+    expect(calls[1].prompt).toContain('Your previous reply was rejected');
+    expect(calls[1].prompt).toContain('domain');
+  });
+
+  it('retries transport errors and gives up after maxRetries', async () => {
+    const { provider, calls } = scripted([new Error('overloaded')]);
+    const response = await new ReasoningService(provider, config({ maxRetries: 1 })).reason(request, schema);
+
+    expect(response.success).toBe(false);
+    expect(calls).toHaveLength(2);
+    expect(response.errors).toEqual(['Attempt 1: overloaded', 'Attempt 2: overloaded']);
+  });
+
+  it('stops at once on errors marked not retryable', async () => {
+    const error = Object.assign(new Error('bad request'), { retryable: false });
+    const { provider, calls } = scripted([error, valid]);
+    const response = await new ReasoningService(provider, config()).reason(request, schema);
+
+    expect(response.success).toBe(false);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('times out a provider that does not answer', async () => {
+    const provider: ReasoningProvider = {
+      name: 'silent',
+      complete: (_call, signal) => new Promise((_, reject) => {
+        signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      }),
+    };
+    const response = await new ReasoningService(provider, config({ timeout: 20, maxRetries: 0 })).reason(request);
+
+    expect(response.success).toBe(false);
+    expect(response.errors?.[0]).toContain('timed out after 20 ms');
+  });
+
+  it('caps maxTokens to the budget and refuses once it is spent', async () => {
+    const { provider, calls } = scripted([valid], { input: 400, output: 200 });
+    const service = new ReasoningService(provider, config({ tokenBudget: 1000 }));
+
+    const first = await service.reason(request, schema);
+    expect(first.success).toBe(true);
+    expect(calls[0].maxTokens).toBeLessThan(1000);
+    expect(service.tokensUsed).toBe(600);
+    expect(service.tokensRemaining).toBe(400);
+
+    await service.reason(request, schema);
+    const exhausted = await service.reason(request, schema);
+    expect(exhausted.success).toBe(false);
+    expect(exhausted.errors?.[0]).toMatch(/Token budget exhausted/);
+    expect(calls).toHaveLength(2);
+  });
+
+  it('serves repeated requests from the cache when enabled', async () => {
+    const { provider, calls } = scripted([valid]);
+    const service = new ReasoningService(provider, config({ enableCaching: true }));
+
+    await service.reason(request, schema);
+    const again = await service.reason(request, schema);
+    expect(again.cached).toBe(true);
+    expect(again.tokensUsed).toBe(0);
+    expect(again.result).toEqual({ domain: 'access' });
+    expect(calls).toHaveLength(1);
+
+    service.clearCache();
+    await service.reason(request, schema);
+    expect(calls).toHaveLength(2);
+  });
+
+  it('does not cache failures or uncached configurations', async () => {
+    const { provider, calls } = scripted([valid]);
+    const service = new ReasoningService(provider, config());
+
+    await service.reason(request, schema);
+    const again = await service.reason(request, schema);
+    expect(again.cached).toBeUndefined();
+    expect(calls).toHaveLength(2);
+  });
+});
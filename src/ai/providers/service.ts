@@ -0,0 +1,207 @@
+/**
+ * Reasoning Service
+ *
+ * Wraps a reasoning provider with structured-output validation, retries,
+ * a token budget, per-call timeouts and a response cache.
+ */
+
+import type {
+  AIServiceConfig,
+  ProviderRequest,
+  ProviderResponse,
+  ReasoningProvider,
+  ReasoningRequest,
+  ReasoningResponse,
+  ResultSchema,
+} from '../types';
+import { parseEnvelope } from './schema';
+
+const DEFAULT_MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 250;
+const CACHE_SIZE = 100;
+
+/**
+ * Rough token count used for budgeting (about 4 characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** Keep typed arrays (point clouds) out of prompts */
+function contextReplacer(_key: string, value: unknown): unknown {
+  if (ArrayBuffer.isView(value)) {
+    return `<${(value as unknown as ArrayLike<number>).length} values>`;
+  }
+  return value;
+}
+
+function systemPrompt(request: ReasoningRequest, schema?: ResultSchema): string {
+  const shape = schema
+    ? `The result must match this JSON schema:\n${JSON.stringify(schema)}`
+    : 'The result may be any JSON value.';
+
+  return [
+    `You are the engineering reasoning engine of a design tool, handling a ${request.type} step.`,
+    'Reply with a single JSON object and nothing else, of the form',
+    '{"result": <result>, "reasoning": "<short explanation>", "confidence": <number from 0 to 1>}.',
+    shape,
+  ].join('\n');
+}
+
+function renderPrompt(request: ReasoningRequest): string {
+  return `${request.prompt}\n\nContext:\n${JSON.stringify(request.context, contextReplacer, 2)}`;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// ============================================================================
+// REASONING SERVICE CLASS
+// ============================================================================
+
+export class ReasoningService {
+  readonly provider: ReasoningProvider;
+  private config: AIServiceConfig;
+  private cache = new Map<string, ReasoningResponse>();
+  private spent = 0;
+
+  constructor(provider: ReasoningProvider, config: AIServiceConfig) {
+    this.provider = provider;
+    this.config = config;
+  }
+
+  /** Tokens spent on provider calls so far */
+  get tokensUsed(): number {
+    return this.spent;
+  }
+
+  /** Tokens left in the budget (Infinity when unbudgeted) */
+  get tokensRemaining(): number {
+    return this.config.tokenBudget === undefined
+      ? Infinity
+      : Math.max(0, this.config.tokenBudget - this.spent);
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Answer a reasoning request, validating the result against the schema.
+   * Never throws: failures come back with success false and the errors seen.
+   */
+  async reason<T = unknown>(request: ReasoningRequest, schema?: ResultSchema): Promise<ReasoningResponse<T>> {
+    const system = systemPrompt(request, schema);
+    const prompt = renderPrompt(request);
+    const key = this.config.enableCaching ? JSON.stringify([system, prompt]) : null;
+
+    const hit = key ? this.cache.get(key) : undefined;
+    if (key && hit) {
+      // Re-insert to mark as most recently used
+      this.cache.delete(key);
+      this.cache.set(key, hit);
+      return { ...(hit as ReasoningResponse<T>), cached: true, tokensUsed: 0 };
+    }
+
+    const maxAttempts = 1 + (this.config.maxRetries ?? DEFAULT_MAX_RETRIES);
+    const errors: string[] = [];
+    let tokensUsed = 0;
+    let feedback = '';
+    let attempt = 0;
+
+    while (attempt < maxAttempts) {
+      attempt++;
+      const call: ProviderRequest = {
+        request,
+        system,
+        prompt: prompt + feedback,
+        maxTokens: this.config.maxTokens,
+        temperature: this.config.temperature,
+      };
+
+      const available = this.tokensRemaining - estimateTokens(call.system) - estimateTokens(call.prompt);
+      if (available <= 0) {
+        errors.push(`Token budget exhausted (${this.spent} of ${this.config.tokenBudget} used)`);
+        break;
+      }
+      call.maxTokens = Math.min(call.maxTokens, available);
+
+      let reply: ProviderResponse;
+      try {
+        reply = await this.callWithTimeout(call);
+      } catch (error) {
+        errors.push(`Attempt ${attempt}: ${(error as Error).message}`);
+        if ((error as { retryable?: boolean }).retryable === false) break;
+        if (attempt < maxAttempts) await delay(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+        continue;
+      }
+
+      const used = reply.tokensUsed.input + reply.tokensUsed.output;
+      this.spent += used;
+      tokensUsed += used;
+
+      const { envelope, errors: problems } = parseEnvelope(reply.text, schema);
+      if (envelope) {
+        const response: ReasoningResponse<T> = {
+          success: true,
+          result: envelope.result as T,
+          reasoning: envelope.reasoning,
+          confidence: envelope.confidence,
+          tokensUsed,
+          provider: this.provider.name,
+          attempts: attempt,
+        };
+        if (key) this.remember(key, response);
+        return response;
+      }
+
+      // Feed the validation errors back so the next attempt can correct them
+      errors.push(...problems.map(problem => `Attempt ${attempt}: ${problem}`));
+      feedback =
+        '\n\nYour previous reply was rejected:\n- ' +
+        problems.slice(0, 10).join('\n- ') +
+        '\nReply again with only the corrected JSON object.';
+    }
+
+    return {
+      success: false,
+      result: null,
+      reasoning: '',
+      confidence: 0,
+      tokensUsed,
+      provider: this.provider.name,
+      attempts: attempt,
+      errors,
+    };
+  }
+
+  /**
+   * Call the provider, aborting after the configured timeout
+   */
+  private async callWithTimeout(call: ProviderRequest): Promise<ProviderResponse> {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        // Reject first so the race reports the timeout, not the provider's abort error
+        reject(new Error(`${this.provider.name} timed out after ${this.config.timeout} ms`));
+        controller.abort();
+      }, this.config.timeout);
+    });
+
+    try {
+      return await Promise.race([this.provider.complete(call, controller.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private remember(key: string, response: ReasoningResponse): void {
+    this.cache.set(key, response);
+    if (this.cache.size > CACHE_SIZE) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) this.cache.delete(oldest);
+    }
+  }
+}
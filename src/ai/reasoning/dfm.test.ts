@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import type { FaceAnalysis, MassProperties } from '../../core/kernel';
+import type { DesignContext, Material } from './index';
+import { analyzeShapeDFM, summarizeFeatures } from './dfm';
+
+const aluminum: Material = {
+  name: '6061-T6 Aluminum',
+  type: 'aluminum',
+  grade: '6061-T6',
+  properties: {
+    density: 2700,
+    yieldStrength: 276,
+    tensileStrength: 310,
+    elasticModulus: 68.9,
+    corrosionResistance: 'good',
+  },
+  costPerKg: 6,
+  availability: 'stock',
+};
+
+function context(overrides: Partial<DesignContext> = {}): DesignContext {
+  return {
+    partType: 'bracket',
+    environment: 'indoor',
+    loadCase: { type: 'static', forces: [], safetyFactor: 2 },
+    availableMaterials: [aluminum],
+    availableProcesses: [],
+    quantity: 1,
+    ...overrides,
+  };
+}
+
+/**
+ * Kernel face analysis of an axis-aligned box from the origin, meshed the
+ * way OpenCascade meshes planar faces: two triangles each. Faces are
+ * numbered -x, +x, -y, +y, -z, +z (1-6).
+ */
+function box(sx: number, sy: number, sz: number): { geometry: FaceAnalysis; mass: MassProperties } {
+  const vertex = (b: number) => [b & 1 ? sx : 0, b & 2 ? sy : 0, b & 4 ? sz : 0];
+  const quads = [[0, 4, 6, 2], [1, 3, 7, 5], [0, 1, 5, 4], [2, 6, 7, 3], [0, 2, 3, 1], [4, 5, 7, 6]];
+  const positions: number[] = [];
+  const indices: number[] = [];
+  const faceIds: number[] = [];
+
+  const faces = quads.map((quad, f) => {
+    const base = positions.length / 3;
+    const corners = quad.map(vertex);
+    corners.forEach(c => positions.push(...c));
+    indices.push(base, base + 1, base + 2, base, base + 2, base + 3);
+    faceIds.push(f + 1, f + 1);
+
+    const axis = (i: number) => corners.map(c => c[i]);
+    const min = { x: Math.min(...axis(0)), y: Math.min(...axis(1)), z: Math.min(...axis(2)) };
+    const max = { x: Math.max(...axis(0)), y: Math.max(...axis(1)), z: Math.max(...axis(2)) };
+    const size = { x: max.x - min.x, y: max.y - min.y, z: max.z - min.z };
+    return {
+      index: f + 1,
+      type: 'plane' as const,
+      area: (size.x || 1) * (size.y || 1) * (size.z || 1),
+      center: { x: (min.x + max.x) / 2, y: (min.y + max.y) / 2, z: (min.z + max.z) / 2 },
+      bounds: { min, max, size },
+    };
+  });
+
+  const size = { x: sx, y: sy, z: sz };
+  return {
+    geometry: {
+      faces,
+      mesh: {
+        positions: Float32Array.from(positions),
+        indices: Uint32Array.from(indices),
+        faceIds: Uint32Array.from(faceIds),
+      },
+      bounds: { min: { x: 0, y: 0, z: 0 }, max: size, size },
+    },
+    mass: {
+      volume: sx * sy * sz,
+      surfaceArea: 2 * (sx * sy + sy * sz + sx * sz),
+      centerOfMass: { x: sx / 2, y: sy / 2, z: sz / 2 },
+    },
+  };
+}
+
+describe('summarizeFeatures', () => {
+  it('reads a thin plate as sheet metal even though its edges have as many triangles as its skins', () => {
+    expect(summarizeFeatures(box(200, 100, 1.5).geometry)).toEqual({
+      holes: [],
+      bends: 0,
+      sheetThickness: 1.5,
+      minFeature: null,
+    });
+  });
+
+  it('does not read a block or thick plate as sheet metal', () => {
+    expect(summarizeFeatures(box(100, 60, 40).geometry).sheetThickness).toBeNull();
+    expect(summarizeFeatures(box(200, 100, 10).geometry).sheetThickness).toBeNull();
+  });
+});
+
+describe('analyzeShapeDFM', () => {
+  it('costs a plate as laser-cut sheet', () => {
+    const { geometry, mass } = box(200, 100, 1.5);
+    const result = analyzeShapeDFM(geometry, mass, context());
+
+    // Laser time for the 600 mm perimeter at the machine rate
+    expect(result.estimatedCost.breakdown.machining).toBeCloseTo(600 / 7000 / 60 * 90, 2);
+    expect(result.issues.filter(i => i.category === 'geometry' && i.description.startsWith('Wall'))).toEqual([]);
+
+    const milled = analyzeShapeDFM(geometry, mass, context(), { sheetMetal: false });
+    expect(milled.estimatedCost.breakdown.machining).toBeGreaterThan(20 * result.estimatedCost.breakdown.machining);
+  });
+
+  it('machines a block in one setup without issues', () => {
+    const { geometry, mass } = box(100, 60, 40);
+    const result = analyzeShapeDFM(geometry, mass, context());
+
+    expect(result.score).toBe(100);
+    expect(result.issues).toEqual([]);
+    // One setup, first-article inspection, stock with allowance on every side
+    expect(result.estimatedCost.breakdown.setup).toBe(75);
+    expect(result.estimatedCost.breakdown.inspection).toBe(62);
+    expect(result.estimatedCost.breakdown.material).toBeCloseTo(106 * 66 * 46 * 1e-9 * 2700 * 6, 2);
+    expect(result.estimatedCost.min).toBeLessThan(result.estimatedCost.max);
+  });
+
+  it('amortizes setup and inspection over the batch', () => {
+    const { geometry, mass } = box(100, 60, 40);
+    const one = analyzeShapeDFM(geometry, mass, context()).estimatedCost.breakdown;
+    const batch = analyzeShapeDFM(geometry, mass, context({ quantity: 100 })).estimatedCost.breakdown;
+
+    expect(batch.setup).toBe(0.75);
+    expect(batch.inspection).toBeCloseTo(2.6, 2);
+    expect(batch.machining).toBe(one.machining);
+  });
+
+  it('flags walls below the material minimum when machined', () => {
+    const { geometry, mass } = box(100, 60, 0.3);
+    const result = analyzeShapeDFM(geometry, mass, context(), { sheetMetal: false });
+    const [wall] = result.issues;
+
+    expect(wall.severity).toBe('critical');
+    expect(wall.description).toContain('0.3 mm thick, below the 0.8 mm minimum');
+    expect(wall.affectedFeature).toBe('faces 5 and 6');
+    expect(result.score).toBe(75);
+    expect(result.suggestions.some(s => s.description.startsWith('Thicken walls'))).toBe(true);
+  });
+
+  it('suggests a near-net blank when most of the stock is cut away at volume', () => {
+    const { geometry, mass } = box(100, 60, 40);
+    const hollow = { ...mass, volume: mass.volume * 0.1 };
+    const result = analyzeShapeDFM(geometry, hollow, context({ quantity: 50 }));
+
+    expect(result.suggestions.some(s => s.description.includes('near-net blank'))).toBe(true);
+  });
+});
@@ -0,0 +1,1124 @@
+/**
+ * Geometry-based Design for Manufacturability
+ *
+ * Interrogates the kernel's face classification and triangulation
+ * (`analyzeFaces`) for a 3-axis milling setup:
+ * - Thin walls (ray cast through the material behind each face)
+ * - Deep narrow pockets vs standard endmill reach
+ * - Internal corners tighter than the smallest endmill
+ * - Undercuts and faces needing a second setup
+ * - Hole depth-to-diameter ratios vs standard drills
+ * - Sheet-metal feature rules when the wall thickness is uniform
+ *
+ * Distances are mm, volumes mm³, costs in the budget currency.
+ */
+
+import type { FaceAnalysis, FaceInfo, MassProperties, BoundingBox } from '../../core/kernel';
+import type { Point3D } from '../../knowledge/types';
+import { validateMinFeatures } from '../../knowledge/domains/enclosure';
+import { standardEndmills, standardDrills } from '../../outputs';
+import { add, cross, dot, normalize, scale, subtract } from '../../spatial';
+import type {
+  CostBreakdown,
+  DesignContext,
+  DFMAnalysis,
+  DFMIssue,
+  DFMOptions,
+  DFMSuggestion,
+  Material,
+  SetupDirection,
+} from './index';
+
+// ============================================================================
+// SHOP DATA
+// ============================================================================
+
+/** Thinnest wall that survives clamping and cutting forces (mm) */
+const minWallThickness: Record<Material['type'], number> = {
+  steel: 0.5,
+  stainless: 0.6,
+  aluminum: 0.8,
+  copper: 0.8,
+  plastic: 1.5,
+  composite: 1.5,
+  wood: 3,
+};
+
+/** Roughing metal removal rate on a 3-axis VMC (cm³/min) */
+const removalRate: Record<Material['type'], number> = {
+  steel: 12,
+  stainless: 7,
+  aluminum: 40,
+  copper: 25,
+  plastic: 50,
+  composite: 15,
+  wood: 80,
+};
+
+/** Fiber laser cutting speed at 2 mm (mm/min) */
+const laserSpeed: Record<Material['type'], number> = {
+  steel: 6000,
+  stainless: 5000,
+  aluminum: 7000,
+  copper: 3000,
+  plastic: 8000,
+  composite: 3000,
+  wood: 8000,
+};
+
+const defaultMaterial: Material = {
+  name: '6061-T6 Aluminum',
+  type: 'aluminum',
+  grade: '6061-T6',
+  properties: {
+    density: 2700,
+    yieldStrength: 276,
+    tensileStrength: 310,
+    elasticModulus: 68.9,
+    thermalExpansion: 23.6,
+    corrosionResistance: 'good',
+  },
+  costPerKg: 6,
+  availability: 'stock',
+};
+
+const MACHINE_RATE = 90;          // per hour, 3-axis VMC
+const SETUP_COST = 75;            // per setup (fixturing, zeroing, first part)
+const STOCK_ALLOWANCE = 3;        // mm per side on sawn bar
+const FINISH_RATE = 1500;         // mm²/min finishing pass
+const BEND_COST = 1.5;            // per press-brake hit
+const MAX_SAMPLES = 3000;         // triangles ray-cast per query
+
+const severityPenalty: Record<DFMIssue['severity'], number> = {
+  critical: 25,
+  major: 10,
+  minor: 3,
+  info: 0,
+};
+
+// ============================================================================
+// MESH QUERIES
+// ============================================================================
+
+interface BVHNode {
+  min: Point3D;
+  max: Point3D;
+  left?: BVHNode;
+  right?: BVHNode;
+  triangles?: number[];
+}
+
+interface RayHit {
+  t: number;
+  triangle: number;
+}
+
+/**
+ * Triangulated shape with a bounding-volume hierarchy for ray casts.
+ * Triangles keep the kernel's outward winding.
+ */
+export class ShapeMesh {
+  readonly triangleCount: number;
+  readonly faceIds: Uint32Array;
+  private readonly positions: Float32Array;
+  private readonly indices: Uint32Array;
+  private readonly normals: Point3D[] = [];
+  private readonly centroids: Point3D[] = [];
+  private readonly areas: number[] = [];
+  private readonly root: BVHNode;
+
+  constructor(mesh: FaceAnalysis['mesh']) {
+    this.positions = mesh.positions;
+    this.indices = mesh.indices;
+    this.faceIds = mesh.faceIds;
+    this.triangleCount = mesh.faceIds.length;
+
+    for (let i = 0; i < this.triangleCount; i++) {
+      const [a, b, c] = this.corners(i);
+      const n = cross(subtract(b, a), subtract(c, a));
+      const length = Math.hypot(n.x, n.y, n.z);
+      this.areas.push(length / 2);
+      this.normals.push(length > 0 ? scale(n, 1 / length) : { x: 0, y: 0, z: 0 });
+      this.centroids.push({ x: (a.x + b.x + c.x) / 3, y: (a.y + b.y + c.y) / 3, z: (a.z + b.z + c.z) / 3 });
+    }
+
+    this.root = this.build(Array.from({ length: this.triangleCount }, (_, i) => i));
+  }
+
+  vertex(index: number): Point3D {
+    const p = this.positions;
+    return { x: p[index * 3], y: p[index * 3 + 1], z: p[index * 3 + 2] };
+  }
+
+  vertexIndices(triangle: number): [number, number, number] {
+    const i = this.indices;
+    return [i[triangle * 3], i[triangle * 3 + 1], i[triangle * 3 + 2]];
+  }
+
+  corners(triangle: number): [Point3D, Point3D, Point3D] {
+    const [a, b, c] = this.vertexIndices(triangle);
+    return [this.vertex(a), this.vertex(b), this.vertex(c)];
+  }
+
+  normal(triangle: number): Point3D {
+    return this.normals[triangle];
+  }
+
+  centroid(triangle: number): Point3D {
+    return this.centroids[triangle];
+  }
+
+  area(triangle: number): number {
+    return this.areas[triangle];
+  }
+
+  /** Nearest hit along `direction` (unit), ignoring triangles rejected by `skip` */
+  raycast(origin: Point3D, direction: Point3D, skip?: (triangle: number) => boolean): RayHit | null {
+    let best: RayHit | null = null;
+    const inverse = { x: 1 / direction.x, y: 1 / direction.y, z: 1 / direction.z };
+    const stack: BVHNode[] = [this.root];
+
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (!rayHitsBox(origin, inverse, node, best ? best.t : Infinity)) continue;
+      if (node.triangles) {
+        for (const triangle of node.triangles) {
+          if (skip?.(triangle)) continue;
+          const t = this.intersect(triangle, origin, direction);
+          if (t !== null && (!best || t < best.t)) best = { t, triangle };
+        }
+      } else {
+        stack.push(node.left!, node.right!);
+      }
+    }
+    return best;
+  }
+
+  /** Enclosed volume by the divergence theorem (closed, outward-wound mesh) */
+  volume(): number {
+    let sum = 0;
+    for (let i = 0; i < this.triangleCount; i++) {
+      const [a, b, c] = this.corners(i);
+      sum += dot(a, cross(b, c));
+    }
+    return sum / 6;
+  }
+
+  /**
+   * Distances of every surface crossing along `direction` (unit), nearest
+   * first; a hit on an edge shared by two triangles counts once
+   */
+  crossings(origin: Point3D, direction: Point3D): number[] {
+    const hits: number[] = [];
+    const inverse = { x: 1 / direction.x, y: 1 / direction.y, z: 1 / direction.z };
+    const stack: BVHNode[] = [this.root];
+
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (!rayHitsBox(origin, inverse, node, Infinity)) continue;
+      if (node.triangles) {
+        for (const triangle of node.triangles) {
+          const t = this.intersect(triangle, origin, direction);
+          if (t !== null) hits.push(t);
+        }
+      } else {
+        stack.push(node.left!, node.right!);
+      }
+    }
+    hits.sort((a, b) => a - b);
+    return hits.filter((t, i) => i === 0 || t - hits[i - 1] > 1e-6);
+  }
+
+  /** Möller–Trumbore; returns the distance or null */
+  private intersect(triangle: number, origin: Point3D, direction: Point3D): number | null {
+    const [a, b, c] = this.corners(triangle);
+    const e1 = subtract(b, a);
+    const e2 = subtract(c, a);
+    const p = cross(direction, e2);
+    const det = dot(e1, p);
+    if (Math.abs(det) < 1e-12) return null;
+    const s = subtract(origin, a);
+    const u = dot(s, p) / det;
+    if (u < 0 || u > 1) return null;
+    const q = cross(s, e1);
+    const v = dot(direction, q) / det;
+    if (v < 0 || u + v > 1) return null;
+    const t = dot(e2, q) / det;
+    return t > 1e-6 ? t : null;
+  }
+
+  private build(triangles: number[]): BVHNode {
+    const min = { x: Infinity, y: Infinity, z: Infinity };
+    const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+    for (const triangle of triangles) {
+      for (const p of this.corners(triangle)) {
+        min.x = Math.min(min.x, p.x); min.y = Math.min(min.y, p.y); min.z = Math.min(min.z, p.z);
+        max.x = Math.max(max.x, p.x); max.y = Math.max(max.y, p.y); max.z = Math.max(max.z, p.z);
+      }
+    }
+    if (triangles.length <= 8) return { min, max, triangles };
+
+    // Median split on the longest axis
+    const size = subtract(max, min);
+    const axis: keyof Point3D = size.x >= size.y && size.x >= size.z ? 'x' : size.y >= size.z ? 'y' : 'z';
+    const sorted = [...triangles].sort((a, b) => this.centroids[a][axis] - this.centroids[b][axis]);
+    const half = sorted.length >> 1;
+    return { min, max, left: this.build(sorted.slice(0, half)), right: this.build(sorted.slice(half)) };
+  }
+}
+
+function rayHitsBox(origin: Point3D, inverse: Point3D, box: { min: Point3D; max: Point3D }, limit: number): boolean {
+  let near = 0;
+  let far = limit;
+  for (const axis of ['x', 'y', 'z'] as const) {
+    let t1 = (box.min[axis] - origin[axis]) * inverse[axis];
+    let t2 = (box.max[axis] - origin[axis]) * inverse[axis];
+    if (Number.isNaN(t1) || Number.isNaN(t2)) {
+      // Ray parallel to and on a slab boundary
+      if (origin[axis] < box.min[axis] || origin[axis] > box.max[axis]) return false;
+      continue;
+    }
+    if (t1 > t2) [t1, t2] = [t2, t1];
+    near = Math.max(near, t1);
+    far = Math.min(far, t2);
+    if (near > far) return false;
+  }
+  return true;
+}
+
+// ============================================================================
+// FEATURE RECOGNITION
+// ============================================================================
+
+const setupVectors: Record<SetupDirection, Point3D> = {
+  '+X': { x: 1, y: 0, z: 0 },
+  '-X': { x: -1, y: 0, z: 0 },
+  '+Y': { x: 0, y: 1, z: 0 },
+  '-Y': { x: 0, y: -1, z: 0 },
+  '+Z': { x: 0, y: 0, z: 1 },
+  '-Z': { x: 0, y: 0, z: -1 },
+};
+
+const oppositeSetup: Record<SetupDirection, SetupDirection> = {
+  '+X': '-X', '-X': '+X', '+Y': '-Y', '-Y': '+Y', '+Z': '-Z', '-Z': '+Z',
+};
+
+interface Hole {
+  faces: FaceInfo[];
+  diameter: number;
+  depth: number;
+  axis: Point3D;
+  center: Point3D;
+}
+
+interface Recognized {
+  trianglesByFace: Map<number, number[]>;
+  concave: Set<number>;
+  holes: Hole[];
+  holeFaces: Set<number>;
+  /** Concave partial cylinders: fillets, or bends on sheet metal */
+  fillets: FaceInfo[];
+}
+
+function recognizeFeatures(faces: FaceInfo[], mesh: ShapeMesh): Recognized {
+  const trianglesByFace = new Map<number, number[]>();
+  for (let i = 0; i < mesh.triangleCount; i++) {
+    const list = trianglesByFace.get(mesh.faceIds[i]);
+    if (list) list.push(i);
+    else trianglesByFace.set(mesh.faceIds[i], [i]);
+  }
+
+  // A cylinder is concave when its outward normals point at the axis
+  const concave = new Set<number>();
+  for (const face of faces) {
+    if (face.type !== 'cylinder' || !face.axis) continue;
+    const axis = normalize(face.axis.direction);
+    let sense = 0;
+    for (const triangle of trianglesByFace.get(face.index) ?? []) {
+      const c = mesh.centroid(triangle);
+      const offset = subtract(c, face.axis.location);
+      const radial = subtract(offset, scale(axis, dot(offset, axis)));
+      sense += dot(mesh.normal(triangle), radial) * mesh.area(triangle);
+    }
+    if (sense < 0) concave.add(face.index);
+  }
+
+  // Periodic faces may be split at the seam: group concave cylinders on one axis
+  const groups: FaceInfo[][] = [];
+  for (const face of faces) {
+    if (!concave.has(face.index)) continue;
+    const group = groups.find(g => sameCylinder(g[0], face));
+    if (group) group.push(face);
+    else groups.push([face]);
+  }
+
+  const holes: Hole[] = [];
+  const holeFaces = new Set<number>();
+  const fillets: FaceInfo[] = [];
+  for (const group of groups) {
+    const sweep = group.reduce((sum, f) => sum + (f.sweep ?? 0), 0);
+    if (sweep < 2 * Math.PI - 0.05) {
+      fillets.push(...group);
+      continue;
+    }
+    const area = group.reduce((sum, f) => sum + f.area, 0);
+    holes.push({
+      faces: group,
+      diameter: 2 * group[0].radius!,
+      depth: Math.max(...group.map(f => Math.abs(f.length ?? 0))),
+      axis: normalize(group[0].axis!.direction),
+      center: scale(group.reduce((sum, f) => add(sum, scale(f.center, f.area)), { x: 0, y: 0, z: 0 }), 1 / area),
+    });
+    group.forEach(f => holeFaces.add(f.index));
+  }
+
+  return { trianglesByFace, concave, holes, holeFaces, fillets };
+}
+
+function sameCylinder(a: FaceInfo, b: FaceInfo): boolean {
+  if (!a.axis || !b.axis || Math.abs(a.radius! - b.radius!) > 0.01) return false;
+  const axis = normalize(a.axis.direction);
+  if (Math.abs(dot(axis, normalize(b.axis.direction))) < 0.9999) return false;
+  const offset = subtract(b.axis.location, a.axis.location);
+  const off = subtract(offset, scale(axis, dot(offset, axis)));
+  return Math.hypot(off.x, off.y, off.z) < 0.01;
+}
+
+/** Spread a sample budget over faces so small faces are still probed */
+function sampleTriangles(recognized: Recognized, total: number): number[] {
+  const samples: number[] = [];
+  for (const triangles of recognized.trianglesByFace.values()) {
+    const count = Math.max(4, Math.ceil(MAX_SAMPLES * triangles.length / Math.max(total, 1)));
+    const stride = Math.max(1, Math.floor(triangles.length / count));
+    for (let i = 0; i < triangles.length; i += stride) samples.push(triangles[i]);
+  }
+  return samples;
+}
+
+/** [low, high] of a box measured along a setup direction */
+function extentAlong(bounds: BoundingBox, d: Point3D): [number, number] {
+  const a = dot(bounds.min, d);
+  const b = dot(bounds.max, d);
+  return [Math.min(a, b), Math.max(a, b)];
+}
+
+/** Two unit vectors spanning the plane perpendicular to `d` */
+function perpendicularBasis(d: Point3D): [Point3D, Point3D] {
+  const seed = Math.abs(d.x) < 0.9 ? { x: 1, y: 0, z: 0 } : { x: 0, y: 1, z: 0 };
+  const u = normalize(cross(d, seed));
+  return [u, cross(d, u)];
+}
+
+function lateralDirections(d: Point3D, count: number): Point3D[] {
+  const [u, v] = perpendicularBasis(d);
+  return Array.from({ length: count }, (_, k) => {
+    const angle = (2 * Math.PI * k) / count;
+    return add(scale(u, Math.cos(angle)), scale(v, Math.sin(angle)));
+  });
+}
+
+function round(value: number, places = 2): number {
+  const f = 10 ** places;
+  return Math.round(value * f) / f;
+}
+
+// ============================================================================
+// ACCESSIBILITY
+// ============================================================================
+
+type Access = 'direct' | 'flip' | 'none';
+
+function reachable(mesh: ShapeMesh, triangle: number, d: Point3D): boolean {
+  const n = mesh.normal(triangle);
+  if (dot(n, d) < -0.02) return false;
+  const origin = add(mesh.centroid(triangle), add(scale(n, 1e-3), scale(d, 1e-3)));
+  return mesh.raycast(origin, d, t => t === triangle) === null;
+}
+
+function classifyAccess(mesh: ShapeMesh, triangle: number, d: Point3D): Access {
+  if (reachable(mesh, triangle, d)) return 'direct';
+  return reachable(mesh, triangle, scale(d, -1)) ? 'flip' : 'none';
+}
+
+function chooseSetup(mesh: ShapeMesh, samples: number[], bounds: BoundingBox): SetupDirection {
+  let best: SetupDirection = '+Z';
+  let bestScore = -Infinity;
+  for (const direction of Object.keys(setupVectors) as SetupDirection[]) {
+    const d = setupVectors[direction];
+    // Faces the spindle looks at count fully, walls cut with the flank half
+    let area = 0;
+    for (const triangle of samples) {
+      if (!reachable(mesh, triangle, d)) continue;
+      area += mesh.area(triangle) * (dot(mesh.normal(triangle), d) > 0.02 ? 1 : 0.5);
+    }
+    // Prefer the thinnest stock axis on ties: shorter tools, stiffer setup
+    const [low, high] = extentAlong(bounds, d);
+    const score = area - 1e-6 * (high - low);
+    if (score > bestScore) {
+      bestScore = score;
+      best = direction;
+    }
+  }
+  return best;
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+interface CheckState {
+  issues: DFMIssue[];
+  suggestions: DFMSuggestion[];
+  setups: Set<SetupDirection>;
+  pocketCount: number;
+}
+
+/**
+ * DFM analysis of a kernel shape. `geometry` comes from `analyzeFaces`,
+ * `mass` from `getMassProperties`.
+ */
+export function analyzeShapeDFM(
+  geometry: FaceAnalysis,
+  mass: MassProperties,
+  context: DesignContext,
+  options: DFMOptions = {}
+): DFMAnalysis {
+  const material = context.availableMaterials[0] ?? defaultMaterial;
+  const mesh = new ShapeMesh(geometry.mesh);
+  const faces = new Map(geometry.faces.map(f => [f.index, f]));
+  const recognized = recognizeFeatures(geometry.faces, mesh);
+  const samples = sampleTriangles(recognized, mesh.triangleCount);
+
+  const state: CheckState = { issues: [], suggestions: [], setups: new Set(), pocketCount: 0 };
+
+  const thickness = measureWalls(mesh, samples, faces);
+  const sheetThickness = detectSheetMetal(thickness, context.partType === 'enclosure' ? 0.6 : 0.8, options.sheetMetal);
+
+  if (sheetThickness !== null) {
+    checkSheetMetal(mesh, recognized, sheetThickness, state);
+  } else {
+    const setup = options.setupDirection ?? chooseSetup(mesh, samples, geometry.bounds);
+    state.setups.add(setup);
+    const wallLimit = options.minWallThickness ?? minWallThickness[material.type];
+
+    checkThinWalls(thickness, wallLimit, state);
+    checkUndercuts(mesh, samples, recognized, faces, geometry.bounds, setup, state);
+    checkPockets(mesh, geometry.faces, recognized, geometry.bounds, setup, state);
+    checkInternalCorners(mesh, recognized, faces, setup, state);
+    checkHoles(recognized.holes, setup, state);
+  }
+
+  const severityOrder: DFMIssue['severity'][] = ['critical', 'major', 'minor', 'info'];
+  state.issues.sort((a, b) => severityOrder.indexOf(a.severity) - severityOrder.indexOf(b.severity));
+
+  const breakdown = sheetThickness !== null
+    ? sheetMetalCost(mass, sheetThickness, recognized, material, context)
+    : machiningCost(mass, geometry.bounds, recognized, material, context, state);
+
+  const removed = 1 - mass.volume / stockVolume(geometry.bounds);
+  if (sheetThickness === null && removed > 0.7 && context.quantity >= 50) {
+    state.suggestions.push({
+      category: 'cost_reduction',
+      description: `${Math.round(removed * 100)}% of the stock is machined away; at ${context.quantity} off a near-net blank (extrusion, casting or weldment) would cut material and cycle time`,
+      impact: 'high',
+      estimatedSavings: round(0.4 * (breakdown.material + breakdown.machining) * context.quantity),
+    });
+  }
+
+  const score = Math.max(0, 100 - state.issues.reduce((sum, issue) => sum + severityPenalty[issue.severity], 0));
+
+  return {
+    score,
+    issues: state.issues,
+    suggestions: state.suggestions,
+    estimatedCost: {
+      min: round(breakdown.total * 0.85),
+      max: round(breakdown.total * 1.3),
+      breakdown,
+    },
+  };
+}
+
+/** Features of a shape that drive process selection */
+export interface ShapeFeatures {
+  holes: { diameter: number; depth: number; axis: Point3D }[];
+  /** Concave partial cylinders: bends on sheet metal, fillets otherwise */
+  bends: number;
+  /** Uniform wall thickness when the shape reads as sheet metal (mm) */
+  sheetThickness: number | null;
+  /** Smallest hole diameter or inside radius (mm) */
+  minFeature: number | null;
+}
+
+/**
+ * Recognize holes, bends and sheet thickness without running the DFM checks
+ */
+export function summarizeFeatures(geometry: FaceAnalysis): ShapeFeatures {
+  const mesh = new ShapeMesh(geometry.mesh);
+  const faces = new Map(geometry.faces.map(f => [f.index, f]));
+  const recognized = recognizeFeatures(geometry.faces, mesh);
+  const walls = measureWalls(mesh, sampleTriangles(recognized, mesh.triangleCount), faces);
+  const bends = recognized.fillets.filter((face, i, all) => all.findIndex(f => sameCylinder(f, face)) === i);
+  const sizes = [...recognized.holes.map(h => h.diameter), ...bends.map(f => f.radius!)];
+
+  return {
+    holes: recognized.holes.map(h => ({ diameter: round(h.diameter), depth: round(h.depth), axis: h.axis })),
+    bends: bends.length,
+    sheetThickness: detectSheetMetal(walls, 0.8),
+    minFeature: sizes.length > 0 ? round(Math.min(...sizes)) : null,
+  };
+}
+
+interface WallSample {
+  triangle: number;
+  face: number;
+  /** Face on the far side of the wall */
+  opposite: number;
+  thickness: number;
+  location: Point3D;
+  planar: boolean;
+  /** Surface area the sample stands for: its face's area over the face's sample count */
+  weight: number;
+}
+
+/** Ray-cast inward from each sample to the opposite skin */
+function measureWalls(mesh: ShapeMesh, samples: number[], faces: Map<number, FaceInfo>): WallSample[] {
+  const perFace = new Map<number, number>();
+  for (const triangle of samples) {
+    perFace.set(mesh.faceIds[triangle], (perFace.get(mesh.faceIds[triangle]) ?? 0) + 1);
+  }
+
+  const walls: WallSample[] = [];
+  for (const triangle of samples) {
+    const n = mesh.normal(triangle);
+    const inward = scale(n, -1);
+    const origin = add(mesh.centroid(triangle), scale(inward, 1e-4));
+    const hit = mesh.raycast(origin, inward, t => t === triangle);
+    if (!hit) continue;
+    walls.push({
+      triangle,
+      face: mesh.faceIds[triangle],
+      opposite: mesh.faceIds[hit.triangle],
+      thickness: hit.t,
+      location: add(origin, scale(inward, hit.t / 2)),
+      planar: faces.get(mesh.faceIds[triangle])?.type === 'plane',
+      weight: (faces.get(mesh.faceIds[triangle])?.area ?? mesh.area(triangle)) / perFace.get(mesh.faceIds[triangle])!,
+    });
+  }
+  return walls;
+}
+
+/**
+ * Sheet metal when most of the planar wall area shares one thickness;
+ * returns it. Weighting by area keeps the narrow edge faces, which the
+ * mesher splits as finely as the skins, from outvoting them.
+ */
+function detectSheetMetal(walls: WallSample[], threshold: number, forced?: boolean): number | null {
+  if (forced === false) return null;
+  const planar = walls.filter(w => w.planar).sort((a, b) => a.thickness - b.thickness);
+  const total = planar.reduce((sum, w) => sum + w.weight, 0);
+  if (planar.length === 0 || total <= 0) return null;
+
+  // Area-weighted median
+  let below = 0;
+  const median = (planar.find(w => (below += w.weight) >= total / 2) ?? planar[planar.length - 1]).thickness;
+  const uniform = planar
+    .filter(w => Math.abs(w.thickness - median) <= 0.1 * median)
+    .reduce((sum, w) => sum + w.weight, 0) / total;
+
+  if (forced === true) return round(median);
+  return uniform >= threshold && median <= 6 ? round(median) : null;
+}
+
+function checkThinWalls(walls: WallSample[], limit: number, state: CheckState): void {
+  // One issue per wall, i.e. per pair of skins
+  const thinnest = new Map<string, WallSample>();
+  for (const wall of walls) {
+    if (wall.thickness >= limit) continue;
+    const key = [wall.face, wall.opposite].sort((a, b) => a - b).join(' and ');
+    const current = thinnest.get(key);
+    if (!current || wall.thickness < current.thickness) thinnest.set(key, wall);
+  }
+
+  for (const [faces, wall] of thinnest) {
+    state.issues.push({
+      severity: wall.thickness < limit / 2 ? 'critical' : 'major',
+      category: 'geometry',
+      description: `Wall between faces ${faces} is ${round(wall.thickness)} mm thick, below the ${limit} mm minimum; it will deflect or chatter under the cutter`,
+      location: wall.location,
+      affectedFeature: `faces ${faces}`,
+    });
+  }
+  if (thinnest.size > 0) {
+    state.suggestions.push({
+      category: 'quality_improvement',
+      description: `Thicken walls to at least ${limit} mm or back them with ribs`,
+      impact: 'high',
+    });
+  }
+}
+
+function checkUndercuts(
+  mesh: ShapeMesh,
+  samples: number[],
+  recognized: Recognized,
+  faces: Map<number, FaceInfo>,
+  bounds: BoundingBox,
+  setup: SetupDirection,
+  state: CheckState
+): void {
+  const d = setupVectors[setup];
+  const [stockBottom] = extentAlong(bounds, d);
+  const access = new Map<number, Record<Access, number>>();
+
+  for (const triangle of samples) {
+    const faceIndex = mesh.faceIds[triangle];
+    if (recognized.holeFaces.has(faceIndex)) continue; // Holes get their own setup check
+
+    // The stock face under the part is never machined
+    const face = faces.get(faceIndex)!;
+    if (face.type === 'plane' && dot(mesh.normal(triangle), d) < -0.98 &&
+        Math.abs(dot(mesh.centroid(triangle), d) - stockBottom) < 0.01) continue;
+
+    const totals = access.get(faceIndex) ?? { direct: 0, flip: 0, none: 0 };
+    totals[classifyAccess(mesh, triangle, d)] += mesh.area(triangle);
+    access.set(faceIndex, totals);
+  }
+
+  const flipped: number[] = [];
+  for (const [faceIndex, totals] of access) {
+    const area = totals.direct + totals.flip + totals.none;
+    if (totals.none > 0.5 * area) {
+      state.issues.push({
+        severity: 'major',
+        category: 'geometry',
+        description: `Face ${faceIndex} is an undercut: it cannot be reached from ${setup} or from the flipped setup; needs a T-slot/lollipop cutter, 5-axis or EDM`,
+        location: faces.get(faceIndex)!.center,
+        affectedFeature: `face ${faceIndex}`,
+      });
+    } else if (totals.direct < 0.5 * area) {
+      flipped.push(faceIndex);
+    }
+  }
+
+  if (flipped.length > 0) {
+    const second = oppositeSetup[setup];
+    state.setups.add(second);
+    state.issues.push({
+      severity: 'minor',
+      category: 'process',
+      description: `${flipped.length} face(s) face away from the ${setup} setup and need a second setup from ${second}`,
+      location: faces.get(flipped[0])!.center,
+      affectedFeature: flipped.map(f => `face ${f}`).join(', '),
+    });
+    state.suggestions.push({
+      category: 'cost_reduction',
+      description: `Move features onto the ${setup} side so the part machines in one setup`,
+      impact: 'medium',
+      estimatedSavings: SETUP_COST,
+    });
+  }
+}
+
+function checkPockets(
+  mesh: ShapeMesh,
+  faces: FaceInfo[],
+  recognized: Recognized,
+  bounds: BoundingBox,
+  setup: SetupDirection,
+  state: CheckState
+): void {
+  const d = setupVectors[setup];
+  const [, stockTop] = extentAlong(bounds, d);
+  const directions = lateralDirections(d, 8);
+  const smallest = standardEndmills[0];
+  let deepPockets = 0;
+
+  for (const floor of faces) {
+    const triangles = recognized.trianglesByFace.get(floor.index);
+    if (floor.type !== 'plane' || !triangles || dot(mesh.normal(triangles[0]), d) < 0.98) continue;
+    const level = dot(floor.center, d);
+    if (stockTop - level < 0.5) continue;
+
+    // Floors face the spindle and are open above
+    const probe = add(floor.center, scale(d, 0.5));
+    if (mesh.raycast(probe, d) !== null) continue;
+
+    const hits = directions.map(direction => mesh.raycast(probe, direction));
+    let width = Infinity;
+    let walls: number[] = [];
+    for (let k = 0; k < 4; k++) {
+      const a = hits[k];
+      const b = hits[k + 4];
+      if (!a || !b || a.t + b.t >= width) continue;
+      width = a.t + b.t;
+      walls = [mesh.faceIds[a.triangle], mesh.faceIds[b.triangle]];
+    }
+    // Open steps have no opposing walls; blind hole bottoms are checked as holes
+    if (!Number.isFinite(width) || walls.some(w => recognized.holeFaces.has(w))) continue;
+
+    state.pocketCount++;
+    const depth = Math.max(...walls.map(w => extentAlong(faces.find(f => f.index === w)!.bounds, d)[1])) - level;
+    const tool = [...standardEndmills].reverse().find(t => t.diameter < width);
+
+    if (!tool) {
+      state.issues.push({
+        severity: 'critical',
+        category: 'geometry',
+        description: `Pocket at face ${floor.index} is ${round(width)} mm wide; the smallest endmill is Ø${smallest.diameter} mm`,
+        location: floor.center,
+        affectedFeature: `face ${floor.index}`,
+      });
+    } else if (depth > tool.length) {
+      state.issues.push({
+        severity: 'critical',
+        category: 'geometry',
+        description: `Pocket at face ${floor.index} is ${round(depth)} mm deep, beyond the ${tool.length} mm reach of the Ø${tool.diameter} mm endmill that fits its ${round(width)} mm width`,
+        location: floor.center,
+        affectedFeature: `face ${floor.index}`,
+      });
+      deepPockets++;
+    } else if (depth / tool.diameter > 3) {
+      state.issues.push({
+        severity: depth / tool.diameter > 4 ? 'major' : 'minor',
+        category: 'geometry',
+        description: `Deep narrow pocket at face ${floor.index}: ${round(depth)} mm deep with a Ø${tool.diameter} mm endmill (${round(depth / tool.diameter, 1)}:1, keep under 3:1)`,
+        location: floor.center,
+        affectedFeature: `face ${floor.index}`,
+      });
+      deepPockets++;
+    }
+  }
+
+  if (deepPockets > 0) {
+    state.suggestions.push({
+      category: 'cost_reduction',
+      description: 'Limit pocket depth to 3× the corner tool diameter, widen the pocket or open one side',
+      impact: 'high',
+    });
+  }
+}
+
+function checkInternalCorners(
+  mesh: ShapeMesh,
+  recognized: Recognized,
+  faces: Map<number, FaceInfo>,
+  setup: SetupDirection,
+  state: CheckState
+): void {
+  const d = setupVectors[setup];
+  const tool = standardEndmills[0];
+  const minRadius = tool.diameter / 2;
+  let tight = 0;
+
+  // Filleted corners along the spindle axis
+  for (const fillet of recognized.fillets) {
+    if (Math.abs(dot(normalize(fillet.axis!.direction), d)) < 0.98) continue;
+    if (fillet.radius! >= minRadius) continue;
+    tight++;
+    state.issues.push({
+      severity: 'major',
+      category: 'geometry',
+      description: `Internal corner radius ${round(fillet.radius!)} mm is tighter than the Ø${tool.diameter} mm smallest endmill can cut`,
+      location: fillet.center,
+      affectedFeature: `face ${fillet.index}`,
+    });
+  }
+
+  // Sharp concave edges between planar walls, found from shared mesh edges
+  const key = (v: number) => {
+    const p = mesh.vertex(v);
+    return `${Math.round(p.x * 1000)},${Math.round(p.y * 1000)},${Math.round(p.z * 1000)}`;
+  };
+  const edges = new Map<string, { triangle: number; a: Point3D; b: Point3D }[]>();
+  for (let triangle = 0; triangle < mesh.triangleCount; triangle++) {
+    const face = faces.get(mesh.faceIds[triangle]);
+    if (face?.type !== 'plane') continue;
+    const vertices = mesh.vertexIndices(triangle);
+    for (let k = 0; k < 3; k++) {
+      const va = vertices[k];
+      const vb = vertices[(k + 1) % 3];
+      const ka = key(va);
+      const kb = key(vb);
+      const edgeKey = ka < kb ? `${ka}|${kb}` : `${kb}|${ka}`;
+      const list = edges.get(edgeKey) ?? [];
+      list.push({ triangle, a: mesh.vertex(va), b: mesh.vertex(vb) });
+      edges.set(edgeKey, list);
+    }
+  }
+
+  const corners = new Map<string, { length: number; location: Point3D }>();
+  for (const list of edges.values()) {
+    if (list.length !== 2) continue;
+    const [first, second] = list;
+    const faceA = mesh.faceIds[first.triangle];
+    const faceB = mesh.faceIds[second.triangle];
+    if (faceA === faceB) continue;
+
+    const along = subtract(first.b, first.a);
+    const length = Math.hypot(along.x, along.y, along.z);
+    if (length === 0 || Math.abs(dot(along, d)) / length < 0.98) continue;
+
+    const nA = mesh.normal(first.triangle);
+    if (dot(nA, mesh.normal(second.triangle)) > 0.98) continue;
+    const midpoint = scale(add(first.a, first.b), 0.5);
+    if (dot(nA, subtract(mesh.centroid(second.triangle), midpoint)) <= 1e-4 * length) continue;
+
+    const pair = faceA < faceB ? `${faceA}-${faceB}` : `${faceB}-${faceA}`;
+    const corner = corners.get(pair) ?? { length: 0, location: midpoint };
+    corner.length += length;
+    corners.set(pair, corner);
+  }
+
+  for (const [pair, corner] of corners) {
+    tight++;
+    state.issues.push({
+      severity: 'major',
+      category: 'geometry',
+      description: `Sharp internal corner between faces ${pair.replace('-', ' and ')} (${round(corner.length)} mm along the spindle axis) cannot be cut by a rotating endmill`,
+      location: corner.location,
+      affectedFeature: `faces ${pair}`,
+    });
+  }
+
+  if (tight > 0) {
+    state.suggestions.push({
+      category: 'cost_reduction',
+      description: `Give internal vertical corners a radius of at least ${round(minRadius * 1.1, 1)} mm (Ø${tool.diameter} mm endmill) or add dog-bone reliefs for mating square parts`,
+      impact: 'medium',
+    });
+  }
+}
+
+function checkHoles(holes: Hole[], setup: SetupDirection, state: CheckState): void {
+  const d = setupVectors[setup];
+  const nonStandard: number[] = [];
+
+  holes.forEach((hole, i) => {
+    const name = `Ø${round(hole.diameter)} hole ${i + 1}`;
+    const ratio = hole.depth / hole.diameter;
+    const drill = standardDrills.find(t => Math.abs(t.diameter - hole.diameter) <= 0.05);
+    const endmill = [...standardEndmills].reverse().find(t => t.diameter <= hole.diameter);
+    const feature = hole.faces.map(f => `face ${f.index}`).join(', ');
+
+    if (ratio > 10) {
+      state.issues.push({
+        severity: 'major',
+        category: 'geometry',
+        description: `${name} is ${round(ratio, 1)}×D deep; beyond 10×D needs gun drilling`,
+        location: hole.center,
+        affectedFeature: feature,
+      });
+    } else if (ratio > 4) {
+      state.issues.push({
+        severity: 'minor',
+        category: 'process',
+        description: `${name} is ${round(ratio, 1)}×D deep and needs peck drilling`,
+        location: hole.center,
+        affectedFeature: feature,
+      });
+    }
+
+    const tool = drill ?? endmill;
+    if (!tool) {
+      nonStandard.push(i);
+      state.issues.push({
+        severity: 'minor',
+        category: 'process',
+        description: `${name} matches no standard drill and is smaller than the smallest endmill; needs a special drill`,
+        location: hole.center,
+        affectedFeature: feature,
+      });
+    } else if (hole.depth > tool.length) {
+      state.issues.push({
+        severity: 'major',
+        category: 'geometry',
+        description: `${name} is ${round(hole.depth)} mm deep, beyond the ${tool.length} mm reach of the ${tool.description}`,
+        location: hole.center,
+        affectedFeature: feature,
+      });
+    } else if (!drill) {
+      nonStandard.push(i);
+      state.issues.push({
+        severity: 'info',
+        category: 'process',
+        description: `${name} is not a standard drill size; it will be helically interpolated with the ${tool.description}`,
+        location: hole.center,
+        affectedFeature: feature,
+      });
+    }
+
+    const alignment = Math.abs(dot(hole.axis, d));
+    if (alignment < 0.98) {
+      const axisAligned = [hole.axis.x, hole.axis.y, hole.axis.z].some(c => Math.abs(c) > 0.98);
+      if (axisAligned) {
+        const direction = (Object.keys(setupVectors) as SetupDirection[])
+          .find(s => dot(setupVectors[s], hole.axis) > 0.98)!;
+        state.setups.add(direction);
+      }
+      state.issues.push({
+        severity: axisAligned ? 'minor' : 'major',
+        category: 'process',
+        description: axisAligned
+          ? `${name} is not on the ${setup} spindle axis and needs its own setup`
+          : `${name} is at a compound angle; needs a 5-axis machine or an angled fixture`,
+        location: hole.center,
+        affectedFeature: feature,
+      });
+    }
+  });
+
+  if (nonStandard.length > 0) {
+    const sizes = standardDrills.map(t => t.diameter).join(', ');
+    state.suggestions.push({
+      category: 'lead_time',
+      description: `Use standard drill sizes (Ø${sizes} mm) for holes ${nonStandard.map(i => i + 1).join(', ')}`,
+      impact: 'low',
+    });
+  }
+}
+
+function checkSheetMetal(mesh: ShapeMesh, recognized: Recognized, thickness: number, state: CheckState): void {
+  const bends = recognized.fillets;
+  const bendFaces = new Set(bends.map(f => f.index));
+  const insideRadius = bends.length > 0 ? Math.min(...bends.map(f => f.radius!)) : thickness;
+
+  // Cut-outs through the sheet, probed at mid-thickness in the sheet plane
+  const holes = recognized.holes.filter(h => Math.abs(h.depth - thickness) <= 0.2 * thickness);
+  const holeOf = new Map<number, number>();
+  holes.forEach((hole, i) => hole.faces.forEach(f => holeOf.set(f.index, i)));
+
+  const holeEdgeDistances: number[] = [];
+  const holeToHoleDistances: number[] = [];
+  const holeToBendDistances: number[] = [];
+  holes.forEach((hole, i) => {
+    const own = new Set(hole.faces.map(f => f.index));
+    let edge = Infinity;
+    let toHole = Infinity;
+    let toBend = Infinity;
+    for (const direction of lateralDirections(hole.axis, 8)) {
+      const hit = mesh.raycast(hole.center, direction, t => own.has(mesh.faceIds[t]));
+      if (!hit) continue;
+      const gap = hit.t - hole.diameter / 2;
+      const face = mesh.faceIds[hit.triangle];
+      const other = holeOf.get(face);
+      if (other !== undefined && other > i) toHole = Math.min(toHole, gap);
+      else if (other === undefined && bendFaces.has(face)) toBend = Math.min(toBend, gap);
+      else if (other === undefined) edge = Math.min(edge, gap);
+    }
+    if (Number.isFinite(edge)) holeEdgeDistances.push(round(edge));
+    if (Number.isFinite(toHole)) holeToHoleDistances.push(round(toHole));
+    if (Number.isFinite(toBend)) holeToBendDistances.push(round(toBend));
+  });
+
+  const result = validateMinFeatures({
+    thickness,
+    insideRadius,
+    holeDiameters: holes.map(h => round(h.diameter)),
+    holeEdgeDistances,
+    holeToHoleDistances,
+    holeToBendDistances,
+    flangeLengths: [],
+    bendSpacings: [],
+  });
+
+  const locate = (message: string): Point3D | undefined => {
+    const match = /^Hole (\d+)/.exec(message);
+    return match ? holes[Number(match[1]) - 1]?.center : undefined;
+  };
+  for (const message of result.violations) {
+    state.issues.push({ severity: 'major', category: 'geometry', description: message, location: locate(message), affectedFeature: 'sheet metal' });
+  }
+  for (const message of result.warnings) {
+    state.issues.push({ severity: 'minor', category: 'geometry', description: message, location: locate(message), affectedFeature: 'sheet metal' });
+  }
+  for (const description of result.recommendations) {
+    state.suggestions.push({ category: 'reliability', description, impact: 'low' });
+  }
+}
+
+// ============================================================================
+// COST
+// ============================================================================
+
+function stockVolume(bounds: BoundingBox): number {
+  const a = 2 * STOCK_ALLOWANCE;
+  return (bounds.size.x + a) * (bounds.size.y + a) * (bounds.size.z + a);
+}
+
+function finishCost(mass: MassProperties): number {
+  return 3 + mass.surfaceArea / 100 * 0.02;
+}
+
+function machiningCost(
+  mass: MassProperties,
+  bounds: BoundingBox,
+  recognized: Recognized,
+  material: Material,
+  context: DesignContext,
+  state: CheckState
+): CostBreakdown {
+  const quantity = Math.max(1, context.quantity);
+  const process = context.availableProcesses.find(p => p.type === 'subtractive');
+  const stock = stockVolume(bounds);
+  const removedCm3 = Math.max(0, stock - mass.volume) / 1000;
+
+  const materialCost = stock * 1e-9 * material.properties.density * material.costPerKg;
+
+  // Roughing + finishing passes + drilling, at the machine rate
+  const minutes = removedCm3 / removalRate[material.type] +
+    mass.surfaceArea / FINISH_RATE +
+    recognized.holes.length * 0.5 +
+    state.pocketCount * 2;
+  const machining = process
+    ? process.perPartCost.fixed + process.perPartCost.perVolume * removedCm3
+    : minutes / 60 * MACHINE_RATE;
+
+  const setups = Math.max(1, state.setups.size);
+  const setup = setups * (process?.setupCost ?? SETUP_COST) / quantity;
+
+  // First-article inspection amortized, plus per-feature checks
+  const inspection = 60 / quantity + 2 + 0.5 * (recognized.holes.length + state.pocketCount);
+
+  return totalled(materialCost, machining, setup, finishCost(mass), inspection);
+}
+
+function sheetMetalCost(
+  mass: MassProperties,
+  thickness: number,
+  recognized: Recognized,
+  material: Material,
+  context: DesignContext
+): CostBreakdown {
+  const quantity = Math.max(1, context.quantity);
+  const process = context.availableProcesses.find(p => p.type === 'cutting');
+
+  // 15% nesting scrap
+  const materialCost = mass.volume * 1.15 * 1e-9 * material.properties.density * material.costPerKg;
+
+  // Cut edges are the area not on either skin
+  const cutLength = Math.max(0, (mass.surfaceArea - 2 * mass.volume / thickness) / thickness);
+  const bends = recognized.fillets.length;
+  const cutting = process
+    ? process.perPartCost.fixed + process.perPartCost.perVolume * mass.volume / 1000
+    : cutLength / laserSpeed[material.type] / 60 * MACHINE_RATE;
+  const machining = cutting + bends * BEND_COST;
+
+  const setup = (bends > 0 ? 2 : 1) * (process?.setupCost ?? SETUP_COST) / quantity;
+  const inspection = 60 / quantity + 1 + 0.25 * recognized.holes.length;
+
+  return totalled(materialCost, machining, setup, finishCost(mass), inspection);
+}
+
+function totalled(material: number, machining: number, setup: number, finishing: number, inspection: number): CostBreakdown {
+  const breakdown = {
+    material: round(material),
+    machining: round(machining),
+    setup: round(setup),
+    finishing: round(finishing),
+    inspection: round(inspection),
+    total: 0,
+  };
+  breakdown.total = round(breakdown.material + breakdown.machining + breakdown.setup + breakdown.finishing + breakdown.inspection);
+  return breakdown;
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import type { FaceAnalysis } from '../../core/kernel';
+import type { Material } from './index';
+import { analyzeShapeStructure } from './fea';
+
+const steel: Material = {
+  name: 'A36 Structural Steel',
+  type: 'steel',
+  grade: 'A36',
+  properties: {
+    density: 7850,
+    yieldStrength: 250,
+    tensileStrength: 400,
+    elasticModulus: 200,
+    corrosionResistance: 'poor',
+  },
+  costPerKg: 1,
+  availability: 'stock',
+};
+
+/**
+ * Kernel face analysis of an axis-aligned box from the origin. Faces are
+ * numbered -x, +x, -y, +y, -z, +z (1-6).
+ */
+function box(sx: number, sy: number, sz: number): FaceAnalysis {
+  const vertex = (b: number) => [b & 1 ? sx : 0, b & 2 ? sy : 0, b & 4 ? sz : 0];
+  const quads = [[0, 4, 6, 2], [1, 3, 7, 5], [0, 1, 5, 4], [2, 6, 7, 3], [0, 2, 3, 1], [4, 5, 7, 6]];
+  const positions: number[] = [];
+  const indices: number[] = [];
+  const faceIds: number[] = [];
+
+  const faces = quads.map((quad, f) => {
+    const base = positions.length / 3;
+    const corners = quad.map(vertex);
+    corners.forEach(c => positions.push(...c));
+    indices.push(base, base + 1, base + 2, base, base + 2, base + 3);
+    faceIds.push(f + 1, f + 1);
+
+    const axis = (i: number) => corners.map(c => c[i]);
+    const min = { x: Math.min(...axis(0)), y: Math.min(...axis(1)), z: Math.min(...axis(2)) };
+    const max = { x: Math.max(...axis(0)), y: Math.max(...axis(1)), z: Math.max(...axis(2)) };
+    const size = { x: max.x - min.x, y: max.y - min.y, z: max.z - min.z };
+    return {
+      index: f + 1,
+      type: 'plane' as const,
+      area: (size.x || 1) * (size.y || 1) * (size.z || 1),
+      center: { x: (min.x + max.x) / 2, y: (min.y + max.y) / 2, z: (min.z + max.z) / 2 },
+      bounds: { min, max, size },
+    };
+  });
+
+  return {
+    faces,
+    mesh: {
+      positions: Float32Array.from(positions),
+      indices: Uint32Array.from(indices),
+      faceIds: Uint32Array.from(faceIds),
+    },
+    bounds: { min: { x: 0, y: 0, z: 0 }, max: { x: sx, y: sy, z: sz }, size: { x: sx, y: sy, z: sz } },
+  };
+}
+
+describe('analyzeShapeStructure', () => {
+  it('recovers axial stress and elongation of a bar in tension', () => {
+    const P = 1000;            // N
+    const [L, b, h] = [200, 20, 20];
+    const result = analyzeShapeStructure(
+      box(L, b, h), steel,
+      { type: 'static', forces: [{ x: P, y: 0, z: 0 }], safetyFactor: 1.5 },
+      { fixedFaces: [1], loadFaces: [2], elementSize: 5 }
+    );
+
+    const stress = P / (b * h);
+    const elongation = P * L / (b * h * steel.properties.elasticModulus * 1000);
+    // The clamped end restrains Poisson contraction, so the peak sits a little above P/A
+    expect(result.maxStress).toBeGreaterThanOrEqual(stress * 0.95);
+    expect(result.maxStress).toBeLessThan(stress * 1.3);
+    expect(result.maxDeflection).toBeCloseTo(elongation, 3);
+    expect(result.safetyFactor).toBeGreaterThan(50);
+  });
+
+  it('approaches beam theory for a cantilever tip load', () => {
+    const P = 500;             // N
+    const [L, b, h] = [300, 20, 30];
+    const result = analyzeShapeStructure(
+      box(L, b, h), steel,
+      { type: 'static', forces: [{ x: 0, y: 0, z: -P }], safetyFactor: 1.5 },
+      { fixedFaces: [1], loadFaces: [2], elementSize: 5 }
+    );
+
+    const I = b * h ** 3 / 12;
+    const tip = P * L ** 3 / (3 * steel.properties.elasticModulus * 1000 * I);
+    // Linear tetrahedra are stiff in bending; shear deformation adds a little
+    expect(result.maxDeflection).toBeGreaterThan(tip * 0.7);
+    expect(result.maxDeflection).toBeLessThan(tip * 1.15);
+    expect(result.criticalLocations.length).toBeGreaterThan(0);
+  });
+
+  it('warns when the safety factor falls short', () => {
+    const result = analyzeShapeStructure(
+      box(200, 20, 20), steel,
+      { type: 'static', forces: [{ x: 200000, y: 0, z: 0 }], safetyFactor: 2 },
+      { fixedFaces: [1], loadFaces: [2], elementSize: 5 }
+    );
+
+    expect(result.safetyFactor).toBeLessThan(2);
+    expect(result.warnings.some(w => w.includes('below the required 2'))).toBe(true);
+  });
+
+  it('rejects a load case with nothing to apply', () => {
+    expect(() => analyzeShapeStructure(
+      box(100, 10, 10), steel,
+      { type: 'static', forces: [{ x: 0, y: 0, z: 0 }], safetyFactor: 1.5 }
+    )).toThrow('no forces or moments');
+  });
+});
@@ -0,0 +1,783 @@
+/**
+ * Linear Elastic FEA-lite
+ *
+ * CPU-only static analysis of a kernel shape:
+ * 1. Voxelize the solid from the kernel triangulation (ray parity per grid
+ *    column) and split each cell into six conforming Kuhn tetrahedra
+ * 2. Assemble constant-strain tetrahedron stiffness into a block-sparse
+ *    matrix (every node couples only to its 26 grid neighbours)
+ * 3. Fix the nodes on the fixture faces, spread the `LoadCase` forces and
+ *    moments over the nodes on the load faces
+ * 4. Solve with Jacobi-preconditioned conjugate gradients
+ * 5. Average element von Mises stress to the nodes and interpolate it onto
+ *    the kernel surface mesh for a color map
+ *
+ * Linear tetrahedra are stiff in bending: with two elements through a wall
+ * expect deflection and stress on the low side; refine `elementSize` for
+ * thin sections. Units are mm, N and MPa.
+ */
+
+import type { FaceAnalysis, FaceInfo } from '../../core/kernel';
+import type { Point3D } from '../../knowledge/types';
+import { cross, dot, normalize, scale, subtract } from '../../spatial';
+import { ShapeMesh } from './dfm';
+import type {
+  LoadCase,
+  Material,
+  StressMap,
+  StructuralAnalysis,
+  StructureOptions,
+} from './index';
+
+// ============================================================================
+// SOLVER SETTINGS
+// ============================================================================
+
+const poissonRatio: Record<Material['type'], number> = {
+  steel: 0.29,
+  stainless: 0.3,
+  aluminum: 0.33,
+  copper: 0.34,
+  plastic: 0.38,
+  composite: 0.3,
+  wood: 0.35,
+};
+
+const TARGET_CELLS = 6000;        // default mesh density
+const MAX_CELLS = 15000;          // memory and solve-time ceiling on one core
+const MIN_LAYERS = 2;             // cells through the thinnest wall
+const CG_TOLERANCE = 1e-6;        // residual relative to the load vector
+const MAX_ITERATIONS = 10000;
+
+/** Cell corners by bit: x = 1, y = 2, z = 4 */
+const CORNERS: Point3D[] = Array.from({ length: 8 }, (_, b) => ({ x: b & 1, y: (b >> 1) & 1, z: (b >> 2) & 1 }));
+
+/** Kuhn split: one tetrahedron per axis ordering on the path from corner 0 to 7 */
+const TETS: [number, number, number, number][] = [
+  [1, 2, 4], [1, 4, 2], [2, 1, 4], [2, 4, 1], [4, 1, 2], [4, 2, 1],
+].map(([a, b]) => [0, a, a | b, 7] as [number, number, number, number]);
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/**
+ * Static linear elastic analysis of a shape under a load case
+ */
+export function analyzeShapeStructure(
+  geometry: FaceAnalysis,
+  material: Material,
+  loads: LoadCase,
+  options: StructureOptions = {}
+): StructuralAnalysis {
+  const warnings: string[] = [];
+  const shape = new ShapeMesh(geometry.mesh);
+  const resultant = loads.forces.reduce((sum, f) => ({ x: sum.x + f.x, y: sum.y + f.y, z: sum.z + f.z }), { x: 0, y: 0, z: 0 });
+  const hasMoment = (loads.moments ?? []).some(m => m.x !== 0 || m.y !== 0 || m.z !== 0);
+  if (Math.hypot(resultant.x, resultant.y, resultant.z) === 0 && !hasMoment) {
+    throw new Error('Load case has no forces or moments to apply');
+  }
+
+  const grid = buildGrid(shape, geometry.bounds, options.elementSize, warnings);
+  const model = new ElasticModel(grid, material);
+
+  // Supports and load application
+  const direction = Math.hypot(resultant.x, resultant.y, resultant.z) > 0 ? normalize(resultant) : { x: 0, y: 0, z: -1 };
+  const fixedFaces = options.fixedFaces ?? extremeFaces(geometry, direction, grid.h);
+  const loadFaces = options.loadFaces ?? extremeFaces(geometry, scale(direction, -1), grid.h);
+  const fixedNodes = model.nodesOnFaces(shape, geometry.faces, fixedFaces);
+  const loadNodes = model.nodesOnFaces(shape, geometry.faces, loadFaces);
+  if (fixedNodes.length === 0) {
+    throw new Error(`No mesh nodes lie on fixed faces ${fixedFaces.join(', ')}`);
+  }
+  if (loadNodes.length === 0) {
+    throw new Error(`No mesh nodes lie on load faces ${loadFaces.join(', ')}`);
+  }
+  const shared = new Set(fixedNodes);
+  const freeLoadNodes = loadNodes.filter(n => !shared.has(n));
+  if (freeLoadNodes.length === 0) {
+    throw new Error('Load faces coincide with the fixed faces');
+  }
+
+  const f = model.loadVector(freeLoadNodes, loads);
+  const fixed = new Uint8Array(3 * model.nodeCount);
+  for (const n of fixedNodes) fixed.fill(1, 3 * n, 3 * n + 3);
+
+  const { u, iterations, converged } = model.solve(f, fixed);
+  if (!converged) {
+    warnings.push(`Solver stopped after ${iterations} iterations before converging; results are approximate`);
+  }
+
+  // Results
+  const nodalStress = model.nodalVonMises(u);
+  let maxStress = 0;
+  let maxDeflection = 0;
+  for (let n = 0; n < model.nodeCount; n++) {
+    maxStress = Math.max(maxStress, nodalStress[n]);
+    maxDeflection = Math.max(maxDeflection, Math.hypot(u[3 * n], u[3 * n + 1], u[3 * n + 2]));
+  }
+
+  const yieldStrength = material.properties.yieldStrength;
+  const safetyFactor = maxStress > 0 ? yieldStrength / maxStress : Infinity;
+  if (safetyFactor < loads.safetyFactor) {
+    warnings.push(`Safety factor ${round(safetyFactor)} is below the required ${loads.safetyFactor} on ${yieldStrength} MPa yield`);
+  }
+  if (loads.type !== 'static') {
+    warnings.push(`${loads.type} load analysed statically; fatigue and dynamic amplification are not included`);
+  }
+
+  return {
+    maxStress: round(maxStress),
+    maxDeflection: round(maxDeflection, 4),
+    safetyFactor: round(safetyFactor),
+    criticalLocations: model.peaks(nodalStress, options.criticalCount ?? 5),
+    stressMap: stressMap(geometry, model, nodalStress, u, maxStress),
+    mesh: { nodes: model.nodeCount, elements: model.cellCount * TETS.length, elementSize: round(grid.h, 3) },
+    warnings,
+  };
+}
+
+// ============================================================================
+// MESHING
+// ============================================================================
+
+interface Grid {
+  /** Nominal element size; `step` fits a whole number of cells to each extent */
+  h: number;
+  step: Point3D;
+  origin: Point3D;
+  nx: number;
+  ny: number;
+  nz: number;
+  /** 1 where the cell centre is inside the solid */
+  cells: Uint8Array;
+  cellCount: number;
+}
+
+/** Size the cells and fill the solid; coarsens with a warning past MAX_CELLS */
+function buildGrid(shape: ShapeMesh, bounds: FaceAnalysis['bounds'], elementSize: number | undefined, warnings: string[]): Grid {
+  const size = subtract(bounds.max, bounds.min);
+  const boxVolume = size.x * size.y * size.z;
+  const solidVolume = Math.min(shape.volume(), boxVolume);
+  if (!(solidVolume > 0)) {
+    throw new Error('Shape has no interior to mesh; is it a closed solid?');
+  }
+
+  let h: number;
+  if (elementSize === undefined) {
+    h = Math.cbrt(solidVolume / TARGET_CELLS);
+    const wall = thinnestWall(shape, bounds, h);
+    if (wall < MIN_LAYERS * h) h = wall / MIN_LAYERS;
+  } else {
+    h = elementSize;
+  }
+
+  if (solidVolume / h ** 3 > MAX_CELLS) {
+    const requested = h;
+    h = Math.cbrt(solidVolume / MAX_CELLS);
+    warnings.push(`Element size raised from ${round(requested, 2)} to ${round(h, 2)} mm to stay within ${MAX_CELLS} cells; thin walls are under-resolved`);
+  }
+
+  const grid = fillGrid(shape, bounds, h);
+  if (grid.cellCount === 0) {
+    throw new Error('Shape has no interior to mesh; is it a closed solid?');
+  }
+  return grid;
+}
+
+function fillGrid(shape: ShapeMesh, bounds: FaceAnalysis['bounds'], h: number): Grid {
+  const size = subtract(bounds.max, bounds.min);
+  const nx = Math.max(1, Math.round(size.x / h));
+  const ny = Math.max(1, Math.round(size.y / h));
+  const nz = Math.max(1, Math.round(size.z / h));
+  const step = { x: size.x / nx || h, y: size.y / ny || h, z: size.z / nz || h };
+  const origin = bounds.min;
+  const cells = new Uint8Array(nx * ny * nz);
+  let cellCount = 0;
+
+  // Cast up each column (nudged off the cell centre so rays miss mesh edges)
+  const up = { x: 0, y: 0, z: 1 };
+  for (let j = 0; j < ny; j++) {
+    for (let i = 0; i < nx; i++) {
+      const start = { x: origin.x + (i + 0.5013) * step.x, y: origin.y + (j + 0.4987) * step.y, z: origin.z - step.z };
+      const spans = insideSpans(shape.crossings(start, up));
+      for (let k = 0; k < nz; k++) {
+        const t = (k + 1.5) * step.z;
+        if (spans.some(([a, b]) => t >= a && t <= b)) {
+          cells[i + nx * (j + ny * k)] = 1;
+          cellCount++;
+        }
+      }
+    }
+  }
+  return { h, step, origin, nx, ny, nz, cells, cellCount };
+}
+
+/** Pair up entry and exit crossings; an unpaired last crossing is dropped */
+function insideSpans(crossings: number[]): [number, number][] {
+  const spans: [number, number][] = [];
+  for (let i = 0; i + 1 < crossings.length; i += 2) spans.push([crossings[i], crossings[i + 1]]);
+  return spans;
+}
+
+/** Shortest solid run along the three axes, sampled at spacing `h` */
+function thinnestWall(shape: ShapeMesh, bounds: FaceAnalysis['bounds'], h: number): number {
+  let thinnest = Infinity;
+  const axes = ['x', 'y', 'z'] as const;
+  for (const axis of axes) {
+    const [u, v] = axes.filter(a => a !== axis);
+    const direction = { x: 0, y: 0, z: 0, [axis]: 1 };
+    for (let a = bounds.min[u] + 0.5013 * h; a < bounds.max[u]; a += h) {
+      for (let b = bounds.min[v] + 0.4987 * h; b < bounds.max[v]; b += h) {
+        const start = { x: 0, y: 0, z: 0, [u]: a, [v]: b, [axis]: bounds.min[axis] - h };
+        for (const [entry, exit] of insideSpans(shape.crossings(start, direction))) {
+          if (exit - entry > 1e-3) thinnest = Math.min(thinnest, exit - entry);
+        }
+      }
+    }
+  }
+  return thinnest;
+}
+
+/** Faces reaching the extreme of the part along `d`, within half a cell */
+function extremeFaces(geometry: FaceAnalysis, d: Point3D, h: number): number[] {
+  const reach = (box: { min: Point3D; max: Point3D }) => {
+    let low = Infinity;
+    let high = -Infinity;
+    for (const c of CORNERS) {
+      const p = { x: c.x ? box.max.x : box.min.x, y: c.y ? box.max.y : box.min.y, z: c.z ? box.max.z : box.min.z };
+      low = Math.min(low, dot(p, d));
+      high = Math.max(high, dot(p, d));
+    }
+    return [low, high];
+  };
+  const [, extreme] = reach(geometry.bounds);
+  const tolerance = h / 2;
+
+  const flush = geometry.faces.filter(f => reach(f.bounds)[0] >= extreme - tolerance);
+  const faces = flush.length > 0 ? flush : geometry.faces.filter(f => reach(f.bounds)[1] >= extreme - tolerance);
+  return faces.map(f => f.index);
+}
+
+// ============================================================================
+// ELASTIC MODEL
+// ============================================================================
+
+/**
+ * Nodes, block-sparse stiffness and element recovery on a filled grid.
+ * Stiffness blocks are stored per node for all 27 neighbour offsets.
+ */
+class ElasticModel {
+  readonly nodeCount: number;
+  readonly cellCount: number;
+  /** Grid (i, j, k) per node */
+  private readonly coords: Int32Array;
+  /** Node id per grid vertex, -1 when unused */
+  private readonly nodeAt: Int32Array;
+  /** Neighbour node per node and offset, -1 when absent */
+  private readonly neighbours: Int32Array;
+  private readonly stiffness: Float64Array;
+  /** Corner nodes per filled cell */
+  private readonly cellNodes: Int32Array;
+  private readonly D: number[][];
+  /** Strain-displacement matrix (6 × 12) per tetrahedron of the split */
+  private readonly B: number[][][];
+
+  constructor(private readonly grid: Grid, material: Material) {
+    const { nx, ny, nz, cells, step } = grid;
+    const vx = nx + 1;
+    const vy = ny + 1;
+    this.nodeAt = new Int32Array(vx * vy * (nz + 1)).fill(-1);
+    this.cellCount = grid.cellCount;
+    this.cellNodes = new Int32Array(8 * grid.cellCount);
+
+    const coords: number[] = [];
+    let cell = 0;
+    for (let k = 0; k < nz; k++) {
+      for (let j = 0; j < ny; j++) {
+        for (let i = 0; i < nx; i++) {
+          if (!cells[i + nx * (j + ny * k)]) continue;
+          CORNERS.forEach((c, b) => {
+            const vertex = (i + c.x) + vx * ((j + c.y) + vy * (k + c.z));
+            if (this.nodeAt[vertex] < 0) {
+              this.nodeAt[vertex] = coords.length / 3;
+              coords.push(i + c.x, j + c.y, k + c.z);
+            }
+            this.cellNodes[8 * cell + b] = this.nodeAt[vertex];
+          });
+          cell++;
+        }
+      }
+    }
+    this.coords = Int32Array.from(coords);
+    this.nodeCount = coords.length / 3;
+
+    this.neighbours = new Int32Array(27 * this.nodeCount).fill(-1);
+    for (let n = 0; n < this.nodeCount; n++) {
+      for (let off = 0; off < 27; off++) {
+        const i = this.coords[3 * n] + (off % 3) - 1;
+        const j = this.coords[3 * n + 1] + (Math.floor(off / 3) % 3) - 1;
+        const k = this.coords[3 * n + 2] + Math.floor(off / 9) - 1;
+        if (i < 0 || j < 0 || k < 0 || i > nx || j > ny || k > nz) continue;
+        this.neighbours[27 * n + off] = this.nodeAt[i + vx * (j + vy * k)];
+      }
+    }
+
+    // Isotropic elasticity, E from GPa to MPa
+    const E = material.properties.elasticModulus * 1000;
+    const nu = poissonRatio[material.type];
+    const lambda = E * nu / ((1 + nu) * (1 - 2 * nu));
+    const mu = E / (2 * (1 + nu));
+    this.D = [
+      [lambda + 2 * mu, lambda, lambda, 0, 0, 0],
+      [lambda, lambda + 2 * mu, lambda, 0, 0, 0],
+      [lambda, lambda, lambda + 2 * mu, 0, 0, 0],
+      [0, 0, 0, mu, 0, 0],
+      [0, 0, 0, 0, mu, 0],
+      [0, 0, 0, 0, 0, mu],
+    ];
+
+    // Every cell is the same cube, so six element matrices serve the whole mesh
+    this.B = TETS.map(tet => strainMatrix(tet.map(b => ({
+      x: CORNERS[b].x * step.x,
+      y: CORNERS[b].y * step.y,
+      z: CORNERS[b].z * step.z,
+    }))));
+    const volume = step.x * step.y * step.z / 6;
+    const elementMatrices = this.B.map(B => multiply(transpose(B), multiply(this.D, B)).map(row => row.map(v => v * volume)));
+
+    this.stiffness = new Float64Array(27 * 9 * this.nodeCount);
+    for (let c = 0; c < this.cellCount; c++) {
+      TETS.forEach((tet, t) => {
+        const Ke = elementMatrices[t];
+        for (let a = 0; a < 4; a++) {
+          const row = this.cellNodes[8 * c + tet[a]];
+          for (let b = 0; b < 4; b++) {
+            const ca = CORNERS[tet[a]];
+            const cb = CORNERS[tet[b]];
+            const off = (cb.x - ca.x + 1) + 3 * (cb.y - ca.y + 1) + 9 * (cb.z - ca.z + 1);
+            const base = (27 * row + off) * 9;
+            for (let r = 0; r < 3; r++) {
+              for (let s = 0; s < 3; s++) {
+                this.stiffness[base + 3 * r + s] += Ke[3 * a + r][3 * b + s];
+              }
+            }
+          }
+        }
+      });
+    }
+  }
+
+  position(node: number): Point3D {
+    const { origin, step } = this.grid;
+    return {
+      x: origin.x + this.coords[3 * node] * step.x,
+      y: origin.y + this.coords[3 * node + 1] * step.y,
+      z: origin.z + this.coords[3 * node + 2] * step.z,
+    };
+  }
+
+  /** Surface nodes within about half a cell of the given kernel faces */
+  nodesOnFaces(shape: ShapeMesh, faces: FaceInfo[], indices: number[]): number[] {
+    const { step } = this.grid;
+    const h = 0.6 * Math.max(step.x, step.y, step.z);
+    const wanted = new Set(indices);
+    const triangles: [Point3D, Point3D, Point3D][] = [];
+    for (let t = 0; t < shape.triangleCount; t++) {
+      if (wanted.has(shape.faceIds[t])) triangles.push(shape.corners(t));
+    }
+    const boxes = faces.filter(f => wanted.has(f.index)).map(f => f.bounds);
+
+    const nodes: number[] = [];
+    for (let n = 0; n < this.nodeCount; n++) {
+      if (!this.onSurface(n)) continue;
+      const p = this.position(n);
+      const near = boxes.some(b =>
+        p.x >= b.min.x - h && p.x <= b.max.x + h &&
+        p.y >= b.min.y - h && p.y <= b.max.y + h &&
+        p.z >= b.min.z - h && p.z <= b.max.z + h);
+      if (near && triangles.some(([a, b, c]) => distanceToTriangle(p, a, b, c) <= h)) nodes.push(n);
+    }
+    return nodes;
+  }
+
+  /** Forces shared by tributary surface area; moments as forces about the load centroid */
+  loadVector(nodes: number[], loads: LoadCase): Float64Array {
+    const f = new Float64Array(3 * this.nodeCount);
+    const weights = this.tributaryWeights(nodes);
+    for (const force of loads.forces) {
+      nodes.forEach((n, i) => {
+        f[3 * n] += force.x * weights[i];
+        f[3 * n + 1] += force.y * weights[i];
+        f[3 * n + 2] += force.z * weights[i];
+      });
+    }
+
+    const positions = nodes.map(n => this.position(n));
+    const centroid = positions.reduce((sum, p, i) => ({
+      x: sum.x + p.x * weights[i],
+      y: sum.y + p.y * weights[i],
+      z: sum.z + p.z * weights[i],
+    }), { x: 0, y: 0, z: 0 });
+    for (const moment of loads.moments ?? []) {
+      const arms = positions.map(p => subtract(p, centroid));
+      // Area-weighted perpendicular lever arm squared, so the couple sums back to the moment
+      const axis = normalize(moment);
+      const inertia = arms.reduce((sum, r, i) => sum + weights[i] * (dot(r, r) - dot(r, axis) ** 2), 0);
+      if (inertia === 0) continue;
+      nodes.forEach((n, i) => {
+        const force = scale(cross(moment, arms[i]), weights[i] / inertia);
+        f[3 * n] += force.x;
+        f[3 * n + 1] += force.y;
+        f[3 * n + 2] += force.z;
+      });
+    }
+    return f;
+  }
+
+  /**
+   * Share of the loaded surface per node, summing to 1. Each boundary cell
+   * face whose corners are all loaded gives a quarter of its area to each
+   * corner, so edge and corner nodes carry half and a quarter of an
+   * interior node's load. Falls back to equal shares when no face qualifies.
+   */
+  private tributaryWeights(nodes: number[]): Float64Array {
+    const { nx, ny, nz, cells, step } = this.grid;
+    const index = new Map(nodes.map((n, i) => [n, i]));
+    const weights = new Float64Array(nodes.length);
+    const filled = (i: number, j: number, k: number) =>
+      i >= 0 && j >= 0 && k >= 0 && i < nx && j < ny && k < nz && cells[i + nx * (j + ny * k)] === 1;
+    const sides: { axis: 'x' | 'y' | 'z'; side: 0 | 1; area: number }[] = [
+      { axis: 'x', side: 0, area: step.y * step.z }, { axis: 'x', side: 1, area: step.y * step.z },
+      { axis: 'y', side: 0, area: step.x * step.z }, { axis: 'y', side: 1, area: step.x * step.z },
+      { axis: 'z', side: 0, area: step.x * step.y }, { axis: 'z', side: 1, area: step.x * step.y },
+    ];
+
+    for (let c = 0; c < this.cellCount; c++) {
+      const base = this.cellNodes[8 * c];
+      const i = this.coords[3 * base];
+      const j = this.coords[3 * base + 1];
+      const k = this.coords[3 * base + 2];
+      for (const { axis, side, area } of sides) {
+        const d = side === 0 ? -1 : 1;
+        if (filled(i + (axis === 'x' ? d : 0), j + (axis === 'y' ? d : 0), k + (axis === 'z' ? d : 0))) continue;
+        const corners: number[] = [];
+        CORNERS.forEach((corner, b) => {
+          if (corner[axis] === side) corners.push(this.cellNodes[8 * c + b]);
+        });
+        if (!corners.every(n => index.has(n))) continue;
+        for (const n of corners) weights[index.get(n)!] += area / 4;
+      }
+    }
+
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    return total > 0 ? weights.map(w => w / total) : weights.fill(1 / nodes.length);
+  }
+
+  /** Jacobi-preconditioned conjugate gradients with fixed DOFs held at zero */
+  solve(f: Float64Array, fixed: Uint8Array): { u: Float64Array; iterations: number; converged: boolean } {
+    const size = f.length;
+    const u = new Float64Array(size);
+    const r = Float64Array.from(f, (v, i) => fixed[i] ? 0 : v);
+    const inverseDiagonal = new Float64Array(size);
+    for (let n = 0; n < this.nodeCount; n++) {
+      for (let d = 0; d < 3; d++) {
+        const k = this.stiffness[(27 * n + 13) * 9 + 4 * d];
+        inverseDiagonal[3 * n + d] = fixed[3 * n + d] || k === 0 ? 0 : 1 / k;
+      }
+    }
+
+    const z = r.map((v, i) => v * inverseDiagonal[i]);
+    const p = Float64Array.from(z);
+    const Ap = new Float64Array(size);
+    let rz = innerProduct(r, z);
+    const limit = CG_TOLERANCE * Math.sqrt(innerProduct(r, r));
+    const maxIterations = Math.min(MAX_ITERATIONS, size);
+
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+      if (Math.sqrt(innerProduct(r, r)) <= limit) return { u, iterations: iteration, converged: true };
+      this.multiply(p, Ap, fixed);
+      const alpha = rz / innerProduct(p, Ap);
+      for (let i = 0; i < size; i++) {
+        u[i] += alpha * p[i];
+        r[i] -= alpha * Ap[i];
+        z[i] = r[i] * inverseDiagonal[i];
+      }
+      const next = innerProduct(r, z);
+      const beta = next / rz;
+      rz = next;
+      for (let i = 0; i < size; i++) p[i] = z[i] + beta * p[i];
+    }
+    return { u, iterations: maxIterations, converged: Math.sqrt(innerProduct(r, r)) <= limit };
+  }
+
+  /** Volume-averaged element von Mises stress at each node (MPa) */
+  nodalVonMises(u: Float64Array): Float64Array {
+    const sum = new Float64Array(this.nodeCount);
+    const count = new Float64Array(this.nodeCount);
+    const ue = new Array<number>(12);
+
+    for (let c = 0; c < this.cellCount; c++) {
+      TETS.forEach((tet, t) => {
+        tet.forEach((b, a) => {
+          const n = this.cellNodes[8 * c + b];
+          ue[3 * a] = u[3 * n];
+          ue[3 * a + 1] = u[3 * n + 1];
+          ue[3 * a + 2] = u[3 * n + 2];
+        });
+        const strain = this.B[t].map(row => row.reduce((s, v, i) => s + v * ue[i], 0));
+        const [sx, sy, sz, txy, tyz, tzx] = this.D.map(row => row.reduce((s, v, i) => s + v * strain[i], 0));
+        const vonMises = Math.sqrt(0.5 * ((sx - sy) ** 2 + (sy - sz) ** 2 + (sz - sx) ** 2) + 3 * (txy ** 2 + tyz ** 2 + tzx ** 2));
+        for (const b of tet) {
+          const n = this.cellNodes[8 * c + b];
+          sum[n] += vonMises;
+          count[n]++;
+        }
+      });
+    }
+    return sum.map((s, n) => s / count[n]);
+  }
+
+  /** Highest nodal stresses, at least five cells apart */
+  peaks(stress: Float64Array, count: number): StructuralAnalysis['criticalLocations'] {
+    const order = Array.from({ length: this.nodeCount }, (_, n) => n).sort((a, b) => stress[b] - stress[a]);
+    const spacing = 5 * this.grid.h;
+    const picked: StructuralAnalysis['criticalLocations'] = [];
+    for (const n of order) {
+      if (picked.length >= count) break;
+      const p = this.position(n);
+      if (picked.some(q => Math.hypot(q.x - p.x, q.y - p.y, q.z - p.z) < spacing)) continue;
+      picked.push({ x: round(p.x, 2), y: round(p.y, 2), z: round(p.z, 2), stress: round(stress[n]) });
+    }
+    return picked;
+  }
+
+  /** Trilinear interpolation of a nodal field over the existing cell corners */
+  sample(p: Point3D, field: (node: number) => number): number {
+    const { origin, step, nx, ny, nz } = this.grid;
+    const fx = clamp((p.x - origin.x) / step.x, 0, nx);
+    const fy = clamp((p.y - origin.y) / step.y, 0, ny);
+    const fz = clamp((p.z - origin.z) / step.z, 0, nz);
+    const i = Math.min(Math.floor(fx), nx - 1);
+    const j = Math.min(Math.floor(fy), ny - 1);
+    const k = Math.min(Math.floor(fz), nz - 1);
+
+    let total = 0;
+    let weight = 0;
+    for (const c of CORNERS) {
+      const node = this.nodeAt[(i + c.x) + (nx + 1) * ((j + c.y) + (ny + 1) * (k + c.z))];
+      if (node < 0) continue;
+      const w = (c.x ? fx - i : 1 - (fx - i)) * (c.y ? fy - j : 1 - (fy - j)) * (c.z ? fz - k : 1 - (fz - k)) + 1e-9;
+      total += w * field(node);
+      weight += w;
+    }
+    return weight > 0 ? total / weight : this.nearest(i, j, k, field);
+  }
+
+  /** Value at the closest node in the surrounding cells, for surface points outside the voxel skin */
+  private nearest(i: number, j: number, k: number, field: (node: number) => number): number {
+    const { nx, ny } = this.grid;
+    for (let radius = 1; radius <= 2; radius++) {
+      for (let dk = -radius; dk <= radius + 1; dk++) {
+        for (let dj = -radius; dj <= radius + 1; dj++) {
+          for (let di = -radius; di <= radius + 1; di++) {
+            const [a, b, c] = [i + di, j + dj, k + dk];
+            if (a < 0 || b < 0 || c < 0 || a > nx || b > ny || c > this.grid.nz) continue;
+            const node = this.nodeAt[a + (nx + 1) * (b + (ny + 1) * c)];
+            if (node >= 0) return field(node);
+          }
+        }
+      }
+    }
+    return 0;
+  }
+
+  /** Nodes missing one of their eight cells sit on the voxel surface */
+  private onSurface(node: number): boolean {
+    const { nx, ny, nz, cells } = this.grid;
+    const [i, j, k] = [this.coords[3 * node], this.coords[3 * node + 1], this.coords[3 * node + 2]];
+    let count = 0;
+    for (const c of CORNERS) {
+      const [a, b, d] = [i - c.x, j - c.y, k - c.z];
+      if (a >= 0 && b >= 0 && d >= 0 && a < nx && b < ny && d < nz && cells[a + nx * (b + ny * d)]) count++;
+    }
+    return count < 8;
+  }
+
+  /** y = K x with fixed rows and columns removed */
+  private multiply(x: Float64Array, y: Float64Array, fixed: Uint8Array): void {
+    const K = this.stiffness;
+    for (let n = 0; n < this.nodeCount; n++) {
+      let y0 = 0;
+      let y1 = 0;
+      let y2 = 0;
+      for (let off = 0; off < 27; off++) {
+        const m = this.neighbours[27 * n + off];
+        if (m < 0) continue;
+        const x0 = fixed[3 * m] ? 0 : x[3 * m];
+        const x1 = fixed[3 * m + 1] ? 0 : x[3 * m + 1];
+        const x2 = fixed[3 * m + 2] ? 0 : x[3 * m + 2];
+        const base = (27 * n + off) * 9;
+        y0 += K[base] * x0 + K[base + 1] * x1 + K[base + 2] * x2;
+        y1 += K[base + 3] * x0 + K[base + 4] * x1 + K[base + 5] * x2;
+        y2 += K[base + 6] * x0 + K[base + 7] * x1 + K[base + 8] * x2;
+      }
+      y[3 * n] = fixed[3 * n] ? 0 : y0;
+      y[3 * n + 1] = fixed[3 * n + 1] ? 0 : y1;
+      y[3 * n + 2] = fixed[3 * n + 2] ? 0 : y2;
+    }
+  }
+}
+
+/** Constant strain-displacement matrix of a linear tetrahedron */
+function strainMatrix(vertices: Point3D[]): number[][] {
+  const [p0, p1, p2, p3] = vertices;
+  const e1 = subtract(p1, p0);
+  const e2 = subtract(p2, p0);
+  const e3 = subtract(p3, p0);
+  const det = dot(e1, cross(e2, e3));
+  // Rows of the inverse Jacobian are the shape-function gradients of nodes 1-3
+  const g1 = scale(cross(e2, e3), 1 / det);
+  const g2 = scale(cross(e3, e1), 1 / det);
+  const g3 = scale(cross(e1, e2), 1 / det);
+  const g0 = scale({ x: g1.x + g2.x + g3.x, y: g1.y + g2.y + g3.y, z: g1.z + g2.z + g3.z }, -1);
+
+  const B = Array.from({ length: 6 }, () => new Array<number>(12).fill(0));
+  [g0, g1, g2, g3].forEach((g, a) => {
+    const c = 3 * a;
+    B[0][c] = g.x;
+    B[1][c + 1] = g.y;
+    B[2][c + 2] = g.z;
+    B[3][c] = g.y; B[3][c + 1] = g.x;
+    B[4][c + 1] = g.z; B[4][c + 2] = g.y;
+    B[5][c] = g.z; B[5][c + 2] = g.x;
+  });
+  return B;
+}
+
+// ============================================================================
+// RESULTS
+// ============================================================================
+
+/** Nodal results carried onto the kernel surface mesh */
+function stressMap(geometry: FaceAnalysis, model: ElasticModel, stress: Float64Array, u: Float64Array, maxStress: number): StressMap {
+  const positions = geometry.mesh.positions;
+  const indices = geometry.mesh.indices;
+  const vertexCount = positions.length / 3;
+  const vonMises = new Float32Array(vertexCount);
+  const displacements = new Float32Array(3 * vertexCount);
+  const colors = new Float32Array(3 * vertexCount);
+
+  for (let v = 0; v < vertexCount; v++) {
+    const p = { x: positions[3 * v], y: positions[3 * v + 1], z: positions[3 * v + 2] };
+    vonMises[v] = model.sample(p, n => stress[n]);
+    for (let d = 0; d < 3; d++) displacements[3 * v + d] = model.sample(p, n => u[3 * n + d]);
+    const [r, g, b] = heatColor(maxStress > 0 ? vonMises[v] / maxStress : 0);
+    colors.set([r, g, b], 3 * v);
+  }
+
+  // Smooth vertex normals from the outward-wound triangles
+  const normals = new Float32Array(3 * vertexCount);
+  for (let t = 0; t < indices.length; t += 3) {
+    const [a, b, c] = [indices[t], indices[t + 1], indices[t + 2]];
+    const pa = { x: positions[3 * a], y: positions[3 * a + 1], z: positions[3 * a + 2] };
+    const pb = { x: positions[3 * b], y: positions[3 * b + 1], z: positions[3 * b + 2] };
+    const pc = { x: positions[3 * c], y: positions[3 * c + 1], z: positions[3 * c + 2] };
+    const n = cross(subtract(pb, pa), subtract(pc, pa));
+    for (const v of [a, b, c]) {
+      normals[3 * v] += n.x;
+      normals[3 * v + 1] += n.y;
+      normals[3 * v + 2] += n.z;
+    }
+  }
+  for (let v = 0; v < vertexCount; v++) {
+    const n = normalize({ x: normals[3 * v], y: normals[3 * v + 1], z: normals[3 * v + 2] });
+    normals.set([n.x, n.y, n.z], 3 * v);
+  }
+
+  return {
+    positions,
+    normals,
+    indices,
+    bounds: { min: geometry.bounds.min, max: geometry.bounds.max },
+    vonMises,
+    displacements,
+    colors,
+    range: { min: 0, max: round(maxStress) },
+  };
+}
+
+/** Blue-cyan-green-yellow-red ramp for t in [0, 1] */
+function heatColor(t: number): [number, number, number] {
+  const x = clamp(t, 0, 1);
+  return [
+    clamp(1.5 - Math.abs(4 * x - 3), 0, 1),
+    clamp(1.5 - Math.abs(4 * x - 2), 0, 1),
+    clamp(1.5 - Math.abs(4 * x - 1), 0, 1),
+  ];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Closest distance from p to triangle abc (Ericson, Real-Time Collision Detection 5.1.5) */
+function distanceToTriangle(p: Point3D, a: Point3D, b: Point3D, c: Point3D): number {
+  const ab = subtract(b, a);
+  const ac = subtract(c, a);
+  const ap = subtract(p, a);
+  const d1 = dot(ab, ap);
+  const d2 = dot(ac, ap);
+  const at = (q: Point3D) => Math.hypot(p.x - q.x, p.y - q.y, p.z - q.z);
+  if (d1 <= 0 && d2 <= 0) return at(a);
+
+  const bp = subtract(p, b);
+  const d3 = dot(ab, bp);
+  const d4 = dot(ac, bp);
+  if (d3 >= 0 && d4 <= d3) return at(b);
+
+  const vc = d1 * d4 - d3 * d2;
+  if (vc <= 0 && d1 >= 0 && d3 <= 0) return at({ x: a.x + ab.x * d1 / (d1 - d3), y: a.y + ab.y * d1 / (d1 - d3), z: a.z + ab.z * d1 / (d1 - d3) });
+
+  const cp = subtract(p, c);
+  const d5 = dot(ab, cp);
+  const d6 = dot(ac, cp);
+  if (d6 >= 0 && d5 <= d6) return at(c);
+
+  const vb = d5 * d2 - d1 * d6;
+  if (vb <= 0 && d2 >= 0 && d6 <= 0) return at({ x: a.x + ac.x * d2 / (d2 - d6), y: a.y + ac.y * d2 / (d2 - d6), z: a.z + ac.z * d2 / (d2 - d6) });
+
+  const va = d3 * d6 - d5 * d4;
+  if (va <= 0 && d4 - d3 >= 0 && d5 - d6 >= 0) {
+    const w = (d4 - d3) / ((d4 - d3) + (d5 - d6));
+    return at({ x: b.x + (c.x - b.x) * w, y: b.y + (c.y - b.y) * w, z: b.z + (c.z - b.z) * w });
+  }
+
+  const denominator = 1 / (va + vb + vc);
+  const v = vb * denominator;
+  const w = vc * denominator;
+  return at({ x: a.x + ab.x * v + ac.x * w, y: a.y + ab.y * v + ac.y * w, z: a.z + ab.z * v + ac.z * w });
+}
+
+function transpose(m: number[][]): number[][] {
+  return m[0].map((_, c) => m.map(row => row[c]));
+}
+
+function multiply(a: number[][], b: number[][]): number[][] {
+  return a.map(row => b[0].map((_, c) => row.reduce((s, v, k) => s + v * b[k][c], 0)));
+}
+
+function innerProduct(a: Float64Array, b: Float64Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+function clamp(value: number, low: number, high: number): number {
+  return Math.min(high, Math.max(low, value));
+}
+
+function round(value: number, places = 1): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
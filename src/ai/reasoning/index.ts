@@ -9,6 +9,26 @@
  * - Cost optimization
  */
 
+import * as kernel from '../../core/kernel';
+import type { MeshData } from '../../types';
+import type { StockForm } from '../../knowledge/materials';
+import { analyzeShapeDFM } from './dfm';
+import { analyzeShapeStructure } from './fea';
+import { resolveMaterial, selectMaterials } from './materials';
+import { classifyPart, describeComponent, describeShape, planProcesses, standardProcesses } from './process';
+
+export {
+  analyzeShapeDFM,
+  analyzeShapeStructure,
+  classifyPart,
+  describeComponent,
+  describeShape,
+  planProcesses,
+  resolveMaterial,
+  selectMaterials,
+  standardProcesses,
+};
+
 export interface DesignContext {
   // What we're designing
   partType: 'structural' | 'mechanical' | 'enclosure' | 'bracket' | 'custom';
@@ -21,6 +41,10 @@ export interface DesignContext {
   budget?: { min: number; max: number; currency: string };
   leadTime?: { min: number; max: number; unit: 'days' | 'weeks' };
   quantity: number;
+
+  // Service conditions
+  temperature?: { min: number; max: number }; // °C
+  welded?: boolean;
 }
 
 export interface LoadCase {
@@ -32,7 +56,7 @@ export interface LoadCase {
 
 export interface Material {
   name: string;
-  type: 'steel' | 'aluminum' | 'stainless' | 'plastic' | 'composite' | 'wood';
+  type: 'steel' | 'aluminum' | 'stainless' | 'copper' | 'plastic' | 'composite' | 'wood';
   grade?: string;
   properties: {
     density: number; // kg/m³
@@ -67,6 +91,18 @@ export interface DFMAnalysis {
   estimatedCost: { min: number; max: number; breakdown: CostBreakdown };
 }
 
+/** Spindle axis of a 3-axis setup: the direction the tool approaches from */
+export type SetupDirection = '+X' | '-X' | '+Y' | '-Y' | '+Z' | '-Z';
+
+export interface DFMOptions {
+  /** Default: the direction that reaches the most surface area */
+  setupDirection?: SetupDirection;
+  /** Override the material's minimum machinable wall (mm) */
+  minWallThickness?: number;
+  /** Force sheet-metal rules on or off (default: detected from uniform wall thickness) */
+  sheetMetal?: boolean;
+}
+
 export interface DFMIssue {
   severity: 'critical' | 'major' | 'minor' | 'info';
   category: 'geometry' | 'tolerance' | 'material' | 'process' | 'assembly';
@@ -91,6 +127,22 @@ export interface CostBreakdown {
   total: number;
 }
 
+export interface MaterialSelectionOptions {
+  /** Ashby loading mode; default from the part type */
+  loading?: 'tie' | 'beam' | 'panel';
+  /** Design-limiting property; default both */
+  limit?: 'strength' | 'stiffness' | 'both';
+  /** Stock forms the part can be made from */
+  forms?: StockForm[];
+  /** Forms the main members are cut from; at least one must be stocked */
+  primaryForms?: StockForm[];
+  /** Material ids, names or families to insist on, favour or rule out */
+  required?: string[];
+  preferred?: string[];
+  excluded?: string[];
+  maxResults?: number;
+}
+
 export interface MaterialRecommendation {
   material: Material;
   score: number;
@@ -98,11 +150,87 @@ export interface MaterialRecommendation {
   alternatives: { material: Material; tradeoff: string }[];
 }
 
+/** Geometry class that decides the primary process */
+export type PartClass = 'prismatic' | 'turned' | 'sheet' | 'structural-profile';
+
+/** What the process planner needs to know about a part */
+export interface PartDescriptor {
+  /** Bounding box extents, smallest first (mm) */
+  extents: [number, number, number];
+  volume: number; // mm³
+  /** Plate or sheet thickness (mm) */
+  thickness?: number;
+  /** Press-brake bends */
+  bends: number;
+  /** Developed flat blank of a bent part, length × width (mm) */
+  blank?: [number, number];
+  holes: { diameter: number; depth: number; axis?: { x: number; y: number; z: number } }[];
+  /** Smallest hole, slot or inside radius to reproduce (mm) */
+  minFeature?: number;
+  /** Tightest tolerance called out (mm) */
+  tolerance?: number;
+  /** Revolved about one axis, so a lathe can make it */
+  axisymmetric: boolean;
+  /** Axis of revolution, when known from the shape */
+  axis?: { x: number; y: number; z: number };
+  /** Knowledge-base element type, e.g. 'beam' */
+  elementType?: string;
+  /** Members are joined by welding */
+  welded: boolean;
+}
+
+/** Output generator that produces the shop data for an operation */
+export type ProcessOutput = 'dxf-flat' | 'gcode' | 'cut-list' | 'weld-map';
+
+export interface ProcessStep {
+  step: number;
+  process: string;
+  description: string;
+  /** Workholding and orientation, e.g. "Vise, spindle along +Z" */
+  setup?: string;
+  output?: ProcessOutput;
+}
+
 export interface ProcessRecommendation {
   primary: ManufacturingProcess;
   secondary?: ManufacturingProcess[];
   reasoning: string[];
-  sequence: { step: number; process: string; description: string }[];
+  sequence: ProcessStep[];
+  partClass: PartClass;
+  /** Per part at the planned quantity, setups amortized */
+  unitCost: number;
+}
+
+export interface StructureOptions {
+  /** Kernel face indices held fixed; default the faces at the far end of the part along the resultant force */
+  fixedFaces?: number[];
+  /** Kernel face indices the forces and moments are spread over; default the faces at the near end */
+  loadFaces?: number[];
+  /** Element edge length (mm); default about 6000 cells with two across the thinnest wall */
+  elementSize?: number;
+  /** Stress peaks to report (default 5) */
+  criticalCount?: number;
+}
+
+/** Surface mesh with nodal results, ready for a vertex-colored viewer mesh */
+export interface StressMap extends MeshData {
+  /** von Mises stress per vertex (MPa) */
+  vonMises: Float32Array;
+  /** Displacement per vertex [dx,dy,dz, ...] (mm) */
+  displacements: Float32Array;
+  /** RGB per vertex, blue at zero through red at the maximum stress */
+  colors: Float32Array;
+  range: { min: number; max: number };
+}
+
+export interface StructuralAnalysis {
+  maxStress: number; // MPa, von Mises
+  maxDeflection: number; // mm
+  safetyFactor: number; // yield / max stress
+  criticalLocations: { x: number; y: number; z: number; stress: number }[];
+  stressMap: StressMap;
+  mesh: { nodes: number; elements: number; elementSize: number };
+  warnings: string[];
 }
 
 /**
@@ -116,92 +244,71 @@ export class EngineeringReasoner {
   }
 
   private initializeKnowledgeBase(): void {
-    // TODO: Load material and process databases from external sources
-    // Materials will be loaded from BE Group, Misumi, etc.
-    // Processes will be loaded from Sandvik Coromant machining data
-    console.log('[Reasoning] Knowledge base initialization pending external data sources');
+    // Materials come from the unified database; processes from the shop list
+    this.processes = [...standardProcesses];
   }
 
   /**
    * Analyze design for manufacturability
    */
   async analyzeDFM(
-    _shapeId: string,
-    _context: DesignContext
+    shapeId: string,
+    context: DesignContext,
+    options: DFMOptions = {}
   ): Promise<DFMAnalysis> {
-    // TODO: Implement DFM analysis
-    // - Check wall thicknesses
-    // - Analyze undercuts
-    // - Verify tool access
-    // - Check tolerance stackup
     console.log('[Reasoning] Analyzing DFM...');
 
-    return {
-      score: 0,
-      issues: [],
-      suggestions: [],
-      estimatedCost: { min: 0, max: 0, breakdown: { material: 0, machining: 0, setup: 0, finishing: 0, inspection: 0, total: 0 } },
-    };
+    const [geometry, mass] = await Promise.all([
+      kernel.analyzeFaces(shapeId),
+      kernel.getMassProperties(shapeId),
+    ]);
+
+    return analyzeShapeDFM(geometry, mass, context, options);
   }
 
   /**
    * Recommend materials for the design
    */
   async recommendMaterial(
-    _context: DesignContext
+    context: DesignContext,
+    options: MaterialSelectionOptions = {}
   ): Promise<MaterialRecommendation[]> {
-    // TODO: Implement material selection logic
-    // - Match requirements to material properties
-    // - Consider cost and availability
-    // - Factor in environment and loads
     console.log('[Reasoning] Recommending materials...');
 
-    return [];
+    return selectMaterials(context, options);
   }
 
   /**
    * Recommend manufacturing processes
    */
   async recommendProcess(
-    _shapeId: string,
-    _material: Material,
-    _quantity: number
+    shapeId: string,
+    material: Material,
+    quantity: number
   ): Promise<ProcessRecommendation> {
-    // TODO: Implement process selection logic
-    // - Analyze geometry complexity
-    // - Match to process capabilities
-    // - Consider batch size
     console.log('[Reasoning] Recommending processes...');
 
-    return {
-      primary: this.processes[0],
-      reasoning: [],
-      sequence: [],
-    };
+    const [geometry, mass] = await Promise.all([
+      kernel.analyzeFaces(shapeId),
+      kernel.getMassProperties(shapeId),
+    ]);
+
+    return planProcesses(describeShape(geometry, mass), material, quantity, this.processes);
   }
 
   /**
    * Perform structural analysis
    */
   async analyzeStructure(
-    _shapeId: string,
-    _material: Material,
-    _loads: LoadCase
-  ): Promise<{
-    maxStress: number;
-    maxDeflection: number;
-    safetyFactor: number;
-    criticalLocations: { x: number; y: number; z: number; stress: number }[];
-  }> {
-    // TODO: Implement FEA-lite or interface with external solver
+    shapeId: string,
+    material: Material,
+    loads: LoadCase,
+    options: StructureOptions = {}
+  ): Promise<StructuralAnalysis> {
     console.log('[Reasoning] Analyzing structure...');
 
-    return {
-      maxStress: 0,
-      maxDeflection: 0,
-      safetyFactor: 0,
-      criticalLocations: [],
-    };
+    const geometry = await kernel.analyzeFaces(shapeId);
+    return analyzeShapeStructure(geometry, material, loads, options);
   }
 }
 
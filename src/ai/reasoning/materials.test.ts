@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { materialDatabase } from '../../knowledge/materials';
+import type { DesignContext, ManufacturingProcess, Material, MaterialRecommendation } from './index';
+import { matchesMaterial, resolveMaterial, selectMaterials } from './materials';
+
+const record = (id: string) => materialDatabase.find(m => m.id === id)!;
+
+function context(overrides: Partial<DesignContext> = {}): DesignContext {
+  return {
+    partType: 'structural',
+    environment: 'indoor',
+    loadCase: { type: 'static', forces: [], safetyFactor: 2 },
+    availableMaterials: [],
+    availableProcesses: [],
+    quantity: 1,
+    ...overrides,
+  };
+}
+
+const grades = (recommendations: MaterialRecommendation[]) => recommendations.map(r => r.material.grade);
+
+describe('resolveMaterial', () => {
+  it('resolves ids, aliases and names exactly', () => {
+    expect(resolveMaterial('A36').grade).toBe('A36');
+    expect(resolveMaterial('stainless-316').grade).toBe('316');
+    expect(resolveMaterial('6061-T6 Aluminum').grade).toBe('6061-T6');
+  });
+
+  it('matches grade tokens before the family default', () => {
+    expect(resolveMaterial('Stainless Steel 316').grade).toBe('316');
+    expect(resolveMaterial('stainless_steel_316').grade).toBe('316');
+    expect(resolveMaterial('A572 Gr 50').grade).toBe('A572-50');
+    expect(resolveMaterial('7075 aluminum').grade).toBe('7075-T6');
+    expect(resolveMaterial('A500 grade C tube').grade).toBe('A500-C');
+  });
+
+  it('knows common long forms', () => {
+    expect(resolveMaterial('SS316').grade).toBe('316');
+    expect(resolveMaterial('304L').grade).toBe('304');
+    expect(resolveMaterial('A572 Grade 50').grade).toBe('A572-50');
+    expect(resolveMaterial('Chromoly').grade).toBe('4140');
+    expect(resolveMaterial('17-4 PH').grade).toBe('17-4PH');
+  });
+
+  it('falls back to the family representative, then to mild steel', () => {
+    expect(resolveMaterial('stainless').grade).toBe('304');
+    expect(resolveMaterial('aluminum').grade).toBe('6061-T6');
+    expect(resolveMaterial('carbon-steel').grade).toBe('A36');
+    expect(resolveMaterial('unobtainium').grade).toBe('A36');
+  });
+});
+
+describe('matchesMaterial', () => {
+  it('matches families and fragments but not other grades', () => {
+    expect(matchesMaterial(record('316'), 'stainless')).toBe(true);
+    expect(matchesMaterial(record('G90'), 'galvanized')).toBe(true);
+    expect(matchesMaterial(record('304'), 'Stainless Steel 316')).toBe(true);
+    expect(matchesMaterial(record('A36'), 'aluminum')).toBe(false);
+  });
+});
+
+describe('selectMaterials', () => {
+  it('ranks cheap structural steel first for indoor beams', () => {
+    const ranked = selectMaterials(context());
+
+    expect(grades(ranked)).toEqual(['A992', 'HRS', 'A572-50', 'A36', '1045']);
+    expect(ranked[0].score).toBe(78.2);
+    expect(ranked[0].alternatives.map(a => a.material.grade)).toEqual(['HRS', 'A572-50']);
+  });
+
+  it('screens on environment and lists what it ruled out', () => {
+    const [best, next] = selectMaterials(context({ environment: 'marine' }));
+
+    expect(best.material.grade).toBe('5052-H32');
+    expect(next.material.grade).toBe('316');
+    expect(best.reasoning).toContain('Excellent corrosion resistance for marine service (needs excellent)');
+    expect(best.reasoning[best.reasoning.length - 1]).toMatch(/^Screened out: A36 Structural Steel: poor corrosion resistance, marine needs excellent; /);
+    expect(next.reasoning.some(line => line.startsWith('Screened out'))).toBe(false);
+    expect(best.alternatives[0].tradeoff).toBe('1.3× the cost per kg, +102% mass for equal performance');
+
+    expect(grades(selectMaterials(context({ environment: 'food_grade' })))).toEqual(['17-4PH', '304', '316']);
+  });
+
+  it('screens on service temperature, welding and lead time', () => {
+    // Carbon steel is brittle below -29 °C; 4140, 303, 7075 and brass weld poorly
+    expect(grades(selectMaterials(context({ temperature: { min: -60, max: 20 }, welded: true }))))
+      .toEqual(['5052-H32', '6061-T6', '17-4PH', '304', '316']);
+    expect(grades(selectMaterials(context({ leadTime: { min: 1, max: 1, unit: 'weeks' } }), { required: ['aluminum'] })))
+      .toEqual(['6061-T6', '5052-H32']);
+  });
+
+  it('honours required, excluded and preferred materials, forms and processes', () => {
+    expect(grades(selectMaterials(context(), { required: ['aluminum'] }))).toEqual(['6061-T6', '5052-H32', '7075-T6']);
+    expect(grades(selectMaterials(context(), { excluded: ['carbon-steel'] }))[0]).toBe('6061-T6');
+    expect(grades(selectMaterials(context(), { forms: ['tube'] })).slice(0, 2)).toEqual(['A500-B', 'A500-C']);
+
+    const router: ManufacturingProcess = {
+      name: 'CNC router',
+      type: 'subtractive',
+      capabilities: { minFeatureSize: 1, maxPartSize: { x: 2000, y: 1000, z: 100 }, tolerance: 0.1, surfaceFinish: 3.2 },
+      materials: ['aluminum'],
+      setupCost: 50,
+      perPartCost: { fixed: 5, perVolume: 0 },
+    };
+    expect(grades(selectMaterials(context({ availableProcesses: [router] })))).toEqual(['6061-T6', '5052-H32', '7075-T6']);
+
+    // A 10 point bonus, not a veto
+    const marine = (preferred: string[]) => selectMaterials(context({ environment: 'marine' }), { preferred })[1].score;
+    expect(marine(['316']) - marine([])).toBeCloseTo(10, 9);
+    expect(selectMaterials(context(), { required: ['unobtainium'] })).toEqual([]);
+  });
+
+  it('ranks on fatigue limit under cyclic loading', () => {
+    const ranked = selectMaterials(context({ loadCase: { type: 'cyclic', forces: [], safetyFactor: 2 } }), { maxResults: 2 });
+
+    expect(grades(ranked)).toEqual(['HRS', 'A36']);
+    expect(ranked[0].reasoning[1]).toBe('Cyclic loading: ranked on fatigue limit 200 MPa');
+  });
+
+  it('selects from the given materials, borrowing service data from the database', () => {
+    const house: Material = {
+      name: 'House Alloy',
+      type: 'aluminum',
+      grade: '6061-T6',
+      properties: { density: 2700, yieldStrength: 276, tensileStrength: 310, elasticModulus: 68.9, corrosionResistance: 'good' },
+      costPerKg: 6,
+      availability: 'stock',
+    };
+
+    const [only] = selectMaterials(context({ availableMaterials: [house] }));
+    expect(only.material.name).toBe('House Alloy');
+    expect(only.material.properties.thermalExpansion).toBe(23.6);
+    // 6061-T6 is rated to 150 °C
+    expect(selectMaterials(context({ availableMaterials: [house], temperature: { min: 0, max: 200 } }))).toEqual([]);
+  });
+});
@@ -0,0 +1,405 @@
+/**
+ * Material Selection
+ *
+ * Ashby-style selection over the unified material database:
+ * 1. Screen on the design context (environment, temperature, welding,
+ *    lead time, available processes, preferences)
+ * 2. Rank survivors on performance indices for the loading mode, index per
+ *    unit cost, corrosion margin, fabricability and availability
+ */
+
+import { materialDatabase, type MaterialRecord, type Rating } from '../../knowledge/materials';
+import type {
+  DesignContext,
+  Material,
+  MaterialRecommendation,
+  MaterialSelectionOptions,
+} from './index';
+
+// ============================================================================
+// SELECTION DATA
+// ============================================================================
+
+const ratingRank: Record<Rating, number> = { poor: 0, fair: 1, good: 2, excellent: 3 };
+
+/** Minimum corrosion resistance per environment */
+const requiredCorrosion: Record<DesignContext['environment'], Rating> = {
+  indoor: 'poor',
+  cleanroom: 'good',
+  outdoor: 'fair',
+  marine: 'excellent',
+  food_grade: 'good',
+};
+
+/** Typical lead time by availability (days) */
+const leadDays: Record<MaterialRecord['availability'], number> = {
+  stock: 2,
+  order: 14,
+  special: 42,
+};
+
+const availabilityScore: Record<MaterialRecord['availability'], number> = {
+  stock: 1,
+  order: 0.6,
+  special: 0.2,
+};
+
+const defaultLoading: Record<DesignContext['partType'], NonNullable<MaterialSelectionOptions['loading']>> = {
+  structural: 'beam',
+  bracket: 'beam',
+  mechanical: 'beam',
+  enclosure: 'panel',
+  custom: 'tie',
+};
+
+/** Exponents on E and σ: tie E/ρ, σ/ρ; beam E^½/ρ, σ^⅔/ρ; panel E^⅓/ρ, σ^½/ρ */
+const indexExponents: Record<NonNullable<MaterialSelectionOptions['loading']>, { stiffness: number; strength: number; label: string }> = {
+  tie: { stiffness: 1, strength: 1, label: 'E/ρ, σ/ρ' },
+  beam: { stiffness: 1 / 2, strength: 2 / 3, label: 'E^½/ρ, σ^⅔/ρ' },
+  panel: { stiffness: 1 / 3, strength: 1 / 2, label: 'E^⅓/ρ, σ^½/ρ' },
+};
+
+const WEIGHTS = {
+  performance: 0.2,
+  costPerformance: 0.45,
+  environment: 0.1,
+  fabrication: 0.15,
+  availability: 0.1,
+};
+
+// ============================================================================
+// SELECTION
+// ============================================================================
+
+interface Candidate {
+  record: MaterialRecord;
+  material: Material;
+  strengthIndex: number;
+  stiffnessIndex: number;
+  /** Property used for strength: yield, or fatigue limit under cyclic load */
+  strength: number;
+  fabrication: number;
+  environment: number;
+  performance: number;
+  costPerformance: number;
+  score: number;
+}
+
+/**
+ * Rank materials for a design context. Candidates are the context's
+ * `availableMaterials` when given, otherwise the material database.
+ */
+export function selectMaterials(
+  context: DesignContext,
+  options: MaterialSelectionOptions = {}
+): MaterialRecommendation[] {
+  const loading = options.loading ?? defaultLoading[context.partType];
+  const limit = options.limit ?? 'both';
+  const exponents = indexExponents[loading];
+  const cyclic = context.loadCase.type === 'cyclic' || context.loadCase.type === 'dynamic';
+  const required = requiredCorrosion[context.environment];
+
+  const pool = context.availableMaterials.length > 0
+    ? context.availableMaterials.map(fromContextMaterial)
+    : materialDatabase;
+
+  const excluded: string[] = [];
+  const candidates: Candidate[] = [];
+  for (const record of pool) {
+    const reason = screen(record, context, options, required);
+    if (reason) {
+      excluded.push(`${record.name}: ${reason}`);
+      continue;
+    }
+
+    const p = record.properties;
+    const strength = cyclic ? record.enduranceLimit : p.yieldStrength;
+    const fabricationRatings = [p.machinability, ...(context.welded ? [p.weldability] : [])];
+    candidates.push({
+      record,
+      material: toMaterial(record),
+      strength,
+      strengthIndex: strength ** exponents.strength / p.density,
+      stiffnessIndex: (p.elasticModulus * 1000) ** exponents.stiffness / p.density,
+      fabrication: fabricationRatings.reduce((sum, r) => sum + ratingRank[r], 0) / (3 * fabricationRatings.length),
+      environment: Math.min(1, 0.5 + 0.5 * (ratingRank[p.corrosionResistance] - ratingRank[required]) / 2),
+      performance: 0,
+      costPerformance: 0,
+      score: 0,
+    });
+  }
+  if (candidates.length === 0) return [];
+
+  // Normalize indices against the best candidate
+  const combined = (c: Candidate, divisor: number) => {
+    const strength = c.strengthIndex / divisor;
+    const stiffness = c.stiffnessIndex / divisor;
+    return limit === 'strength' ? strength : limit === 'stiffness' ? stiffness : Math.sqrt(strength * stiffness);
+  };
+  const bestPerformance = Math.max(...candidates.map(c => combined(c, 1)));
+  const bestCost = Math.max(...candidates.map(c => combined(c, c.record.costPerKg)));
+  const preferred = options.preferred ?? [];
+
+  for (const c of candidates) {
+    c.performance = combined(c, 1) / bestPerformance;
+    c.costPerformance = combined(c, c.record.costPerKg) / bestCost;
+    const bonus = preferred.some(q => matchesMaterial(c.record, q)) ? 0.1 : 0;
+    c.score = Math.min(1,
+      WEIGHTS.performance * c.performance +
+      WEIGHTS.costPerformance * c.costPerformance +
+      WEIGHTS.environment * c.environment +
+      WEIGHTS.fabrication * c.fabrication +
+      WEIGHTS.availability * availabilityScore[c.record.availability] +
+      bonus
+    );
+  }
+  candidates.sort((a, b) => b.score - a.score);
+
+  const ranked = candidates.slice(0, options.maxResults ?? 5);
+  return ranked.map((c, i) => ({
+    material: c.material,
+    score: Math.round(c.score * 1000) / 10,
+    reasoning: explain(c, context, { loading, limit, cyclic, required, label: exponents.label },
+      i === 0 ? excluded : []),
+    alternatives: candidates
+      .filter(other => other !== c)
+      .slice(0, 2)
+      .map(other => ({ material: other.material, tradeoff: tradeoff(c, other, limit) })),
+  }));
+}
+
+/** Hard screens; returns why a material is ruled out */
+function screen(
+  record: MaterialRecord,
+  context: DesignContext,
+  options: MaterialSelectionOptions,
+  required: Rating
+): string | null {
+  const p = record.properties;
+
+  if (options.excluded?.some(q => matchesMaterial(record, q))) return 'excluded by preference';
+  if (options.required?.length && !options.required.some(q => matchesMaterial(record, q))) {
+    return 'not a required material';
+  }
+  if (options.forms && !options.forms.some(f => record.forms.includes(f))) {
+    return `not stocked as ${options.forms.join('/')}`;
+  }
+  if (options.primaryForms && !options.primaryForms.some(f => record.forms.includes(f))) {
+    return `not stocked as ${options.primaryForms.join('/')} for the main members`;
+  }
+  if (ratingRank[p.corrosionResistance] < ratingRank[required]) {
+    return `${p.corrosionResistance} corrosion resistance, ${context.environment} needs ${required}`;
+  }
+  if (context.environment === 'food_grade' && record.family !== 'stainless') {
+    return 'not a food-contact alloy';
+  }
+  if (context.temperature) {
+    if (context.temperature.max > record.maxServiceTemperature) {
+      return `limited to ${record.maxServiceTemperature} °C`;
+    }
+    if (context.temperature.min < record.minServiceTemperature) {
+      return `brittle below ${record.minServiceTemperature} °C`;
+    }
+  }
+  if (context.welded && p.weldability === 'poor') return 'poor weldability';
+
+  if (context.leadTime) {
+    const maxDays = context.leadTime.max * (context.leadTime.unit === 'weeks' ? 7 : 1);
+    if (leadDays[record.availability] > maxDays) {
+      return `${record.availability} item, ~${leadDays[record.availability]} days lead time`;
+    }
+  }
+
+  const processMaterials = context.availableProcesses.flatMap(proc => proc.materials);
+  if (processMaterials.length > 0 && !processMaterials.some(q => matchesMaterial(record, q))) {
+    return 'no available process handles it';
+  }
+
+  return null;
+}
+
+function explain(
+  c: Candidate,
+  context: DesignContext,
+  selection: { loading: string; limit: string; cyclic: boolean; required: Rating; label: string },
+  excluded: string[]
+): string[] {
+  const p = c.record.properties;
+  const currency = context.budget?.currency ?? 'USD';
+  const reasoning = [
+    `${selection.loading} loading, ${selection.limit === 'both' ? 'strength and stiffness' : selection.limit} limited (${selection.label}): ${Math.round(c.performance * 100)}% of the best performance index, ${Math.round(c.costPerformance * 100)}% of the best per unit cost`,
+    selection.cyclic
+      ? `Cyclic loading: ranked on fatigue limit ${c.record.enduranceLimit} MPa`
+      : `Yield ${p.yieldStrength} MPa, E ${p.elasticModulus} GPa, ρ ${p.density} kg/m³`,
+    `${capitalize(p.corrosionResistance)} corrosion resistance${c.record.coating ? ` (${c.record.coating})` : ''} for ${context.environment.replace('_', ' ')} service (needs ${selection.required})`,
+  ];
+
+  if (context.temperature) {
+    reasoning.push(`Rated ${c.record.minServiceTemperature} to ${c.record.maxServiceTemperature} °C, service ${context.temperature.min} to ${context.temperature.max} °C`);
+  }
+  if (context.welded) reasoning.push(`${capitalize(p.weldability)} weldability`);
+  reasoning.push(`${capitalize(p.machinability)} machinability`);
+  reasoning.push(`~${c.record.costPerKg.toFixed(2)} ${currency}/kg, ${c.record.availability === 'stock' ? 'from stock' : `${c.record.availability} item`} (${c.record.forms.join(', ')})`);
+
+  if (context.loadCase.type === 'impact' && p.yieldStrength / p.tensileStrength > 0.85) {
+    reasoning.push('High yield-to-tensile ratio: limited ductility under impact');
+  }
+  if (excluded.length > 0) {
+    reasoning.push(`Screened out: ${excluded.join('; ')}`);
+  }
+  return reasoning;
+}
+
+/** Cost and mass of the alternative relative to the recommendation */
+function tradeoff(c: Candidate, other: Candidate, limit: string): string {
+  const costRatio = other.record.costPerKg / c.record.costPerKg;
+  // Mass for equal performance scales with 1 / index
+  const index = (x: Candidate) => limit === 'strength' ? x.strengthIndex
+    : limit === 'stiffness' ? x.stiffnessIndex
+    : Math.sqrt(x.strengthIndex * x.stiffnessIndex);
+  const massChange = Math.round((index(c) / index(other) - 1) * 100);
+  const corrosion = ratingRank[other.record.properties.corrosionResistance] - ratingRank[c.record.properties.corrosionResistance];
+
+  const parts = [
+    `${costRatio.toFixed(1)}× the cost per kg`,
+    `${massChange > 0 ? '+' : ''}${massChange}% mass for equal performance`,
+  ];
+  if (corrosion !== 0) parts.push(`${corrosion > 0 ? 'better' : 'worse'} corrosion resistance`);
+  if (other.record.availability !== c.record.availability) parts.push(`${other.record.availability} availability`);
+  return parts.join(', ');
+}
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+/** Representative grade when a query names only a family */
+const familyDefaults: Record<MaterialRecord['family'], string> = {
+  'carbon-steel': 'A36',
+  'alloy-steel': '4140',
+  stainless: '304',
+  aluminum: '6061-T6',
+  'copper-alloy': 'C110',
+};
+
+/**
+ * How closely a query names a material, lower is closer: 0 exact id or
+ * alias, 1 exact name or coating, 2 grade tokens ('Stainless Steel 316',
+ * 'A572 Gr 50'), 3 family ('stainless', 'stainless-steel'), 4 name
+ * fragment; -1 when it does not match at all
+ */
+function matchRank(record: MaterialRecord, query: string): number {
+  const normalize = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  const q = normalize(query);
+  const exact = [record.id, ...record.aliases].map(normalize);
+  const named = [record.name, record.coating ?? ''].map(normalize);
+  const family = normalize(record.family);
+
+  if (exact.includes(q)) return 0;
+  if (named.includes(q)) return 1;
+
+  // Every token of a numbered id or alias, in any order among other words
+  const tokens = q.split('-');
+  const graded = exact.some(key => {
+    const keyTokens = key.split('-');
+    return keyTokens.some(t => /\d/.test(t)) && keyTokens.every(t => tokens.includes(t));
+  });
+  if (graded) return 2;
+
+  if (family === q || tokens.includes(family) || q.startsWith(`${family}-`)) return 3;
+
+  const keys = [...exact, ...named, family];
+  return keys.some(k => k.length > 0 && (k.includes(q) || (q.includes(k) && k.length > 2))) ? 4 : -1;
+}
+
+/** Match an id, alias, family or name fragment such as 'stainless' or 'galvanized-steel' */
+export function matchesMaterial(record: MaterialRecord, query: string): boolean {
+  return matchRank(record, query) >= 0;
+}
+
+/** Closest database record for a query; family matches resolve to the family's representative grade */
+function bestMatch(query: string): MaterialRecord | undefined {
+  let best: MaterialRecord | undefined;
+  let bestRank = Infinity;
+  for (const record of materialDatabase) {
+    const rank = matchRank(record, query);
+    if (rank < 0) continue;
+    const preferred = rank === 3 && record.id === familyDefaults[record.family];
+    if (rank < bestRank || (rank === bestRank && preferred)) {
+      best = record;
+      bestRank = rank;
+    }
+  }
+  return best;
+}
+
+/** Material for a geometry material name; unknown names are treated as mild steel */
+export function resolveMaterial(name: string): Material {
+  const record = bestMatch(name) ?? materialDatabase.find(m => m.id === 'A36')!;
+  return toMaterial(record);
+}
+
+function toMaterial(record: MaterialRecord): Material {
+  const type: Material['type'] =
+    record.family === 'stainless' ? 'stainless'
+    : record.family === 'aluminum' ? 'aluminum'
+    : record.family === 'copper-alloy' ? 'copper'
+    : 'steel';
+  return {
+    name: record.name,
+    type,
+    grade: record.id,
+    properties: {
+      density: record.properties.density,
+      yieldStrength: record.properties.yieldStrength,
+      tensileStrength: record.properties.tensileStrength,
+      elasticModulus: record.properties.elasticModulus,
+      thermalExpansion: record.properties.thermalExpansion,
+      corrosionResistance: record.properties.corrosionResistance,
+    },
+    costPerKg: record.costPerKg,
+    availability: record.availability,
+  };
+}
+
+/** Wrap a caller-supplied material, borrowing service data from the database where it matches */
+function fromContextMaterial(material: Material): MaterialRecord {
+  const known = bestMatch(material.grade ?? material.name) ?? bestMatch(material.name);
+  const family: MaterialRecord['family'] =
+    material.type === 'stainless' ? 'stainless'
+    : material.type === 'aluminum' ? 'aluminum'
+    : material.type === 'copper' ? 'copper-alloy'
+    : 'carbon-steel';
+  const p = material.properties;
+
+  return {
+    id: material.grade ?? material.name,
+    name: material.name,
+    family: known?.family ?? family,
+    standard: known?.standard ?? '',
+    aliases: known?.aliases ?? [],
+    coating: known?.coating,
+    properties: {
+      density: p.density,
+      yieldStrength: p.yieldStrength,
+      tensileStrength: p.tensileStrength,
+      elasticModulus: p.elasticModulus,
+      poissonsRatio: known?.properties.poissonsRatio ?? 0.3,
+      thermalExpansion: p.thermalExpansion ?? known?.properties.thermalExpansion,
+      corrosionResistance: p.corrosionResistance,
+      weldability: known?.properties.weldability ?? 'fair',
+      machinability: known?.properties.machinability ?? 'fair',
+      costFactor: known?.properties.costFactor ?? 1,
+    },
+    enduranceLimit: known?.enduranceLimit ?? Math.round(0.4 * p.tensileStrength),
+    maxServiceTemperature: known?.maxServiceTemperature ?? (family === 'aluminum' ? 150 : 400),
+    minServiceTemperature: known?.minServiceTemperature ?? -29,
+    costPerKg: material.costPerKg,
+    availability: material.availability,
+    forms: known?.forms ?? ['structural', 'tube', 'plate', 'sheet', 'bar'],
+  };
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
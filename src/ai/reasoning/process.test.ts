@@ -0,0 +1,196 @@
+import { describe, expect, it } from 'vitest';
+import type { GeometryResult } from '../../geometry/types';
+import type { PartDescriptor, ProcessRecommendation } from './index';
+import { resolveMaterial } from './materials';
+import { classifyPart, describeComponent, planProcesses, standardProcesses } from './process';
+
+const steel = resolveMaterial('A36');
+
+function part(overrides: Partial<PartDescriptor> = {}): PartDescriptor {
+  return {
+    extents: [6, 100, 200],
+    volume: 120000,
+    thickness: 6,
+    bends: 0,
+    holes: [],
+    axisymmetric: false,
+    welded: false,
+    ...overrides,
+  };
+}
+
+/** Stepped shaft blank: Ø34 × 185 mm turned about Z with one cross hole */
+const shaft = part({
+  extents: [34, 34, 185],
+  thickness: undefined,
+  axisymmetric: true,
+  axis: { x: 0, y: 0, z: 1 },
+  holes: [{ diameter: 6, depth: 34, axis: { x: 1, y: 0, z: 0 } }],
+});
+
+const processNames = (plan: ProcessRecommendation) => plan.sequence.map(s => s.process);
+
+function component(size: [number, number, number], volume: number, metadata: Record<string, unknown>): GeometryResult {
+  return {
+    id: 'part-1',
+    shapeId: '',
+    name: 'Part',
+    elementType: 'plate',
+    bounds: { min: { x: 0, y: 0, z: 0 }, max: { x: size[0], y: size[1], z: size[2] } },
+    transform: { position: { x: 0, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0 } },
+    properties: { volume, surfaceArea: 0, weight: 0, centerOfMass: { x: 0, y: 0, z: 0 } },
+    material: 'A36 Steel',
+    metadata,
+  };
+}
+
+describe('classifyPart', () => {
+  it('reads plate, discs, tube and slender bar from the extents', () => {
+    expect(classifyPart(part())).toEqual({ partClass: 'sheet', reason: 'Flat 6 mm plate, 200 × 100 mm' });
+    expect(classifyPart(part({ extents: [10, 200, 200], thickness: 10, axisymmetric: true })).reason)
+      .toBe('Ø200 disc in 10 mm plate');
+    expect(classifyPart(part({ extents: [50, 50, 600], thickness: undefined, volume: 300000, axisymmetric: true })).reason)
+      .toBe('Hollow round section Ø50 × 600 mm cut from tube');
+    expect(classifyPart(part({ extents: [20, 30, 400], thickness: undefined })).reason)
+      .toBe('Slender (13.3:1) member cut from bar or section');
+    expect(classifyPart(part({ extents: [40, 60, 80], thickness: undefined })).partClass).toBe('prismatic');
+  });
+
+  it('treats knowledge-base members as stock lengths whatever their shape', () => {
+    expect(classifyPart(part({ extents: [100, 200, 600], thickness: undefined, elementType: 'beam' })).partClass)
+      .toBe('structural-profile');
+  });
+});
+
+describe('planProcesses', () => {
+  it('cuts plate on the cheapest table and amortizes setup over the batch', () => {
+    const one = planProcesses(part({ holes: [{ diameter: 10, depth: 6 }], minFeature: 10 }), steel, 1);
+
+    expect(one.primary.name).toBe('Fiber laser cutting');
+    expect(one.sequence).toEqual([{
+      step: 1,
+      process: 'Fiber laser cutting',
+      description: 'Cut 200 × 100 mm blank with 1 pierced hole',
+      setup: 'Nest on 6 mm sheet',
+      output: 'dxf-flat',
+    }]);
+    expect(one.reasoning[1]).toBe('Fiber laser cutting at 31.72/part beats Plasma cutting at 32.18 for 1 off');
+    expect(one.unitCost).toBe(31.72);
+
+    expect(planProcesses(part(), steel, 100).unitCost).toBe(2.02);
+  });
+
+  it('rules out cutters on material and pierced hole size', () => {
+    // Plasma pierces no smaller than 1.5 t
+    const pierced = planProcesses(part({ extents: [10, 100, 200], thickness: 10, holes: [{ diameter: 8, depth: 10 }], minFeature: 8 }), steel, 1);
+    expect(pierced.reasoning).toContain('Plasma cutting ruled out: smallest feature 8 mm is under its 15 mm minimum');
+
+    const copper = planProcesses(part(), resolveMaterial('C110'), 1);
+    expect(copper.reasoning).toContain('Plasma cutting ruled out: does not work copper');
+  });
+
+  it('forms bent sheet on the brake and finishes tight tolerances on the mill', () => {
+    const bracket = planProcesses(part({ extents: [3, 50, 80], thickness: 3, bends: 2, blank: [180, 80] }), steel, 10);
+    expect(processNames(bracket)).toEqual(['Fiber laser cutting', 'Press brake']);
+    expect(bracket.sequence[1].description).toBe('Form 2 bends, inside bends first');
+    expect(bracket.secondary?.map(p => p.name)).toEqual(['Press brake']);
+
+    const toleranced = planProcesses(part({ tolerance: 0.05 }), steel, 1);
+    expect(processNames(toleranced)).toEqual(['Fiber laser cutting', '3-axis CNC mill']);
+    expect(toleranced.reasoning).toContain('Fiber laser cutting ruled out: holds ±0.1 mm, part needs ±0.05 mm');
+  });
+
+  it('saws members and welds up welded assemblies', () => {
+    const beam = part({ extents: [100, 200, 6000], thickness: undefined, volume: 6e6, elementType: 'beam' });
+
+    const welded = planProcesses({ ...beam, welded: true }, steel, 1);
+    expect(welded.partClass).toBe('structural-profile');
+    expect(processNames(welded)).toEqual(['Band saw', 'MIG welding']);
+    expect(welded.sequence.map(s => s.output)).toEqual(['cut-list', 'weld-map']);
+
+    // Too long for the mill envelope
+    const toleranced = planProcesses({ ...beam, tolerance: 0.1 }, steel, 1);
+    expect(processNames(toleranced)).toEqual(['Band saw']);
+    expect(toleranced.reasoning).toContain('±0.1 mm on a 6000 mm member needs a line-boring or CNC beam line subcontractor');
+  });
+
+  it('turns from both ends and mills cross holes', () => {
+    const plan = planProcesses(shaft, steel, 10);
+
+    expect(plan.partClass).toBe('turned');
+    expect(processNames(plan)).toEqual(['Band saw', 'CNC lathe', 'CNC lathe', '3-axis CNC mill']);
+    expect(plan.sequence[0].description).toBe('Cut Ø40 bar to 191 mm');
+    expect(plan.sequence[3].description).toBe('Drill 1 cross hole');
+    expect(plan.reasoning[plan.reasoning.length - 1]).toBe('4 operations in 3 setups; setup cost amortized over 10 parts');
+  });
+
+  it('mills from solid with a setup per approach direction', () => {
+    const block = part({
+      extents: [40, 60, 80],
+      thickness: undefined,
+      volume: 150000,
+      holes: [{ diameter: 8, depth: 20, axis: { x: 1, y: 0, z: 0 } }, { diameter: 8, depth: 20, axis: { x: 1, y: 1, z: 0 } }],
+    });
+    const plan = planProcesses(block, resolveMaterial('6061-T6'), 1);
+
+    expect(plan.sequence.map(s => s.setup)).toEqual([
+      undefined,
+      'Op 1: vise, spindle along +Z',
+      'Op 2: vise on machined faces, spindle along -Z',
+      'Op 3: angle plate, spindle along +X',
+    ]);
+    expect(plan.reasoning).toContain('Hole Ø8 at a compound angle needs a tilting fixture or 4th axis');
+  });
+
+  it('falls back to machining from solid when the shop lacks the route', () => {
+    const shop = standardProcesses.filter(p => p.name !== 'CNC lathe');
+    const plan = planProcesses(shaft, steel, 1, shop);
+
+    expect(plan.partClass).toBe('prismatic');
+    expect(plan.primary.name).toBe('3-axis CNC mill');
+    expect(plan.reasoning[1]).toBe('No turned route in this shop; machining from solid instead');
+  });
+});
+
+describe('describeComponent', () => {
+  it('sizes members along their own axis rather than their world bounds', () => {
+    // C10x25 stringer at 37°: 3195 run by 2407 rise
+    const stringer = component([3195, 66, 2407], 4740 * 4000, { profile: 'C10x25', length: 4000, size: 254, width: 66, welded: true });
+    const descriptor = describeComponent({ ...stringer, elementType: 'stringer-channel' });
+
+    expect(descriptor.extents).toEqual([66, 254, 4000]);
+    expect(descriptor.welded).toBe(true);
+    expect(classifyPart(descriptor).partClass).toBe('structural-profile');
+  });
+
+  it('counts bracket bends and holes from the metadata', () => {
+    const bracket = describeComponent(component([80, 50, 50], 30000, {
+      bracketType: 'z-bracket',
+      thickness: 3,
+      holes: [{ diameter: 9 }, { diameter: 11 }, { x: 10 }],
+      tolerance: 0.2,
+    }));
+
+    expect(bracket.bends).toBe(2);
+    expect(bracket.blank).toEqual([125, 80]);
+    expect(bracket.holes).toEqual([{ diameter: 9, depth: 3 }, { diameter: 11, depth: 3 }]);
+    expect(bracket.minFeature).toBe(9);
+    expect(bracket.tolerance).toBe(0.2);
+  });
+
+  it('takes the blank from a flat pattern, longer side first', () => {
+    const enclosure = describeComponent(component([300, 200, 80], 200000, {
+      thickness: 2,
+      flatPattern: { bends: [{}, {}, {}, {}], blankLength: 400, blankWidth: 500 },
+    }));
+
+    expect(enclosure.bends).toBe(4);
+    expect(enclosure.blank).toEqual([500, 400]);
+  });
+
+  it('marks parts with a turned profile as axisymmetric', () => {
+    const turned = describeComponent(component([185, 34, 34], 150000, { turnedProfile: [{ diameter: 34, length: 185 }] }));
+    expect(turned.axisymmetric).toBe(true);
+    expect(classifyPart(turned).partClass).toBe('turned');
+  });
+});
@@ -0,0 +1,617 @@
+/**
+ * Manufacturing Process Planning
+ *
+ * Classifies a part (prismatic, turned, sheet, structural profile), screens
+ * the shop's processes on material, size envelope, tolerance and minimum
+ * feature, picks the cheapest at the batch size and lays out the operation
+ * sequence with its setups and the shop output each operation runs from.
+ *
+ * Distances are mm, volumes mm³, costs in the shop currency.
+ */
+
+import type { FaceAnalysis, FaceInfo, MassProperties } from '../../core/kernel';
+import type { GeometryResult } from '../../geometry/types';
+import type { Point3D } from '../../knowledge/types';
+import { dot, magnitude, normalize, scale, subtract } from '../../spatial';
+import { summarizeFeatures } from './dfm';
+import type {
+  ManufacturingProcess,
+  Material,
+  PartClass,
+  PartDescriptor,
+  ProcessRecommendation,
+  ProcessStep,
+} from './index';
+
+// ============================================================================
+// SHOP DATA
+// ============================================================================
+
+const LASER = 'Fiber laser cutting';
+const PLASMA = 'Plasma cutting';
+const SAW = 'Band saw';
+const MILL = '3-axis CNC mill';
+const LATHE = 'CNC lathe';
+const BRAKE = 'Press brake';
+const WELD = 'MIG welding';
+
+const metals = ['steel', 'stainless', 'aluminum', 'copper'];
+
+/**
+ * Shop processes. maxPartSize is the envelope (plate thickness on z for the
+ * cutting tables and brake, swing diameter on y/z for the lathe); perVolume
+ * is per cm³ of part for cutting and forming, of stock removed for machining.
+ */
+export const standardProcesses: ManufacturingProcess[] = [
+  {
+    name: LASER,
+    type: 'cutting',
+    capabilities: { minFeatureSize: 0.5, maxPartSize: { x: 3000, y: 1500, z: 20 }, tolerance: 0.1, surfaceFinish: 3.2 },
+    materials: metals,
+    setupCost: 30,
+    perPartCost: { fixed: 1, perVolume: 0.006 },
+  },
+  {
+    name: PLASMA,
+    type: 'cutting',
+    capabilities: { minFeatureSize: 6, maxPartSize: { x: 3000, y: 1500, z: 50 }, tolerance: 0.8, surfaceFinish: 12.5 },
+    materials: ['steel', 'stainless', 'aluminum'],
+    setupCost: 30,
+    perPartCost: { fixed: 2, perVolume: 0.0015 },
+  },
+  {
+    name: SAW,
+    type: 'cutting',
+    capabilities: { minFeatureSize: 0, maxPartSize: { x: 12000, y: 400, z: 400 }, tolerance: 1, surfaceFinish: 12.5 },
+    materials: metals,
+    setupCost: 15,
+    perPartCost: { fixed: 3, perVolume: 0 },
+  },
+  {
+    name: MILL,
+    type: 'subtractive',
+    capabilities: { minFeatureSize: 1, maxPartSize: { x: 1000, y: 500, z: 500 }, tolerance: 0.025, surfaceFinish: 1.6 },
+    materials: [...metals, 'plastic'],
+    setupCost: 150,
+    perPartCost: { fixed: 10, perVolume: 0.01 },
+  },
+  {
+    name: LATHE,
+    type: 'subtractive',
+    capabilities: { minFeatureSize: 0.5, maxPartSize: { x: 1000, y: 300, z: 300 }, tolerance: 0.01, surfaceFinish: 0.8 },
+    materials: [...metals, 'plastic'],
+    setupCost: 100,
+    perPartCost: { fixed: 6, perVolume: 0.006 },
+  },
+  {
+    name: BRAKE,
+    type: 'forming',
+    capabilities: { minFeatureSize: 0, maxPartSize: { x: 3000, y: 1500, z: 12 }, tolerance: 0.5, surfaceFinish: 3.2 },
+    materials: metals,
+    setupCost: 50,
+    perPartCost: { fixed: 1.5, perVolume: 0 },
+  },
+  {
+    name: WELD,
+    type: 'joining',
+    capabilities: { minFeatureSize: 1.5, maxPartSize: { x: 6000, y: 3000, z: 3000 }, tolerance: 1.5, surfaceFinish: 12.5 },
+    materials: ['steel', 'stainless', 'aluminum'],
+    setupCost: 60,
+    perPartCost: { fixed: 15, perVolume: 0 },
+  },
+];
+
+/** Smallest pierced hole as a multiple of plate thickness on thermal cutters */
+const holeToThickness: Record<string, number> = {
+  [LASER]: 0.5,
+  [PLASMA]: 1.5,
+};
+
+/** Element types cut from stock lengths, as in the cut list */
+const LINEAR_TYPES = [
+  'beam', 'column', 'pipe', 'tube', 'angle', 'channel', 'bracing',
+  'stringer', 'handrail', 'rail', 'post', 'rung',
+];
+
+const SLENDERNESS = 6;            // length / width that reads as a bar or section
+const PLATE_ASPECT = 5;           // width / thickness that reads as plate
+const MAX_PLATE = 25;             // thickest plate cut on a table (mm)
+const STOCK_ALLOWANCE = 3;        // mm per side on sawn blanks
+
+const bracketBends: Record<string, number> = {
+  'l-bracket': 1,
+  'angle-bracket': 1,
+  'z-bracket': 2,
+};
+
+// ============================================================================
+// CLASSIFICATION
+// ============================================================================
+
+/**
+ * Classify a part by the geometry that decides its primary process
+ */
+export function classifyPart(part: PartDescriptor): { partClass: PartClass; reason: string } {
+  const [small, mid, long] = part.extents;
+  const type = part.elementType?.toLowerCase() ?? '';
+  const thickness = part.thickness ?? small;
+  const plate = thickness <= MAX_PLATE && thickness * PLATE_ASPECT <= mid;
+
+  if (LINEAR_TYPES.some(t => type.includes(t))) {
+    return { partClass: 'structural-profile', reason: `${part.elementType} member cut from stock length (${round(long)} mm)` };
+  }
+  if (part.bends > 0) {
+    return { partClass: 'sheet', reason: `${thickness} mm sheet with ${part.bends} bend${part.bends === 1 ? '' : 's'}` };
+  }
+  if (part.axisymmetric && near(small, mid)) {
+    const fill = part.volume / (Math.PI / 4 * small * mid * long);
+    if (fill < 0.5 && long >= SLENDERNESS * mid) {
+      return { partClass: 'structural-profile', reason: `Hollow round section Ø${round(mid)} × ${round(long)} mm cut from tube` };
+    }
+    return { partClass: 'turned', reason: `Revolved about its ${round(long)} mm axis (Ø${round(mid)}): turned from bar` };
+  }
+  if (part.axisymmetric && near(mid, long)) {
+    return plate
+      ? { partClass: 'sheet', reason: `Ø${round(long)} disc in ${thickness} mm plate` }
+      : { partClass: 'turned', reason: `Revolved about its ${round(small)} mm axis (Ø${round(long)}): turned from bar` };
+  }
+  if (long >= SLENDERNESS * mid) {
+    return { partClass: 'structural-profile', reason: `Slender (${round(long / mid, 1)}:1) member cut from bar or section` };
+  }
+  if (plate) {
+    return { partClass: 'sheet', reason: `Flat ${thickness} mm plate, ${round(long)} × ${round(mid)} mm` };
+  }
+  return { partClass: 'prismatic', reason: `Block-like ${round(long)} × ${round(mid)} × ${round(small)} mm: machined from solid` };
+}
+
+/**
+ * Describe a kernel shape for planning from its face analysis
+ *
+ * Axisymmetric when the revolved faces share the axis of the largest one
+ * (holes across it aside) and every planar face is square to it.
+ */
+export function describeShape(geometry: FaceAnalysis, mass: MassProperties): PartDescriptor {
+  const { min, max } = geometry.bounds;
+  const extents = sortedExtents(max.x - min.x, max.y - min.y, max.z - min.z);
+  const features = summarizeFeatures(geometry);
+  const thickness = features.sheetThickness ?? undefined;
+
+  const revolved = geometry.faces
+    .filter(f => (f.type === 'cylinder' || f.type === 'cone') && f.axis)
+    .sort((a, b) => b.area - a.area);
+  let axis: Point3D | undefined;
+  if (revolved.length > 0 && !geometry.faces.some(f => f.type === 'other')) {
+    const reference = revolved[0].axis!;
+    const direction = normalize(reference.direction);
+    const coaxial = (a: NonNullable<FaceInfo['axis']>) => {
+      const offset = subtract(a.location, reference.location);
+      return Math.abs(Math.abs(dot(normalize(a.direction), direction)) - 1) < 1e-4
+        && magnitude(subtract(offset, scale(direction, dot(offset, direction)))) < 0.01;
+    };
+    const crossHole = (f: FaceInfo) => features.holes.some(h =>
+      Math.abs(h.diameter - 2 * (f.radius ?? 0)) < 0.01 && Math.abs(dot(h.axis, direction)) < 0.99);
+    // A planar face square to the axis has no extent along it
+    const square = (f: FaceInfo) => {
+      const span = subtract(f.bounds.max, f.bounds.min);
+      return Math.abs(span.x * direction.x) + Math.abs(span.y * direction.y) + Math.abs(span.z * direction.z) < 0.01;
+    };
+    if (revolved.every(f => coaxial(f.axis!) || crossHole(f))
+      && geometry.faces.filter(f => f.type === 'plane').every(square)) {
+      axis = direction;
+    }
+  }
+
+  return {
+    extents,
+    volume: mass.volume,
+    thickness,
+    bends: thickness !== undefined ? features.bends : 0,
+    blank: thickness !== undefined && features.bends > 0 ? developedBlank(extents, mass.volume, thickness) : undefined,
+    holes: features.holes,
+    minFeature: features.minFeature ?? undefined,
+    axisymmetric: axis !== undefined,
+    axis,
+    welded: false,
+  };
+}
+
+/**
+ * Describe a generated component for planning from its bounds and metadata
+ */
+export function describeComponent(component: GeometryResult): PartDescriptor {
+  const { min, max } = component.bounds;
+  const metadata = component.metadata;
+  // Members carry their profile and length: size them along their own axis,
+  // since the world bounds of a sloped member span its run and rise
+  const member = typeof metadata.profile === 'string'
+    && typeof metadata.length === 'number'
+    && typeof metadata.size === 'number';
+  const extents = member
+    ? sortedExtents(
+        typeof metadata.width === 'number' ? metadata.width : metadata.size as number,
+        metadata.size as number,
+        metadata.length as number
+      )
+    : sortedExtents(max.x - min.x, max.y - min.y, max.z - min.z);
+  const thickness = typeof metadata.thickness === 'number' ? metadata.thickness : undefined;
+
+  const pattern = metadata.flatPattern as { bends?: unknown[]; blankLength?: number; blankWidth?: number } | undefined;
+  const bends = Array.isArray(pattern?.bends)
+    ? pattern.bends.length
+    : bracketBends[String(metadata.bracketType)] ?? 0;
+  const blank: [number, number] | undefined = pattern?.blankLength && pattern.blankWidth
+    ? [Math.max(pattern.blankLength, pattern.blankWidth), Math.min(pattern.blankLength, pattern.blankWidth)]
+    : bends > 0 && thickness ? developedBlank(extents, component.properties.volume, thickness) : undefined;
+
+  const holes = Array.isArray(metadata.holes)
+    ? (metadata.holes as Array<{ diameter?: unknown }>)
+        .filter(h => typeof h.diameter === 'number')
+        .map(h => ({ diameter: h.diameter as number, depth: thickness ?? extents[0] }))
+    : [];
+  const turned = Array.isArray(metadata.turnedProfile) && metadata.turnedProfile.length > 0;
+
+  return {
+    extents,
+    volume: component.properties.volume,
+    thickness,
+    bends,
+    blank,
+    holes,
+    minFeature: holes.length > 0 ? Math.min(...holes.map(h => h.diameter)) : undefined,
+    tolerance: typeof metadata.tolerance === 'number' ? metadata.tolerance : undefined,
+    axisymmetric: turned,
+    elementType: component.elementType,
+    welded: metadata.welded === true,
+  };
+}
+
+// ============================================================================
+// PLANNING
+// ============================================================================
+
+interface Plan {
+  steps: Omit<ProcessStep, 'step'>[];
+  primary: ManufacturingProcess;
+  cost: number;
+}
+
+/**
+ * Plan the processes and operation sequence for a part
+ *
+ * Processes are recognized by their names in `standardProcesses`; a
+ * shop list without one of them simply never offers that route.
+ */
+export function planProcesses(
+  part: PartDescriptor,
+  material: Material,
+  quantity: number,
+  processes: ManufacturingProcess[] = standardProcesses
+): ProcessRecommendation {
+  const batch = Math.max(1, Math.round(quantity));
+  const { partClass, reason } = classifyPart(part);
+  const reasoning = [reason];
+  const planner = new RoutePlanner(part, material, batch, processes, reasoning);
+
+  let plan: Plan | null;
+  switch (partClass) {
+    case 'sheet':
+      plan = planner.sheet();
+      break;
+    case 'structural-profile':
+      plan = planner.profile();
+      break;
+    case 'turned':
+      plan = planner.turned();
+      break;
+    default:
+      plan = null;
+  }
+  let planned = partClass;
+  if (!plan) {
+    if (partClass !== 'prismatic') {
+      reasoning.push(`No ${partClass} route in this shop; machining from solid instead`);
+      planned = 'prismatic';
+    }
+    plan = planner.prismatic();
+  }
+
+  if (part.welded) {
+    const weld = planner.pick([WELD], part.extents, 0, false);
+    if (weld) {
+      plan.steps.push({
+        process: weld.name,
+        description: 'Tack in fixture, weld out per weld map',
+        setup: 'Weld fixture, members clamped to datum stops',
+        output: 'weld-map',
+      });
+      plan.cost += planner.cost(weld, 0);
+    }
+  }
+
+  const sequence = plan.steps.map((s, i) => ({ step: i + 1, ...s }));
+  const secondary = processes.filter(p => p !== plan!.primary && sequence.some(s => s.process === p.name));
+  const setups = sequence.filter(s => s.setup).length;
+  reasoning.push(`${sequence.length} operation${sequence.length === 1 ? '' : 's'} in ${setups} setup${setups === 1 ? '' : 's'}; ` +
+    `setup cost amortized over ${batch} part${batch === 1 ? '' : 's'}`);
+
+  return {
+    primary: plan.primary,
+    secondary: secondary.length > 0 ? secondary : undefined,
+    reasoning,
+    sequence,
+    partClass: planned,
+    unitCost: round(plan.cost, 2),
+  };
+}
+
+/** Route builders per part class, sharing the screening and cost model */
+class RoutePlanner {
+  constructor(
+    private readonly part: PartDescriptor,
+    private readonly material: Material,
+    private readonly quantity: number,
+    private readonly processes: ManufacturingProcess[],
+    private readonly reasoning: string[]
+  ) {}
+
+  /** Flat blank on a cutting table, brake forming, machining for tight tolerances */
+  sheet(): Plan | null {
+    const part = this.part;
+    const thickness = part.thickness ?? part.extents[0];
+    const [length, width] = part.blank ?? [part.extents[2], part.extents[1]];
+    const blank = sortedExtents(thickness, width, length);
+
+    const cutter = this.pick([LASER, PLASMA], blank, part.volume)
+      ?? this.pick([LASER, PLASMA], blank, part.volume, false);
+    if (!cutter) return null;
+    const steps: Plan['steps'] = [{
+      process: cutter.name,
+      description: `Cut ${round(length)} × ${round(width)} mm blank` +
+        (part.holes.length > 0 ? ` with ${part.holes.length} pierced hole${part.holes.length === 1 ? '' : 's'}` : ''),
+      setup: `Nest on ${thickness} mm sheet`,
+      output: 'dxf-flat',
+    }];
+    let cost = this.cost(cutter, part.volume);
+
+    if (part.bends > 0) {
+      const brake = this.pick([BRAKE], blank, 0, false);
+      if (brake) {
+        steps.push({
+          process: brake.name,
+          description: `Form ${part.bends} bend${part.bends === 1 ? '' : 's'}, inside bends first`,
+          setup: `V-die sized for ${thickness} mm`,
+        });
+        cost += this.cost(brake, 0) + brake.perPartCost.fixed * (part.bends - 1);
+      } else {
+        this.reasoning.push('Bends need a larger brake; subcontract the forming');
+      }
+    }
+
+    if (part.tolerance !== undefined && part.tolerance < cutter.capabilities.tolerance) {
+      const mill = this.pick([MILL], blank, 0);
+      if (mill) {
+        steps.push({
+          process: mill.name,
+          description: `Finish toleranced features to ±${part.tolerance} mm`,
+          setup: 'Plate clamped flat, spindle along +Z',
+          output: 'gcode',
+        });
+        cost += this.cost(mill, 0);
+      }
+    }
+
+    return { steps, primary: cutter, cost };
+  }
+
+  /** Saw to length; holes are drilled from the cut list */
+  profile(): Plan | null {
+    const part = this.part;
+    const [small, mid, length] = part.extents;
+    // Stock lengths are spliced or ordered cut-to-length, so only the section must fit the saw
+    const saw = this.pick([SAW], [small, mid, mid], 0, false);
+    if (!saw) return null;
+    if (length > saw.capabilities.maxPartSize.x) {
+      this.reasoning.push(`${round(length)} mm is over ${saw.capabilities.maxPartSize.x} mm stock; order cut-to-length or splice`);
+    }
+
+    const holes = part.holes.length;
+    const steps: Plan['steps'] = [{
+      process: saw.name,
+      description: `Cut to ${round(length)} mm` + (holes > 0 ? `, drill ${holes} hole${holes === 1 ? '' : 's'} per cut list` : ''),
+      setup: 'Stock on roller conveyor against length stop',
+      output: 'cut-list',
+    }];
+    let cost = this.cost(saw, 0);
+
+    if (part.tolerance !== undefined && part.tolerance < saw.capabilities.tolerance) {
+      const mill = this.pick([MILL], part.extents, 0);
+      if (mill) {
+        steps.push({
+          process: mill.name,
+          description: `Mill ends and holes to ±${part.tolerance} mm`,
+          setup: 'Member clamped along the table, spindle along +Z',
+          output: 'gcode',
+        });
+        cost += this.cost(mill, 0);
+      } else {
+        this.reasoning.push(`±${part.tolerance} mm on a ${round(length)} mm member needs a line-boring or CNC beam line subcontractor`);
+      }
+    }
+
+    return { steps, primary: saw, cost };
+  }
+
+  /** Saw a bar blank, turn both ends, mill any cross holes */
+  turned(): Plan | null {
+    const part = this.part;
+    const [small, mid, long] = part.extents;
+    const slender = near(small, mid);
+    const diameter = slender ? mid : long;
+    const length = slender ? long : small;
+    const bar = sortedExtents(diameter + 2 * STOCK_ALLOWANCE, diameter + 2 * STOCK_ALLOWANCE, length + 2 * STOCK_ALLOWANCE);
+    const removed = Math.max(0, Math.PI / 4 * bar[1] ** 2 * bar[2] - part.volume);
+
+    const lathe = this.pick([LATHE], bar, removed);
+    if (!lathe) return null;
+
+    const steps: Plan['steps'] = [];
+    let cost = 0;
+    const saw = this.pick([SAW], bar, 0, false);
+    if (saw) {
+      steps.push({ process: saw.name, description: `Cut Ø${round(bar[1])} bar to ${round(bar[2])} mm` });
+      cost += this.cost(saw, 0);
+    }
+    steps.push({
+      process: lathe.name,
+      description: 'Face, turn and drill on-axis features of the first end',
+      setup: 'Op 1: three-jaw chuck on bar stock',
+      output: 'gcode',
+    });
+    steps.push({
+      process: lathe.name,
+      description: `Face to ${round(length)} mm and turn the second end`,
+      setup: 'Op 2: reversed in soft jaws on the finished diameter',
+      output: 'gcode',
+    });
+    cost += this.cost(lathe, removed) + lathe.setupCost / this.quantity;
+
+    const axis = part.axis;
+    const crossHoles = axis ? part.holes.filter(h => h.axis && Math.abs(dot(normalize(h.axis), axis)) < 0.99) : [];
+    if (crossHoles.length > 0) {
+      const mill = this.pick([MILL], bar, 0);
+      if (mill) {
+        steps.push({
+          process: mill.name,
+          description: `Drill ${crossHoles.length} cross hole${crossHoles.length === 1 ? '' : 's'}`,
+          setup: 'Op 3: V-block, spindle radial',
+          output: 'gcode',
+        });
+        cost += this.cost(mill, 0);
+      }
+    }
+
+    return { steps, primary: lathe, cost };
+  }
+
+  /** Saw a blank and mill it, one setup per approach direction */
+  prismatic(): Plan {
+    const part = this.part;
+    const stock = sortedExtents(...part.extents.map(e => e + 2 * STOCK_ALLOWANCE) as [number, number, number]);
+    const removed = Math.max(0, stock[0] * stock[1] * stock[2] - part.volume);
+    const mill = this.pick([MILL], stock, removed)
+      ?? this.processes.find(p => p.name === MILL)
+      ?? standardProcesses.find(p => p.name === MILL)!;
+
+    const steps: Plan['steps'] = [];
+    let cost = 0;
+    const saw = this.pick([SAW], stock, 0, false);
+    if (saw) {
+      steps.push({ process: saw.name, description: `Cut ${stock.map(v => round(v)).reverse().join(' × ')} mm blank` });
+      cost += this.cost(saw, 0);
+    }
+
+    // Top and back faces, plus a setup for each side a hole is drilled from
+    const directions = ['+Z', '-Z'];
+    for (const hole of part.holes) {
+      if (!hole.axis) continue;
+      const a = normalize(hole.axis);
+      const side = Math.abs(a.x) > 0.99 ? '+X' : Math.abs(a.y) > 0.99 ? '+Y' : Math.abs(a.z) > 0.99 ? '+Z' : null;
+      if (!side) {
+        this.reasoning.push(`Hole Ø${hole.diameter} at a compound angle needs a tilting fixture or 4th axis`);
+      } else if (!directions.includes(side)) {
+        directions.push(side);
+      }
+    }
+    directions.forEach((direction, i) => {
+      steps.push({
+        process: mill.name,
+        description: i === 0
+          ? 'Face, profile, pocket and drill from the top'
+          : i === 1 ? 'Flip, face to thickness and machine the back' : `Drill holes approached from ${direction}`,
+        setup: `Op ${i + 1}: ${i === 0 ? 'vise' : i === 1 ? 'vise on machined faces' : 'angle plate'}, spindle along ${direction}`,
+        output: 'gcode',
+      });
+    });
+    cost += this.cost(mill, removed) + (directions.length - 1) * mill.setupCost / this.quantity;
+
+    return { steps, primary: mill, cost };
+  }
+
+  /**
+   * Cheapest of the named processes that passes the screens; records why
+   * others were ruled out or passed over
+   */
+  pick(names: string[], size: [number, number, number], volume = 0, holdsTolerance = true): ManufacturingProcess | null {
+    const passing: { process: ManufacturingProcess; cost: number }[] = [];
+    for (const name of names) {
+      const process = this.processes.find(p => p.name === name);
+      if (!process) continue;
+      const reason = this.screen(process, size, holdsTolerance);
+      if (reason) {
+        this.reasoning.push(`${process.name} ruled out: ${reason}`);
+      } else {
+        passing.push({ process, cost: this.cost(process, volume) });
+      }
+    }
+    if (passing.length === 0) return null;
+
+    passing.sort((a, b) => a.cost - b.cost);
+    if (passing.length > 1) {
+      this.reasoning.push(`${passing[0].process.name} at ${round(passing[0].cost, 2)}/part beats ` +
+        passing.slice(1).map(p => `${p.process.name} at ${round(p.cost, 2)}`).join(', ') + ` for ${this.quantity} off`);
+    }
+    return passing[0].process;
+  }
+
+  /** Setup amortized over the batch plus the per-part cost */
+  cost(process: ManufacturingProcess, volume: number): number {
+    return process.setupCost / this.quantity + process.perPartCost.fixed + process.perPartCost.perVolume * volume / 1000;
+  }
+
+  private screen(process: ManufacturingProcess, size: [number, number, number], holdsTolerance: boolean): string | null {
+    const part = this.part;
+    const capabilities = process.capabilities;
+
+    if (!process.materials.includes(this.material.type)) {
+      return `does not work ${this.material.type}`;
+    }
+    const envelope = sortedExtents(capabilities.maxPartSize.x, capabilities.maxPartSize.y, capabilities.maxPartSize.z);
+    if (size.some((d, i) => d > envelope[i])) {
+      return `${size.map(v => round(v)).reverse().join(' × ')} mm exceeds the ${envelope.slice().reverse().join(' × ')} mm envelope`;
+    }
+    if (holdsTolerance && part.tolerance !== undefined && part.tolerance < capabilities.tolerance) {
+      return `holds ±${capabilities.tolerance} mm, part needs ±${part.tolerance} mm`;
+    }
+    if (part.minFeature !== undefined) {
+      const limit = Math.max(capabilities.minFeatureSize, (holeToThickness[process.name] ?? 0) * (part.thickness ?? 0));
+      if (part.minFeature < limit) {
+        return `smallest feature ${part.minFeature} mm is under its ${round(limit)} mm minimum`;
+      }
+    }
+    return null;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function sortedExtents(a: number, b: number, c: number): [number, number, number] {
+  return [a, b, c].sort((x, y) => x - y) as [number, number, number];
+}
+
+/** Flat size of a bent part, longer side first: the developed area on its longest extent */
+function developedBlank(extents: [number, number, number], volume: number, thickness: number): [number, number] {
+  const length = extents[2];
+  const width = round(Math.max(extents[1], volume / thickness / length));
+  return [Math.max(length, width), Math.min(length, width)];
+}
+
+function near(a: number, b: number): boolean {
+  return Math.abs(a - b) <= 0.02 * Math.max(a, b);
+}
+
+function round(value: number, places = 0): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
@@ -526,12 +526,68 @@ export interface ReasoningRequest {
 /**
  * AI reasoning response
  */
-export interface ReasoningResponse {
+export interface ReasoningResponse<T = unknown> {
   success: boolean;
-  result: unknown;
+  result: T | null;
   reasoning: string;
   confidence: number;
   tokensUsed?: number;
+
+  /** Provider that answered */
+  provider?: string;
+
+  /** Provider calls made, including retries */
+  attempts?: number;
+
+  /** Served from the response cache */
+  cached?: boolean;
+
+  /** Transport or validation errors when unsuccessful */
+  errors?: string[];
+}
+
+/**
+ * Shape a structured reasoning result must match (JSON Schema subset)
+ */
+export type ResultSchema =
+  | { type: 'string'; enum?: readonly string[] }
+  | { type: 'number'; minimum?: number; maximum?: number }
+  | { type: 'boolean' }
+  | { type: 'array'; items: ResultSchema }
+  | { type: 'object'; properties: Record<string, ResultSchema>; required?: readonly string[] }
+  | { anyOf: readonly ResultSchema[] };
+
+/**
+ * A single completion call made to a reasoning provider
+ */
+export interface ProviderRequest {
+  /** Original reasoning request */
+  request: ReasoningRequest;
+
+  /** System instructions, including the output schema */
+  system: string;
+
+  /** Rendered user prompt with context */
+  prompt: string;
+
+  maxTokens: number;
+  temperature: number;
+}
+
+/**
+ * Raw completion returned by a reasoning provider
+ */
+export interface ProviderResponse {
+  text: string;
+  tokensUsed: { input: number; output: number };
+}
+
+/**
+ * Backend that answers reasoning requests (remote model or local fixture)
+ */
+export interface ReasoningProvider {
+  readonly name: string;
+  complete(request: ProviderRequest, signal?: AbortSignal): Promise<ProviderResponse>;
 }
 
 /**
@@ -558,4 +614,13 @@ export interface AIServiceConfig {
 
   /** Timeout in milliseconds */
   timeout: number;
+
+  /** Retries after a failed or invalid response (default 2) */
+  maxRetries?: number;
+
+  /** Total tokens the service may spend across requests */
+  tokenBudget?: number;
+
+  /** Custom provider, overriding the one selected by model */
+  provider?: ReasoningProvider;
 }
@@ -0,0 +1,95 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { WorkerRequest, WorkerResponse } from '../types';
+import type { KernelTransport } from './kernel';
+import { createInProcessTransport, createNodeWorkerTransport } from './kernel-node';
+
+/** Worker script answering every request with the OpenCascade path it was given */
+const ECHO_WORKER = `
+self.onmessage = async (event) => {
+  const { id, type, payload } = event.data;
+  if (type === 'cancel') return;
+  self.postMessage({ id, type, success: true, progress: 50 });
+  self.postMessage({ id, type, success: true, payload: { echo: payload, openCascadePath: self.kernelHost.openCascadePath } });
+};
+`;
+
+/** The parts of node:fs and node:os used to write worker scripts */
+interface NodeFs {
+  mkdtempSync(prefix: string): string;
+  writeFileSync(path: string, data: string): void;
+  rmSync(path: string, options: { recursive: boolean; force: boolean }): void;
+}
+
+function nodeImport<T>(specifier: string): Promise<T> {
+  return import(/* @vite-ignore */ specifier) as Promise<T>;
+}
+
+let fs: NodeFs;
+let dir: string;
+let workerScript: string;
+
+beforeAll(async () => {
+  fs = await nodeImport<NodeFs>('node:fs');
+  const { tmpdir } = await nodeImport<{ tmpdir(): string }>('node:os');
+  dir = fs.mkdtempSync(`${tmpdir()}/kernel-node-`);
+  workerScript = `${dir}/echo.worker.js`;
+  fs.writeFileSync(workerScript, ECHO_WORKER);
+});
+
+afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+/** Responses for one request, up to its final (non-progress) response */
+function roundTrip(transport: KernelTransport, request: WorkerRequest): Promise<WorkerResponse[]> {
+  return new Promise(resolve => {
+    const responses: WorkerResponse[] = [];
+    transport.onMessage(response => {
+      responses.push(response);
+      if (response.progress === undefined) resolve(responses);
+    });
+    transport.postMessage(request);
+  });
+}
+
+describe.each([
+  ['in-process', createInProcessTransport],
+  ['worker_threads', createNodeWorkerTransport],
+])('%s transport', (_name, create) => {
+  it('hosts the worker script and hands it the OpenCascade path', async () => {
+    const transport = await create({ workerScript, openCascadePath: '/opt/occt' });
+    const responses = await roundTrip(transport, { id: '1', type: 'init', payload: { n: 1 } });
+    await transport.terminate();
+
+    expect(responses.map(r => r.progress)).toEqual([50, undefined]);
+    expect(responses[1].payload).toEqual({ echo: { n: 1 }, openCascadePath: '/opt/occt' });
+  });
+
+  it('replaces the message handler rather than adding to it', async () => {
+    const transport = await create({ workerScript, openCascadePath: '/opt/occt' });
+    const stale: WorkerResponse[] = [];
+    transport.onMessage(response => stale.push(response));
+
+    const responses = await roundTrip(transport, { id: '2', type: 'compute', payload: null });
+    await transport.terminate();
+
+    expect(responses).toHaveLength(2);
+    expect(stale).toEqual([]);
+  });
+});
+
+describe('createNodeWorkerTransport', () => {
+  it('reports a worker thread that exits unexpectedly, but not a termination', async () => {
+    const crashing = `${dir}/crash.worker.js`;
+    fs.writeFileSync(crashing, "self.onmessage = () => process.exit(3);");
+
+    const transport = await createNodeWorkerTransport({ workerScript: crashing, openCascadePath: dir });
+    const error = new Promise<Error>(resolve => transport.onError(resolve));
+    transport.postMessage({ id: '3', type: 'init', payload: null });
+    expect((await error).message).toBe('Geometry worker thread exited with code 3');
+
+    const quiet = await createNodeWorkerTransport({ workerScript, openCascadePath: dir });
+    const errors: Error[] = [];
+    quiet.onError(e => errors.push(e));
+    await quiet.terminate();
+    expect(errors).toEqual([]);
+  });
+});
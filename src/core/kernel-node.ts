@@ -0,0 +1,201 @@
+/**
+ * Node.js Kernel Transports
+ *
+ * Runs the browser's geometry worker script outside the browser so the
+ * command line, tests and batch jobs build real geometry. The same
+ * `public/geometry.worker.js` and OpenCascade WASM are read from disk and
+ * hosted either on a worker_threads thread or on the calling thread.
+ */
+
+import type { WorkerRequest, WorkerResponse } from '../types';
+import type { KernelTransport } from './kernel';
+
+export interface NodeKernelOptions {
+  /** Path to geometry.worker.js (default: `public/` next to `src/`) */
+  workerScript?: string;
+  /** Directory holding opencascade.full.js and its WASM */
+  openCascadePath?: string;
+}
+
+// ============================================================================
+// NODE BUILT-INS - only the parts used here
+// ============================================================================
+
+interface NodeWorker {
+  postMessage(value: unknown): void;
+  on(event: 'message', listener: (response: WorkerResponse) => void): void;
+  on(event: 'error', listener: (error: Error) => void): void;
+  on(event: 'exit', listener: (code: number) => void): void;
+  ref(): void;
+  unref(): void;
+  terminate(): Promise<number>;
+}
+
+interface WorkerThreadsModule {
+  Worker: new (
+    source: string,
+    options: { eval: true; workerData: Required<NodeKernelOptions> }
+  ) => NodeWorker;
+}
+
+interface FsPromisesModule {
+  readFile(path: string, encoding: 'utf8'): Promise<string>;
+}
+
+interface UrlModule {
+  fileURLToPath(url: URL): string;
+}
+
+interface ModuleModule {
+  createRequire(from: string): (id: string) => unknown;
+}
+
+/**
+ * Import a Node built-in by name at run time, so the browser bundle never
+ * tries to resolve it
+ */
+function nodeImport<T>(specifier: string): Promise<T> {
+  return import(/* @vite-ignore */ specifier) as Promise<T>;
+}
+
+// ============================================================================
+// WORKER SCRIPT HOSTING
+// ============================================================================
+
+/**
+ * What the worker script sees as `self` when not in a browser Web Worker.
+ * `kernelHost` tells it where to read OpenCascade from and hands the
+ * Emscripten loader a `require` for its Node file access.
+ */
+interface WorkerScope {
+  kernelHost: {
+    openCascadePath: string;
+    readText: (path: string) => Promise<string>;
+    require: (id: string) => unknown;
+  };
+  postMessage: (response: WorkerResponse) => void;
+  onmessage: ((event: { data: WorkerRequest }) => Promise<void>) | null;
+}
+
+/**
+ * Runs inside the worker thread. Eval'd workers are CommonJS, so `require`
+ * is available here without a loader.
+ */
+const WORKER_THREAD_BOOTSTRAP = `
+const { parentPort, workerData } = require('node:worker_threads');
+const fs = require('node:fs');
+const scope = {
+  kernelHost: {
+    openCascadePath: workerData.openCascadePath,
+    readText: (path) => fs.promises.readFile(path, 'utf8'),
+    require,
+  },
+  postMessage: (response) => parentPort.postMessage(response),
+  onmessage: null,
+};
+new Function('self', fs.readFileSync(workerData.workerScript, 'utf8'))(scope);
+parentPort.on('message', (data) => scope.onmessage({ data }));
+`;
+
+async function resolvePaths(options: NodeKernelOptions): Promise<Required<NodeKernelOptions>> {
+  const { fileURLToPath } = await nodeImport<UrlModule>('node:url');
+  const publicDir = fileURLToPath(new URL('../../public/', import.meta.url));
+
+  return {
+    workerScript: options.workerScript ?? `${publicDir}geometry.worker.js`,
+    openCascadePath: options.openCascadePath ?? `${publicDir}opencascade`,
+  };
+}
+
+// ============================================================================
+// TRANSPORTS
+// ============================================================================
+
+/**
+ * Host the worker script on a worker_threads thread. The thread only keeps
+ * the process alive while requests are outstanding, so scripts exit on
+ * their own once their geometry is done.
+ */
+export async function createNodeWorkerTransport(
+  options: NodeKernelOptions = {}
+): Promise<KernelTransport> {
+  const { Worker } = await nodeImport<WorkerThreadsModule>('node:worker_threads');
+  const workerData = await resolvePaths(options);
+  const worker = new Worker(WORKER_THREAD_BOOTSTRAP, { eval: true, workerData });
+
+  let outstanding = 0;
+  let terminated = false;
+  worker.unref();
+
+  let messageHandler: (response: WorkerResponse) => void = () => {};
+  let errorHandler: (error: Error) => void = () => {};
+  worker.on('message', (response) => {
+    if (response.progress === undefined && --outstanding === 0) worker.unref();
+    messageHandler(response);
+  });
+  worker.on('error', (error) => errorHandler(error));
+  worker.on('exit', (code) => {
+    if (!terminated) {
+      errorHandler(new Error(`Geometry worker thread exited with code ${code}`));
+    }
+  });
+
+  return {
+    postMessage: (request) => {
+      if (outstanding++ === 0) worker.ref();
+      worker.postMessage(request);
+    },
+    onMessage: (handler) => {
+      messageHandler = handler;
+    },
+    onError: (handler) => {
+      errorHandler = handler;
+    },
+    terminate: async () => {
+      terminated = true;
+      await worker.terminate();
+    },
+  };
+}
+
+/**
+ * Host the worker script on the calling thread. Geometry calls block the
+ * event loop, which is fine for tests and batch jobs that want a single
+ * thread and plain stack traces.
+ */
+export async function createInProcessTransport(
+  options: NodeKernelOptions = {}
+): Promise<KernelTransport> {
+  const { readFile } = await nodeImport<FsPromisesModule>('node:fs/promises');
+  const { createRequire } = await nodeImport<ModuleModule>('node:module');
+  const paths = await resolvePaths(options);
+  const source = await readFile(paths.workerScript, 'utf8');
+
+  let responseHandler: ((response: WorkerResponse) => void) | null = null;
+  const scope: WorkerScope = {
+    kernelHost: {
+      openCascadePath: paths.openCascadePath,
+      readText: (path) => readFile(path, 'utf8'),
+      require: createRequire(import.meta.url),
+    },
+    postMessage: (response) => responseHandler?.(response),
+    onmessage: null,
+  };
+  new Function('self', source)(scope);
+
+  return {
+    postMessage: (request) => {
+      // Deliver asynchronously, as a worker would
+      queueMicrotask(() => scope.onmessage?.({ data: request }));
+    },
+    onMessage: (handler) => {
+      responseHandler = handler;
+    },
+    // The worker script reports every failure as an unsuccessful response
+    onError: () => {},
+    terminate: async () => {
+      scope.onmessage = null;
+      responseHandler = null;
+    },
+  };
+}
@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { WorkerRequest, WorkerResponse } from '../types';
+import type { KernelTransport } from './kernel';
+import { createBox, disposeKernel, initKernel } from './kernel';
+
+/** Transport answering each request with the responses `reply` gives it */
+function scriptedTransport(reply: (request: WorkerRequest) => Array<Partial<WorkerResponse>>) {
+  const posted: WorkerRequest[] = [];
+  let handler: (response: WorkerResponse) => void = () => {};
+  let errorHandler: (error: Error) => void = () => {};
+  const transport: KernelTransport & { posted: WorkerRequest[]; terminated: boolean; fail: (error: Error) => void } = {
+    posted,
+    terminated: false,
+    fail: error => errorHandler(error),
+    postMessage: request => {
+      posted.push(request);
+      for (const response of reply(request)) {
+        queueMicrotask(() => handler({ id: request.id, type: request.type, success: true, ...response }));
+      }
+    },
+    onMessage: next => {
+      handler = next;
+    },
+    onError: next => {
+      errorHandler = next;
+    },
+    terminate: async () => {
+      transport.terminated = true;
+    },
+  };
+  return transport;
+}
+
+const box = { mesh: { vertices: [], indices: [], normals: [] }, shapeId: 'shape-1' };
+
+afterEach(async () => {
+  vi.useRealTimers();
+  await disposeKernel();
+});
+
+describe('initKernel', () => {
+  it('sends requests through the given transport and reports progress', async () => {
+    const transport = scriptedTransport(request =>
+      request.type === 'init' ? [{}] : [{ progress: 40 }, { payload: box }]
+    );
+    await initKernel({ transport });
+
+    const progress: number[] = [];
+    const result = await createBox(10, 20, 30, { onProgress: p => progress.push(p) });
+
+    expect(result.shapeId).toBe('shape-1');
+    expect(progress).toEqual([40]);
+    expect(transport.posted.map(r => r.type)).toEqual(['init', 'compute']);
+    expect(transport.posted[1].payload).toEqual({ operation: 'box', params: { width: 10, height: 20, depth: 30 } });
+  });
+
+  it('rejects outstanding requests when the worker fails', async () => {
+    const transport = scriptedTransport(request => (request.type === 'init' ? [{}] : []));
+    await initKernel({ transport });
+
+    const pending = createBox(1, 1, 1);
+    await Promise.resolve();
+    transport.fail(new Error('worker crashed'));
+
+    await expect(pending).rejects.toThrow('worker crashed');
+  });
+
+  it('fails fast after a failed init until the backoff expires', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const failing = () => scriptedTransport(() => [{ success: false, error: 'WASM missing' }]);
+
+    const first = failing();
+    await expect(initKernel({ transport: first })).rejects.toThrow('WASM missing');
+    expect(first.terminated).toBe(true);
+
+    // Options retry at once; the second failure doubles the backoff to 2 s
+    await expect(initKernel({ transport: failing() })).rejects.toThrow('WASM missing');
+    vi.advanceTimersByTime(1500);
+    await expect(initKernel()).rejects.toThrow('WASM missing');
+
+    const working = scriptedTransport(() => [{}]);
+    await initKernel({ transport: working });
+    expect(working.posted.map(r => r.type)).toEqual(['init']);
+  });
+});
@@ -24,10 +24,94 @@ const pendingRequests = new Map<
   }
 >();
 
-let worker: Worker | null = null;
+let transport: KernelTransport | null = null;
 let isInitialized = false;
 let initPromise: Promise<void> | null = null;
 
+// Last failed initialization; repeat calls fail fast until the backoff expires
+let initFailure: { error: unknown; attempts: number; retryAt: number } | null = null;
+
+const INIT_RETRY_BASE_MS = 1000;
+const INIT_RETRY_MAX_MS = 60_000;
+
+// ============================================================================
+// TRANSPORT - how requests reach the OpenCascade worker script
+// ============================================================================
+
+/**
+ * Message channel to an instance of `public/geometry.worker.js`.
+ * The browser uses a Web Worker; Node uses worker_threads or runs the
+ * script in-process (see kernel-node.ts).
+ */
+export interface KernelTransport {
+  postMessage(request: WorkerRequest): void;
+  /** Set the response handler, replacing any earlier one */
+  onMessage(handler: (response: WorkerResponse) => void): void;
+  /** Set the error handler, replacing any earlier one */
+  onError(handler: (error: Error) => void): void;
+  terminate(): Promise<void>;
+}
+
+/**
+ * - `browser`: Web Worker loading `/geometry.worker.js`
+ * - `node`: worker_threads loading the same script and WASM from `public/`
+ * - `in-process`: the worker script runs on the calling thread (Node only)
+ */
+export type KernelBackend = 'browser' | 'node' | 'in-process';
+
+export interface KernelOptions {
+  /** Defaults to `browser` when Web Workers exist, otherwise `node` */
+  backend?: KernelBackend;
+  /** Bring-your-own transport; overrides `backend` */
+  transport?: KernelTransport;
+  /** Worker script: a URL in the browser, a file path in Node */
+  workerScript?: string;
+  /** Directory holding opencascade.full.js and its WASM (Node backends) */
+  openCascadePath?: string;
+}
+
+function defaultBackend(): KernelBackend {
+  if (typeof Worker !== 'undefined') return 'browser';
+  const nodeProcess = (globalThis as { process?: { versions?: { node?: string } } }).process;
+  if (nodeProcess?.versions?.node) return 'node';
+  throw new Error('No geometry kernel backend available: Web Workers and Node.js are both missing');
+}
+
+function createBrowserTransport(scriptUrl: string): KernelTransport {
+  // Plain JS worker from the public folder, no module issues
+  const worker = new Worker(scriptUrl);
+
+  return {
+    postMessage: (request) => worker.postMessage(request),
+    onMessage: (handler) => {
+      worker.onmessage = (event: MessageEvent<WorkerResponse>) => handler(event.data);
+    },
+    onError: (handler) => {
+      worker.onerror = (event) => handler(new Error(event.message || 'Geometry worker failed'));
+    },
+    terminate: async () => worker.terminate(),
+  };
+}
+
+/**
+ * Create a transport for a backend without touching the shared kernel state
+ */
+export async function createKernelTransport(options: KernelOptions = {}): Promise<KernelTransport> {
+  if (options.transport) return options.transport;
+
+  const backend = options.backend ?? defaultBackend();
+  if (backend === 'browser') {
+    return createBrowserTransport(options.workerScript ?? '/geometry.worker.js');
+  }
+
+  // Loaded lazily so the browser bundle never evaluates the Node transports
+  const { createNodeWorkerTransport, createInProcessTransport } = await import('./kernel-node');
+  const nodeOptions = { workerScript: options.workerScript, openCascadePath: options.openCascadePath };
+  return backend === 'node'
+    ? createNodeWorkerTransport(nodeOptions)
+    : createInProcessTransport(nodeOptions);
+}
+
 /**
  * Generate unique request ID
  */
@@ -35,54 +119,94 @@ function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
 }
 
+function handleResponse(response: WorkerResponse): void {
+  const { id, success, payload, error, progress } = response;
+
+  const pending = pendingRequests.get(id);
+  if (!pending) return;
+
+  // Handle progress updates
+  if (progress !== undefined && pending.onProgress) {
+    pending.onProgress(progress);
+    return; // Don't resolve yet
+  }
+
+  // Handle completion
+  pendingRequests.delete(id);
+
+  if (success) {
+    pending.resolve(payload);
+  } else {
+    pending.reject(new Error(error || 'Unknown error'));
+  }
+}
+
+function rejectAllPending(error: Error): void {
+  for (const pending of pendingRequests.values()) {
+    pending.reject(error);
+  }
+  pendingRequests.clear();
+}
+
 /**
  * Initialize the geometry kernel
- * Call this early - OpenCascade takes a few seconds to load
+ * Call this early - OpenCascade takes a few seconds to load.
+ * The first call picks the backend; later calls reuse it. After a failure,
+ * calls without options rethrow it until an exponential backoff expires;
+ * passing options (e.g. another backend) retries immediately.
  */
-export async function initKernel(): Promise<void> {
+export async function initKernel(options: KernelOptions = {}): Promise<void> {
   if (isInitialized) return;
   if (initPromise) return initPromise;
+  if (initFailure && Date.now() < initFailure.retryAt && Object.keys(options).length === 0) {
+    throw initFailure.error;
+  }
 
   initPromise = (async () => {
-    // Create worker from public folder (plain JS, no module issues)
-    worker = new Worker('/geometry.worker.js');
-
-    // Set up message handling
-    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
-      const { id, success, payload, error, progress } = event.data;
-
-      const pending = pendingRequests.get(id);
-      if (!pending) return;
-
-      // Handle progress updates
-      if (progress !== undefined && pending.onProgress) {
-        pending.onProgress(progress);
-        return; // Don't resolve yet
-      }
-
-      // Handle completion
-      pendingRequests.delete(id);
-
-      if (success) {
-        pending.resolve(payload);
-      } else {
-        pending.reject(new Error(error || 'Unknown error'));
-      }
-    };
-
-    worker.onerror = (error) => {
-      console.error('[Kernel] Worker error:', error);
-    };
-
-    // Initialize OpenCascade in worker
-    await sendRequest('init', null);
-    isInitialized = true;
-    console.log('[Kernel] Initialized');
+    try {
+      transport = await createKernelTransport(options);
+
+      transport.onMessage(handleResponse);
+      transport.onError((error) => {
+        console.error('[Kernel] Worker error:', error);
+        rejectAllPending(error);
+      });
+
+      // Initialize OpenCascade in worker
+      await sendRequest('init', null);
+      isInitialized = true;
+      initFailure = null;
+      console.log('[Kernel] Initialized');
+    } catch (error) {
+      // Leave the kernel clean so a later call can retry, e.g. with another backend
+      const failed = transport;
+      transport = null;
+      initPromise = null;
+      const attempts = (initFailure?.attempts ?? 0) + 1;
+      const backoff = Math.min(INIT_RETRY_BASE_MS * 2 ** (attempts - 1), INIT_RETRY_MAX_MS);
+      initFailure = { error, attempts, retryAt: Date.now() + backoff };
+      await failed?.terminate();
+      throw error;
+    }
   })();
 
   return initPromise;
 }
 
+/**
+ * Shut the kernel down: terminate the worker and drop all shapes.
+ * Command-line tools call this so the process can exit.
+ */
+export async function disposeKernel(): Promise<void> {
+  const active = transport;
+  transport = null;
+  isInitialized = false;
+  initPromise = null;
+  initFailure = null;
+  rejectAllPending(new Error('Kernel disposed'));
+  await active?.terminate();
+}
+
 /**
  * Send request to worker and wait for response
  */
@@ -91,7 +215,7 @@ function sendRequest<T>(
   payload: unknown,
   onProgress?: (progress: number) => void
 ): Promise<T> {
-  if (!worker) {
+  if (!transport) {
     return Promise.reject(new Error('Kernel not initialized'));
   }
 
@@ -101,7 +225,7 @@ function sendRequest<T>(
     pendingRequests.set(id, { resolve, reject, onProgress });
 
     const request: WorkerRequest = { id, type, payload };
-    worker!.postMessage(request);
+    transport!.postMessage(request);
   });
 }
 
@@ -115,7 +239,7 @@ export function cancelOperation(operationId: string): void {
     pendingRequests.delete(operationId);
 
     // Tell worker to cancel too
-    worker?.postMessage({
+    transport?.postMessage({
       id: generateId(),
       type: 'cancel',
       payload: { targetId: operationId },
@@ -857,6 +981,47 @@ export async function measureDistance(
   return result.data;
 }
 
+export interface FaceInfo {
+  /** 1-based, matches the face indices of shellShape and filletEdges */
+  index: number;
+  type: 'plane' | 'cylinder' | 'cone' | 'other';
+  area: number;
+  center: { x: number; y: number; z: number };
+  bounds: BoundingBox;
+  /** Cylinders only */
+  radius?: number;
+  axis?: { location: { x: number; y: number; z: number }; direction: { x: number; y: number; z: number } };
+  /** Cylinders only: angle covered around the axis (rad) and length along it */
+  sweep?: number;
+  length?: number;
+}
+
+export interface FaceAnalysis {
+  faces: FaceInfo[];
+  /** Triangulation with outward winding; faceIds holds the face index of each triangle */
+  mesh: { positions: Float32Array; indices: Uint32Array; faceIds: Uint32Array };
+  bounds: BoundingBox;
+}
+
+/**
+ * Classify the faces of a shape and triangulate it for DFM queries
+ * @param shapeId - Shape to analyze
+ * @param deflection - Linear mesh deflection (mm)
+ */
+export async function analyzeFaces(shapeId: string, deflection = 0.2): Promise<FaceAnalysis> {
+  await initKernel();
+
+  const result = await sendRequest<{ data: FaceAnalysis }>(
+    'compute',
+    {
+      operation: 'analyzeFaces',
+      params: { shapeId, deflection },
+    }
+  );
+
+  return result.data;
+}
+
 // ============================================================================
 // FILE EXPORT OPERATIONS
 // ============================================================================
@@ -918,6 +1083,59 @@ export async function exportOBJ(shapeId: string): Promise<string> {
   return result.data;
 }
 
+// ============================================================================
+// FILE IMPORT OPERATIONS
+// ============================================================================
+
+export interface ImportedBody {
+  shapeId: string;
+  kind: 'solid' | 'shell';
+  bounds: BoundingBox;
+  numFaces: number;
+  numEdges: number;
+  volume: number;
+}
+
+export interface ImportResult {
+  /** Compound of everything in the file */
+  shapeId: string;
+  mesh: MeshData;
+  /** Each body, registered as its own shape */
+  solids: ImportedBody[];
+  numFaces: number;
+  numEdges: number;
+  bounds: BoundingBox;
+}
+
+/**
+ * Import a STEP or IGES file into the kernel
+ * @param data - File content
+ * @param format - 'step' or 'iges'
+ * @returns Registered shapes with topology counts (geometry in mm)
+ */
+export async function importCAD(
+  data: ArrayBuffer | string,
+  format: 'step' | 'iges',
+  options?: ComputeOptions
+): Promise<ImportResult> {
+  await initKernel();
+
+  const result = await sendRequest<{
+    mesh: MeshData;
+    shapeId: string;
+    data: Omit<ImportResult, 'shapeId' | 'mesh'>;
+  }>(
+    'compute',
+    {
+      operation: 'importCAD',
+      params: { data, format },
+    },
+    options?.onProgress
+  );
+
+  return { shapeId: result.shapeId, mesh: result.mesh, ...result.data };
+}
+
 // ============================================================================
 // TRANSFORM OPERATIONS
 // ============================================================================
@@ -1085,20 +1303,22 @@ export async function createHole(
  * This is where we really beat single-threaded CAD systems.
  */
 class WorkerPool {
-  private workers: Worker[] = [];
-  private available: Worker[] = [];
+  private workers: KernelTransport[] = [];
+  private available: KernelTransport[] = [];
   private queue: Array<{
     task: () => Promise<any>;
     resolve: (value: any) => void;
     reject: (reason: any) => void;
   }> = [];
 
-  constructor(private size: number = navigator.hardwareConcurrency || 4) {}
+  constructor(
+    private size: number = (typeof navigator !== 'undefined' && navigator.hardwareConcurrency) || 4
+  ) {}
 
-  async initialize(): Promise<void> {
-    // Create worker pool using plain JS worker from public folder
+  async initialize(options: KernelOptions = {}): Promise<void> {
+    // One transport per worker on the same backend as the kernel
     for (let i = 0; i < this.size; i++) {
-      const worker = new Worker('/geometry.worker.js');
+      const worker = await createKernelTransport({ ...options, transport: undefined });
 
       this.workers.push(worker);
       this.available.push(worker);
@@ -1110,18 +1330,16 @@ class WorkerPool {
         new Promise<void>((resolve, reject) => {
           const id = generateId();
 
-          const handler = (event: MessageEvent<WorkerResponse>) => {
-            if (event.data.id === id) {
-              w.removeEventListener('message', handler);
-              if (event.data.success) {
+          w.onMessage((response) => {
+            if (response.id === id) {
+              if (response.success) {
                 resolve();
               } else {
-                reject(new Error(event.data.error));
+                reject(new Error(response.error));
               }
             }
-          };
-
-          w.addEventListener('message', handler);
+          });
+          w.onError(reject);
           w.postMessage({ id, type: 'init', payload: null });
         })
       )
@@ -1161,8 +1379,8 @@ class WorkerPool {
     }
   }
 
-  terminate(): void {
-    this.workers.forEach((w) => w.terminate());
+  async terminate(): Promise<void> {
+    await Promise.all(this.workers.map((w) => w.terminate()));
     this.workers = [];
     this.available = [];
   }
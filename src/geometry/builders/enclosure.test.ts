@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { calculateBend } from '../../knowledge/domains/enclosure';
+import type { BuilderContext } from '../types';
+import type { SheetMetalPartInput } from './enclosure';
+import { GuardBuilder, PanelBuilder, SheetMetalPartBuilder, developFlatPattern } from './enclosure';
+
+const context: BuilderContext = {
+  pointA: { x: 0, y: 0, z: 0 },
+  pointB: { x: 1000, y: 0, z: 0 },
+  material: 'CRS',
+  parameters: {},
+};
+
+/** 1.5 mm CRS channel: 300 wide with 20 mm flanges left and right */
+const channel: SheetMetalPartInput = {
+  width: 300,
+  height: 200,
+  thickness: 1.5,
+  bendRadius: 1.5,
+  flanges: { left: 20, right: 20 },
+  holes: [{ x: 150, y: 100, diameter: 10 }],
+};
+
+const bend = calculateBend({ material: 'CRS', thickness: 1.5, bendAngle: 90, insideRadius: 1.5 });
+
+describe('developFlatPattern', () => {
+  it('develops a channel to its outside dimensions less the bend deductions', () => {
+    const pattern = developFlatPattern(channel, 'CRS', 'Channel');
+    const blank = 300 + 2 * 20 - 2 * bend.bendDeduction;
+
+    expect(pattern.blankLength).toBeCloseTo(blank, 2);
+    expect(pattern.blankWidth).toBe(200);
+    expect(pattern.bends.map(b => b.edge)).toEqual(['left', 'right']);
+    expect(pattern.bends[0]).toMatchObject({ angle: 90, insideRadius: 1.5, kFactor: bend.kFactor });
+    // Bend centerlines run the full height when the neighbouring edges are free
+    expect(pattern.bends[0].line).toMatchObject({ y1: 0, y2: 200 });
+    expect(pattern.bends[0].line.x1).toBeCloseTo(20 - bend.outsideSetback - bend.bendAllowance / 2 + bend.bendAllowance, 2);
+    expect(pattern.errors).toEqual([]);
+  });
+
+  it('keeps the outline, holes and weight consistent', () => {
+    const pattern = developFlatPattern(channel, 'CRS');
+    const outline = pattern.entities.find(e => e.layer === 'PROFILE' && e.type === 'polyline')!;
+    const holes = pattern.entities.filter(e => e.type === 'circle');
+
+    expect((outline.data as { points: unknown[] }).points).toHaveLength(4);
+    expect(holes).toHaveLength(1);
+    expect(pattern.partName).toBe('Sheet Metal Part');
+    expect(pattern.area).toBe(Math.round(pattern.blankLength * 200 - Math.PI * 25));
+    expect(pattern.weight).toBeCloseTo(pattern.area * 1.5 / 1e9 * 7850, 3);
+  });
+
+  it('relieves flanged corners and notches hinge cutouts into the flange', () => {
+    const tray = developFlatPattern({
+      ...channel,
+      flanges: { left: 20, right: 20, bottom: 20, top: 20 },
+      reliefSize: 4,
+      hingeCutouts: [{ edge: 'left', position: 100, width: 30, depth: 10 }],
+    }, 'CRS');
+    const outline = tray.entities.find(e => e.layer === 'PROFILE' && e.type === 'polyline')!;
+
+    // Three points at each of four corners, four for the notch
+    expect((outline.data as { points: unknown[] }).points).toHaveLength(16);
+    expect(tray.bends).toHaveLength(4);
+    // Bend lines stop short of the developed bottom flange by the relief
+    const bottomFlange = bend.bendAllowance + 20 - bend.outsideSetback;
+    expect(tray.bends[0].line.y1).toBeCloseTo(bottomFlange + 4, 1);
+    expect(tray.bends[0].line.y2).toBeCloseTo(tray.blankWidth - bottomFlange - 4, 1);
+  });
+
+  it('maps structural material names onto sheet materials', () => {
+    expect(developFlatPattern(channel, 'Stainless Steel 316').material).toBe('stainless-316');
+    expect(developFlatPattern(channel, 'aluminum 5052-H32').material).toBe('aluminum-5052');
+    expect(developFlatPattern(channel, 'A36').material).toBe('CRS');
+  });
+});
+
+describe('SheetMetalPartBuilder.validate', () => {
+  const builder = new SheetMetalPartBuilder();
+
+  it('accepts a well-formed part', () => {
+    expect(builder.validate(context, channel).valid).toBe(true);
+  });
+
+  it('rejects flanges inside the bend setback, tight radii and orphan cutouts', () => {
+    const result = builder.validate(context, {
+      ...channel,
+      bendRadius: 0.5,
+      flanges: { left: 1 },
+      hingeCutouts: [{ edge: 'top', position: 100, width: 30, depth: 10 }],
+    });
+    const codes = result.errors.map(e => e.code);
+
+    expect(result.valid).toBe(false);
+    expect(codes).toContain('FLANGE_TOO_SHORT');
+    expect(codes).toContain('BEND_RADIUS_TOO_SMALL');
+    expect(codes).toContain('CUTOUT_WITHOUT_FLANGE');
+  });
+});
+
+describe('enclosure builder validation', () => {
+  it('needs room for guard infill between the rails', () => {
+    const result = new GuardBuilder().validate(context, {
+      width: 2000, height: 120, guardType: 'fixed', panelType: 'mesh',
+      hazardDistance: 200, openingSize: 12, hasDoor: false, frameSize: 40,
+    });
+    expect(result.errors.map(e => e.code)).toEqual(['GUARD_TOO_LOW']);
+  });
+
+  it('flags access panels too small for their return flanges', () => {
+    const result = new PanelBuilder().validate(context, {
+      panelType: 'hinged', width: 150, height: 400, thickness: 1.5, latchType: 'quarter-turn', latchCount: 2,
+      sealType: 'none', ipRating: 'IP54',
+    });
+    expect(result.errors.map(e => e.code)).toEqual(['PANEL_TOO_SMALL']);
+  });
+});
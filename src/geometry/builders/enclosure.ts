@@ -0,0 +1,1660 @@
+/**
+ * ENCLOSURE Domain Geometry Builders
+ *
+ * Builds 3D geometry for sheet metal parts, machine guards, perimeter
+ * fencing, access panels, and equipment covers. Sheet metal parts are
+ * modelled as bent solids (flanges with real bend radii) and carry their
+ * flat pattern as DXF entities so the same part can be cut.
+ */
+
+import * as kernel from '../../core/kernel';
+import { BaseGeometryBuilder, registerBuilder } from '../builder';
+import type {
+  GeometryResult,
+  BuilderContext,
+  ValidationResult,
+} from '../types';
+import type { DXFEntity, DXFLineData, DXFPolylineData } from '../../manufacturing/types';
+import {
+  createHole as createHoleEntity,
+  createRectangle,
+  createLabel,
+  generateBasePlateProfile,
+} from '../../manufacturing/dxf-export';
+import {
+  calculateBend,
+  calculateFlatPattern,
+  calculateGuard,
+  calculateMeshSpec,
+  calculateFenceLayout,
+  calculateAccessPanel,
+  calculateEnclosure,
+  getMaterial,
+  minFeatureRules,
+  validateMinFeatures,
+} from '../../knowledge/domains/enclosure';
+import type { BendCalculationResult } from '../../knowledge/domains/enclosure';
+
+type Issue = { code: string; severity: 'error' | 'warning'; message: string };
+
+// ============================================================================
+// SHEET METAL TYPES
+// ============================================================================
+
+export type PanelEdge = 'left' | 'right' | 'bottom' | 'top';
+
+const PANEL_EDGES: PanelEdge[] = ['left', 'right', 'bottom', 'top'];
+
+export interface PanelHole {
+  x: number; // From the outside left edge (mm)
+  y: number; // From the outside bottom edge (mm)
+  diameter: number; // mm
+}
+
+export interface FlangeHole {
+  edge: PanelEdge;
+  position: number; // Along the edge, in panel X or Y (mm)
+  height: number; // Up the flange from the outside of the base (mm)
+  diameter: number; // mm
+}
+
+export interface FlangeCutout {
+  edge: PanelEdge;
+  position: number; // Cutout center along the edge (mm)
+  width: number; // mm
+  depth: number; // Down from the flange's free edge (mm)
+}
+
+export interface PanelLouver {
+  x: number; // Louver center (mm)
+  y: number; // Louver center (mm)
+  length: number; // Along X (mm)
+  width: number; // Along Y (mm)
+  angle?: number; // Opening angle (degrees, default 30)
+}
+
+export interface PanelPerforation {
+  diameter: number; // Hole diameter (mm)
+  pitch: number; // Square pitch (mm)
+  margin: number; // Clear border inside the bend lines (mm)
+}
+
+export interface SheetMetalBend {
+  edge: PanelEdge;
+  angle: number; // degrees
+  insideRadius: number; // mm
+  kFactor: number;
+  bendAllowance: number; // mm
+  bendDeduction: number; // mm
+  line: DXFLineData; // Bend centerline on the flat pattern
+}
+
+export interface SheetMetalFlatPattern {
+  partName: string;
+  quantity: number;
+  material: string; // Sheet material ID used for the K-factor
+  thickness: number; // mm
+  blankLength: number; // Flat extent along X (mm)
+  blankWidth: number; // Flat extent along Y (mm)
+  area: number; // Net cut area (mm²)
+  weight: number; // kg per part
+  bends: SheetMetalBend[];
+  entities: DXFEntity[]; // Flat profile with its lower-left corner at the origin
+  errors: string[];
+  warnings: string[];
+}
+
+// ============================================================================
+// SHEET METAL LAYOUT
+// ============================================================================
+
+interface PanelLayout {
+  bend: BendCalculationResult;
+  setback: Record<PanelEdge, number>; // Outside setback at each flanged edge (mm)
+  leg: Record<PanelEdge, number>; // Straight flange length after the bend (mm)
+  develop: Record<PanelEdge, number>; // Bend allowance + straight length (mm)
+  span: Record<PanelEdge, [number, number]>; // Flange extent along its edge (mm)
+  relief: number; // Corner relief past the bend lines (mm)
+}
+
+/**
+ * Resolve a structural material ID to a sheet metal material for K-factors
+ */
+function sheetMaterialId(material: string): string {
+  if (getMaterial(material)) return material;
+  const id = material.toLowerCase();
+  if (id.includes('316')) return 'stainless-316';
+  if (id.includes('stainless')) return 'stainless-304';
+  if (id.includes('alum')) return 'aluminum-5052';
+  if (id.includes('galv')) return 'galvanized';
+  return 'CRS';
+}
+
+function isFlanged(input: SheetMetalPartInput, edge: PanelEdge): boolean {
+  return (input.flanges[edge] ?? 0) > 0;
+}
+
+function layoutPanel(input: SheetMetalPartInput, sheetMaterial: string): PanelLayout {
+  const angle = input.flangeAngle ?? 90;
+  const bend = calculateBend({
+    material: sheetMaterial,
+    thickness: input.thickness,
+    bendAngle: angle,
+    insideRadius: input.bendRadius,
+  });
+  const relief = input.reliefSize ?? Math.max(input.thickness, minFeatureRules.minNotchWidth);
+
+  const setback = {} as Record<PanelEdge, number>;
+  const leg = {} as Record<PanelEdge, number>;
+  const develop = {} as Record<PanelEdge, number>;
+  for (const edge of PANEL_EDGES) {
+    const flanged = isFlanged(input, edge);
+    setback[edge] = flanged ? bend.outsideSetback : 0;
+    leg[edge] = flanged ? (input.flanges[edge] ?? 0) - bend.outsideSetback : 0;
+    develop[edge] = flanged ? bend.bendAllowance + leg[edge] : 0;
+  }
+
+  // Flanges stop short of a flanged neighbour by the corner relief
+  const along = (start: PanelEdge, end: PanelEdge, length: number): [number, number] => [
+    isFlanged(input, start) ? setback[start] + relief : 0,
+    isFlanged(input, end) ? length - setback[end] - relief : length,
+  ];
+  const span: Record<PanelEdge, [number, number]> = {
+    left: along('bottom', 'top', input.height),
+    right: along('bottom', 'top', input.height),
+    bottom: along('left', 'right', input.width),
+    top: along('left', 'right', input.width),
+  };
+
+  return { bend, setback, leg, develop, span, relief };
+}
+
+/**
+ * Perforation grid centered on the base, clear of the bend lines
+ */
+function perforationGrid(input: SheetMetalPartInput, layout: PanelLayout) {
+  const perforation = input.perforation;
+  if (!perforation) return undefined;
+  const { diameter, pitch, margin } = perforation;
+  const left = layout.setback.left + margin;
+  const bottom = layout.setback.bottom + margin;
+  const width = input.width - layout.setback.right - margin - left;
+  const height = input.height - layout.setback.top - margin - bottom;
+  const columns = Math.floor((width - diameter) / pitch) + 1;
+  const rows = Math.floor((height - diameter) / pitch) + 1;
+  if (columns < 1 || rows < 1) return undefined;
+  return {
+    diameter,
+    pitch,
+    columns,
+    rows,
+    x0: left + (width - (columns - 1) * pitch) / 2,
+    y0: bottom + (height - (rows - 1) * pitch) / 2,
+  };
+}
+
+// ============================================================================
+// SHEET METAL SOLID
+// ============================================================================
+
+async function translated(shapeId: string, dx: number, dy: number, dz: number): Promise<string> {
+  if (dx === 0 && dy === 0 && dz === 0) return shapeId;
+  return (await kernel.translateShape(shapeId, dx, dy, dz)).shapeId;
+}
+
+async function rotated(
+  shapeId: string,
+  axis: 'X' | 'Y' | 'Z',
+  angle: number,
+  center?: { x: number; y: number; z: number }
+): Promise<string> {
+  if (angle === 0) return shapeId;
+  return (await kernel.rotateShape(shapeId, axis, angle, center)).shapeId;
+}
+
+async function boxAt(
+  x: number, y: number, z: number,
+  width: number, depth: number, height: number
+): Promise<string> {
+  const box = await kernel.createBox(width, depth, height);
+  return translated(box.shapeId, x, y, z);
+}
+
+async function unionAll(shapeIds: string[]): Promise<string> {
+  let combined = shapeIds[0];
+  for (let i = 1; i < shapeIds.length; i++) {
+    combined = (await kernel.booleanUnion(combined, shapeIds[i])).shapeId;
+  }
+  return combined;
+}
+
+/**
+ * Build one flange (bend + straight leg) along the canonical left edge.
+ *
+ * The canonical edge runs along +Y from 0 to the span length with the base
+ * toward +X and the outside mold line at X = 0. Bend and leg are swept in
+ * the XZ plane, the leg rising from the base's top surface side.
+ */
+async function buildFlange(
+  input: SheetMetalPartInput,
+  layout: PanelLayout,
+  edge: PanelEdge,
+  toLocal: (position: number) => number
+): Promise<string> {
+  const t = input.thickness;
+  const r = input.bendRadius;
+  const angle = input.flangeAngle ?? 90;
+  const s = layout.setback[edge];
+  const spanLength = layout.span[edge][1] - layout.span[edge][0];
+  const legLength = layout.leg[edge];
+
+  // Bend: annular sector about Y, turned so it starts pointing down (-Z)
+  const arc = await kernel.revolveRectangle({ x: r, y: 0 }, { x: r + t, y: spanLength }, angle, 'XY', 0, 'Y');
+  let bend = await rotated(arc.shapeId, 'Y', 90);
+  bend = await translated(bend, s, 0, r + t);
+
+  // Leg: thickness along X (outside face at X = 0), length along Z
+  let leg = (await kernel.createBox(t, spanLength, legLength)).shapeId;
+
+  for (const cutout of (input.hingeCutouts ?? []).filter(c => c.edge === edge)) {
+    const center = toLocal(cutout.position);
+    const notch = await boxAt(-1, center - cutout.width / 2, legLength - cutout.depth, t + 2, cutout.width, cutout.depth + 1);
+    leg = (await kernel.booleanSubtract(leg, notch)).shapeId;
+  }
+
+  for (const hole of (input.flangeHoles ?? []).filter(h => h.edge === edge)) {
+    leg = (await kernel.createHole(leg, hole.diameter, 0, {
+      x: t / 2,
+      y: toLocal(hole.position),
+      z: hole.height - s,
+    }, 'X')).shapeId;
+  }
+
+  const radians = angle * Math.PI / 180;
+  leg = await rotated(leg, 'Y', angle - 90);
+  leg = await translated(leg, s - (r + t) * Math.sin(radians), 0, (r + t) * (1 - Math.cos(radians)));
+
+  return (await kernel.booleanUnion(bend, leg)).shapeId;
+}
+
+/**
+ * Build a flanged sheet metal panel: base in the XY plane (outside face at
+ * Z = 0) with flanges bent up toward +Z
+ */
+async function buildPanelSolid(input: SheetMetalPartInput, layout: PanelLayout): Promise<string> {
+  const t = input.thickness;
+  const { setback, span, relief } = layout;
+
+  // Base flat between the bend lines
+  let base = await boxAt(
+    setback.left, setback.bottom, 0,
+    input.width - setback.left - setback.right,
+    input.height - setback.bottom - setback.top,
+    t
+  );
+
+  // Corner reliefs where two flanges meet
+  const corners: Array<[PanelEdge, PanelEdge, number, number]> = [
+    ['left', 'bottom', setback.left - 1, setback.bottom - 1],
+    ['right', 'bottom', input.width - setback.right - relief, setback.bottom - 1],
+    ['left', 'top', setback.left - 1, input.height - setback.top - relief],
+    ['right', 'top', input.width - setback.right - relief, input.height - setback.top - relief],
+  ];
+  for (const [a, b, x, y] of corners) {
+    if (!isFlanged(input, a) || !isFlanged(input, b)) continue;
+    const notch = await boxAt(x, y, -1, relief + 1, relief + 1, t + 2);
+    base = (await kernel.booleanSubtract(base, notch)).shapeId;
+  }
+
+  for (const hole of input.holes ?? []) {
+    base = (await kernel.createHole(base, hole.diameter, 0, { x: hole.x, y: hole.y, z: t / 2 }, 'Z')).shapeId;
+  }
+
+  // Perforation: one patterned tool body, subtracted once
+  const grid = perforationGrid(input, layout);
+  if (grid) {
+    const punch = await kernel.createCylinder(grid.diameter / 2, t + 2);
+    const punchAt = await translated(punch.shapeId, grid.x0, grid.y0, -1);
+    const row = await kernel.linearPattern(punchAt, { x: 1, y: 0, z: 0 }, grid.columns, grid.pitch);
+    const field = await kernel.linearPattern(row.shapeId, { x: 0, y: 1, z: 0 }, grid.rows, grid.pitch);
+    base = (await kernel.booleanSubtract(base, field.shapeId)).shapeId;
+  }
+
+  // Louvers: lanced slot with the tongue formed up about its lower edge
+  for (const louver of input.louvers ?? []) {
+    const x0 = louver.x - louver.length / 2;
+    const y0 = louver.y - louver.width / 2;
+    const slot = await boxAt(x0, y0, -1, louver.length, louver.width, t + 2);
+    base = (await kernel.booleanSubtract(base, slot)).shapeId;
+    const tongue = await boxAt(x0, y0, 0, louver.length, louver.width, t);
+    const formed = await rotated(tongue, 'X', louver.angle ?? 30, { x: 0, y: y0, z: 0 });
+    base = (await kernel.booleanUnion(base, formed)).shapeId;
+  }
+
+  // Flanges, built on the canonical edge and turned into place
+  const parts = [base];
+  for (const edge of PANEL_EDGES) {
+    if (!isFlanged(input, edge)) continue;
+    const [from, to] = span[edge];
+    const reversed = edge === 'right' || edge === 'bottom';
+    let flange = await buildFlange(input, layout, edge, p => (reversed ? to - p : p - from));
+
+    switch (edge) {
+      case 'left':
+        flange = await translated(flange, 0, from, 0);
+        break;
+      case 'right':
+        flange = await rotated(flange, 'Z', 180);
+        flange = await translated(flange, input.width, to, 0);
+        break;
+      case 'bottom':
+        flange = await rotated(flange, 'Z', 90);
+        flange = await translated(flange, to, 0, 0);
+        break;
+      case 'top':
+        flange = await rotated(flange, 'Z', -90);
+        flange = await translated(flange, from, input.height, 0);
+        break;
+    }
+    parts.push(flange);
+  }
+
+  return unionAll(parts);
+}
+
+// ============================================================================
+// FLAT PATTERN
+// ============================================================================
+
+type FlatPoint = { x: number; y: number };
+
+function polygonArea(points: FlatPoint[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Develop a flanged panel into its flat blank: outline with corner reliefs
+ * and hinge notches, holes, louver form outlines and bend centerlines
+ */
+function flattenPanel(
+  input: SheetMetalPartInput,
+  layout: PanelLayout,
+  sheetMaterial: string,
+  partName: string,
+  quantity = 1
+): SheetMetalFlatPattern {
+  const { bend, setback, develop, span, relief } = layout;
+  const angle = input.flangeAngle ?? 90;
+  const k = relief;
+  const flanged = (edge: PanelEdge) => isFlanged(input, edge);
+
+  const baseWidth = input.width - setback.left - setback.right;
+  const baseHeight = input.height - setback.bottom - setback.top;
+  const X = develop.left + baseWidth + develop.right;
+  const Y = develop.bottom + baseHeight + develop.top;
+
+  const flatX = (x: number) => x - setback.left + develop.left;
+  const flatY = (y: number) => y - setback.bottom + develop.bottom;
+
+  /** Point on a flange, `distance` outward from its bend start line */
+  const onFlange = (edge: PanelEdge, position: number, distance: number): FlatPoint => {
+    switch (edge) {
+      case 'left': return { x: develop.left - distance, y: flatY(position) };
+      case 'right': return { x: develop.left + baseWidth + distance, y: flatY(position) };
+      case 'bottom': return { x: flatX(position), y: develop.bottom - distance };
+      case 'top': return { x: flatX(position), y: develop.bottom + baseHeight + distance };
+    }
+  };
+
+  // Free edges walked counter-clockwise: along-edge coordinate → point
+  const freeEdges: Record<PanelEdge, { at: (a: number) => FlatPoint; inward: FlatPoint; ascending: boolean }> = {
+    bottom: { at: a => ({ x: a, y: 0 }), inward: { x: 0, y: 1 }, ascending: true },
+    right: { at: a => ({ x: X, y: a }), inward: { x: -1, y: 0 }, ascending: true },
+    top: { at: a => ({ x: a, y: Y }), inward: { x: 0, y: -1 }, ascending: false },
+    left: { at: a => ({ x: 0, y: a }), inward: { x: 1, y: 0 }, ascending: false },
+  };
+
+  const notches = (edge: PanelEdge): FlatPoint[] => {
+    if (!flanged(edge)) return [];
+    const { at, inward, ascending } = freeEdges[edge];
+    const horizontal = edge === 'bottom' || edge === 'top';
+    const cutouts = (input.hingeCutouts ?? [])
+      .filter(c => c.edge === edge)
+      .map(c => ({ ...c, center: horizontal ? flatX(c.position) : flatY(c.position) }))
+      .sort((a, b) => (ascending ? a.center - b.center : b.center - a.center));
+
+    return cutouts.flatMap(c => {
+      const [a0, a1] = ascending
+        ? [c.center - c.width / 2, c.center + c.width / 2]
+        : [c.center + c.width / 2, c.center - c.width / 2];
+      const p0 = at(a0);
+      const p1 = at(a1);
+      return [
+        p0,
+        { x: p0.x + inward.x * c.depth, y: p0.y + inward.y * c.depth },
+        { x: p1.x + inward.x * c.depth, y: p1.y + inward.y * c.depth },
+        p1,
+      ];
+    });
+  };
+
+  const right = develop.left + baseWidth;
+  const upper = develop.bottom + baseHeight;
+  const outline: FlatPoint[] = [
+    ...(flanged('left') && flanged('bottom')
+      ? [{ x: 0, y: develop.bottom + k }, { x: develop.left + k, y: develop.bottom + k }, { x: develop.left + k, y: 0 }]
+      : [{ x: 0, y: 0 }]),
+    ...notches('bottom'),
+    ...(flanged('bottom') && flanged('right')
+      ? [{ x: right - k, y: 0 }, { x: right - k, y: develop.bottom + k }, { x: X, y: develop.bottom + k }]
+      : [{ x: X, y: 0 }]),
+    ...notches('right'),
+    ...(flanged('right') && flanged('top')
+      ? [{ x: X, y: upper - k }, { x: right - k, y: upper - k }, { x: right - k, y: Y }]
+      : [{ x: X, y: Y }]),
+    ...notches('top'),
+    ...(flanged('top') && flanged('left')
+      ? [{ x: develop.left + k, y: Y }, { x: develop.left + k, y: upper - k }, { x: 0, y: upper - k }]
+      : [{ x: 0, y: Y }]),
+    ...notches('left'),
+  ].map(p => ({ x: round2(p.x), y: round2(p.y) }));
+
+  const entities: DXFEntity[] = [{
+    type: 'polyline',
+    layer: 'PROFILE',
+    data: { points: outline, closed: true } as DXFPolylineData,
+  }];
+
+  let holeArea = 0;
+  for (const hole of input.holes ?? []) {
+    entities.push(createHoleEntity(round2(flatX(hole.x)), round2(flatY(hole.y)), hole.diameter));
+    holeArea += Math.PI * hole.diameter * hole.diameter / 4;
+  }
+  for (const hole of input.flangeHoles ?? []) {
+    if (!flanged(hole.edge)) continue;
+    const p = onFlange(hole.edge, hole.position, bend.bendAllowance + hole.height - setback[hole.edge]);
+    entities.push(createHoleEntity(round2(p.x), round2(p.y), hole.diameter));
+    holeArea += Math.PI * hole.diameter * hole.diameter / 4;
+  }
+  const grid = perforationGrid(input, layout);
+  if (grid) {
+    for (let row = 0; row < grid.rows; row++) {
+      for (let column = 0; column < grid.columns; column++) {
+        const x = flatX(grid.x0 + column * grid.pitch);
+        const y = flatY(grid.y0 + row * grid.pitch);
+        entities.push(createHoleEntity(round2(x), round2(y), grid.diameter));
+      }
+    }
+    holeArea += grid.rows * grid.columns * Math.PI * grid.diameter * grid.diameter / 4;
+  }
+  for (const louver of input.louvers ?? []) {
+    entities.push(createRectangle(
+      round2(flatX(louver.x - louver.length / 2)),
+      round2(flatY(louver.y - louver.width / 2)),
+      louver.length, louver.width, 'FORM'
+    ));
+  }
+
+  const bends: SheetMetalBend[] = [];
+  for (const edge of PANEL_EDGES) {
+    if (!flanged(edge)) continue;
+    const start = onFlange(edge, span[edge][0], bend.bendAllowance / 2);
+    const end = onFlange(edge, span[edge][1], bend.bendAllowance / 2);
+    const line: DXFLineData = { x1: round2(start.x), y1: round2(start.y), x2: round2(end.x), y2: round2(end.y) };
+    entities.push({ type: 'line', layer: 'BEND', data: line });
+    bends.push({
+      edge,
+      angle,
+      insideRadius: input.bendRadius,
+      kFactor: bend.kFactor,
+      bendAllowance: bend.bendAllowance,
+      bendDeduction: bend.bendDeduction,
+      line,
+    });
+  }
+
+  entities.push(createLabel(round2(develop.left + 5), round2(develop.bottom + 5), partName, 5));
+
+  // Cross-check both directions with the domain flat pattern calculation
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const directions: Array<[PanelEdge, number, PanelEdge]> = [
+    ['left', input.width, 'right'],
+    ['bottom', input.height, 'top'],
+  ];
+  for (const [first, length, last] of directions) {
+    const legs: Array<{ length: number; angle: number; radius: number }> = [];
+    if (flanged(first)) legs.push({ length: input.flanges[first] ?? 0, angle, radius: input.bendRadius });
+    legs.push({ length, angle: flanged(last) ? angle : 0, radius: input.bendRadius });
+    if (flanged(last)) legs.push({ length: input.flanges[last] ?? 0, angle: 0, radius: input.bendRadius });
+
+    const check = calculateFlatPattern({ finishedDimensions: legs, material: sheetMaterial, thickness: input.thickness });
+    errors.push(...check.errors.filter(e => !errors.includes(e)));
+    warnings.push(...check.warnings.map(w => `${first}-${last}: ${w}`));
+  }
+
+  const area = polygonArea(outline) - holeArea;
+  const density = getMaterial(sheetMaterial)?.density ?? 7850;
+
+  return {
+    partName,
+    quantity,
+    material: sheetMaterial,
+    thickness: input.thickness,
+    blankLength: round2(X),
+    blankWidth: round2(Y),
+    area: Math.round(area),
+    weight: Math.round(area * input.thickness / 1e9 * density * 1000) / 1000,
+    bends,
+    entities,
+    errors,
+    warnings,
+  };
+}
+
+/**
+ * Flat pattern of a sheet metal part without building its solid
+ */
+export function developFlatPattern(
+  input: SheetMetalPartInput,
+  material: string,
+  partName = input.partName ?? 'Sheet Metal Part'
+): SheetMetalFlatPattern {
+  const sheetMaterial = sheetMaterialId(material);
+  return flattenPanel(input, layoutPanel(input, sheetMaterial), sheetMaterial, partName);
+}
+
+/**
+ * Flat pattern of an unbent plate (base plates, mounting plates, frames)
+ */
+function flatPlatePattern(
+  partName: string,
+  sheetMaterial: string,
+  thickness: number,
+  length: number,
+  width: number,
+  entities: DXFEntity[],
+  cutArea: number,
+  quantity = 1
+): SheetMetalFlatPattern {
+  const area = length * width - cutArea;
+  const density = getMaterial(sheetMaterial)?.density ?? 7850;
+  return {
+    partName,
+    quantity,
+    material: sheetMaterial,
+    thickness,
+    blankLength: length,
+    blankWidth: width,
+    area: Math.round(area),
+    weight: Math.round(area * thickness / 1e9 * density * 1000) / 1000,
+    bends: [],
+    entities,
+    errors: [],
+    warnings: [],
+  };
+}
+
+/**
+ * Check a panel's holes and flanges against the minimum feature rules
+ */
+function checkPanelFeatures(input: SheetMetalPartInput, sheetMaterial: string): { errors: Issue[]; warnings: Issue[] } {
+  const errors: Issue[] = [];
+  const warnings: Issue[] = [];
+  const layout = layoutPanel(input, sheetMaterial);
+  const holes = input.holes ?? [];
+
+  // Distance from each base hole to the nearest bend line or free edge
+  const holeToBend: number[] = [];
+  const holeToEdge: number[] = [];
+  for (const hole of holes) {
+    const distances: Array<[PanelEdge, number]> = [
+      ['left', hole.x - layout.setback.left],
+      ['right', input.width - layout.setback.right - hole.x],
+      ['bottom', hole.y - layout.setback.bottom],
+      ['top', input.height - layout.setback.top - hole.y],
+    ];
+    for (const [edge, center] of distances) {
+      (isFlanged(input, edge) ? holeToBend : holeToEdge).push(center - hole.diameter / 2);
+    }
+  }
+
+  const holeToHole: number[] = [];
+  for (let i = 0; i < holes.length; i++) {
+    for (let j = i + 1; j < holes.length; j++) {
+      const d = Math.hypot(holes[i].x - holes[j].x, holes[i].y - holes[j].y);
+      holeToHole.push(d - (holes[i].diameter + holes[j].diameter) / 2);
+    }
+  }
+
+  const features = validateMinFeatures({
+    thickness: input.thickness,
+    insideRadius: input.bendRadius,
+    holeDiameters: [...holes, ...(input.flangeHoles ?? [])].map(h => h.diameter),
+    holeEdgeDistances: holeToEdge,
+    holeToHoleDistances: holeToHole,
+    holeToBendDistances: holeToBend,
+    flangeLengths: PANEL_EDGES.filter(e => isFlanged(input, e)).map(e => input.flanges[e] ?? 0),
+    bendSpacings: [],
+  });
+  for (const message of features.violations) {
+    errors.push({ code: 'SHEET_METAL_FEATURE', severity: 'error', message });
+  }
+  for (const message of features.warnings) {
+    warnings.push({ code: 'SHEET_METAL_FEATURE', severity: 'warning', message });
+  }
+
+  for (const edge of PANEL_EDGES) {
+    if (isFlanged(input, edge) && layout.leg[edge] <= 0) {
+      errors.push({
+        code: 'FLANGE_TOO_SHORT',
+        severity: 'error',
+        message: `${edge} flange ${input.flanges[edge]}mm does not clear the ${layout.bend.outsideSetback}mm bend setback`,
+      });
+    }
+  }
+
+  for (const cutout of input.hingeCutouts ?? []) {
+    if (!isFlanged(input, cutout.edge)) {
+      errors.push({
+        code: 'CUTOUT_WITHOUT_FLANGE',
+        severity: 'error',
+        message: `Hinge cutout on the ${cutout.edge} edge, which has no flange`,
+      });
+    } else if (cutout.depth >= layout.leg[cutout.edge]) {
+      errors.push({
+        code: 'CUTOUT_TOO_DEEP',
+        severity: 'error',
+        message: `Hinge cutout depth ${cutout.depth}mm reaches into the ${cutout.edge} bend`,
+      });
+    }
+  }
+
+  for (const hole of input.flangeHoles ?? []) {
+    const along = hole.height - layout.setback[hole.edge];
+    if (!isFlanged(input, hole.edge) || along < hole.diameter / 2 || along > layout.leg[hole.edge] - hole.diameter / 2) {
+      errors.push({
+        code: 'FLANGE_HOLE_OUTSIDE',
+        severity: 'error',
+        message: `${hole.diameter}mm hole at ${hole.height}mm does not fit on the straight part of the ${hole.edge} flange`,
+      });
+    }
+  }
+
+  return { errors, warnings };
+}
+
+// ============================================================================
+// FRAME AND INFILL HELPERS
+// ============================================================================
+
+/**
+ * Square hollow section along +Z, centered on the Z axis
+ */
+async function buildSquareTube(size: number, wall: number, length: number): Promise<string> {
+  const outer = await boxAt(-size / 2, -size / 2, 0, size, size, length);
+  const inner = await boxAt(-size / 2 + wall, -size / 2 + wall, -1, size - 2 * wall, size - 2 * wall, length + 2);
+  return (await kernel.booleanSubtract(outer, inner)).shapeId;
+}
+
+/**
+ * Post on a square base plate with four anchor holes, standing at the origin
+ */
+async function buildPost(
+  size: number,
+  wall: number,
+  height: number,
+  plate: { size: number; thickness: number; holeDiameter: number; holeOffset: number }
+): Promise<string> {
+  let base = await boxAt(-plate.size / 2, -plate.size / 2, 0, plate.size, plate.size, plate.thickness);
+  const offset = plate.size / 2 - plate.holeOffset;
+  for (const [sx, sy] of [[-1, -1], [1, -1], [1, 1], [-1, 1]]) {
+    base = (await kernel.createHole(base, plate.holeDiameter, 0, {
+      x: sx * offset,
+      y: sy * offset,
+      z: plate.thickness / 2,
+    }, 'Z')).shapeId;
+  }
+
+  const tubeLength = height - plate.thickness - wall;
+  const tube = await translated(await buildSquareTube(size, wall, tubeLength), 0, 0, plate.thickness);
+  const cap = await boxAt(-size / 2, -size / 2, height - wall, size, size, wall);
+
+  return unionAll([base, tube, cap]);
+}
+
+/**
+ * Welded wire mesh in the XZ plane: vertical wires at Y = 0 with horizontal
+ * wires welded on the +Y face. Covers [0, width] x [0, height].
+ */
+async function buildWireMesh(width: number, height: number, pitch: number, wireDiameter: number): Promise<string> {
+  const r = wireDiameter / 2;
+  const columns = Math.max(2, Math.floor(width / pitch) + 1);
+  const rows = Math.max(2, Math.floor(height / pitch) + 1);
+  const xStep = width / (columns - 1);
+  const zStep = height / (rows - 1);
+
+  const vertical = await kernel.createCylinder(r, height);
+  const verticals = await kernel.linearPattern(vertical.shapeId, { x: 1, y: 0, z: 0 }, columns, xStep);
+
+  let horizontal = (await kernel.createCylinder(r, width)).shapeId;
+  horizontal = await rotated(horizontal, 'Y', 90);
+  horizontal = await translated(horizontal, 0, wireDiameter * 0.8, 0);
+  const horizontals = await kernel.linearPattern(horizontal, { x: 0, y: 0, z: 1 }, rows, zStep);
+
+  return (await kernel.booleanUnion(verticals.shapeId, horizontals.shapeId)).shapeId;
+}
+
+/**
+ * Rectangular tube frame in the XZ plane with its outside at [0, width] x [0, height]
+ */
+async function buildPanelFrame(width: number, height: number, size: number, wall: number): Promise<string> {
+  const members: string[] = [];
+  for (const z of [size / 2, height - size / 2]) {
+    let rail = await buildSquareTube(size, wall, width);
+    rail = await rotated(rail, 'Y', 90);
+    members.push(await translated(rail, 0, 0, z));
+  }
+  for (const x of [size / 2, width - size / 2]) {
+    members.push(await translated(await buildSquareTube(size, wall, height - 2 * size + 2 * wall), x, 0, size - wall));
+  }
+  return unionAll(members);
+}
+
+/**
+ * Framed mesh panel in the XZ plane, wires running into the frame tubes
+ */
+async function buildMeshPanel(
+  width: number,
+  height: number,
+  frameSize: number,
+  mesh: { pitch: number; wireDiameter: number }
+): Promise<string> {
+  const frame = await buildPanelFrame(width, height, frameSize, 2);
+  const infill = await buildWireMesh(width - frameSize, height - frameSize, mesh.pitch, mesh.wireDiameter);
+  return unionAll([frame, await translated(infill, frameSize / 2, 0, frameSize / 2)]);
+}
+
+/**
+ * Hinge knuckles on the left edge of a panel in the XZ plane
+ */
+async function buildHingeKnuckles(height: number, count: number, x: number): Promise<string[]> {
+  const knuckleLength = 80;
+  const knuckles: string[] = [];
+  const step = count > 1 ? (height - 2 * knuckleLength) / (count - 1) : 0;
+  for (let i = 0; i < count; i++) {
+    const z = count > 1 ? knuckleLength / 2 + i * step : height / 2 - knuckleLength / 2;
+    const knuckle = await kernel.createCylinder(10, knuckleLength);
+    knuckles.push(await translated(knuckle.shapeId, x, 0, z));
+  }
+  return knuckles;
+}
+
+/**
+ * Stand a part built in the XY plane up into the XZ plane (Y becomes Z)
+ */
+async function standUp(shapeId: string): Promise<string> {
+  return rotated(shapeId, 'X', 90);
+}
+
+/**
+ * Turn a part laid out along +X toward point B and move it to point A
+ */
+async function placeAlongRun(shapeId: string, context: BuilderContext): Promise<string> {
+  const yaw = Math.atan2(context.pointB.y - context.pointA.y, context.pointB.x - context.pointA.x) * (180 / Math.PI);
+  const turned = Math.abs(yaw) > 1e-6 ? await rotated(shapeId, 'Z', yaw) : shapeId;
+  return translated(turned, context.pointA.x, context.pointA.y, context.pointA.z);
+}
+
+function runLength(context: BuilderContext): number {
+  return Math.hypot(context.pointB.x - context.pointA.x, context.pointB.y - context.pointA.y);
+}
+
+function anchorHoleDiameter(plateSize: number): number {
+  return plateSize >= 180 ? 18 : 14; // M16 / M12 anchors
+}
+
+// ============================================================================
+// SHEET METAL PART BUILDER
+// ============================================================================
+
+export interface SheetMetalPartInput {
+  width: number; // Outside width along X (mm)
+  height: number; // Outside height along Y (mm)
+  thickness: number; // Sheet thickness (mm)
+  bendRadius: number; // Inside bend radius (mm)
+  flanges: Partial<Record<PanelEdge, number>>; // Outside flange height per edge (mm)
+  flangeAngle?: number; // Bend angle (degrees, default 90)
+  reliefSize?: number; // Corner relief past the bend lines (mm)
+  holes?: PanelHole[];
+  flangeHoles?: FlangeHole[];
+  louvers?: PanelLouver[];
+  hingeCutouts?: FlangeCutout[];
+  perforation?: PanelPerforation;
+  partName?: string;
+}
+
+export class SheetMetalPartBuilder extends BaseGeometryBuilder<SheetMetalPartInput> {
+  elementType = 'sheet-metal-part';
+
+  async build(context: BuilderContext, input: SheetMetalPartInput): Promise<GeometryResult> {
+    await kernel.initKernel();
+
+    this.reportProgress(context, 0, 'Starting sheet metal part generation');
+
+    const sheetMaterial = sheetMaterialId(context.material);
+    const layout = layoutPanel(input, sheetMaterial);
+    const name = input.partName ?? 'Sheet Metal Part';
+
+    this.reportProgress(context, 10, 'Forming base and flanges');
+
+    let shapeId = await buildPanelSolid(input, layout);
+
+    this.reportProgress(context, 80, 'Developing flat pattern');
+
+    const flatPattern = flattenPanel(input, layout, sheetMaterial, name);
+    shapeId = await translated(shapeId, context.pointA.x, context.pointA.y, context.pointA.z);
+
+    this.reportProgress(context, 95, 'Finalizing geometry');
+
+    const result = await this.createGeometryResult(shapeId, name, context.material, {
+      width: input.width,
+      height: input.height,
+      thickness: input.thickness,
+      bendRadius: input.bendRadius,
+      flanges: input.flanges,
+      flatPattern,
+    });
+
+    this.reportProgress(context, 100, 'Sheet metal part complete');
+
+    return result;
+  }
+
+  validate(context: BuilderContext, input: SheetMetalPartInput): ValidationResult {
+    const sheetMaterial = sheetMaterialId(context.material);
+    const { errors, warnings } = checkPanelFeatures(input, sheetMaterial);
+
+    const minRadius = input.thickness * (getMaterial(sheetMaterial)?.minBendRadiusRatio ?? 1);
+    if (Object.values(input.flanges).some(h => (h ?? 0) > 0) && input.bendRadius < minRadius) {
+      errors.push({
+        code: 'BEND_RADIUS_TOO_SMALL',
+        severity: 'error',
+        message: `Bend radius ${input.bendRadius}mm is below the ${minRadius.toFixed(1)}mm minimum for ${sheetMaterial}`,
+      });
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings,
+      clearanceChecks: [],
+    };
+  }
+}
+
+// ============================================================================
+// GUARD BUILDER
+// ============================================================================
+
+export interface GuardInput {
+  width: number; // Guard run length (mm)
+  height: number; // Guard height (mm)
+  guardType: 'fixed' | 'interlocked' | 'adjustable' | 'perimeter';
+  panelType: 'mesh' | 'perforated' | 'solid' | 'polycarbonate';
+  hazardDistance: number; // Distance from guard to hazard (mm)
+  openingSize: number; // Mesh / perforation opening (mm)
+  hasDoor: boolean;
+  doorWidth?: number; // mm
+  frameSize: number; // Square post and rail size (mm)
+  sheetThickness?: number; // Infill sheet thickness (mm, default 1.5)
+}
+
+export class GuardBuilder extends BaseGeometryBuilder<GuardInput> {
+  elementType = 'guard';
+
+  async build(context: BuilderContext, input: GuardInput): Promise<GeometryResult> {
+    await kernel.initKernel();
+
+    this.reportProgress(context, 0, 'Starting guard geometry generation');
+
+    const calc = calculateGuard({
+      width: input.width,
+      height: input.height,
+      guardType: input.guardType,
+      panelType: input.panelType,
+      hazardDistance: input.hazardDistance,
+      openingSize: input.openingSize,
+      hasDoor: input.hasDoor,
+      doorWidth: input.doorWidth,
+      frameProfile: 'steel-tube',
+      frameSize: input.frameSize,
+    });
+
+    const size = input.frameSize;
+    const wall = size >= 50 ? 3 : 2;
+    const plate = { size: size * 3, thickness: 8, holeDiameter: 14, holeOffset: size * 3 * 0.3 };
+    const sheetMaterial = sheetMaterialId(context.material);
+    const parts: string[] = [];
+    const flatPatterns: SheetMetalFlatPattern[] = [];
+
+    // Posts with floor mounts at the panel joints
+    const positions = Array.from({ length: calc.numPosts }, (_, i) =>
+      calc.numPosts > 1 ? (input.width * i) / (calc.numPosts - 1) : input.width / 2
+    );
+    for (const [i, x] of positions.entries()) {
+      const post = await buildPost(size, wall, calc.postLength, plate);
+      parts.push(await translated(post, Math.min(Math.max(x, size / 2), input.width - size / 2), 0, 0));
+      this.reportProgress(context, 5 + (i / positions.length) * 25, `Created post ${i + 1} of ${positions.length}`);
+    }
+    flatPatterns.push(flatPlatePattern(
+      'Guard Floor Mount', sheetMaterial, plate.thickness, plate.size, plate.size,
+      generateBasePlateProfile({
+        width: plate.size, height: plate.size, thickness: plate.thickness,
+        centerHoles: { diameter: plate.holeDiameter, pattern: '4-corner' },
+      }),
+      4 * Math.PI * plate.holeDiameter ** 2 / 4,
+      calc.numPosts
+    ));
+
+    // Top and bottom rails
+    for (const z of [size / 2, calc.height - size / 2]) {
+      let rail = await buildSquareTube(size, wall, calc.railLength);
+      rail = await rotated(rail, 'Y', 90);
+      parts.push(await translated(rail, 0, 0, z));
+    }
+
+    this.reportProgress(context, 40, 'Creating infill panels');
+
+    // Infill between posts and rails
+    const mesh = calculateMeshSpec(input.openingSize, input.height);
+    const bayHeight = calc.height - 2 * size;
+    const thickness = input.sheetThickness ?? 1.5;
+    let sheetPattern: SheetMetalFlatPattern | undefined;
+
+    for (let i = 0; i < positions.length - 1; i++) {
+      const x0 = positions[i] + size / 2;
+      const bayWidth = positions[i + 1] - positions[i] - size;
+      const isDoor = i < calc.components.doors;
+      let panel: string;
+
+      if (isDoor || input.panelType === 'mesh') {
+        // Framed mesh; door leaves hang on knuckles with a running gap
+        const gap = isDoor ? 10 : 0;
+        panel = await buildMeshPanel(bayWidth - 2 * gap, bayHeight - 2 * gap, 25, {
+          pitch: input.openingSize + mesh.wireDiameter,
+          wireDiameter: mesh.wireDiameter,
+        });
+        if (isDoor) {
+          const knuckles = await buildHingeKnuckles(bayHeight - 2 * gap, calc.components.hinges, -gap / 2);
+          panel = await translated(await unionAll([panel, ...knuckles]), gap, 0, gap);
+        }
+      } else if (input.panelType === 'polycarbonate') {
+        const frame = await buildPanelFrame(bayWidth, bayHeight, 25, 2);
+        const sheet = await boxAt(12.5, -3, 12.5, bayWidth - 25, 6, bayHeight - 25);
+        panel = await unionAll([frame, sheet]);
+      } else {
+        // Flanged sheet infill, perforated on demand
+        const spec: SheetMetalPartInput = {
+          width: bayWidth,
+          height: bayHeight,
+          thickness,
+          bendRadius: thickness,
+          flanges: { left: 20, right: 20, bottom: 20, top: 20 },
+          perforation: input.panelType === 'perforated'
+            ? { diameter: input.openingSize, pitch: input.openingSize * 1.5, margin: 20 }
+            : undefined,
+        };
+        const layout = layoutPanel(spec, sheetMaterial);
+        panel = await standUp(await buildPanelSolid(spec, layout));
+        sheetPattern ??= flattenPanel(spec, layout, sheetMaterial, 'Guard Infill Panel');
+      }
+
+      parts.push(await translated(panel, x0, 0, size));
+      this.reportProgress(context, 40 + ((i + 1) / (positions.length - 1)) * 45, `Created bay ${i + 1}`);
+    }
+    if (sheetPattern) {
+      flatPatterns.push({ ...sheetPattern, quantity: calc.numPanels - calc.components.doors });
+    }
+
+    this.reportProgress(context, 90, 'Combining guard');
+
+    const shapeId = await placeAlongRun(await unionAll(parts), context);
+
+    const result = await this.createGeometryResult(
+      shapeId,
+      `${input.guardType} Machine Guard`,
+      context.material,
+      {
+        guardType: input.guardType,
+        panelType: input.panelType,
+        width: calc.width,
+        height: calc.height,
+        numPosts: calc.numPosts,
+        numPanels: calc.numPanels,
+        safetyDistanceOk: calc.safetyDistanceOk,
+        requiredDistance: calc.requiredDistance,
+        wireDiameter: mesh.wireDiameter,
+        flatPatterns,
+      }
+    );
+
+    this.reportProgress(context, 100, 'Guard geometry complete');
+
+    return result;
+  }
+
+  validate(_context: BuilderContext, input: GuardInput): ValidationResult {
+    const errors: Issue[] = [];
+    const warnings: Issue[] = [];
+
+    const calc = calculateGuard({ ...input, frameProfile: 'steel-tube' });
+    if (calc.numPosts < 2) {
+      errors.push({
+        code: 'GUARD_TOO_SHORT',
+        severity: 'error',
+        message: `Guard run ${input.width}mm needs at least two posts`,
+      });
+    }
+
+    if (input.height - 2 * input.frameSize <= 50) {
+      errors.push({
+        code: 'GUARD_TOO_LOW',
+        severity: 'error',
+        message: `Guard height ${input.height}mm leaves no room for infill between ${input.frameSize}mm rails`,
+      });
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings,
+      clearanceChecks: [],
+    };
+  }
+}
+
+// ============================================================================
+// FENCE BUILDER
+// ============================================================================
+
+export interface FenceInput {
+  totalLength?: number; // Fence run (mm, default distance A→B)
+  height: number; // Fence height (mm)
+  postSpacing: number; // Maximum post spacing (mm)
+  meshOpening: number; // Mesh opening (mm)
+  safetyDistance: number; // Distance from fence to hazard (mm)
+  gateCount: number;
+  gateWidth: number; // mm
+  gateType: 'single-swing' | 'double-swing' | 'sliding' | 'bi-fold' | 'vertical-lift';
+  interlocked: boolean;
+  frameType: 'aluminum-extrusion' | 'steel-tube-square' | 'steel-tube-round' | 'steel-angle';
+  groundClearance?: number; // Gap under the panels (mm, default 50)
+}
+
+export class FenceBuilder extends BaseGeometryBuilder<FenceInput> {
+  elementType = 'fence';
+
+  async build(context: BuilderContext, input: FenceInput): Promise<GeometryResult> {
+    await kernel.initKernel();
+
+    this.reportProgress(context, 0, 'Starting fence geometry generation');
+
+    const totalLength = input.totalLength ?? runLength(context);
+    const calc = calculateFenceLayout({ ...input, totalLength, mountingType: 'floor-mounted' });
+    const clearance = input.groundClearance ?? 50;
+    const sheetMaterial = sheetMaterialId(context.material);
+
+    // Gates first, then standard panels, then the filler panel
+    const bays: Array<{ width: number; gate: boolean }> = [];
+    for (let i = 0; i < input.gateCount; i++) bays.push({ width: input.gateWidth, gate: true });
+    const standardPanels = calc.panelCount - (calc.fillerPanelWidth ? 1 : 0);
+    for (let i = 0; i < standardPanels; i++) bays.push({ width: calc.standardPanelWidth, gate: false });
+    if (calc.fillerPanelWidth) bays.push({ width: calc.fillerPanelWidth, gate: false });
+
+    const parts: string[] = [];
+    const postCounts = { standard: 0, gate: 0 };
+    const mesh = {
+      pitch: input.meshOpening + calc.meshSpec.wireDiameter,
+      wireDiameter: calc.meshSpec.wireDiameter,
+    };
+
+    const addPost = async (x: number, gatePost: boolean) => {
+      const size = gatePost ? calc.gatePostSize : calc.standardPostSize;
+      const post = await buildPost(size.profileSize, size.wallThickness, input.height, {
+        size: size.basePlateSize,
+        thickness: size.basePlateThickness,
+        holeDiameter: anchorHoleDiameter(size.basePlateSize),
+        holeOffset: size.basePlateSize * 0.3,
+      });
+      parts.push(await translated(post, x, 0, 0));
+      postCounts[gatePost ? 'gate' : 'standard']++;
+    };
+
+    let x = 0;
+    for (const [i, bay] of bays.entries()) {
+      const gatePost = bay.gate || bays[i - 1]?.gate === true;
+      await addPost(x, gatePost);
+
+      const left = (gatePost ? calc.gatePostSize : calc.standardPostSize).profileSize / 2;
+      const nextGatePost = bay.gate || bays[i + 1]?.gate === true;
+      const right = (nextGatePost ? calc.gatePostSize : calc.standardPostSize).profileSize / 2;
+      const gap = bay.gate ? 10 : 5;
+      const panelWidth = bay.width - left - right - 2 * gap;
+
+      let panel = await buildMeshPanel(panelWidth, calc.standardPanelHeight, 30, mesh);
+      if (bay.gate) {
+        const knuckles = await buildHingeKnuckles(calc.standardPanelHeight, 2, -gap / 2);
+        panel = await unionAll([panel, ...knuckles]);
+      }
+      parts.push(await translated(panel, x + left + gap, 0, clearance));
+
+      x += bay.width;
+      this.reportProgress(context, 5 + ((i + 1) / bays.length) * 80, `Created ${bay.gate ? 'gate' : 'panel'} ${i + 1} of ${bays.length}`);
+    }
+    await addPost(x, bays[bays.length - 1]?.gate === true);
+
+    // Base plate blanks for both post sizes
+    const flatPatterns: SheetMetalFlatPattern[] = [];
+    for (const [kind, size] of [['standard', calc.standardPostSize], ['gate', calc.gatePostSize]] as const) {
+      if (postCounts[kind] === 0) continue;
+      const holeDiameter = anchorHoleDiameter(size.basePlateSize);
+      flatPatterns.push(flatPlatePattern(
+        kind === 'gate' ? 'Gate Post Base Plate' : 'Post Base Plate',
+        sheetMaterial, size.basePlateThickness, size.basePlateSize, size.basePlateSize,
+        generateBasePlateProfile({
+          width: size.basePlateSize, height: size.basePlateSize, thickness: size.basePlateThickness,
+          centerHoles: { diameter: holeDiameter, pattern: '4-corner' },
+        }),
+        Math.PI * holeDiameter * holeDiameter,
+        postCounts[kind]
+      ));
+    }
+
+    this.reportProgress(context, 90, 'Combining fence');
+
+    const shapeId = await placeAlongRun(await unionAll(parts), context);
+
+    const result = await this.createGeometryResult(
+      shapeId,
+      'Perimeter Safety Fence',
+      context.material,
+      {
+        totalLength,
+        height: input.height,
+        postCount: postCounts.standard + postCounts.gate,
+        panelCount: calc.panelCount,
+        gateCount: input.gateCount,
+        meshOpening: calc.meshSpec.meshOpening,
+        wireDiameter: calc.meshSpec.wireDiameter,
+        standardPostSize: calc.standardPostSize,
+        gatePostSize: calc.gatePostSize,
+        flatPatterns,
+      }
+    );
+
+    this.reportProgress(context, 100, 'Fence geometry complete');
+
+    return result;
+  }
+
+  validate(context: BuilderContext, input: FenceInput): ValidationResult {
+    const errors: Issue[] = [];
+    const warnings: Issue[] = [];
+
+    const totalLength = input.totalLength ?? runLength(context);
+    if (input.gateCount * input.gateWidth >= totalLength) {
+      errors.push({
+        code: 'GATES_EXCEED_RUN',
+        severity: 'error',
+        message: `${input.gateCount} gates of ${input.gateWidth}mm do not fit in a ${Math.round(totalLength)}mm run`,
+      });
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings,
+      clearanceChecks: [],
+    };
+  }
+}
+
+// ============================================================================
+// ACCESS PANEL BUILDER
+// ============================================================================
+
+export interface PanelInput {
+  panelType: string; // 'hinged', 'removable', ...
+  width: number; // Clear opening width (mm)
+  height: number; // Clear opening height (mm)
+  thickness: number; // Sheet thickness (mm)
+  latchType: string;
+  latchCount: number;
+  sealType: string;
+  ipRating: string;
+  hingeSide?: 'left' | 'right';
+  returnFlange?: number; // Leaf flange depth (mm, default 20)
+  louvers?: number; // Ventilation louvers in the leaf
+}
+
+/** Panel cutout for each latch type (mm) */
+const latchHoleDiameters: Record<string, number> = {
+  'quarter-turn': 22,
+  'cam-lock': 19,
+  'push-button': 16,
+  'slam-latch': 22,
+  'multi-point': 22,
+};
+
+export class PanelBuilder extends BaseGeometryBuilder<PanelInput> {
+  elementType = 'panel';
+
+  async build(context: BuilderContext, input: PanelInput): Promise<GeometryResult> {
+    await kernel.initKernel();
+
+    this.reportProgress(context, 0, 'Starting access panel generation');
+
+    const calc = calculateAccessPanel({
+      ...input,
+      material: context.material,
+      frameType: 'flanged',
+    });
+    const { frameWidth, frameHeight } = calc.dimensions;
+    const t = input.thickness;
+    const border = (frameWidth - input.width) / 2;
+    const sheetMaterial = sheetMaterialId(context.material);
+
+    // Frame: flat collar around the opening with fixing screws on its centerline
+    this.reportProgress(context, 10, 'Creating frame');
+
+    const screwDiameter = 5.5;
+    const screws = screwPositions(frameWidth, frameHeight, border / 2, calc.components.screws);
+    let frame = await boxAt(0, 0, 0, frameWidth, frameHeight, t);
+    const opening = await boxAt(border, border, -1, input.width, input.height, t + 2);
+    frame = (await kernel.booleanSubtract(frame, opening)).shapeId;
+    for (const screw of screws) {
+      frame = (await kernel.createHole(frame, screwDiameter, 0, { x: screw.x, y: screw.y, z: t / 2 }, 'Z')).shapeId;
+    }
+
+    const frameEntities: DXFEntity[] = [
+      createRectangle(0, 0, frameWidth, frameHeight, 'PROFILE'),
+      createRectangle(border, border, input.width, input.height, 'PROFILE'),
+      ...screws.map(s => createHoleEntity(round2(s.x), round2(s.y), screwDiameter)),
+      createLabel(5, 5, 'Access Panel Frame', 5),
+    ];
+    const framePattern = flatPlatePattern(
+      'Access Panel Frame', sheetMaterial, t, frameWidth, frameHeight, frameEntities,
+      input.width * input.height + screws.length * Math.PI * screwDiameter ** 2 / 4
+    );
+
+    // Leaf: flanged pan sitting in the opening with a running gap
+    this.reportProgress(context, 30, 'Forming panel leaf');
+
+    const gap = 2;
+    const leafWidth = input.width - 2 * gap;
+    const leafHeight = input.height - 2 * gap;
+    const flange = input.returnFlange ?? 20;
+    const hingeSide = input.hingeSide ?? 'left';
+    const latchSide: PanelEdge = hingeSide === 'left' ? 'right' : 'left';
+    const latchDiameter = latchHoleDiameters[input.latchType] ?? 0;
+    const latchInset = flange + 30;
+
+    const leafSpec: SheetMetalPartInput = {
+      width: leafWidth,
+      height: leafHeight,
+      thickness: t,
+      bendRadius: t,
+      flanges: { left: flange, right: flange, bottom: flange, top: flange },
+      holes: latchDiameter > 0
+        ? spacedAlong(leafHeight, calc.components.latches).map(y => ({
+            x: latchSide === 'right' ? leafWidth - latchInset : latchInset,
+            y,
+            diameter: latchDiameter,
+          }))
+        : [],
+      hingeCutouts: hingeCutouts(hingeSide, leafHeight, calc.components.hinges, flange),
+      louvers: louverBank(leafWidth, leafHeight, input.louvers ?? 0, flange),
+    };
+    const leafLayout = layoutPanel(leafSpec, sheetMaterial);
+    let leaf = await buildPanelSolid(leafSpec, leafLayout);
+    leaf = await translated(leaf, border + gap, border + gap, 0);
+    const leafPattern = flattenPanel(leafSpec, leafLayout, sheetMaterial, 'Access Panel Leaf');
+
+    // Hinge knuckles across the hinge-side gap
+    const knuckles: string[] = [];
+    for (const cutout of leafSpec.hingeCutouts ?? []) {
+      let knuckle = (await kernel.createCylinder(4, cutout.width - 2)).shapeId;
+      knuckle = await rotated(knuckle, 'X', -90);
+      const hx = hingeSide === 'left' ? border : border + input.width;
+      knuckles.push(await translated(knuckle, hx, border + gap + cutout.position - cutout.width / 2 + 1, -3));
+    }
+
+    this.reportProgress(context, 80, 'Assembling access panel');
+
+    // Stand the panel up: its face in the XZ plane, flanges toward -Y
+    const frameShape = await placeAlongRun(await standUp(frame), context);
+    const leafShape = await placeAlongRun(await standUp(await unionAll([leaf, ...knuckles])), context);
+    const combined = (await kernel.booleanUnion(frameShape, leafShape)).shapeId;
+
+    const leafResult = await this.createGeometryResult(leafShape, 'Access Panel Leaf', context.material, {
+      flatPattern: leafPattern,
+    });
+    const frameResult = await this.createGeometryResult(frameShape, 'Access Panel Frame', context.material, {
+      flatPattern: framePattern,
+    });
+
+    const result = await this.createGeometryResult(combined, 'Access Panel', context.material, {
+      panelType: input.panelType,
+      ...calc.dimensions,
+      hinges: calc.components.hinges,
+      latches: calc.components.latches,
+      screws: calc.components.screws,
+      gasketLength: calc.components.gasketLength,
+      flatPatterns: [leafPattern, framePattern],
+    });
+    result.children = [leafResult, frameResult];
+
+    this.reportProgress(context, 100, 'Access panel complete');
+
+    return result;
+  }
+
+  validate(_context: BuilderContext, input: PanelInput): ValidationResult {
+    const errors: Issue[] = [];
+    const warnings: Issue[] = [];
+
+    const flange = input.returnFlange ?? 20;
+    if (flange < minFeatureRules.minFlange * input.thickness + input.thickness) {
+      warnings.push({
+        code: 'RETURN_FLANGE_SHORT',
+        severity: 'warning',
+        message: `Return flange ${flange}mm is short for ${input.thickness}mm sheet`,
+      });
+    }
+
+    if (input.width < 4 * flange + 100 || input.height < 4 * flange + 100) {
+      errors.push({
+        code: 'PANEL_TOO_SMALL',
+        severity: 'error',
+        message: `Panel ${input.width}x${input.height}mm is too small for ${flange}mm return flanges and latches`,
+      });
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings,
+      clearanceChecks: [],
+    };
+  }
+}
+
+/**
+ * Evenly spaced positions along a length, clear of the ends by a pitch
+ */
+function spacedAlong(length: number, count: number): number[] {
+  return Array.from({ length: count }, (_, i) => (length * (i + 1)) / (count + 1));
+}
+
+function screwPositions(width: number, height: number, inset: number, count: number): FlatPoint[] {
+  // Distribute around the centerline loop in proportion to side length
+  const w = width - 2 * inset;
+  const h = height - 2 * inset;
+  const perimeter = 2 * (w + h);
+  return Array.from({ length: count }, (_, i) => {
+    let d = (perimeter * i) / count;
+    if (d < w) return { x: inset + d, y: inset };
+    d -= w;
+    if (d < h) return { x: width - inset, y: inset + d };
+    d -= h;
+    if (d < w) return { x: width - inset - d, y: height - inset };
+    d -= w;
+    return { x: inset, y: height - inset - d };
+  });
+}
+
+function hingeCutouts(edge: PanelEdge, length: number, count: number, flange: number): FlangeCutout[] {
+  const width = 60;
+  return spacedAlong(length, count).map(position => ({ edge, position, width, depth: flange / 2 }));
+}
+
+/**
+ * Row of louvers centered in a panel, clear of the flanges
+ */
+function louverBank(width: number, height: number, count: number, flange: number): PanelLouver[] {
+  if (count <= 0) return [];
+  const length = Math.min(150, width - 2 * flange - 60);
+  const louverWidth = 8;
+  const pitch = 25;
+  const y0 = height / 2 - ((count - 1) * pitch) / 2;
+  if (length <= 0 || (count - 1) * pitch + louverWidth > height - 2 * flange - 40) return [];
+  return Array.from({ length: count }, (_, i) => ({
+    x: width / 2,
+    y: y0 + i * pitch,
+    length,
+    width: louverWidth,
+  }));
+}
+
+// ============================================================================
+// COVER BUILDER
+// ============================================================================
+
+export interface CoverInput {
+  length: number; // External width across the wall (mm)
+  width: number; // External depth out from the wall (mm)
+  height: number; // External height (mm)
+  enclosureType: 'box' | 'cabinet' | 'hood' | 'junction-box';
+  material: 'steel' | 'stainless-304' | 'stainless-316' | 'aluminum' | 'polycarbonate';
+  wallThickness: number; // mm
+  ipRating: string;
+  mountingType: 'wall-mount' | 'floor-mount' | 'free-standing';
+  hasBackpanel: boolean;
+  cableEntries?: number; // Gland holes in the bottom
+  glandDiameter?: number; // mm (default M20 clearance)
+  doorFlange?: number; // Door return flange (mm, default 20)
+}
+
+export class CoverBuilder extends BaseGeometryBuilder<CoverInput> {
+  elementType = 'cover';
+
+  async build(context: BuilderContext, input: CoverInput): Promise<GeometryResult> {
+    await kernel.initKernel();
+
+    this.reportProgress(context, 0, 'Starting enclosure generation');
+
+    const calc = calculateEnclosure(input);
+    const t = calc.wallThickness;
+    const sheetMaterial = sheetMaterialId(input.material);
+    const ipDigits = input.ipRating.replace(/\D/g, '');
+    const waterDigit = ipDigits.length >= 2 ? parseInt(ipDigits[1]) : 0;
+
+    // Body: back panel with four flanges forming the sides, open at the front
+    this.reportProgress(context, 10, 'Forming enclosure body');
+
+    const glandDiameter = input.glandDiameter ?? 20.5;
+    const bodySpec: SheetMetalPartInput = {
+      width: input.length,
+      height: input.height,
+      thickness: t,
+      bendRadius: t,
+      flanges: { left: input.width, right: input.width, bottom: input.width, top: input.width },
+      holes: input.mountingType === 'wall-mount'
+        ? [[30, 30], [input.length - 30, 30], [30, input.height - 30], [input.length - 30, input.height - 30]]
+            .map(([x, y]) => ({ x, y, diameter: 9 }))
+        : [],
+      flangeHoles: spacedAlong(input.length, calc.components.cableGlands).map(position => ({
+        edge: 'bottom' as const,
+        position,
+        height: input.width / 2,
+        diameter: glandDiameter,
+      })),
+    };
+    const bodyLayout = layoutPanel(bodySpec, sheetMaterial);
+    const body = await buildPanelSolid(bodySpec, bodyLayout);
+    const bodyPattern = flattenPanel(bodySpec, bodyLayout, sheetMaterial, 'Enclosure Body');
+
+    // Door: inset pan with hinge cutouts, lock hole and (for IPx0-IPx3) louvers
+    this.reportProgress(context, 40, 'Forming door');
+
+    const gap = 1;
+    const doorFlange = input.doorFlange ?? 20;
+    const doorWidth = input.length - 2 * t - 2 * gap;
+    const doorHeight = input.height - 2 * t - 2 * gap;
+    const doorSpec: SheetMetalPartInput = {
+      width: doorWidth,
+      height: doorHeight,
+      thickness: t,
+      bendRadius: t,
+      flanges: { left: doorFlange, right: doorFlange, bottom: doorFlange, top: doorFlange },
+      holes: [{ x: doorWidth - doorFlange - 30, y: doorHeight / 2, diameter: 22 }],
+      hingeCutouts: hingeCutouts('left', doorHeight, calc.components.hinges, doorFlange),
+      louvers: waterDigit <= 3 ? louverBank(doorWidth, doorHeight, 6, doorFlange) : [],
+    };
+    const doorLayout = layoutPanel(doorSpec, sheetMaterial);
+    let door = await buildPanelSolid(doorSpec, doorLayout);
+    const doorPattern = flattenPanel(doorSpec, doorLayout, sheetMaterial, 'Enclosure Door');
+
+    // Body and door share the pan frame: back at Z = 0, front at Z = depth
+    door = await rotated(door, 'Y', 180, { x: input.length / 2, y: 0, z: 0 });
+    door = await translated(door, -(t + gap), t + gap, input.width);
+
+    const parts = [body, door];
+    const flatPatterns = [bodyPattern, doorPattern];
+
+    if (input.hasBackpanel) {
+      this.reportProgress(context, 60, 'Creating mounting plate');
+      const plateLength = calc.internalDimensions.length - 10;
+      const plateHeight = calc.internalDimensions.height - 10;
+      const standoff = 20;
+      let plate = await boxAt(
+        (input.length - plateLength) / 2, (input.height - plateHeight) / 2, t + standoff,
+        plateLength, plateHeight, t
+      );
+      const corners = [[15, 15], [plateLength - 15, 15], [15, plateHeight - 15], [plateLength - 15, plateHeight - 15]];
+      for (const [x, y] of corners) {
+        plate = (await kernel.createHole(plate, 6.5, 0, {
+          x: (input.length - plateLength) / 2 + x,
+          y: (input.height - plateHeight) / 2 + y,
+          z: t + standoff + t / 2,
+        }, 'Z')).shapeId;
+      }
+      parts.push(plate);
+      flatPatterns.push(flatPlatePattern(
+        'Mounting Plate', sheetMaterial, t, plateLength, plateHeight,
+        [
+          createRectangle(0, 0, plateLength, plateHeight, 'PROFILE'),
+          ...corners.map(([x, y]) => createHoleEntity(x, y, 6.5)),
+          createLabel(5, 5, 'Mounting Plate', 5),
+        ],
+        4 * Math.PI * 6.5 * 6.5 / 4
+      ));
+    }
+
+    this.reportProgress(context, 75, 'Positioning enclosure');
+
+    // Pan frame (X across, Y up, Z out) to run frame (X out, Y across, Z up)
+    const place = async (shapeId: string): Promise<string> => {
+      let placed = await translated(shapeId, -input.length / 2, 0, 0);
+      placed = await rotated(placed, 'X', 90);
+      placed = await rotated(placed, 'Z', 90);
+      return placeAlongRun(placed, context);
+    };
+    const placed: string[] = [];
+    for (const part of parts) placed.push(await place(part));
+
+    const children = [
+      await this.createGeometryResult(placed[0], 'Enclosure Body', context.material, { flatPattern: bodyPattern }),
+      await this.createGeometryResult(placed[1], 'Enclosure Door', context.material, { flatPattern: doorPattern }),
+    ];
+    if (placed[2]) {
+      children.push(await this.createGeometryResult(placed[2], 'Mounting Plate', context.material, {
+        flatPattern: flatPatterns[2],
+      }));
+    }
+
+    this.reportProgress(context, 90, 'Combining enclosure');
+
+    const result = await this.createGeometryResult(
+      await unionAll(placed),
+      `${input.enclosureType} Enclosure`,
+      context.material,
+      {
+        enclosureType: input.enclosureType,
+        externalDimensions: calc.externalDimensions,
+        internalDimensions: calc.internalDimensions,
+        ipRating: input.ipRating,
+        ventilated: (doorSpec.louvers ?? []).length > 0,
+        components: calc.components,
+        flatPatterns,
+      }
+    );
+    result.children = children;
+
+    this.reportProgress(context, 100, 'Enclosure complete');
+
+    return result;
+  }
+
+  validate(_context: BuilderContext, input: CoverInput): ValidationResult {
+    const errors: Issue[] = [];
+    const warnings: Issue[] = [];
+
+    if (input.material === 'polycarbonate') {
+      errors.push({
+        code: 'NOT_SHEET_METAL',
+        severity: 'error',
+        message: 'Polycarbonate enclosures are moulded, not formed from sheet',
+      });
+    }
+
+    const doorFlange = input.doorFlange ?? 20;
+    if (input.width < doorFlange + 2 * input.wallThickness + 20) {
+      errors.push({
+        code: 'ENCLOSURE_TOO_SHALLOW',
+        severity: 'error',
+        message: `Enclosure depth ${input.width}mm cannot take a ${doorFlange}mm door return`,
+      });
+    }
+
+    const glands = input.cableEntries ?? 0;
+    const glandDiameter = input.glandDiameter ?? 20.5;
+    if (glands > 0 && glands * (glandDiameter + 15) > input.length) {
+      errors.push({
+        code: 'GLANDS_DO_NOT_FIT',
+        severity: 'error',
+        message: `${glands} cable entries of ${glandDiameter}mm do not fit across ${input.length}mm`,
+      });
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings,
+      clearanceChecks: [],
+    };
+  }
+}
+
+// ============================================================================
+// REGISTER BUILDERS
+// ============================================================================
+
+export function registerEnclosureBuilders(): void {
+  registerBuilder(new SheetMetalPartBuilder());
+  registerBuilder(new GuardBuilder());
+  registerBuilder(new FenceBuilder());
+  registerBuilder(new PanelBuilder());
+  registerBuilder(new CoverBuilder());
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import type { Point3D } from '../../knowledge/types';
+import type { BuilderContext } from '../types';
+import type { DuctInput, PipeInput } from './flow';
+import { DuctBuilder, PipeBuilder } from './flow';
+
+/** Exposes the route layout and hanger plan that build() turns into solids */
+class PlannedPipe extends PipeBuilder {
+  planned(context: BuilderContext, input: PipeInput) {
+    return this.plan(context, input);
+  }
+}
+
+class PlannedDuct extends DuctBuilder {
+  planned(context: BuilderContext, input: DuctInput) {
+    return this.plan(context, input);
+  }
+}
+
+function context(material = 'A53 carbon steel'): BuilderContext {
+  return {
+    pointA: { x: 0, y: 0, z: 3000 },
+    pointB: { x: 3000, y: 0, z: 3000 },
+    material,
+    parameters: {},
+  };
+}
+
+/** L-shaped run at 3 m: 3000 along X, then 2000 along Y */
+const route: Point3D[] = [
+  { x: 0, y: 0, z: 3000 },
+  { x: 3000, y: 0, z: 3000 },
+  { x: 3000, y: 2000, z: 3000 },
+];
+
+const pipe: PipeInput = { nominalSize: '2"', schedule: 'SCH40', route };
+
+describe('PipeBuilder', () => {
+  it('trims long-radius elbows out of the legs', () => {
+    const { layout } = new PlannedPipe().planned(context(), pipe);
+
+    // 2" LR elbow: 76 mm centre-to-end at 90°
+    expect(layout.fittings).toEqual({ elbows: 1, tees: 0, reducers: 0 });
+    expect(layout.centerlineLength).toBeCloseTo(3000 - 76 + 2000 - 76 + 76 * Math.PI / 2, 6);
+    expect(layout.pieces.map(p => p.kind)).toEqual(['straight', 'elbow', 'straight']);
+    expect(layout.errors).toEqual([]);
+  });
+
+  it('takes tee and reducer lay lengths out of the run', () => {
+    const { layout } = new PlannedPipe().planned(context(), {
+      ...pipe,
+      branches: [{ segment: 0, offset: 1000, direction: { x: 0, y: -1, z: 0 }, length: 500 }],
+      reducers: [{ segment: 1, offset: 1000, nominalSize: '1-1/2"' }],
+    });
+
+    expect(layout.fittings).toEqual({ elbows: 1, tees: 1, reducers: 1 });
+    expect(layout.branchLength).toBe(500);
+    // Fittings replace straight pipe, so the run's centerline is unchanged
+    expect(layout.centerlineLength).toBeCloseTo(3000 - 76 + 2000 - 76 + 76 * Math.PI / 2, 6);
+    expect(layout.pieces.map(p => p.kind)).toEqual(['straight', 'tee', 'straight', 'straight', 'elbow', 'straight', 'reducer', 'straight']);
+  });
+
+  it('hangs the horizontal legs a standard drop below the structure', () => {
+    const { hangers } = new PlannedPipe().planned(context(), pipe);
+    const bays = Math.ceil(3000 / hangers.spacing) + Math.ceil(2000 / hangers.spacing);
+
+    expect(hangers.stations).toHaveLength(bays);
+    expect(hangers.stations.every(s => s.position.z === 3000)).toBe(true);
+    expect(hangers.type).toBe('rod');
+    expect(hangers.topElevation).toBeCloseTo(3000 + 60.3 / 2 + 500, 6);
+    expect(hangers.material).toBe('galvanized-steel');
+  });
+
+  it('reports routes that cannot be fitted', () => {
+    const builder = new PipeBuilder();
+    const codes = (input: Partial<PipeInput>) => builder.validate(context(), { ...pipe, ...input }).errors.map(e => e.code);
+
+    expect(builder.validate(context(), pipe).valid).toBe(true);
+    expect(codes({ schedule: 'SCH999' })).toContain('UNKNOWN_SIZE');
+    expect(codes({ hangerElevation: 2900 })).toEqual(['HANGER_BELOW_RUN']);
+    expect(codes({
+      route: [route[0], { x: 1000, y: 0, z: 3000 }, { x: 1000, y: 100, z: 3000 }, { x: 2000, y: 100, z: 3000 }],
+    })).toContain('LEG_TOO_SHORT');
+    expect(codes({ route: [route[0], route[1], route[0]] })).toContain('ROUTE_DOUBLES_BACK');
+    expect(codes({ branches: [{ segment: 0, offset: 1000, direction: { x: 1, y: 0, z: 0 }, length: 500 }] }))
+      .toEqual(['BRANCH_ALONG_RUN']);
+    expect(codes({ reducers: [{ segment: 4, offset: 0, nominalSize: '1"' }] })).toEqual(['FITTING_OFF_ROUTE']);
+  });
+});
+
+describe('DuctBuilder', () => {
+  const duct: DuctInput = { ductType: 'rectangular', width: 400, height: 200, gauge: '24', route };
+
+  it('sizes elbows from the depth in the bend plane and tapers transitions at 15°', () => {
+    const { layout, hangers } = new PlannedDuct().planned(context('galvanized'), {
+      ...duct,
+      reducers: [{ segment: 1, offset: 1000, width: 300, height: 200 }],
+    });
+    const elbow = layout.pieces.find(p => p.kind === 'elbow')!;
+    const reducer = layout.pieces.find(p => p.kind === 'reducer')!;
+
+    // The 400 mm side lies in the horizontal bend plane
+    expect(elbow.kind === 'elbow' && elbow.radius).toBe(1.5 * 400);
+    expect(reducer.kind === 'reducer' && reducer.length).toBeCloseTo(50 / Math.tan(15 * Math.PI / 180), 6);
+    expect(hangers.type).toBe('trapeze');
+  });
+
+  it('asks for the size its section needs', () => {
+    const result = new DuctBuilder().validate(context(), { ductType: 'round', gauge: '24', route });
+    expect(result.errors.map(e => e.message)).toContain('Round duct run needs a diameter');
+  });
+
+  it('warns when a rectangular duct bends off its section axes', () => {
+    const skewed: Point3D[] = [route[0], route[1], { x: 4000, y: 1000, z: 4414.2 }];
+    const result = new DuctBuilder().validate(context(), { ...duct, route: skewed, hangerElevation: 6000 });
+    expect(result.warnings.map(w => w.code)).toEqual(['SKEWED_BEND']);
+  });
+});
@@ -0,0 +1,1563 @@
+/**
+ * FLOW Domain Geometry Builders
+ *
+ * Builds 3D geometry for pipe spools, duct runs and cable trays routed along
+ * a centerline polyline. Straight lengths are swept along the route, bends
+ * get standard elbows, and tees and reducers are inserted where the run
+ * branches or changes size. Horizontal runs are carried by rod hangers or
+ * trapezes dropped from the structure above.
+ */
+
+import * as kernel from '../../core/kernel';
+import { BaseGeometryBuilder, normalizeVector, registerBuilder } from '../builder';
+import type {
+  GeometryResult,
+  BuilderContext,
+  ValidationResult,
+} from '../types';
+import type { Point3D, Vector3D } from '../../knowledge/types';
+import {
+  pipeSizes,
+  cableTraySizes,
+  ductGaugeThickness,
+  threadedRodSizes,
+  trapezeChannelSizes,
+  calculateDuct,
+  calculateCableTray,
+  calculateSupportLoad,
+  calculatePipeSupportSpacing,
+} from '../../knowledge/domains/flow';
+import type {
+  CableTrayCalculationInput,
+  PipeSupportSpacingInput,
+  SupportLoadInput,
+  SupportLoadResult,
+  TrapezeChannelData,
+} from '../../knowledge/domains/flow';
+
+type Issue = { code: string; severity: 'error' | 'warning'; message: string };
+
+// ============================================================================
+// FLOW SECTIONS
+// ============================================================================
+
+/**
+ * Cross-section carried along a route. Section coordinates (p, q) run across
+ * the route and up the section, centred on the route line.
+ */
+export type FlowSection =
+  | { shape: 'round'; diameter: number; wall: number; label: string }
+  | { shape: 'rect'; width: number; height: number; wall: number; label: string }
+  | { shape: 'tray'; width: number; depth: number; wall: number; ladder: boolean; label: string };
+
+type SectionRect = { p1: number; q1: number; p2: number; q2: number };
+type ProfilePoint = { x: number; y: number };
+
+const CIRCLE_SEGMENTS = 48;
+const RUNG_PITCH = 230; // NEMA VE-1 maximum rung spacing (mm)
+const RUNG_WIDTH = 25;
+const RUNG_HEIGHT = 10;
+
+function sectionSize(section: FlowSection): { width: number; height: number } {
+  switch (section.shape) {
+    case 'round': return { width: section.diameter, height: section.diameter };
+    case 'rect': return { width: section.width, height: section.height };
+    case 'tray': return { width: section.width, height: section.depth };
+  }
+}
+
+function outerRect(section: FlowSection): SectionRect {
+  const { width, height } = sectionSize(section);
+  return { p1: -width / 2, q1: -height / 2, p2: width / 2, q2: height / 2 };
+}
+
+/**
+ * Void inside a section. A tray's void runs out through the open top so that
+ * subtracting it leaves the floor and side rails; in the straight lengths of
+ * a ladder tray it also runs out through the floor, leaving the rails for
+ * the rungs to span.
+ */
+function boreRect(section: FlowSection, throughFloor = false): SectionRect {
+  const { width, height } = sectionSize(section);
+  const t = section.wall;
+  if (section.shape === 'tray') {
+    return {
+      p1: -width / 2 + t,
+      q1: throughFloor ? -height / 2 - 1 : -height / 2 + t,
+      p2: width / 2 - t,
+      q2: height / 2 + 1,
+    };
+  }
+  return { p1: -width / 2 + t, q1: -height / 2 + t, p2: width / 2 - t, q2: height / 2 - t };
+}
+
+function rectProfile(rect: SectionRect): ProfilePoint[] {
+  return [
+    { x: rect.p1, y: rect.q1 },
+    { x: rect.p2, y: rect.q1 },
+    { x: rect.p2, y: rect.q2 },
+    { x: rect.p1, y: rect.q2 },
+  ];
+}
+
+function circleProfile(radius: number): ProfilePoint[] {
+  return Array.from({ length: CIRCLE_SEGMENTS }, (_, i) => {
+    const angle = (2 * Math.PI * i) / CIRCLE_SEGMENTS;
+    return { x: radius * Math.cos(angle), y: radius * Math.sin(angle) };
+  });
+}
+
+function sectionProfile(section: FlowSection, bore: boolean): ProfilePoint[] {
+  if (section.shape === 'round') {
+    return circleProfile(section.diameter / 2 - (bore ? section.wall : 0));
+  }
+  return rectProfile(bore ? boreRect(section) : outerRect(section));
+}
+
+// ============================================================================
+// ROUTE VECTORS
+// ============================================================================
+
+const UP: Vector3D = { x: 0, y: 0, z: 1 };
+const MIN_BEND = (0.5 * Math.PI) / 180;
+
+function add(a: Vector3D, b: Vector3D): Vector3D {
+  return { x: a.x + b.x, y: a.y + b.y, z: a.z + b.z };
+}
+
+function sub(a: Vector3D, b: Vector3D): Vector3D {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+function scale(v: Vector3D, s: number): Vector3D {
+  return { x: v.x * s, y: v.y * s, z: v.z * s };
+}
+
+function dot(a: Vector3D, b: Vector3D): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+function cross(a: Vector3D, b: Vector3D): Vector3D {
+  return {
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x,
+  };
+}
+
+function magnitude(v: Vector3D): number {
+  return Math.sqrt(dot(v, v));
+}
+
+/**
+ * Rotate a vector about a unit axis (right-hand rule, radians)
+ */
+function rotateAbout(v: Vector3D, axis: Vector3D, angle: number): Vector3D {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return add(
+    add(scale(v, cos), scale(cross(axis, v), sin)),
+    scale(axis, dot(axis, v) * (1 - cos))
+  );
+}
+
+/**
+ * Section axes at a point on the run: x across, y up the section. The run
+ * direction completes the right-handed frame (x × y = direction).
+ */
+interface SectionFrame {
+  x: Vector3D;
+  y: Vector3D;
+}
+
+/**
+ * Frame with the section's up toward +Z (toward +Y on a vertical run)
+ */
+function uprightFrame(direction: Vector3D): SectionFrame {
+  const across = cross(UP, direction);
+  const x = magnitude(across) < 1e-6 ? { x: 1, y: 0, z: 0 } : normalizeVector(across);
+  return { x, y: cross(direction, x) };
+}
+
+/**
+ * Square a carried frame up to a (slightly) different run direction
+ */
+function alignFrame(frame: SectionFrame, direction: Vector3D): SectionFrame {
+  const y = normalizeVector(sub(frame.y, scale(direction, dot(frame.y, direction))));
+  return { x: cross(y, direction), y };
+}
+
+/**
+ * Carry a section frame through a bend of `angle` from `direction` toward
+ * `normal`, the way a fabricated elbow does (no twist)
+ */
+function bendFrame(frame: SectionFrame, direction: Vector3D, normal: Vector3D, angle: number): SectionFrame {
+  const axis = normalizeVector(cross(direction, normal));
+  return { x: rotateAbout(frame.x, axis, angle), y: rotateAbout(frame.y, axis, angle) };
+}
+
+/**
+ * Frame for a branch leaving a run: keeps the run's up where it can
+ */
+function branchFrame(frame: SectionFrame, runDirection: Vector3D, branchDirection: Vector3D): SectionFrame {
+  if (Math.abs(dot(frame.y, branchDirection)) < 0.9) {
+    const y = normalizeVector(sub(frame.y, scale(branchDirection, dot(frame.y, branchDirection))));
+    return { x: cross(y, branchDirection), y };
+  }
+  return { x: cross(runDirection, branchDirection), y: runDirection };
+}
+
+/**
+ * Half the section's extent along a world direction
+ */
+function halfExtent(section: FlowSection, frame: SectionFrame, direction: Vector3D): number {
+  if (section.shape === 'round') return section.diameter / 2;
+  const { width, height } = sectionSize(section);
+  return (Math.abs(dot(frame.x, direction)) * width + Math.abs(dot(frame.y, direction)) * height) / 2;
+}
+
+// ============================================================================
+// ROUTE LAYOUT
+// ============================================================================
+
+/**
+ * A point on a route: the leg it lies on (0 = first leg) and its distance
+ * from that leg's start point
+ */
+export interface RoutePosition {
+  segment: number;
+  offset: number; // mm
+}
+
+interface FittingRules {
+  /** Centerline radius of an elbow bending a section of this depth in the bend plane */
+  elbowRadius(section: FlowSection, bendDepth: number): number;
+  /** Centre-to-end lengths of a tee on the run and on the branch */
+  teeLengths(
+    run: FlowSection,
+    branch: FlowSection,
+    runHalfAlongBranch: number,
+    branchHalfAlongRun: number
+  ): { run: number; branch: number };
+  reducerLength(from: FlowSection, to: FlowSection): number;
+}
+
+interface LayoutBranch extends RoutePosition {
+  direction: Vector3D;
+  length: number;
+  section: FlowSection;
+}
+
+interface LayoutReducer extends RoutePosition {
+  section: FlowSection;
+}
+
+interface RouteSegment {
+  start: Point3D;
+  direction: Vector3D;
+  length: number;
+}
+
+type RoutePiece =
+  | {
+      kind: 'straight';
+      start: Point3D;
+      direction: Vector3D;
+      length: number;
+      frame: SectionFrame;
+      section: FlowSection;
+      segment: number; // -1 for branch pipe
+      offset: number;
+    }
+  | {
+      kind: 'elbow';
+      start: Point3D;
+      direction: Vector3D;
+      normal: Vector3D; // Toward the centre of the bend
+      angle: number; // rad
+      radius: number;
+      frame: SectionFrame;
+      section: FlowSection;
+    }
+  | {
+      kind: 'tee';
+      center: Point3D;
+      direction: Vector3D;
+      frame: SectionFrame;
+      section: FlowSection;
+      runLength: number; // Centre to end on the run
+      branchDirection: Vector3D;
+      branchFrame: SectionFrame;
+      branchSection: FlowSection;
+      branchLength: number; // Centre to end on the branch
+    }
+  | {
+      kind: 'reducer';
+      start: Point3D;
+      direction: Vector3D;
+      length: number;
+      frame: SectionFrame;
+      from: FlowSection;
+      to: FlowSection;
+    };
+
+interface RouteLayout {
+  segments: RouteSegment[];
+  pieces: RoutePiece[];
+  centerlineLength: number; // Main run, fittings included (mm)
+  branchLength: number; // Straight branch pipe beyond the tees (mm)
+  fittings: { elbows: number; tees: number; reducers: number };
+  errors: Issue[];
+  warnings: Issue[];
+}
+
+/**
+ * Break a route polyline into straight lengths and fittings.
+ *
+ * Each bend gets an elbow whose tangent length is trimmed off the legs on
+ * both sides; tees and reducers take their lay length out of the leg they
+ * sit on. The section frame is carried through every bend, so rectangular
+ * sections keep the orientation the elbows give them.
+ */
+function layoutRoute(
+  route: Point3D[],
+  initial: FlowSection,
+  branches: LayoutBranch[],
+  reducers: LayoutReducer[],
+  rules: FittingRules
+): RouteLayout {
+  const errors: Issue[] = [];
+  const warnings: Issue[] = [];
+  const layout: RouteLayout = {
+    segments: [],
+    pieces: [],
+    centerlineLength: 0,
+    branchLength: 0,
+    fittings: { elbows: 0, tees: 0, reducers: 0 },
+    errors,
+    warnings,
+  };
+
+  const points = route.filter((p, i) => i === 0 || magnitude(sub(p, route[i - 1])) > 1e-6);
+  if (points.length < 2) {
+    errors.push({ code: 'ROUTE_TOO_SHORT', severity: 'error', message: 'Route needs at least two distinct points' });
+    return layout;
+  }
+  for (let i = 0; i < points.length - 1; i++) {
+    const leg = sub(points[i + 1], points[i]);
+    layout.segments.push({ start: points[i], direction: normalizeVector(leg), length: magnitude(leg) });
+  }
+
+  const onRoute = (feature: RoutePosition): boolean => {
+    const segment = layout.segments[feature.segment];
+    if (segment && feature.offset >= 0 && feature.offset <= segment.length) return true;
+    errors.push({
+      code: 'FITTING_OFF_ROUTE',
+      severity: 'error',
+      message: `No route at leg ${feature.segment + 1}, ${Math.round(feature.offset)}mm`,
+    });
+    return false;
+  };
+  const events = [
+    ...branches.filter(onRoute).map(branch => ({ offset: branch.offset, segment: branch.segment, branch })),
+    ...reducers.filter(onRoute).map(reducer => ({ offset: reducer.offset, segment: reducer.segment, reducer })),
+  ].sort((a, b) => a.offset - b.offset);
+
+  let section = initial;
+  let frame = uprightFrame(layout.segments[0].direction);
+  let startTrim = 0;
+
+  layout.segments.forEach((segment, i) => {
+    frame = alignFrame(frame, segment.direction);
+    const at = (offset: number): Point3D => add(segment.start, scale(segment.direction, offset));
+    const straight = (from: number, to: number) => {
+      if (to - from <= 0.5) return;
+      layout.pieces.push({
+        kind: 'straight', start: at(from), direction: segment.direction, length: to - from,
+        frame, section, segment: i, offset: from,
+      });
+      layout.centerlineLength += to - from;
+    };
+    const overlaps = (from: number, cursor: number): boolean => {
+      if (from >= cursor - 0.01) return false;
+      errors.push({
+        code: 'FITTINGS_OVERLAP',
+        severity: 'error',
+        message: `Fittings overlap on leg ${i + 1} at ${Math.round(from)}mm`,
+      });
+      return true;
+    };
+
+    let cursor = startTrim;
+    for (const event of events.filter(e => e.segment === i)) {
+      if ('branch' in event) {
+        const branch = event.branch;
+        const across = sub(branch.direction, scale(segment.direction, dot(branch.direction, segment.direction)));
+        if (magnitude(across) < 1e-6) {
+          errors.push({
+            code: 'BRANCH_ALONG_RUN',
+            severity: 'error',
+            message: `Branch on leg ${i + 1} runs along the main run`,
+          });
+          continue;
+        }
+        const branchDirection = normalizeVector(across);
+        const teeFrame = branchFrame(frame, segment.direction, branchDirection);
+        const lengths = rules.teeLengths(
+          section, branch.section,
+          halfExtent(section, frame, branchDirection),
+          halfExtent(branch.section, teeFrame, segment.direction)
+        );
+        if (overlaps(branch.offset - lengths.run, cursor)) continue;
+
+        straight(cursor, branch.offset - lengths.run);
+        const center = at(branch.offset);
+        layout.pieces.push({
+          kind: 'tee', center, direction: segment.direction, frame, section,
+          runLength: lengths.run, branchDirection, branchFrame: teeFrame,
+          branchSection: branch.section, branchLength: lengths.branch,
+        });
+        if (branch.length > 0.5) {
+          layout.pieces.push({
+            kind: 'straight', start: add(center, scale(branchDirection, lengths.branch)),
+            direction: branchDirection, length: branch.length, frame: teeFrame,
+            section: branch.section, segment: -1, offset: 0,
+          });
+          layout.branchLength += branch.length;
+        }
+        layout.centerlineLength += 2 * lengths.run;
+        layout.fittings.tees++;
+        cursor = branch.offset + lengths.run;
+      } else {
+        const reducer = event.reducer;
+        if (reducer.section.shape !== section.shape) {
+          errors.push({
+            code: 'REDUCER_CHANGES_SHAPE',
+            severity: 'error',
+            message: `Reducer on leg ${i + 1} changes a ${section.shape} section to ${reducer.section.shape}`,
+          });
+          continue;
+        }
+        if (overlaps(reducer.offset, cursor)) continue;
+
+        const length = rules.reducerLength(section, reducer.section);
+        straight(cursor, reducer.offset);
+        layout.pieces.push({
+          kind: 'reducer', start: at(reducer.offset), direction: segment.direction,
+          length, frame, from: section, to: reducer.section,
+        });
+        layout.centerlineLength += length;
+        layout.fittings.reducers++;
+        section = reducer.section;
+        cursor = reducer.offset + length;
+      }
+    }
+
+    // Elbow into the next leg
+    const next = layout.segments[i + 1];
+    let endTrim = 0;
+    let elbow: RoutePiece | undefined;
+    if (next) {
+      const cos = Math.max(-1, Math.min(1, dot(segment.direction, next.direction)));
+      const angle = Math.acos(cos);
+      if (angle > Math.PI - MIN_BEND) {
+        errors.push({
+          code: 'ROUTE_DOUBLES_BACK',
+          severity: 'error',
+          message: `Route doubles back on itself at point ${i + 2}`,
+        });
+      } else if (angle > MIN_BEND) {
+        const normal = normalizeVector(sub(next.direction, scale(segment.direction, cos)));
+        const bendDepth = 2 * halfExtent(section, frame, normal);
+        const radius = rules.elbowRadius(section, bendDepth);
+        if (radius <= bendDepth / 2) {
+          errors.push({
+            code: 'ELBOW_TOO_TIGHT',
+            severity: 'error',
+            message: `Elbow radius ${Math.round(radius)}mm at point ${i + 2} is inside a ${Math.round(bendDepth)}mm section`,
+          });
+        }
+        endTrim = radius * Math.tan(angle / 2);
+        elbow = {
+          kind: 'elbow', start: at(segment.length - endTrim), direction: segment.direction,
+          normal, angle, radius, frame, section,
+        };
+
+        const axis = cross(segment.direction, normal);
+        const squared = Math.max(Math.abs(dot(frame.x, normal)), Math.abs(dot(frame.x, axis)));
+        if (section.shape !== 'round' && squared < Math.cos(Math.PI / 180)) {
+          warnings.push({
+            code: 'SKEWED_BEND',
+            severity: 'warning',
+            message: `Bend at point ${i + 2} is not about a section axis; the elbow is squared to the nearest axis`,
+          });
+        }
+      }
+    }
+
+    if (cursor + endTrim > segment.length + 0.01) {
+      errors.push({
+        code: 'LEG_TOO_SHORT',
+        severity: 'error',
+        message: `Leg ${i + 1} is ${Math.round(segment.length)}mm but its fittings need ${Math.round(cursor + endTrim)}mm`,
+      });
+    }
+    straight(cursor, segment.length - endTrim);
+
+    if (elbow?.kind === 'elbow') {
+      layout.pieces.push(elbow);
+      layout.centerlineLength += elbow.radius * elbow.angle;
+      layout.fittings.elbows++;
+      frame = bendFrame(frame, elbow.direction, elbow.normal, elbow.angle);
+    }
+    startTrim = endTrim;
+  });
+
+  return layout;
+}
+
+// ============================================================================
+// HANGER PLACEMENT
+// ============================================================================
+
+interface HangerStation {
+  position: Point3D;
+  direction: Vector3D;
+  frame: SectionFrame;
+  section: FlowSection;
+}
+
+interface HangerPlan {
+  type: 'rod' | 'trapeze';
+  spacing: number; // mm
+  rodSize: string;
+  rodDiameter: number; // mm
+  channel: TrapezeChannelData;
+  topElevation: number; // Z of the structure the rods hang from (mm)
+  material: string;
+  load: SupportLoadResult;
+  stations: HangerStation[];
+}
+
+const DEFAULT_DROP = 500; // Crown of the run to the structure (mm)
+const ROD_CLEARANCE = 50; // Side of the run to a trapeze rod (mm)
+const CLEVIS_BAND = { thickness: 5, width: 40 };
+
+/**
+ * Hanger stations along the horizontal runs.
+ *
+ * Each leg is split into equal bays no longer than the spacing with a
+ * hanger mid-bay; a station that lands on a fitting moves to the nearest
+ * straight length. Risers are left to riser clamps.
+ */
+function hangerStations(layout: RouteLayout, spacing: number): HangerStation[] {
+  const stations: HangerStation[] = [];
+  const straights = layout.pieces.filter(
+    (piece): piece is Extract<RoutePiece, { kind: 'straight' }> => piece.kind === 'straight'
+  );
+  const horizontal = (direction: Vector3D) => Math.abs(direction.z) < 0.5;
+
+  const place = (pieces: typeof straights, length: number) => {
+    if (pieces.length === 0) return;
+    const bays = Math.max(1, Math.ceil(length / spacing));
+    for (let j = 0; j < bays; j++) {
+      const s = ((j + 0.5) * length) / bays;
+      let best = pieces[0];
+      let bestOffset = 0;
+      let bestMiss = Infinity;
+      for (const piece of pieces) {
+        const inset = Math.min(50, piece.length / 2);
+        const offset = Math.max(piece.offset + inset, Math.min(piece.offset + piece.length - inset, s));
+        const miss = Math.abs(offset - s);
+        if (miss < bestMiss) {
+          best = piece;
+          bestOffset = offset;
+          bestMiss = miss;
+        }
+      }
+      stations.push({
+        position: add(best.start, scale(best.direction, bestOffset - best.offset)),
+        direction: best.direction,
+        frame: best.frame,
+        section: best.section,
+      });
+    }
+  };
+
+  layout.segments.forEach((segment, i) => {
+    if (!horizontal(segment.direction)) return;
+    place(straights.filter(piece => piece.segment === i), segment.length);
+  });
+  for (const piece of straights) {
+    if (piece.segment === -1 && horizontal(piece.direction)) place([piece], piece.length);
+  }
+
+  return stations;
+}
+
+function crownOf(station: HangerStation): number {
+  return station.position.z + halfExtent(station.section, station.frame, UP);
+}
+
+/**
+ * Default hanger elevation: the ceiling or beam above the run, else a
+ * standard drop above the highest crown
+ */
+function defaultHangerElevation(context: BuilderContext, stations: HangerStation[], route: Point3D[]): number {
+  const structure = context.environment?.surfaces.find(s => s.type === 'ceiling' || s.type === 'beam');
+  if (structure) return structure.position.z;
+  const crowns = stations.length > 0 ? stations.map(crownOf) : route.map(p => p.z);
+  return Math.max(...crowns) + DEFAULT_DROP;
+}
+
+/**
+ * Size the hangers for a run from the support load at the given spacing
+ */
+function planHangers(
+  context: BuilderContext,
+  layout: RouteLayout,
+  route: Point3D[],
+  options: {
+    supportType: SupportLoadInput['supportType'];
+    loadPerMeter: number;
+    spacing: number;
+    type?: 'rod' | 'trapeze';
+    elevation?: number;
+  }
+): HangerPlan {
+  const stations = layout.errors.length === 0 ? hangerStations(layout, options.spacing) : [];
+  const topElevation = options.elevation ?? defaultHangerElevation(context, stations, route);
+  const dropLength = stations.length > 0
+    ? Math.max(0, topElevation - Math.min(...stations.map(crownOf)))
+    : DEFAULT_DROP;
+
+  const load = calculateSupportLoad({
+    supportType: options.supportType,
+    loadPerMeter: options.loadPerMeter,
+    span: options.spacing,
+    dropLength,
+  });
+  const rod = threadedRodSizes.find(r => r.size === load.requiredRodSize) ?? threadedRodSizes[1];
+  const channel = trapezeChannelSizes.find(c => c.size === load.requiredChannelSize) ?? trapezeChannelSizes[2];
+  const roundRun = layout.pieces.every(piece => piece.kind !== 'straight' || piece.section.shape === 'round');
+
+  return {
+    type: options.type ?? (roundRun && load.components.rods === 1 ? 'rod' : 'trapeze'),
+    spacing: options.spacing,
+    rodSize: rod.size,
+    rodDiameter: rod.diameter,
+    channel,
+    topElevation,
+    material: context.material.includes('stainless') ? 'stainless-304' : 'galvanized-steel',
+    load,
+    stations,
+  };
+}
+
+function hangerIssues(hangers: HangerPlan): Issue[] {
+  const clashes = hangers.stations.filter(station => crownOf(station) >= hangers.topElevation);
+  if (clashes.length === 0) return [];
+  return [{
+    code: 'HANGER_BELOW_RUN',
+    severity: 'error',
+    message: `Hanger elevation ${Math.round(hangers.topElevation)}mm is below the crown of the run at ${clashes.length} hanger(s)`,
+  }];
+}
+
+// ============================================================================
+// FLOW SOLIDS
+// ============================================================================
+
+async function translated(shapeId: string, dx: number, dy: number, dz: number): Promise<string> {
+  if (dx === 0 && dy === 0 && dz === 0) return shapeId;
+  return (await kernel.translateShape(shapeId, dx, dy, dz)).shapeId;
+}
+
+async function rotated(shapeId: string, axis: 'X' | 'Y' | 'Z', angle: number): Promise<string> {
+  if (Math.abs(angle) < 1e-9) return shapeId;
+  return (await kernel.rotateShape(shapeId, axis, angle)).shapeId;
+}
+
+async function boxAt(
+  x: number, y: number, z: number,
+  width: number, depth: number, height: number
+): Promise<string> {
+  const box = await kernel.createBox(width, depth, height);
+  return translated(box.shapeId, x, y, z);
+}
+
+async function unionAll(shapeIds: string[]): Promise<string> {
+  let combined = shapeIds[0];
+  for (let i = 1; i < shapeIds.length; i++) {
+    combined = (await kernel.booleanUnion(combined, shapeIds[i])).shapeId;
+  }
+  return combined;
+}
+
+/**
+ * Move a part built in a local frame into the world: local X, Y and Z go to
+ * the given axes and the local origin to `origin`. The rotation is applied
+ * as X, then Y, then Z turns about the world axes.
+ */
+async function placeInFrame(
+  shapeId: string,
+  axes: { x: Vector3D; y: Vector3D; z: Vector3D },
+  origin: Point3D
+): Promise<string> {
+  const toDegrees = 180 / Math.PI;
+  const pitch = Math.asin(Math.max(-1, Math.min(1, -axes.x.z)));
+  let yaw = 0;
+  let roll: number;
+  if (Math.cos(pitch) > 1e-6) {
+    yaw = Math.atan2(axes.x.y, axes.x.x);
+    roll = Math.atan2(axes.y.z, axes.z.z);
+  } else {
+    roll = Math.atan2(-axes.z.y, axes.y.y);
+  }
+
+  let placed = await rotated(shapeId, 'X', roll * toDegrees);
+  placed = await rotated(placed, 'Y', pitch * toDegrees);
+  placed = await rotated(placed, 'Z', yaw * toDegrees);
+  return translated(placed, origin.x, origin.y, origin.z);
+}
+
+async function placeAlong(shapeId: string, frame: SectionFrame, direction: Vector3D, origin: Point3D): Promise<string> {
+  return placeInFrame(shapeId, { x: frame.x, y: frame.y, z: direction }, origin);
+}
+
+/**
+ * Solid section (outside or bore) running along local +Z from the origin
+ */
+async function sectionSolid(section: FlowSection, length: number, bore: boolean, throughFloor = false): Promise<string> {
+  if (section.shape === 'round') {
+    const radius = section.diameter / 2 - (bore ? section.wall : 0);
+    return (await kernel.createCylinder(radius, length)).shapeId;
+  }
+  const rect = bore ? boreRect(section, throughFloor) : outerRect(section);
+  return (await kernel.sweepProfile(rectProfile(rect), { x: 0, y: 0, z: 0 }, { x: 0, y: 0, z: length }, 'XY')).shapeId;
+}
+
+async function buildStraight(section: FlowSection, length: number): Promise<string> {
+  const ladder = section.shape === 'tray' && section.ladder;
+  const outer = await sectionSolid(section, length, false);
+  const bore = await translated(await sectionSolid(section, length + 2, true, ladder), 0, 0, -1);
+  const body = (await kernel.booleanSubtract(outer, bore)).shapeId;
+  if (!ladder || length < RUNG_WIDTH) return body;
+
+  // Rungs span between the rails at the NEMA pitch, centred on the length
+  const { width, height } = sectionSize(section);
+  const count = Math.floor((length - RUNG_WIDTH) / RUNG_PITCH) + 1;
+  const first = (length - RUNG_WIDTH - (count - 1) * RUNG_PITCH) / 2;
+  const rung = await boxAt(-width / 2 + section.wall / 2, -height / 2, first, width - section.wall, RUNG_HEIGHT, RUNG_WIDTH);
+  const rungs = count > 1 ? (await kernel.linearPattern(rung, { x: 0, y: 0, z: 1 }, count, RUNG_PITCH)).shapeId : rung;
+  return (await kernel.booleanUnion(body, rungs)).shapeId;
+}
+
+/**
+ * Elbow built about the local Z axis, entering at (R, 0, 0) heading +Y and
+ * turning toward -X, then moved onto the route.
+ *
+ * Round elbows are a torus shell cut to the bend angle. Rectangular and
+ * tray elbows revolve the section's rectangles, with the section axes
+ * squared onto the bend plane.
+ */
+async function buildElbow(piece: Extract<RoutePiece, { kind: 'elbow' }>): Promise<string> {
+  const { section, radius, angle, frame, direction, normal } = piece;
+  const axis = normalizeVector(cross(direction, normal));
+  const degrees = (angle * 180) / Math.PI;
+  let local: string;
+
+  if (section.shape === 'round') {
+    const r = section.diameter / 2;
+    const outer = await kernel.createTorus(radius, r);
+    const inner = await kernel.createTorus(radius, r - section.wall);
+    const shell = (await kernel.booleanSubtract(outer.shapeId, inner.shapeId)).shapeId;
+
+    // Wedge between the entry plane and the exit plane
+    const reach = radius + r + 1;
+    const half = () => boxAt(-reach, 0, -r - 1, 2 * reach, reach, 2 * r + 2);
+    const exitHalf = await rotated(await half(), 'Z', degrees - 180);
+    const wedge = (await kernel.booleanIntersect(await half(), exitHalf)).shapeId;
+    local = (await kernel.booleanIntersect(shell, wedge)).shapeId;
+  } else {
+    const inward = scale(normal, -1);
+    const snap = (v: Vector3D): [number, number] => {
+      const radial = dot(v, inward);
+      const axial = dot(v, axis);
+      return Math.abs(radial) >= Math.abs(axial) ? [Math.sign(radial), 0] : [0, Math.sign(axial)];
+    };
+    const [px, pz] = snap(frame.x);
+    const [qx, qz] = snap(frame.y);
+    const revolve = async (rect: SectionRect, sweep: number): Promise<string> => {
+      const corners = [[rect.p1, rect.q1], [rect.p2, rect.q2]].map(([p, q]) => ({
+        x: radius + p * px + q * qx,
+        y: p * pz + q * qz,
+      }));
+      const result = await kernel.revolveRectangle(
+        { x: Math.min(corners[0].x, corners[1].x), y: Math.min(corners[0].y, corners[1].y) },
+        { x: Math.max(corners[0].x, corners[1].x), y: Math.max(corners[0].y, corners[1].y) },
+        sweep, 'XZ', 0, 'Z'
+      );
+      return result.shapeId;
+    };
+
+    const outer = await revolve(outerRect(section), degrees);
+    const bore = await rotated(await revolve(boreRect(section), degrees + 2), 'Z', -1);
+    local = (await kernel.booleanSubtract(outer, bore)).shapeId;
+  }
+
+  const center = add(piece.start, scale(normal, radius));
+  return placeInFrame(local, { x: scale(normal, -1), y: direction, z: axis }, center);
+}
+
+/**
+ * Tee: run and branch stubs unioned, then both bores cleared so the branch
+ * opens into the run
+ */
+async function buildTee(piece: Extract<RoutePiece, { kind: 'tee' }>): Promise<string> {
+  const runStart = sub(piece.center, scale(piece.direction, piece.runLength));
+  const run = await placeAlong(
+    await sectionSolid(piece.section, 2 * piece.runLength, false),
+    piece.frame, piece.direction, runStart
+  );
+  const branch = await placeAlong(
+    await sectionSolid(piece.branchSection, piece.branchLength, false),
+    piece.branchFrame, piece.branchDirection, piece.center
+  );
+  const runBore = await placeAlong(
+    await sectionSolid(piece.section, 2 * piece.runLength + 2, true),
+    piece.frame, piece.direction, sub(runStart, piece.direction)
+  );
+  const branchBore = await placeAlong(
+    await sectionSolid(piece.branchSection, piece.branchLength + 1, true),
+    piece.branchFrame, piece.branchDirection, piece.center
+  );
+
+  let tee = (await kernel.booleanUnion(run, branch)).shapeId;
+  tee = (await kernel.booleanSubtract(tee, runBore)).shapeId;
+  return (await kernel.booleanSubtract(tee, branchBore)).shapeId;
+}
+
+/**
+ * Concentric reducer lofted between the two sections
+ */
+async function buildReducer(piece: Extract<RoutePiece, { kind: 'reducer' }>): Promise<string> {
+  const length = piece.length;
+  const outer = await kernel.loftProfiles(
+    sectionProfile(piece.from, false), sectionProfile(piece.to, false), 0, length
+  );
+
+  // Bore lofted 1mm past both ends along the same taper
+  const boreFrom = sectionProfile(piece.from, true);
+  const boreTo = sectionProfile(piece.to, true);
+  const boreAt = (t: number) => boreFrom.map((p, i) => ({
+    x: p.x + (boreTo[i].x - p.x) * t,
+    y: p.y + (boreTo[i].y - p.y) * t,
+  }));
+  const bore = await kernel.loftProfiles(boreAt(-1 / length), boreAt(1 + 1 / length), -1, length + 1);
+
+  const reducer = (await kernel.booleanSubtract(outer.shapeId, bore.shapeId)).shapeId;
+  return placeAlong(reducer, piece.frame, piece.direction, piece.start);
+}
+
+async function buildPiece(piece: RoutePiece): Promise<string> {
+  switch (piece.kind) {
+    case 'straight':
+      return placeAlong(await buildStraight(piece.section, piece.length), piece.frame, piece.direction, piece.start);
+    case 'elbow':
+      return buildElbow(piece);
+    case 'tee':
+      return buildTee(piece);
+    case 'reducer':
+      return buildReducer(piece);
+  }
+}
+
+async function verticalRod(x: number, y: number, bottom: number, top: number, diameter: number): Promise<string> {
+  const rod = await kernel.createCylinder(diameter / 2, top - bottom);
+  return translated(rod.shapeId, x, y, bottom);
+}
+
+/**
+ * One hanger: a clevis band with a single rod for round runs, otherwise a
+ * strut trapeze under the run with a rod at each end
+ */
+async function buildHanger(station: HangerStation, hangers: HangerPlan): Promise<string[]> {
+  const { position, direction, frame, section } = station;
+  const across = normalizeVector(cross(UP, direction));
+  const below = halfExtent(section, frame, UP);
+
+  if (hangers.type === 'rod' && section.shape === 'round') {
+    const r = section.diameter / 2;
+    const band = await kernel.createCylinder(r + CLEVIS_BAND.thickness, CLEVIS_BAND.width);
+    const hole = await kernel.createCylinder(r, CLEVIS_BAND.width + 2);
+    const ring = (await kernel.booleanSubtract(band.shapeId, await translated(hole.shapeId, 0, 0, -1))).shapeId;
+    const placed = await placeInFrame(
+      ring,
+      { x: across, y: cross(direction, across), z: direction },
+      sub(position, scale(direction, CLEVIS_BAND.width / 2))
+    );
+    const crown = position.z + r + CLEVIS_BAND.thickness;
+    return [placed, await verticalRod(position.x, position.y, crown, hangers.topElevation, hangers.rodDiameter)];
+  }
+
+  const { width, depth, thickness } = hangers.channel;
+  const side = halfExtent(section, frame, across) + ROD_CLEARANCE;
+  const length = 2 * (side + ROD_CLEARANCE);
+  const strut = await kernel.sweepProfile([
+    { x: -width / 2, y: 0 },
+    { x: width / 2, y: 0 },
+    { x: width / 2, y: depth },
+    { x: width / 2 - thickness, y: depth },
+    { x: width / 2 - thickness, y: thickness },
+    { x: -width / 2 + thickness, y: thickness },
+    { x: -width / 2 + thickness, y: depth },
+    { x: -width / 2, y: depth },
+  ], { x: 0, y: 0, z: 0 }, { x: 0, y: 0, z: length }, 'XY');
+
+  const base = { ...position, z: position.z - below - depth };
+  const channel = await placeInFrame(
+    strut.shapeId,
+    { x: cross(UP, across), y: UP, z: across },
+    sub(base, scale(across, length / 2))
+  );
+
+  const parts = [channel];
+  for (const s of [-1, 1]) {
+    const foot = add(base, scale(across, s * side));
+    parts.push(await verticalRod(foot.x, foot.y, base.z - 25, hangers.topElevation, hangers.rodDiameter));
+  }
+  return parts;
+}
+
+// ============================================================================
+// FLOW RUN BUILDER
+// ============================================================================
+
+interface FlowRunPlan {
+  route: Point3D[];
+  layout: RouteLayout;
+  hangers: HangerPlan;
+  errors: Issue[];
+}
+
+function routeOf(context: BuilderContext, route?: Point3D[]): Point3D[] {
+  return route && route.length >= 2 ? route : [context.pointA, context.pointB];
+}
+
+/**
+ * Shared build and validation for routed runs. Subclasses resolve their
+ * sizes and fitting rules into a route layout and hanger plan.
+ */
+abstract class FlowRunBuilder<TInput> extends BaseGeometryBuilder<TInput> {
+  protected abstract plan(context: BuilderContext, input: TInput): FlowRunPlan;
+
+  protected async buildRun(
+    context: BuilderContext,
+    plan: FlowRunPlan,
+    name: string,
+    metadata: Record<string, unknown>
+  ): Promise<GeometryResult> {
+    const issues = [...plan.errors, ...plan.layout.errors];
+    if (issues.length > 0) {
+      throw new Error(issues.map(issue => issue.message).join('; '));
+    }
+
+    const { layout, hangers } = plan;
+    const pieces: string[] = [];
+    for (const [i, piece] of layout.pieces.entries()) {
+      pieces.push(await buildPiece(piece));
+      this.reportProgress(context, 5 + ((i + 1) / layout.pieces.length) * 65, `Created ${piece.kind} ${i + 1} of ${layout.pieces.length}`);
+    }
+    const run = await unionAll(pieces);
+
+    const hangerParts: string[] = [];
+    for (const [i, station] of hangers.stations.entries()) {
+      hangerParts.push(...await buildHanger(station, hangers));
+      this.reportProgress(context, 70 + ((i + 1) / hangers.stations.length) * 15, `Created hanger ${i + 1} of ${hangers.stations.length}`);
+    }
+
+    this.reportProgress(context, 90, 'Combining run');
+
+    const hangerMetadata = {
+      count: hangers.stations.length,
+      type: hangers.type,
+      spacing: hangers.spacing,
+      rodSize: hangers.rodSize,
+      channelSize: hangers.type === 'trapeze' ? hangers.channel.size : undefined,
+      topElevation: hangers.topElevation,
+      supportLoad: hangers.load,
+    };
+    const children = [await this.createGeometryResult(run, name, context.material, {
+      centerlineLength: layout.centerlineLength,
+      fittings: layout.fittings,
+    })];
+    let shapeId = run;
+    if (hangerParts.length > 0) {
+      const hangerShape = await unionAll(hangerParts);
+      children.push(await this.createGeometryResult(hangerShape, 'Hangers', hangers.material, hangerMetadata));
+      shapeId = (await kernel.booleanUnion(run, hangerShape)).shapeId;
+    }
+
+    const result = await this.createGeometryResult(shapeId, name, context.material, {
+      ...metadata,
+      route: plan.route,
+      centerlineLength: Math.round(layout.centerlineLength),
+      branchLength: Math.round(layout.branchLength),
+      fittings: layout.fittings,
+      hangers: hangerMetadata,
+    });
+    result.children = children;
+
+    this.reportProgress(context, 100, `${name} complete`);
+
+    return result;
+  }
+
+  validate(context: BuilderContext, input: TInput): ValidationResult {
+    const plan = this.plan(context, input);
+    const errors = [...plan.errors, ...plan.layout.errors, ...hangerIssues(plan.hangers)];
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings: plan.layout.warnings,
+      clearanceChecks: [],
+    };
+  }
+}
+
+function sizeIssue(message: string): Issue {
+  return { code: 'UNKNOWN_SIZE', severity: 'error', message };
+}
+
+// ============================================================================
+// PIPE BUILDER
+// ============================================================================
+
+export interface PipeBranch extends RoutePosition {
+  direction: Vector3D;
+  length: number; // Straight pipe beyond the tee outlet (mm)
+  nominalSize?: string; // Reducing tee outlet (default run size)
+}
+
+export interface PipeReducer extends RoutePosition {
+  nominalSize: string; // Size downstream of the reducer
+}
+
+export interface PipeInput {
+  nominalSize: string; // NPS, e.g. '2"'
+  schedule: string; // e.g. 'SCH40'
+  route?: Point3D[]; // Centerline polyline (default A→B)
+  branches?: PipeBranch[];
+  reducers?: PipeReducer[];
+  filledWithWater?: boolean; // Default true
+  operatingTemperature?: number; // °C (default 20)
+  insulationThickness?: number; // mm
+  hangerType?: 'rod' | 'trapeze'; // Default from the support load
+  hangerElevation?: number; // Z of the structure above (mm)
+}
+
+/**
+ * ASME B16.9 butt-weld fitting dimensions (mm): long-radius 90° elbow
+ * centre-to-end, straight tee centre-to-end, concentric reducer length
+ */
+const buttWeldFittings: Record<string, { elbowRadius: number; teeCenter: number; reducerLength: number }> = {
+  '1/2"': { elbowRadius: 38, teeCenter: 25, reducerLength: 38 },
+  '3/4"': { elbowRadius: 29, teeCenter: 29, reducerLength: 38 },
+  '1"': { elbowRadius: 38, teeCenter: 38, reducerLength: 51 },
+  '1-1/2"': { elbowRadius: 57, teeCenter: 57, reducerLength: 64 },
+  '2"': { elbowRadius: 76, teeCenter: 64, reducerLength: 76 },
+  '3"': { elbowRadius: 114, teeCenter: 86, reducerLength: 89 },
+  '4"': { elbowRadius: 152, teeCenter: 105, reducerLength: 102 },
+  '6"': { elbowRadius: 229, teeCenter: 143, reducerLength: 140 },
+  '8"': { elbowRadius: 305, teeCenter: 178, reducerLength: 152 },
+};
+
+function pipeSection(nominalSize: string, schedule: string): FlowSection | undefined {
+  const size = pipeSizes.find(s => s.nps === nominalSize);
+  const wall = size?.schedules[schedule];
+  if (!size || !wall) return undefined;
+  return { shape: 'round', diameter: size.od, wall: wall.wall, label: `PIPE ${nominalSize} ${schedule}` };
+}
+
+function pipeFittings(section: FlowSection) {
+  const size = pipeSizes.find(s => section.shape === 'round' && s.od === section.diameter);
+  return size ? buttWeldFittings[size.nps] : undefined;
+}
+
+const pipeRules: FittingRules = {
+  elbowRadius: (section, depth) => pipeFittings(section)?.elbowRadius ?? 1.5 * depth,
+  teeLengths: (run, _branch, runHalf, branchHalf) => {
+    const center = pipeFittings(run)?.teeCenter ?? 2 * runHalf;
+    return { run: Math.max(center, branchHalf), branch: Math.max(center, runHalf) };
+  },
+  reducerLength: (from, to) => {
+    const larger = sectionSize(from).width >= sectionSize(to).width ? from : to;
+    return pipeFittings(larger)?.reducerLength ?? sectionSize(larger).width;
+  },
+};
+
+function pipeSupportMaterial(material: string): PipeSupportSpacingInput['pipeMaterial'] {
+  if (material.includes('stainless')) return 'stainless';
+  if (material.includes('copper')) return 'copper';
+  if (material.includes('pvc')) return 'pvc';
+  if (material.includes('fiberglass')) return 'fiberglass';
+  return 'carbon-steel';
+}
+
+export class PipeBuilder extends FlowRunBuilder<PipeInput> {
+  elementType = 'pipe';
+
+  protected plan(context: BuilderContext, input: PipeInput): FlowRunPlan {
+    const errors: Issue[] = [];
+    const route = routeOf(context, input.route);
+    const resolve = (nominalSize: string): FlowSection => {
+      const section = pipeSection(nominalSize, input.schedule);
+      if (section) return section;
+      errors.push(sizeIssue(`No ${input.schedule} pipe in ${nominalSize}`));
+      return { shape: 'round', diameter: 60.3, wall: 3.91, label: `PIPE ${nominalSize}` };
+    };
+
+    const section = resolve(input.nominalSize);
+    const layout = layoutRoute(
+      route,
+      section,
+      (input.branches ?? []).map(branch => ({ ...branch, section: resolve(branch.nominalSize ?? input.nominalSize) })),
+      (input.reducers ?? []).map(reducer => ({ ...reducer, section: resolve(reducer.nominalSize) })),
+      pipeRules
+    );
+
+    const schedule = pipeSizes.find(s => s.nps === input.nominalSize)?.schedules[input.schedule];
+    const filled = input.filledWithWater ?? true;
+    const spacing = calculatePipeSupportSpacing({
+      pipeOD: section.shape === 'round' ? section.diameter : 60.3,
+      pipeMaterial: pipeSupportMaterial(context.material),
+      schedule: input.schedule,
+      filledWithWater: filled,
+      operatingTemp: input.operatingTemperature ?? 20,
+      insulationThickness: input.insulationThickness,
+    });
+    const waterWeight = filled && schedule ? (Math.PI / 4) * (schedule.id / 1000) ** 2 * 1000 : 0;
+
+    return {
+      route,
+      layout,
+      errors,
+      hangers: planHangers(context, layout, route, {
+        supportType: 'pipe',
+        loadPerMeter: (schedule?.weight ?? 0) + waterWeight,
+        spacing: spacing.recommendedSpacing,
+        type: input.hangerType,
+        elevation: input.hangerElevation,
+      }),
+    };
+  }
+
+  async build(context: BuilderContext, input: PipeInput): Promise<GeometryResult> {
+    await kernel.initKernel();
+
+    this.reportProgress(context, 0, 'Starting pipe geometry generation');
+
+    const plan = this.plan(context, input);
+    const section = pipeSection(input.nominalSize, input.schedule);
+
+    return this.buildRun(context, plan, `Pipe Spool ${input.nominalSize} ${input.schedule}`, {
+      nominalSize: input.nominalSize,
+      schedule: input.schedule,
+      od: section?.shape === 'round' ? section.diameter : undefined,
+      wallThickness: section?.wall,
+    });
+  }
+}
+
+// ============================================================================
+// DUCT BUILDER
+// ============================================================================
+
+interface DuctSize {
+  width?: number; // mm (rectangular)
+  height?: number; // mm (rectangular)
+  diameter?: number; // mm (round)
+}
+
+export interface DuctBranch extends RoutePosition, DuctSize {
+  direction: Vector3D;
+  length: number; // Straight duct beyond the tee outlet (mm)
+}
+
+export interface DuctReducer extends RoutePosition, DuctSize {}
+
+export interface DuctInput extends DuctSize {
+  ductType: 'rectangular' | 'round';
+  gauge: string;
+  route?: Point3D[]; // Centerline polyline (default A→B)
+  branches?: DuctBranch[];
+  reducers?: DuctReducer[];
+  elbowRadiusRatio?: number; // Centerline radius / duct depth in the bend (default 1.5)
+  hangerType?: 'rod' | 'trapeze'; // Default rod for round, trapeze for rectangular
+  hangerElevation?: number; // Z of the structure above (mm)
+}
+
+const TRANSITION_ANGLE = (15 * Math.PI) / 180; // SMACNA maximum taper per side
+
+function ductSection(ductType: DuctInput['ductType'], size: DuctSize, wall: number): FlowSection | undefined {
+  if (ductType === 'round') {
+    if (!size.diameter) return undefined;
+    return { shape: 'round', diameter: size.diameter, wall, label: `DUCT Ø${size.diameter}` };
+  }
+  if (!size.width || !size.height) return undefined;
+  return { shape: 'rect', width: size.width, height: size.height, wall, label: `DUCT ${size.width}x${size.height}` };
+}
+
+function ductMaterial(material: string): 'galvanized-steel' | 'stainless-steel' | 'aluminum' {
+  if (material.includes('stainless')) return 'stainless-steel';
+  if (material.includes('aluminum')) return 'aluminum';
+  return 'galvanized-steel';
+}
+
+export class DuctBuilder extends FlowRunBuilder<DuctInput> {
+  elementType = 'duct';
+
+  protected plan(context: BuilderContext, input: DuctInput): FlowRunPlan {
+    const errors: Issue[] = [];
+    const route = routeOf(context, input.route);
+    const wall = ductGaugeThickness[input.gauge] ?? 0.6;
+    const resolve = (size: DuctSize, where: string): FlowSection => {
+      const section = ductSection(input.ductType, size, wall);
+      if (section) return section;
+      errors.push(sizeIssue(input.ductType === 'round'
+        ? `Round duct ${where} needs a diameter`
+        : `Rectangular duct ${where} needs a width and height`));
+      return { shape: 'rect', width: 300, height: 200, wall, label: 'DUCT' };
+    };
+
+    const section = resolve(input, 'run');
+    const ratio = input.elbowRadiusRatio ?? 1.5;
+    const rules: FittingRules = {
+      elbowRadius: (_section, depth) => ratio * depth,
+      teeLengths: (_run, _branch, runHalf, branchHalf) => ({ run: branchHalf + 75, branch: runHalf + 100 }),
+      reducerLength: (from, to) => {
+        const a = sectionSize(from);
+        const b = sectionSize(to);
+        const change = Math.max(Math.abs(a.width - b.width), Math.abs(a.height - b.height));
+        return Math.max(150, change / 2 / Math.tan(TRANSITION_ANGLE));
+      },
+    };
+    const layout = layoutRoute(
+      route,
+      section,
+      (input.branches ?? []).map((branch, i) => ({
+        ...branch,
+        section: resolve(branch.width || branch.height || branch.diameter ? branch : input, `branch ${i + 1}`),
+      })),
+      (input.reducers ?? []).map((reducer, i) => ({ ...reducer, section: resolve(reducer, `reducer ${i + 1}`) })),
+      rules
+    );
+
+    // Sheet weight per metre and SMACNA hanger spacing from the duct calculator
+    const length = Math.max(layout.centerlineLength, 1000);
+    const calc = calculateDuct({
+      ductType: input.ductType,
+      width: input.width,
+      height: input.height,
+      diameter: input.diameter,
+      length,
+      material: ductMaterial(context.material),
+      gauge: input.gauge,
+      numElbows: layout.fittings.elbows,
+      serviceType: 'supply',
+    });
+
+    return {
+      route,
+      layout,
+      errors,
+      hangers: planHangers(context, layout, route, {
+        supportType: 'duct',
+        loadPerMeter: calc.weight / (length / 1000),
+        spacing: calc.supports > 1 ? length / (calc.supports - 1) : length,
+        type: input.hangerType ?? (input.ductType === 'round' ? 'rod' : 'trapeze'),
+        elevation: input.hangerElevation,
+      }),
+    };
+  }
+
+  async build(context: BuilderContext, input: DuctInput): Promise<GeometryResult> {
+    await kernel.initKernel();
+
+    this.reportProgress(context, 0, 'Starting duct geometry generation');
+
+    const plan = this.plan(context, input);
+    const name = input.ductType === 'round'
+      ? `Duct Run Ø${input.diameter}`
+      : `Duct Run ${input.width}x${input.height}`;
+
+    return this.buildRun(context, plan, name, {
+      ductType: input.ductType,
+      width: input.width,
+      height: input.height,
+      diameter: input.diameter,
+      gauge: input.gauge,
+      sheetThickness: ductGaugeThickness[input.gauge] ?? 0.6,
+    });
+  }
+}
+
+// ============================================================================
+// CABLE TRAY BUILDER
+// ============================================================================
+
+export interface CableTrayBranch extends RoutePosition {
+  direction: Vector3D;
+  length: number; // Straight tray beyond the tee (mm)
+  width?: number; // Branch tray width (default run width)
+}
+
+export interface CableTrayReducer extends RoutePosition {
+  width: number; // Tray width downstream of the reducer (mm)
+}
+
+export interface CableTrayInput {
+  trayType: CableTrayCalculationInput['trayType'];
+  width: number; // mm
+  depth: number; // Side rail height (mm)
+  loadingClass?: CableTrayCalculationInput['loadingClass']; // Default 'medium'
+  route?: Point3D[]; // Centerline polyline (default A→B)
+  branches?: CableTrayBranch[];
+  reducers?: CableTrayReducer[];
+  bendRadius?: number; // Inside radius of elbows (mm)
+  hangerType?: 'rod' | 'trapeze'; // Default trapeze
+  hangerElevation?: number; // Z of the structure above (mm)
+}
+
+const TRAY_WALL = 2; // mm
+const TRAY_BEND_RADII = [300, 600, 900]; // Standard fitting radii (mm)
+
+/**
+ * Smallest standard fitting radius that meets the NEC 0.6 × width minimum
+ */
+function trayBendRadius(width: number): number {
+  return TRAY_BEND_RADII.find(r => r >= 0.6 * width) ?? Math.ceil((0.6 * width) / 300) * 300;
+}
+
+function traySection(trayType: CableTrayInput['trayType'], width: number, depth: number): FlowSection {
+  return {
+    shape: 'tray',
+    width,
+    depth,
+    wall: TRAY_WALL,
+    ladder: trayType === 'ladder',
+    label: `TRAY ${width}x${depth}`,
+  };
+}
+
+function trayMaterial(material: string): CableTrayCalculationInput['material'] {
+  if (material.includes('316')) return 'stainless-316';
+  if (material.includes('stainless')) return 'stainless-304';
+  if (material.includes('aluminum')) return 'aluminum';
+  if (material.includes('fiberglass')) return 'fiberglass';
+  return 'galvanized-steel';
+}
+
+export class CableTrayBuilder extends FlowRunBuilder<CableTrayInput> {
+  elementType = 'cable-tray';
+
+  protected plan(context: BuilderContext, input: CableTrayInput): FlowRunPlan {
+    const errors: Issue[] = [];
+    const route = routeOf(context, input.route);
+    const widths = [input.width, ...(input.branches ?? []).map(b => b.width ?? input.width), ...(input.reducers ?? []).map(r => r.width)];
+    for (const width of new Set(widths)) {
+      if (!cableTraySizes.some(s => s.width === width)) {
+        errors.push(sizeIssue(`No standard ${width}mm wide cable tray`));
+      }
+    }
+
+    const bendRadius = input.bendRadius ?? trayBendRadius(Math.max(...widths));
+    const rules: FittingRules = {
+      elbowRadius: (_section, depth) => bendRadius + depth / 2,
+      teeLengths: (_run, _branch, runHalf, branchHalf) => ({ run: branchHalf + bendRadius, branch: runHalf + bendRadius }),
+      reducerLength: (from, to) => Math.max(300, Math.abs(sectionSize(from).width - sectionSize(to).width)),
+    };
+    const layout = layoutRoute(
+      route,
+      traySection(input.trayType, input.width, input.depth),
+      (input.branches ?? []).map(branch => ({
+        ...branch,
+        section: traySection(input.trayType, branch.width ?? input.width, input.depth),
+      })),
+      (input.reducers ?? []).map(reducer => ({
+        ...reducer,
+        section: traySection(input.trayType, reducer.width, input.depth),
+      })),
+      rules
+    );
+
+    const calc = calculateCableTray({
+      trayType: input.trayType,
+      width: input.width,
+      depth: input.depth,
+      length: Math.max(layout.centerlineLength, 1000),
+      material: trayMaterial(context.material),
+      loadingClass: input.loadingClass ?? 'medium',
+      environment: 'indoor-dry',
+    });
+
+    return {
+      route,
+      layout,
+      errors,
+      hangers: planHangers(context, layout, route, {
+        supportType: 'cable-tray',
+        loadPerMeter: calc.trayWeight + calc.maxLoad,
+        spacing: calc.recommendedSupportSpacing,
+        type: input.hangerType ?? 'trapeze',
+        elevation: input.hangerElevation,
+      }),
+    };
+  }
+
+  async build(context: BuilderContext, input: CableTrayInput): Promise<GeometryResult> {
+    await kernel.initKernel();
+
+    this.reportProgress(context, 0, 'Starting cable tray geometry generation');
+
+    const plan = this.plan(context, input);
+
+    return this.buildRun(context, plan, `Cable Tray ${input.width}x${input.depth}`, {
+      trayType: input.trayType,
+      width: input.width,
+      depth: input.depth,
+      loadingClass: input.loadingClass ?? 'medium',
+      bendRadius: input.bendRadius ?? trayBendRadius(input.width),
+    });
+  }
+}
+
+// ============================================================================
+// HANGER BUILDER
+// ============================================================================
+
+/**
+ * A single hanger: point B is the centerline of the carried run at the
+ * hanger, point A the attachment on the structure above it.
+ */
+export interface HangerInput {
+  hangerType: 'rod' | 'trapeze';
+  runDirection?: Vector3D; // Horizontal direction of the carried run (default +X)
+  diameter?: number; // Round pipe or duct carried (mm)
+  width?: number; // Rectangular duct or tray carried (mm)
+  height?: number; // mm
+  loadPerMeter: number; // kg/m
+  span: number; // Hanger spacing (mm)
+  seismicFactor?: number;
+}
+
+export class HangerBuilder extends BaseGeometryBuilder<HangerInput> {
+  elementType: string;
+
+  constructor(
+    elementType: string,
+    private readonly supportType: SupportLoadInput['supportType']
+  ) {
+    super();
+    this.elementType = elementType;
+  }
+
+  private station(context: BuilderContext, input: HangerInput): HangerStation {
+    const direction = normalizeVector({ ...(input.runDirection ?? { x: 1, y: 0, z: 0 }), z: 0 });
+    const section: FlowSection = input.diameter
+      ? { shape: 'round', diameter: input.diameter, wall: 0, label: `Ø${input.diameter}` }
+      : { shape: 'rect', width: input.width ?? 300, height: input.height ?? 100, wall: 0, label: `${input.width}x${input.height}` };
+    return { position: context.pointB, direction, frame: uprightFrame(direction), section };
+  }
+
+  async build(context: BuilderContext, input: HangerInput): Promise<GeometryResult> {
+    await kernel.initKernel();
+
+    this.reportProgress(context, 0, 'Starting hanger geometry generation');
+
+    const station = this.station(context, input);
+    const load = calculateSupportLoad({
+      supportType: this.supportType,
+      loadPerMeter: input.loadPerMeter,
+      span: input.span,
+      dropLength: Math.max(0, context.pointA.z - crownOf(station)),
+      seismicFactor: input.seismicFactor,
+    });
+    const rod = threadedRodSizes.find(r => r.size === load.requiredRodSize) ?? threadedRodSizes[1];
+    const channel = trapezeChannelSizes.find(c => c.size === load.requiredChannelSize) ?? trapezeChannelSizes[2];
+
+    const parts = await buildHanger(station, {
+      type: input.hangerType,
+      spacing: input.span,
+      rodSize: rod.size,
+      rodDiameter: rod.diameter,
+      channel,
+      topElevation: context.pointA.z,
+      material: context.material,
+      load,
+      stations: [station],
+    });
+
+    this.reportProgress(context, 80, 'Hanger created');
+
+    const result = await this.createGeometryResult(
+      await unionAll(parts),
+      input.hangerType === 'rod' ? 'Rod Hanger' : 'Trapeze Hanger',
+      context.material,
+      {
+        hangerType: input.hangerType,
+        rodSize: rod.size,
+        rods: input.hangerType === 'rod' && station.section.shape === 'round' ? 1 : 2,
+        channelSize: input.hangerType === 'trapeze' ? channel.size : undefined,
+        supportLoad: load,
+      }
+    );
+
+    this.reportProgress(context, 100, 'Hanger geometry complete');
+
+    return result;
+  }
+
+  validate(context: BuilderContext, input: HangerInput): ValidationResult {
+    const errors: Issue[] = [];
+    const warnings: Issue[] = [];
+
+    const station = this.station(context, input);
+    if (context.pointA.z <= crownOf(station)) {
+      errors.push({
+        code: 'HANGER_BELOW_RUN',
+        severity: 'error',
+        message: `Attachment at ${Math.round(context.pointA.z)}mm is not above the crown of the run`,
+      });
+    }
+    if (input.hangerType === 'rod' && !input.diameter) {
+      warnings.push({
+        code: 'ROD_HANGER_ON_RECTANGLE',
+        severity: 'warning',
+        message: 'Rod hangers carry round runs; a trapeze is built instead',
+      });
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings,
+      clearanceChecks: [],
+    };
+  }
+}
+
+// ============================================================================
+// REGISTER BUILDERS
+// ============================================================================
+
+export function registerFlowBuilders(): void {
+  registerBuilder(new PipeBuilder());
+  registerBuilder(new DuctBuilder());
+  registerBuilder(new CableTrayBuilder());
+  registerBuilder(new HangerBuilder('pipe-support', 'pipe'));
+  registerBuilder(new HangerBuilder('duct-support', 'duct'));
+  registerBuilder(new HangerBuilder('tray-support', 'cable-tray'));
+}
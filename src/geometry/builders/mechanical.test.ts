@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { FourBarInput } from '../../knowledge/domains/mechanical';
+import { fourBarJoints, layoutShaft } from './mechanical';
+
+describe('layoutShaft', () => {
+  it('steps a shaft between two bearing seats', () => {
+    // 6205: 25 bore, 52 OD, 15 wide
+    const layout = layoutShaft({ diameter: 25, length: 200, bearingSpan: 120, bearing: '6205', keyLength: 30 });
+
+    expect(layout.errors).toEqual([]);
+    expect(layout.seats).toEqual([40, 160]);
+    expect(layout.shoulderDiameter).toBe(34);
+    expect(layout.steps).toEqual([
+      { diameter: 25, length: 47.5 },
+      { diameter: 34, length: 105 },
+      { diameter: 25, length: 32.5 },
+    ]);
+    expect(layout.keyway?.keyWidth).toBe(8);
+    expect(layout.stockDiameter).toBe(40);
+  });
+
+  it('turns a plain shaft without bearings', () => {
+    const layout = layoutShaft({ diameter: 30, length: 150, bearingSpan: 0, stockDiameter: 20 });
+
+    expect(layout.steps).toEqual([{ diameter: 30, length: 150 }]);
+    expect(layout.stockDiameter).toBe(35);
+    expect(layout.warnings.map(w => w.code)).toEqual(['STOCK_TOO_SMALL']);
+  });
+
+  it('rejects bearings and keyseats that do not fit', () => {
+    const codes = (input: Parameters<typeof layoutShaft>[0]) => layoutShaft(input).errors.map(e => e.code);
+
+    expect(codes({ diameter: 30, length: 200, bearingSpan: 120, bearing: '6205' })).toEqual(['BEARING_BORE_MISMATCH']);
+    expect(codes({ diameter: 25, length: 200, bearingSpan: 120, bearing: '6999' })).toEqual(['UNKNOWN_BEARING']);
+    expect(codes({ diameter: 25, length: 200, bearingSpan: 195, bearing: '6205' })).toEqual(['BEARING_OFF_SHAFT']);
+    expect(codes({ diameter: 25, length: 200, bearingSpan: 120, bearing: '6205', shoulderDiameter: 40 }))
+      .toEqual(['SHOULDER_FOULS_BEARING']);
+    expect(codes({ diameter: 25, length: 200, bearingSpan: 120, bearing: '6205', keyLength: 40 }))
+      .toEqual(['KEYSEAT_UNDER_BEARING']);
+  });
+});
+
+describe('fourBarJoints', () => {
+  const links: FourBarInput = { groundLink: 100, crankLink: 30, couplerLink: 100, rockerLink: 80 };
+
+  it('closes the loop with the rocker pin above the ground link', () => {
+    const joints = fourBarJoints(links, 90)!;
+
+    expect(joints.crankPivot).toEqual({ x: 0, y: 0 });
+    expect(joints.rockerPivot).toEqual({ x: 100, y: 0 });
+    expect(joints.crankPin.x).toBeCloseTo(0, 9);
+    expect(joints.crankPin.y).toBeCloseTo(30, 9);
+    expect(joints.rockerPin.y).toBeGreaterThan(0);
+    expect(Math.hypot(joints.rockerPin.x - joints.crankPin.x, joints.rockerPin.y - joints.crankPin.y)).toBeCloseTo(100, 9);
+    expect(Math.hypot(joints.rockerPin.x - 100, joints.rockerPin.y)).toBeCloseTo(80, 9);
+  });
+
+  it('returns undefined when the links cannot reach', () => {
+    expect(fourBarJoints({ ...links, couplerLink: 20, rockerLink: 20 }, 0)).toBeUndefined();
+  });
+});
@@ -0,0 +1,1032 @@
+/**
+ * MECHANICAL Domain Geometry Builders
+ *
+ * Builds 3D geometry for power transmission and mounting hardware: stepped
+ * shafts with bearing shoulders and ISO keyseats, ball bearing and coupling
+ * envelopes, bent brackets with gussets and bolt patterns, and pinned
+ * four-bar linkages. Turned parts carry their diameter steps so the same
+ * profile drives lathe toolpaths.
+ *
+ * Parts are laid out in a local frame with X running horizontally from
+ * point A toward point B, Y to the left and Z up, then turned and moved
+ * onto point A.
+ */
+
+import * as kernel from '../../core/kernel';
+import { BaseGeometryBuilder, registerBuilder } from '../builder';
+import type {
+  GeometryResult,
+  BuilderContext,
+  ValidationResult,
+} from '../types';
+import {
+  ballBearings6200Series,
+  ballBearings6300Series,
+  couplingDatabase,
+  getKeywaySize,
+} from '../../knowledge/domains/mechanical';
+import type {
+  BearingSize,
+  KeywaySize,
+  FourBarInput,
+} from '../../knowledge/domains/mechanical';
+
+type Issue = { code: string; severity: 'error' | 'warning'; message: string };
+type FlatPoint = { x: number; y: number };
+
+const CIRCLE_SEGMENTS = 48;
+const STOCK_ALLOWANCE = 3; // Bar stock over the largest turned diameter (mm)
+const PIN_CLEARANCE = 0.2; // Pivot bore over its pin, on diameter (mm)
+const LINK_GAP = 1; // Washer gap between stacked links (mm)
+const PIN_PROJECTION = 5; // Pin beyond the outer links (mm)
+
+// ============================================================================
+// SOLID HELPERS
+// ============================================================================
+
+async function translated(shapeId: string, dx: number, dy: number, dz: number): Promise<string> {
+  if (dx === 0 && dy === 0 && dz === 0) return shapeId;
+  return (await kernel.translateShape(shapeId, dx, dy, dz)).shapeId;
+}
+
+async function rotated(shapeId: string, axis: 'X' | 'Y' | 'Z', angle: number): Promise<string> {
+  if (Math.abs(angle) < 1e-9) return shapeId;
+  return (await kernel.rotateShape(shapeId, axis, angle)).shapeId;
+}
+
+async function boxAt(
+  x: number, y: number, z: number,
+  width: number, depth: number, height: number
+): Promise<string> {
+  const box = await kernel.createBox(width, depth, height);
+  return translated(box.shapeId, x, y, z);
+}
+
+async function unionAll(shapeIds: string[]): Promise<string> {
+  let combined = shapeIds[0];
+  for (let i = 1; i < shapeIds.length; i++) {
+    combined = (await kernel.booleanUnion(combined, shapeIds[i])).shapeId;
+  }
+  return combined;
+}
+
+async function subtractAll(shapeId: string, tools: string[]): Promise<string> {
+  let result = shapeId;
+  for (const tool of tools) {
+    result = (await kernel.booleanSubtract(result, tool)).shapeId;
+  }
+  return result;
+}
+
+/**
+ * Cylinder on the local X axis from x0 to x0 + length
+ */
+async function axialCylinder(radius: number, x0: number, length: number): Promise<string> {
+  const cylinder = await kernel.createCylinder(radius, length);
+  return translated(await rotated(cylinder.shapeId, 'Y', 90), x0, 0, 0);
+}
+
+async function axialTube(outerRadius: number, innerRadius: number, x0: number, length: number): Promise<string> {
+  const body = await axialCylinder(outerRadius, x0, length);
+  const bore = await axialCylinder(innerRadius, x0 - 1, length + 2);
+  return (await kernel.booleanSubtract(body, bore)).shapeId;
+}
+
+/**
+ * Cylinder across the run (along Y) through the point (x, z)
+ */
+async function transverseCylinder(radius: number, x: number, z: number, y0: number, length: number): Promise<string> {
+  const cylinder = await kernel.createCylinder(radius, length);
+  return translated(await rotated(cylinder.shapeId, 'X', -90), x, y0, z);
+}
+
+async function verticalCylinder(radius: number, x: number, y: number, z0: number, height: number): Promise<string> {
+  const cylinder = await kernel.createCylinder(radius, height);
+  return translated(cylinder.shapeId, x, y, z0);
+}
+
+/**
+ * Prism of an XY outline, `thickness` thick and centred on z = 0
+ */
+async function flatPlate(outline: FlatPoint[], thickness: number): Promise<string> {
+  const prism = await kernel.sweepProfile(outline, { x: 0, y: 0, z: -thickness / 2 }, { x: 0, y: 0, z: thickness / 2 }, 'XY');
+  return prism.shapeId;
+}
+
+/**
+ * Stand a flat plate up into the XZ plane (outline Y becomes Z) and centre
+ * its thickness on y = yCenter
+ */
+async function standUp(shapeId: string, yCenter = 0): Promise<string> {
+  return translated(await rotated(shapeId, 'X', 90), 0, yCenter, 0);
+}
+
+/**
+ * Turn a part laid out along +X toward point B and move it to point A
+ */
+async function placeAlongRun(shapeId: string, context: BuilderContext): Promise<string> {
+  const yaw = Math.atan2(context.pointB.y - context.pointA.y, context.pointB.x - context.pointA.x) * (180 / Math.PI);
+  const turned = Math.abs(yaw) > 1e-6 ? await rotated(shapeId, 'Z', yaw) : shapeId;
+  return translated(turned, context.pointA.x, context.pointA.y, context.pointA.z);
+}
+
+/**
+ * Slot outline from (0, 0) to (length, 0) with semicircular ends
+ */
+function obround(length: number, radius: number): FlatPoint[] {
+  const half = CIRCLE_SEGMENTS / 2;
+  const points: FlatPoint[] = [];
+  for (let i = 0; i <= half; i++) {
+    const a = -Math.PI / 2 + (i / half) * Math.PI;
+    points.push({ x: length + radius * Math.cos(a), y: radius * Math.sin(a) });
+  }
+  for (let i = 0; i <= half; i++) {
+    const a = Math.PI / 2 + (i / half) * Math.PI;
+    points.push({ x: radius * Math.cos(a), y: radius * Math.sin(a) });
+  }
+  return points;
+}
+
+/**
+ * Bar along X from x0 to x1 with a round end at x0, standing on z0
+ */
+async function roundEndedBar(x0: number, x1: number, width: number, z0: number, height: number): Promise<string> {
+  const r = width / 2;
+  const bar = await boxAt(x0, -r, z0, x1 - x0, width, height);
+  const end = await verticalCylinder(r, x0, 0, z0, height);
+  return (await kernel.booleanUnion(bar, end)).shapeId;
+}
+
+function findBearing(designation: string): BearingSize | undefined {
+  return [...ballBearings6200Series, ...ballBearings6300Series].find(b => b.designation === designation);
+}
+
+/**
+ * Deep groove ball bearing envelope on the X axis, with shallow seal
+ * recesses between the inner and outer rings on both faces
+ */
+async function bearingSolid(bearing: BearingSize, center: number): Promise<string> {
+  const { boreDiameter: d, outerDiameter: D, width: B } = bearing;
+  const ring = await axialTube(D / 2, d / 2, center - B / 2, B);
+  const recess = Math.min(0.5, B * 0.05);
+  const inner = d / 2 + 0.3 * (D - d) / 2;
+  const outer = D / 2 - 0.3 * (D - d) / 2;
+  return subtractAll(ring, [
+    await axialTube(outer, inner, center - B / 2 - 1, recess + 1),
+    await axialTube(outer, inner, center + B / 2 - recess, recess + 1),
+  ]);
+}
+
+function roundUp(value: number, increment: number): number {
+  return Math.ceil(value / increment - 1e-9) * increment;
+}
+
+// ============================================================================
+// SHAFT BUILDER
+// ============================================================================
+
+export interface TurnedStep {
+  diameter: number; // mm
+  length: number; // Along the axis (mm)
+}
+
+export interface ShaftInput {
+  diameter: number; // Bearing seat and journal diameter (mm)
+  length: number; // Overall length (mm)
+  bearingSpan: number; // Bearing centre to centre, centred on the shaft (mm)
+  bearing?: string; // Deep groove ball bearing designation (62xx / 63xx)
+  shoulderDiameter?: number; // Body between the bearings (mm, default from the bearing abutment)
+  keyLength?: number; // ISO keyseat at the point B (drive) end (mm, 0 for none)
+  stockDiameter?: number; // Bar stock (mm)
+}
+
+export interface ShaftLayout {
+  bearing?: BearingSize;
+  steps: TurnedStep[]; // From the point A end
+  seats: number[]; // Bearing centres from the point A end (mm)
+  shoulderDiameter: number;
+  keyway?: KeywaySize;
+  keyLength: number;
+  stockDiameter: number;
+  errors: Issue[];
+  warnings: Issue[];
+}
+
+/**
+ * Step a shaft for its bearings: seats at the bearing bore with a raised
+ * body between them for the inner rings to abut, and an end-milled keyseat
+ * on the drive journal
+ */
+export function layoutShaft(input: ShaftInput): ShaftLayout {
+  const errors: Issue[] = [];
+  const warnings: Issue[] = [];
+  const d = input.diameter;
+  const length = input.length;
+
+  const bearing = input.bearing ? findBearing(input.bearing) : undefined;
+  if (input.bearing && !bearing) {
+    errors.push({ code: 'UNKNOWN_BEARING', severity: 'error', message: `Bearing ${input.bearing} is not a 6200 or 6300 series size` });
+  }
+  if (bearing && bearing.boreDiameter !== d) {
+    errors.push({
+      code: 'BEARING_BORE_MISMATCH',
+      severity: 'error',
+      message: `Bearing ${bearing.designation} has a ${bearing.boreDiameter}mm bore; the seats are ${d}mm`,
+    });
+  }
+
+  let shoulderDiameter = d;
+  let seats: number[] = [];
+  let steps: TurnedStep[] = [{ diameter: d, length }];
+  if (bearing) {
+    const D = bearing.outerDiameter;
+    const w = bearing.width;
+    shoulderDiameter = input.shoulderDiameter ?? Math.ceil(d + 0.3 * (D - d));
+    if (shoulderDiameter <= d) {
+      errors.push({ code: 'SHOULDER_TOO_SMALL', severity: 'error', message: `Shoulder Ø${shoulderDiameter}mm must exceed the ${d}mm seats` });
+    } else if (shoulderDiameter > (d + D) / 2) {
+      errors.push({
+        code: 'SHOULDER_FOULS_BEARING',
+        severity: 'error',
+        message: `Shoulder Ø${shoulderDiameter}mm reaches past the ${bearing.designation} inner ring (max Ø${((d + D) / 2).toFixed(1)}mm)`,
+      });
+    }
+
+    const first = (length - input.bearingSpan) / 2;
+    seats = [first, first + input.bearingSpan];
+    if (first - w / 2 < 0) {
+      errors.push({
+        code: 'BEARING_OFF_SHAFT',
+        severity: 'error',
+        message: `A ${input.bearingSpan}mm bearing span leaves no room for ${w}mm wide bearings on a ${length}mm shaft`,
+      });
+    }
+    if (input.bearingSpan <= w) {
+      errors.push({ code: 'BEARINGS_OVERLAP', severity: 'error', message: `Bearing span ${input.bearingSpan}mm is not more than the ${w}mm bearing width` });
+    }
+    steps = [
+      { diameter: d, length: first + w / 2 },
+      { diameter: shoulderDiameter, length: input.bearingSpan - w },
+      { diameter: d, length: length - seats[1] - w / 2 },
+    ].filter(step => step.length > 0);
+  }
+
+  let keyLength = input.keyLength ?? 0;
+  let keyway: KeywaySize | undefined;
+  if (keyLength > 0) {
+    keyway = getKeywaySize(d);
+    if (!keyway) {
+      warnings.push({ code: 'KEYWAY_SIZE_UNAVAILABLE', severity: 'warning', message: `No ISO keyway for a ${d}mm shaft; keyseat omitted` });
+      keyLength = 0;
+    } else {
+      const journal = bearing ? length - seats[1] - bearing.width / 2 : length;
+      if (keyLength > journal) {
+        errors.push({
+          code: 'KEYSEAT_UNDER_BEARING',
+          severity: 'error',
+          message: `${keyLength}mm keyseat runs past the ${journal.toFixed(0)}mm drive journal into the bearing seat`,
+        });
+      } else if (keyLength < keyway.keyWidth * 2) {
+        errors.push({ code: 'KEYSEAT_TOO_SHORT', severity: 'error', message: `${keyLength}mm is too short for a ${keyway.keyWidth}mm wide key` });
+      } else if (keyLength < d) {
+        warnings.push({
+          code: 'SHORT_KEY',
+          severity: 'warning',
+          message: `${keyLength}mm key is shorter than the ${d}mm shaft; check key shear and bearing stress`,
+        });
+      }
+    }
+  }
+
+  const largest = Math.max(...steps.map(step => step.diameter));
+  const required = largest + STOCK_ALLOWANCE;
+  let stockDiameter = roundUp(required, 5);
+  if (input.stockDiameter !== undefined) {
+    if (input.stockDiameter >= required) {
+      stockDiameter = input.stockDiameter;
+    } else {
+      warnings.push({
+        code: 'STOCK_TOO_SMALL',
+        severity: 'warning',
+        message: `Ø${input.stockDiameter}mm stock cannot turn the Ø${largest}mm shoulder; using Ø${stockDiameter}mm`,
+      });
+    }
+  }
+
+  return { bearing, steps, seats, shoulderDiameter, keyway, keyLength, stockDiameter, errors, warnings };
+}
+
+export class ShaftBuilder extends BaseGeometryBuilder<ShaftInput> {
+  elementType = 'shaft';
+
+  async build(context: BuilderContext, input: ShaftInput): Promise<GeometryResult> {
+    await kernel.initKernel();
+
+    this.reportProgress(context, 0, 'Starting shaft generation');
+
+    const layout = layoutShaft(input);
+    if (layout.errors.length > 0) {
+      throw new Error(layout.errors.map(issue => issue.message).join('; '));
+    }
+
+    this.reportProgress(context, 10, 'Turning shaft steps');
+
+    const steps: string[] = [];
+    let x = 0;
+    for (const step of layout.steps) {
+      steps.push(await axialCylinder(step.diameter / 2, x, step.length));
+      x += step.length;
+    }
+    let shaft = await unionAll(steps);
+
+    // End-milled keyseat, open at the drive end
+    let key: string | undefined;
+    if (layout.keyway && layout.keyLength > 0) {
+      this.reportProgress(context, 40, 'Cutting keyseat');
+      const { keyWidth, keyHeight, shaftDepth } = layout.keyway;
+      const start = input.length - layout.keyLength + keyWidth / 2;
+      const bottom = input.diameter / 2 - shaftDepth;
+      const seat = await roundEndedBar(start, input.length + 1, keyWidth, bottom, shaftDepth + 1);
+      shaft = (await kernel.booleanSubtract(shaft, seat)).shapeId;
+      key = await placeAlongRun(await roundEndedBar(start, input.length, keyWidth, bottom, keyHeight), context);
+    }
+    shaft = await placeAlongRun(shaft, context);
+
+    this.reportProgress(context, 60, 'Fitting bearings');
+
+    const bearings: string[] = [];
+    if (layout.bearing) {
+      for (const seat of layout.seats) {
+        bearings.push(await placeAlongRun(await bearingSolid(layout.bearing, seat), context));
+      }
+    }
+
+    this.reportProgress(context, 85, 'Finalizing geometry');
+
+    const keyway = layout.keyway && layout.keyLength > 0 ? { ...layout.keyway, length: layout.keyLength } : undefined;
+    const children = [await this.createGeometryResult(shaft, 'Shaft', context.material, {
+      turnedProfile: layout.steps,
+      stockDiameter: layout.stockDiameter,
+      keyway,
+    })];
+    for (const [i, bearing] of bearings.entries()) {
+      children.push(await this.createGeometryResult(bearing, `Bearing ${i + 1} (${layout.bearing!.designation})`, 'carbon-steel', {
+        designation: layout.bearing!.designation,
+      }));
+    }
+    if (key) {
+      children.push(await this.createGeometryResult(key, 'Key', 'carbon-steel', {
+        keyWidth: layout.keyway!.keyWidth,
+        keyHeight: layout.keyway!.keyHeight,
+        length: layout.keyLength,
+      }));
+    }
+
+    const shapeId = await unionAll([shaft, ...bearings, ...(key ? [key] : [])]);
+    const result = await this.createGeometryResult(shapeId, 'Shaft Assembly', context.material, {
+      diameter: input.diameter,
+      length: input.length,
+      shoulderDiameter: layout.shoulderDiameter,
+      bearing: layout.bearing?.designation,
+      bearingCenters: layout.seats,
+      turnedProfile: layout.steps,
+      stockDiameter: layout.stockDiameter,
+      keyway,
+    });
+    result.children = children;
+
+    this.reportProgress(context, 100, 'Shaft complete');
+
+    return result;
+  }
+
+  validate(_context: BuilderContext, input: ShaftInput): ValidationResult {
+    const errors: Issue[] = [];
+    if (input.diameter <= 0 || input.length <= 0) {
+      errors.push({ code: 'INVALID_DIMENSIONS', severity: 'error', message: 'Shaft diameter and length must be positive' });
+      return { valid: false, errors, warnings: [], clearanceChecks: [] };
+    }
+
+    const layout = layoutShaft(input);
+    errors.push(...layout.errors);
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings: layout.warnings,
+      clearanceChecks: [],
+    };
+  }
+}
+
+// ============================================================================
+// BEARING BUILDER
+// ============================================================================
+
+export interface BearingInput {
+  designation: string; // Deep groove ball bearing (62xx / 63xx)
+  position?: number; // Bearing centre along the run from point A (mm)
+}
+
+export class BearingBuilder extends BaseGeometryBuilder<BearingInput> {
+  elementType = 'bearing';
+
+  async build(context: BuilderContext, input: BearingInput): Promise<GeometryResult> {
+    await kernel.initKernel();
+
+    const bearing = findBearing(input.designation);
+    if (!bearing) {
+      throw new Error(`Bearing ${input.designation} is not a 6200 or 6300 series size`);
+    }
+
+    this.reportProgress(context, 0, `Creating ${bearing.designation} envelope`);
+
+    const shapeId = await placeAlongRun(await bearingSolid(bearing, input.position ?? 0), context);
+
+    const result = await this.createGeometryResult(shapeId, `Bearing ${bearing.designation}`, context.material, {
+      designation: bearing.designation,
+      boreDiameter: bearing.boreDiameter,
+      outerDiameter: bearing.outerDiameter,
+      width: bearing.width,
+      catalogWeight: bearing.weight,
+    });
+
+    this.reportProgress(context, 100, 'Bearing complete');
+
+    return result;
+  }
+
+  validate(_context: BuilderContext, input: BearingInput): ValidationResult {
+    const errors: Issue[] = [];
+    if (!findBearing(input.designation)) {
+      errors.push({ code: 'UNKNOWN_BEARING', severity: 'error', message: `Bearing ${input.designation} is not a 6200 or 6300 series size` });
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings: [],
+      clearanceChecks: [],
+    };
+  }
+}
+
+// ============================================================================
+// COUPLING BUILDER
+// ============================================================================
+
+export interface CouplingInput {
+  couplingType: string; // couplingDatabase type
+  boreDrive: number; // mm
+  boreDriven: number; // mm
+  hubDiameter: number; // mm
+  hubLength: number; // Each hub (mm)
+  elementLength: number; // Flexible element or spacer between the hubs (mm)
+  keyways?: boolean; // ISO hub keyways, broached through each bore
+}
+
+export class CouplingBuilder extends BaseGeometryBuilder<CouplingInput> {
+  elementType = 'coupling';
+
+  async build(context: BuilderContext, input: CouplingInput): Promise<GeometryResult> {
+    await kernel.initKernel();
+
+    this.reportProgress(context, 0, 'Starting coupling generation');
+
+    const { hubDiameter, hubLength, elementLength } = input;
+    const hubs: Array<{ name: string; bore: number; x0: number }> = [
+      { name: 'Drive Hub', bore: input.boreDrive, x0: 0 },
+      { name: 'Driven Hub', bore: input.boreDriven, x0: hubLength + elementLength },
+    ];
+
+    const children: GeometryResult[] = [];
+    const shapes: string[] = [];
+    for (const [i, hub] of hubs.entries()) {
+      let shapeId = await axialTube(hubDiameter / 2, hub.bore / 2, hub.x0, hubLength);
+      const keyway = input.keyways ? getKeywaySize(hub.bore) : undefined;
+      if (keyway) {
+        const slot = await boxAt(hub.x0 - 1, -keyway.keyWidth / 2, 0, hubLength + 2, keyway.keyWidth, hub.bore / 2 + keyway.hubDepth);
+        shapeId = (await kernel.booleanSubtract(shapeId, slot)).shapeId;
+      }
+      shapeId = await placeAlongRun(shapeId, context);
+      shapes.push(shapeId);
+      children.push(await this.createGeometryResult(shapeId, hub.name, context.material, {
+        turnedProfile: [{ diameter: hubDiameter, length: hubLength }],
+        boreDiameter: hub.bore,
+        keyway,
+      }));
+      this.reportProgress(context, 10 + i * 40, `Created ${hub.name.toLowerCase()}`);
+    }
+
+    // Spider, disc pack or sleeve between the hubs, as an envelope
+    const elastomer = input.couplingType.startsWith('flexible-jaw');
+    const element = await placeAlongRun(
+      await axialTube(hubDiameter / 2, Math.max(input.boreDrive, input.boreDriven) / 2, hubLength, elementLength),
+      context
+    );
+    shapes.push(element);
+    children.splice(1, 0, await this.createGeometryResult(
+      element, elastomer ? 'Flexible Element' : 'Coupling Element', elastomer ? 'plastic-hdpe' : context.material,
+      { couplingType: input.couplingType }
+    ));
+
+    this.reportProgress(context, 90, 'Finalizing geometry');
+
+    const result = await this.createGeometryResult(await unionAll(shapes), `Coupling (${input.couplingType})`, context.material, {
+      couplingType: input.couplingType,
+      boreDrive: input.boreDrive,
+      boreDriven: input.boreDriven,
+      hubDiameter,
+      overallLength: 2 * hubLength + elementLength,
+    });
+    result.children = children;
+
+    this.reportProgress(context, 100, 'Coupling complete');
+
+    return result;
+  }
+
+  validate(_context: BuilderContext, input: CouplingInput): ValidationResult {
+    const errors: Issue[] = [];
+    const warnings: Issue[] = [];
+
+    const data = couplingDatabase.find(c => c.type === input.couplingType);
+    if (!data) {
+      errors.push({ code: 'UNKNOWN_COUPLING', severity: 'error', message: `Unknown coupling type: ${input.couplingType}` });
+    }
+
+    for (const [side, bore] of [['Drive', input.boreDrive], ['Driven', input.boreDriven]] as const) {
+      if (data && (bore < data.minBore || bore > data.maxBore)) {
+        errors.push({
+          code: 'BORE_OUT_OF_RANGE',
+          severity: 'error',
+          message: `${side} bore ${bore}mm is outside the ${data.minBore}-${data.maxBore}mm range of a ${data.type} coupling`,
+        });
+      }
+      if (bore >= input.hubDiameter) {
+        errors.push({ code: 'BORE_EXCEEDS_HUB', severity: 'error', message: `${side} bore ${bore}mm does not fit a Ø${input.hubDiameter}mm hub` });
+        continue;
+      }
+      const keyway = input.keyways ? getKeywaySize(bore) : undefined;
+      if (input.keyways && !keyway) {
+        warnings.push({ code: 'KEYWAY_SIZE_UNAVAILABLE', severity: 'warning', message: `No ISO keyway for a ${bore}mm bore; ${side.toLowerCase()} hub left plain` });
+      }
+      const wall = (input.hubDiameter - bore) / 2 - (keyway?.hubDepth ?? 0);
+      if (wall < bore / 4) {
+        warnings.push({
+          code: 'THIN_HUB_WALL',
+          severity: 'warning',
+          message: `${side} hub leaves ${wall.toFixed(1)}mm of wall over the keyway on a ${bore}mm bore`,
+        });
+      }
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings,
+      clearanceChecks: [],
+    };
+  }
+}
+
+// ============================================================================
+// BRACKET BUILDER
+// ============================================================================
+
+export interface BracketInput {
+  bracketType: 'l-bracket' | 'angle-bracket' | 'z-bracket';
+  legALength: number; // Outside; against the mounting surface on L brackets, flanges on Z brackets (mm)
+  legBLength: number; // Outside; projecting leg on L brackets, web height on Z brackets (mm)
+  legWidth: number; // mm
+  thickness: number; // mm
+  bendRadius?: number; // Inside (mm, default one thickness)
+  holePattern: 'none' | 'single' | 'double' | 'slotted';
+  holeDiameter: number; // mm
+  gussetSize?: number; // Gusset legs from the inside faces, L brackets only (mm, 0 for none)
+}
+
+/**
+ * A flat leg that takes fasteners: its plate normal, the outside face on
+ * that axis, and the flat run clear of bends and gussets along the other
+ */
+interface BracketLeg {
+  name: string;
+  normal: 'x' | 'z';
+  face: number;
+  span: [number, number];
+}
+
+interface BracketHole {
+  leg: BracketLeg;
+  position: number; // Along the leg's span (mm)
+}
+
+interface BracketLayout {
+  midline: FlatPoint[]; // Mid-thickness polyline in the XZ plane (y is Z)
+  legs: BracketLeg[];
+  holes: BracketHole[];
+  gussetSize: number;
+  errors: Issue[];
+  warnings: Issue[];
+}
+
+function layoutBracket(input: BracketInput): BracketLayout {
+  const errors: Issue[] = [];
+  const warnings: Issue[] = [];
+  const t = input.thickness;
+  const r = input.bendRadius ?? t;
+  const a = input.legALength;
+  const b = input.legBLength;
+  let gussetSize = input.gussetSize ?? 0;
+
+  let midline: FlatPoint[];
+  let legs: BracketLeg[];
+  if (input.bracketType === 'z-bracket') {
+    // Lower flange toward point A, web rising, upper flange toward point B
+    midline = [
+      { x: 0, y: t / 2 },
+      { x: a - t / 2, y: t / 2 },
+      { x: a - t / 2, y: b - t / 2 },
+      { x: 2 * a - t, y: b - t / 2 },
+    ];
+    legs = [
+      { name: 'lower flange', normal: 'z', face: 0, span: [0, a - t - r] },
+      { name: 'upper flange', normal: 'z', face: b - t, span: [a + r, 2 * a - t] },
+    ];
+    if (gussetSize > 0) {
+      warnings.push({ code: 'GUSSET_IGNORED', severity: 'warning', message: 'Gussets are only fitted to L and angle brackets' });
+      gussetSize = 0;
+    }
+  } else {
+    // Leg A standing against the mounting surface, leg B projecting along the run
+    midline = [
+      { x: t / 2, y: a },
+      { x: t / 2, y: t / 2 },
+      { x: b, y: t / 2 },
+    ];
+    const clear = Math.max(t + r, t + gussetSize);
+    legs = [
+      { name: 'leg A', normal: 'x', face: 0, span: [clear, a] },
+      { name: 'leg B', normal: 'z', face: 0, span: [clear, b] },
+    ];
+    if (gussetSize > 0 && gussetSize >= Math.min(a, b) - t) {
+      errors.push({
+        code: 'GUSSET_TOO_LARGE',
+        severity: 'error',
+        message: `${gussetSize}mm gusset does not fit inside ${a}×${b}mm legs`,
+      });
+    }
+  }
+
+  if (r < 0 || Math.min(a, b) <= t + r) {
+    errors.push({
+      code: 'LEG_TOO_SHORT',
+      severity: 'error',
+      message: `Legs must be longer than the ${(t + r).toFixed(1)}mm thickness plus bend radius`,
+    });
+  }
+
+  // Holes spaced evenly along each fastened leg, centred across its width
+  const perLeg = input.holePattern === 'double' ? 2 : input.holePattern === 'none' ? 0 : 1;
+  const slot = input.holePattern === 'slotted' ? input.holeDiameter : 0;
+  const edge = 1.5 * input.holeDiameter;
+  const holes: BracketHole[] = [];
+  for (const leg of legs) {
+    const [start, end] = leg.span;
+    for (let i = 0; i < perLeg; i++) {
+      const position = start + (end - start) * (i + 1) / (perLeg + 1);
+      holes.push({ leg, position });
+    }
+    if (perLeg > 0 && (end - start) / (perLeg + 1) - slot / 2 < edge) {
+      errors.push({
+        code: 'HOLE_EDGE_DISTANCE',
+        severity: 'error',
+        message: `${(end - start).toFixed(0)}mm of flat ${leg.name} cannot take ${perLeg} × Ø${input.holeDiameter}mm ${slot > 0 ? 'slot' : 'hole'}${perLeg > 1 ? 's' : ''} with ${edge.toFixed(0)}mm edge distance`,
+      });
+    }
+  }
+
+  return { midline, legs, holes, gussetSize, errors, warnings };
+}
+
+/**
+ * Outline of a strip bent along a mid-thickness polyline: each corner is
+ * rounded to the inside bend radius and both faces are offset from the
+ * mid-line
+ */
+function bentStripOutline(midline: FlatPoint[], thickness: number, insideRadius: number): FlatPoint[] {
+  const midRadius = insideRadius + thickness / 2;
+  const directions = midline.slice(1).map((p, i) => {
+    const dx = p.x - midline[i].x;
+    const dy = p.y - midline[i].y;
+    const length = Math.hypot(dx, dy);
+    return { x: dx / length, y: dy / length };
+  });
+  const normals = directions.map(d => ({ x: -d.y, y: d.x }));
+
+  const side = (offset: number): FlatPoint[] => {
+    const points: FlatPoint[] = [{ x: midline[0].x + normals[0].x * offset, y: midline[0].y + normals[0].y * offset }];
+    for (let i = 1; i < midline.length - 1; i++) {
+      const d0 = directions[i - 1];
+      const d1 = directions[i];
+      const turn = Math.atan2(d0.x * d1.y - d0.y * d1.x, d0.x * d1.x + d0.y * d1.y);
+      const sign = Math.sign(turn);
+      const tangent = midRadius * Math.tan(Math.abs(turn) / 2);
+      const center = {
+        x: midline[i].x - d0.x * tangent + normals[i - 1].x * midRadius * sign,
+        y: midline[i].y - d0.y * tangent + normals[i - 1].y * midRadius * sign,
+      };
+      const radius = midRadius - sign * offset;
+      const start = Math.atan2(-normals[i - 1].y * sign, -normals[i - 1].x * sign);
+      const steps = Math.max(2, Math.ceil(Math.abs(turn) / (2 * Math.PI) * CIRCLE_SEGMENTS));
+      for (let k = 0; k <= steps; k++) {
+        const angle = start + turn * k / steps;
+        points.push({ x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) });
+      }
+    }
+    const last = midline[midline.length - 1];
+    const n = normals[normals.length - 1];
+    points.push({ x: last.x + n.x * offset, y: last.y + n.y * offset });
+    return points;
+  };
+
+  return [...side(thickness / 2), ...side(-thickness / 2).reverse()];
+}
+
+export class BracketBuilder extends BaseGeometryBuilder<BracketInput> {
+  elementType = 'bracket';
+
+  async build(context: BuilderContext, input: BracketInput): Promise<GeometryResult> {
+    await kernel.initKernel();
+
+    this.reportProgress(context, 0, 'Starting bracket generation');
+
+    const layout = layoutBracket(input);
+    if (layout.errors.length > 0) {
+      throw new Error(layout.errors.map(issue => issue.message).join('; '));
+    }
+
+    const t = input.thickness;
+    const w = input.legWidth;
+    const outline = bentStripOutline(layout.midline, t, input.bendRadius ?? t);
+    let body = await standUp(await flatPlate(outline, w));
+
+    this.reportProgress(context, 30, 'Cutting bolt pattern');
+
+    const radius = input.holeDiameter / 2;
+    const slot = input.holePattern === 'slotted' ? input.holeDiameter : 0;
+    const cutters: string[] = [];
+    for (const { leg, position } of layout.holes) {
+      if (leg.normal === 'z') {
+        cutters.push(slot > 0
+          ? await roundEndedBar(position - slot / 2, position + slot / 2, input.holeDiameter, leg.face - 1, t + 2)
+          : await verticalCylinder(radius, position, 0, leg.face - 1, t + 2));
+        if (slot > 0) cutters.push(await verticalCylinder(radius, position + slot / 2, 0, leg.face - 1, t + 2));
+      } else {
+        // Leg A slots run up the leg
+        const hole = await axialCylinder(radius, leg.face - 1, t + 2);
+        if (slot > 0) {
+          const lower = await translated(hole, 0, 0, position - slot / 2);
+          const upper = await translated(hole, 0, 0, position + slot / 2);
+          const web = await boxAt(leg.face - 1, -radius, position - slot / 2, t + 2, input.holeDiameter, slot);
+          cutters.push(await unionAll([lower, upper, web]));
+        } else {
+          cutters.push(await translated(hole, 0, 0, position));
+        }
+      }
+    }
+    body = await subtractAll(body, cutters);
+
+    const children: GeometryResult[] = [];
+    let gusset: string | undefined;
+    if (layout.gussetSize > 0) {
+      this.reportProgress(context, 60, 'Adding gusset');
+      const g = layout.gussetSize;
+      gusset = await placeAlongRun(await standUp(await flatPlate([
+        { x: t, y: t },
+        { x: t + g, y: t },
+        { x: t, y: t + g },
+      ], t)), context);
+    }
+    body = await placeAlongRun(body, context);
+
+    this.reportProgress(context, 85, 'Finalizing geometry');
+
+    const holes = layout.holes.map(({ leg, position }) => ({
+      leg: leg.name,
+      position: Math.round(position * 10) / 10,
+      diameter: input.holeDiameter,
+      slotLength: slot > 0 ? slot + input.holeDiameter : undefined,
+    }));
+    children.push(await this.createGeometryResult(body, 'Bracket Body', context.material, { thickness: t, holes }));
+    if (gusset) {
+      children.push(await this.createGeometryResult(gusset, 'Gusset Plate', context.material, { thickness: t, size: layout.gussetSize }));
+    }
+
+    const shapeId = gusset ? (await kernel.booleanUnion(body, gusset)).shapeId : body;
+    const result = await this.createGeometryResult(shapeId, `Bracket (${input.bracketType})`, context.material, {
+      bracketType: input.bracketType,
+      thickness: t,
+      bendRadius: input.bendRadius ?? t,
+      legWidth: w,
+      holePattern: input.holePattern,
+      holes,
+      gussetSize: layout.gussetSize,
+    });
+    result.children = children;
+
+    this.reportProgress(context, 100, 'Bracket complete');
+
+    return result;
+  }
+
+  validate(_context: BuilderContext, input: BracketInput): ValidationResult {
+    const layout = layoutBracket(input);
+
+    return {
+      valid: layout.errors.length === 0,
+      errors: layout.errors,
+      warnings: layout.warnings,
+      clearanceChecks: [],
+    };
+  }
+}
+
+// ============================================================================
+// LINKAGE BUILDER
+// ============================================================================
+
+export interface FourBarJoints {
+  crankPivot: FlatPoint; // O2, at point A
+  crankPin: FlatPoint; // Crank-coupler joint
+  rockerPin: FlatPoint; // Coupler-rocker joint
+  rockerPivot: FlatPoint; // O4, along the run
+}
+
+/**
+ * Joint positions in the vertical plane through the ground link (x along
+ * the run, y up) at a crank angle, in the open configuration with the
+ * coupler-rocker joint above the ground link. Undefined when the links
+ * cannot close at that angle.
+ */
+export function fourBarJoints(links: FourBarInput, inputAngle: number): FourBarJoints | undefined {
+  const theta = inputAngle * Math.PI / 180;
+  const o2 = { x: 0, y: 0 };
+  const o4 = { x: links.groundLink, y: 0 };
+  const p = { x: links.crankLink * Math.cos(theta), y: links.crankLink * Math.sin(theta) };
+  const dx = o4.x - p.x;
+  const dy = o4.y - p.y;
+  const d = Math.hypot(dx, dy);
+  if (d === 0 || d > links.couplerLink + links.rockerLink || d < Math.abs(links.couplerLink - links.rockerLink)) {
+    return undefined;
+  }
+
+  const a = (links.couplerLink ** 2 - links.rockerLink ** 2 + d * d) / (2 * d);
+  const h = Math.sqrt(Math.max(0, links.couplerLink ** 2 - a * a));
+  const mx = p.x + a * dx / d;
+  const my = p.y + a * dy / d;
+  const q1 = { x: mx + h * dy / d, y: my - h * dx / d };
+  const q2 = { x: mx - h * dy / d, y: my + h * dx / d };
+
+  return { crankPivot: o2, crankPin: p, rockerPin: q1.y >= q2.y ? q1 : q2, rockerPivot: o4 };
+}
+
+export interface LinkageInput extends FourBarInput {
+  inputAngle: number; // Crank angle from the ground link (degrees)
+  barWidth: number; // Link plate width (mm)
+  barThickness: number; // Link plate thickness (mm)
+  pinDiameter: number; // mm
+}
+
+export class LinkageBuilder extends BaseGeometryBuilder<LinkageInput> {
+  elementType = 'linkage';
+
+  async build(context: BuilderContext, input: LinkageInput): Promise<GeometryResult> {
+    await kernel.initKernel();
+
+    this.reportProgress(context, 0, 'Starting linkage generation');
+
+    const joints = fourBarJoints(input, input.inputAngle);
+    if (!joints) {
+      throw new Error(`Linkage cannot assemble at a ${input.inputAngle}° crank angle`);
+    }
+
+    // Ground behind, crank and rocker in the middle layer, coupler in front
+    const pitch = input.barThickness + LINK_GAP;
+    const bore = input.pinDiameter + PIN_CLEARANCE;
+    const links: Array<{ name: string; from: FlatPoint; to: FlatPoint; layer: number }> = [
+      { name: 'Ground Link', from: joints.crankPivot, to: joints.rockerPivot, layer: -1 },
+      { name: 'Crank', from: joints.crankPivot, to: joints.crankPin, layer: 0 },
+      { name: 'Coupler', from: joints.crankPin, to: joints.rockerPin, layer: 1 },
+      { name: 'Rocker', from: joints.rockerPin, to: joints.rockerPivot, layer: 0 },
+    ];
+
+    const children: GeometryResult[] = [];
+    const shapes: string[] = [];
+    for (const [i, link] of links.entries()) {
+      const length = Math.hypot(link.to.x - link.from.x, link.to.y - link.from.y);
+      const angle = Math.atan2(link.to.y - link.from.y, link.to.x - link.from.x) * (180 / Math.PI);
+      const plate = await flatPlate(obround(length, input.barWidth / 2), input.barThickness);
+      const bores: string[] = [];
+      for (const x of [0, length]) {
+        const cylinder = await kernel.createCylinder(bore / 2, input.barThickness + 2);
+        bores.push(await translated(cylinder.shapeId, x, 0, -input.barThickness / 2 - 1));
+      }
+      let shapeId = await subtractAll(plate, bores);
+      shapeId = await standUp(await rotated(shapeId, 'Z', angle), link.layer * pitch);
+      shapeId = await placeAlongRun(await translated(shapeId, link.from.x, 0, link.from.y), context);
+      shapes.push(shapeId);
+      children.push(await this.createGeometryResult(shapeId, link.name, context.material, {
+        thickness: input.barThickness,
+        pivotCenters: Math.round(length * 10) / 10,
+        boreDiameter: bore,
+      }));
+      this.reportProgress(context, 5 + (i + 1) * 15, `Created ${link.name.toLowerCase()}`);
+    }
+
+    // Each pin spans the two links it joins
+    const pins: Array<[FlatPoint, number, number]> = [
+      [joints.crankPivot, -1, 0],
+      [joints.crankPin, 0, 1],
+      [joints.rockerPin, 1, 0],
+      [joints.rockerPivot, 0, -1],
+    ];
+    for (const [i, [joint, l0, l1]] of pins.entries()) {
+      const y0 = Math.min(l0, l1) * pitch - input.barThickness / 2 - PIN_PROJECTION;
+      const y1 = Math.max(l0, l1) * pitch + input.barThickness / 2 + PIN_PROJECTION;
+      const pin = await placeAlongRun(await transverseCylinder(input.pinDiameter / 2, joint.x, joint.y, y0, y1 - y0), context);
+      shapes.push(pin);
+      children.push(await this.createGeometryResult(pin, `Pivot Pin ${i + 1}`, 'carbon-steel', {
+        diameter: input.pinDiameter,
+        length: y1 - y0,
+      }));
+    }
+
+    this.reportProgress(context, 90, 'Finalizing geometry');
+
+    const result = await this.createGeometryResult(await unionAll(shapes), 'Four-Bar Linkage', context.material, {
+      inputAngle: input.inputAngle,
+      joints,
+      pinDiameter: input.pinDiameter,
+      boreDiameter: bore,
+    });
+    result.children = children;
+
+    this.reportProgress(context, 100, 'Linkage complete');
+
+    return result;
+  }
+
+  validate(_context: BuilderContext, input: LinkageInput): ValidationResult {
+    const errors: Issue[] = [];
+    const warnings: Issue[] = [];
+    const lengths = [input.groundLink, input.crankLink, input.couplerLink, input.rockerLink];
+
+    if (lengths.some(length => !(length > 0))) {
+      errors.push({ code: 'INVALID_LINK_LENGTH', severity: 'error', message: 'All four link lengths must be positive' });
+    } else if (!fourBarJoints(input, input.inputAngle)) {
+      errors.push({
+        code: 'LINKAGE_CANNOT_ASSEMBLE',
+        severity: 'error',
+        message: `Coupler and rocker cannot close the loop at a ${input.inputAngle}° crank angle`,
+      });
+    }
+
+    const bore = input.pinDiameter + PIN_CLEARANCE;
+    const ligament = (input.barWidth - bore) / 2;
+    if (ligament < bore / 2) {
+      errors.push({
+        code: 'PIVOT_BORE_TOO_LARGE',
+        severity: 'error',
+        message: `Ø${bore.toFixed(1)}mm pivot bore leaves ${ligament.toFixed(1)}mm each side in a ${input.barWidth}mm link`,
+      });
+    }
+    if (lengths.some(length => length > 0 && length < input.barWidth)) {
+      warnings.push({
+        code: 'SHORT_LINK',
+        severity: 'warning',
+        message: `A link shorter than its ${input.barWidth}mm width has overlapping pivot bosses`,
+      });
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings,
+      clearanceChecks: [],
+    };
+  }
+}
+
+// ============================================================================
+// REGISTER BUILDERS
+// ============================================================================
+
+export function registerMechanicalBuilders(): void {
+  registerBuilder(new ShaftBuilder());
+  registerBuilder(new BearingBuilder());
+  registerBuilder(new CouplingBuilder());
+  registerBuilder(new BracketBuilder());
+  registerBuilder(new LinkageBuilder());
+}
@@ -68,6 +68,74 @@ export type {
   BracingInput,
 } from './builders/structure';
 
+export {
+  SheetMetalPartBuilder,
+  GuardBuilder,
+  FenceBuilder,
+  PanelBuilder,
+  CoverBuilder,
+  developFlatPattern,
+  registerEnclosureBuilders,
+} from './builders/enclosure';
+export type {
+  SheetMetalPartInput,
+  GuardInput,
+  FenceInput,
+  PanelInput,
+  CoverInput,
+  PanelEdge,
+  PanelHole,
+  FlangeHole,
+  FlangeCutout,
+  PanelLouver,
+  PanelPerforation,
+  SheetMetalBend,
+  SheetMetalFlatPattern,
+} from './builders/enclosure';
+
+export {
+  PipeBuilder,
+  DuctBuilder,
+  CableTrayBuilder,
+  HangerBuilder,
+  registerFlowBuilders,
+} from './builders/flow';
+export type {
+  PipeInput,
+  PipeBranch,
+  PipeReducer,
+  DuctInput,
+  DuctBranch,
+  DuctReducer,
+  CableTrayInput,
+  CableTrayBranch,
+  CableTrayReducer,
+  HangerInput,
+  RoutePosition,
+  FlowSection,
+} from './builders/flow';
+
+export {
+  ShaftBuilder,
+  BearingBuilder,
+  CouplingBuilder,
+  BracketBuilder,
+  LinkageBuilder,
+  layoutShaft,
+  fourBarJoints,
+  registerMechanicalBuilders,
+} from './builders/mechanical';
+export type {
+  ShaftInput,
+  ShaftLayout,
+  TurnedStep,
+  BearingInput,
+  CouplingInput,
+  BracketInput,
+  LinkageInput,
+  FourBarJoints,
+} from './builders/mechanical';
+
 // Validation
 export {
   checkClearance,
@@ -92,10 +160,16 @@ export type {
 // Initialize all builders
 import { registerAccessBuilders } from './builders/access';
 import { registerStructureBuilders } from './builders/structure';
+import { registerEnclosureBuilders } from './builders/enclosure';
+import { registerFlowBuilders } from './builders/flow';
+import { registerMechanicalBuilders } from './builders/mechanical';
 
 export function initializeBuilders(): void {
   registerAccessBuilders();
   registerStructureBuilders();
+  registerEnclosureBuilders();
+  registerFlowBuilders();
+  registerMechanicalBuilders();
 }
 
 // Auto-initialize on module load
@@ -204,11 +204,14 @@ export const materialDensities: MaterialDensity[] = [
   { id: 'mild-steel', density: 7850 },
   { id: 'stainless-304', density: 8000 },
   { id: 'stainless-316', density: 8000 },
+  { id: 'stainless-steel', density: 8000 },
+  { id: 'aluminum', density: 2700 },
   { id: 'aluminum-6061', density: 2700 },
   { id: 'aluminum-7075', density: 2810 },
   { id: 'cast-iron', density: 7200 },
   { id: 'carbon-steel', density: 7850 },
   { id: 'galvanized', density: 7850 },
+  { id: 'galvanized-steel', density: 7850 },
   { id: 'wood-pine', density: 500 },
   { id: 'wood-oak', density: 750 },
   { id: 'concrete', density: 2400 },
@@ -22,6 +22,7 @@ import type {
   ExtractedEnvironmentConstraint,
   ConnectionOpportunity,
 } from './types';
+import type { CADData, CADSolid, CADFeature } from './file-inspector/types';
 
 import { PointCloudProcessor } from './point-cloud';
 import { ImageAnalyzer } from './image-analyzer';
@@ -45,6 +46,8 @@ export class EnvironmentModeler {
   buildModel(options: {
     pointClouds?: PointCloud[];
     images?: ImageInput[];
+    cadModels?: CADData[];
+    planHeight?: number; // mm, storey height assumed when extruding 2D plans
   }): EnvironmentModel {
     const startTime = Date.now();
 
@@ -99,15 +102,40 @@ export class EnvironmentModeler {
       }
     }
 
-    // Merge duplicate detections
+    // Existing structures from imported STEP/IGES bodies and 2D plans
+    const cadObstacles: DetectedObstacle[] = [];
+    for (const model of options.cadModels ?? []) {
+      for (const solid of model.solids ?? []) {
+        cadObstacles.push(this.solidToObstacle(solid, cadObstacles.length));
+      }
+
+      if (model.is2D) {
+        const plan = this.planToEnvironment(model, options.planHeight ?? 3000, cadObstacles.length, allSurfaces.length);
+        allSurfaces.push(...plan.surfaces);
+        cadObstacles.push(...plan.obstacles);
+      }
+
+      sources.push({
+        type: 'cad',
+        id: model.shapeId ?? `cad-${sources.length}`,
+        contribution: 1 / (options.cadModels!.length + (options.pointClouds?.length || 0) + (options.images?.length || 0)),
+      });
+    }
+
+    // Merge duplicate detections; modeled bodies replace scanned ones
     allSurfaces = this.mergeSurfaces(allSurfaces);
-    allObstacles = this.mergeObstacles(allObstacles);
+    allObstacles = [
+      ...cadObstacles,
+      ...this.mergeObstacles(allObstacles).filter(
+        o => !cadObstacles.some(c => this.containsPoint(c.bounds, o.centroid))
+      ),
+    ];
 
     // Calculate overall bounds
     const bounds = this.calculateEnvironmentBounds(allSurfaces, allObstacles);
 
     // Identify attachment points
-    const attachmentPoints = this.identifyAttachmentPoints(allSurfaces);
+    const attachmentPoints = this.identifyAttachmentPoints(allSurfaces, allObstacles);
 
     // Identify clearance zones
     const clearanceZones = this.identifyClearanceZones(allSurfaces, allObstacles, allOpenings);
@@ -288,9 +316,206 @@ export class EnvironmentModeler {
   }
 
   /**
-   * Identify potential attachment points on surfaces
+   * Convert an imported CAD body to an obstacle with its kernel shape attached
+   */
+  private solidToObstacle(solid: CADSolid, index: number): DetectedObstacle {
+    const { min, max } = solid.boundingBox;
+    const width = max.x - min.x;
+    const depth = max.y - min.y;
+    const height = max.z - min.z;
+
+    return {
+      id: `cad-obstacle-${index}`,
+      type: this.classifySolid(solid.name, width, depth, height),
+      bounds: solid.boundingBox,
+      centroid: { x: (min.x + max.x) / 2, y: (min.y + max.y) / 2, z: (min.z + max.z) / 2 },
+      dimensions: { width, depth, height },
+      pointIndices: [],
+      confidence: 1,
+      name: solid.name,
+      shapeId: solid.shapeId,
+    };
+  }
+
+  /**
+   * Classify a CAD body by name, falling back to its proportions
    */
-  private identifyAttachmentPoints(surfaces: DetectedSurface[]): AttachmentPoint[] {
+  private classifySolid(
+    name: string,
+    width: number,
+    depth: number,
+    height: number
+  ): DetectedObstacle['type'] {
+    const lower = name.toLowerCase();
+    if (/column|\bcol\b|post/.test(lower)) return 'column';
+    if (/beam|girder|joist|\bw\d+x\d+/.test(lower)) return 'beam';
+    if (/pipe|\bnps\b|tube/.test(lower)) return 'pipe';
+    if (/duct/.test(lower)) return 'duct';
+    if (/pump|tank|vessel|skid|motor|equip|unit/.test(lower)) return 'equipment';
+
+    const horizontal = Math.max(width, depth);
+    const section = Math.min(width, depth);
+    if (height > 3 * horizontal) return section < 300 ? 'pipe' : 'column';
+    if (horizontal > 3 * Math.max(height, section)) return height < 200 && section < 200 ? 'pipe' : 'beam';
+    if (width > 500 && depth > 500 && height > 500) return 'equipment';
+    return 'unknown';
+  }
+
+  /**
+   * Extrude a 2D plan by layer (or block) name: wall linework becomes wall
+   * surfaces, column and equipment outlines become obstacles, beam lines
+   * become beams just below the assumed storey height.
+   */
+  private planToEnvironment(
+    model: CADData,
+    height: number,
+    obstacleOffset: number,
+    surfaceOffset: number
+  ): { surfaces: DetectedSurface[]; obstacles: DetectedObstacle[] } {
+    const surfaces: DetectedSurface[] = [];
+    const obstacles: DetectedObstacle[] = [];
+    const beamDepth = 400;
+    const beamWidth = 200;
+    const equipmentHeight = Math.min(1500, height);
+
+    const addObstacle = (
+      type: DetectedObstacle['type'],
+      name: string,
+      min: Point3D,
+      max: Point3D
+    ) => {
+      obstacles.push({
+        id: `cad-obstacle-${obstacleOffset + obstacles.length}`,
+        type,
+        bounds: { min, max },
+        centroid: { x: (min.x + max.x) / 2, y: (min.y + max.y) / 2, z: (min.z + max.z) / 2 },
+        dimensions: { width: max.x - min.x, depth: max.y - min.y, height: max.z - min.z },
+        pointIndices: [],
+        confidence: 0.8, // heights are assumed, not drawn
+        name,
+      });
+    };
+
+    const features = model.extractedFeatures ?? [];
+    const categoryOf = (feature: CADFeature) => this.planCategory(`${feature.layer} ${feature.block ?? ''}`);
+
+    for (const feature of features) {
+      const category = categoryOf(feature);
+      if (!category || feature.role === 'annotation') continue;
+
+      if (category === 'wall') {
+        const segments = this.featureSegments(feature);
+        for (const [a, b] of segments) {
+          const length = Math.hypot(b.x - a.x, b.y - a.y);
+          if (length < 50) continue;
+          const normal = { x: -(b.y - a.y) / length, y: (b.x - a.x) / length, z: 0 };
+          surfaces.push({
+            id: `cad-surface-${surfaceOffset + surfaces.length}`,
+            type: 'wall',
+            plane: { a: normal.x, b: normal.y, c: 0, d: -(normal.x * a.x + normal.y * a.y) },
+            normal,
+            bounds: {
+              min: { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), z: 0 },
+              max: { x: Math.max(a.x, b.x), y: Math.max(a.y, b.y), z: height },
+            },
+            area: length * height,
+            pointIndices: [],
+            confidence: 0.8,
+          });
+        }
+      } else if (category === 'beam') {
+        for (const [a, b] of this.featureSegments(feature)) {
+          const pad = beamWidth / 2;
+          addObstacle(
+            'beam',
+            feature.block ?? feature.layer,
+            { x: Math.min(a.x, b.x) - pad, y: Math.min(a.y, b.y) - pad, z: height - beamDepth },
+            { x: Math.max(a.x, b.x) + pad, y: Math.max(a.y, b.y) + pad, z: height }
+          );
+        }
+      } else if (
+        feature.role !== 'geometry' &&
+        // Columns sit inside the building outline; only skip loops nested in their own kind (bolt holes)
+        (feature.data.parent === undefined || categoryOf(features[feature.data.parent as number]) !== category)
+      ) {
+        const points = feature.type === 'circle'
+          ? this.circleExtents(feature)
+          : feature.data.points as Point3D[];
+        const xs = points.map(p => p.x);
+        const ys = points.map(p => p.y);
+        addObstacle(
+          category,
+          feature.block ?? feature.layer,
+          { x: Math.min(...xs), y: Math.min(...ys), z: 0 },
+          { x: Math.max(...xs), y: Math.max(...ys), z: category === 'column' ? height : equipmentHeight }
+        );
+      }
+    }
+
+    // Slab under the drawn extent so walls and columns have a floor to attach to
+    if ((surfaces.length > 0 || obstacles.length > 0) && model.boundingBox) {
+      const { min, max } = model.boundingBox;
+      surfaces.push({
+        id: `cad-surface-${surfaceOffset + surfaces.length}`,
+        type: 'floor',
+        plane: { a: 0, b: 0, c: 1, d: 0 },
+        normal: { x: 0, y: 0, z: 1 },
+        bounds: { min: { x: min.x, y: min.y, z: 0 }, max: { x: max.x, y: max.y, z: 0 } },
+        area: (max.x - min.x) * (max.y - min.y),
+        pointIndices: [],
+        confidence: 0.8,
+      });
+    }
+
+    return { surfaces, obstacles };
+  }
+
+  /**
+   * Plan layer naming, covering AIA (A-WALL, S-COLS) and plain names
+   */
+  private planCategory(name: string): 'wall' | 'column' | 'beam' | 'equipment' | null {
+    const lower = name.toLowerCase();
+    if (/wall/.test(lower)) return 'wall';
+    if (/column|\bcols?\b|s-col/.test(lower)) return 'column';
+    if (/beam|girder|joist|s-fram/.test(lower)) return 'beam';
+    if (/equip|pump|tank|vessel|skid|machine/.test(lower)) return 'equipment';
+    return null;
+  }
+
+  private featureSegments(feature: CADFeature): Array<[Point3D, Point3D]> {
+    if (feature.type === 'line') {
+      return [[feature.data.start as Point3D, feature.data.end as Point3D]];
+    }
+    if (feature.type !== 'polyline') return [];
+    const points = feature.data.points as Point3D[];
+    const segments: Array<[Point3D, Point3D]> = [];
+    for (let i = 0; i + 1 < points.length; i++) segments.push([points[i], points[i + 1]]);
+    if (feature.data.closed && points.length > 2) segments.push([points[points.length - 1], points[0]]);
+    return segments;
+  }
+
+  private circleExtents(feature: CADFeature): Point3D[] {
+    const center = feature.data.center as Point3D;
+    const radius = feature.data.radius as number;
+    return [
+      { x: center.x - radius, y: center.y - radius, z: 0 },
+      { x: center.x + radius, y: center.y + radius, z: 0 },
+    ];
+  }
+
+  private containsPoint(bounds: { min: Point3D; max: Point3D }, p: Point3D): boolean {
+    return p.x >= bounds.min.x && p.x <= bounds.max.x &&
+           p.y >= bounds.min.y && p.y <= bounds.max.y &&
+           p.z >= bounds.min.z && p.z <= bounds.max.z;
+  }
+
+  /**
+   * Identify potential attachment points on surfaces and modeled steel
+   */
+  private identifyAttachmentPoints(
+    surfaces: DetectedSurface[],
+    obstacles: DetectedObstacle[] = []
+  ): AttachmentPoint[] {
     const points: AttachmentPoint[] = [];
     let pointId = 0;
 
@@ -339,6 +564,46 @@ export class EnvironmentModeler {
       }
     }
 
+    // Existing beams (top flange) and columns (each face at mid-height) from CAD
+    for (const obstacle of obstacles) {
+      if (!obstacle.shapeId) continue;
+      const { min, max } = obstacle.bounds;
+      const c = obstacle.centroid;
+
+      if (obstacle.type === 'beam') {
+        points.push({
+          id: `attachment-${pointId++}`,
+          position: { x: c.x, y: c.y, z: max.z },
+          normal: { x: 0, y: 0, z: 1 },
+          surfaceId: obstacle.id,
+          type: 'beam',
+          loadCapacity: 20000, // 20kN default for existing steel
+          attachmentMethods: ['weld', 'clamp'],
+          clearance: { front: 300, sides: 150 },
+          confidence: 0.9,
+        });
+      } else if (obstacle.type === 'column') {
+        const faces = [
+          { position: { x: max.x, y: c.y, z: c.z }, normal: { x: 1, y: 0, z: 0 } },
+          { position: { x: min.x, y: c.y, z: c.z }, normal: { x: -1, y: 0, z: 0 } },
+          { position: { x: c.x, y: max.y, z: c.z }, normal: { x: 0, y: 1, z: 0 } },
+          { position: { x: c.x, y: min.y, z: c.z }, normal: { x: 0, y: -1, z: 0 } },
+        ];
+        for (const face of faces) {
+          points.push({
+            id: `attachment-${pointId++}`,
+            ...face,
+            surfaceId: obstacle.id,
+            type: 'column',
+            loadCapacity: 20000,
+            attachmentMethods: ['weld', 'clamp'],
+            clearance: { front: 300, sides: 150 },
+            confidence: 0.9,
+          });
+        }
+      }
+    }
+
     return points;
   }
 
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { extractPlateProfiles, parseDXF } from './dxf-reader';
+
+type Pair = [number, string | number];
+
+function dxf(entities: Pair[], options: { insunits?: number; tables?: Pair[]; blocks?: Pair[] } = {}): string {
+  const header: Pair[] = [[9, '$ACADVER'], [1, 'AC1027']];
+  if (options.insunits !== undefined) header.push([9, '$INSUNITS'], [70, options.insunits]);
+  const pairs: Pair[] = [
+    [0, 'SECTION'], [2, 'HEADER'], ...header, [0, 'ENDSEC'],
+    [0, 'SECTION'], [2, 'TABLES'], ...(options.tables ?? []), [0, 'ENDSEC'],
+    [0, 'SECTION'], [2, 'BLOCKS'], ...(options.blocks ?? []), [0, 'ENDSEC'],
+    [0, 'SECTION'], [2, 'ENTITIES'], ...entities, [0, 'ENDSEC'],
+    [0, 'EOF'],
+  ];
+  return pairs.map(([code, value]) => `${code}\n${value}`).join('\n');
+}
+
+/** 10 × 4 in plate with a 1 in hole and a bolt block holding a 1/2 in hole */
+const plate = dxf([
+  [0, 'LWPOLYLINE'], [8, 'PLATE'], [90, 4], [70, 1], [10, 0], [20, 0], [10, 10], [20, 0], [10, 10], [20, 4], [10, 0], [20, 4],
+  [0, 'CIRCLE'], [8, 'PLATE'], [10, 2], [20, 2], [30, 0], [40, 0.5],
+  [0, 'INSERT'], [8, 'PLATE'], [2, 'BOLT'], [10, 8], [20, 2], [30, 0],
+  [0, 'TEXT'], [8, 'NOTES'], [10, 1], [20, 5], [30, 0], [40, 0.2], [1, 'PL 1/4'],
+], {
+  insunits: 1,
+  tables: [[0, 'TABLE'], [2, 'LAYER'], [0, 'LAYER'], [2, 'PLATE'], [70, 0], [62, 1], [0, 'ENDTAB']],
+  blocks: [[0, 'BLOCK'], [2, 'BOLT'], [10, 0], [20, 0], [30, 0], [0, 'CIRCLE'], [8, 'PLATE'], [10, 0], [20, 0], [30, 0], [40, 0.25], [0, 'ENDBLK']],
+});
+
+describe('parseDXF', () => {
+  it('reads the header, layers and block inserts', () => {
+    const cad = parseDXF(plate);
+
+    expect(cad.format).toBe('dxf');
+    expect(cad.version).toBe('AC1027');
+    expect(cad.units).toBe('in');
+    expect(cad.layers).toEqual([
+      { name: 'PLATE', color: '#ff0000', visible: true, entityCount: 3, entityTypes: ['LWPOLYLINE', 'CIRCLE', 'INSERT'] },
+      { name: 'NOTES', visible: true, entityCount: 1, entityTypes: ['TEXT'] },
+    ]);
+    expect(cad.blocks?.[0]).toMatchObject({ name: 'BOLT', insertionPoint: { x: 203.2, y: 50.8, z: 0 } });
+    expect(cad.blockDefinitions?.[0]).toMatchObject({ name: 'BOLT', entityCount: 1, entityTypes: ['CIRCLE'] });
+  });
+
+  it('converts geometry to mm and classifies outlines, holes and annotations', () => {
+    const cad = parseDXF(plate);
+    const features = cad.extractedFeatures!;
+
+    expect(cad.boundingBox).toEqual({ min: { x: 0, y: 0, z: 0 }, max: { x: 254, y: 101.6, z: 0 } });
+    expect(features.map(f => [f.type, f.role])).toEqual([
+      ['polyline', 'outline'],
+      ['circle', 'hole'],
+      ['circle', 'hole'],
+      ['text', 'annotation'],
+    ]);
+    expect(features[2].block).toBe('BOLT');
+    expect(features[2].data.radius).toBeCloseTo(6.35, 6);
+  });
+
+  it('recovers plate profiles with their holes', () => {
+    const [profile] = extractPlateProfiles(parseDXF(plate));
+
+    expect(profile.layer).toBe('PLATE');
+    expect(profile.width).toBeCloseTo(254, 6);
+    expect(profile.height).toBeCloseTo(101.6, 6);
+    expect(profile.holes).toEqual([
+      { x: 50.8, y: 50.8, diameter: 25.4 },
+      { x: 203.2, y: 50.8, diameter: 12.7 },
+    ]);
+    expect(profile.cutouts).toEqual([]);
+  });
+
+  it('stitches loose lines into a closed outline', () => {
+    const line = (x1: number, y1: number, x2: number, y2: number): Pair[] =>
+      [[0, 'LINE'], [8, '0'], [10, x1], [20, y1], [30, 0], [11, x2], [21, y2], [31, 0]];
+    const cad = parseDXF(dxf([
+      ...line(0, 0, 100, 0), ...line(100, 0, 100, 50), ...line(100, 50, 0, 50), ...line(0, 50, 0, 0),
+    ], { insunits: 4 }));
+
+    const [profile] = extractPlateProfiles(cad);
+    expect(profile.width).toBe(100);
+    expect(profile.height).toBe(50);
+  });
+
+  it('assumes mm without $INSUNITS and says so', () => {
+    const warnings: string[] = [];
+    const cad = parseDXF(dxf([[0, 'CIRCLE'], [8, '0'], [10, 0], [20, 0], [30, 0], [40, 5]]), warnings);
+
+    expect(cad.extractedFeatures?.[0].data.radius).toBe(5);
+    expect(warnings).toContain('DXF has no $INSUNITS; drawing units assumed to be mm');
+  });
+
+  it('rejects binary DXF and files without entities', () => {
+    expect(() => parseDXF('AutoCAD Binary DXF\r\n')).toThrow('Binary DXF is not supported');
+    expect(() => parseDXF('0\nSECTION\n2\nHEADER\n0\nENDSEC\n0\nEOF')).toThrow('no ENTITIES section');
+  });
+});
@@ -0,0 +1,926 @@
+/**
+ * DXF Reader
+ *
+ * Reads ASCII DXF drawings (R12 through 2018) into CADData: layers, block
+ * definitions and inserts, and drawing features. Inserts are exploded into
+ * model space so a plan's column or equipment symbols become real geometry.
+ * Closed loops are classified as outlines, holes and cutouts so floor plans
+ * can seed the environment model and existing plate profiles can be reused.
+ *
+ * All coordinates are converted to mm using $INSUNITS.
+ */
+
+import type { Point3D, BoundingBox3D } from '../../knowledge/types';
+import type {
+  CADData,
+  CADLayer,
+  CADBlock,
+  CADBlockDefinition,
+  CADFeature,
+  CADPlateProfile,
+} from './types';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** $INSUNITS code → unit name and mm per drawing unit */
+const INSUNITS: Record<number, { units: string; scale: number }> = {
+  0: { units: 'unitless', scale: 1 },
+  1: { units: 'in', scale: 25.4 },
+  2: { units: 'ft', scale: 304.8 },
+  4: { units: 'mm', scale: 1 },
+  5: { units: 'cm', scale: 10 },
+  6: { units: 'm', scale: 1000 },
+  10: { units: 'yd', scale: 914.4 },
+  14: { units: 'dm', scale: 100 },
+};
+
+/** Standard AutoCAD Color Index entries; others are reported as `aci-N` */
+const ACI_COLORS: Record<number, string> = {
+  1: '#ff0000',
+  2: '#ffff00',
+  3: '#00ff00',
+  4: '#00ffff',
+  5: '#0000ff',
+  6: '#ff00ff',
+  7: '#ffffff',
+  8: '#808080',
+  9: '#c0c0c0',
+};
+
+/** Nested inserts deeper than this are ignored (guards against cyclic blocks) */
+const MAX_INSERT_DEPTH = 8;
+
+/** Maximum angular step when tessellating bulges, arcs and ellipses */
+const ARC_STEP = Math.PI / 18;
+
+/** Endpoint tolerance when chaining lines and arcs into loops (mm) */
+const STITCH_TOLERANCE = 0.01;
+
+// =============================================================================
+// GROUP CODES
+// =============================================================================
+
+interface GroupPair {
+  code: number;
+  value: string;
+}
+
+interface RawEntity {
+  type: string;
+  pairs: GroupPair[];
+  vertices?: RawEntity[];  // POLYLINE vertices
+}
+
+interface BlockDef {
+  name: string;
+  basePoint: Point3D;
+  entities: RawEntity[];
+}
+
+/**
+ * Split the file into (code, value) pairs, tolerating CRLF and padded codes
+ */
+function readPairs(content: string): GroupPair[] {
+  const lines = content.split(/\r?\n/);
+  const pairs: GroupPair[] = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    const code = parseInt(lines[i].trim(), 10);
+    if (!Number.isFinite(code)) {
+      throw new Error(`Invalid DXF group code "${lines[i].trim()}" at line ${i + 1}`);
+    }
+    pairs.push({ code, value: lines[i + 1].trim() });
+  }
+  return pairs;
+}
+
+/**
+ * Group pairs into SECTION name → pairs between the section header and ENDSEC
+ */
+function splitSections(pairs: GroupPair[]): Map<string, GroupPair[]> {
+  const sections = new Map<string, GroupPair[]>();
+  let i = 0;
+  while (i < pairs.length) {
+    if (pairs[i].code === 0 && pairs[i].value === 'SECTION' && pairs[i + 1]?.code === 2) {
+      const name = pairs[i + 1].value.toUpperCase();
+      const start = i + 2;
+      let end = start;
+      while (end < pairs.length && !(pairs[end].code === 0 && pairs[end].value === 'ENDSEC')) end++;
+      sections.set(name, pairs.slice(start, end));
+      i = end + 1;
+    } else if (pairs[i].code === 0 && pairs[i].value === 'EOF') {
+      break;
+    } else {
+      i++;
+    }
+  }
+  return sections;
+}
+
+/**
+ * Split a section into records starting at each code 0, attaching
+ * VERTEX records to their POLYLINE
+ */
+function splitEntities(pairs: GroupPair[]): RawEntity[] {
+  const records: RawEntity[] = [];
+  for (const pair of pairs) {
+    if (pair.code === 0) {
+      records.push({ type: pair.value.toUpperCase(), pairs: [] });
+    } else if (records.length > 0) {
+      records[records.length - 1].pairs.push(pair);
+    }
+  }
+
+  const entities: RawEntity[] = [];
+  let polyline: RawEntity | null = null;
+  for (const record of records) {
+    if (polyline) {
+      if (record.type === 'VERTEX') {
+        polyline.vertices!.push(record);
+        continue;
+      }
+      polyline = null;
+      if (record.type === 'SEQEND') continue;
+    }
+    if (record.type === 'POLYLINE') {
+      record.vertices = [];
+      polyline = record;
+    }
+    entities.push(record);
+  }
+  return entities;
+}
+
+function str(entity: RawEntity, code: number, fallback = ''): string {
+  const pair = entity.pairs.find(p => p.code === code);
+  return pair ? pair.value : fallback;
+}
+
+function num(entity: RawEntity, code: number, fallback = 0): number {
+  const pair = entity.pairs.find(p => p.code === code);
+  const value = pair ? parseFloat(pair.value) : NaN;
+  return Number.isFinite(value) ? value : fallback;
+}
+
+function point(entity: RawEntity, xCode: number): Point3D {
+  return { x: num(entity, xCode), y: num(entity, xCode + 10), z: num(entity, xCode + 20) };
+}
+
+/**
+ * All values for repeated codes (LWPOLYLINE vertices, spline points)
+ */
+function repeated(entity: RawEntity, xCode: number): Array<{ x: number; y: number; bulge: number }> {
+  const result: Array<{ x: number; y: number; bulge: number }> = [];
+  for (const pair of entity.pairs) {
+    const value = parseFloat(pair.value);
+    if (pair.code === xCode) {
+      result.push({ x: value, y: 0, bulge: 0 });
+    } else if (pair.code === xCode + 10 && result.length > 0) {
+      result[result.length - 1].y = value;
+    } else if (pair.code === 42 && xCode === 10 && result.length > 0) {
+      result[result.length - 1].bulge = value;
+    }
+  }
+  return result;
+}
+
+// =============================================================================
+// TRANSFORMS
+// =============================================================================
+
+/** 2D affine transform [a c e; b d f] with a uniform z scale */
+interface Transform {
+  a: number; b: number; c: number; d: number; e: number; f: number;
+  zScale: number;
+  zOffset: number;
+}
+
+function scaleTransform(scale: number): Transform {
+  return { a: scale, b: 0, c: 0, d: scale, e: 0, f: 0, zScale: scale, zOffset: 0 };
+}
+
+function compose(outer: Transform, inner: Transform): Transform {
+  return {
+    a: outer.a * inner.a + outer.c * inner.b,
+    b: outer.b * inner.a + outer.d * inner.b,
+    c: outer.a * inner.c + outer.c * inner.d,
+    d: outer.b * inner.c + outer.d * inner.d,
+    e: outer.a * inner.e + outer.c * inner.f + outer.e,
+    f: outer.b * inner.e + outer.d * inner.f + outer.f,
+    zScale: outer.zScale * inner.zScale,
+    zOffset: outer.zScale * inner.zOffset + outer.zOffset,
+  };
+}
+
+/**
+ * Insert transform: translate(position) · rotate · scale · translate(-base)
+ */
+function insertTransform(position: Point3D, scale: Point3D, rotationDeg: number, base: Point3D): Transform {
+  const r = rotationDeg * Math.PI / 180;
+  const cos = Math.cos(r);
+  const sin = Math.sin(r);
+  const a = cos * scale.x, b = sin * scale.x;
+  const c = -sin * scale.y, d = cos * scale.y;
+  return {
+    a, b, c, d,
+    e: position.x - (a * base.x + c * base.y),
+    f: position.y - (b * base.x + d * base.y),
+    zScale: scale.z,
+    zOffset: position.z - scale.z * base.z,
+  };
+}
+
+function apply(t: Transform, p: Point3D): Point3D {
+  return {
+    x: t.a * p.x + t.c * p.y + t.e,
+    y: t.b * p.x + t.d * p.y + t.f,
+    z: t.zScale * p.z + t.zOffset,
+  };
+}
+
+/** Average linear scale, used for radii and text heights */
+function linearScale(t: Transform): number {
+  return Math.sqrt(Math.abs(t.a * t.d - t.b * t.c));
+}
+
+function isMirrored(t: Transform): boolean {
+  return t.a * t.d - t.b * t.c < 0;
+}
+
+/** Map an angle (degrees) through the transform's rotation/mirroring */
+function transformAngle(t: Transform, degrees: number): number {
+  const r = degrees * Math.PI / 180;
+  const x = t.a * Math.cos(r) + t.c * Math.sin(r);
+  const y = t.b * Math.cos(r) + t.d * Math.sin(r);
+  return normalizeAngle(Math.atan2(y, x) * 180 / Math.PI);
+}
+
+function normalizeAngle(degrees: number): number {
+  const a = degrees % 360;
+  return a < 0 ? a + 360 : a;
+}
+
+// =============================================================================
+// ENTITY CONVERSION
+// =============================================================================
+
+interface ConversionContext {
+  blocks: Map<string, BlockDef>;
+  features: CADFeature[];
+  warnings: Set<string>;
+}
+
+/**
+ * Tessellate a bulged segment (bulge = tan(θ/4)), excluding its start point
+ */
+function bulgePoints(from: { x: number; y: number }, to: { x: number; y: number }, bulge: number): Array<{ x: number; y: number }> {
+  if (Math.abs(bulge) < 1e-9) return [{ x: to.x, y: to.y }];
+
+  const theta = 4 * Math.atan(bulge);
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const chord = Math.hypot(dx, dy);
+  if (chord < 1e-12) return [{ x: to.x, y: to.y }];
+
+  const radius = chord / (2 * Math.sin(Math.abs(theta) / 2));
+  // Centre sits on the chord's perpendicular bisector, left of travel for positive bulges
+  const sagitta = radius * Math.cos(theta / 2);
+  const mx = (from.x + to.x) / 2;
+  const my = (from.y + to.y) / 2;
+  const sign = theta > 0 ? 1 : -1;
+  const cx = mx - sign * sagitta * dy / chord;
+  const cy = my + sign * sagitta * dx / chord;
+
+  const start = Math.atan2(from.y - cy, from.x - cx);
+  const steps = Math.max(2, Math.ceil(Math.abs(theta) / ARC_STEP));
+  const points: Array<{ x: number; y: number }> = [];
+  for (let i = 1; i < steps; i++) {
+    const angle = start + theta * i / steps;
+    points.push({ x: cx + radius * Math.cos(angle), y: cy + radius * Math.sin(angle) });
+  }
+  points.push({ x: to.x, y: to.y });
+  return points;
+}
+
+function polylinePoints(
+  vertices: Array<{ x: number; y: number; bulge: number }>,
+  closed: boolean,
+  elevation: number
+): Point3D[] {
+  if (vertices.length === 0) return [];
+  const points: Point3D[] = [{ x: vertices[0].x, y: vertices[0].y, z: elevation }];
+  const segments = closed ? vertices.length : vertices.length - 1;
+  for (let i = 0; i < segments; i++) {
+    const from = vertices[i];
+    const to = vertices[(i + 1) % vertices.length];
+    const next = bulgePoints(from, to, from.bulge);
+    // The closing vertex is implied by `closed`
+    if (closed && i === segments - 1) next.pop();
+    for (const p of next) points.push({ x: p.x, y: p.y, z: elevation });
+  }
+  return points;
+}
+
+/**
+ * Convert one entity (or an insert, recursively) to features in mm
+ */
+function convertEntity(
+  entity: RawEntity,
+  transform: Transform,
+  context: ConversionContext,
+  block: string | undefined,
+  depth: number,
+  parentLayer?: string
+): void {
+  // Entities on layer 0 inside a block take the insert's layer
+  const ownLayer = str(entity, 8, '0');
+  const layer = ownLayer === '0' && parentLayer ? parentLayer : ownLayer;
+  const scale = linearScale(transform);
+  const push = (type: CADFeature['type'], data: Record<string, unknown>) => {
+    context.features.push(block ? { type, layer, block, data } : { type, layer, data });
+  };
+
+  switch (entity.type) {
+    case 'LINE':
+      push('line', { start: apply(transform, point(entity, 10)), end: apply(transform, point(entity, 11)) });
+      break;
+
+    case 'CIRCLE':
+      push('circle', { center: apply(transform, point(entity, 10)), radius: num(entity, 40) * scale });
+      break;
+
+    case 'ARC': {
+      let startAngle = transformAngle(transform, num(entity, 50));
+      let endAngle = transformAngle(transform, num(entity, 51));
+      if (isMirrored(transform)) [startAngle, endAngle] = [endAngle, startAngle];
+      push('arc', {
+        center: apply(transform, point(entity, 10)),
+        radius: num(entity, 40) * scale,
+        startAngle,
+        endAngle,
+      });
+      break;
+    }
+
+    case 'LWPOLYLINE': {
+      const closed = (num(entity, 70) & 1) === 1;
+      const points = polylinePoints(repeated(entity, 10), closed, num(entity, 38));
+      push('polyline', { points: points.map(p => apply(transform, p)), closed });
+      break;
+    }
+
+    case 'POLYLINE': {
+      const flags = num(entity, 70);
+      // 16/64: polygon mesh / polyface mesh, not drawing geometry
+      if (flags & (16 | 64)) {
+        context.warnings.add('POLYLINE meshes are not imported');
+        break;
+      }
+      const closed = (flags & 1) === 1;
+      const vertices = (entity.vertices ?? []).map(v => ({ x: num(v, 10), y: num(v, 20), bulge: num(v, 42) }));
+      const elevation = entity.vertices?.[0] ? num(entity.vertices[0], 30) : num(entity, 30);
+      const points = polylinePoints(vertices, closed, elevation);
+      push('polyline', { points: points.map(p => apply(transform, p)), closed });
+      break;
+    }
+
+    case 'ELLIPSE': {
+      const center = point(entity, 10);
+      const major = point(entity, 11);
+      const ratio = num(entity, 40, 1);
+      const start = num(entity, 41, 0);
+      let end = num(entity, 42, 2 * Math.PI);
+      if (end <= start) end += 2 * Math.PI;
+      const full = Math.abs(end - start - 2 * Math.PI) < 1e-6;
+      const steps = Math.max(8, Math.ceil((end - start) / ARC_STEP));
+      const points: Point3D[] = [];
+      for (let i = 0; i <= (full ? steps - 1 : steps); i++) {
+        const t = start + (end - start) * i / steps;
+        points.push(apply(transform, {
+          x: center.x + major.x * Math.cos(t) - major.y * ratio * Math.sin(t),
+          y: center.y + major.y * Math.cos(t) + major.x * ratio * Math.sin(t),
+          z: center.z,
+        }));
+      }
+      push('polyline', { points, closed: full, source: 'ellipse' });
+      break;
+    }
+
+    case 'SPLINE': {
+      // Fit points lie on the curve; control points only approximate it
+      const fit = repeated(entity, 11);
+      const controls = fit.length >= 2 ? fit : repeated(entity, 10);
+      const closed = (num(entity, 70) & 1) === 1;
+      const points = controls.map(p => apply(transform, { x: p.x, y: p.y, z: 0 }));
+      push('polyline', { points, closed, source: 'spline', approximate: fit.length < 2 });
+      break;
+    }
+
+    case 'TEXT':
+    case 'MTEXT':
+      push('text', {
+        position: apply(transform, point(entity, 10)),
+        text: cleanText(entity.type === 'MTEXT' ? mtextContent(entity) : str(entity, 1)),
+        height: num(entity, 40) * scale,
+        rotation: transformAngle(transform, num(entity, 50)),
+      });
+      break;
+
+    case 'DIMENSION': {
+      const measurement = num(entity, 42, NaN);
+      const override = str(entity, 1);
+      push('dimension', {
+        definitionPoint: apply(transform, point(entity, 10)),
+        textPosition: apply(transform, point(entity, 11)),
+        measurement: Number.isFinite(measurement) ? measurement * scale : undefined,
+        text: override && override !== '<>' ? cleanText(override) : undefined,
+        dimensionType: num(entity, 70) & 7,
+      });
+      break;
+    }
+
+    case 'INSERT': {
+      const name = str(entity, 2);
+      const definition = context.blocks.get(name.toUpperCase());
+      if (!definition) {
+        context.warnings.add(`Insert of undefined block "${name}"`);
+        break;
+      }
+      if (depth >= MAX_INSERT_DEPTH) {
+        context.warnings.add(`Block nesting deeper than ${MAX_INSERT_DEPTH} ignored`);
+        break;
+      }
+
+      const position = point(entity, 10);
+      const factors = { x: num(entity, 41, 1), y: num(entity, 42, 1), z: num(entity, 43, 1) };
+      const rotation = num(entity, 50);
+      const columns = Math.max(1, num(entity, 70, 1));
+      const rows = Math.max(1, num(entity, 71, 1));
+      const columnSpacing = num(entity, 44);
+      const rowSpacing = num(entity, 45);
+
+      for (let row = 0; row < rows; row++) {
+        for (let column = 0; column < columns; column++) {
+          // Array spacing runs along the insert's rotated axes
+          const r = rotation * Math.PI / 180;
+          const ox = column * columnSpacing * Math.cos(r) - row * rowSpacing * Math.sin(r);
+          const oy = column * columnSpacing * Math.sin(r) + row * rowSpacing * Math.cos(r);
+          const local = insertTransform(
+            { x: position.x + ox, y: position.y + oy, z: position.z },
+            factors,
+            rotation,
+            definition.basePoint
+          );
+          const combined = compose(transform, local);
+          for (const child of definition.entities) {
+            convertEntity(child, combined, context, block ?? definition.name, depth + 1, layer);
+          }
+        }
+      }
+      break;
+    }
+
+    case 'ATTRIB':
+    case 'ATTDEF':
+    case 'SEQEND':
+      break;
+
+    default:
+      // POINT, HATCH, SOLID, 3DFACE, VIEWPORT... are counted on their layer only
+      break;
+  }
+}
+
+function mtextContent(entity: RawEntity): string {
+  // Long MTEXT is split across code 3 chunks followed by a final code 1
+  return entity.pairs.filter(p => p.code === 3).map(p => p.value).join('') + str(entity, 1);
+}
+
+function cleanText(text: string): string {
+  return text
+    .replace(/\\P/g, '\n')
+    .replace(/\\[A-Za-z][^;\\{}]*;/g, '')
+    .replace(/[{}]/g, '')
+    .replace(/%%[cC]/g, 'Ø')
+    .replace(/%%[dD]/g, '°')
+    .replace(/%%[pP]/g, '±')
+    .trim();
+}
+
+// =============================================================================
+// LOOP CLASSIFICATION
+// =============================================================================
+
+interface Loop {
+  feature: number;         // index in the feature list
+  polygon: Array<{ x: number; y: number }>;
+  area: number;
+  min: { x: number; y: number };
+  max: { x: number; y: number };
+  circle: boolean;
+}
+
+function polygonArea(points: Array<{ x: number; y: number }>): number {
+  let area = 0;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    area += (points[j].x + points[i].x) * (points[j].y - points[i].y);
+  }
+  return Math.abs(area) / 2;
+}
+
+function pointInPolygon(p: { x: number; y: number }, polygon: Array<{ x: number; y: number }>): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function circlePolygon(center: Point3D, radius: number): Array<{ x: number; y: number }> {
+  const points: Array<{ x: number; y: number }> = [];
+  for (let i = 0; i < 72; i++) {
+    const angle = i * Math.PI / 36;
+    points.push({ x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) });
+  }
+  return points;
+}
+
+function makeLoop(feature: number, polygon: Array<{ x: number; y: number }>, circle: boolean): Loop {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const p of polygon) {
+    if (p.x < minX) minX = p.x;
+    if (p.y < minY) minY = p.y;
+    if (p.x > maxX) maxX = p.x;
+    if (p.y > maxY) maxY = p.y;
+  }
+  return { feature, polygon, area: polygonArea(polygon), min: { x: minX, y: minY }, max: { x: maxX, y: maxY }, circle };
+}
+
+/**
+ * Chain open lines, arcs and polylines on the same layer into closed loops,
+ * as exporters often write plate outlines as loose segments
+ */
+function stitchLoops(features: CADFeature[]): CADFeature[] {
+  interface Segment { layer: string; block?: string; points: Array<{ x: number; y: number }> }
+
+  const segments: Segment[] = [];
+  for (const feature of features) {
+    const data = feature.data;
+    if (feature.type === 'line') {
+      const start = data.start as Point3D;
+      const end = data.end as Point3D;
+      segments.push({ layer: feature.layer, block: feature.block, points: [start, end] });
+    } else if (feature.type === 'arc') {
+      const center = data.center as Point3D;
+      const radius = data.radius as number;
+      const start = (data.startAngle as number) * Math.PI / 180;
+      let sweep = (data.endAngle as number) * Math.PI / 180 - start;
+      if (sweep <= 0) sweep += 2 * Math.PI;
+      const steps = Math.max(2, Math.ceil(sweep / ARC_STEP));
+      const points: Array<{ x: number; y: number }> = [];
+      for (let i = 0; i <= steps; i++) {
+        const angle = start + sweep * i / steps;
+        points.push({ x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) });
+      }
+      segments.push({ layer: feature.layer, block: feature.block, points });
+    } else if (feature.type === 'polyline' && !data.closed) {
+      const points = data.points as Point3D[];
+      if (points.length >= 2) segments.push({ layer: feature.layer, block: feature.block, points });
+    }
+  }
+
+  const key = (p: { x: number; y: number }) =>
+    `${Math.round(p.x / STITCH_TOLERANCE)},${Math.round(p.y / STITCH_TOLERANCE)}`;
+
+  // Endpoint → segment indices, per layer
+  const ends = new Map<string, number[]>();
+  segments.forEach((segment, index) => {
+    for (const p of [segment.points[0], segment.points[segment.points.length - 1]]) {
+      const k = `${segment.layer}|${key(p)}`;
+      ends.set(k, [...(ends.get(k) ?? []), index]);
+    }
+  });
+
+  const used = new Set<number>();
+  const loops: CADFeature[] = [];
+  for (let first = 0; first < segments.length; first++) {
+    if (used.has(first)) continue;
+    const layer = segments[first].layer;
+    const chain = [...segments[first].points];
+    const members = [first];
+    const startKey = key(chain[0]);
+
+    let closed = false;
+    for (;;) {
+      const tail = key(chain[chain.length - 1]);
+      if (tail === startKey && members.length > 1) {
+        closed = true;
+        break;
+      }
+      const candidates = (ends.get(`${layer}|${tail}`) ?? []).filter(i => !members.includes(i) && !used.has(i));
+      // Only follow unambiguous joints
+      if (candidates.length !== 1) break;
+      const next = segments[candidates[0]];
+      const forward = key(next.points[0]) === tail;
+      const points = forward ? next.points : [...next.points].reverse();
+      chain.push(...points.slice(1));
+      members.push(candidates[0]);
+    }
+
+    if (closed && chain.length >= 4) {
+      for (const m of members) used.add(m);
+      chain.pop();
+      const feature: CADFeature = {
+        type: 'polyline',
+        layer,
+        data: { points: chain.map(p => ({ x: p.x, y: p.y, z: 0 })), closed: true, stitched: true, segments: members.length },
+      };
+      if (segments[first].block) feature.block = segments[first].block;
+      loops.push(feature);
+    }
+  }
+
+  return loops;
+}
+
+/**
+ * Assign roles: loops nested an even number of times are outlines, odd ones
+ * are holes (circles) or cutouts. Holes and cutouts record their parent
+ * outline's feature index in `data.parent`.
+ */
+function classifyFeatures(features: CADFeature[]): void {
+  const loops: Loop[] = [];
+  features.forEach((feature, index) => {
+    if (feature.type === 'text' || feature.type === 'dimension') {
+      feature.role = 'annotation';
+    } else if (feature.type === 'circle') {
+      loops.push(makeLoop(index, circlePolygon(feature.data.center as Point3D, feature.data.radius as number), true));
+    } else if (feature.type === 'polyline' && feature.data.closed && (feature.data.points as Point3D[]).length >= 3) {
+      loops.push(makeLoop(index, feature.data.points as Point3D[], false));
+    } else {
+      feature.role = 'geometry';
+    }
+  });
+
+  // Largest first, so each loop's containers have already been visited
+  loops.sort((a, b) => b.area - a.area);
+  const depth = new Map<Loop, number>();
+  const parent = new Map<Loop, Loop>();
+
+  for (let i = 0; i < loops.length; i++) {
+    const loop = loops[i];
+    const probe = loop.circle
+      ? { x: (loop.min.x + loop.max.x) / 2, y: (loop.min.y + loop.max.y) / 2 }
+      : loop.polygon[0];
+    let container: Loop | undefined;
+    // Smallest enclosing loop is the nearest preceding one that contains it
+    for (let j = i - 1; j >= 0; j--) {
+      const other = loops[j];
+      if (other.area <= loop.area) continue;
+      if (loop.min.x < other.min.x || loop.max.x > other.max.x || loop.min.y < other.min.y || loop.max.y > other.max.y) continue;
+      if (pointInPolygon(probe, other.polygon)) {
+        container = other;
+        break;
+      }
+    }
+    depth.set(loop, container ? depth.get(container)! + 1 : 0);
+    if (container) parent.set(loop, container);
+  }
+
+  for (const loop of loops) {
+    const feature = features[loop.feature];
+    if (depth.get(loop)! % 2 === 0) {
+      feature.role = 'outline';
+    } else {
+      feature.role = loop.circle ? 'hole' : 'cutout';
+      feature.data.parent = parent.get(loop)!.feature;
+    }
+  }
+}
+
+// =============================================================================
+// DRAWING
+// =============================================================================
+
+/**
+ * Parse an ASCII DXF drawing into CADData with features in mm.
+ * Unsupported content is reported through `warnings`.
+ */
+export function parseDXF(content: string, warnings: string[] = []): CADData {
+  if (content.startsWith('AutoCAD Binary DXF')) {
+    throw new Error('Binary DXF is not supported; save the drawing as ASCII DXF');
+  }
+
+  const sections = splitSections(readPairs(content));
+  if (!sections.has('ENTITIES')) {
+    throw new Error('Not a DXF file: no ENTITIES section');
+  }
+
+  // Header variables
+  const header = sections.get('HEADER') ?? [];
+  const headerValue = (name: string, code: number): string | undefined => {
+    const at = header.findIndex(p => p.code === 9 && p.value === name);
+    if (at < 0) return undefined;
+    for (let i = at + 1; i < header.length && header[i].code !== 9; i++) {
+      if (header[i].code === code) return header[i].value;
+    }
+    return undefined;
+  };
+  const version = headerValue('$ACADVER', 1);
+  const insunits = parseInt(headerValue('$INSUNITS', 70) ?? '0', 10);
+  const unit = INSUNITS[insunits] ?? INSUNITS[0];
+
+  // Layer table
+  const layers = new Map<string, CADLayer>();
+  const layerTypes = new Map<string, Set<string>>();
+  for (const record of splitEntities(sections.get('TABLES') ?? [])) {
+    if (record.type !== 'LAYER') continue;
+    const name = str(record, 2);
+    if (!name) continue;
+    const color = num(record, 62, 7);
+    const trueColor = record.pairs.find(p => p.code === 420);
+    const flags = num(record, 70);
+    layers.set(name, {
+      name,
+      color: trueColor
+        ? `#${(parseInt(trueColor.value, 10) & 0xffffff).toString(16).padStart(6, '0')}`
+        : ACI_COLORS[Math.abs(color)] ?? `aci-${Math.abs(color)}`,
+      // Negative colour = layer off; flag 1 = frozen
+      visible: color >= 0 && (flags & 1) === 0,
+      entityCount: 0,
+      entityTypes: [],
+    });
+  }
+
+  // Block definitions
+  const blocks = new Map<string, BlockDef>();
+  let current: BlockDef | null = null;
+  for (const record of splitEntities(sections.get('BLOCKS') ?? [])) {
+    if (record.type === 'BLOCK') {
+      current = { name: str(record, 2), basePoint: point(record, 10), entities: [] };
+    } else if (record.type === 'ENDBLK') {
+      if (current) blocks.set(current.name.toUpperCase(), current);
+      current = null;
+    } else if (current) {
+      current.entities.push(record);
+    }
+  }
+
+  // Model space
+  const entities = splitEntities(sections.get('ENTITIES') ?? [])
+    // Paper-space entities (67 = 1) belong to layouts, not the drawing
+    .filter(entity => num(entity, 67) !== 1);
+
+  const context: ConversionContext = { blocks, features: [], warnings: new Set() };
+  const toMM = scaleTransform(unit.scale);
+  const inserts: CADBlock[] = [];
+
+  for (const entity of entities) {
+    const layerName = str(entity, 8, '0');
+    if (!layers.has(layerName)) {
+      layers.set(layerName, { name: layerName, visible: true, entityCount: 0, entityTypes: [] });
+    }
+    layers.get(layerName)!.entityCount++;
+    if (!layerTypes.has(layerName)) layerTypes.set(layerName, new Set());
+    layerTypes.get(layerName)!.add(entity.type);
+
+    if (entity.type === 'INSERT') {
+      const position = point(entity, 10);
+      inserts.push({
+        name: str(entity, 2),
+        insertionPoint: { x: position.x * unit.scale, y: position.y * unit.scale, z: position.z * unit.scale },
+        scale: { x: num(entity, 41, 1), y: num(entity, 42, 1), z: num(entity, 43, 1) },
+        rotation: num(entity, 50),
+        layer: layerName,
+      });
+    }
+
+    convertEntity(entity, toMM, context, undefined, 0);
+  }
+
+  for (const [name, types] of layerTypes) {
+    layers.get(name)!.entityTypes = Array.from(types);
+  }
+
+  warnings.push(...context.warnings);
+  if (unit.units === 'unitless') {
+    warnings.push('DXF has no $INSUNITS; drawing units assumed to be mm');
+  }
+
+  const features = context.features;
+  features.push(...stitchLoops(features));
+  classifyFeatures(features);
+
+  // Anonymous blocks (*Model_Space, *D dimension graphics...) are not user blocks
+  const blockDefinitions: CADBlockDefinition[] = Array.from(blocks.values())
+    .filter(block => !block.name.startsWith('*'))
+    .map(block => ({
+      name: block.name,
+      basePoint: { x: block.basePoint.x * unit.scale, y: block.basePoint.y * unit.scale, z: block.basePoint.z * unit.scale },
+      entityCount: block.entities.length,
+      entityTypes: Array.from(new Set(block.entities.map(e => e.type))),
+    }));
+
+  return {
+    type: 'cad',
+    format: 'dxf',
+    numBodies: 0,
+    numFaces: 0,
+    numEdges: 0,
+    boundingBox: featureBounds(features),
+    units: unit.units,
+    version,
+    is2D: true,
+    layers: Array.from(layers.values()),
+    blocks: inserts,
+    blockDefinitions,
+    extractedFeatures: features,
+  };
+}
+
+function featurePoints(feature: CADFeature): Point3D[] {
+  const data = feature.data;
+  switch (feature.type) {
+    case 'line':
+      return [data.start as Point3D, data.end as Point3D];
+    case 'circle':
+    case 'arc': {
+      const c = data.center as Point3D;
+      const r = data.radius as number;
+      return [{ x: c.x - r, y: c.y - r, z: c.z }, { x: c.x + r, y: c.y + r, z: c.z }];
+    }
+    case 'polyline':
+      return data.points as Point3D[];
+    case 'text':
+      return [data.position as Point3D];
+    default:
+      return [];
+  }
+}
+
+function featureBounds(features: CADFeature[]): BoundingBox3D | undefined {
+  const min = { x: Infinity, y: Infinity, z: Infinity };
+  const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+  for (const feature of features) {
+    if (feature.role === 'annotation') continue;
+    for (const p of featurePoints(feature)) {
+      min.x = Math.min(min.x, p.x); min.y = Math.min(min.y, p.y); min.z = Math.min(min.z, p.z);
+      max.x = Math.max(max.x, p.x); max.y = Math.max(max.y, p.y); max.z = Math.max(max.z, p.z);
+    }
+  }
+  if (!Number.isFinite(min.x)) return undefined;
+  return { min, max };
+}
+
+// =============================================================================
+// PLATE PROFILES
+// =============================================================================
+
+/**
+ * Recover plate profiles (outline + holes + cutouts) from a parsed drawing,
+ * optionally limited to layers matching a pattern
+ */
+export function extractPlateProfiles(cad: CADData, options: { layer?: RegExp } = {}): CADPlateProfile[] {
+  const features = cad.extractedFeatures ?? [];
+  const profiles = new Map<number, CADPlateProfile>();
+
+  features.forEach((feature, index) => {
+    if (feature.role !== 'outline') return;
+    if (options.layer && !options.layer.test(feature.layer)) return;
+    const outline = feature.type === 'circle'
+      ? circlePolygon(feature.data.center as Point3D, feature.data.radius as number)
+      : (feature.data.points as Point3D[]).map(p => ({ x: p.x, y: p.y }));
+    const loop = makeLoop(index, outline, feature.type === 'circle');
+    profiles.set(index, {
+      layer: feature.layer,
+      outline,
+      holes: [],
+      cutouts: [],
+      width: loop.max.x - loop.min.x,
+      height: loop.max.y - loop.min.y,
+      area: loop.area,
+    });
+  });
+
+  for (const feature of features) {
+    const profile = profiles.get(feature.data.parent as number);
+    if (!profile) continue;
+    if (feature.role === 'hole') {
+      const center = feature.data.center as Point3D;
+      const radius = feature.data.radius as number;
+      profile.holes.push({ x: center.x, y: center.y, diameter: radius * 2 });
+      profile.area -= Math.PI * radius * radius;
+    } else if (feature.role === 'cutout') {
+      const cutout = (feature.data.points as Point3D[]).map(p => ({ x: p.x, y: p.y }));
+      profile.cutouts.push(cutout);
+      profile.area -= polygonArea(cutout);
+    }
+  }
+
+  return Array.from(profiles.values());
+}
@@ -0,0 +1,219 @@
+import { describe, expect, it } from 'vitest';
+import { readE57 } from './e57-reader';
+
+const PAGE_SIZE = 1024;
+const PAYLOAD = PAGE_SIZE - 4;
+
+interface Field {
+  /** Prototype element, e.g. <cartesianX type="Float"/> */
+  xml: string;
+  /** Bytestream contents */
+  bytes: Uint8Array;
+}
+
+function float64(values: number[]): Uint8Array {
+  const view = new DataView(new ArrayBuffer(values.length * 8));
+  values.forEach((v, i) => view.setFloat64(i * 8, v, true));
+  return new Uint8Array(view.buffer);
+}
+
+/** Integers packed least significant bit first, `bits` each */
+function packed(values: number[], bits: number): Uint8Array {
+  const out = new Uint8Array(Math.ceil(values.length * bits / 8));
+  values.forEach((value, i) => {
+    for (let b = 0; b < bits; b++) {
+      const at = i * bits + b;
+      if (Math.floor(value / 2 ** b) % 2) out[at >> 3] |= 1 << (at & 7);
+    }
+  });
+  return out;
+}
+
+function doubles(name: string, values: number[]): Field {
+  return { xml: `<${name} type="Float"/>`, bytes: float64(values) };
+}
+
+function integers(name: string, values: number[], minimum: number, maximum: number): Field {
+  const bits = Math.ceil(Math.log2(maximum - minimum + 1));
+  return {
+    xml: `<${name} type="Integer" minimum="${minimum}" maximum="${maximum}"/>`,
+    bytes: packed(values.map(v => v - minimum), bits),
+  };
+}
+
+interface Scan {
+  name: string;
+  count: number;
+  fields: Field[];
+  /** Extra XML inside the scan element (pose, limits) */
+  extra?: string;
+}
+
+const physical = (logical: number) => Math.floor(logical / PAYLOAD) * PAGE_SIZE + (logical % PAYLOAD);
+
+/**
+ * E57 file with one compressed-vector section per scan, each holding a
+ * single data packet, followed by the XML section. Page CRCs are zero
+ * (the reader does not verify them).
+ */
+function e57(scans: Scan[]): Uint8Array {
+  const logical: number[] = new Array(48).fill(0);
+  const sections = scans.map(scan => {
+    const start = logical.length;
+    const counts = scan.fields.map(f => f.bytes.length);
+    const packetLength = 6 + 2 * counts.length + counts.reduce((a, b) => a + b, 0);
+    const packet = new DataView(new ArrayBuffer(packetLength));
+    packet.setUint8(0, 1);
+    packet.setUint16(2, packetLength - 1, true);
+    packet.setUint16(4, counts.length, true);
+    counts.forEach((c, i) => packet.setUint16(6 + 2 * i, c, true));
+    let at = 6 + 2 * counts.length;
+    for (const field of scan.fields) {
+      new Uint8Array(packet.buffer).set(field.bytes, at);
+      at += field.bytes.length;
+    }
+
+    const header = new DataView(new ArrayBuffer(32));
+    header.setUint8(0, 1);
+    header.setBigUint64(8, BigInt(32 + packetLength), true);
+    header.setBigUint64(16, BigInt(physical(start + 32)), true);
+    logical.push(...new Uint8Array(header.buffer), ...new Uint8Array(packet.buffer));
+    return start;
+  });
+
+  const xml = '<?xml version="1.0" encoding="UTF-8"?>' +
+    '<e57Root type="Structure" xmlns="http://www.astm.org/COMMIT/E57/2010-e57-v1.0">' +
+    '<coordinateMetadata type="String"><![CDATA[EPSG:32633]]></coordinateMetadata>' +
+    '<data3D type="Vector" allowHeterogeneousChildren="1">' +
+    scans.map((scan, i) =>
+      '<vectorChild type="Structure">' +
+      `<name type="String"><![CDATA[${scan.name}]]></name>` +
+      '<sensorModel type="String">Test &amp; Scan 1</sensorModel>' +
+      (scan.extra ?? '') +
+      `<points type="CompressedVector" fileOffset="${physical(sections[i])}" recordCount="${scan.count}">` +
+      `<prototype type="Structure">${scan.fields.map(f => f.xml).join('')}</prototype>` +
+      '<codecs type="Vector"/></points></vectorChild>'
+    ).join('') +
+    '</data3D></e57Root>';
+  const xmlBytes = new TextEncoder().encode(xml);
+  const xmlStart = logical.length;
+  logical.push(...xmlBytes);
+
+  const pages = Math.ceil(logical.length / PAYLOAD);
+  const bytes = new Uint8Array(pages * PAGE_SIZE);
+  for (let page = 0; page < pages; page++) {
+    bytes.set(logical.slice(page * PAYLOAD, (page + 1) * PAYLOAD), page * PAGE_SIZE);
+  }
+
+  const view = new DataView(bytes.buffer);
+  bytes.set(Array.from('ASTM-E57', c => c.charCodeAt(0)), 0);
+  view.setUint32(8, 1, true);
+  view.setBigUint64(16, BigInt(bytes.length), true);
+  view.setBigUint64(24, BigInt(physical(xmlStart)), true);
+  view.setBigUint64(32, BigInt(xmlBytes.length), true);
+  view.setBigUint64(40, BigInt(PAGE_SIZE), true);
+  return bytes;
+}
+
+/** 200 points on a line, enough data to cross several pages */
+const line = Array.from({ length: 200 }, (_, i) => i * 0.01);
+
+function cartesianScan(extra?: string): Scan {
+  return {
+    name: 'Station A',
+    count: line.length,
+    extra,
+    fields: [
+      doubles('cartesianX', line),
+      doubles('cartesianY', line.map(() => 2)),
+      doubles('cartesianZ', line.map(() => -0.5)),
+      integers('intensity', line.map((_, i) => i % 2 ? 4095 : 0), 0, 4095),
+      integers('cartesianInvalidState', line.map((_, i) => (i === 7 ? 2 : 0)), 0, 2),
+    ],
+  };
+}
+
+describe('readE57', () => {
+  it('decodes cartesian scans across page boundaries and converts to mm', () => {
+    const [cloud] = readE57(e57([cartesianScan()]));
+
+    expect(cloud.points).toHaveLength(199);
+    expect(cloud.points[7].position.x).toBeCloseTo(80, 9);
+    expect(cloud.points[198].position).toEqual({ x: 1990, y: 2000, z: -500 });
+    expect(cloud.points.slice(0, 2).map(p => p.intensity)).toEqual([0, 1]);
+    expect(cloud.bounds.min).toEqual({ x: 0, y: 2000, z: -500 });
+    expect(cloud.crs).toBe('EPSG:32633');
+    expect(cloud.source.scanner).toBe('Test & Scan 1');
+    expect(cloud.metadata).toMatchObject({ format: 'e57', scanName: 'Station A', totalPoints: 200 });
+    expect(cloud.metadata?.warnings).toContain('1 invalid point(s) skipped');
+  });
+
+  it('applies the scan pose unless told not to', () => {
+    // 90° about Z, then 10 m along X
+    const pose = '<pose type="Structure">' +
+      `<rotation type="Structure"><w type="Float">${Math.SQRT1_2}</w><x type="Float">0</x><y type="Float">0</y><z type="Float">${Math.SQRT1_2}</z></rotation>` +
+      '<translation type="Structure"><x type="Float">10</x><y type="Float">0</y><z type="Float">0</z></translation></pose>';
+    const file = e57([cartesianScan(pose)]);
+
+    const [posed] = readE57(file);
+    const last = posed.points[198].position;
+    expect(last.x).toBeCloseTo(10000 - 2000, 6);
+    expect(last.y).toBeCloseTo(1990, 6);
+    expect(last.z).toBeCloseTo(-500, 6);
+    expect(posed.metadata?.poseApplied).toBe(true);
+
+    const [raw] = readE57(file, { applyPose: false });
+    expect(raw.points[198].position.x).toBeCloseTo(1990, 9);
+    expect(raw.metadata?.poseApplied).toBe(false);
+  });
+
+  it('converts spherical scans and reads each station separately', () => {
+    const spherical: Scan = {
+      name: 'Station B',
+      count: 2,
+      fields: [
+        doubles('sphericalRange', [2, 3]),
+        doubles('sphericalAzimuth', [0, Math.PI / 2]),
+        doubles('sphericalElevation', [0, Math.PI / 6]),
+        integers('colorRed', [255, 0], 0, 255),
+        integers('colorGreen', [0, 128], 0, 255),
+        integers('colorBlue', [10, 20], 0, 255),
+      ],
+    };
+    const [a, b] = readE57(e57([cartesianScan(), spherical]));
+
+    expect(a.metadata?.scanIndex).toBe(0);
+    expect(b.metadata?.scanName).toBe('Station B');
+    expect(b.points[0].position).toEqual({ x: 2000, y: 0, z: 0 });
+    expect(b.points[1].position.y).toBeCloseTo(3000 * Math.cos(Math.PI / 6), 6);
+    expect(b.points[1].position.z).toBeCloseTo(1500, 6);
+    expect(b.points.map(p => p.color)).toEqual([{ r: 255, g: 0, b: 10 }, { r: 0, g: 128, b: 20 }]);
+  });
+
+  it('reads scaled integer coordinates', () => {
+    const scaled: Scan = {
+      name: 'Scaled',
+      count: 3,
+      fields: [
+        doubles('cartesianX', [0, 1, 2]),
+        doubles('cartesianY', [0, 0, 0]),
+        {
+          xml: '<cartesianZ type="ScaledInteger" minimum="-1000" maximum="1000" scale="0.001" offset="5"/>',
+          bytes: packed([-1000, 0, 250].map(v => v + 1000), 11),
+        },
+      ],
+    };
+    const [cloud] = readE57(e57([scaled]));
+    expect(cloud.points.map(p => p.position.z)).toEqual([4000, 5000, 5250]);
+  });
+
+  it('decimates to maxPoints', () => {
+    const [cloud] = readE57(e57([cartesianScan()]), { maxPoints: 50 });
+    expect(cloud.metadata?.decimation).toBe(4);
+    expect(cloud.points).toHaveLength(50);
+  });
+
+  it('rejects files that are not E57', () => {
+    expect(() => readE57(new Uint8Array(64))).toThrow('missing "ASTM-E57" signature');
+  });
+});
@@ -0,0 +1,438 @@
+/**
+ * E57 Reader
+ *
+ * Reads ASTM E2807 (E57) files: paged binary container, XML scan
+ * descriptions and bit-packed compressed vectors. Each scan station is
+ * returned as its own point cloud, transformed by its pose and converted
+ * to mm.
+ */
+
+import type { Point3D } from '../../knowledge/types';
+import type { PointCloud, PointCloudPoint } from '../types';
+import type { E57Pose, E57ReadOptions } from './types';
+import { cloudDensity } from './las-reader';
+
+// =============================================================================
+// XML
+// =============================================================================
+
+interface XMLNode {
+  name: string;
+  attributes: Record<string, string>;
+  children: XMLNode[];
+  text: string;
+}
+
+/**
+ * Minimal XML parser for the E57 section (elements, attributes, text, CDATA)
+ */
+function parseXML(xml: string): XMLNode {
+  const root: XMLNode = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XMLNode[] = [root];
+  const tag = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tag.exec(xml)) !== null) {
+    const current = stack[stack.length - 1];
+    if (match[1] !== undefined) {
+      current.text += match[1];
+    } else if (match[2] !== undefined) {
+      if (stack.length > 1) stack.pop();
+    } else if (match[3] !== undefined) {
+      const node: XMLNode = { name: localName(match[3]), attributes: {}, children: [], text: '' };
+      for (const attr of match[4].matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        node.attributes[localName(attr[1])] = unescapeXML(attr[2] ?? attr[3]);
+      }
+      current.children.push(node);
+      if (match[5] !== '/') stack.push(node);
+    } else if (match[6] !== undefined) {
+      current.text += unescapeXML(match[6]);
+    }
+  }
+
+  return root;
+}
+
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon >= 0 ? name.substring(colon + 1) : name;
+}
+
+function unescapeXML(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function child(node: XMLNode | undefined, name: string): XMLNode | undefined {
+  return node?.children.find(c => c.name === name);
+}
+
+function numberValue(node: XMLNode | undefined, fallback: number): number {
+  const value = node ? parseFloat(node.text) : NaN;
+  return Number.isFinite(value) ? value : fallback;
+}
+
+function stringValue(node: XMLNode | undefined): string | undefined {
+  const text = node?.text.trim();
+  return text ? text : undefined;
+}
+
+// =============================================================================
+// COMPRESSED VECTOR DECODING
+// =============================================================================
+
+interface E57Field {
+  name: string;
+  type: 'Float' | 'Integer' | 'ScaledInteger';
+  bits: number;          // bits per packed value (Float: 32 or 64)
+  minimum: number;
+  maximum: number;
+  scale: number;
+  offset: number;
+}
+
+const DATA_PACKET = 1;
+const INDEX_PACKET = 0;
+const EMPTY_PACKET = 2;
+
+function prototypeFields(prototype: XMLNode): E57Field[] {
+  return prototype.children.map(node => {
+    const type = node.attributes.type;
+    if (type === 'Float') {
+      const single = node.attributes.precision === 'single';
+      return {
+        name: node.name,
+        type,
+        bits: single ? 32 : 64,
+        minimum: parseFloat(node.attributes.minimum ?? '-Infinity'),
+        maximum: parseFloat(node.attributes.maximum ?? 'Infinity'),
+        scale: 1,
+        offset: 0,
+      };
+    }
+    if (type === 'Integer' || type === 'ScaledInteger') {
+      const minimum = parseFloat(node.attributes.minimum ?? `${-(2 ** 63)}`);
+      const maximum = parseFloat(node.attributes.maximum ?? `${2 ** 63 - 1}`);
+      return {
+        name: node.name,
+        type,
+        bits: Math.ceil(Math.log2(maximum - minimum + 1)),
+        minimum,
+        maximum,
+        scale: type === 'ScaledInteger' ? parseFloat(node.attributes.scale ?? '1') : 1,
+        offset: type === 'ScaledInteger' ? parseFloat(node.attributes.offset ?? '0') : 0,
+      };
+    }
+    throw new Error(`Unsupported E57 prototype field type "${type}" for ${node.name}`);
+  });
+}
+
+/**
+ * Gather each field's bytestream from the data packets of a compressed vector
+ */
+function readBytestreams(
+  logical: Uint8Array,
+  sectionStart: number,
+  toLogical: (physical: number) => number,
+  streamCount: number
+): Uint8Array[] {
+  const view = new DataView(logical.buffer, logical.byteOffset, logical.byteLength);
+  if (sectionStart + 32 > logical.length || view.getUint8(sectionStart) !== 1) {
+    throw new Error('E57 compressed vector section header not found');
+  }
+  const sectionEnd = sectionStart + Number(view.getBigUint64(sectionStart + 8, true));
+  const dataStart = toLogical(Number(view.getBigUint64(sectionStart + 16, true)));
+  const chunks: Uint8Array[][] = Array.from({ length: streamCount }, () => []);
+
+  let offset = dataStart;
+  while (offset + 4 <= Math.min(sectionEnd, logical.length)) {
+    const packetType = view.getUint8(offset);
+    const packetLength = view.getUint16(offset + 2, true) + 1;
+
+    if (packetType === DATA_PACKET) {
+      const count = view.getUint16(offset + 4, true);
+      if (count !== streamCount) {
+        throw new Error(`E57 data packet has ${count} bytestreams, expected ${streamCount}`);
+      }
+      let buffer = offset + 6 + count * 2;
+      for (let i = 0; i < count; i++) {
+        const length = view.getUint16(offset + 6 + i * 2, true);
+        chunks[i].push(logical.subarray(buffer, buffer + length));
+        buffer += length;
+      }
+    } else if (packetType !== INDEX_PACKET && packetType !== EMPTY_PACKET) {
+      throw new Error(`Invalid E57 packet type ${packetType}`);
+    }
+
+    offset += packetLength;
+  }
+
+  return chunks.map(parts => {
+    const total = parts.reduce((sum, p) => sum + p.length, 0);
+    const out = new Uint8Array(total);
+    let at = 0;
+    for (const part of parts) {
+      out.set(part, at);
+      at += part.length;
+    }
+    return out;
+  });
+}
+
+function decodeField(field: E57Field, stream: Uint8Array, count: number): Float64Array {
+  const values = new Float64Array(count);
+
+  if (field.type === 'Float') {
+    const view = new DataView(stream.buffer, stream.byteOffset, stream.byteLength);
+    const size = field.bits / 8;
+    const available = Math.min(count, Math.floor(stream.length / size));
+    for (let i = 0; i < available; i++) {
+      values[i] = size === 4 ? view.getFloat32(i * 4, true) : view.getFloat64(i * 8, true);
+    }
+    return values;
+  }
+
+  // Bit-packed integers, least significant bit first
+  let bit = 0;
+  const totalBits = stream.length * 8;
+  for (let i = 0; i < count; i++) {
+    let raw = 0;
+    if (field.bits > 0 && bit + field.bits <= totalBits) {
+      let remaining = field.bits;
+      let multiplier = 1;
+      while (remaining > 0) {
+        const shift = bit & 7;
+        const take = Math.min(8 - shift, remaining);
+        raw += ((stream[bit >> 3] >> shift) & ((1 << take) - 1)) * multiplier;
+        multiplier *= 2 ** take;
+        bit += take;
+        remaining -= take;
+      }
+    }
+    values[i] = (raw + field.minimum) * field.scale + field.offset;
+  }
+  return values;
+}
+
+// =============================================================================
+// READER
+// =============================================================================
+
+/**
+ * Read every scan station in an E57 file (coordinates in mm)
+ */
+export function readE57(data: ArrayBuffer | Uint8Array, options: E57ReadOptions = {}): PointCloud[] {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  if (bytes.length < 48 || String.fromCharCode(...bytes.subarray(0, 8)) !== 'ASTM-E57') {
+    throw new Error('Not an E57 file: missing "ASTM-E57" signature');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const xmlOffset = Number(view.getBigUint64(24, true));
+  const xmlLength = Number(view.getBigUint64(32, true));
+  const pageSize = Number(view.getBigUint64(40, true)) || 1024;
+
+  // Strip the CRC at the end of each page to get the logical byte stream
+  const payload = pageSize - 4;
+  const pages = Math.floor(bytes.length / pageSize);
+  const logical = new Uint8Array(pages * payload);
+  for (let page = 0; page < pages; page++) {
+    logical.set(bytes.subarray(page * pageSize, page * pageSize + payload), page * payload);
+  }
+  const toLogical = (physical: number) => Math.floor(physical / pageSize) * payload + (physical % pageSize);
+
+  const xmlStart = toLogical(xmlOffset);
+  const xml = new TextDecoder().decode(logical.subarray(xmlStart, xmlStart + xmlLength));
+  const root = child(parseXML(xml), 'e57Root');
+  if (!root) {
+    throw new Error('E57 XML section has no e57Root');
+  }
+  const coordinateMetadata = stringValue(child(root, 'coordinateMetadata'));
+  const scans = child(root, 'data3D')?.children ?? [];
+
+  return scans.map((scan, index) => {
+    const pointsNode = child(scan, 'points');
+    const prototype = child(pointsNode, 'prototype');
+    if (!pointsNode || !prototype) {
+      throw new Error(`E57 scan ${index} has no points`);
+    }
+
+    const recordCount = parseInt(pointsNode.attributes.recordCount ?? '0', 10);
+    const fields = prototypeFields(prototype);
+    const sectionStart = toLogical(parseInt(pointsNode.attributes.fileOffset ?? '0', 10));
+    const streams = readBytestreams(logical, sectionStart, toLogical, fields.length);
+    const columns = fields.map((field, i) => decodeField(field, streams[i], recordCount));
+    return buildScan(scan, index, recordCount, fields, columns, options, coordinateMetadata);
+  });
+}
+
+function buildScan(
+  scan: XMLNode,
+  index: number,
+  recordCount: number,
+  fields: E57Field[],
+  columns: Float64Array[],
+  options: E57ReadOptions,
+  crs: string | undefined
+): PointCloud {
+  const warnings: string[] = [];
+  const column = (name: string) => {
+    const i = fields.findIndex(f => f.name === name);
+    return i >= 0 ? columns[i] : undefined;
+  };
+  const field = (name: string) => fields.find(f => f.name === name);
+
+  const x = column('cartesianX');
+  const y = column('cartesianY');
+  const z = column('cartesianZ');
+  const range = column('sphericalRange');
+  const azimuth = column('sphericalAzimuth');
+  const elevation = column('sphericalElevation');
+  const cartesian = !!(x && y && z);
+  if (!cartesian && !(range && azimuth && elevation)) {
+    throw new Error(`E57 scan ${index} has neither cartesian nor spherical coordinates`);
+  }
+  const invalid = column(cartesian ? 'cartesianInvalidState' : 'sphericalInvalidState');
+
+  // Normalize intensity to 0-1 and color to 0-255 using the scan limits
+  const intensity = column('intensity');
+  const intensityLimits = child(scan, 'intensityLimits');
+  const intensityField = field('intensity');
+  const intensityMin = numberValue(child(intensityLimits, 'intensityMinimum'), intensityField?.minimum ?? 0);
+  const intensityMax = numberValue(child(intensityLimits, 'intensityMaximum'), intensityField?.maximum ?? 1);
+
+  const red = column('colorRed');
+  const green = column('colorGreen');
+  const blue = column('colorBlue');
+  const colorLimits = child(scan, 'colorLimits');
+  const redField = field('colorRed');
+  const colorMin = numberValue(child(colorLimits, 'colorRedMinimum'), redField?.minimum ?? 0);
+  const colorMax = numberValue(child(colorLimits, 'colorRedMaximum'), redField?.maximum ?? 255);
+
+  const pose = readPose(child(scan, 'pose'));
+  const transform = options.applyPose !== false && pose ? pose : null;
+
+  const stride = options.maxPoints && recordCount > options.maxPoints ? Math.ceil(recordCount / options.maxPoints) : 1;
+  if (stride > 1) {
+    warnings.push(`Decimated ${recordCount} points by ${stride} to stay under ${options.maxPoints}`);
+  }
+
+  const points: PointCloudPoint[] = [];
+  const min = { x: Infinity, y: Infinity, z: Infinity };
+  const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+  let skipped = 0;
+
+  for (let i = 0; i < recordCount; i += stride) {
+    if (invalid && invalid[i] !== 0) {
+      skipped++;
+      continue;
+    }
+
+    let p: Point3D;
+    if (cartesian) {
+      p = { x: x![i], y: y![i], z: z![i] };
+    } else {
+      const r = range![i];
+      const cosEl = Math.cos(elevation![i]);
+      p = {
+        x: r * cosEl * Math.cos(azimuth![i]),
+        y: r * cosEl * Math.sin(azimuth![i]),
+        z: r * Math.sin(elevation![i]),
+      };
+    }
+    if (transform) {
+      p = applyPose(transform, p);
+    }
+    const position = { x: p.x * 1000, y: p.y * 1000, z: p.z * 1000 };
+
+    const point: PointCloudPoint = { position };
+    if (intensity) {
+      point.intensity = intensityMax > intensityMin ? (intensity[i] - intensityMin) / (intensityMax - intensityMin) : 0;
+    }
+    if (red && green && blue) {
+      const scale = colorMax > colorMin ? 255 / (colorMax - colorMin) : 1;
+      point.color = {
+        r: Math.round((red[i] - colorMin) * scale),
+        g: Math.round((green[i] - colorMin) * scale),
+        b: Math.round((blue[i] - colorMin) * scale),
+      };
+    }
+    points.push(point);
+
+    min.x = Math.min(min.x, position.x); max.x = Math.max(max.x, position.x);
+    min.y = Math.min(min.y, position.y); max.y = Math.max(max.y, position.y);
+    min.z = Math.min(min.z, position.z); max.z = Math.max(max.z, position.z);
+  }
+
+  if (skipped > 0) {
+    warnings.push(`${skipped} invalid point(s) skipped`);
+  }
+
+  const bounds = points.length > 0
+    ? { min, max }
+    : { min: { x: 0, y: 0, z: 0 }, max: { x: 0, y: 0, z: 0 } };
+  const name = stringValue(child(scan, 'name')) ?? `Scan ${index + 1}`;
+
+  return {
+    id: `e57-${Date.now()}-${index}`,
+    source: {
+      type: 'lidar',
+      scanner: stringValue(child(scan, 'sensorModel')),
+      timestamp: stringValue(child(child(scan, 'acquisitionStart'), 'dateTimeValue')),
+    },
+    points,
+    bounds,
+    density: cloudDensity(points.length, bounds),
+    crs,
+    metadata: {
+      format: 'e57',
+      scanName: name,
+      scanIndex: index,
+      guid: stringValue(child(scan, 'guid')),
+      pose,
+      poseApplied: !!transform,
+      totalPoints: recordCount,
+      decimation: stride,
+      warnings,
+    },
+  };
+}
+
+function readPose(node: XMLNode | undefined): E57Pose | undefined {
+  if (!node) return undefined;
+  const rotation = child(node, 'rotation');
+  const translation = child(node, 'translation');
+  return {
+    rotation: {
+      w: numberValue(child(rotation, 'w'), 1),
+      x: numberValue(child(rotation, 'x'), 0),
+      y: numberValue(child(rotation, 'y'), 0),
+      z: numberValue(child(rotation, 'z'), 0),
+    },
+    translation: {
+      x: numberValue(child(translation, 'x'), 0),
+      y: numberValue(child(translation, 'y'), 0),
+      z: numberValue(child(translation, 'z'), 0),
+    },
+  };
+}
+
+/**
+ * Rotate by the unit quaternion, then translate
+ */
+function applyPose(pose: E57Pose, p: Point3D): Point3D {
+  const { w, x, y, z } = pose.rotation;
+  // t = 2 * (q.xyz × p); p' = p + w t + q.xyz × t
+  const tx = 2 * (y * p.z - z * p.y);
+  const ty = 2 * (z * p.x - x * p.z);
+  const tz = 2 * (x * p.y - y * p.x);
+  return {
+    x: p.x + w * tx + (y * tz - z * ty) + pose.translation.x,
+    y: p.y + w * ty + (z * tx - x * tz) + pose.translation.y,
+    z: p.z + w * tz + (x * ty - y * tx) + pose.translation.z,
+  };
+}
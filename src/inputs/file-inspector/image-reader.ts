@@ -0,0 +1,50 @@
+/**
+ * Image Reader
+ *
+ * Format detection and dispatch for raster images given as bytes, base64
+ * strings or data URLs. PNG and JPEG decode to RGBA; TIFF is header-only.
+ */
+
+import type { RasterImage, ImageInfo } from './types';
+import { isPNG, decodePNG, readPNGInfo } from './png-reader';
+import { isJPEG, decodeJPEG, readJPEGInfo } from './jpeg-reader';
+import { isTIFF, readTIFFInfo } from './tiff-reader';
+
+/**
+ * Bytes of an image given as a buffer, base64 string or data URL
+ */
+export function imageBytes(source: ArrayBuffer | Uint8Array | string): Uint8Array {
+  if (source instanceof Uint8Array) return source;
+  if (typeof source !== 'string') return new Uint8Array(source);
+
+  if (/^(https?|blob|file):/i.test(source)) {
+    throw new Error('Image URLs must be fetched before decoding; pass the bytes or a data URL');
+  }
+  const base64 = source.startsWith('data:') ? source.substring(source.indexOf(',') + 1) : source;
+  const binary = atob(base64.replace(/\s+/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * Decode a PNG or JPEG image to RGBA pixels
+ */
+export function decodeImage(source: ArrayBuffer | Uint8Array | string): RasterImage {
+  const bytes = imageBytes(source);
+  if (isPNG(bytes)) return decodePNG(bytes);
+  if (isJPEG(bytes)) return decodeJPEG(bytes);
+  if (isTIFF(bytes)) throw new Error('TIFF pixel decoding is not supported; convert to PNG or JPEG');
+  throw new Error('Unrecognized image format');
+}
+
+/**
+ * Read image dimensions, channels and EXIF without decoding pixels
+ */
+export function readImageInfo(source: ArrayBuffer | Uint8Array | string): ImageInfo {
+  const bytes = imageBytes(source);
+  if (isPNG(bytes)) return readPNGInfo(bytes);
+  if (isJPEG(bytes)) return readJPEGInfo(bytes);
+  if (isTIFF(bytes)) return readTIFFInfo(bytes);
+  throw new Error('Unrecognized image format');
+}
@@ -4,3 +4,12 @@
 
 export * from './types';
 export * from './inspector';
+export * from './ply-reader';
+export * from './las-reader';
+export * from './e57-reader';
+export * from './step-reader';
+export * from './dxf-reader';
+export * from './png-reader';
+export * from './jpeg-reader';
+export * from './tiff-reader';
+export * from './image-reader';
@@ -15,8 +15,19 @@ import type {
   ImageData,
   MeasurementData,
   DetectedPlane,
+  STEPStructure,
+  LASReadOptions,
 } from './types';
-import type { BoundingBox3D } from '../../knowledge/types';
+import type { BoundingBox3D, Point3D } from '../../knowledge/types';
+import type { PointCloud } from '../types';
+import { parsePLY, parsePLYStream } from './ply-reader';
+import { readLAS } from './las-reader';
+import { readE57 } from './e57-reader';
+import { parseSTEPStructure, flattenAssemblySolids } from './step-reader';
+import { parseDXF } from './dxf-reader';
+import { decodeImage, readImageInfo } from './image-reader';
+import { resizeRaster, isLineDrawing, extractDrawingLines } from '../vision';
+import { importCAD } from '../../core/kernel';
 
 // =============================================================================
 // FILE TYPE DETECTION
@@ -71,7 +82,18 @@ export function detectFileType(filename: string): InputFileType {
 // FILE INSPECTOR CLASS
 // =============================================================================
 
+export interface FileInspectorOptions {
+  /** LASzip decompressor; without one, LAZ files are reported as unsupported */
+  decompressLAZ?: LASReadOptions['decompress'];
+}
+
 export class FileInspector {
+  private options: FileInspectorOptions;
+
+  constructor(options: FileInspectorOptions = {}) {
+    this.options = options;
+  }
+
   /**
    * Inspect a file and extract relevant information
    */
@@ -95,8 +117,15 @@ export class FileInspector {
       data: null,
     };
 
+    if (this.isLAZ(inputFile) && !this.options.decompressLAZ) {
+      result.errors.push('Unsupported file type: LAZ (LASzip-compressed) point clouds need a decompressor; convert to LAS');
+      return result;
+    }
+
     try {
-      const fileContent = file instanceof File
+      // PLY scans are streamed rather than read whole
+      const streamed = file instanceof File && inputFile.type === 'pointcloud-ply';
+      const fileContent = file instanceof File && !streamed
         ? await this.readFile(file)
         : null;
 
@@ -104,7 +133,13 @@ export class FileInspector {
         case 'pointcloud-ply':
         case 'pointcloud-pcd':
         case 'pointcloud-xyz':
-          result.data = await this.inspectPointCloud(inputFile, fileContent);
+        case 'pointcloud-las':
+        case 'pointcloud-e57':
+          result.data = await this.inspectPointCloud(
+            inputFile,
+            streamed ? (file as File).stream() : fileContent,
+            result.warnings
+          );
           break;
 
         case 'mesh-stl':
@@ -115,7 +150,7 @@ export class FileInspector {
         case 'cad-step':
         case 'cad-iges':
         case 'cad-dxf':
-          result.data = await this.inspectCAD(inputFile, fileContent);
+          result.data = await this.inspectCAD(inputFile, fileContent, result.warnings);
           break;
 
         case 'image-jpg':
@@ -146,6 +181,10 @@ export class FileInspector {
     return result;
   }
 
+  private isLAZ(file: InputFile): boolean {
+    return file.type === 'pointcloud-las' && file.name.toLowerCase().endsWith('.laz');
+  }
+
   /**
    * Read file contents
    */
@@ -156,7 +195,7 @@ export class FileInspector {
       reader.onerror = () => reject(reader.error);
 
       // Read as text for text-based formats, binary otherwise
-      const textFormats = ['csv', 'json', 'xml', 'xyz', 'obj', 'ply'];
+      const textFormats = ['csv', 'json', 'xml', 'xyz', 'obj', 'dxf'];
       const ext = file.name.split('.').pop()?.toLowerCase() || '';
 
       if (textFormats.includes(ext)) {
@@ -173,48 +212,137 @@ export class FileInspector {
 
   private async inspectPointCloud(
     file: InputFile,
-    content: ArrayBuffer | string | null
+    content: ArrayBuffer | string | ReadableStream<Uint8Array> | null,
+    warnings: string[] = []
   ): Promise<PointCloudData> {
     // Parse based on format
     let points: Float32Array = new Float32Array(0);
     let colors: Uint8Array | undefined;
     let normals: Float32Array | undefined;
+    let intensity: Float32Array | undefined;
+    let faces: Uint32Array | undefined;
+    let numFaces: number | undefined;
+    let origin: Point3D | undefined;
 
     if (file.type === 'pointcloud-xyz' && typeof content === 'string') {
       const parsed = this.parseXYZ(content);
       points = parsed.points;
-    } else if (file.type === 'pointcloud-ply') {
-      const parsed = await this.parsePLY(content);
+    } else if (file.type === 'pointcloud-ply' && content !== null) {
+      const parsed = content instanceof ReadableStream
+        ? await parsePLYStream(content)
+        : parsePLY(content);
       points = parsed.points;
       colors = parsed.colors;
       normals = parsed.normals;
+      intensity = parsed.intensity;
+      faces = parsed.faces;
+      numFaces = parsed.faces ? parsed.numFaces : undefined;
+      warnings.push(...parsed.warnings);
+    } else if ((file.type === 'pointcloud-las' || file.type === 'pointcloud-e57') && content instanceof ArrayBuffer) {
+      const clouds = file.type === 'pointcloud-las'
+        ? [await readLAS(content, { decompress: this.options.decompressLAZ })]
+        : readE57(content);
+      const packed = this.packPointClouds(clouds);
+      points = packed.points;
+      colors = packed.colors;
+      intensity = packed.intensity;
+      origin = packed.origin;
+      for (const cloud of clouds) {
+        warnings.push(...((cloud.metadata?.warnings as string[] | undefined) ?? []));
+      }
     }
 
     const numPoints = points.length / 3;
 
     // Calculate bounding box
-    const boundingBox = this.calculatePointsBoundingBox(points);
+    let boundingBox = this.calculatePointsBoundingBox(points);
 
     // Detect planes using RANSAC (simplified)
-    const detectedPlanes = numPoints > 100
+    let detectedPlanes = numPoints > 100
       ? this.detectPlanesRANSAC(points)
       : [];
 
+    // Report statistics in absolute coordinates; only the raw arrays stay local
+    if (origin) {
+      const o = origin;
+      boundingBox = {
+        min: { x: boundingBox.min.x + o.x, y: boundingBox.min.y + o.y, z: boundingBox.min.z + o.z },
+        max: { x: boundingBox.max.x + o.x, y: boundingBox.max.y + o.y, z: boundingBox.max.z + o.z },
+      };
+      detectedPlanes = detectedPlanes.map(plane => ({
+        ...plane,
+        center: { x: plane.center.x + o.x, y: plane.center.y + o.y, z: plane.center.z + o.z },
+        equation: {
+          ...plane.equation,
+          d: plane.equation.d - (plane.equation.a * o.x + plane.equation.b * o.y + plane.equation.c * o.z),
+        },
+      }));
+    }
+
     return {
       type: 'pointcloud',
       numPoints,
       hasColors: !!colors,
       hasNormals: !!normals,
-      hasIntensity: false,
+      hasIntensity: !!intensity,
       boundingBox,
       detectedPlanes,
       detectedObjects: [],
+      numFaces,
+      origin,
       getPoints: () => points,
       getColors: colors ? () => colors! : undefined,
       getNormals: normals ? () => normals! : undefined,
+      getIntensity: intensity ? () => intensity! : undefined,
+      getFaces: faces ? () => faces! : undefined,
     };
   }
 
+  /**
+   * Flatten decoded scans (already in mm) into typed arrays. Coordinates are
+   * packed relative to the cloud's minimum corner: georeferenced scans sit at
+   * UTM magnitudes (~5e9 mm), where Float32 would round to hundreds of mm.
+   */
+  private packPointClouds(clouds: PointCloud[]): {
+    points: Float32Array;
+    origin: Point3D;
+    colors?: Uint8Array;
+    intensity?: Float32Array;
+  } {
+    const all = clouds.flatMap(cloud => cloud.points);
+    const origin = { x: Infinity, y: Infinity, z: Infinity };
+    for (const p of all) {
+      origin.x = Math.min(origin.x, p.position.x);
+      origin.y = Math.min(origin.y, p.position.y);
+      origin.z = Math.min(origin.z, p.position.z);
+    }
+    if (all.length === 0) {
+      origin.x = origin.y = origin.z = 0;
+    }
+
+    const points = new Float32Array(all.length * 3);
+    const hasColors = all.length > 0 && all.every(p => p.color);
+    const hasIntensity = all.length > 0 && all.every(p => p.intensity !== undefined);
+    const colors = hasColors ? new Uint8Array(all.length * 3) : undefined;
+    const intensity = hasIntensity ? new Float32Array(all.length) : undefined;
+
+    all.forEach((p, i) => {
+      points[i * 3] = p.position.x - origin.x;
+      points[i * 3 + 1] = p.position.y - origin.y;
+      points[i * 3 + 2] = p.position.z - origin.z;
+      if (colors) {
+        colors[i * 3] = p.color!.r;
+        colors[i * 3 + 1] = p.color!.g;
+        colors[i * 3 + 2] = p.color!.b;
+      }
+      if (intensity) {
+        intensity[i] = p.intensity!;
+      }
+    });
+
+    return { points, origin, colors, intensity };
+  }
+
   /**
    * Parse XYZ point cloud (simple space-separated format)
    */
@@ -237,78 +365,6 @@ export class FileInspector {
     return { points: new Float32Array(points) };
   }
 
-  /**
-   * Parse PLY point cloud
-   */
-  private async parsePLY(
-    content: ArrayBuffer | string | null
-  ): Promise<{ points: Float32Array; colors?: Uint8Array; normals?: Float32Array }> {
-    // Simplified PLY parser
-    // Full implementation would handle binary/ASCII, different element types
-
-    if (typeof content !== 'string') {
-      // Binary PLY - would need full implementation
-      return { points: new Float32Array(0) };
-    }
-
-    const lines = content.split('\n');
-    let headerEnd = 0;
-    let vertexCount = 0;
-    let hasColors = false;
-    let hasNormals = false;
-
-    // Parse header
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (line === 'end_header') {
-        headerEnd = i + 1;
-        break;
-      }
-      if (line.startsWith('element vertex')) {
-        vertexCount = parseInt(line.split(' ')[2]);
-      }
-      if (line.includes('red') || line.includes('diffuse_red')) {
-        hasColors = true;
-      }
-      if (line.includes(' nx ') || line.startsWith('property float nx')) {
-        hasNormals = true;
-      }
-    }
-
-    // Parse vertices
-    const points: number[] = [];
-    const colors: number[] = [];
-    const normals: number[] = [];
-
-    for (let i = headerEnd; i < headerEnd + vertexCount && i < lines.length; i++) {
-      const parts = lines[i].trim().split(/\s+/);
-      if (parts.length >= 3) {
-        points.push(parseFloat(parts[0]), parseFloat(parts[1]), parseFloat(parts[2]));
-
-        if (hasNormals && parts.length >= 6) {
-          normals.push(parseFloat(parts[3]), parseFloat(parts[4]), parseFloat(parts[5]));
-        }
-
-        if (hasColors) {
-          const colorOffset = hasNormals ? 6 : 3;
-          if (parts.length >= colorOffset + 3) {
-            colors.push(
-              parseInt(parts[colorOffset]),
-              parseInt(parts[colorOffset + 1]),
-              parseInt(parts[colorOffset + 2])
-            );
-          }
-        }
-      }
-    }
-
-    return {
-      points: new Float32Array(points),
-      colors: colors.length > 0 ? new Uint8Array(colors) : undefined,
-      normals: normals.length > 0 ? new Float32Array(normals) : undefined,
-    };
-  }
-
   /**
    * Simple RANSAC plane detection
    */
@@ -457,16 +513,22 @@ export class FileInspector {
 
   private async inspectCAD(
     file: InputFile,
-    _content: ArrayBuffer | string | null
+    content: ArrayBuffer | string | null,
+    warnings: string[] = []
   ): Promise<CADData> {
-    // CAD inspection would use OpenCascade for STEP/IGES
-    // and a DXF parser for DXF files
-
-    // Placeholder - would need actual implementation
     const format = file.type === 'cad-step' ? 'step' :
                    file.type === 'cad-iges' ? 'iges' :
                    file.type === 'cad-dxf' ? 'dxf' : 'dwg';
 
+    if ((format === 'step' || format === 'iges') && content !== null) {
+      return this.importSolidModel(format, content);
+    }
+
+    if (format === 'dxf' && content !== null) {
+      return parseDXF(typeof content === 'string' ? content : new TextDecoder().decode(content), warnings);
+    }
+
+    // DWG is a proprietary binary format; convert to DXF first
     return {
       type: 'cad',
       format: format as 'step' | 'iges' | 'dxf' | 'dwg',
@@ -478,26 +540,99 @@ export class FileInspector {
     };
   }
 
+  /**
+   * Load STEP/IGES geometry into the kernel, keeping every body registered
+   * so it can be measured against or used as an obstacle
+   */
+  private async importSolidModel(
+    format: 'step' | 'iges',
+    content: ArrayBuffer | string
+  ): Promise<CADData> {
+    let structure: STEPStructure | undefined;
+    if (format === 'step') {
+      const text = typeof content === 'string' ? content : new TextDecoder().decode(content);
+      structure = parseSTEPStructure(text);
+    }
+
+    const imported = await importCAD(content, format);
+
+    // Name bodies from the product structure when it lines up with the kernel's solids
+    const assemblyNames = structure ? flattenAssemblySolids(structure.assembly) : [];
+    const names = assemblyNames.length === imported.solids.length
+      ? assemblyNames
+      : structure?.solidNames.length === imported.solids.length
+        ? structure.solidNames
+        : [];
+
+    const solids = imported.solids.map((body, i) => ({
+      name: names[i] || `${body.kind === 'solid' ? 'Solid' : 'Shell'} ${i + 1}`,
+      shapeId: body.shapeId,
+      kind: body.kind,
+      boundingBox: { min: body.bounds.min, max: body.bounds.max },
+      numFaces: body.numFaces,
+      numEdges: body.numEdges,
+      volume: body.volume,
+    }));
+
+    return {
+      type: 'cad',
+      format,
+      numBodies: solids.length,
+      numFaces: imported.numFaces,
+      numEdges: imported.numEdges,
+      boundingBox: { min: imported.bounds.min, max: imported.bounds.max },
+      shapeId: imported.shapeId,
+      solids,
+      assembly: structure?.assembly,
+      units: structure?.units,
+      schema: structure?.schema,
+      is2D: false,
+    };
+  }
+
   // ===========================================================================
   // IMAGE INSPECTION
   // ===========================================================================
 
   private async inspectImage(
     _file: InputFile,
-    _content: ArrayBuffer | string | null
+    content: ArrayBuffer | string | null
   ): Promise<ImageData> {
-    // Would use image processing library
-    // For now, return basic info
+    if (content === null) throw new Error('Image file has no content');
 
-    return {
+    const info = readImageInfo(content);
+    const data: ImageData = {
       type: 'image',
-      width: 0,
-      height: 0,
-      channels: 3,
-      bitDepth: 8,
+      width: info.width,
+      height: info.height,
+      channels: info.channels,
+      bitDepth: info.bitDepth,
       isTechnicalDrawing: false,
-      hasExif: false,
+      hasExif: info.exif !== undefined,
     };
+    if (info.exif) {
+      data.cameraInfo = {
+        make: info.exif.make,
+        model: info.exif.model,
+        focalLength: info.exif.focalLength,
+      };
+    }
+
+    // TIFF is header-only; PNG/JPEG are decoded to classify the content
+    if (info.format === 'tiff') return data;
+
+    const { image, scale } = resizeRaster(decodeImage(content), 1024);
+    data.isTechnicalDrawing = isLineDrawing(image);
+    if (data.isTechnicalDrawing) {
+      data.detectedLines = extractDrawingLines(image).map(line => ({
+        ...line,
+        start: { x: line.start.x / scale, y: line.start.y / scale },
+        end: { x: line.end.x / scale, y: line.end.y / scale },
+        thickness: Math.round(line.thickness / scale * 10) / 10,
+      }));
+    }
+
+    return data;
   }
 
   // ===========================================================================
@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import { decodeJPEG, isJPEG, readJPEGInfo } from './jpeg-reader';
+
+interface TestComponent {
+  id: number;
+  h: number;
+  v: number;
+  /** Sample level (0-255) of the flat 8×8 block at block column/row */
+  level: (bx: number, by: number) => number;
+}
+
+interface EncodeOptions {
+  restartInterval?: number;
+  /** Encode as a progressive JPEG with a single DC scan */
+  progressive?: boolean;
+}
+
+/** MSB-first entropy writer with 0xFF byte stuffing */
+class BitWriter {
+  readonly bytes: number[] = [];
+  private acc = 0;
+  private count = 0;
+
+  write(value: number, length: number): void {
+    for (let i = length - 1; i >= 0; i--) {
+      this.acc = (this.acc << 1) | ((value >> i) & 1);
+      if (++this.count === 8) {
+        this.bytes.push(this.acc);
+        if (this.acc === 0xff) this.bytes.push(0);
+        this.acc = 0;
+        this.count = 0;
+      }
+    }
+  }
+
+  /** Pad the last byte with 1-bits */
+  align(): void {
+    if (this.count > 0) this.write(0xff, 8 - this.count);
+  }
+}
+
+function segment(marker: number, body: number[]): number[] {
+  const length = body.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...body];
+}
+
+/**
+ * JPEG of flat 8×8 blocks. Every block is DC-only, so it decodes exactly:
+ * with a DC quantizer of 8 the sample is the coefficient plus 128. DC
+ * categories use 4-bit codes, the AC table only end-of-block ('0').
+ */
+function jpeg(width: number, height: number, components: TestComponent[], options: EncodeOptions = {}): Uint8Array {
+  const maxH = Math.max(...components.map(c => c.h));
+  const maxV = Math.max(...components.map(c => c.v));
+  const single = components.length === 1;
+  const mcusX = single ? Math.ceil(width / 8) : Math.ceil(width / (8 * maxH));
+  const mcusY = single ? Math.ceil(height / 8) : Math.ceil(height / (8 * maxV));
+
+  const quant = [8, ...new Array(63).fill(1)];
+  const dcCounts = [0, 0, 0, 12, ...new Array(12).fill(0)];
+  const acCounts = [1, ...new Array(15).fill(0)];
+
+  const bits = new BitWriter();
+  const entropy: number[] = [];
+  const predictors = components.map(() => 0);
+  let mcu = 0;
+  for (let my = 0; my < mcusY; my++) {
+    for (let mx = 0; mx < mcusX; mx++) {
+      if (options.restartInterval && mcu > 0 && mcu % options.restartInterval === 0) {
+        bits.align();
+        bits.bytes.push(0xff, 0xd0 + ((mcu / options.restartInterval - 1) & 7));
+        predictors.fill(0);
+      }
+      components.forEach((c, ci) => {
+        const [h, v] = single ? [1, 1] : [c.h, c.v];
+        for (let by = 0; by < v; by++) {
+          for (let bx = 0; bx < h; bx++) {
+            const coefficient = c.level(mx * h + bx, my * v + by) - 128;
+            const diff = coefficient - predictors[ci];
+            predictors[ci] = coefficient;
+            const category = diff === 0 ? 0 : Math.floor(Math.log2(Math.abs(diff))) + 1;
+            bits.write(category, 4);
+            if (category > 0) bits.write(diff < 0 ? diff + (1 << category) - 1 : diff, category);
+            if (!options.progressive) bits.write(0, 1);
+          }
+        }
+      });
+      mcu++;
+    }
+  }
+  bits.align();
+  entropy.push(...bits.bytes);
+
+  return Uint8Array.from([
+    0xff, 0xd8,
+    ...segment(0xe0, [0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1, 0, 1, 0, 0]),
+    ...segment(0xdb, [0, ...quant]),
+    ...segment(options.progressive ? 0xc2 : 0xc0, [
+      8, height >> 8, height & 0xff, width >> 8, width & 0xff, components.length,
+      ...components.flatMap(c => [c.id, (c.h << 4) | c.v, 0]),
+    ]),
+    ...segment(0xc4, [0x00, ...dcCounts, ...Array.from({ length: 12 }, (_, i) => i), 0x10, ...acCounts, 0x00]),
+    ...(options.restartInterval ? segment(0xdd, [options.restartInterval >> 8, options.restartInterval & 0xff]) : []),
+    ...segment(0xda, [
+      components.length,
+      ...components.flatMap(c => [c.id, 0x00]),
+      0, options.progressive ? 0 : 63, 0,
+    ]),
+    ...entropy,
+    0xff, 0xd9,
+  ]);
+}
+
+function pixel(image: { width: number; data: Uint8Array }, x: number, y: number): number[] {
+  const at = (y * image.width + x) * 4;
+  return Array.from(image.data.subarray(at, at + 4));
+}
+
+/** Greyscale blocks stepping up by 40 per block */
+const grey: TestComponent[] = [{ id: 1, h: 1, v: 1, level: (bx, by) => 20 + 40 * (bx + 2 * by) }];
+
+/** 4:2:0 colour: Y steps per block, one chroma pair per 16×16 MCU */
+const colour: TestComponent[] = [
+  { id: 1, h: 2, v: 2, level: (bx, by) => 60 + 30 * bx + 10 * by },
+  { id: 2, h: 1, v: 1, level: () => 128 },
+  { id: 3, h: 1, v: 1, level: bx => (bx === 0 ? 128 : 178) },
+];
+
+describe('readJPEGInfo', () => {
+  it('reads the frame header without decoding', () => {
+    const file = jpeg(20, 12, colour);
+    expect(isJPEG(file)).toBe(true);
+    expect(isJPEG(Uint8Array.from([0x89, 0x50]))).toBe(false);
+    expect(readJPEGInfo(file)).toEqual({ format: 'jpeg', bitDepth: 8, width: 20, height: 12, channels: 3, progressive: false });
+    expect(readJPEGInfo(jpeg(8, 8, grey, { progressive: true })).progressive).toBe(true);
+  });
+});
+
+describe('decodeJPEG', () => {
+  it('decodes greyscale blocks exactly', () => {
+    const image = decodeJPEG(jpeg(16, 16, grey));
+
+    expect(image.width).toBe(16);
+    expect(image.height).toBe(16);
+    expect(pixel(image, 0, 0)).toEqual([20, 20, 20, 255]);
+    expect(pixel(image, 15, 0)).toEqual([60, 60, 60, 255]);
+    expect(pixel(image, 3, 12)).toEqual([100, 100, 100, 255]);
+    expect(pixel(image, 12, 12)).toEqual([140, 140, 140, 255]);
+  });
+
+  it('upsamples 4:2:0 chroma, converts YCbCr and crops partial MCUs', () => {
+    const image = decodeJPEG(jpeg(20, 12, colour));
+
+    expect(image.width).toBe(20);
+    expect(image.data.length).toBe(20 * 12 * 4);
+    // Neutral chroma in the first MCU: grey at the Y level of each block
+    expect(pixel(image, 0, 0)).toEqual([60, 60, 60, 255]);
+    expect(pixel(image, 9, 0)).toEqual([90, 90, 90, 255]);
+    expect(pixel(image, 9, 9)).toEqual([100, 100, 100, 255]);
+
+    // Cr = 178 in the second MCU: R = Y + 1.402·50, G = Y − 0.714·50
+    const [r, g, b] = pixel(image, 19, 11);
+    expect(r).toBe(Math.round(130 + 1.402 * 50));
+    expect(g).toBe(Math.round(130 - 0.714136 * 50));
+    expect(b).toBe(130);
+  });
+
+  it('resets the DC predictors at restart markers', () => {
+    const plain = decodeJPEG(jpeg(20, 12, colour));
+    const restarted = decodeJPEG(jpeg(20, 12, colour, { restartInterval: 1 }));
+    expect(Array.from(restarted.data)).toEqual(Array.from(plain.data));
+
+    const greyRestarted = decodeJPEG(jpeg(16, 16, grey, { restartInterval: 3 }));
+    expect(Array.from(greyRestarted.data)).toEqual(Array.from(decodeJPEG(jpeg(16, 16, grey)).data));
+  });
+
+  it('decodes a progressive DC scan', () => {
+    const progressive = decodeJPEG(jpeg(20, 12, colour, { progressive: true }));
+    expect(Array.from(progressive.data)).toEqual(Array.from(decodeJPEG(jpeg(20, 12, colour)).data));
+  });
+
+  it('rejects files that are not JPEG', () => {
+    expect(() => decodeJPEG(Uint8Array.from([0, 1, 2, 3]))).toThrow('Not a JPEG file');
+    expect(() => decodeJPEG(Uint8Array.from([0xff, 0xd8, 0xff, 0xd9]))).toThrow('no frame header');
+  });
+});
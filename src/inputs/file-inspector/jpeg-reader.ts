@@ -0,0 +1,776 @@
+/**
+ * JPEG Reader
+ *
+ * Decodes baseline and progressive JPEG (8-bit, Huffman) to RGBA, including
+ * chroma subsampling, restart intervals, greyscale and Adobe CMYK/YCCK.
+ * Also reads EXIF camera data (make, model, focal length, orientation).
+ */
+
+import type { RasterImage, ImageInfo } from './types';
+import { readTIFFTags } from './tiff-reader';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Zigzag index → natural (row-major) coefficient index */
+const ZIGZAG = new Int32Array([
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+]);
+
+/** Codes up to this length decode with a single table lookup */
+const LOOKUP_BITS = 9;
+
+/** AAN IDCT input scale factors: cos(kπ/16)·√2, with 1 for k = 0 */
+const AAN_SCALE = [1.0, 1.387039845, 1.306562965, 1.175875602, 1.0, 0.785694958, 0.541196100, 0.275899379];
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface Huffman {
+  // Canonical decoding per ITU T.81 F.2.2.3
+  maxCode: Int32Array;     // by code length 1..16, -1 when none
+  valPtr: Int32Array;
+  minCode: Int32Array;
+  values: Uint8Array;
+  lookup: Uint16Array;     // next LOOKUP_BITS bits → (length << 8) | value, 0 when longer
+}
+
+interface Component {
+  id: number;
+  h: number;
+  v: number;
+  quantTable: number;
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  blocksPerLineAlloc: number;   // padded to whole MCUs
+  coefficients: Int16Array;     // 64 per block, zigzag order
+  dcTable?: Huffman;
+  acTable?: Huffman;
+  pred: number;
+}
+
+interface Frame {
+  width: number;
+  height: number;
+  progressive: boolean;
+  components: Component[];
+  maxH: number;
+  maxV: number;
+  mcusPerLine: number;
+  mcusPerColumn: number;
+}
+
+// =============================================================================
+// HUFFMAN
+// =============================================================================
+
+function buildHuffman(counts: Uint8Array, values: Uint8Array): Huffman {
+  const maxCode = new Int32Array(18).fill(-1);
+  const valPtr = new Int32Array(17);
+  const minCode = new Int32Array(17);
+  let code = 0;
+  let k = 0;
+  for (let len = 1; len <= 16; len++) {
+    valPtr[len] = k;
+    minCode[len] = code;
+    code += counts[len - 1];
+    k += counts[len - 1];
+    if (counts[len - 1] > 0) maxCode[len] = code - 1;
+    code <<= 1;
+  }
+  maxCode[17] = 0x7fffffff;
+
+  const lookup = new Uint16Array(1 << LOOKUP_BITS);
+  code = 0;
+  k = 0;
+  for (let len = 1; len <= LOOKUP_BITS; len++) {
+    for (let i = 0; i < counts[len - 1]; i++, k++, code++) {
+      const shift = LOOKUP_BITS - len;
+      for (let fill = 0; fill < 1 << shift; fill++) {
+        lookup[(code << shift) | fill] = (len << 8) | values[k];
+      }
+    }
+    code <<= 1;
+  }
+
+  return { maxCode, valPtr, minCode, values, lookup };
+}
+
+/**
+ * Entropy-coded segment reader: removes 0xFF00 stuffing and stops at markers
+ */
+class BitReader {
+  pos: number;
+  private bitBuf = 0;
+  private bitCount = 0;
+  marker = 0;
+
+  constructor(private data: Uint8Array, start: number) {
+    this.pos = start;
+  }
+
+  private fill(): void {
+    while (this.bitCount <= 24) {
+      let byte = 0;
+      if (this.marker === 0 && this.pos < this.data.length) {
+        byte = this.data[this.pos];
+        if (byte === 0xff) {
+          const next = this.data[this.pos + 1];
+          if (next === 0) {
+            this.pos += 2;
+          } else {
+            // Marker: feed zeros until the scan is resynchronised
+            this.marker = next;
+            byte = 0;
+          }
+        } else {
+          this.pos++;
+        }
+      }
+      this.bitBuf |= byte << (24 - this.bitCount);
+      this.bitCount += 8;
+    }
+  }
+
+  bit(): number {
+    if (this.bitCount === 0) this.fill();
+    const value = this.bitBuf >>> 31;
+    this.bitBuf <<= 1;
+    this.bitCount--;
+    return value;
+  }
+
+  bits(n: number): number {
+    if (n === 0) return 0;
+    if (this.bitCount < n) this.fill();
+    const value = this.bitBuf >>> (32 - n);
+    this.bitBuf <<= n;
+    this.bitCount -= n;
+    return value;
+  }
+
+  /** Receive `n` bits and sign-extend per T.81 F.2.2.1 */
+  receiveExtend(n: number): number {
+    if (n === 0) return 0;
+    const value = this.bits(n);
+    return value < 1 << (n - 1) ? value - (1 << n) + 1 : value;
+  }
+
+  decode(huffman: Huffman): number {
+    if (this.bitCount < LOOKUP_BITS) this.fill();
+    const entry = huffman.lookup[this.bitBuf >>> (32 - LOOKUP_BITS)];
+    if (entry !== 0) {
+      const len = entry >> 8;
+      this.bitBuf <<= len;
+      this.bitCount -= len;
+      return entry & 0xff;
+    }
+
+    let code = 0;
+    for (let len = 1; len <= 16; len++) {
+      code = (code << 1) | this.bit();
+      if (code <= huffman.maxCode[len]) {
+        return huffman.values[huffman.valPtr[len] + code - huffman.minCode[len]];
+      }
+    }
+    // Corrupt data: treat as zero-length symbol rather than failing the image
+    return 0;
+  }
+
+  /** Skip to the next RSTn marker and reset the bit buffer */
+  restart(): void {
+    this.bitBuf = 0;
+    this.bitCount = 0;
+    if (this.marker === 0) {
+      while (this.pos + 1 < this.data.length && !(this.data[this.pos] === 0xff && this.data[this.pos + 1] >= 0xd0 && this.data[this.pos + 1] <= 0xd7)) {
+        this.pos++;
+      }
+    }
+    if (this.data[this.pos] === 0xff && this.data[this.pos + 1] >= 0xd0 && this.data[this.pos + 1] <= 0xd7) {
+      this.pos += 2;
+    }
+    this.marker = 0;
+  }
+}
+
+// =============================================================================
+// SCAN DECODING
+// =============================================================================
+
+interface ScanParams {
+  components: Component[];
+  spectralStart: number;
+  spectralEnd: number;
+  approxHigh: number;
+  approxLow: number;
+  restartInterval: number;
+}
+
+/**
+ * Decode one scan into the components' coefficient buffers; returns the
+ * position after the entropy-coded data
+ */
+function decodeScan(data: Uint8Array, start: number, frame: Frame, scan: ScanParams): number {
+  const reader = new BitReader(data, start);
+  const { components, spectralStart, spectralEnd, approxHigh, approxLow } = scan;
+  let eobrun = 0;
+
+  const decodeBaseline = (c: Component, offset: number) => {
+    const coeffs = c.coefficients;
+    const t = reader.decode(c.dcTable!);
+    c.pred += reader.receiveExtend(t);
+    coeffs[offset] = c.pred;
+    for (let k = 1; k < 64;) {
+      const rs = reader.decode(c.acTable!);
+      const s = rs & 15;
+      const r = rs >> 4;
+      if (s === 0) {
+        if (r < 15) break;
+        k += 16;
+        continue;
+      }
+      k += r;
+      if (k > 63) break;
+      coeffs[offset + k] = reader.receiveExtend(s);
+      k++;
+    }
+  };
+
+  const decodeDCFirst = (c: Component, offset: number) => {
+    const t = reader.decode(c.dcTable!);
+    c.pred += reader.receiveExtend(t);
+    c.coefficients[offset] = c.pred << approxLow;
+  };
+
+  const decodeDCRefine = (c: Component, offset: number) => {
+    if (reader.bit()) c.coefficients[offset] |= 1 << approxLow;
+  };
+
+  const decodeACFirst = (c: Component, offset: number) => {
+    if (eobrun > 0) {
+      eobrun--;
+      return;
+    }
+    const coeffs = c.coefficients;
+    for (let k = spectralStart; k <= spectralEnd;) {
+      const rs = reader.decode(c.acTable!);
+      const s = rs & 15;
+      const r = rs >> 4;
+      if (s === 0) {
+        if (r < 15) {
+          eobrun = (1 << r) - 1 + reader.bits(r);
+          break;
+        }
+        k += 16;
+        continue;
+      }
+      k += r;
+      if (k > 63) break;
+      coeffs[offset + k] = reader.receiveExtend(s) * (1 << approxLow);
+      k++;
+    }
+  };
+
+  const decodeACRefine = (c: Component, offset: number) => {
+    const coeffs = c.coefficients;
+    const p1 = 1 << approxLow;
+    const m1 = -1 << approxLow;
+    let k = spectralStart;
+
+    // Refine a non-zero coefficient's correction bit
+    const refine = (index: number) => {
+      if (reader.bit() && (coeffs[index] & p1) === 0) {
+        coeffs[index] += coeffs[index] >= 0 ? p1 : m1;
+      }
+    };
+
+    if (eobrun <= 0) {
+      for (; k <= spectralEnd;) {
+        const rs = reader.decode(c.acTable!);
+        const s = rs & 15;
+        let r = rs >> 4;
+        let value = 0;
+        if (s === 0) {
+          if (r < 15) {
+            eobrun = (1 << r) + reader.bits(r);
+            break;
+          }
+          // ZRL: skip 16 zero coefficients, refining non-zero ones on the way
+        } else {
+          value = reader.bit() ? p1 : m1;
+        }
+
+        while (k <= spectralEnd) {
+          const index = offset + k;
+          if (coeffs[index] !== 0) {
+            refine(index);
+          } else {
+            if (r === 0) {
+              if (value !== 0) coeffs[index] = value;
+              k++;
+              break;
+            }
+            r--;
+          }
+          k++;
+        }
+      }
+    }
+
+    if (eobrun > 0) {
+      // Remaining band only carries correction bits
+      for (; k <= spectralEnd; k++) {
+        const index = offset + k;
+        if (coeffs[index] !== 0) refine(index);
+      }
+      eobrun--;
+    }
+  };
+
+  const progressive = frame.progressive;
+  const decodeBlock = !progressive
+    ? decodeBaseline
+    : spectralStart === 0
+      ? (approxHigh === 0 ? decodeDCFirst : decodeDCRefine)
+      : (approxHigh === 0 ? decodeACFirst : decodeACRefine);
+
+  const blockOffset = (c: Component, row: number, col: number) => (row * c.blocksPerLineAlloc + col) * 64;
+
+  let mcuCount: number;
+  let decodeMCU: (mcu: number) => void;
+  if (components.length === 1) {
+    // Non-interleaved: one block per MCU, covering only the component's real blocks
+    const c = components[0];
+    mcuCount = c.blocksPerLine * c.blocksPerColumn;
+    decodeMCU = mcu => {
+      const row = Math.floor(mcu / c.blocksPerLine);
+      const col = mcu % c.blocksPerLine;
+      decodeBlock(c, blockOffset(c, row, col));
+    };
+  } else {
+    mcuCount = frame.mcusPerLine * frame.mcusPerColumn;
+    decodeMCU = mcu => {
+      const mcuRow = Math.floor(mcu / frame.mcusPerLine);
+      const mcuCol = mcu % frame.mcusPerLine;
+      for (const c of components) {
+        for (let v = 0; v < c.v; v++) {
+          for (let h = 0; h < c.h; h++) {
+            decodeBlock(c, blockOffset(c, mcuRow * c.v + v, mcuCol * c.h + h));
+          }
+        }
+      }
+    };
+  }
+
+  const interval = scan.restartInterval || mcuCount;
+  for (let mcu = 0; mcu < mcuCount; mcu++) {
+    if (mcu > 0 && mcu % interval === 0) {
+      reader.restart();
+      for (const c of components) c.pred = 0;
+      eobrun = 0;
+    }
+    decodeMCU(mcu);
+  }
+
+  // Find the marker that ends the entropy-coded data
+  let pos = reader.pos;
+  while (pos + 1 < data.length && !(data[pos] === 0xff && data[pos + 1] !== 0 && !(data[pos + 1] >= 0xd0 && data[pos + 1] <= 0xd7))) {
+    pos++;
+  }
+  return pos;
+}
+
+// =============================================================================
+// RECONSTRUCTION
+// =============================================================================
+
+/**
+ * Dequantize and inverse-DCT every block of a component into an 8-bit plane
+ * (AAN floating-point IDCT, as in libjpeg's jidctflt)
+ */
+function componentPlane(c: Component, quant: Int32Array): { plane: Uint8Array; stride: number } {
+  const stride = c.blocksPerLineAlloc * 8;
+  const rows = c.coefficients.length / 64 / c.blocksPerLineAlloc;
+  const plane = new Uint8Array(stride * rows * 8);
+  const block = new Float32Array(64);
+  const ws = new Float32Array(64);
+
+  // Quantizer in natural order with the AAN scaling folded in
+  const scaledQuant = new Float32Array(64);
+  for (let k = 0; k < 64; k++) {
+    const n = ZIGZAG[k];
+    scaledQuant[n] = quant[k] * AAN_SCALE[n >> 3] * AAN_SCALE[n & 7];
+  }
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < c.blocksPerLineAlloc; col++) {
+      const offset = (row * c.blocksPerLineAlloc + col) * 64;
+      block.fill(0);
+      for (let k = 0; k < 64; k++) {
+        const coefficient = c.coefficients[offset + k];
+        if (coefficient !== 0) {
+          const n = ZIGZAG[k];
+          block[n] = coefficient * scaledQuant[n];
+        }
+      }
+
+      // Columns
+      for (let x = 0; x < 8; x++) {
+        if (block[8 + x] === 0 && block[16 + x] === 0 && block[24 + x] === 0 && block[32 + x] === 0 &&
+            block[40 + x] === 0 && block[48 + x] === 0 && block[56 + x] === 0) {
+          const dc = block[x];
+          for (let y = 0; y < 64; y += 8) ws[y + x] = dc;
+          continue;
+        }
+        idct1D(block, ws, x, 8);
+      }
+
+      // Rows, then level shift
+      const out = row * 8 * stride + col * 8;
+      for (let y = 0; y < 8; y++) {
+        idct1D(ws, ws, y * 8, 1);
+        for (let x = 0; x < 8; x++) {
+          const value = Math.round(ws[y * 8 + x] / 8 + 128);
+          plane[out + y * stride + x] = value < 0 ? 0 : value > 255 ? 255 : value;
+        }
+      }
+    }
+  }
+
+  return { plane, stride };
+}
+
+/**
+ * One 8-point AAN inverse DCT along `step` from `base`
+ */
+function idct1D(input: Float32Array, output: Float32Array, base: number, step: number): void {
+  const i0 = input[base], i1 = input[base + step], i2 = input[base + 2 * step], i3 = input[base + 3 * step];
+  const i4 = input[base + 4 * step], i5 = input[base + 5 * step], i6 = input[base + 6 * step], i7 = input[base + 7 * step];
+
+  // Even part
+  const tmp10 = i0 + i4;
+  const tmp11 = i0 - i4;
+  const tmp13 = i2 + i6;
+  const tmp12 = (i2 - i6) * 1.414213562 - tmp13;
+  const e0 = tmp10 + tmp13;
+  const e3 = tmp10 - tmp13;
+  const e1 = tmp11 + tmp12;
+  const e2 = tmp11 - tmp12;
+
+  // Odd part
+  const z13 = i5 + i3;
+  const z10 = i5 - i3;
+  const z11 = i1 + i7;
+  const z12 = i1 - i7;
+  const o7 = z11 + z13;
+  const t11 = (z11 - z13) * 1.414213562;
+  const z5 = (z10 + z12) * 1.847759065;
+  const t10 = 1.082392200 * z12 - z5;
+  const t12 = -2.613125930 * z10 + z5;
+  const o6 = t12 - o7;
+  const o5 = t11 - o6;
+  const o4 = t10 + o5;
+
+  output[base] = e0 + o7;
+  output[base + 7 * step] = e0 - o7;
+  output[base + step] = e1 + o6;
+  output[base + 6 * step] = e1 - o6;
+  output[base + 2 * step] = e2 + o5;
+  output[base + 5 * step] = e2 - o5;
+  output[base + 4 * step] = e3 + o4;
+  output[base + 3 * step] = e3 - o4;
+}
+
+// =============================================================================
+// DECODER
+// =============================================================================
+
+export function isJPEG(bytes: Uint8Array): boolean {
+  return bytes[0] === 0xff && bytes[1] === 0xd8;
+}
+
+/**
+ * Walk the marker segments before the first scan
+ */
+function readSegments(
+  bytes: Uint8Array,
+  onSegment: (marker: number, start: number, length: number) => boolean | void
+): void {
+  if (!isJPEG(bytes)) throw new Error('Not a JPEG file');
+  let pos = 2;
+  while (pos + 4 <= bytes.length) {
+    if (bytes[pos] !== 0xff) {
+      pos++;
+      continue;
+    }
+    const marker = bytes[pos + 1];
+    if (marker === 0xff) {
+      pos++;
+      continue;
+    }
+    if (marker === 0xd8 || (marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      pos += 2;
+      continue;
+    }
+    if (marker === 0xd9) return;
+    const length = (bytes[pos + 2] << 8) | bytes[pos + 3];
+    if (onSegment(marker, pos + 4, length - 2) === false) return;
+    pos += 2 + length;
+  }
+}
+
+function readExif(bytes: Uint8Array, start: number, length: number): ImageInfo['exif'] {
+  if (length < 14 || String.fromCharCode(...bytes.subarray(start, start + 4)) !== 'Exif') return undefined;
+  const tiff = bytes.subarray(start + 6, start + length);
+  const tags = readTIFFTags(tiff);
+  return {
+    make: tags.make,
+    model: tags.model,
+    orientation: tags.orientation,
+    focalLength: tags.focalLength,
+    focalLength35mm: tags.focalLength35mm,
+  };
+}
+
+/**
+ * Image dimensions, format and EXIF without decoding pixels
+ */
+export function readJPEGInfo(bytes: Uint8Array): ImageInfo {
+  let info: ImageInfo | null = null;
+  let exif: ImageInfo['exif'];
+  readSegments(bytes, (marker, start, length) => {
+    if (marker === 0xe1 && !exif) exif = readExif(bytes, start, length);
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      info = {
+        format: 'jpeg',
+        bitDepth: bytes[start],
+        height: (bytes[start + 1] << 8) | bytes[start + 2],
+        width: (bytes[start + 3] << 8) | bytes[start + 4],
+        channels: bytes[start + 5],
+        progressive: marker === 0xc2 || marker === 0xc6 || marker === 0xca || marker === 0xce,
+      };
+      return false;
+    }
+  });
+  if (!info) throw new Error('JPEG has no frame header');
+  return exif ? { ...(info as ImageInfo), exif } : info;
+}
+
+/**
+ * Decode a JPEG file to RGBA
+ */
+export function decodeJPEG(bytes: Uint8Array): RasterImage {
+  if (!isJPEG(bytes)) throw new Error('Not a JPEG file');
+
+  const quantTables: Int32Array[] = [];
+  const dcTables: Huffman[] = [];
+  const acTables: Huffman[] = [];
+  let frame: Frame | null = null;
+  let restartInterval = 0;
+  let adobeTransform = -1;
+  let jfif = false;
+
+  let pos = 2;
+  while (pos + 4 <= bytes.length) {
+    if (bytes[pos] !== 0xff) {
+      pos++;
+      continue;
+    }
+    const marker = bytes[pos + 1];
+    if (marker === 0xff || marker === 0xd8 || (marker >= 0xd0 && marker <= 0xd7)) {
+      pos += marker === 0xff ? 1 : 2;
+      continue;
+    }
+    if (marker === 0xd9) break;
+
+    const length = (bytes[pos + 2] << 8) | bytes[pos + 3];
+    const start = pos + 4;
+    const end = pos + 2 + length;
+
+    switch (marker) {
+      case 0xdb: { // DQT
+        for (let p = start; p < end;) {
+          const precision = bytes[p] >> 4;
+          const id = bytes[p] & 15;
+          const table = new Int32Array(64);
+          p++;
+          for (let k = 0; k < 64; k++) {
+            table[k] = precision ? (bytes[p] << 8) | bytes[p + 1] : bytes[p];
+            p += precision ? 2 : 1;
+          }
+          quantTables[id] = table;
+        }
+        break;
+      }
+
+      case 0xc4: { // DHT
+        for (let p = start; p < end;) {
+          const tableClass = bytes[p] >> 4;
+          const id = bytes[p] & 15;
+          const counts = bytes.slice(p + 1, p + 17);
+          const total = counts.reduce((a, b) => a + b, 0);
+          const huffman = buildHuffman(counts, bytes.slice(p + 17, p + 17 + total));
+          if (tableClass === 0) dcTables[id] = huffman;
+          else acTables[id] = huffman;
+          p += 17 + total;
+        }
+        break;
+      }
+
+      case 0xdd: // DRI
+        restartInterval = (bytes[start] << 8) | bytes[start + 1];
+        break;
+
+      case 0xe0:
+        if (String.fromCharCode(...bytes.subarray(start, start + 4)) === 'JFIF') jfif = true;
+        break;
+
+      case 0xee:
+        if (String.fromCharCode(...bytes.subarray(start, start + 5)) === 'Adobe') adobeTransform = bytes[start + 11];
+        break;
+
+      case 0xc0:
+      case 0xc1:
+      case 0xc2: {
+        if (bytes[start] !== 8) throw new Error(`Unsupported JPEG precision ${bytes[start]}`);
+        const height = (bytes[start + 1] << 8) | bytes[start + 2];
+        const width = (bytes[start + 3] << 8) | bytes[start + 4];
+        const count = bytes[start + 5];
+        if (height === 0) throw new Error('JPEG with DNL-defined height is not supported');
+        const components: Component[] = [];
+        for (let i = 0; i < count; i++) {
+          const p = start + 6 + i * 3;
+          components.push({
+            id: bytes[p],
+            h: bytes[p + 1] >> 4,
+            v: bytes[p + 1] & 15,
+            quantTable: bytes[p + 2],
+            blocksPerLine: 0,
+            blocksPerColumn: 0,
+            blocksPerLineAlloc: 0,
+            coefficients: new Int16Array(0),
+            pred: 0,
+          });
+        }
+        const maxH = Math.max(...components.map(c => c.h));
+        const maxV = Math.max(...components.map(c => c.v));
+        const mcusPerLine = Math.ceil(width / (8 * maxH));
+        const mcusPerColumn = Math.ceil(height / (8 * maxV));
+        for (const c of components) {
+          c.blocksPerLine = Math.ceil(Math.ceil(width * c.h / maxH) / 8);
+          c.blocksPerColumn = Math.ceil(Math.ceil(height * c.v / maxV) / 8);
+          c.blocksPerLineAlloc = mcusPerLine * c.h;
+          c.coefficients = new Int16Array(c.blocksPerLineAlloc * mcusPerColumn * c.v * 64);
+        }
+        frame = { width, height, progressive: marker === 0xc2, components, maxH, maxV, mcusPerLine, mcusPerColumn };
+        break;
+      }
+
+      case 0xc3:
+      case 0xc5:
+      case 0xc6:
+      case 0xc7:
+      case 0xc9:
+      case 0xca:
+      case 0xcb:
+      case 0xcd:
+      case 0xce:
+      case 0xcf:
+        throw new Error('Lossless, hierarchical and arithmetic-coded JPEGs are not supported');
+
+      case 0xda: { // SOS
+        if (!frame) throw new Error('JPEG scan before frame header');
+        const count = bytes[start];
+        const components: Component[] = [];
+        for (let i = 0; i < count; i++) {
+          const id = bytes[start + 1 + i * 2];
+          const tables = bytes[start + 2 + i * 2];
+          const c = frame.components.find(comp => comp.id === id);
+          if (!c) throw new Error(`JPEG scan references unknown component ${id}`);
+          c.dcTable = dcTables[tables >> 4];
+          c.acTable = acTables[tables & 15];
+          c.pred = 0;
+          components.push(c);
+        }
+        const p = start + 1 + count * 2;
+        pos = decodeScan(bytes, end, frame, {
+          components,
+          spectralStart: bytes[p],
+          spectralEnd: bytes[p + 1],
+          approxHigh: bytes[p + 2] >> 4,
+          approxLow: bytes[p + 2] & 15,
+          restartInterval,
+        });
+        continue;
+      }
+    }
+
+    pos = end;
+  }
+
+  if (!frame) throw new Error('JPEG has no frame header');
+  return toRGBA(frame, quantTables, adobeTransform, jfif);
+}
+
+function toRGBA(frame: Frame, quantTables: Int32Array[], adobeTransform: number, jfif: boolean): RasterImage {
+  const { width, height, components, maxH, maxV } = frame;
+  const planes = components.map(c => ({
+    ...componentPlane(c, quantTables[c.quantTable] ?? new Int32Array(64).fill(1)),
+    sx: c.h / maxH,
+    sy: c.v / maxV,
+  }));
+
+  const out = new Uint8Array(width * height * 4);
+  const clamp = (v: number) => v < 0 ? 0 : v > 255 ? 255 : Math.round(v);
+  // Component ids 'R','G','B' mark untransformed RGB
+  const rgbIds = components.length === 3 && components[0].id === 82 && components[1].id === 71 && components[2].id === 66;
+  const transform = components.length === 3
+    ? !rgbIds && (adobeTransform !== 0 || jfif)
+    : adobeTransform === 2;
+
+  // Nearest-neighbour upsampling of subsampled planes
+  const columnIndex = planes.map(p => {
+    const idx = new Int32Array(width);
+    for (let x = 0; x < width; x++) idx[x] = Math.min(Math.floor(x * p.sx), p.stride - 1);
+    return idx;
+  });
+
+  for (let y = 0; y < height; y++) {
+    const rows = planes.map(p => Math.floor(y * p.sy) * p.stride);
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      const c0 = planes[0].plane[rows[0] + columnIndex[0][x]];
+
+      if (components.length === 1) {
+        out[o] = out[o + 1] = out[o + 2] = c0;
+      } else {
+        const c1 = planes[1].plane[rows[1] + columnIndex[1][x]];
+        const c2 = planes[2].plane[rows[2] + columnIndex[2][x]];
+        let r = c0, g = c1, b = c2;
+        if (transform) {
+          r = clamp(c0 + 1.402 * (c2 - 128));
+          g = clamp(c0 - 0.344136 * (c1 - 128) - 0.714136 * (c2 - 128));
+          b = clamp(c0 + 1.772 * (c1 - 128));
+        }
+        if (components.length === 4) {
+          // Adobe CMYK is stored inverted
+          const k = planes[3].plane[rows[3] + columnIndex[3][x]];
+          r = clamp(r * k / 255);
+          g = clamp(g * k / 255);
+          b = clamp(b * k / 255);
+        }
+        out[o] = r;
+        out[o + 1] = g;
+        out[o + 2] = b;
+      }
+      out[o + 3] = 255;
+    }
+  }
+
+  return { width, height, data: out };
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { parseLASHeader, readLAS } from './las-reader';
+
+interface TestPoint {
+  x: number;
+  y: number;
+  z: number;
+  intensity: number;
+  classification: number;
+  rgb?: [number, number, number];
+}
+
+const HEADER_SIZE = 227;
+
+/**
+ * LAS 1.2 file in point format 0 or 2, with 1 mm scale and the given offset
+ * (metres). `compressed` sets the LAZ bit of the point format.
+ */
+function las(points: TestPoint[], options: { format?: 0 | 2; offset?: [number, number, number]; compressed?: boolean; declared?: number } = {}): Uint8Array {
+  const format = options.format ?? 2;
+  const recordLength = format === 2 ? 26 : 20;
+  const [ox, oy, oz] = options.offset ?? [0, 0, 0];
+  const bytes = new Uint8Array(HEADER_SIZE + points.length * recordLength);
+  const view = new DataView(bytes.buffer);
+
+  bytes.set(Array.from('LASF', c => c.charCodeAt(0)), 0);
+  view.setUint8(24, 1);
+  view.setUint8(25, 2);
+  bytes.set(Array.from('test scanner', c => c.charCodeAt(0)), 26);
+  view.setUint16(94, HEADER_SIZE, true);
+  view.setUint32(96, HEADER_SIZE, true);
+  view.setUint32(100, 0, true);
+  view.setUint8(104, format | (options.compressed ? 0x80 : 0));
+  view.setUint16(105, recordLength, true);
+  view.setUint32(107, options.declared ?? points.length, true);
+  [0.001, 0.001, 0.001].forEach((s, i) => view.setFloat64(131 + 8 * i, s, true));
+  [ox, oy, oz].forEach((o, i) => view.setFloat64(155 + 8 * i, o, true));
+
+  points.forEach((p, i) => {
+    const at = HEADER_SIZE + i * recordLength;
+    view.setInt32(at, Math.round((p.x - ox) * 1000), true);
+    view.setInt32(at + 4, Math.round((p.y - oy) * 1000), true);
+    view.setInt32(at + 8, Math.round((p.z - oz) * 1000), true);
+    view.setUint16(at + 12, p.intensity, true);
+    view.setUint8(at + 15, p.classification);
+    if (format === 2 && p.rgb) {
+      p.rgb.forEach((c, k) => view.setUint16(at + 20 + 2 * k, c, true));
+    }
+  });
+  return bytes;
+}
+
+const survey: TestPoint[] = [
+  { x: 500123.456, y: 4100456.789, z: 12.5, intensity: 65535, classification: 2, rgb: [65535, 0, 32768] },
+  { x: 500124.001, y: 4100457.002, z: 15.25, intensity: 0, classification: 6, rgb: [0, 65535, 0] },
+  { x: 500125.5, y: 4100455.5, z: 13, intensity: 32768, classification: 1, rgb: [256, 512, 768] },
+];
+
+describe('parseLASHeader', () => {
+  it('reads the public header block', () => {
+    const header = parseLASHeader(las(survey, { offset: [500000, 4100000, 0] }));
+
+    expect(header.versionMajor).toBe(1);
+    expect(header.versionMinor).toBe(2);
+    expect(header.systemIdentifier).toBe('test scanner');
+    expect(header.pointDataFormat).toBe(2);
+    expect(header.pointDataRecordLength).toBe(26);
+    expect(header.pointCount).toBe(3);
+    expect(header.offset).toEqual({ x: 500000, y: 4100000, z: 0 });
+    expect(header.compressed).toBe(false);
+  });
+
+  it('rejects files without the LASF signature', () => {
+    expect(() => parseLASHeader(new Uint8Array(300))).toThrow('missing "LASF" signature');
+  });
+});
+
+describe('readLAS', () => {
+  it('applies scale and offset and converts metres to mm', async () => {
+    const cloud = await readLAS(las(survey, { offset: [500000, 4100000, 0] }));
+
+    expect(cloud.points).toHaveLength(3);
+    cloud.points.forEach((point, i) => {
+      expect(point.position.x).toBeCloseTo(survey[i].x * 1000, 3);
+      expect(point.position.y).toBeCloseTo(survey[i].y * 1000, 3);
+      expect(point.position.z).toBeCloseTo(survey[i].z * 1000, 3);
+    });
+    expect(cloud.bounds.min.z).toBeCloseTo(12500, 3);
+    expect(cloud.bounds.max.z).toBeCloseTo(15250, 3);
+    expect(cloud.metadata?.units).toBe('m');
+  });
+
+  it('honours an explicit unit override', async () => {
+    const cloud = await readLAS(las(survey.slice(0, 1)), { units: 'ft' });
+    expect(cloud.points[0].position.z).toBeCloseTo(12.5 * 304.8, 3);
+  });
+
+  it('maps classes, intensity and 16-bit color', async () => {
+    const cloud = await readLAS(las(survey));
+    const [ground, building, unclassified] = cloud.points;
+
+    expect(ground.classification).toBe('ground');
+    expect(building.classification).toBe('building');
+    expect(unclassified.classification).toBe('unclassified');
+    expect(ground.intensity).toBe(1);
+    expect(building.intensity).toBe(0);
+    expect(ground.color).toEqual({ r: 255, g: 0, b: 128 });
+    expect(unclassified.color).toEqual({ r: 1, g: 2, b: 3 });
+    expect(cloud.metadata?.classCounts).toEqual({ 1: 1, 2: 1, 6: 1 });
+  });
+
+  it('keeps 8-bit color written into the 16-bit fields', async () => {
+    const points = survey.map(p => ({ ...p, rgb: [200, 100, 50] as [number, number, number] }));
+    const cloud = await readLAS(las(points));
+    expect(cloud.points[0].color).toEqual({ r: 200, g: 100, b: 50 });
+  });
+
+  it('reads point format 0 without color', async () => {
+    const cloud = await readLAS(las(survey, { format: 0 }));
+    expect(cloud.points).toHaveLength(3);
+    expect(cloud.points[0].color).toBeUndefined();
+  });
+
+  it('decimates to maxPoints and warns about truncation', async () => {
+    const many = Array.from({ length: 10 }, (_, i) => ({ x: i, y: 0, z: 0, intensity: 0, classification: 1 }));
+    const decimated = await readLAS(las(many), { maxPoints: 4 });
+    expect(decimated.points.map(p => p.position.x)).toEqual([0, 3000, 6000, 9000]);
+
+    const truncated = await readLAS(las(many, { declared: 12 }));
+    expect(truncated.points).toHaveLength(10);
+    expect(truncated.metadata?.warnings).toContain('LAS file truncated: 10 of 12 point records present');
+  });
+
+  it('needs a decompressor for LAZ point data', async () => {
+    const laz = las(survey, { compressed: true });
+    await expect(readLAS(laz)).rejects.toThrow('LASzip-compressed');
+
+    // Stand-in decompressor: the records are stored uncompressed
+    const cloud = await readLAS(laz, { decompress: records => records });
+    expect(cloud.points).toHaveLength(3);
+    expect(cloud.metadata?.format).toBe('laz');
+  });
+});
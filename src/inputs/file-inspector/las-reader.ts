@@ -0,0 +1,305 @@
+/**
+ * LAS Reader
+ *
+ * Reads ASPRS LAS 1.0-1.4 point clouds (point data formats 0-10),
+ * applying header scale/offset and converting coordinates to mm.
+ * LAZ point data is not decoded here; it is read only through a
+ * caller-supplied LASzip decompressor (LASReadOptions.decompress).
+ */
+
+import type { Point3D } from '../../knowledge/types';
+import type { PointCloud, PointCloudPoint, PointClassification } from '../types';
+import type { LASHeader, LASReadOptions, ScanUnits } from './types';
+
+// =============================================================================
+// FORMAT TABLES
+// =============================================================================
+
+/** Minimum record length per point data format */
+const POINT_RECORD_LENGTHS = [20, 28, 26, 34, 57, 63, 30, 36, 38, 59, 67];
+
+/** Byte offset of RGB within the record, for formats that carry it */
+const RGB_OFFSETS: Record<number, number> = { 2: 20, 3: 28, 5: 28, 7: 30, 8: 30, 10: 30 };
+
+/** ASPRS standard classes */
+const CLASSIFICATIONS: Record<number, PointClassification> = {
+  2: 'ground',
+  3: 'low-vegetation',
+  4: 'medium-vegetation',
+  5: 'high-vegetation',
+  6: 'building',
+  7: 'low-point',
+  9: 'water',
+  10: 'rail',
+  11: 'road',
+  13: 'wire',
+  14: 'wire',
+  15: 'structure',
+  16: 'wire',
+  17: 'bridge',
+};
+
+/** Millimeters per coordinate unit */
+export const SCAN_UNIT_SCALE: Record<ScanUnits, number> = {
+  'mm': 1,
+  'm': 1000,
+  'ft': 304.8,
+  'us-ft': 1200000 / 3937,
+};
+
+/** GeoTIFF ProjLinearUnitsGeoKey values */
+const GEOKEY_UNITS: Record<number, ScanUnits> = { 9001: 'm', 9002: 'ft', 9003: 'us-ft' };
+
+const LASZIP_RECORD_ID = 22204;
+const GEOKEY_DIRECTORY_RECORD_ID = 34735;
+const WKT_RECORD_ID = 2112;
+
+// =============================================================================
+// HEADER
+// =============================================================================
+
+/**
+ * Parse the LAS public header block and projection/compression VLRs
+ */
+export function parseLASHeader(bytes: Uint8Array): LASHeader {
+  if (bytes.length < 227 || ascii(bytes, 0, 4) !== 'LASF') {
+    throw new Error('Not a LAS file: missing "LASF" signature');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const versionMajor = view.getUint8(24);
+  const versionMinor = view.getUint8(25);
+  const headerSize = view.getUint16(94, true);
+  const rawFormat = view.getUint8(104);
+
+  // LAZ sets bit 7 (and historically bit 6) of the point format
+  const pointDataFormat = rawFormat & 0x3f;
+  if (pointDataFormat >= POINT_RECORD_LENGTHS.length) {
+    throw new Error(`Unsupported LAS point data format ${pointDataFormat}`);
+  }
+
+  const legacyCount = view.getUint32(107, true);
+  const pointCount = versionMinor >= 4 && headerSize >= 255 && legacyCount === 0
+    ? Number(view.getBigUint64(247, true))
+    : legacyCount;
+
+  const header: LASHeader = {
+    versionMajor,
+    versionMinor,
+    systemIdentifier: ascii(bytes, 26, 32),
+    generatingSoftware: ascii(bytes, 58, 32),
+    pointDataFormat,
+    pointDataRecordLength: view.getUint16(105, true),
+    pointCount,
+    offsetToPointData: view.getUint32(96, true),
+    scale: { x: view.getFloat64(131, true), y: view.getFloat64(139, true), z: view.getFloat64(147, true) },
+    offset: { x: view.getFloat64(155, true), y: view.getFloat64(163, true), z: view.getFloat64(171, true) },
+    max: { x: view.getFloat64(179, true), y: view.getFloat64(195, true), z: view.getFloat64(211, true) },
+    min: { x: view.getFloat64(187, true), y: view.getFloat64(203, true), z: view.getFloat64(219, true) },
+    compressed: (rawFormat & 0xc0) !== 0,
+  };
+
+  // Variable length records
+  const vlrCount = view.getUint32(100, true);
+  let offset = headerSize;
+  for (let i = 0; i < vlrCount && offset + 54 <= bytes.length; i++) {
+    const userId = ascii(bytes, offset + 2, 16);
+    const recordId = view.getUint16(offset + 18, true);
+    const length = view.getUint16(offset + 20, true);
+    const data = offset + 54;
+
+    if (userId === 'laszip encoded' && recordId === LASZIP_RECORD_ID) {
+      header.compressed = true;
+    } else if (userId === 'LASF_Projection' && data + length <= bytes.length) {
+      if (recordId === WKT_RECORD_ID) {
+        const wkt = ascii(bytes, data, length);
+        header.crs = wkt;
+        header.linearUnits ??= wktUnits(wkt);
+      } else if (recordId === GEOKEY_DIRECTORY_RECORD_ID) {
+        applyGeoKeys(header, new DataView(bytes.buffer, bytes.byteOffset + data, length));
+      }
+    }
+
+    offset = data + length;
+  }
+
+  return header;
+}
+
+// =============================================================================
+// READER
+// =============================================================================
+
+/**
+ * Read a LAS/LAZ file into a point cloud (coordinates in mm)
+ */
+export async function readLAS(
+  data: ArrayBuffer | Uint8Array,
+  options: LASReadOptions = {}
+): Promise<PointCloud> {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const header = parseLASHeader(bytes);
+  const warnings: string[] = [];
+
+  let records = bytes.subarray(header.offsetToPointData);
+  if (header.compressed) {
+    if (!options.decompress) {
+      throw new Error('LAZ point data is LASzip-compressed; supply a decompressor or convert to LAS');
+    }
+    records = await options.decompress(records, header);
+  }
+
+  const recordLength = header.pointDataRecordLength;
+  if (recordLength < POINT_RECORD_LENGTHS[header.pointDataFormat]) {
+    throw new Error(`LAS record length ${recordLength} too short for point format ${header.pointDataFormat}`);
+  }
+
+  let count = header.pointCount;
+  const available = Math.floor(records.length / recordLength);
+  if (available < count) {
+    warnings.push(`LAS file truncated: ${available} of ${count} point records present`);
+    count = available;
+  }
+
+  const stride = options.maxPoints && count > options.maxPoints ? Math.ceil(count / options.maxPoints) : 1;
+  if (stride > 1) {
+    warnings.push(`Decimated ${count} points by ${stride} to stay under ${options.maxPoints}`);
+  }
+
+  const units = options.units ?? header.linearUnits ?? 'm';
+  const mm = SCAN_UNIT_SCALE[units];
+  const view = new DataView(records.buffer, records.byteOffset, records.byteLength);
+  const format = header.pointDataFormat;
+  const rgbOffset = RGB_OFFSETS[format];
+  const extended = format >= 6;
+  const { scale, offset } = header;
+
+  // 16-bit color is the norm; older writers store 8-bit values in the 16-bit fields
+  let colorShift = 0;
+  if (rgbOffset !== undefined) {
+    for (let i = 0; i < count; i += stride) {
+      const at = i * recordLength + rgbOffset;
+      if (view.getUint16(at, true) > 255 || view.getUint16(at + 2, true) > 255 || view.getUint16(at + 4, true) > 255) {
+        colorShift = 8;
+        break;
+      }
+    }
+  }
+
+  const points: PointCloudPoint[] = [];
+  const classCounts: Record<number, number> = {};
+  const min = { x: Infinity, y: Infinity, z: Infinity };
+  const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+
+  for (let i = 0; i < count; i += stride) {
+    const at = i * recordLength;
+    const position = {
+      x: (view.getInt32(at, true) * scale.x + offset.x) * mm,
+      y: (view.getInt32(at + 4, true) * scale.y + offset.y) * mm,
+      z: (view.getInt32(at + 8, true) * scale.z + offset.z) * mm,
+    };
+    const classCode = extended ? view.getUint8(at + 16) : view.getUint8(at + 15) & 0x1f;
+    classCounts[classCode] = (classCounts[classCode] ?? 0) + 1;
+
+    const point: PointCloudPoint = {
+      position,
+      intensity: view.getUint16(at + 12, true) / 65535,
+      classification: CLASSIFICATIONS[classCode] ?? 'unclassified',
+    };
+    if (rgbOffset !== undefined) {
+      const rgb = at + rgbOffset;
+      point.color = {
+        r: view.getUint16(rgb, true) >> colorShift,
+        g: view.getUint16(rgb + 2, true) >> colorShift,
+        b: view.getUint16(rgb + 4, true) >> colorShift,
+      };
+    }
+    points.push(point);
+
+    min.x = Math.min(min.x, position.x); max.x = Math.max(max.x, position.x);
+    min.y = Math.min(min.y, position.y); max.y = Math.max(max.y, position.y);
+    min.z = Math.min(min.z, position.z); max.z = Math.max(max.z, position.z);
+  }
+
+  const bounds = points.length > 0
+    ? { min, max }
+    : { min: { x: 0, y: 0, z: 0 }, max: { x: 0, y: 0, z: 0 } };
+
+  return {
+    id: `las-${Date.now()}`,
+    source: {
+      type: 'lidar',
+      scanner: header.systemIdentifier || undefined,
+    },
+    points,
+    bounds,
+    density: cloudDensity(points.length, bounds),
+    crs: header.crs,
+    metadata: {
+      format: header.compressed ? 'laz' : 'las',
+      version: `${header.versionMajor}.${header.versionMinor}`,
+      pointDataFormat: format,
+      generatingSoftware: header.generatingSoftware,
+      units,
+      totalPoints: header.pointCount,
+      decimation: stride,
+      classCounts,
+      warnings,
+    },
+  };
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Points per cubic meter for bounds in mm
+ */
+export function cloudDensity(count: number, bounds: { min: Point3D; max: Point3D }): number {
+  const volume =
+    (bounds.max.x - bounds.min.x) *
+    (bounds.max.y - bounds.min.y) *
+    (bounds.max.z - bounds.min.z);
+  return volume > 0 ? count / (volume / 1e9) : 0;
+}
+
+function applyGeoKeys(header: LASHeader, keys: DataView): void {
+  if (keys.byteLength < 8) return;
+  const count = keys.getUint16(6, true);
+
+  for (let i = 0; i < count && 8 + i * 8 + 8 <= keys.byteLength; i++) {
+    const entry = 8 + i * 8;
+    const keyId = keys.getUint16(entry, true);
+    const location = keys.getUint16(entry + 2, true);
+    const value = keys.getUint16(entry + 6, true);
+    if (location !== 0) continue; // value stored elsewhere
+
+    if (keyId === 3072 || keyId === 2048) {
+      // ProjectedCSTypeGeoKey / GeographicTypeGeoKey
+      header.crs ??= `EPSG:${value}`;
+    } else if (keyId === 3076 && GEOKEY_UNITS[value]) {
+      header.linearUnits = GEOKEY_UNITS[value];
+    }
+  }
+}
+
+function wktUnits(wkt: string): ScanUnits | undefined {
+  // The last UNIT in a projected CRS is the linear unit
+  const units = Array.from(wkt.matchAll(/UNIT\[\s*"([^"]+)"/gi), m => m[1].toLowerCase());
+  const linear = units[units.length - 1];
+  if (!linear) return undefined;
+  if (linear.includes('us survey foot') || linear.includes('foot_us')) return 'us-ft';
+  if (linear.includes('foot') || linear.includes('feet')) return 'ft';
+  if (linear.startsWith('met') || linear === 'm') return 'm';
+  return undefined;
+}
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  let text = '';
+  for (let i = offset; i < offset + length && i < bytes.length; i++) {
+    if (bytes[i] === 0) break;
+    text += String.fromCharCode(bytes[i]);
+  }
+  return text.trim();
+}
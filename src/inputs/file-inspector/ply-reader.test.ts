@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { parsePLY, parsePLYHeader, parsePLYStream } from './ply-reader';
+
+const asciiPLY = `ply
+format ascii 1.0
+comment two triangles of a square
+element vertex 4
+property float x
+property float y
+property float z
+property uchar red
+property uchar green
+property uchar blue
+element face 1
+property list uchar int vertex_indices
+end_header
+0 0 0 255 0 0
+1 0 0 0 255 0
+1 1 0 0 0 255
+0 1 0.5 10 20 30
+4 0 1 2 3
+`;
+
+/** Binary PLY with float x/y/z and float intensity, plus one triangle */
+function binaryPLY(littleEndian: boolean): Uint8Array {
+  const header = new TextEncoder().encode([
+    'ply',
+    `format binary_${littleEndian ? 'little' : 'big'}_endian 1.0`,
+    'element vertex 3',
+    'property float x',
+    'property float y',
+    'property float z',
+    'property float intensity',
+    'element face 1',
+    'property list uchar uint vertex_indices',
+    'end_header',
+    '',
+  ].join('\n'));
+
+  const vertices = [[1.5, -2, 3], [4, 5.25, -6], [7, 8, 9.5]];
+  const body = new DataView(new ArrayBuffer(3 * 16 + 1 + 3 * 4));
+  vertices.forEach((v, i) => {
+    v.forEach((c, k) => body.setFloat32(i * 16 + k * 4, c, littleEndian));
+    body.setFloat32(i * 16 + 12, i / 2, littleEndian);
+  });
+  body.setUint8(48, 3);
+  [2, 1, 0].forEach((index, k) => body.setUint32(49 + k * 4, index, littleEndian));
+
+  const bytes = new Uint8Array(header.length + body.byteLength);
+  bytes.set(header);
+  bytes.set(new Uint8Array(body.buffer), header.length);
+  return bytes;
+}
+
+describe('parsePLYHeader', () => {
+  it('waits for end_header before returning a header', () => {
+    const bytes = new TextEncoder().encode(asciiPLY);
+    expect(parsePLYHeader(bytes.subarray(0, 40))).toBeNull();
+
+    const header = parsePLYHeader(bytes)!;
+    expect(header.format).toBe('ascii');
+    expect(header.elements.map(e => [e.name, e.count])).toEqual([['vertex', 4], ['face', 1]]);
+  });
+});
+
+describe('parsePLY', () => {
+  it('reads ASCII vertices, colors and fan-triangulated faces', () => {
+    const data = parsePLY(asciiPLY);
+
+    expect(Array.from(data.points)).toEqual([0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0.5]);
+    expect(Array.from(data.colors!)).toEqual([255, 0, 0, 0, 255, 0, 0, 0, 255, 10, 20, 30]);
+    expect(data.numFaces).toBe(1);
+    expect(Array.from(data.faces!)).toEqual([0, 1, 2, 0, 2, 3]);
+    expect(data.normals).toBeUndefined();
+  });
+
+  it.each([true, false])('reads binary data (little endian: %s)', (littleEndian) => {
+    const data = parsePLY(binaryPLY(littleEndian));
+
+    expect(Array.from(data.points)).toEqual([1.5, -2, 3, 4, 5.25, -6, 7, 8, 9.5]);
+    expect(Array.from(data.intensity!)).toEqual([0, 0.5, 1]);
+    expect(Array.from(data.faces!)).toEqual([2, 1, 0]);
+  });
+
+  it('gives the same result when streamed in small chunks', async () => {
+    const bytes = binaryPLY(true);
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let pos = 0; pos < bytes.length; pos += 7) {
+          controller.enqueue(bytes.slice(pos, pos + 7));
+        }
+        controller.close();
+      },
+    });
+    const streamed = await parsePLYStream(stream);
+    const whole = parsePLY(bytes);
+
+    expect(Array.from(streamed.points)).toEqual(Array.from(whole.points));
+    expect(Array.from(streamed.faces!)).toEqual(Array.from(whole.faces!));
+  });
+
+  it('rejects files that are not PLY', () => {
+    expect(() => parsePLY('solid cube\nendsolid\n')).toThrow();
+  });
+});
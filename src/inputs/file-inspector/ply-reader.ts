@@ -0,0 +1,598 @@
+/**
+ * PLY Reader
+ *
+ * Header-driven parser for ASCII and binary (little/big endian) PLY files.
+ * Data is consumed in chunks, so large scans can be streamed without
+ * holding the whole file in memory.
+ */
+
+import type {
+  PLYData,
+  PLYElement,
+  PLYFormat,
+  PLYHeader,
+  PLYProperty,
+  PLYScalarType,
+} from './types';
+
+// =============================================================================
+// FORMAT TABLES
+// =============================================================================
+
+/** PLY type names (including the legacy aliases) */
+const SCALAR_TYPES: Record<string, PLYScalarType> = {
+  char: 'int8', int8: 'int8',
+  uchar: 'uint8', uint8: 'uint8',
+  short: 'int16', int16: 'int16',
+  ushort: 'uint16', uint16: 'uint16',
+  int: 'int32', int32: 'int32',
+  uint: 'uint32', uint32: 'uint32',
+  float: 'float32', float32: 'float32',
+  double: 'float64', float64: 'float64',
+};
+
+const SCALAR_SIZES: Record<PLYScalarType, number> = {
+  int8: 1, uint8: 1,
+  int16: 2, uint16: 2,
+  int32: 4, uint32: 4,
+  float32: 4, float64: 8,
+};
+
+/** Vertex property names and the output channel they feed */
+const VERTEX_CHANNELS: Record<string, VertexChannel> = {
+  x: 'x', y: 'y', z: 'z',
+  nx: 'nx', ny: 'ny', nz: 'nz',
+  normal_x: 'nx', normal_y: 'ny', normal_z: 'nz',
+  red: 'red', green: 'green', blue: 'blue',
+  r: 'red', g: 'green', b: 'blue',
+  diffuse_red: 'red', diffuse_green: 'green', diffuse_blue: 'blue',
+  intensity: 'intensity', scalar_intensity: 'intensity', reflectance: 'intensity',
+};
+
+type VertexChannel = 'x' | 'y' | 'z' | 'nx' | 'ny' | 'nz' | 'red' | 'green' | 'blue' | 'intensity';
+
+const CHANNEL_OFFSETS: Record<VertexChannel, number> = {
+  x: 0, y: 1, z: 2,
+  nx: 0, ny: 1, nz: 2,
+  red: 0, green: 1, blue: 2,
+  intensity: 0,
+};
+
+const FACE_INDEX_PROPERTIES = ['vertex_indices', 'vertex_index'];
+
+/** Give up looking for end_header after this many bytes */
+const MAX_HEADER_BYTES = 1 << 20;
+
+// =============================================================================
+// HEADER
+// =============================================================================
+
+/**
+ * Parse a PLY header; returns null if the header is not yet complete
+ */
+export function parsePLYHeader(bytes: Uint8Array): PLYHeader | null {
+  const text = latin1(bytes.subarray(0, Math.min(bytes.length, MAX_HEADER_BYTES)));
+  if (text.length >= 3 && !text.startsWith('ply')) {
+    throw new Error('Not a PLY file: missing "ply" magic number');
+  }
+
+  const end = /end_header[ \t]*\r?\n/.exec(text);
+  if (!end) {
+    if (bytes.length >= MAX_HEADER_BYTES) {
+      throw new Error('PLY header not terminated by end_header');
+    }
+    return null;
+  }
+
+  const lines = text.substring(0, end.index).split(/\r?\n/);
+
+  let format: PLYFormat | null = null;
+  let version = '';
+  const elements: PLYElement[] = [];
+  const comments: string[] = [];
+
+  for (const raw of lines.slice(1)) {
+    const line = raw.trim();
+    if (!line) continue;
+    const parts = line.split(/\s+/);
+
+    switch (parts[0]) {
+      case 'format':
+        if (parts[1] !== 'ascii' && parts[1] !== 'binary_little_endian' && parts[1] !== 'binary_big_endian') {
+          throw new Error(`Unsupported PLY format: ${parts[1]}`);
+        }
+        format = parts[1];
+        version = parts[2] ?? '1.0';
+        break;
+
+      case 'comment':
+      case 'obj_info':
+        comments.push(line.substring(parts[0].length).trim());
+        break;
+
+      case 'element': {
+        const count = parseInt(parts[2], 10);
+        if (!parts[1] || !Number.isFinite(count) || count < 0) {
+          throw new Error(`Invalid PLY element declaration: "${line}"`);
+        }
+        elements.push({ name: parts[1], count, properties: [] });
+        break;
+      }
+
+      case 'property': {
+        const element = elements[elements.length - 1];
+        if (!element) {
+          throw new Error(`PLY property declared before any element: "${line}"`);
+        }
+        element.properties.push(parseProperty(parts, line));
+        break;
+      }
+
+      default:
+        throw new Error(`Unrecognized PLY header line: "${line}"`);
+    }
+  }
+
+  if (!format) {
+    throw new Error('PLY header has no format line');
+  }
+
+  return { format, version, elements, comments, byteLength: end.index + end[0].length };
+}
+
+function parseProperty(parts: string[], line: string): PLYProperty {
+  if (parts[1] === 'list') {
+    const countType = SCALAR_TYPES[parts[2]];
+    const type = SCALAR_TYPES[parts[3]];
+    if (!countType || !type || !parts[4]) {
+      throw new Error(`Invalid PLY list property: "${line}"`);
+    }
+    if (countType === 'float32' || countType === 'float64') {
+      throw new Error(`PLY list count must be an integer type: "${line}"`);
+    }
+    return { name: parts[4], type, countType };
+  }
+
+  const type = SCALAR_TYPES[parts[1]];
+  if (!type || !parts[2]) {
+    throw new Error(`Invalid PLY property: "${line}"`);
+  }
+  return { name: parts[2], type };
+}
+
+// =============================================================================
+// READER
+// =============================================================================
+
+/**
+ * Incremental PLY reader: push chunks as they arrive, then finish()
+ */
+export class PLYReader {
+  private header: PLYHeader | null = null;
+  private headerBuffer: Uint8Array = new Uint8Array(0);
+
+  // Body state
+  private elementIndex = 0;
+  private recordIndex = 0;
+  private pending: Uint8Array = new Uint8Array(0);
+  private tokens: string[] = [];
+  private partialToken = '';
+  private decoder = new TextDecoder('latin1');
+
+  // Vertex layout
+  private vertexElement = -1;
+  private channels: Array<VertexChannel | null> = [];
+  private colorScale: number[] = [];
+
+  // Face layout
+  private faceElement = -1;
+  private faceProperty = -1;
+
+  // Output
+  private points = new Float32Array(0);
+  private normals?: Float32Array;
+  private colors?: Uint8Array;
+  private intensity?: Float32Array;
+  private faces = new Uint32Array(0);
+  private faceIndexCount = 0;
+  private polygonCount = 0;
+  private warnings: string[] = [];
+
+  /**
+   * Consume the next chunk of the file
+   */
+  push(chunk: Uint8Array): void {
+    if (chunk.length === 0) return;
+
+    if (!this.header) {
+      this.headerBuffer = concat(this.headerBuffer, chunk);
+      const header = parsePLYHeader(this.headerBuffer);
+      if (!header) return;
+
+      this.start(header);
+      chunk = this.headerBuffer.subarray(header.byteLength);
+      this.headerBuffer = new Uint8Array(0);
+    }
+
+    if (this.done()) return;
+
+    if (this.header!.format === 'ascii') {
+      this.pushText(this.decoder.decode(chunk, { stream: true }));
+    } else {
+      this.pushBinary(chunk);
+    }
+  }
+
+  /**
+   * Complete parsing and return the decoded data
+   */
+  finish(): PLYData {
+    if (!this.header) {
+      throw new Error(this.headerBuffer.length === 0 ? 'Empty PLY file' : 'PLY header not terminated by end_header');
+    }
+
+    if (this.header.format === 'ascii') {
+      // Flush the final token (file without trailing newline)
+      this.pushText(this.decoder.decode() + '\n');
+    }
+
+    const header = this.header;
+    const vertexCount = this.vertexElement >= 0 ? header.elements[this.vertexElement].count : 0;
+    let readVertices = vertexCount;
+
+    if (!this.done()) {
+      const element = header.elements[this.elementIndex];
+      this.warnings.push(`PLY file truncated: read ${this.recordIndex} of ${element.count} ${element.name} records`);
+      if (this.elementIndex === this.vertexElement) {
+        readVertices = this.recordIndex;
+      } else if (this.elementIndex < this.vertexElement) {
+        readVertices = 0;
+      }
+    } else if (this.pending.length > 0 || this.tokens.length > 0) {
+      this.warnings.push('PLY file has trailing data after the last element');
+    }
+
+    if (this.vertexElement < 0) {
+      this.warnings.push('PLY file has no vertex element');
+    }
+
+    return {
+      header,
+      points: this.points.slice(0, readVertices * 3),
+      normals: this.normals?.slice(0, readVertices * 3),
+      colors: this.colors?.slice(0, readVertices * 3),
+      intensity: this.intensity?.slice(0, readVertices),
+      faces: this.faceElement >= 0 ? this.faces.slice(0, this.faceIndexCount) : undefined,
+      numFaces: this.polygonCount,
+      warnings: this.warnings,
+    };
+  }
+
+  // ===========================================================================
+  // SETUP
+  // ===========================================================================
+
+  private start(header: PLYHeader): void {
+    this.header = header;
+    this.vertexElement = header.elements.findIndex(e => e.name === 'vertex');
+    this.faceElement = header.elements.findIndex(e => e.name === 'face');
+
+    if (this.vertexElement >= 0) {
+      const element = header.elements[this.vertexElement];
+      const names = new Set<VertexChannel>();
+      this.channels = element.properties.map(p => {
+        const channel = p.countType ? undefined : VERTEX_CHANNELS[p.name];
+        if (!channel || names.has(channel)) return null;
+        names.add(channel);
+        return channel;
+      });
+      this.colorScale = element.properties.map(p => colorScale(p.type));
+
+      for (const axis of ['x', 'y', 'z'] as const) {
+        if (!names.has(axis)) {
+          throw new Error(`PLY vertex element has no "${axis}" property`);
+        }
+      }
+
+      const n = element.count;
+      this.points = new Float32Array(n * 3);
+      if (names.has('nx') && names.has('ny') && names.has('nz')) {
+        this.normals = new Float32Array(n * 3);
+      }
+      if (names.has('red') && names.has('green') && names.has('blue')) {
+        this.colors = new Uint8Array(n * 3);
+      }
+      if (names.has('intensity')) {
+        this.intensity = new Float32Array(n);
+      }
+      // Drop partial channels so they are not written
+      this.channels = this.channels.map(c => {
+        if (c === 'nx' || c === 'ny' || c === 'nz') return this.normals ? c : null;
+        if (c === 'red' || c === 'green' || c === 'blue') return this.colors ? c : null;
+        return c;
+      });
+    }
+
+    if (this.faceElement >= 0) {
+      const element = header.elements[this.faceElement];
+      this.faceProperty = element.properties.findIndex(
+        p => p.countType !== undefined && FACE_INDEX_PROPERTIES.includes(p.name)
+      );
+      if (this.faceProperty < 0) {
+        this.warnings.push('PLY face element has no vertex_indices list; faces ignored');
+        this.faceElement = -1;
+      } else {
+        this.faces = new Uint32Array(element.count * 3);
+      }
+    }
+
+    this.skipEmptyElements();
+  }
+
+  private done(): boolean {
+    return this.elementIndex >= this.header!.elements.length;
+  }
+
+  private advance(): void {
+    this.recordIndex++;
+    if (this.recordIndex >= this.header!.elements[this.elementIndex].count) {
+      this.elementIndex++;
+      this.recordIndex = 0;
+      this.skipEmptyElements();
+    }
+  }
+
+  private skipEmptyElements(): void {
+    const elements = this.header!.elements;
+    while (this.elementIndex < elements.length && elements[this.elementIndex].count === 0) {
+      this.elementIndex++;
+    }
+  }
+
+  // ===========================================================================
+  // ASCII BODY
+  // ===========================================================================
+
+  private pushText(text: string): void {
+    const parts = (this.partialToken + text).split(/\s+/);
+    // Last piece may be cut mid-token unless the chunk ended on whitespace
+    this.partialToken = parts.pop() ?? '';
+    for (const part of parts) {
+      if (part) this.tokens.push(part);
+    }
+
+    let cursor = 0;
+    while (!this.done()) {
+      const next = this.readTextRecord(cursor);
+      if (next < 0) break;
+      cursor = next;
+      this.advance();
+    }
+    this.tokens = this.tokens.slice(cursor);
+  }
+
+  /**
+   * Read one record from the token queue; returns the next cursor or -1
+   * if the record is incomplete
+   */
+  private readTextRecord(cursor: number): number {
+    const element = this.header!.elements[this.elementIndex];
+    const tokens = this.tokens;
+
+    // Check completeness before writing anything
+    let end = cursor;
+    for (const property of element.properties) {
+      if (end >= tokens.length) return -1;
+      if (property.countType) {
+        const count = parseInt(tokens[end], 10);
+        end += 1 + count;
+        if (end > tokens.length) return -1;
+      } else {
+        end++;
+      }
+    }
+
+    let at = cursor;
+    element.properties.forEach((property, index) => {
+      if (property.countType) {
+        const count = parseInt(tokens[at++], 10);
+        const values = new Array<number>(count);
+        for (let i = 0; i < count; i++) values[i] = Number(tokens[at++]);
+        this.storeList(index, values);
+      } else {
+        this.storeScalar(index, Number(tokens[at++]));
+      }
+    });
+
+    return end;
+  }
+
+  // ===========================================================================
+  // BINARY BODY
+  // ===========================================================================
+
+  private pushBinary(chunk: Uint8Array): void {
+    const buffer = this.pending.length > 0 ? concat(this.pending, chunk) : chunk;
+    const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+    const littleEndian = this.header!.format === 'binary_little_endian';
+
+    let offset = 0;
+    while (!this.done()) {
+      const next = this.readBinaryRecord(view, offset, littleEndian);
+      if (next < 0) break;
+      offset = next;
+      this.advance();
+    }
+
+    // Keep the incomplete record for the next chunk (copy so the chunk can be released)
+    this.pending = buffer.slice(offset);
+  }
+
+  /**
+   * Read one record at offset; returns the next offset or -1 if the record
+   * is incomplete
+   */
+  private readBinaryRecord(view: DataView, offset: number, littleEndian: boolean): number {
+    const element = this.header!.elements[this.elementIndex];
+
+    // Check completeness before writing anything
+    let end = offset;
+    for (const property of element.properties) {
+      if (property.countType) {
+        const countSize = SCALAR_SIZES[property.countType];
+        if (end + countSize > view.byteLength) return -1;
+        const count = readScalar(view, end, property.countType, littleEndian);
+        end += countSize + count * SCALAR_SIZES[property.type];
+      } else {
+        end += SCALAR_SIZES[property.type];
+      }
+      if (end > view.byteLength) return -1;
+    }
+
+    let at = offset;
+    element.properties.forEach((property, index) => {
+      if (property.countType) {
+        const count = readScalar(view, at, property.countType, littleEndian);
+        at += SCALAR_SIZES[property.countType];
+        const size = SCALAR_SIZES[property.type];
+        const values = new Array<number>(count);
+        for (let i = 0; i < count; i++, at += size) {
+          values[i] = readScalar(view, at, property.type, littleEndian);
+        }
+        this.storeList(index, values);
+      } else {
+        this.storeScalar(index, readScalar(view, at, property.type, littleEndian));
+        at += SCALAR_SIZES[property.type];
+      }
+    });
+
+    return end;
+  }
+
+  // ===========================================================================
+  // OUTPUT
+  // ===========================================================================
+
+  private storeScalar(propertyIndex: number, value: number): void {
+    if (this.elementIndex !== this.vertexElement) return;
+    const channel = this.channels[propertyIndex];
+    if (!channel) return;
+
+    const i = this.recordIndex;
+    switch (channel) {
+      case 'x': case 'y': case 'z':
+        this.points[i * 3 + CHANNEL_OFFSETS[channel]] = value;
+        break;
+      case 'nx': case 'ny': case 'nz':
+        this.normals![i * 3 + CHANNEL_OFFSETS[channel]] = value;
+        break;
+      case 'red': case 'green': case 'blue':
+        this.colors![i * 3 + CHANNEL_OFFSETS[channel]] = Math.round(value * this.colorScale[propertyIndex]);
+        break;
+      case 'intensity':
+        this.intensity![i] = value;
+        break;
+    }
+  }
+
+  private storeList(propertyIndex: number, values: number[]): void {
+    if (this.elementIndex !== this.faceElement || propertyIndex !== this.faceProperty) return;
+
+    this.polygonCount++;
+    if (values.length < 3) return;
+
+    // Fan triangulation
+    const needed = this.faceIndexCount + (values.length - 2) * 3;
+    if (needed > this.faces.length) {
+      const grown = new Uint32Array(Math.max(needed, this.faces.length * 2));
+      grown.set(this.faces.subarray(0, this.faceIndexCount));
+      this.faces = grown;
+    }
+    for (let k = 1; k < values.length - 1; k++) {
+      this.faces[this.faceIndexCount++] = values[0];
+      this.faces[this.faceIndexCount++] = values[k];
+      this.faces[this.faceIndexCount++] = values[k + 1];
+    }
+  }
+}
+
+// =============================================================================
+// CONVENIENCE FUNCTIONS
+// =============================================================================
+
+/**
+ * Parse a complete PLY file held in memory
+ */
+export function parsePLY(content: ArrayBuffer | Uint8Array | string): PLYData {
+  const reader = new PLYReader();
+  reader.push(
+    typeof content === 'string'
+      ? new TextEncoder().encode(content)
+      : content instanceof Uint8Array ? content : new Uint8Array(content)
+  );
+  return reader.finish();
+}
+
+/**
+ * Parse a PLY file from a byte stream (e.g. File.stream())
+ */
+export async function parsePLYStream(stream: ReadableStream<Uint8Array>): Promise<PLYData> {
+  const reader = new PLYReader();
+  const source = stream.getReader();
+
+  for (;;) {
+    const { done, value } = await source.read();
+    if (done) break;
+    reader.push(value);
+  }
+
+  return reader.finish();
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function readScalar(view: DataView, offset: number, type: PLYScalarType, littleEndian: boolean): number {
+  switch (type) {
+    case 'int8': return view.getInt8(offset);
+    case 'uint8': return view.getUint8(offset);
+    case 'int16': return view.getInt16(offset, littleEndian);
+    case 'uint16': return view.getUint16(offset, littleEndian);
+    case 'int32': return view.getInt32(offset, littleEndian);
+    case 'uint32': return view.getUint32(offset, littleEndian);
+    case 'float32': return view.getFloat32(offset, littleEndian);
+    case 'float64': return view.getFloat64(offset, littleEndian);
+  }
+}
+
+/**
+ * Factor mapping a stored color value to 0-255
+ */
+function colorScale(type: PLYScalarType): number {
+  switch (type) {
+    case 'float32':
+    case 'float64':
+      return 255;
+    case 'uint16':
+    case 'int16':
+      return 255 / 65535;
+    default:
+      return 1;
+  }
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const out = new Uint8Array(a.length + b.length);
+  out.set(a, 0);
+  out.set(b, a.length);
+  return out;
+}
+
+function latin1(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return text;
+}
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import { decodePNG, inflate, isPNG, readPNGInfo } from './png-reader';
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+function hex(text: string): Uint8Array {
+  return Uint8Array.from(text.match(/../g)!.map(byte => parseInt(byte, 16)));
+}
+
+function ascii(text: string): Uint8Array {
+  return Uint8Array.from(text, c => c.charCodeAt(0));
+}
+
+function u32(value: number): number[] {
+  return [value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+/** Chunk with a zero CRC (the reader does not verify CRCs) */
+function chunk(type: string, data: ArrayLike<number>): number[] {
+  return [...u32(data.length), ...ascii(type), ...Array.from(data), 0, 0, 0, 0];
+}
+
+/** zlib stream of uncompressed (stored) deflate blocks */
+function zlibStored(data: Uint8Array): Uint8Array {
+  const out = [0x78, 0x01];
+  for (let pos = 0; pos < data.length || pos === 0; pos += 65535) {
+    const block = data.subarray(pos, pos + 65535);
+    const final = pos + 65535 >= data.length ? 1 : 0;
+    out.push(final, block.length & 0xff, block.length >> 8, ~block.length & 0xff, (~block.length >> 8) & 0xff, ...block);
+    if (final) break;
+  }
+  let a = 1;
+  let b = 0;
+  for (const byte of data) {
+    a = (a + byte) % 65521;
+    b = (b + a) % 65521;
+  }
+  out.push(...u32(((b << 16) | a) >>> 0));
+  return Uint8Array.from(out);
+}
+
+function png(width: number, height: number, colorType: number, bitDepth: number, raw: Uint8Array, extra: number[] = []): Uint8Array {
+  const ihdr = [...u32(width), ...u32(height), bitDepth, colorType, 0, 0, 0];
+  return Uint8Array.from([
+    ...SIGNATURE,
+    ...chunk('IHDR', ihdr),
+    ...extra,
+    ...chunk('IDAT', zlibStored(raw)),
+    ...chunk('IEND', []),
+  ]);
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+/** Filter RGB rows with the given filter type per row */
+function filterRows(pixels: number[][], filters: number[], bpp: number): Uint8Array {
+  const out: number[] = [];
+  pixels.forEach((row, y) => {
+    const above = y > 0 ? pixels[y - 1] : row.map(() => 0);
+    out.push(filters[y]);
+    row.forEach((value, x) => {
+      const left = x >= bpp ? row[x - bpp] : 0;
+      const upLeft = x >= bpp ? above[x - bpp] : 0;
+      const predictor = [0, left, above[x], (left + above[x]) >> 1, paeth(left, above[x], upLeft)][filters[y]];
+      out.push((value - predictor) & 0xff);
+    });
+  });
+  return Uint8Array.from(out);
+}
+
+describe('inflate', () => {
+  it('decodes fixed Huffman blocks with back-references', () => {
+    const compressed = hex('78da4b4c4a4e44450a19a93939f9c82400f9f30d81');
+    const text = String.fromCharCode(...inflate(compressed));
+    expect(text).toBe('abcabcabcabcabcabc hello hello hello');
+  });
+
+  it('decodes dynamic Huffman blocks', () => {
+    const words = ['beam', 'column', 'stair', 'ramp', 'duct', 'pipe', 'weld', 'plate', 'bolt', 'shaft'];
+    const expected: string[] = [];
+    for (let i = 0, x = 1; i < 200; i++) {
+      x = (x * 75 + 74) % 65537;
+      expected.push(words[x % 10]);
+    }
+    const compressed = hex(
+      '78da6d53d11283200cfb157e0d95ddbcc3c929de7e7f5bda9920be20a56d9ab6717fc6470d3bce329714a663ac618b4bf147b9ee35ce5b18d7' +
+      '7c2c2f37de294f7a1dd65c0d624871710f6c80c30d44982c2881664b6db84a8e3519a8130096397145fd8e2d32fa64ff4801946dbd80b55ceb' +
+      '13b880b1eec40619da4efaec591f49465e71b541c1ef141a836d221ae491225bd01acda6108da3e362a7b1efb7cb4dd92c7f37e9b4212a44a8' +
+      'a3dbcaecc501281a19bb9e08a64264d3ce5fd52918ff8e5414a70ca54f326c547691b12cba13986f004e1215a970129a7099ad0d58a0a47dd3' +
+      '522b03ddfbddd0a910ae53b76f451820c338952bddf0afd37fe2fbfa01cf9c9173'
+    );
+    expect(String.fromCharCode(...inflate(compressed))).toBe(expected.join(' '));
+  });
+
+  it('decodes stored blocks', () => {
+    const data = Uint8Array.from({ length: 1000 }, (_, i) => (i * 31) & 0xff);
+    expect(inflate(zlibStored(data))).toEqual(data);
+  });
+
+  it('rejects a stream without a zlib header', () => {
+    expect(() => inflate(Uint8Array.from([1, 2, 3]))).toThrow('Invalid zlib header');
+  });
+});
+
+describe('decodePNG', () => {
+  it('reads header facts without decoding', () => {
+    const file = png(3, 4, 2, 8, new Uint8Array(4 * 10));
+    expect(isPNG(file)).toBe(true);
+    expect(isPNG(Uint8Array.from([0xff, 0xd8, 0xff]))).toBe(false);
+    expect(readPNGInfo(file)).toEqual({ format: 'png', width: 3, height: 4, channels: 3, bitDepth: 8 });
+  });
+
+  it('undoes every row filter', () => {
+    const pixels = [
+      [10, 20, 30, 40, 50, 60, 70, 80, 90],
+      [200, 100, 0, 15, 255, 35, 45, 55, 65],
+      [1, 2, 3, 250, 251, 252, 128, 64, 32],
+      [9, 8, 7, 6, 5, 4, 3, 2, 1],
+      [255, 0, 255, 0, 255, 0, 255, 0, 255],
+    ];
+    const image = decodePNG(png(3, 5, 2, 8, filterRows(pixels, [0, 1, 2, 3, 4], 3)));
+
+    expect(image.width).toBe(3);
+    expect(image.height).toBe(5);
+    pixels.forEach((row, y) => {
+      for (let x = 0; x < 3; x++) {
+        const at = (y * 3 + x) * 4;
+        expect(Array.from(image.data.subarray(at, at + 4))).toEqual([row[x * 3], row[x * 3 + 1], row[x * 3 + 2], 255]);
+      }
+    });
+  });
+
+  it('expands palette, transparency and sub-byte grey', () => {
+    const palette = chunk('PLTE', [255, 0, 0, 0, 0, 255]);
+    const alpha = chunk('tRNS', [255, 0]);
+    // 2-bit indices 0,1,1,0 packed into one byte
+    const indexed = decodePNG(png(4, 1, 3, 2, Uint8Array.from([0, 0b00010100]), [...palette, ...alpha]));
+    expect(Array.from(indexed.data)).toEqual([255, 0, 0, 255, 0, 0, 255, 0, 0, 0, 255, 0, 255, 0, 0, 255]);
+
+    // 1-bit grey: black, white
+    const grey = decodePNG(png(2, 1, 0, 1, Uint8Array.from([0, 0b01000000])));
+    expect(Array.from(grey.data)).toEqual([0, 0, 0, 255, 255, 255, 255, 255]);
+  });
+
+  it('reduces 16-bit samples to 8 bits', () => {
+    const image = decodePNG(png(1, 1, 6, 16, Uint8Array.from([0, 0x12, 0x34, 0xab, 0xcd, 0xff, 0xff, 0x80, 0x00])));
+    expect(Array.from(image.data)).toEqual([0x12, 0xab, 0xff, 0x80]);
+  });
+
+  it('rejects an indexed image without a palette', () => {
+    expect(() => decodePNG(png(1, 1, 3, 8, Uint8Array.from([0, 0])))).toThrow('missing its palette');
+  });
+});
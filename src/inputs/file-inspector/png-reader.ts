@@ -0,0 +1,405 @@
+/**
+ * PNG Reader
+ *
+ * Decodes PNG images (all colour types, bit depths 1-16, Adam7 interlacing)
+ * to 8-bit RGBA. Includes a synchronous zlib inflater so decoding works in
+ * workers and in Node without DecompressionStream.
+ */
+
+import type { RasterImage, ImageInfo } from './types';
+
+// =============================================================================
+// INFLATE (RFC 1950 / 1951)
+// =============================================================================
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+/**
+ * Huffman lookup table indexed by the next `bits` input bits (LSB first);
+ * each entry is (symbol << 4) | code length
+ */
+interface HuffmanTable {
+  table: Uint32Array;
+  bits: number;
+}
+
+function buildHuffman(lengths: ArrayLike<number>): HuffmanTable {
+  let maxBits = 0;
+  for (let i = 0; i < lengths.length; i++) maxBits = Math.max(maxBits, lengths[i]);
+  const bits = Math.max(1, maxBits);
+
+  const count = new Uint16Array(16);
+  for (let i = 0; i < lengths.length; i++) count[lengths[i]]++;
+  count[0] = 0;
+
+  const next = new Uint16Array(16);
+  let code = 0;
+  for (let len = 1; len <= 15; len++) {
+    code = (code + count[len - 1]) << 1;
+    next[len] = code;
+  }
+
+  const table = new Uint32Array(1 << bits);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    const len = lengths[symbol];
+    if (len === 0) continue;
+    // Codes are stored MSB-first; the bit reader is LSB-first
+    let reversed = 0;
+    let c = next[len]++;
+    for (let i = 0; i < len; i++) {
+      reversed = (reversed << 1) | (c & 1);
+      c >>= 1;
+    }
+    for (let i = reversed; i < table.length; i += 1 << len) {
+      table[i] = (symbol << 4) | len;
+    }
+  }
+
+  return { table, bits };
+}
+
+let fixedTables: { literal: HuffmanTable; distance: HuffmanTable } | null = null;
+
+function getFixedTables(): { literal: HuffmanTable; distance: HuffmanTable } {
+  if (!fixedTables) {
+    const literal = new Uint8Array(288);
+    literal.fill(8, 0, 144);
+    literal.fill(9, 144, 256);
+    literal.fill(7, 256, 280);
+    literal.fill(8, 280, 288);
+    fixedTables = { literal: buildHuffman(literal), distance: buildHuffman(new Uint8Array(30).fill(5)) };
+  }
+  return fixedTables;
+}
+
+/**
+ * Decompress a zlib stream
+ */
+export function inflate(input: Uint8Array, expectedSize = 0): Uint8Array {
+  if (input.length < 2 || (input[0] & 0x0f) !== 8 || ((input[0] << 8) | input[1]) % 31 !== 0) {
+    throw new Error('Invalid zlib header');
+  }
+
+  let out = new Uint8Array(Math.max(expectedSize, input.length * 4, 1024));
+  let outPos = 0;
+  let pos = 2;
+  let bitBuf = 0;
+  let bitCount = 0;
+
+  const ensure = (extra: number) => {
+    if (outPos + extra <= out.length) return;
+    const grown = new Uint8Array(Math.max(out.length * 2, outPos + extra));
+    grown.set(out.subarray(0, outPos));
+    out = grown;
+  };
+
+  const need = (n: number) => {
+    while (bitCount < n) {
+      bitBuf |= (pos < input.length ? input[pos] : 0) << bitCount;
+      pos++;
+      bitCount += 8;
+    }
+  };
+
+  const readBits = (n: number): number => {
+    if (n === 0) return 0;
+    need(n);
+    const value = bitBuf & ((1 << n) - 1);
+    bitBuf >>>= n;
+    bitCount -= n;
+    return value;
+  };
+
+  const decode = (huffman: HuffmanTable): number => {
+    need(huffman.bits);
+    const entry = huffman.table[bitBuf & ((1 << huffman.bits) - 1)];
+    const len = entry & 15;
+    if (len === 0) throw new Error('Invalid Huffman code in deflate stream');
+    bitBuf >>>= len;
+    bitCount -= len;
+    return entry >> 4;
+  };
+
+  let final = 0;
+  while (!final) {
+    if (pos > input.length + 4) throw new Error('Unexpected end of deflate stream');
+    final = readBits(1);
+    const type = readBits(2);
+
+    if (type === 0) {
+      // Stored block: give back whole prefetched bytes, discard to byte boundary
+      pos -= bitCount >> 3;
+      bitBuf = 0;
+      bitCount = 0;
+      const len = input[pos] | (input[pos + 1] << 8);
+      pos += 4;
+      ensure(len);
+      out.set(input.subarray(pos, pos + len), outPos);
+      outPos += len;
+      pos += len;
+      continue;
+    }
+
+    let literal: HuffmanTable;
+    let distance: HuffmanTable;
+    if (type === 1) {
+      ({ literal, distance } = getFixedTables());
+    } else if (type === 2) {
+      const hlit = readBits(5) + 257;
+      const hdist = readBits(5) + 1;
+      const hclen = readBits(4) + 4;
+      const codeLengths = new Uint8Array(19);
+      for (let i = 0; i < hclen; i++) codeLengths[CODE_LENGTH_ORDER[i]] = readBits(3);
+      const codeTable = buildHuffman(codeLengths);
+
+      const lengths = new Uint8Array(hlit + hdist);
+      for (let i = 0; i < lengths.length;) {
+        const symbol = decode(codeTable);
+        if (symbol < 16) {
+          lengths[i++] = symbol;
+        } else if (symbol === 16) {
+          const previous = lengths[i - 1];
+          for (let r = readBits(2) + 3; r > 0; r--) lengths[i++] = previous;
+        } else if (symbol === 17) {
+          i += readBits(3) + 3;
+        } else {
+          i += readBits(7) + 11;
+        }
+      }
+      literal = buildHuffman(lengths.subarray(0, hlit));
+      distance = buildHuffman(lengths.subarray(hlit));
+    } else {
+      throw new Error('Invalid deflate block type');
+    }
+
+    for (;;) {
+      const symbol = decode(literal);
+      if (symbol < 256) {
+        ensure(1);
+        out[outPos++] = symbol;
+      } else if (symbol === 256) {
+        break;
+      } else {
+        const li = symbol - 257;
+        const length = LENGTH_BASE[li] + readBits(LENGTH_EXTRA[li]);
+        const di = decode(distance);
+        const dist = DIST_BASE[di] + readBits(DIST_EXTRA[di]);
+        if (dist > outPos) throw new Error('Invalid deflate distance');
+        ensure(length);
+        for (let i = 0; i < length; i++, outPos++) out[outPos] = out[outPos - dist];
+      }
+    }
+  }
+
+  return out.subarray(0, outPos);
+}
+
+// =============================================================================
+// PNG
+// =============================================================================
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/** Samples per pixel for each colour type */
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/** Adam7 passes: x start, y start, x step, y step */
+const ADAM7 = [
+  [0, 0, 8, 8], [4, 0, 8, 8], [0, 4, 4, 8], [2, 0, 4, 4],
+  [0, 2, 2, 4], [1, 0, 2, 2], [0, 1, 1, 2],
+];
+
+export function isPNG(bytes: Uint8Array): boolean {
+  return PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+}
+
+interface PNGHeader {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlace: number;
+}
+
+function readHeader(bytes: Uint8Array): PNGHeader {
+  if (!isPNG(bytes)) throw new Error('Not a PNG file');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (String.fromCharCode(...bytes.subarray(12, 16)) !== 'IHDR') throw new Error('PNG is missing IHDR');
+  const header = {
+    width: view.getUint32(16),
+    height: view.getUint32(20),
+    bitDepth: bytes[24],
+    colorType: bytes[25],
+    interlace: bytes[28],
+  };
+  if (!(header.colorType in CHANNELS)) throw new Error(`Unsupported PNG colour type ${header.colorType}`);
+  return header;
+}
+
+/**
+ * Image dimensions and format without decoding pixels
+ */
+export function readPNGInfo(bytes: Uint8Array): ImageInfo {
+  const header = readHeader(bytes);
+  return {
+    format: 'png',
+    width: header.width,
+    height: header.height,
+    channels: header.colorType === 3 ? 3 : CHANNELS[header.colorType],
+    bitDepth: header.bitDepth,
+  };
+}
+
+/**
+ * Decode a PNG file to RGBA
+ */
+export function decodePNG(bytes: Uint8Array): RasterImage {
+  const header = readHeader(bytes);
+  const { width, height, bitDepth, colorType } = header;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  let palette: Uint8Array | null = null;
+  let paletteAlpha: Uint8Array | null = null;
+  let transparent: number[] | null = null;
+  const idat: Uint8Array[] = [];
+  let idatLength = 0;
+
+  for (let pos = 8; pos + 8 <= bytes.length;) {
+    const length = view.getUint32(pos);
+    const type = String.fromCharCode(bytes[pos + 4], bytes[pos + 5], bytes[pos + 6], bytes[pos + 7]);
+    const data = bytes.subarray(pos + 8, pos + 8 + length);
+    if (type === 'PLTE') {
+      palette = data;
+    } else if (type === 'tRNS') {
+      if (colorType === 3) {
+        paletteAlpha = data;
+      } else {
+        transparent = [];
+        for (let i = 0; i + 1 < data.length; i += 2) transparent.push((data[i] << 8) | data[i + 1]);
+      }
+    } else if (type === 'IDAT') {
+      idat.push(data);
+      idatLength += data.length;
+    } else if (type === 'IEND') {
+      break;
+    }
+    pos += 12 + length;
+  }
+
+  if (idat.length === 0) throw new Error('PNG has no image data');
+  if (colorType === 3 && !palette) throw new Error('Indexed PNG is missing its palette');
+
+  const compressed = new Uint8Array(idatLength);
+  let offset = 0;
+  for (const chunk of idat) {
+    compressed.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  const channels = CHANNELS[colorType];
+  const bitsPerPixel = channels * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const rowBytes = (w: number) => Math.ceil(w * bitsPerPixel / 8);
+
+  const expected = header.interlace
+    ? ADAM7.reduce((sum, [x0, y0, dx, dy]) => {
+      const w = Math.ceil((width - x0) / dx);
+      const h = Math.ceil((height - y0) / dy);
+      return w > 0 && h > 0 ? sum + h * (rowBytes(w) + 1) : sum;
+    }, 0)
+    : height * (rowBytes(width) + 1);
+  const raw = inflate(compressed, expected);
+  if (raw.length < expected) throw new Error('PNG image data is truncated');
+
+  const out = new Uint8Array(width * height * 4);
+  const maxSample = (1 << bitDepth) - 1;
+
+  const writePixel = (row: Uint8Array, x: number, dest: number) => {
+    const sample = (index: number): number => {
+      if (bitDepth === 8) return row[index];
+      if (bitDepth === 16) return (row[index * 2] << 8) | row[index * 2 + 1];
+      const bit = index * bitDepth;
+      return (row[bit >> 3] >> (8 - bitDepth - (bit & 7))) & maxSample;
+    };
+    const to8 = (v: number) => bitDepth === 16 ? v >> 8 : bitDepth === 8 ? v : Math.round(v * 255 / maxSample);
+    const base = x * channels;
+
+    if (colorType === 3) {
+      const index = sample(base);
+      out[dest] = palette![index * 3];
+      out[dest + 1] = palette![index * 3 + 1];
+      out[dest + 2] = palette![index * 3 + 2];
+      out[dest + 3] = paletteAlpha && index < paletteAlpha.length ? paletteAlpha[index] : 255;
+    } else if (colorType === 0 || colorType === 4) {
+      const g = sample(base);
+      out[dest] = out[dest + 1] = out[dest + 2] = to8(g);
+      out[dest + 3] = colorType === 4 ? to8(sample(base + 1)) : transparent && g === transparent[0] ? 0 : 255;
+    } else {
+      const r = sample(base), g = sample(base + 1), b = sample(base + 2);
+      out[dest] = to8(r);
+      out[dest + 1] = to8(g);
+      out[dest + 2] = to8(b);
+      out[dest + 3] = colorType === 6
+        ? to8(sample(base + 3))
+        : transparent && r === transparent[0] && g === transparent[1] && b === transparent[2] ? 0 : 255;
+    }
+  };
+
+  const passes = header.interlace ? ADAM7 : [[0, 0, 1, 1]];
+  let pos = 0;
+  for (const [x0, y0, dx, dy] of passes) {
+    const passWidth = Math.ceil((width - x0) / dx);
+    const passHeight = Math.ceil((height - y0) / dy);
+    if (passWidth <= 0 || passHeight <= 0) continue;
+
+    const stride = rowBytes(passWidth);
+    let previous = new Uint8Array(stride);
+    for (let y = 0; y < passHeight; y++) {
+      const filter = raw[pos++];
+      const row = raw.slice(pos, pos + stride);
+      pos += stride;
+      unfilter(filter, row, previous, bytesPerPixel);
+      for (let x = 0; x < passWidth; x++) {
+        writePixel(row, x, ((y0 + y * dy) * width + x0 + x * dx) * 4);
+      }
+      previous = row;
+    }
+  }
+
+  return { width, height, data: out };
+}
+
+function unfilter(filter: number, row: Uint8Array, previous: Uint8Array, bpp: number): void {
+  switch (filter) {
+    case 0:
+      return;
+    case 1: // Sub
+      for (let i = bpp; i < row.length; i++) row[i] = (row[i] + row[i - bpp]) & 0xff;
+      return;
+    case 2: // Up
+      for (let i = 0; i < row.length; i++) row[i] = (row[i] + previous[i]) & 0xff;
+      return;
+    case 3: // Average
+      for (let i = 0; i < row.length; i++) {
+        const left = i >= bpp ? row[i - bpp] : 0;
+        row[i] = (row[i] + ((left + previous[i]) >> 1)) & 0xff;
+      }
+      return;
+    case 4: // Paeth
+      for (let i = 0; i < row.length; i++) {
+        const a = i >= bpp ? row[i - bpp] : 0;
+        const b = previous[i];
+        const c = i >= bpp ? previous[i - bpp] : 0;
+        const p = a + b - c;
+        const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+        row[i] = (row[i] + (pa <= pb && pa <= pc ? a : pb <= pc ? b : c)) & 0xff;
+      }
+      return;
+    default:
+      throw new Error(`Invalid PNG filter type ${filter}`);
+  }
+}
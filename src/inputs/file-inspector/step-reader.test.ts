@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { flattenAssemblySolids, parseSTEPStructure } from './step-reader';
+
+function step(data: string[], schema = 'AUTOMOTIVE_DESIGN { 1 0 10303 214 1 1 1 1 }'): string {
+  return [
+    'ISO-10303-21;',
+    'HEADER;',
+    "FILE_DESCRIPTION(('test'),'2;1');",
+    `FILE_SCHEMA(('${schema}'));`,
+    'ENDSEC;',
+    'DATA;',
+    ...data,
+    'ENDSEC;',
+    'END-ISO-10303-21;',
+  ].join('\n');
+}
+
+/** Frame product holding two bracket instances, with an unnamed body of its own */
+const frame = step([
+  "#1=PRODUCT('frame','Frame','',(#100));",
+  "#2=PRODUCT_DEFINITION_FORMATION('','',#1);",
+  "#3=PRODUCT_DEFINITION('design','',#2,#101);",
+  "#4=PRODUCT_DEFINITION_SHAPE('','',#3);",
+  '#5=SHAPE_DEFINITION_REPRESENTATION(#4,#6);',
+  "#6=SHAPE_REPRESENTATION('',(#50),#60);",
+  "#7=SHAPE_REPRESENTATION_RELATIONSHIP('','',#6,#8);",
+  "#8=ADVANCED_BREP_SHAPE_REPRESENTATION('',(#9,#50),#60);",
+  "#9=MANIFOLD_SOLID_BREP('',#200);",
+  "#11=PRODUCT('bracket','Bracket','',(#100));",
+  "#12=PRODUCT_DEFINITION_FORMATION('','',#11);",
+  "#13=PRODUCT_DEFINITION('design','',#12,#101);",
+  "#14=PRODUCT_DEFINITION_SHAPE('','',#13);",
+  '#15=SHAPE_DEFINITION_REPRESENTATION(#14,#16);',
+  "#16=ADVANCED_BREP_SHAPE_REPRESENTATION('',(#17,#50),#60);",
+  "#17=MANIFOLD_SOLID_BREP('Bracket Body',#201);",
+  "#20=NEXT_ASSEMBLY_USAGE_OCCURRENCE('1','Left','',#3,#13,$);",
+  "#21=NEXT_ASSEMBLY_USAGE_OCCURRENCE('2','Right','',#3,#13,$);",
+  "#22=SHAPE_REPRESENTATION_RELATIONSHIP('','',#6,#16);",
+  "#50=AXIS2_PLACEMENT_3D('',#51,#52,#53);",
+  '#60=( GEOMETRIC_REPRESENTATION_CONTEXT(3) GLOBAL_UNIT_ASSIGNED_CONTEXT((#61)) REPRESENTATION_CONTEXT(\'\',\'\') );',
+  '#61=( LENGTH_UNIT() NAMED_UNIT(*) SI_UNIT(.MILLI.,.METRE.) );',
+]);
+
+describe('parseSTEPStructure', () => {
+  it('reads schema, length unit and the assembly tree', () => {
+    const structure = parseSTEPStructure(frame);
+
+    expect(structure.schema).toBe('AUTOMOTIVE_DESIGN');
+    expect(structure.units).toBe('mm');
+    expect(structure.assembly).toEqual([{
+      name: 'Frame',
+      instanceName: undefined,
+      // The unnamed body takes its product's name; the brackets' bodies stay with the brackets
+      solidNames: ['Frame'],
+      children: [
+        { name: 'Bracket', instanceName: 'Left', solidNames: ['Bracket Body'], children: [] },
+        { name: 'Bracket', instanceName: 'Right', solidNames: ['Bracket Body'], children: [] },
+      ],
+    }]);
+    expect(structure.solidNames).toEqual(['Solid #9', 'Bracket Body']);
+  });
+
+  it('flattens the tree to one name per solid instance', () => {
+    expect(flattenAssemblySolids(parseSTEPStructure(frame).assembly)).toEqual(['Frame', 'Bracket Body', 'Bracket Body']);
+  });
+
+  it('honors quoted strings and comments when splitting records', () => {
+    const structure = parseSTEPStructure(step([
+      "/* part; exported by hand */ #1=PRODUCT('p1','O''Brien; rev 2','',(#100));",
+      "#2=PRODUCT_DEFINITION_FORMATION('','',#1);",
+      "#3=PRODUCT_DEFINITION('design','',#2,#101);",
+      "#4=MANIFOLD_SOLID_BREP('Body /* 1 */',#200);",
+    ], 'CONFIG_CONTROL_DESIGN'));
+
+    expect(structure.schema).toBe('CONFIG_CONTROL_DESIGN');
+    expect(structure.assembly.map(node => node.name)).toEqual(["O'Brien; rev 2"]);
+    expect(structure.solidNames).toEqual(['Body /* 1 */']);
+  });
+
+  it('reads converted length units', () => {
+    const structure = parseSTEPStructure(step([
+      "#1=( CONVERSION_BASED_UNIT('INCH',#2) LENGTH_UNIT() NAMED_UNIT(#3) );",
+      '#2=LENGTH_MEASURE_WITH_UNIT(LENGTH_MEASURE(25.4),#4);',
+    ]));
+    expect(structure.units).toBe('in');
+  });
+
+  it('rejects files without the Part 21 header', () => {
+    expect(() => parseSTEPStructure('solid cube\nendsolid cube')).toThrow('Not a STEP file');
+  });
+});
@@ -0,0 +1,331 @@
+/**
+ * STEP Structure Reader
+ *
+ * Reads the product structure of an ISO 10303-21 (STEP) file without
+ * touching geometry: schema, length unit, named solids and the assembly
+ * tree (PRODUCT / NEXT_ASSEMBLY_USAGE_OCCURRENCE). Geometry itself is
+ * loaded by the OpenCascade kernel.
+ */
+
+import type { CADAssemblyNode, STEPStructure } from './types';
+
+// =============================================================================
+// PART 21 RECORDS
+// =============================================================================
+
+type StepValue = string | number | null | StepRef | StepEnum | StepValue[];
+
+interface StepRef {
+  ref: number;
+}
+
+interface StepEnum {
+  enum: string;
+}
+
+interface StepRecord {
+  name: string;
+  args: StepValue[];
+}
+
+/** Entities needed for product structure; everything else is skipped unparsed */
+const STRUCTURE_ENTITIES = new Set([
+  'PRODUCT',
+  'PRODUCT_DEFINITION_FORMATION',
+  'PRODUCT_DEFINITION_FORMATION_WITH_SPECIFIED_SOURCE',
+  'PRODUCT_DEFINITION',
+  'PRODUCT_DEFINITION_WITH_ASSOCIATED_DOCUMENTS',
+  'NEXT_ASSEMBLY_USAGE_OCCURRENCE',
+  'PRODUCT_DEFINITION_SHAPE',
+  'SHAPE_DEFINITION_REPRESENTATION',
+  'SHAPE_REPRESENTATION_RELATIONSHIP',
+  'SHAPE_REPRESENTATION',
+  'ADVANCED_BREP_SHAPE_REPRESENTATION',
+  'FACETED_BREP_SHAPE_REPRESENTATION',
+  'MANIFOLD_SURFACE_SHAPE_REPRESENTATION',
+  'MANIFOLD_SOLID_BREP',
+  'BREP_WITH_VOIDS',
+  'FACETED_BREP',
+]);
+
+const SOLID_ENTITIES = new Set(['MANIFOLD_SOLID_BREP', 'BREP_WITH_VOIDS', 'FACETED_BREP']);
+
+/** SI prefixes that appear on length units */
+const SI_PREFIXES: Record<string, string> = {
+  '': 'm',
+  'MILLI': 'mm',
+  'CENTI': 'cm',
+  'DECI': 'dm',
+  'KILO': 'km',
+  'MICRO': 'um',
+};
+
+/**
+ * Split the DATA section into `#id = ...;` records, honoring strings and comments
+ */
+function splitRecords(text: string, onRecord: (id: number, body: string) => void): void {
+  const start = text.search(/\bDATA\s*;/);
+  if (start < 0) return;
+
+  let i = text.indexOf(';', start) + 1;
+  let recordStart = i;
+  let hasComment = false;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === "'") {
+      i = findStringEnd(text, i) + 1;
+      continue;
+    }
+    if (ch === '/' && text[i + 1] === '*') {
+      const close = text.indexOf('*/', i + 2);
+      i = close < 0 ? text.length : close + 2;
+      hasComment = true;
+      continue;
+    }
+    if (ch === ';') {
+      let record = text.substring(recordStart, i);
+      if (hasComment) record = record.replace(/\/\*[\s\S]*?\*\//g, '');
+      const trimmed = record.trim();
+      if (/^ENDSEC$/i.test(trimmed)) return;
+      const eq = trimmed.indexOf('=');
+      if (trimmed[0] === '#' && eq > 0) {
+        onRecord(parseInt(trimmed.substring(1, eq), 10), trimmed.substring(eq + 1).trim());
+      }
+      recordStart = i + 1;
+      hasComment = false;
+    }
+    i++;
+  }
+}
+
+function findStringEnd(text: string, open: number): number {
+  let i = open + 1;
+  while (i < text.length) {
+    if (text[i] === "'") {
+      if (text[i + 1] === "'") {
+        i += 2;
+        continue;
+      }
+      return i;
+    }
+    i++;
+  }
+  return text.length - 1;
+}
+
+/**
+ * Parse a parameter list starting at the opening parenthesis
+ */
+function parseList(body: string, start: number): { values: StepValue[]; end: number } {
+  const values: StepValue[] = [];
+  let i = start + 1;
+
+  while (i < body.length) {
+    const ch = body[i];
+    if (ch === ')') return { values, end: i + 1 };
+    if (ch === ',' || ch === ' ' || ch === '\n' || ch === '\r' || ch === '\t') {
+      i++;
+      continue;
+    }
+
+    if (ch === "'") {
+      const close = findStringEnd(body, i);
+      values.push(body.substring(i + 1, close).replace(/''/g, "'"));
+      i = close + 1;
+    } else if (ch === '(') {
+      const nested = parseList(body, i);
+      values.push(nested.values);
+      i = nested.end;
+    } else if (ch === '#') {
+      const match = /^#(\d+)/.exec(body.substring(i, i + 16));
+      values.push({ ref: match ? parseInt(match[1], 10) : 0 });
+      i += match ? match[0].length : 1;
+    } else if (ch === '.') {
+      const close = body.indexOf('.', i + 1);
+      values.push({ enum: body.substring(i + 1, close) });
+      i = close + 1;
+    } else if (ch === '$' || ch === '*') {
+      values.push(null);
+      i++;
+    } else {
+      // Number or typed parameter such as LENGTH_MEASURE(1.0)
+      const match = /^[^,()]+/.exec(body.substring(i, i + 64));
+      const token = match ? match[0].trim() : '';
+      i += match ? match[0].length : 1;
+      if (body[i] === '(') {
+        const nested = parseList(body, i);
+        values.push(nested.values.length === 1 ? nested.values[0] : nested.values);
+        i = nested.end;
+      } else {
+        const n = parseFloat(token);
+        values.push(Number.isFinite(n) ? n : token);
+      }
+    }
+  }
+
+  return { values, end: body.length };
+}
+
+function ref(value: StepValue | undefined): number | undefined {
+  return value && typeof value === 'object' && 'ref' in value ? value.ref : undefined;
+}
+
+function text(value: StepValue | undefined): string {
+  return typeof value === 'string' ? value : '';
+}
+
+// =============================================================================
+// STRUCTURE
+// =============================================================================
+
+/**
+ * Read schema, units, solid names and the assembly tree from STEP text
+ */
+export function parseSTEPStructure(content: string): STEPStructure {
+  if (!/ISO-10303-21/.test(content.substring(0, 256))) {
+    throw new Error('Not a STEP file: missing ISO-10303-21 header');
+  }
+
+  const schemaMatch = /FILE_SCHEMA\s*\(\s*\(\s*'([A-Z0-9_]+)/i.exec(content);
+  const records = new Map<number, StepRecord>();
+  let units: string | undefined;
+
+  splitRecords(content, (id, body) => {
+    if (body.startsWith('(')) {
+      // Complex instance; only length units are of interest
+      if (!units && /\bLENGTH_UNIT\s*\(/.test(body)) {
+        units = lengthUnit(body);
+      }
+      return;
+    }
+
+    const paren = body.indexOf('(');
+    const name = body.substring(0, paren).trim().toUpperCase();
+    if (!STRUCTURE_ENTITIES.has(name)) return;
+    records.set(id, { name, args: parseList(body, paren).values });
+  });
+
+  // Product definitions and their names
+  const productName = new Map<number, string>();
+  for (const [id, record] of records) {
+    if (!record.name.startsWith('PRODUCT_DEFINITION') || record.name.startsWith('PRODUCT_DEFINITION_FORMATION')) continue;
+    if (record.name === 'PRODUCT_DEFINITION_SHAPE') continue;
+    const formation = records.get(ref(record.args[2]) ?? -1);
+    const product = records.get(ref(formation?.args[2]) ?? -1);
+    productName.set(id, text(product?.args[1]) || text(product?.args[0]) || `Product #${id}`);
+  }
+
+  // Representations owned by each product definition
+  const representationsOf = new Map<number, number[]>();
+  const owner = new Map<number, number>();
+  const links = new Map<number, number[]>();
+  for (const record of records.values()) {
+    if (record.name === 'SHAPE_DEFINITION_REPRESENTATION') {
+      const shape = records.get(ref(record.args[0]) ?? -1);
+      const definition = ref(shape?.args[2]);
+      const representation = ref(record.args[1]);
+      if (definition !== undefined && representation !== undefined && productName.has(definition)) {
+        representationsOf.set(definition, [...(representationsOf.get(definition) ?? []), representation]);
+        owner.set(representation, definition);
+      }
+    } else if (record.name === 'SHAPE_REPRESENTATION_RELATIONSHIP') {
+      const a = ref(record.args[2]);
+      const b = ref(record.args[3]);
+      if (a !== undefined && b !== undefined) {
+        links.set(a, [...(links.get(a) ?? []), b]);
+        links.set(b, [...(links.get(b) ?? []), a]);
+      }
+    }
+  }
+
+  const solidName = (id: number, fallback = `Solid #${id}`) => text(records.get(id)!.args[0]) || fallback;
+
+  const solidsOf = (definition: number): string[] => {
+    const names: string[] = [];
+    const seen = new Set<number>();
+    const queue = [...(representationsOf.get(definition) ?? [])];
+    while (queue.length > 0) {
+      const rep = queue.pop()!;
+      if (seen.has(rep)) continue;
+      seen.add(rep);
+      const record = records.get(rep);
+      const items = Array.isArray(record?.args[1]) ? record!.args[1] as StepValue[] : [];
+      for (const item of items) {
+        const itemId = ref(item);
+        if (itemId !== undefined && SOLID_ENTITIES.has(records.get(itemId)?.name ?? '')) {
+          names.push(solidName(itemId, productName.get(definition)));
+        }
+      }
+      for (const next of links.get(rep) ?? []) {
+        // Don't wander into another product's geometry
+        const nextOwner = owner.get(next);
+        if (nextOwner === undefined || nextOwner === definition) queue.push(next);
+      }
+    }
+    return names;
+  };
+
+  // Assembly usage
+  const usages = new Map<number, Array<{ child: number; instanceName: string }>>();
+  const used = new Set<number>();
+  for (const record of records.values()) {
+    if (record.name !== 'NEXT_ASSEMBLY_USAGE_OCCURRENCE') continue;
+    const parent = ref(record.args[3]);
+    const child = ref(record.args[4]);
+    if (parent === undefined || child === undefined) continue;
+    usages.set(parent, [...(usages.get(parent) ?? []), {
+      child,
+      instanceName: text(record.args[1]) || text(record.args[0]),
+    }]);
+    used.add(child);
+  }
+
+  const buildNode = (definition: number, instanceName: string | undefined, path: Set<number>): CADAssemblyNode => {
+    const nextPath = new Set(path).add(definition);
+    return {
+      name: productName.get(definition) ?? `Product #${definition}`,
+      instanceName,
+      solidNames: solidsOf(definition),
+      children: (usages.get(definition) ?? [])
+        .filter(usage => !nextPath.has(usage.child))
+        .map(usage => buildNode(usage.child, usage.instanceName, nextPath)),
+    };
+  };
+
+  const assembly = Array.from(productName.keys())
+    .filter(id => !used.has(id))
+    .map(id => buildNode(id, undefined, new Set()));
+
+  const solidNames = Array.from(records.entries())
+    .filter(([, record]) => SOLID_ENTITIES.has(record.name))
+    .map(([id]) => solidName(id));
+
+  return {
+    schema: schemaMatch?.[1].toUpperCase(),
+    units,
+    assembly,
+    solidNames,
+  };
+}
+
+/**
+ * Body names in assembly order, one per solid instance
+ */
+export function flattenAssemblySolids(nodes: CADAssemblyNode[]): string[] {
+  return nodes.flatMap(node => [...node.solidNames, ...flattenAssemblySolids(node.children)]);
+}
+
+function lengthUnit(body: string): string | undefined {
+  const si = /SI_UNIT\s*\(\s*(?:\.(\w+)\.|\$)\s*,\s*\.METRE\.\s*\)/i.exec(body);
+  if (si) {
+    return SI_PREFIXES[(si[1] ?? '').toUpperCase()] ?? `${si[1].toLowerCase()}m`;
+  }
+  const converted = /CONVERSION_BASED_UNIT\s*\(\s*'([^']*)'/i.exec(body);
+  if (converted) {
+    const name = converted[1].toLowerCase();
+    if (name.startsWith('inch')) return 'in';
+    if (name.startsWith('foot') || name === 'ft') return 'ft';
+    return name;
+  }
+  return undefined;
+}
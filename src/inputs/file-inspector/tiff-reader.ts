@@ -0,0 +1,116 @@
+/**
+ * TIFF Tag Reader
+ *
+ * Reads the IFD tags shared by TIFF files and JPEG EXIF blocks: image
+ * size and sample layout plus camera make, model, orientation and focal
+ * length. Pixel data is not decoded.
+ */
+
+import type { ImageInfo } from './types';
+
+export interface TIFFTags {
+  width?: number;
+  height?: number;
+  bitsPerSample?: number;
+  samplesPerPixel?: number;
+  make?: string;
+  model?: string;
+  orientation?: number;
+  focalLength?: number;
+  focalLength35mm?: number;
+}
+
+/** Byte size of each TIFF field type */
+const TYPE_SIZE: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+const EXIF_IFD_POINTER = 0x8769;
+
+export function isTIFF(bytes: Uint8Array): boolean {
+  return (bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 42 && bytes[3] === 0) ||
+         (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[2] === 0 && bytes[3] === 42);
+}
+
+/**
+ * Read IFD0 (and the EXIF sub-IFD) of a TIFF structure
+ */
+export function readTIFFTags(bytes: Uint8Array): TIFFTags {
+  if (!isTIFF(bytes)) throw new Error('Not a TIFF structure');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const little = bytes[0] === 0x49;
+  const u16 = (at: number) => view.getUint16(at, little);
+  const u32 = (at: number) => view.getUint32(at, little);
+  const tags: TIFFTags = {};
+
+  const value = (entry: number): number | string | undefined => {
+    const type = u16(entry + 2);
+    const count = u32(entry + 4);
+    const size = (TYPE_SIZE[type] ?? 1) * count;
+    const at = size <= 4 ? entry + 8 : u32(entry + 8);
+    if (at + size > bytes.length) return undefined;
+    switch (type) {
+      case 2:
+        return String.fromCharCode(...bytes.subarray(at, at + count)).replace(/\0+$/, '').trim();
+      case 3:
+        return u16(at);
+      case 4:
+        return u32(at);
+      case 5: {
+        const denominator = u32(at + 4);
+        return denominator ? u32(at) / denominator : undefined;
+      }
+      default:
+        return undefined;
+    }
+  };
+
+  const readIFD = (offset: number, visit: (tag: number, entry: number) => void) => {
+    if (offset + 2 > bytes.length) return;
+    const count = u16(offset);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > bytes.length) return;
+      visit(u16(entry), entry);
+    }
+  };
+
+  let exifOffset = 0;
+  readIFD(u32(4), (tag, entry) => {
+    const v = value(entry);
+    switch (tag) {
+      case 0x0100: tags.width = v as number; break;
+      case 0x0101: tags.height = v as number; break;
+      case 0x0102: tags.bitsPerSample = v as number; break;
+      case 0x0115: tags.samplesPerPixel = v as number; break;
+      case 0x010f: tags.make = v as string; break;
+      case 0x0110: tags.model = v as string; break;
+      case 0x0112: tags.orientation = v as number; break;
+      case EXIF_IFD_POINTER: exifOffset = v as number; break;
+    }
+  });
+
+  if (exifOffset) {
+    readIFD(exifOffset, (tag, entry) => {
+      if (tag === 0x920a) tags.focalLength = value(entry) as number;
+      if (tag === 0xa405) tags.focalLength35mm = value(entry) as number;
+    });
+  }
+
+  return tags;
+}
+
+/**
+ * Image dimensions and camera data from a TIFF file
+ */
+export function readTIFFInfo(bytes: Uint8Array): ImageInfo {
+  const tags = readTIFFTags(bytes);
+  if (!tags.width || !tags.height) throw new Error('TIFF is missing its image dimensions');
+  const exif = { make: tags.make, model: tags.model, orientation: tags.orientation, focalLength: tags.focalLength, focalLength35mm: tags.focalLength35mm };
+  return {
+    format: 'tiff',
+    width: tags.width,
+    height: tags.height,
+    channels: tags.samplesPerPixel ?? 1,
+    bitDepth: tags.bitsPerSample ?? 8,
+    ...(tags.make || tags.model || tags.focalLength ? { exif } : {}),
+  };
+}
@@ -90,10 +90,19 @@ export interface PointCloudData {
   detectedPlanes: DetectedPlane[];
   detectedObjects: DetectedObject[];
 
+  // Surface connectivity (scanner meshes)
+  numFaces?: number;
+
+  // Offset subtracted from the raw points (mm); add it back for absolute
+  // coordinates. Bounding box and planes are already absolute.
+  origin?: Point3D;
+
   // Raw access (for processing)
   getPoints?: () => Float32Array;
   getColors?: () => Uint8Array;
   getNormals?: () => Float32Array;
+  getIntensity?: () => Float32Array;
+  getFaces?: () => Uint32Array;   // triangle vertex indices
 }
 
 export interface DetectedPlane {
@@ -115,6 +124,98 @@ export interface DetectedObject {
   confidence: number;
 }
 
+// =============================================================================
+// PLY FORMAT
+// =============================================================================
+
+export type PLYFormat = 'ascii' | 'binary_little_endian' | 'binary_big_endian';
+
+export type PLYScalarType =
+  | 'int8' | 'uint8'
+  | 'int16' | 'uint16'
+  | 'int32' | 'uint32'
+  | 'float32' | 'float64';
+
+export interface PLYProperty {
+  name: string;
+  type: PLYScalarType;     // item type for list properties
+  countType?: PLYScalarType; // set for list properties
+}
+
+export interface PLYElement {
+  name: string;
+  count: number;
+  properties: PLYProperty[];
+}
+
+export interface PLYHeader {
+  format: PLYFormat;
+  version: string;
+  elements: PLYElement[];
+  comments: string[];
+  byteLength: number;      // header size including end_header line
+}
+
+export interface PLYData {
+  header: PLYHeader;
+  points: Float32Array;
+  colors?: Uint8Array;     // RGB, 0-255
+  normals?: Float32Array;
+  intensity?: Float32Array;
+  faces?: Uint32Array;     // triangle vertex indices (polygons fan-triangulated)
+  numFaces: number;        // polygons in the file
+  warnings: string[];
+}
+
+// =============================================================================
+// LAS / E57 FORMATS
+// =============================================================================
+
+/** Linear unit of scan coordinates */
+export type ScanUnits = 'm' | 'mm' | 'ft' | 'us-ft';
+
+export interface LASHeader {
+  versionMajor: number;
+  versionMinor: number;
+  systemIdentifier: string;
+  generatingSoftware: string;
+  pointDataFormat: number;
+  pointDataRecordLength: number;
+  pointCount: number;
+  offsetToPointData: number;
+  scale: Point3D;
+  offset: Point3D;
+  min: Point3D;
+  max: Point3D;
+  compressed: boolean;     // LAZ
+  crs?: string;            // EPSG code or WKT
+  linearUnits?: ScanUnits; // from the CRS, if declared
+}
+
+export interface LASReadOptions {
+  /** Coordinate units; defaults to the CRS units, else meters */
+  units?: ScanUnits;
+
+  /** Keep at most this many points (uniform decimation) */
+  maxPoints?: number;
+
+  /** Decompress LAZ point data into uncompressed LAS point records */
+  decompress?: (compressed: Uint8Array, header: LASHeader) => Uint8Array | Promise<Uint8Array>;
+}
+
+export interface E57ReadOptions {
+  /** Keep at most this many points per scan (uniform decimation) */
+  maxPoints?: number;
+
+  /** Apply each scan's pose to bring points into the file frame */
+  applyPose?: boolean;
+}
+
+export interface E57Pose {
+  rotation: { w: number; x: number; y: number; z: number };
+  translation: Point3D;    // m
+}
+
 // =============================================================================
 // MESH DATA
 // =============================================================================
@@ -151,16 +252,47 @@ export interface CADData {
   numFaces?: number;
   numEdges?: number;
   boundingBox?: BoundingBox3D;
+  shapeId?: string;        // whole file, registered in the geometry kernel
+  solids?: CADSolid[];
+  assembly?: CADAssemblyNode[];
+  units?: string;          // length unit declared in the file (geometry is in mm)
+  schema?: string;         // e.g. AUTOMOTIVE_DESIGN (AP214)
 
   // For 2D CAD (DXF, DWG)
   is2D?: boolean;
+  version?: string;        // e.g. AC1032 (AutoCAD 2018)
   layers?: CADLayer[];
-  blocks?: CADBlock[];
+  blocks?: CADBlock[];     // block inserts in model space
+  blockDefinitions?: CADBlockDefinition[];
 
   // Extracted geometry
   extractedFeatures?: CADFeature[];
 }
 
+export interface CADSolid {
+  name: string;
+  shapeId: string;         // kernel shape for booleans, distances, export
+  kind: 'solid' | 'shell';
+  boundingBox: BoundingBox3D;
+  numFaces: number;
+  numEdges: number;
+  volume: number;          // mm³ (0 for open shells)
+}
+
+export interface CADAssemblyNode {
+  name: string;            // product name
+  instanceName?: string;   // occurrence name within the parent
+  solidNames: string[];    // bodies owned directly by this product
+  children: CADAssemblyNode[];
+}
+
+export interface STEPStructure {
+  schema?: string;
+  units?: string;
+  assembly: CADAssemblyNode[];
+  solidNames: string[];    // MANIFOLD_SOLID_BREP names in file order
+}
+
 export interface CADLayer {
   name: string;
   color?: string;
@@ -173,15 +305,38 @@ export interface CADBlock {
   name: string;
   insertionPoint: Point3D;
   scale: Vector3D;
-  rotation: number;
+  rotation: number;        // degrees
+  layer?: string;
+}
+
+export interface CADBlockDefinition {
+  name: string;
+  basePoint: Point3D;
+  entityCount: number;
+  entityTypes: string[];
 }
 
 export interface CADFeature {
   type: 'line' | 'arc' | 'circle' | 'polyline' | 'dimension' | 'text';
   layer: string;
+  role?: 'outline' | 'hole' | 'cutout' | 'geometry' | 'annotation';
+  block?: string;          // set when the feature came from a block insert
   data: Record<string, unknown>;
 }
 
+/**
+ * Closed outline with its holes, recovered from a 2D drawing (mm, drawing coordinates)
+ */
+export interface CADPlateProfile {
+  layer: string;
+  outline: Array<{ x: number; y: number }>;
+  holes: Array<{ x: number; y: number; diameter: number }>;
+  cutouts: Array<Array<{ x: number; y: number }>>;
+  width: number;
+  height: number;
+  area: number;            // mm², net of holes and cutouts
+}
+
 // =============================================================================
 // IMAGE DATA
 // =============================================================================
@@ -212,6 +367,34 @@ export interface ImageData {
   detectedText?: ImageText[];
 }
 
+/**
+ * Decoded pixels, always 8-bit RGBA in row-major order
+ */
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8Array;        // width * height * 4
+}
+
+/**
+ * Header-level image facts, read without decoding pixels
+ */
+export interface ImageInfo {
+  format: 'png' | 'jpeg' | 'tiff';
+  width: number;
+  height: number;
+  channels: number;
+  bitDepth: number;
+  progressive?: boolean;
+  exif?: {
+    make?: string;
+    model?: string;
+    orientation?: number;  // EXIF 1-8
+    focalLength?: number;  // mm
+    focalLength35mm?: number;
+  };
+}
+
 export interface ImageLine {
   start: { x: number; y: number };
   end: { x: number; y: number };
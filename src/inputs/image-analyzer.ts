@@ -6,6 +6,11 @@
  * - Obstacle identification
  * - Opening detection (doors, windows)
  * - Vanishing point analysis
+ *
+ * Images are decoded (PNG/JPEG) and analysed on the CPU with classical
+ * vision: Canny edges and Hough segments give the scene's straight lines and
+ * vanishing points, and a graph-based colour segmentation gives regions that
+ * are classified by their position relative to the horizon and each other.
  */
 
 import type {
@@ -15,7 +20,21 @@ import type {
   DetectedImageRegion,
   DetectedImageEdge,
   VanishingPoint,
+  LineSegment,
+  VanishingPointEstimate,
+  ImageSegment,
 } from './types';
+import type { RasterImage } from './file-inspector/types';
+import { decodeImage } from './file-inspector/image-reader';
+import {
+  resizeRaster,
+  toGray,
+  cannyEdges,
+  houghSegments,
+  estimateVanishingPoints,
+  segmentImage,
+  labelOutline,
+} from './vision';
 
 // ============================================================================
 // DEFAULT CONFIGURATION
@@ -29,8 +48,38 @@ export const defaultImageAnalysisConfig: ImageAnalysisConfig = {
   detectEdges: true,
   detectVanishingPoints: true,
   confidenceThreshold: 0.5,
+  analysisSize: 640,
 };
 
+// ============================================================================
+// SCENE STATE
+// ============================================================================
+
+type RegionClass = 'floor' | 'ceiling' | 'wall' | 'column' | 'door' | 'window' | 'equipment';
+
+/**
+ * Working state shared by the detectors, in analysis-resolution pixels
+ */
+interface Scene {
+  width: number;
+  height: number;
+  /** Analysis pixels → output pixels */
+  scaleX: number;
+  scaleY: number;
+  labels: Int32Array;
+  segments: ImageSegment[];
+  lines: LineSegment[];
+  vanishing: Array<VanishingPointEstimate & { direction: VanishingPoint['direction'] }>;
+  horizon: number;
+  /** x of the depth vanishing point (image centre if none) */
+  depthX: number;
+  /** Classified regions: each is a set of segment labels */
+  regions: Array<{ type: RegionClass; members: Set<number>; properties: Record<string, unknown>; confidence: number }>;
+  classOf: Map<number, RegionClass>;
+}
+
+const DEG = Math.PI / 180;
+
 // ============================================================================
 // IMAGE ANALYZER CLASS
 // ============================================================================
@@ -43,10 +92,8 @@ export class ImageAnalyzer {
   }
 
   /**
-   * Analyze an image for geometric features
-   *
-   * Note: This is a simulated implementation. Real implementation would use
-   * computer vision libraries (OpenCV, TensorFlow, etc.) or vision APIs.
+   * Analyze an image for geometric features. Coordinates are reported in
+   * the image's declared width/height (the decoded size if those are 0).
    */
   analyze(image: ImageInput): ImageAnalysisResult {
     const result: ImageAnalysisResult = {
@@ -60,34 +107,48 @@ export class ImageAnalyzer {
       confidence: 0,
     };
 
+    let raster: RasterImage;
+    try {
+      raster = image.pixels ?? decodeImage(image.data);
+    } catch (error) {
+      result.warnings = [`Could not decode image ${image.id}: ${error instanceof Error ? error.message : error}`];
+      return result;
+    }
+    if (raster.width < 16 || raster.height < 16) {
+      result.warnings = [`Image ${image.id} is too small to analyse (${raster.width}×${raster.height})`];
+      return result;
+    }
+
+    const scene = this.buildScene(image, raster);
+
     // Detect floor regions
     if (this.config.detectFloor) {
-      result.floors = this.detectFloorRegions(image);
+      result.floors = this.detectFloorRegions(scene);
     }
 
     // Detect wall regions
     if (this.config.detectWalls) {
-      result.walls = this.detectWallRegions(image);
+      result.walls = this.detectWallRegions(scene);
     }
 
     // Detect obstacles
     if (this.config.detectObstacles) {
-      result.obstacles = this.detectObstacleRegions(image);
+      result.obstacles = this.detectObstacleRegions(scene);
     }
 
     // Detect openings
     if (this.config.detectOpenings) {
-      result.openings = this.detectOpeningRegions(image);
+      result.openings = this.detectOpeningRegions(scene);
     }
 
     // Detect edges
     if (this.config.detectEdges) {
-      result.edges = this.detectImageEdges(image);
+      result.edges = this.detectImageEdges(scene);
     }
 
     // Detect vanishing points
     if (this.config.detectVanishingPoints) {
-      result.vanishingPoints = this.detectVanishingPoints(image, result.edges);
+      result.vanishingPoints = this.detectVanishingPoints(scene);
     }
 
     // Calculate overall confidence
@@ -104,295 +165,325 @@ export class ImageAnalyzer {
     return result;
   }
 
+  // ==========================================================================
+  // SCENE CONSTRUCTION
+  // ==========================================================================
+
   /**
-   * Detect floor regions in image
-   *
-   * Simulated: In reality, would use semantic segmentation
+   * Resample, extract lines and vanishing points, segment and classify
    */
-  private detectFloorRegions(image: ImageInput): DetectedImageRegion[] {
-    // Simulate floor detection: assume lower third of image is floor
-    const floorY = image.height * 0.6;
-
-    return [{
-      type: 'floor',
-      polygon: [
-        { x: 0, y: floorY },
-        { x: image.width, y: floorY },
-        { x: image.width, y: image.height },
-        { x: 0, y: image.height },
-      ],
-      boundingBox: {
-        x: 0,
-        y: floorY,
-        width: image.width,
-        height: image.height - floorY,
-      },
-      confidence: 0.7,
-      properties: {
-        estimatedMaterial: 'concrete',
-        texture: 'smooth',
-      },
-    }];
+  private buildScene(image: ImageInput, raster: RasterImage): Scene {
+    const { image: small } = resizeRaster(raster, this.config.analysisSize ?? 640);
+    const { width, height } = small;
+    const outWidth = image.width || raster.width;
+    const outHeight = image.height || raster.height;
+
+    const canny = cannyEdges(toGray(small));
+    const lines = houghSegments(canny);
+    const vanishing = estimateVanishingPoints(lines, width, height).map(vp => ({
+      ...vp,
+      direction: this.vanishingDirection(vp, width, height),
+    }));
+
+    const depth = vanishing.find(vp => vp.direction === 'depth');
+    const horizontal = vanishing.find(vp => vp.direction === 'horizontal' && vp.w !== 0);
+    const horizon = depth ? depth.y : horizontal ? Math.min(height, Math.max(0, horizontal.y)) : height / 2;
+
+    const { labels, segments } = segmentImage(small);
+
+    const scene: Scene = {
+      width,
+      height,
+      scaleX: outWidth / width,
+      scaleY: outHeight / height,
+      labels,
+      segments,
+      lines,
+      vanishing,
+      horizon,
+      depthX: depth ? Math.min(width, Math.max(0, depth.x)) : width / 2,
+      regions: [],
+      classOf: new Map(),
+    };
+    this.classifyRegions(scene);
+    return scene;
   }
 
   /**
-   * Detect wall regions in image
+   * Vertical VPs lie far above/below the image, depth VPs near it and
+   * horizontal ones far to the side
    */
-  private detectWallRegions(image: ImageInput): DetectedImageRegion[] {
-    const walls: DetectedImageRegion[] = [];
-    const floorY = image.height * 0.6;
-
-    // Simulate left wall
-    walls.push({
-      type: 'wall',
-      polygon: [
-        { x: 0, y: 0 },
-        { x: image.width * 0.2, y: 0 },
-        { x: image.width * 0.1, y: floorY },
-        { x: 0, y: floorY },
-      ],
-      boundingBox: {
-        x: 0,
-        y: 0,
-        width: image.width * 0.2,
-        height: floorY,
-      },
-      confidence: 0.6,
-      properties: {
-        orientation: 'left',
-      },
-    });
+  private vanishingDirection(vp: VanishingPointEstimate, width: number, height: number): VanishingPoint['direction'] {
+    const dx = vp.w === 0 ? vp.x : vp.x - width / 2;
+    const dy = vp.w === 0 ? vp.y : vp.y - height / 2;
+    const diag = Math.hypot(width, height);
+    if (vp.w !== 0 && Math.hypot(dx, dy) < diag) return 'depth';
+    return Math.abs(dy) > Math.abs(dx) ? 'vertical' : 'horizontal';
+  }
 
-    // Simulate right wall
-    walls.push({
-      type: 'wall',
-      polygon: [
-        { x: image.width * 0.8, y: 0 },
-        { x: image.width, y: 0 },
-        { x: image.width, y: floorY },
-        { x: image.width * 0.9, y: floorY },
-      ],
-      boundingBox: {
-        x: image.width * 0.8,
-        y: 0,
-        width: image.width * 0.2,
-        height: floorY,
-      },
-      confidence: 0.6,
-      properties: {
-        orientation: 'right',
-      },
-    });
+  /**
+   * Assign segments to scene classes in dependency order: floor and
+   * ceiling anchor the scene, columns are pulled out before walls, openings
+   * must sit inside walls and obstacles must stand on the floor.
+   */
+  private classifyRegions(scene: Scene): void {
+    const { width, height, horizon, segments, classOf } = scene;
+    const imageArea = width * height;
+    const assign = (type: RegionClass, members: Set<number>, confidence: number, properties: Record<string, unknown> = {}) => {
+      for (const label of members) classOf.set(label, type);
+      scene.regions.push({ type, members, confidence, properties });
+    };
+    const free = (s: ImageSegment) => !classOf.has(s.label);
+    const bottom = (s: ImageSegment) => s.boundingBox.y + s.boundingBox.height;
+    const right = (s: ImageSegment) => s.boundingBox.x + s.boundingBox.width;
+    // A segment covering most of the frame carries no scene structure
+    const bySize = segments.filter(s => s.area < imageArea * 0.8).sort((a, b) => b.area - a.area);
+
+    // Floor: the largest bottom-touching region below the horizon, plus
+    // similar-looking neighbours that also lie below it
+    const floorSeed = bySize.find(s => s.touches.bottom && s.centroid.y > horizon && s.area > imageArea * 0.03);
+    if (floorSeed) {
+      const members = new Set([floorSeed.label]);
+      const queue = [floorSeed];
+      while (queue.length > 0) {
+        const current = queue.pop()!;
+        for (const label of current.neighbors) {
+          const s = segments[label];
+          if (members.has(label) || s.boundingBox.y < horizon || s.area < imageArea * 0.005) continue;
+          if (colorDistance(s, floorSeed) > 30 || Math.abs(s.texture - floorSeed.texture) > 12) continue;
+          members.add(label);
+          queue.push(s);
+        }
+      }
+      const area = sumArea(segments, members);
+      assign('floor', members, Math.min(0.95, 0.6 + area / imageArea), {
+        estimatedMaterial: saturation(floorSeed) < 0.15 ? 'concrete' : 'coated',
+        texture: floorSeed.texture < 6 ? 'smooth' : 'textured',
+        meanColor: roundColor(floorSeed),
+      });
+    }
+    const floor = new Set(scene.regions.find(r => r.type === 'floor')?.members ?? []);
 
-    // Simulate back wall
-    walls.push({
-      type: 'wall',
-      polygon: [
-        { x: image.width * 0.2, y: 0 },
-        { x: image.width * 0.8, y: 0 },
-        { x: image.width * 0.7, y: image.height * 0.4 },
-        { x: image.width * 0.3, y: image.height * 0.4 },
-      ],
-      boundingBox: {
-        x: image.width * 0.2,
-        y: 0,
-        width: image.width * 0.6,
-        height: image.height * 0.4,
-      },
-      confidence: 0.7,
-      properties: {
-        orientation: 'back',
-      },
-    });
+    // Ceiling: large regions touching the top and lying well above the horizon
+    for (const s of bySize) {
+      if (!free(s) || !s.touches.top || s.centroid.y > horizon * 0.6 || s.area < imageArea * 0.03) continue;
+      assign('ceiling', new Set([s.label]), 0.6, {});
+    }
 
-    return walls;
+    // Columns: tall, narrow, near-rectangular, crossing the horizon
+    for (const s of bySize) {
+      const { width: w, height: h } = s.boundingBox;
+      if (!free(s) || h < height * 0.5 || s.boundingBox.y > horizon || bottom(s) < horizon || w > width * 0.12 || h / w < 3 || s.rectangularity < 0.7) continue;
+      assign('column', new Set([s.label]), Math.min(0.9, 0.45 + 0.45 * s.rectangularity), {
+        aspectRatio: Math.round((h / w) * 10) / 10,
+        reachesFloor: s.neighbors.some(n => floor.has(n)),
+      });
+    }
+
+    // Walls: large regions spanning the horizon
+    for (const s of bySize) {
+      if (!free(s) || s.area < imageArea * 0.03) continue;
+      if (s.boundingBox.y > horizon || bottom(s) < horizon) continue;
+      const containsVP = s.boundingBox.x <= scene.depthX && right(s) >= scene.depthX;
+      const orientation = containsVP && !s.touches.left && !s.touches.right
+        ? 'back'
+        : s.centroid.x < scene.depthX ? 'left' : 'right';
+      assign('wall', new Set([s.label]), Math.min(0.9, 0.5 + 0.4 * s.rectangularity), {
+        orientation,
+        meanColor: roundColor(s),
+      });
+    }
+    const walls = scene.regions.filter(r => r.type === 'wall');
+
+    // Openings: compact rectangles enclosed by a wall
+    for (const s of bySize) {
+      if (!free(s) || s.area < imageArea * 0.002 || s.area > imageArea * 0.15 || s.rectangularity < 0.75) continue;
+      const host = walls.find(wall => s.neighbors.some(n => wall.members.has(n)) &&
+        [...wall.members].some(label => containsBox(segments[label], s)));
+      if (!host) continue;
+      const hostSegment = segments[[...host.members][0]];
+      const { width: w, height: h } = s.boundingBox;
+      const onFloor = s.neighbors.some(n => floor.has(n)) || bottom(s) >= bottom(hostSegment) - height * 0.02;
+      const type: RegionClass | null = onFloor && h / w >= 1.6
+        ? 'door'
+        : !onFloor && s.luminance > hostSegment.luminance ? 'window' : null;
+      if (!type) continue;
+      assign(type, new Set([s.label]), Math.min(0.9, 0.4 + 0.5 * s.rectangularity), {
+        wall: host.properties.orientation,
+        aspectRatio: Math.round((h / w) * 10) / 10,
+      });
+    }
+
+    // Obstacles: mid-size regions standing on the floor, merged with the
+    // unclassified regions they touch (e.g. the lit top of a cabinet)
+    const wallFragment = (s: ImageSegment) =>
+      s.neighbors.some(n => classOf.get(n) === 'wall' && colorDistance(s, segments[n]) < 25);
+    const candidate = (s: ImageSegment) => free(s) && !s.touches.top && !wallFragment(s) &&
+      s.area < imageArea * 0.25 && s.area > imageArea * 0.001;
+    for (const seed of bySize) {
+      if (!candidate(seed) || seed.area < imageArea * 0.004 || seed.centroid.y < horizon) continue;
+      if (!seed.neighbors.some(n => floor.has(n))) continue;
+      const members = new Set([seed.label]);
+      const queue = [seed];
+      while (queue.length > 0) {
+        const current = queue.pop()!;
+        for (const label of current.neighbors) {
+          const s = segments[label];
+          if (members.has(label) || !candidate(s) || s.centroid.y < horizon) continue;
+          members.add(label);
+          queue.push(s);
+        }
+      }
+      const area = sumArea(segments, members);
+      const box = unionBox(segments, members);
+      assign('equipment', members, Math.min(0.85, 0.45 + 0.4 * area / (box.width * box.height)), {
+        estimatedSize: area > imageArea * 0.08 ? 'large' : area > imageArea * 0.02 ? 'medium' : 'small',
+        meanColor: roundColor(seed),
+      });
+    }
   }
 
   /**
-   * Detect obstacle regions in image
+   * Output-space region for a set of segment labels
    */
-  private detectObstacleRegions(image: ImageInput): DetectedImageRegion[] {
-    // Simulate a few obstacles
-    const obstacles: DetectedImageRegion[] = [];
-
-    // Simulated column
-    obstacles.push({
-      type: 'column',
-      polygon: [
-        { x: image.width * 0.4, y: image.height * 0.3 },
-        { x: image.width * 0.45, y: image.height * 0.3 },
-        { x: image.width * 0.45, y: image.height * 0.6 },
-        { x: image.width * 0.4, y: image.height * 0.6 },
-      ],
+  private toRegion(scene: Scene, type: string, members: Set<number>, confidence: number, properties: Record<string, unknown>): DetectedImageRegion {
+    const box = unionBox(scene.segments, members);
+    return {
+      type,
+      polygon: labelOutline(scene.labels, scene.width, scene.height, members).map(p => ({
+        x: p.x * scene.scaleX,
+        y: p.y * scene.scaleY,
+      })),
       boundingBox: {
-        x: image.width * 0.4,
-        y: image.height * 0.3,
-        width: image.width * 0.05,
-        height: image.height * 0.3,
-      },
-      confidence: 0.65,
-      properties: {
-        estimatedWidth: 300, // mm
-        estimatedDepth: 300,
+        x: box.x * scene.scaleX,
+        y: box.y * scene.scaleY,
+        width: box.width * scene.scaleX,
+        height: box.height * scene.scaleY,
       },
-    });
+      confidence,
+      properties: { ...properties, areaFraction: sumArea(scene.segments, members) / (scene.width * scene.height) },
+    };
+  }
 
-    // Simulated equipment
-    obstacles.push({
-      type: 'equipment',
-      polygon: [
-        { x: image.width * 0.6, y: image.height * 0.4 },
-        { x: image.width * 0.75, y: image.height * 0.4 },
-        { x: image.width * 0.75, y: image.height * 0.6 },
-        { x: image.width * 0.6, y: image.height * 0.6 },
-      ],
-      boundingBox: {
-        x: image.width * 0.6,
-        y: image.height * 0.4,
-        width: image.width * 0.15,
-        height: image.height * 0.2,
-      },
-      confidence: 0.55,
-      properties: {
-        estimatedSize: 'medium',
-      },
-    });
+  private regionsOf(scene: Scene, types: RegionClass[], outputType?: (type: RegionClass) => string): DetectedImageRegion[] {
+    const threshold = this.config.confidenceThreshold ?? 0;
+    return scene.regions
+      .filter(r => types.includes(r.type) && r.confidence >= threshold)
+      .map(r => this.toRegion(scene, outputType ? outputType(r.type) : r.type, r.members, r.confidence, r.properties));
+  }
 
-    return obstacles;
+  // ==========================================================================
+  // REGION DETECTION
+  // ==========================================================================
+
+  /**
+   * Detect floor regions in image
+   */
+  private detectFloorRegions(scene: Scene): DetectedImageRegion[] {
+    return this.regionsOf(scene, ['floor']);
   }
 
   /**
-   * Detect opening regions (doors, windows)
+   * Detect wall regions in image
    */
-  private detectOpeningRegions(image: ImageInput): DetectedImageRegion[] {
-    const openings: DetectedImageRegion[] = [];
-
-    // Simulated door
-    openings.push({
-      type: 'door',
-      polygon: [
-        { x: image.width * 0.5, y: image.height * 0.15 },
-        { x: image.width * 0.6, y: image.height * 0.15 },
-        { x: image.width * 0.58, y: image.height * 0.45 },
-        { x: image.width * 0.52, y: image.height * 0.45 },
-      ],
-      boundingBox: {
-        x: image.width * 0.5,
-        y: image.height * 0.15,
-        width: image.width * 0.1,
-        height: image.height * 0.3,
-      },
-      confidence: 0.7,
-      properties: {
-        estimatedWidth: 900, // mm
-        estimatedHeight: 2100,
-      },
-    });
+  private detectWallRegions(scene: Scene): DetectedImageRegion[] {
+    return this.regionsOf(scene, ['wall']);
+  }
 
-    return openings;
+  /**
+   * Detect obstacle regions in image
+   */
+  private detectObstacleRegions(scene: Scene): DetectedImageRegion[] {
+    return this.regionsOf(scene, ['column', 'equipment']);
   }
 
   /**
-   * Detect edges in image using simulated Canny-like detection
+   * Detect opening regions (doors, windows)
    */
-  private detectImageEdges(image: ImageInput): DetectedImageEdge[] {
-    const edges: DetectedImageEdge[] = [];
-
-    // Floor-wall edge
-    edges.push({
-      start: { x: 0, y: image.height * 0.6 },
-      end: { x: image.width, y: image.height * 0.6 },
-      type: 'floor-wall',
-      confidence: 0.8,
-    });
+  private detectOpeningRegions(scene: Scene): DetectedImageRegion[] {
+    return this.regionsOf(scene, ['door', 'window']);
+  }
 
-    // Left wall edge
-    edges.push({
-      start: { x: image.width * 0.1, y: image.height * 0.6 },
-      end: { x: 0, y: 0 },
-      type: 'wall-vertical',
-      confidence: 0.6,
-    });
+  // ==========================================================================
+  // LINES AND PERSPECTIVE
+  // ==========================================================================
 
-    // Right wall edge
-    edges.push({
-      start: { x: image.width * 0.9, y: image.height * 0.6 },
-      end: { x: image.width, y: 0 },
-      type: 'wall-vertical',
-      confidence: 0.6,
-    });
+  /**
+   * Detect straight edges (Canny + Hough) and type them by orientation and
+   * by the regions on either side
+   */
+  private detectImageEdges(scene: Scene): DetectedImageEdge[] {
+    const minDim = Math.min(scene.width, scene.height);
+    const depth = scene.vanishing.find(vp => vp.direction === 'depth');
+    const depthInliers = new Set(depth?.inliers ?? []);
+
+    return scene.lines.map((line, index) => {
+      const verticalness = Math.abs(line.angle - Math.PI / 2);
+      let type: string;
+      const sides = this.sideClasses(scene, line);
+      if (sides.has('floor') && sides.size > 1) {
+        type = 'floor-wall';
+      } else if (sides.has('ceiling') && sides.size > 1) {
+        type = 'ceiling';
+      } else if (verticalness < 10 * DEG) {
+        type = 'wall-vertical';
+      } else if (depthInliers.has(index)) {
+        type = 'perspective';
+      } else {
+        type = verticalness > 80 * DEG ? 'horizontal' : 'line';
+      }
 
-    // Ceiling line (perspective)
-    edges.push({
-      start: { x: image.width * 0.2, y: image.height * 0.1 },
-      end: { x: image.width * 0.8, y: image.height * 0.1 },
-      type: 'ceiling',
-      confidence: 0.5,
+      return {
+        start: { x: line.start.x * scene.scaleX, y: line.start.y * scene.scaleY },
+        end: { x: line.end.x * scene.scaleX, y: line.end.y * scene.scaleY },
+        type,
+        confidence: Math.min(0.95, 0.4 + 0.5 * Math.min(1, line.length / (minDim * 0.3)) * Math.min(1, line.support / line.length)),
+      };
     });
-
-    return edges;
   }
 
   /**
-   * Detect vanishing points from edges
+   * Region classes found a few pixels either side of a line, sampled at
+   * its quarter points
    */
-  private detectVanishingPoints(
-    image: ImageInput,
-    edges: DetectedImageEdge[]
-  ): VanishingPoint[] {
-    const vanishingPoints: VanishingPoint[] = [];
-
-    // Find horizontal vanishing point (depth direction)
-    const verticalEdges = edges.filter(e =>
-      Math.abs(e.end.y - e.start.y) > Math.abs(e.end.x - e.start.x)
-    );
-
-    if (verticalEdges.length >= 2) {
-      // Simple: intersection of two vertical edges extended
-      const intersection = this.findLineIntersection(
-        verticalEdges[0].start, verticalEdges[0].end,
-        verticalEdges[1].start, verticalEdges[1].end
-      );
-
-      if (intersection) {
-        vanishingPoints.push({
-          position: intersection,
-          direction: 'depth',
-          confidence: 0.6,
-          supportingLines: verticalEdges.length,
-        });
+  private sideClasses(scene: Scene, line: LineSegment): Set<RegionClass | 'unknown'> {
+    const classes = new Set<RegionClass | 'unknown'>();
+    const nx = -Math.sin(line.angle), ny = Math.cos(line.angle);
+    for (const t of [0.25, 0.5, 0.75]) {
+      const px = line.start.x + (line.end.x - line.start.x) * t;
+      const py = line.start.y + (line.end.y - line.start.y) * t;
+      for (const side of [-3, 3]) {
+        const x = Math.round(px + nx * side), y = Math.round(py + ny * side);
+        if (x < 0 || y < 0 || x >= scene.width || y >= scene.height) continue;
+        classes.add(scene.classOf.get(scene.labels[y * scene.width + x]) ?? 'unknown');
       }
     }
-
-    // Horizontal vanishing point (typically at infinity for architectural images)
-    vanishingPoints.push({
-      position: { x: image.width / 2, y: image.height * 0.3 },
-      direction: 'horizontal',
-      confidence: 0.5,
-      supportingLines: 1,
-    });
-
-    return vanishingPoints;
+    return classes;
   }
 
   /**
-   * Find intersection of two lines
+   * Report vanishing points in output pixels. Points at infinity are placed
+   * ten image diagonals out along their direction.
    */
-  private findLineIntersection(
-    p1: { x: number; y: number },
-    p2: { x: number; y: number },
-    p3: { x: number; y: number },
-    p4: { x: number; y: number }
-  ): { x: number; y: number } | null {
-    const denom = (p1.x - p2.x) * (p3.y - p4.y) - (p1.y - p2.y) * (p3.x - p4.x);
-    if (Math.abs(denom) < 0.0001) return null;
-
-    const t = ((p1.x - p3.x) * (p3.y - p4.y) - (p1.y - p3.y) * (p3.x - p4.x)) / denom;
-
-    return {
-      x: p1.x + t * (p2.x - p1.x),
-      y: p1.y + t * (p2.y - p1.y),
-    };
+  private detectVanishingPoints(scene: Scene): VanishingPoint[] {
+    const totalLength = scene.lines.reduce((sum, line) => sum + line.length, 0) || 1;
+    const diag = Math.hypot(scene.width, scene.height);
+
+    return scene.vanishing.map(vp => {
+      let position: { x: number; y: number };
+      if (vp.w === 0) {
+        const norm = Math.hypot(vp.x, vp.y) || 1;
+        position = { x: scene.width / 2 + (vp.x / norm) * diag * 10, y: scene.height / 2 + (vp.y / norm) * diag * 10 };
+      } else {
+        position = { x: vp.x, y: vp.y };
+      }
+      return {
+        position: { x: position.x * scene.scaleX, y: position.y * scene.scaleY },
+        direction: vp.direction,
+        confidence: Math.min(0.95, 0.4 + vp.score / totalLength),
+        supportingLines: vp.inliers.length,
+      };
+    });
   }
 
   /**
@@ -444,6 +535,48 @@ export class ImageAnalyzer {
   }
 }
 
+// ============================================================================
+// SEGMENT HELPERS
+// ============================================================================
+
+function colorDistance(a: ImageSegment, b: ImageSegment): number {
+  return Math.hypot(a.meanColor.r - b.meanColor.r, a.meanColor.g - b.meanColor.g, a.meanColor.b - b.meanColor.b);
+}
+
+function saturation(s: ImageSegment): number {
+  const max = Math.max(s.meanColor.r, s.meanColor.g, s.meanColor.b);
+  const min = Math.min(s.meanColor.r, s.meanColor.g, s.meanColor.b);
+  return max > 0 ? (max - min) / max : 0;
+}
+
+function roundColor(s: ImageSegment): { r: number; g: number; b: number } {
+  return { r: Math.round(s.meanColor.r), g: Math.round(s.meanColor.g), b: Math.round(s.meanColor.b) };
+}
+
+function sumArea(segments: ImageSegment[], members: Set<number>): number {
+  let area = 0;
+  for (const label of members) area += segments[label].area;
+  return area;
+}
+
+function unionBox(segments: ImageSegment[], members: Set<number>): { x: number; y: number; width: number; height: number } {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const label of members) {
+    const box = segments[label].boundingBox;
+    minX = Math.min(minX, box.x);
+    minY = Math.min(minY, box.y);
+    maxX = Math.max(maxX, box.x + box.width);
+    maxY = Math.max(maxY, box.y + box.height);
+  }
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/** Whether `inner`'s bounding box lies within `outer`'s */
+function containsBox(outer: ImageSegment, inner: ImageSegment): boolean {
+  const o = outer.boundingBox, i = inner.boundingBox;
+  return i.x >= o.x && i.y >= o.y && i.x + i.width <= o.x + o.width && i.y + i.height <= o.y + o.height;
+}
+
 // ============================================================================
 // FACTORY FUNCTION
 // ============================================================================
@@ -31,6 +31,10 @@ export type {
   DetectedImageRegion,
   DetectedImageEdge,
   VanishingPoint,
+  GrayImage,
+  LineSegment,
+  VanishingPointEstimate,
+  ImageSegment,
 
   // Environment model types
   EnvironmentModel,
@@ -54,6 +58,39 @@ export {
   defaultProcessingConfig,
 } from './point-cloud';
 
+// Export spatial index
+export {
+  PointCloudIndex,
+  createPointCloudIndex,
+} from './spatial-index';
+
+// Export scan and CAD file readers
+export {
+  readLAS,
+  parseLASHeader,
+  readE57,
+  parseDXF,
+  extractPlateProfiles,
+  decodeImage,
+  readImageInfo,
+} from './file-inspector';
+
+// Export classical vision primitives
+export {
+  resizeRaster,
+  toGray,
+  gaussianBlur,
+  sobel,
+  cannyEdges,
+  houghSegments,
+  estimateVanishingPoints,
+  segmentImage,
+  labelOutline,
+  isLineDrawing,
+  extractDrawingLines,
+} from './vision';
+export type { CannyResult } from './vision';
+
 // Export image analyzer
 export {
   ImageAnalyzer,
@@ -81,6 +118,7 @@ import type {
   ScanToCADResult,
   ConnectionOpportunity,
 } from './types';
+import type { CADData } from './file-inspector';
 
 /**
  * Quick point cloud processing
@@ -150,6 +188,7 @@ export function analyzeImage(
 export async function buildEnvironmentModel(options: {
   pointClouds?: PointCloud[];
   images?: ImageInput[];
+  cadModels?: CADData[];
 }): Promise<EnvironmentModel> {
   const modeler = createEnvironmentModeler();
   return modeler.buildModel(options);
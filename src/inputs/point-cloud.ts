@@ -19,6 +19,7 @@ import type {
   DetectedEdge,
   PlaneEquation,
 } from './types';
+import { PointCloudIndex } from './spatial-index';
 
 // ============================================================================
 // DEFAULT CONFIGURATIONS
@@ -33,17 +34,36 @@ export const defaultProcessingConfig: PointCloudProcessingConfig = {
   surfaceReconstruction: 'none',
 };
 
+/** Neighbors drawn around a RANSAC seed point */
+const RANSAC_NEIGHBORHOOD = 32;
+
+/** Points scored per RANSAC hypothesis; the winner is rescored on the full cloud */
+const RANSAC_SCORE_SAMPLE = 20000;
+
 // ============================================================================
 // POINT CLOUD PROCESSOR CLASS
 // ============================================================================
 
 export class PointCloudProcessor {
   private config: PointCloudProcessingConfig;
+  private indexes = new WeakMap<PointCloud, PointCloudIndex>();
 
   constructor(config: Partial<PointCloudProcessingConfig> = {}) {
     this.config = { ...defaultProcessingConfig, ...config };
   }
 
+  /**
+   * Spatial index for a cloud, built on first use and cached per cloud
+   */
+  getSpatialIndex(cloud: PointCloud): PointCloudIndex {
+    let index = this.indexes.get(cloud);
+    if (!index || index.size !== cloud.points.length) {
+      index = new PointCloudIndex(cloud.points);
+      this.indexes.set(cloud, index);
+    }
+    return index;
+  }
+
   /**
    * Load point cloud from various formats
    */
@@ -183,9 +203,10 @@ export class PointCloudProcessor {
     }
 
     // Calculate average distance to k nearest neighbors for each point
+    const spatialIndex = this.getSpatialIndex(cloud);
     const avgDistances: number[] = [];
     for (let i = 0; i < cloud.points.length; i++) {
-      const distances = this.findKNearestDistances(cloud.points, i, k);
+      const distances = this.findKNearestDistances(spatialIndex, cloud.points, i, k);
       const avgDist = distances.reduce((a, b) => a + b, 0) / distances.length;
       avgDistances.push(avgDist);
     }
@@ -211,26 +232,12 @@ export class PointCloudProcessor {
    * Find distances to k nearest neighbors
    */
   private findKNearestDistances(
+    spatialIndex: PointCloudIndex,
     points: PointCloudPoint[],
     index: number,
     k: number
   ): number[] {
-    const target = points[index].position;
-    const distances: number[] = [];
-
-    for (let i = 0; i < points.length; i++) {
-      if (i === index) continue;
-      const p = points[i].position;
-      const dist = Math.sqrt(
-        Math.pow(p.x - target.x, 2) +
-        Math.pow(p.y - target.y, 2) +
-        Math.pow(p.z - target.z, 2)
-      );
-      distances.push(dist);
-    }
-
-    distances.sort((a, b) => a - b);
-    return distances.slice(0, k);
+    return spatialIndex.nearest(points[index].position, k, index).distances;
   }
 
   /**
@@ -238,9 +245,10 @@ export class PointCloudProcessor {
    */
   estimateNormals(cloud: PointCloud, radius?: number): PointCloud {
     const searchRadius = radius || this.config.normalRadius || 100;
+    const spatialIndex = this.getSpatialIndex(cloud);
 
     const pointsWithNormals = cloud.points.map((point, index) => {
-      const neighbors = this.findNeighborsInRadius(cloud.points, index, searchRadius);
+      const neighbors = this.findNeighborsInRadius(spatialIndex, cloud.points, index, searchRadius);
       if (neighbors.length < 3) {
         return { ...point, normal: { x: 0, y: 0, z: 1 } };
       }
@@ -249,38 +257,27 @@ export class PointCloudProcessor {
       return { ...point, normal };
     });
 
-    return {
+    // Positions are unchanged, so the index carries over
+    const result = {
       ...cloud,
       points: pointsWithNormals,
     };
+    this.indexes.set(result, spatialIndex);
+    return result;
   }
 
   /**
    * Find neighbors within radius
    */
   private findNeighborsInRadius(
+    spatialIndex: PointCloudIndex,
     points: PointCloudPoint[],
     index: number,
     radius: number
   ): PointCloudPoint[] {
-    const target = points[index].position;
-    const neighbors: PointCloudPoint[] = [];
-    const radiusSq = radius * radius;
-
-    for (let i = 0; i < points.length; i++) {
-      if (i === index) continue;
-      const p = points[i].position;
-      const distSq =
-        Math.pow(p.x - target.x, 2) +
-        Math.pow(p.y - target.y, 2) +
-        Math.pow(p.z - target.z, 2);
-
-      if (distSq < radiusSq) {
-        neighbors.push(points[i]);
-      }
-    }
-
-    return neighbors;
+    return spatialIndex
+      .withinRadius(points[index].position, radius, index)
+      .map(i => points[i]);
   }
 
   /**
@@ -335,12 +332,15 @@ export class PointCloudProcessor {
     // RANSAC parameters
     const iterations = 100;
     const threshold = 50; // mm
+    const spatialIndex = this.getSpatialIndex(cloud);
+    const candidates = points.map((_, i) => i);
+    const scoreSample = this.randomSample(candidates, RANSAC_SCORE_SAMPLE);
     let bestPlane: PlaneEquation | null = null;
-    let bestInliers: number[] = [];
+    let bestScore = 0;
 
     for (let i = 0; i < iterations; i++) {
-      // Sample 3 random points
-      const sample = this.randomSample(points, 3);
+      // Sample 3 nearby points
+      const sample = this.sampleLocalTriple(spatialIndex, candidates).map(idx => points[idx]);
 
       // Fit plane
       const plane = this.fitPlane(sample);
@@ -349,22 +349,19 @@ export class PointCloudProcessor {
       // Check if plane is roughly horizontal (ground)
       if (Math.abs(plane.c) < 0.8) continue; // Normal should be mostly vertical
 
-      // Count inliers
-      const inliers: number[] = [];
-      for (let j = 0; j < points.length; j++) {
-        const dist = this.pointToPlaneDistance(points[j].position, plane);
-        if (dist < threshold) {
-          inliers.push(j);
-        }
-      }
-
-      if (inliers.length > bestInliers.length) {
+      // Score inliers on the sample
+      const score = this.countInliers(points, scoreSample, plane, threshold);
+      if (score > bestScore) {
         bestPlane = plane;
-        bestInliers = inliers;
+        bestScore = score;
       }
     }
 
-    if (!bestPlane || bestInliers.length < 50) return null;
+    if (!bestPlane) return null;
+    const bestInliers = candidates.filter(
+      idx => this.pointToPlaneDistance(points[idx].position, bestPlane!) < threshold
+    );
+    if (bestInliers.length < 50) return null;
 
     // Calculate bounds of ground plane
     const groundPoints = bestInliers.map(i => points[i]);
@@ -385,10 +382,48 @@ export class PointCloudProcessor {
     };
   }
 
+  /**
+   * Pick a random seed and two of its nearest candidate neighbors, so that
+   * hypotheses come from a single surface rather than across the room
+   */
+  private sampleLocalTriple(
+    spatialIndex: PointCloudIndex,
+    candidates: number[],
+    isCandidate?: (index: number) => boolean
+  ): number[] {
+    const seed = candidates[Math.floor(Math.random() * candidates.length)];
+    const neighbors = spatialIndex
+      .nearest(spatialIndex.position(seed), RANSAC_NEIGHBORHOOD, seed)
+      .indices.filter(idx => !isCandidate || isCandidate(idx));
+
+    if (neighbors.length < 2) {
+      return this.randomSample(candidates, 3);
+    }
+    return [seed, ...this.randomSample(neighbors, 2)];
+  }
+
+  /**
+   * Count sampled points within threshold of a plane
+   */
+  private countInliers(
+    points: PointCloudPoint[],
+    sample: number[],
+    plane: PlaneEquation,
+    threshold: number
+  ): number {
+    let count = 0;
+    for (const idx of sample) {
+      if (this.pointToPlaneDistance(points[idx].position, plane) < threshold) count++;
+    }
+    return count;
+  }
+
   /**
    * Random sample from array
    */
   private randomSample<T>(array: T[], count: number): T[] {
+    if (count >= array.length) return array.slice();
+
     const result: T[] = [];
     const indices = new Set<number>();
 
@@ -463,15 +498,18 @@ export class PointCloudProcessor {
     const iterations = 50;
     const threshold = 50;
 
+    const spatialIndex = this.getSpatialIndex(cloud);
+    const isRemaining = (idx: number) => remainingPoints.has(idx);
+
     for (let wallNum = 0; wallNum < 10 && remainingPoints.size > 100; wallNum++) {
       let bestPlane: PlaneEquation | null = null;
-      let bestInliers: number[] = [];
+      let bestScore = 0;
 
-      for (let i = 0; i < iterations; i++) {
-        const available = Array.from(remainingPoints);
-        if (available.length < 3) break;
+      const available = Array.from(remainingPoints);
+      const scoreSample = this.randomSample(available, RANSAC_SCORE_SAMPLE);
 
-        const sampleIndices = this.randomSample(available, 3);
+      for (let i = 0; i < iterations; i++) {
+        const sampleIndices = this.sampleLocalTriple(spatialIndex, available, isRemaining);
         const sample = sampleIndices.map(idx => points[idx]);
 
         const plane = this.fitPlane(sample);
@@ -480,21 +518,18 @@ export class PointCloudProcessor {
         // Check if plane is vertical (normal mostly horizontal)
         if (Math.abs(plane.c) > 0.3) continue;
 
-        const inliers: number[] = [];
-        for (const idx of remainingPoints) {
-          const dist = this.pointToPlaneDistance(points[idx].position, plane);
-          if (dist < threshold) {
-            inliers.push(idx);
-          }
-        }
-
-        if (inliers.length > bestInliers.length) {
+        const score = this.countInliers(points, scoreSample, plane, threshold);
+        if (score > bestScore) {
           bestPlane = plane;
-          bestInliers = inliers;
+          bestScore = score;
         }
       }
 
-      if (!bestPlane || bestInliers.length < 30) break;
+      if (!bestPlane) break;
+      const bestInliers = available.filter(
+        idx => this.pointToPlaneDistance(points[idx].position, bestPlane!) < threshold
+      );
+      if (bestInliers.length < 30) break;
 
       const wallPoints = bestInliers.map(i => points[i]);
       const bounds = this.calculateBounds(wallPoints);
@@ -548,40 +583,28 @@ export class PointCloudProcessor {
 
     if (remainingIndices.length < 10) return [];
 
-    // Simple clustering using distance threshold
+    // Region growing over the spatial index
     const obstacles: DetectedObstacle[] = [];
     const clusterRadius = 200; // mm
-    const visited = new Set<number>();
+    const spatialIndex = this.getSpatialIndex(cloud);
+    const visited = new Set<number>(surfacePoints);
 
     let obstacleNum = 0;
     for (const seedIdx of remainingIndices) {
       if (visited.has(seedIdx)) continue;
 
       // Grow cluster from this seed
-      const cluster: number[] = [];
-      const queue = [seedIdx];
+      const cluster: number[] = [seedIdx];
       visited.add(seedIdx);
 
-      while (queue.length > 0) {
-        const currentIdx = queue.shift()!;
-        cluster.push(currentIdx);
+      for (let head = 0; head < cluster.length; head++) {
+        const current = cloud.points[cluster[head]].position;
 
-        // Find neighbors
-        for (const neighborIdx of remainingIndices) {
+        // Find unvisited non-surface neighbors
+        for (const neighborIdx of spatialIndex.withinRadius(current, clusterRadius)) {
           if (visited.has(neighborIdx)) continue;
-
-          const current = cloud.points[currentIdx].position;
-          const neighbor = cloud.points[neighborIdx].position;
-          const dist = Math.sqrt(
-            Math.pow(neighbor.x - current.x, 2) +
-            Math.pow(neighbor.y - current.y, 2) +
-            Math.pow(neighbor.z - current.z, 2)
-          );
-
-          if (dist < clusterRadius) {
-            visited.add(neighborIdx);
-            queue.push(neighborIdx);
-          }
+          visited.add(neighborIdx);
+          cluster.push(neighborIdx);
         }
       }
 
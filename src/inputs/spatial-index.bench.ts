@@ -0,0 +1,62 @@
+/**
+ * Spatial index benchmarks, outside the unit suite: `npx vitest bench --run`
+ *
+ * Compares index build and query time at 125k and 1M points (n log n build
+ * predicts ~9.4× for 8× the points, log n queries well under 2×) and times
+ * the processor passes that query the index for every point.
+ */
+
+import { bench, describe } from 'vitest';
+import { PointCloudIndex } from './spatial-index';
+import { PointCloudProcessor } from './point-cloud';
+import type { PointCloud, PointCloudPoint } from './types';
+
+/** Deterministic cloud of `count` points in a 10 m cube (mm) */
+function cloud(count: number, seed = 1): PointCloudPoint[] {
+  let state = seed;
+  const next = () => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return (state / 2 ** 32) * 10000;
+  };
+  return Array.from({ length: count }, () => ({ position: { x: next(), y: next(), z: next() } }));
+}
+
+/** Scanned floor: 1M points over 40 × 25 m with ±5 mm noise */
+function floorScan(): PointCloud {
+  const points = cloud(1_000_000, 3).map(({ position }) => ({
+    position: { x: position.x * 4, y: position.y * 2.5, z: (position.z - 5000) / 1000 },
+  }));
+  return {
+    id: 'floor',
+    source: { type: 'synthetic' },
+    points,
+    bounds: { min: { x: 0, y: 0, z: -5 }, max: { x: 40000, y: 25000, z: 5 } },
+    density: 1_000_000 / 1000 / 0.01,
+    metadata: {},
+  };
+}
+
+/** Single timed run: the slow cases take tens of seconds each */
+const once = { iterations: 1, time: 0, warmupIterations: 0, warmupTime: 0 };
+
+describe('PointCloudIndex', () => {
+  const small = cloud(125_000);
+  const large = cloud(1_000_000);
+  const queries = cloud(2000, 11).map(p => p.position);
+  const smallIndex = new PointCloudIndex(small);
+  const largeIndex = new PointCloudIndex(large);
+
+  bench('build 125k', () => { new PointCloudIndex(small); }, { iterations: 5 });
+  bench('build 1M', () => { new PointCloudIndex(large); }, { iterations: 5 });
+  bench('2000 × 8-nearest at 125k', () => queries.forEach(q => smallIndex.nearest(q, 8)));
+  bench('2000 × 8-nearest at 1M', () => queries.forEach(q => largeIndex.nearest(q, 8)));
+});
+
+describe('PointCloudProcessor at 1M points', () => {
+  const processor = new PointCloudProcessor();
+  const scan = floorScan();
+
+  // Fresh clouds so each run builds its own index
+  bench('removeOutliers', () => { processor.removeOutliers({ ...scan }); }, once);
+  bench('estimateNormals', () => { processor.estimateNormals({ ...scan }); }, once);
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { PointCloudIndex } from './spatial-index';
+import type { Point3D } from '../knowledge/types';
+import type { PointCloudPoint } from './types';
+
+/** Deterministic cloud of `count` points in a 10 m cube (mm) */
+function cloud(count: number, seed = 1): PointCloudPoint[] {
+  let state = seed;
+  const next = () => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return (state / 2 ** 32) * 10000;
+  };
+  return Array.from({ length: count }, () => ({ position: { x: next(), y: next(), z: next() } }));
+}
+
+function distance(a: Point3D, b: Point3D): number {
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  const dz = a.z - b.z;
+  return Math.sqrt(dx * dx + dy * dy + dz * dz);
+}
+
+/** Distances to the k nearest points by exhaustive search */
+function bruteNearest(points: PointCloudPoint[], target: Point3D, k: number): number[] {
+  return points.map(p => distance(p.position, target)).sort((a, b) => a - b).slice(0, k);
+}
+
+describe('PointCloudIndex', () => {
+  it('matches exhaustive search for nearest and radius queries', () => {
+    const points = cloud(2000);
+    const index = new PointCloudIndex(points);
+    const targets = cloud(20, 7).map(p => p.position);
+
+    for (const target of targets) {
+      const { indices, distances } = index.nearest(target, 10);
+      expect(distances).toEqual(bruteNearest(points, target, 10));
+      indices.forEach((i, n) => expect(distance(points[i].position, target)).toBe(distances[n]));
+
+      const within = index.withinRadius(target, 800).sort((a, b) => a - b);
+      const expected = points.flatMap((p, i) => (distance(p.position, target) < 800 ? [i] : []));
+      expect(within).toEqual(expected);
+    }
+  });
+
+  it('skips the excluded point', () => {
+    const points = cloud(500);
+    const index = new PointCloudIndex(points);
+    const { indices, distances } = index.nearest(points[42].position, 3, 42);
+
+    expect(indices).not.toContain(42);
+    expect(distances[0]).toBeGreaterThan(0);
+    expect(index.withinRadius(points[42].position, 1000, 42)).not.toContain(42);
+  });
+
+  it('stays exact on a 1M-point cloud', () => {
+    const points = cloud(1_000_000);
+    const index = new PointCloudIndex(points);
+
+    for (const target of cloud(3, 11).map(p => p.position)) {
+      expect(index.nearest(target, 8).distances).toEqual(bruteNearest(points, target, 8));
+    }
+  }, 60_000);
+});
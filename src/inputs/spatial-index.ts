@@ -0,0 +1,322 @@
+/**
+ * Point Cloud Spatial Index
+ *
+ * Balanced k-d tree over point positions for nearest-neighbor and radius
+ * queries. Built once per cloud in O(n log n) and shared by the point cloud
+ * processor's outlier removal, normal estimation, plane fitting and
+ * obstacle clustering.
+ */
+
+import type { Point3D } from '../knowledge/types';
+import type { PointCloudPoint } from './types';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Points per leaf; leaves are scanned linearly */
+const LEAF_SIZE = 12;
+
+// ============================================================================
+// K-D TREE
+// ============================================================================
+
+/**
+ * Implicit k-d tree: the range [lo, hi) of the permutation splits at its
+ * midpoint, with the split axis stored at that midpoint.
+ */
+export class PointCloudIndex {
+  readonly size: number;
+  private coords: Float64Array;
+  private order: Uint32Array;
+  private axes: Uint8Array;
+
+  // Query scratch state, reused across queries
+  private heapDist = new Float64Array(32);
+  private heapIdx = new Int32Array(32);
+  private heapSize = 0;
+  private heapCapacity = 0;
+  private qx = 0;
+  private qy = 0;
+  private qz = 0;
+  private exclude = -1;
+
+  constructor(points: PointCloudPoint[]) {
+    const n = points.length;
+    this.size = n;
+    this.coords = new Float64Array(n * 3);
+    this.order = new Uint32Array(n);
+    this.axes = new Uint8Array(n);
+
+    for (let i = 0; i < n; i++) {
+      const p = points[i].position;
+      this.coords[i * 3] = p.x;
+      this.coords[i * 3 + 1] = p.y;
+      this.coords[i * 3 + 2] = p.z;
+      this.order[i] = i;
+    }
+
+    this.build(0, n);
+  }
+
+  /**
+   * Indices of the k nearest points to a query position, nearest first.
+   * Pass `exclude` to skip the query point itself.
+   */
+  nearest(target: Point3D, k: number, exclude = -1): { indices: number[]; distances: number[] } {
+    const count = Math.min(k, this.size - (exclude >= 0 && exclude < this.size ? 1 : 0));
+    if (count <= 0) return { indices: [], distances: [] };
+
+    if (this.heapDist.length < count) {
+      this.heapDist = new Float64Array(count);
+      this.heapIdx = new Int32Array(count);
+    }
+    this.heapCapacity = count;
+    this.heapSize = 0;
+    this.qx = target.x;
+    this.qy = target.y;
+    this.qz = target.z;
+    this.exclude = exclude;
+
+    this.searchNearest(0, this.size);
+
+    // Drain the max-heap from the back to get ascending order
+    const indices = new Array<number>(this.heapSize);
+    const distances = new Array<number>(this.heapSize);
+    for (let i = this.heapSize - 1; i >= 0; i--) {
+      indices[i] = this.heapIdx[0];
+      distances[i] = Math.sqrt(this.heapDist[0]);
+      this.popHeap();
+    }
+
+    return { indices, distances };
+  }
+
+  /**
+   * Indices of all points strictly within radius of a query position
+   */
+  withinRadius(target: Point3D, radius: number, exclude = -1): number[] {
+    const result: number[] = [];
+    if (this.size === 0) return result;
+
+    this.qx = target.x;
+    this.qy = target.y;
+    this.qz = target.z;
+    this.exclude = exclude;
+    this.searchRadius(0, this.size, radius, radius * radius, result);
+    return result;
+  }
+
+  /**
+   * Position of an indexed point
+   */
+  position(index: number): Point3D {
+    return {
+      x: this.coords[index * 3],
+      y: this.coords[index * 3 + 1],
+      z: this.coords[index * 3 + 2],
+    };
+  }
+
+  // ==========================================================================
+  // QUERIES
+  // ==========================================================================
+
+  private searchNearest(lo: number, hi: number): void {
+    const { coords, order } = this;
+
+    if (hi - lo <= LEAF_SIZE) {
+      for (let i = lo; i < hi; i++) {
+        this.offer(order[i]);
+      }
+      return;
+    }
+
+    const mid = (lo + hi) >> 1;
+    const index = order[mid];
+    const axis = this.axes[mid];
+    this.offer(index);
+
+    const delta = (axis === 0 ? this.qx : axis === 1 ? this.qy : this.qz) - coords[index * 3 + axis];
+    if (delta < 0) {
+      this.searchNearest(lo, mid);
+      if (this.heapSize < this.heapCapacity || delta * delta < this.heapDist[0]) this.searchNearest(mid + 1, hi);
+    } else {
+      this.searchNearest(mid + 1, hi);
+      if (this.heapSize < this.heapCapacity || delta * delta < this.heapDist[0]) this.searchNearest(lo, mid);
+    }
+  }
+
+  private searchRadius(lo: number, hi: number, radius: number, radiusSq: number, result: number[]): void {
+    const { coords, order } = this;
+
+    if (hi - lo <= LEAF_SIZE) {
+      for (let i = lo; i < hi; i++) {
+        const index = order[i];
+        if (index !== this.exclude && this.distanceSq(index) < radiusSq) result.push(index);
+      }
+      return;
+    }
+
+    const mid = (lo + hi) >> 1;
+    const index = order[mid];
+    const axis = this.axes[mid];
+    if (index !== this.exclude && this.distanceSq(index) < radiusSq) result.push(index);
+
+    const delta = (axis === 0 ? this.qx : axis === 1 ? this.qy : this.qz) - coords[index * 3 + axis];
+    if (delta < radius) this.searchRadius(lo, mid, radius, radiusSq, result);
+    if (delta > -radius) this.searchRadius(mid + 1, hi, radius, radiusSq, result);
+  }
+
+  private distanceSq(index: number): number {
+    const at = index * 3;
+    const dx = this.coords[at] - this.qx;
+    const dy = this.coords[at + 1] - this.qy;
+    const dz = this.coords[at + 2] - this.qz;
+    return dx * dx + dy * dy + dz * dz;
+  }
+
+  /**
+   * Insert into the bounded max-heap (largest distance at the root)
+   */
+  private offer(index: number): void {
+    if (index === this.exclude) return;
+    const distSq = this.distanceSq(index);
+    const heapDist = this.heapDist;
+    const heapIdx = this.heapIdx;
+
+    if (this.heapSize < this.heapCapacity) {
+      let i = this.heapSize++;
+      while (i > 0) {
+        const parent = (i - 1) >> 1;
+        if (heapDist[parent] >= distSq) break;
+        heapDist[i] = heapDist[parent];
+        heapIdx[i] = heapIdx[parent];
+        i = parent;
+      }
+      heapDist[i] = distSq;
+      heapIdx[i] = index;
+    } else if (distSq < heapDist[0]) {
+      this.siftDown(distSq, index);
+    }
+  }
+
+  private popHeap(): void {
+    const last = --this.heapSize;
+    if (last > 0) this.siftDown(this.heapDist[last], this.heapIdx[last]);
+  }
+
+  private siftDown(distSq: number, index: number): void {
+    const heapDist = this.heapDist;
+    const heapIdx = this.heapIdx;
+    const size = this.heapSize;
+    let i = 0;
+
+    for (;;) {
+      const left = i * 2 + 1;
+      if (left >= size) break;
+      const right = left + 1;
+      const larger = right < size && heapDist[right] > heapDist[left] ? right : left;
+      if (heapDist[larger] <= distSq) break;
+      heapDist[i] = heapDist[larger];
+      heapIdx[i] = heapIdx[larger];
+      i = larger;
+    }
+    heapDist[i] = distSq;
+    heapIdx[i] = index;
+  }
+
+  // ==========================================================================
+  // CONSTRUCTION
+  // ==========================================================================
+
+  /**
+   * Split on the widest axis at the median, iteratively to avoid deep stacks
+   */
+  private build(start: number, end: number): void {
+    const stack = [start, end];
+
+    while (stack.length > 0) {
+      const hi = stack.pop()!;
+      const lo = stack.pop()!;
+      if (hi - lo <= LEAF_SIZE) continue;
+
+      const axis = this.widestAxis(lo, hi);
+      const mid = (lo + hi) >> 1;
+      this.select(lo, hi - 1, mid, axis);
+      this.axes[mid] = axis;
+
+      stack.push(lo, mid, mid + 1, hi);
+    }
+  }
+
+  private widestAxis(lo: number, hi: number): number {
+    const { coords, order } = this;
+    let minX = Infinity, minY = Infinity, minZ = Infinity;
+    let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+
+    for (let i = lo; i < hi; i++) {
+      const at = order[i] * 3;
+      const x = coords[at], y = coords[at + 1], z = coords[at + 2];
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+      if (z < minZ) minZ = z;
+      if (z > maxZ) maxZ = z;
+    }
+
+    const dx = maxX - minX, dy = maxY - minY, dz = maxZ - minZ;
+    return dx >= dy && dx >= dz ? 0 : dy >= dz ? 1 : 2;
+  }
+
+  /**
+   * Quickselect: place the k-th smallest coordinate at position k
+   */
+  private select(left: number, right: number, k: number, axis: number): void {
+    const { coords, order } = this;
+    const value = (i: number) => coords[order[i] * 3 + axis];
+    const swap = (a: number, b: number) => {
+      const t = order[a];
+      order[a] = order[b];
+      order[b] = t;
+    };
+
+    while (right > left) {
+      // Median of three pivot
+      const middle = (left + right) >> 1;
+      if (value(middle) < value(left)) swap(middle, left);
+      if (value(right) < value(left)) swap(right, left);
+      if (value(right) < value(middle)) swap(right, middle);
+      const pivot = value(middle);
+
+      let i = left;
+      let j = right;
+      while (i <= j) {
+        while (value(i) < pivot) i++;
+        while (value(j) > pivot) j--;
+        if (i <= j) {
+          swap(i, j);
+          i++;
+          j--;
+        }
+      }
+
+      if (k <= j) {
+        right = j;
+      } else if (k >= i) {
+        left = i;
+      } else {
+        return;
+      }
+    }
+  }
+}
+
+// ============================================================================
+// FACTORY FUNCTION
+// ============================================================================
+
+export function createPointCloudIndex(points: PointCloudPoint[]): PointCloudIndex {
+  return new PointCloudIndex(points);
+}
@@ -8,6 +8,7 @@
  */
 
 import type { Point3D, Vector3D } from '../knowledge/types';
+import type { RasterImage } from './file-inspector/types';
 
 // ============================================================================
 // POINT CLOUD TYPES
@@ -155,6 +156,8 @@ export interface DetectedObstacle {
   dimensions: { width: number; depth: number; height: number };
   pointIndices: number[];
   confidence: number;
+  name?: string;
+  shapeId?: string; // kernel shape, for obstacles imported from CAD
 }
 
 /**
@@ -192,9 +195,12 @@ export interface ImageInput {
   /** Unique identifier */
   id: string;
 
-  /** Image data (base64 or URL) */
+  /** Image data (base64 or data URL) */
   data: string;
 
+  /** Already-decoded pixels (e.g. from a canvas); skips decoding `data` */
+  pixels?: RasterImage;
+
   /** Image format */
   format: 'jpeg' | 'png' | 'webp' | 'tiff';
 
@@ -253,6 +259,9 @@ export interface ImageAnalysisConfig {
 
   /** Confidence threshold (0-1) */
   confidenceThreshold?: number;
+
+  /** Longest side (px) the image is resampled to before analysis */
+  analysisSize?: number;
 }
 
 /**
@@ -282,6 +291,9 @@ export interface ImageAnalysisResult {
 
   /** Overall confidence */
   confidence: number;
+
+  /** Problems that limited the analysis (e.g. undecodable image) */
+  warnings?: string[];
 }
 
 /**
@@ -315,6 +327,54 @@ export interface VanishingPoint {
   supportingLines: number;
 }
 
+/**
+ * Single-channel image used by the vision primitives
+ */
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+/**
+ * A straight edge segment extracted by the Hough transform
+ */
+export interface LineSegment {
+  start: { x: number; y: number };
+  end: { x: number; y: number };
+  length: number;
+  angle: number;           // radians, direction of the segment in [0, π)
+  support: number;         // edge pixels on the segment
+}
+
+/**
+ * Vanishing point in homogeneous image coordinates; w = 0 is a point at
+ * infinity (parallel image lines)
+ */
+export interface VanishingPointEstimate {
+  x: number;
+  y: number;
+  w: number;
+  inliers: number[];       // indices into the segment list
+  score: number;           // inlier length, px
+}
+
+/**
+ * A segment of a graph-based image segmentation
+ */
+export interface ImageSegment {
+  label: number;
+  area: number;            // px
+  boundingBox: { x: number; y: number; width: number; height: number };
+  centroid: { x: number; y: number };
+  meanColor: { r: number; g: number; b: number };
+  luminance: number;       // mean, 0-255
+  texture: number;         // luminance standard deviation
+  rectangularity: number;  // area / bounding box area
+  touches: { top: boolean; bottom: boolean; left: boolean; right: boolean };
+  neighbors: number[];     // adjacent segment labels
+}
+
 // ============================================================================
 // ENVIRONMENT MODEL TYPES
 // ============================================================================
@@ -364,7 +424,7 @@ export interface EnvironmentModel {
  * Source data for environment model
  */
 export interface EnvironmentSource {
-  type: 'point-cloud' | 'image' | 'manual';
+  type: 'point-cloud' | 'image' | 'cad' | 'manual';
   id: string;
   contribution: number; // 0-1
 }
@@ -0,0 +1,1076 @@
+/**
+ * Classical Vision
+ *
+ * CPU-only image primitives for site photos: resampling, Gaussian blur,
+ * Canny edges, Hough line segments, vanishing point estimation (RANSAC with
+ * least-squares refinement) and graph-based region segmentation
+ * (Felzenszwalb-Huttenlocher). All functions are pure and synchronous.
+ */
+
+import type { RasterImage, ImageLine } from './file-inspector/types';
+import type {
+  GrayImage,
+  LineSegment,
+  VanishingPointEstimate,
+  ImageSegment,
+} from './types';
+
+// ============================================================================
+// RESAMPLING AND FILTERING
+// ============================================================================
+
+/**
+ * Box-filter downsample so the longest side is at most `maxSize`.
+ * `scale` maps source pixels to result pixels.
+ */
+export function resizeRaster(raster: RasterImage, maxSize: number): { image: RasterImage; scale: number } {
+  const longest = Math.max(raster.width, raster.height);
+  if (longest <= maxSize) return { image: raster, scale: 1 };
+
+  const scale = maxSize / longest;
+  const width = Math.max(1, Math.round(raster.width * scale));
+  const height = Math.max(1, Math.round(raster.height * scale));
+  const sums = new Float64Array(width * height * 4);
+  const counts = new Uint32Array(width * height);
+
+  const columnOf = new Int32Array(raster.width);
+  for (let x = 0; x < raster.width; x++) columnOf[x] = Math.min(width - 1, Math.floor(x * width / raster.width));
+
+  for (let y = 0; y < raster.height; y++) {
+    const row = Math.min(height - 1, Math.floor(y * height / raster.height)) * width;
+    for (let x = 0; x < raster.width; x++) {
+      const source = (y * raster.width + x) * 4;
+      const target = row + columnOf[x];
+      const t4 = target * 4;
+      sums[t4] += raster.data[source];
+      sums[t4 + 1] += raster.data[source + 1];
+      sums[t4 + 2] += raster.data[source + 2];
+      sums[t4 + 3] += raster.data[source + 3];
+      counts[target]++;
+    }
+  }
+
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < counts.length; i++) {
+    const n = counts[i] || 1;
+    for (let c = 0; c < 4; c++) data[i * 4 + c] = Math.round(sums[i * 4 + c] / n);
+  }
+
+  return { image: { width, height, data }, scale: width / raster.width };
+}
+
+/**
+ * Rec. 601 luminance
+ */
+export function toGray(raster: RasterImage): GrayImage {
+  const data = new Float32Array(raster.width * raster.height);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = 0.299 * raster.data[i * 4] + 0.587 * raster.data[i * 4 + 1] + 0.114 * raster.data[i * 4 + 2];
+  }
+  return { width: raster.width, height: raster.height, data };
+}
+
+/**
+ * Separable Gaussian blur with clamped borders
+ */
+export function gaussianBlur(image: GrayImage, sigma: number): GrayImage {
+  if (sigma <= 0) return image;
+  const { width, height } = image;
+  const radius = Math.max(1, Math.ceil(sigma * 3));
+  const kernel = new Float32Array(radius * 2 + 1);
+  let total = 0;
+  for (let i = -radius; i <= radius; i++) {
+    kernel[i + radius] = Math.exp(-(i * i) / (2 * sigma * sigma));
+    total += kernel[i + radius];
+  }
+  for (let i = 0; i < kernel.length; i++) kernel[i] /= total;
+
+  const temp = new Float32Array(width * height);
+  const out = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const xx = x + k < 0 ? 0 : x + k >= width ? width - 1 : x + k;
+        sum += image.data[row + xx] * kernel[k + radius];
+      }
+      temp[row + x] = sum;
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const yy = y + k < 0 ? 0 : y + k >= height ? height - 1 : y + k;
+        sum += temp[yy * width + x] * kernel[k + radius];
+      }
+      out[y * width + x] = sum;
+    }
+  }
+
+  return { width, height, data: out };
+}
+
+/**
+ * Sobel gradients, normalised so magnitude ≈ intensity change per pixel
+ */
+export function sobel(image: GrayImage): { gx: Float32Array; gy: Float32Array; magnitude: Float32Array } {
+  const { width, height, data } = image;
+  const gx = new Float32Array(width * height);
+  const gy = new Float32Array(width * height);
+  const magnitude = new Float32Array(width * height);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const tl = data[i - width - 1], t = data[i - width], tr = data[i - width + 1];
+      const l = data[i - 1], r = data[i + 1];
+      const bl = data[i + width - 1], b = data[i + width], br = data[i + width + 1];
+      const dx = (tr + 2 * r + br - tl - 2 * l - bl) / 8;
+      const dy = (bl + 2 * b + br - tl - 2 * t - tr) / 8;
+      gx[i] = dx;
+      gy[i] = dy;
+      magnitude[i] = Math.sqrt(dx * dx + dy * dy);
+    }
+  }
+
+  return { gx, gy, magnitude };
+}
+
+// ============================================================================
+// CANNY EDGES
+// ============================================================================
+
+export interface CannyResult {
+  width: number;
+  height: number;
+  edges: Uint8Array;       // 1 = edge pixel
+  gx: Float32Array;
+  gy: Float32Array;
+  magnitude: Float32Array;
+}
+
+/**
+ * Canny edge detector. Without explicit thresholds, the high threshold is
+ * taken from the distribution of ridge magnitudes so exposure doesn't matter.
+ */
+export function cannyEdges(
+  image: GrayImage,
+  options: { sigma?: number; low?: number; high?: number; minThreshold?: number } = {}
+): CannyResult {
+  const { width, height } = image;
+  const blurred = gaussianBlur(image, options.sigma ?? 1.4);
+  const { gx, gy, magnitude } = sobel(blurred);
+
+  // Non-maximum suppression along the quantised gradient direction
+  const ridge = new Float32Array(width * height);
+  const ridgeValues: number[] = [];
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const m = magnitude[i];
+      if (m === 0) continue;
+      const angle = Math.atan2(gy[i], gx[i]);
+      const sector = Math.round(((angle < 0 ? angle + Math.PI : angle) / Math.PI) * 4) % 4;
+      let a: number, b: number;
+      if (sector === 0) { a = magnitude[i - 1]; b = magnitude[i + 1]; }
+      else if (sector === 1) { a = magnitude[i - width - 1]; b = magnitude[i + width + 1]; }
+      else if (sector === 2) { a = magnitude[i - width]; b = magnitude[i + width]; }
+      else { a = magnitude[i - width + 1]; b = magnitude[i + width - 1]; }
+      if (m >= a && m > b) {
+        ridge[i] = m;
+        ridgeValues.push(m);
+      }
+    }
+  }
+
+  let high = options.high;
+  if (high === undefined) {
+    ridgeValues.sort((p, q) => p - q);
+    const percentile = ridgeValues.length > 0 ? ridgeValues[Math.floor(ridgeValues.length * 0.8)] : 0;
+    high = Math.max(options.minThreshold ?? 4, percentile);
+  }
+  const low = options.low ?? high * 0.4;
+
+  // Hysteresis: grow from strong pixels through weak ones
+  const edges = new Uint8Array(width * height);
+  const stack: number[] = [];
+  for (let i = 0; i < ridge.length; i++) {
+    if (ridge[i] >= high && !edges[i]) {
+      edges[i] = 1;
+      stack.push(i);
+      while (stack.length > 0) {
+        const p = stack.pop()!;
+        const px = p % width;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const nx = px + dx;
+            if (nx < 0 || nx >= width) continue;
+            const q = p + dy * width + dx;
+            if (q < 0 || q >= ridge.length || edges[q] || ridge[q] < low) continue;
+            edges[q] = 1;
+            stack.push(q);
+          }
+        }
+      }
+    }
+  }
+
+  return { width, height, edges, gx, gy, magnitude };
+}
+
+// ============================================================================
+// HOUGH LINE SEGMENTS
+// ============================================================================
+
+/**
+ * Extract straight segments from Canny edges. Each edge pixel votes only for
+ * line normals near its gradient direction; accumulator peaks are then
+ * walked to split lines into gap-bounded segments, refined by a least-squares
+ * fit of their supporting pixels.
+ */
+export function houghSegments(
+  canny: CannyResult,
+  options: { minLength?: number; maxGap?: number; maxSegments?: number; thetaBins?: number } = {}
+): LineSegment[] {
+  const { width, height, edges, gx, gy } = canny;
+  const minDim = Math.min(width, height);
+  const minLength = options.minLength ?? Math.max(10, Math.round(minDim * 0.04));
+  const maxGap = options.maxGap ?? Math.max(3, Math.round(minDim * 0.01));
+  const maxSegments = options.maxSegments ?? 200;
+  const thetaBins = options.thetaBins ?? 180;
+  const window = Math.max(1, Math.round(thetaBins / 60)); // ±3° of the gradient direction
+
+  const diag = Math.ceil(Math.hypot(width, height));
+  const rhoBins = diag * 2 + 1;
+  const cos = new Float32Array(thetaBins);
+  const sin = new Float32Array(thetaBins);
+  for (let t = 0; t < thetaBins; t++) {
+    cos[t] = Math.cos(t * Math.PI / thetaBins);
+    sin[t] = Math.sin(t * Math.PI / thetaBins);
+  }
+
+  // Vote
+  const accumulator = new Uint32Array(thetaBins * rhoBins);
+  const edgeNormal = new Float32Array(width * height).fill(-1);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (!edges[i]) continue;
+      let normal = Math.atan2(gy[i], gx[i]);
+      if (normal < 0) normal += Math.PI;
+      if (normal >= Math.PI) normal -= Math.PI;
+      edgeNormal[i] = normal;
+      const center = Math.round(normal / Math.PI * thetaBins);
+      for (let d = -window; d <= window; d++) {
+        const t = (center + d + thetaBins) % thetaBins;
+        const rho = Math.round(x * cos[t] + y * sin[t]) + diag;
+        accumulator[t * rhoBins + rho]++;
+      }
+    }
+  }
+
+  // Peaks: local maxima with enough votes for a minimum-length line
+  const minVotes = Math.max(5, Math.round(minLength * 0.6));
+  const peaks: number[] = [];
+  for (let t = 0; t < thetaBins; t++) {
+    for (let r = 1; r < rhoBins - 1; r++) {
+      const votes = accumulator[t * rhoBins + r];
+      if (votes < minVotes) continue;
+      let isMax = true;
+      for (let dt = -1; dt <= 1 && isMax; dt++) {
+        const tt = (t + dt + thetaBins) % thetaBins;
+        // Wrapping θ by π flips the sign of ρ
+        const wraps = t + dt < 0 || t + dt >= thetaBins;
+        for (let dr = -1; dr <= 1; dr++) {
+          if (dt === 0 && dr === 0) continue;
+          const rr = wraps ? 2 * diag - (r + dr) : r + dr;
+          if (rr < 0 || rr >= rhoBins) continue;
+          const other = accumulator[tt * rhoBins + rr];
+          if (other > votes || (other === votes && (dt < 0 || (dt === 0 && dr < 0)))) {
+            isMax = false;
+            break;
+          }
+        }
+      }
+      if (isMax) peaks.push(t * rhoBins + r);
+    }
+  }
+  peaks.sort((a, b) => accumulator[b] - accumulator[a]);
+
+  // Walk each peak's line, consuming edge pixels so weaker duplicates find nothing
+  const consumed = new Uint8Array(width * height);
+  const segments: LineSegment[] = [];
+  const angleTolerance = 10 * Math.PI / 180;
+
+  for (const peak of peaks) {
+    if (segments.length >= maxSegments) break;
+    const t = Math.floor(peak / rhoBins);
+    const rho = peak % rhoBins - diag;
+    const theta = t * Math.PI / thetaBins;
+    const nx = cos[t], ny = sin[t];
+    const dx = -ny, dy = nx;
+    const ox = nx * rho, oy = ny * rho;
+
+    let run: Array<{ x: number; y: number }> = [];
+    let gap = 0;
+    const flush = () => {
+      if (run.length > 0) {
+        const segment = fitSegment(run);
+        if (segment.length >= minLength) {
+          segments.push(segment);
+          for (const p of run) {
+            for (let oyy = -1; oyy <= 1; oyy++) {
+              for (let oxx = -1; oxx <= 1; oxx++) {
+                const xx = p.x + oxx, yy = p.y + oyy;
+                if (xx >= 0 && xx < width && yy >= 0 && yy < height) consumed[yy * width + xx] = 1;
+              }
+            }
+          }
+        }
+      }
+      run = [];
+      gap = 0;
+    };
+
+    for (let s = -diag; s <= diag; s++) {
+      const fx = ox + dx * s;
+      const fy = oy + dy * s;
+      if (fx < -1 || fx > width || fy < -1 || fy > height) {
+        if (run.length > 0) flush();
+        continue;
+      }
+
+      // Nearest unconsumed, direction-consistent edge pixel within ±1 px of the line
+      let hit = -1;
+      for (let offset = 0; offset <= 1 && hit < 0; offset++) {
+        for (const sign of offset === 0 ? [0] : [-1, 1]) {
+          const x = Math.round(fx + nx * offset * sign);
+          const y = Math.round(fy + ny * offset * sign);
+          if (x < 0 || x >= width || y < 0 || y >= height) continue;
+          const i = y * width + x;
+          if (!edges[i] || consumed[i]) continue;
+          let diff = Math.abs(edgeNormal[i] - theta);
+          if (diff > Math.PI / 2) diff = Math.PI - diff;
+          if (diff > angleTolerance) continue;
+          hit = i;
+          break;
+        }
+      }
+
+      if (hit >= 0) {
+        run.push({ x: hit % width, y: Math.floor(hit / width) });
+        gap = 0;
+      } else if (run.length > 0 && ++gap > maxGap) {
+        flush();
+      }
+    }
+    flush();
+  }
+
+  return segments;
+}
+
+/**
+ * Total least-squares line through pixels, clipped to their extent
+ */
+function fitSegment(points: Array<{ x: number; y: number }>): LineSegment {
+  let mx = 0, my = 0;
+  for (const p of points) {
+    mx += p.x;
+    my += p.y;
+  }
+  mx /= points.length;
+  my /= points.length;
+
+  let sxx = 0, sxy = 0, syy = 0;
+  for (const p of points) {
+    const ax = p.x - mx, ay = p.y - my;
+    sxx += ax * ax;
+    sxy += ax * ay;
+    syy += ay * ay;
+  }
+  const angle = 0.5 * Math.atan2(2 * sxy, sxx - syy);
+  const ux = Math.cos(angle), uy = Math.sin(angle);
+
+  let minT = Infinity, maxT = -Infinity;
+  for (const p of points) {
+    const t = (p.x - mx) * ux + (p.y - my) * uy;
+    if (t < minT) minT = t;
+    if (t > maxT) maxT = t;
+  }
+
+  return {
+    start: { x: mx + ux * minT, y: my + uy * minT },
+    end: { x: mx + ux * maxT, y: my + uy * maxT },
+    length: maxT - minT,
+    angle: angle < 0 ? angle + Math.PI : angle,
+    support: points.length,
+  };
+}
+
+// ============================================================================
+// VANISHING POINTS
+// ============================================================================
+
+/**
+ * Small deterministic PRNG so analyses are reproducible
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0 || 1;
+  return () => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return (state >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Angle between a segment and the direction from its midpoint to a
+ * homogeneous point (works for points at infinity)
+ */
+function consistencyAngle(segment: LineSegment, vp: [number, number, number]): number {
+  const mx = (segment.start.x + segment.end.x) / 2;
+  const my = (segment.start.y + segment.end.y) / 2;
+  const dx = vp[0] - mx * vp[2];
+  const dy = vp[1] - my * vp[2];
+  const norm = Math.hypot(dx, dy);
+  if (norm < 1e-12) return 0;
+  const cos = Math.abs(dx * Math.cos(segment.angle) + dy * Math.sin(segment.angle)) / norm;
+  return Math.acos(Math.min(1, cos));
+}
+
+/**
+ * Find up to `maxPoints` vanishing points by sequential RANSAC over segment
+ * pairs, refining each by weighted least squares on its inlier lines.
+ */
+export function estimateVanishingPoints(
+  segments: LineSegment[],
+  width: number,
+  height: number,
+  options: { maxPoints?: number; angleThreshold?: number; iterations?: number; seed?: number } = {}
+): VanishingPointEstimate[] {
+  const maxPoints = options.maxPoints ?? 3;
+  const threshold = options.angleThreshold ?? 2 * Math.PI / 180;
+  const iterations = options.iterations ?? 500;
+  const random = createRandom(options.seed ?? 0x5eed);
+
+  // Work in centred, diagonal-normalised coordinates for conditioning
+  const cx = width / 2, cy = height / 2;
+  const s = Math.hypot(width, height) / 2;
+  const lines = segments.map(segment => {
+    const x1 = (segment.start.x - cx) / s, y1 = (segment.start.y - cy) / s;
+    const x2 = (segment.end.x - cx) / s, y2 = (segment.end.y - cy) / s;
+    const a = y1 - y2, b = x2 - x1, c = x1 * y2 - x2 * y1;
+    const n = Math.hypot(a, b) || 1;
+    return [a / n, b / n, c / n] as [number, number, number];
+  });
+  const toPixels = (v: [number, number, number]): [number, number, number] => [v[0] * s + cx * v[2], v[1] * s + cy * v[2], v[2]];
+
+  const totalLength = segments.reduce((sum, seg) => sum + seg.length, 0);
+  let remaining = segments.map((_, i) => i);
+  const results: VanishingPointEstimate[] = [];
+
+  while (results.length < maxPoints && remaining.length >= 2) {
+    let best: { vp: [number, number, number]; inliers: number[]; score: number } | null = null;
+
+    // Sample proportionally to length: long segments are more reliable
+    const weights = remaining.map(i => segments[i].length);
+    const weightTotal = weights.reduce((a, b) => a + b, 0);
+    const pick = () => {
+      let r = random() * weightTotal;
+      for (let k = 0; k < remaining.length; k++) {
+        r -= weights[k];
+        if (r <= 0) return remaining[k];
+      }
+      return remaining[remaining.length - 1];
+    };
+
+    for (let iter = 0; iter < iterations; iter++) {
+      const i = pick();
+      const j = pick();
+      if (i === j) continue;
+      const [a1, b1, c1] = lines[i];
+      const [a2, b2, c2] = lines[j];
+      const v: [number, number, number] = [b1 * c2 - c1 * b2, c1 * a2 - a1 * c2, a1 * b2 - b1 * a2];
+      const norm = Math.hypot(v[0], v[1], v[2]);
+      if (norm < 1e-12) continue;
+      const vp = toPixels([v[0] / norm, v[1] / norm, v[2] / norm]);
+
+      const inliers: number[] = [];
+      let score = 0;
+      for (const k of remaining) {
+        if (consistencyAngle(segments[k], vp) < threshold) {
+          inliers.push(k);
+          score += segments[k].length;
+        }
+      }
+      if (!best || score > best.score) best = { vp, inliers, score };
+    }
+
+    if (!best || best.inliers.length < 3 || best.score < totalLength * 0.05) break;
+
+    const refined = toPixels(refineIntersection(best.inliers.map(i => lines[i]), best.inliers.map(i => segments[i].length)));
+    const inliers = remaining.filter(k => consistencyAngle(segments[k], refined) < threshold);
+    const score = inliers.reduce((sum, k) => sum + segments[k].length, 0);
+
+    const w = Math.abs(refined[2]) < 1e-9 ? 0 : refined[2];
+    results.push(w === 0
+      ? { x: refined[0], y: refined[1], w: 0, inliers, score }
+      : { x: refined[0] / w, y: refined[1] / w, w: 1, inliers, score });
+
+    const used = new Set(inliers.length >= best.inliers.length ? inliers : best.inliers);
+    remaining = remaining.filter(k => !used.has(k));
+  }
+
+  return results;
+}
+
+/**
+ * Point minimising Σ wᵢ (lᵢ · v)² with |v| = 1: the eigenvector of the
+ * smallest eigenvalue of Σ wᵢ lᵢ lᵢᵀ
+ */
+function refineIntersection(lines: Array<[number, number, number]>, weights: number[]): [number, number, number] {
+  const m = [0, 0, 0, 0, 0, 0, 0, 0, 0];
+  lines.forEach((l, k) => {
+    const w = weights[k];
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) m[i * 3 + j] += w * l[i] * l[j];
+    }
+  });
+
+  // Cyclic Jacobi rotations
+  const v = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+  for (let sweep = 0; sweep < 30; sweep++) {
+    const off = Math.abs(m[1]) + Math.abs(m[2]) + Math.abs(m[5]);
+    if (off < 1e-15) break;
+    for (const [p, q] of [[0, 1], [0, 2], [1, 2]]) {
+      const apq = m[p * 3 + q];
+      if (Math.abs(apq) < 1e-18) continue;
+      const theta = (m[q * 3 + q] - m[p * 3 + p]) / (2 * apq);
+      const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+      const c = 1 / Math.sqrt(t * t + 1);
+      const sn = t * c;
+      for (let k = 0; k < 3; k++) {
+        const mkp = m[k * 3 + p], mkq = m[k * 3 + q];
+        m[k * 3 + p] = c * mkp - sn * mkq;
+        m[k * 3 + q] = sn * mkp + c * mkq;
+      }
+      for (let k = 0; k < 3; k++) {
+        const mpk = m[p * 3 + k], mqk = m[q * 3 + k];
+        m[p * 3 + k] = c * mpk - sn * mqk;
+        m[q * 3 + k] = sn * mpk + c * mqk;
+      }
+      for (let k = 0; k < 3; k++) {
+        const vkp = v[k * 3 + p], vkq = v[k * 3 + q];
+        v[k * 3 + p] = c * vkp - sn * vkq;
+        v[k * 3 + q] = sn * vkp + c * vkq;
+      }
+    }
+  }
+
+  const smallest = [0, 1, 2].reduce((a, b) => (m[b * 3 + b] < m[a * 3 + a] ? b : a));
+  return [v[smallest], v[3 + smallest], v[6 + smallest]];
+}
+
+// ============================================================================
+// REGION SEGMENTATION
+// ============================================================================
+
+/** Colour distance across a pixel above which it is treated as an edge pixel */
+const EDGE_CONTRAST = 40;
+
+/**
+ * Graph-based segmentation (Felzenszwalb & Huttenlocher 2004) on a lightly
+ * blurred RGB image. Larger `k` prefers larger regions; segments smaller
+ * than `minSize` pixels (and thin edge bands) are merged into their
+ * closest-coloured neighbour, then adjacent segments
+ * whose mean colours differ by less than `mergeDistance` are joined so
+ * sensor noise and soft lighting gradients don't fragment flat surfaces.
+ */
+export function segmentImage(
+  raster: RasterImage,
+  options: { k?: number; minSize?: number; sigma?: number; mergeDistance?: number } = {}
+): { labels: Int32Array; segments: ImageSegment[] } {
+  const { width, height } = raster;
+  const n = width * height;
+  const k = options.k ?? 400;
+  const minSize = options.minSize ?? Math.max(20, Math.round(n * 0.001));
+  const sigma = options.sigma ?? 0.5;
+  const mergeDistance = options.mergeDistance ?? 12;
+
+  const channels = [0, 1, 2].map(c => {
+    const plane = new Float32Array(n);
+    for (let i = 0; i < n; i++) plane[i] = raster.data[i * 4 + c];
+    return gaussianBlur({ width, height, data: plane }, sigma).data;
+  });
+  const [r, g, b] = channels;
+
+  // Pixels whose opposite neighbours differ strongly sit on an edge; their
+  // colour is a blend of both sides, so they are kept out of the graph merge
+  // and assigned to the closest-coloured side afterwards
+  const onEdge = new Uint8Array(n);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      for (const step of [1, width, width + 1, width - 1]) {
+        const dr = r[i - step] - r[i + step], dg = g[i - step] - g[i + step], db = b[i - step] - b[i + step];
+        if (dr * dr + dg * dg + db * db > EDGE_CONTRAST * EDGE_CONTRAST) {
+          onEdge[i] = 1;
+          break;
+        }
+      }
+    }
+  }
+
+  // 8-connected edges weighted by colour distance, bucket-sorted
+  const offsets = [[1, 0], [0, 1], [1, 1], [-1, 1]];
+  const edgeA = new Uint32Array(n * 4);
+  const edgeB = new Uint32Array(n * 4);
+  const weight = new Float32Array(n * 4);
+  let count = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      for (const [ox, oy] of offsets) {
+        const xx = x + ox, yy = y + oy;
+        if (xx < 0 || xx >= width || yy >= height) continue;
+        const j = yy * width + xx;
+        const dr = r[i] - r[j], dg = g[i] - g[j], db = b[i] - b[j];
+        edgeA[count] = i;
+        edgeB[count] = j;
+        weight[count] = Math.sqrt(dr * dr + dg * dg + db * db);
+        count++;
+      }
+    }
+  }
+
+  const BUCKETS = 2048;
+  const maxWeight = 442;
+  const bucketCount = new Uint32Array(BUCKETS + 1);
+  const bucketOf = (w: number) => Math.min(BUCKETS - 1, Math.floor(w / maxWeight * BUCKETS));
+  for (let e = 0; e < count; e++) bucketCount[bucketOf(weight[e]) + 1]++;
+  for (let i = 1; i <= BUCKETS; i++) bucketCount[i] += bucketCount[i - 1];
+  const order = new Uint32Array(count);
+  for (let e = 0; e < count; e++) order[bucketCount[bucketOf(weight[e])]++] = e;
+
+  // Union-find with size and internal difference thresholds
+  const parent = new Int32Array(n);
+  const size = new Uint32Array(n).fill(1);
+  const threshold = new Float32Array(n).fill(k);
+  for (let i = 0; i < n; i++) parent[i] = i;
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const join = (a: number, b: number): number => {
+    if (size[a] < size[b]) [a, b] = [b, a];
+    parent[b] = a;
+    size[a] += size[b];
+    return a;
+  };
+
+  for (let o = 0; o < count; o++) {
+    const e = order[o];
+    const a = find(edgeA[e]);
+    const c = find(edgeB[e]);
+    if (a === c || onEdge[edgeA[e]] || onEdge[edgeB[e]]) continue;
+    const w = weight[e];
+    if (w <= threshold[a] && w <= threshold[c]) {
+      const root = join(a, c);
+      threshold[root] = w + k / size[root];
+    }
+  }
+
+  // Per-segment colour sums and boundary lengths for the merge passes
+  const sums = new Float64Array(n * 3);
+  for (let i = 0; i < n; i++) {
+    const root = find(i);
+    sums[root * 3] += r[i];
+    sums[root * 3 + 1] += g[i];
+    sums[root * 3 + 2] += b[i];
+  }
+  const meanDistance = (a: number, c: number) => Math.hypot(
+    sums[a * 3] / size[a] - sums[c * 3] / size[c],
+    sums[a * 3 + 1] / size[a] - sums[c * 3 + 1] / size[c],
+    sums[a * 3 + 2] / size[a] - sums[c * 3 + 2] / size[c]
+  );
+  const merge = (a: number, c: number) => {
+    const root = join(a, c);
+    const other = root === a ? c : a;
+    for (let ch = 0; ch < 3; ch++) sums[root * 3 + ch] += sums[other * 3 + ch];
+  };
+
+  let boundary = new Map<number, number>();
+  for (let e = 0; e < count; e++) {
+    const a = find(edgeA[e]);
+    const c = find(edgeB[e]);
+    if (a === c) continue;
+    const key = a < c ? a * n + c : c * n + a;
+    boundary.set(key, (boundary.get(key) ?? 0) + 1);
+  }
+  const rekey = () => {
+    const next = new Map<number, number>();
+    for (const [key, shared] of boundary) {
+      const a = find(Math.floor(key / n));
+      const c = find(key % n);
+      if (a === c) continue;
+      const k2 = a < c ? a * n + c : c * n + a;
+      next.set(k2, (next.get(k2) ?? 0) + shared);
+    }
+    boundary = next;
+  };
+
+  // Small segments, and thin bands that blur leaves along strong edges
+  // (their colour is a blend of both sides), join the closest-coloured
+  // substantial neighbour
+  for (let pass = 0; pass < 6; pass++) {
+    const crossings = new Float64Array(n);
+    for (const [key, shared] of boundary) {
+      crossings[Math.floor(key / n)] += shared;
+      crossings[key % n] += shared;
+    }
+    const minor = (root: number) => size[root] < minSize;
+    const target = new Map<number, { root: number; distance: number }>();
+    const settle = pass >= 3;
+    for (const key of boundary.keys()) {
+      const a = Math.floor(key / n), c = key % n;
+      for (const [self, other] of [[a, c], [c, a]]) {
+        if (!minor(self)) continue;
+        // Prefer substantial neighbours; fall back to any if all are minor
+        const distance = meanDistance(self, other) + (minor(other) ? 1000 : 0);
+        const best = target.get(self);
+        if (!best || distance < best.distance) target.set(self, { root: other, distance });
+      }
+    }
+    if (target.size === 0) break;
+    for (const [self, best] of [...target].sort((p, q) => size[p[0]] - size[q[0]])) {
+      // Early passes leave minor segments with only minor neighbours for
+      // later, so edge bands don't chain together
+      if (best.distance >= 1000 && !settle) continue;
+      const a = find(self), c = find(best.root);
+      if (a !== c) merge(a, c);
+    }
+    rekey();
+  }
+
+  // Region merging on mean colour, closest pairs first
+  for (let pass = 0; pass < 8; pass++) {
+    const live = Array.from(boundary.keys(), key => ({ a: Math.floor(key / n), c: key % n }))
+      .map(pair => ({ ...pair, distance: meanDistance(pair.a, pair.c) }))
+      .filter(pair => pair.distance < mergeDistance)
+      .sort((p, q) => p.distance - q.distance);
+    let merged = false;
+    for (const pair of live) {
+      const a = find(pair.a);
+      const c = find(pair.c);
+      if (a === c || meanDistance(a, c) >= mergeDistance) continue;
+      merge(a, c);
+      merged = true;
+    }
+    if (!merged) break;
+    rekey();
+  }
+
+  // Compact labels
+  const labels = new Int32Array(n);
+  const labelOf = new Map<number, number>();
+  for (let i = 0; i < n; i++) {
+    const root = find(i);
+    let label = labelOf.get(root);
+    if (label === undefined) {
+      label = labelOf.size;
+      labelOf.set(root, label);
+    }
+    labels[i] = label;
+  }
+
+  removeHairlines(labels, width, height);
+  return { labels, segments: describeSegments(raster, labels, labelOf.size) };
+}
+
+/**
+ * Relabel pixels with at most two same-label 8-neighbours (one-pixel lines
+ * and specks) to their most common neighbouring label. Such hairlines are
+ * resampling blends along strong edges and would otherwise chain distant
+ * parts of the image into one segment.
+ */
+function removeHairlines(labels: Int32Array, width: number, height: number): void {
+  const counts = new Map<number, number>();
+  for (let pass = 0; pass < 2; pass++) {
+    const source = labels.slice();
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        const own = source[i];
+        counts.clear();
+        let same = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          if (y + dy < 0 || y + dy >= height) continue;
+          for (let dx = -1; dx <= 1; dx++) {
+            if ((dx === 0 && dy === 0) || x + dx < 0 || x + dx >= width) continue;
+            const label = source[i + dy * width + dx];
+            if (label === own) same++;
+            else counts.set(label, (counts.get(label) ?? 0) + 1);
+          }
+        }
+        if (same > 2) continue;
+        let best = own, bestCount = 0;
+        for (const [label, count] of counts) {
+          if (count > bestCount) {
+            best = label;
+            bestCount = count;
+          }
+        }
+        labels[i] = best;
+      }
+    }
+  }
+}
+
+function describeSegments(raster: RasterImage, labels: Int32Array, count: number): ImageSegment[] {
+  const { width, height, data } = raster;
+  const area = new Float64Array(count);
+  const sum = new Float64Array(count * 6); // r, g, b, lum, lum², x+y packed below
+  const cxSum = new Float64Array(count);
+  const cySum = new Float64Array(count);
+  const minX = new Int32Array(count).fill(width), minY = new Int32Array(count).fill(height);
+  const maxX = new Int32Array(count).fill(-1), maxY = new Int32Array(count).fill(-1);
+  const neighbors = Array.from({ length: count }, () => new Set<number>());
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const label = labels[i];
+      const lum = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+      area[label]++;
+      sum[label * 6] += data[i * 4];
+      sum[label * 6 + 1] += data[i * 4 + 1];
+      sum[label * 6 + 2] += data[i * 4 + 2];
+      sum[label * 6 + 3] += lum;
+      sum[label * 6 + 4] += lum * lum;
+      cxSum[label] += x;
+      cySum[label] += y;
+      if (x < minX[label]) minX[label] = x;
+      if (x > maxX[label]) maxX[label] = x;
+      if (y < minY[label]) minY[label] = y;
+      if (y > maxY[label]) maxY[label] = y;
+      if (x + 1 < width && labels[i + 1] !== label) {
+        neighbors[label].add(labels[i + 1]);
+        neighbors[labels[i + 1]].add(label);
+      }
+      if (y + 1 < height && labels[i + width] !== label) {
+        neighbors[label].add(labels[i + width]);
+        neighbors[labels[i + width]].add(label);
+      }
+    }
+  }
+
+  const segments: ImageSegment[] = [];
+  for (let label = 0; label < count; label++) {
+    const a = area[label];
+    const mean = sum[label * 6 + 3] / a;
+    const bw = maxX[label] - minX[label] + 1;
+    const bh = maxY[label] - minY[label] + 1;
+    segments.push({
+      label,
+      area: a,
+      boundingBox: { x: minX[label], y: minY[label], width: bw, height: bh },
+      centroid: { x: cxSum[label] / a, y: cySum[label] / a },
+      meanColor: { r: sum[label * 6] / a, g: sum[label * 6 + 1] / a, b: sum[label * 6 + 2] / a },
+      luminance: mean,
+      texture: Math.sqrt(Math.max(0, sum[label * 6 + 4] / a - mean * mean)),
+      rectangularity: a / (bw * bh),
+      touches: {
+        top: minY[label] === 0,
+        bottom: maxY[label] === height - 1,
+        left: minX[label] === 0,
+        right: maxX[label] === width - 1,
+      },
+      neighbors: Array.from(neighbors[label]),
+    });
+  }
+  return segments;
+}
+
+/**
+ * Convex outline of the pixels carrying any of the given labels
+ */
+export function labelOutline(
+  labels: Int32Array,
+  width: number,
+  height: number,
+  members: Set<number>
+): Array<{ x: number; y: number }> {
+  // Row extents are enough for a convex hull
+  const points: Array<{ x: number; y: number }> = [];
+  for (let y = 0; y < height; y++) {
+    let first = -1, last = -1;
+    for (let x = 0; x < width; x++) {
+      if (members.has(labels[y * width + x])) {
+        if (first < 0) first = x;
+        last = x;
+      }
+    }
+    if (first >= 0) {
+      points.push({ x: first, y }, { x: last + 1, y }, { x: first, y: y + 1 }, { x: last + 1, y: y + 1 });
+    }
+  }
+  return convexHull(points);
+}
+
+function convexHull(points: Array<{ x: number; y: number }>): Array<{ x: number; y: number }> {
+  if (points.length < 3) return points;
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  const cross = (o: { x: number; y: number }, a: { x: number; y: number }, b: { x: number; y: number }) =>
+    (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+  const lower: Array<{ x: number; y: number }> = [];
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+    lower.push(p);
+  }
+  const upper: Array<{ x: number; y: number }> = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const p = sorted[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+    upper.push(p);
+  }
+  lower.pop();
+  upper.pop();
+  return [...lower, ...upper];
+}
+
+// ============================================================================
+// LINE DRAWINGS
+// ============================================================================
+
+/**
+ * Whether an image looks like a scanned or exported line drawing: mostly
+ * white paper, little colour and a small fraction of ink
+ */
+export function isLineDrawing(raster: RasterImage): boolean {
+  const n = raster.width * raster.height;
+  let paper = 0, ink = 0, saturationSum = 0;
+  for (let i = 0; i < n; i++) {
+    const r = raster.data[i * 4], g = raster.data[i * 4 + 1], b = raster.data[i * 4 + 2];
+    const max = Math.max(r, g, b), min = Math.min(r, g, b);
+    const lum = 0.299 * r + 0.587 * g + 0.114 * b;
+    if (lum > 220) paper++;
+    else if (lum < 128) ink++;
+    saturationSum += max > 0 ? (max - min) / max : 0;
+  }
+  return paper / n > 0.6 && ink / n < 0.2 && ink / n > 0.001 && saturationSum / n < 0.1;
+}
+
+/**
+ * Straight strokes of a line drawing. Canny finds both sides of each
+ * stroke, so parallel edge pairs are merged into a centreline whose
+ * thickness is their separation; collinear pieces separated by regular
+ * gaps are reported as one dashed line.
+ */
+export function extractDrawingLines(raster: RasterImage): ImageLine[] {
+  const minDim = Math.min(raster.width, raster.height);
+  const segments = houghSegments(cannyEdges(toGray(raster), { sigma: 0.7, high: 20 }), {
+    minLength: Math.max(6, Math.round(minDim * 0.01)),
+    maxSegments: 500,
+  });
+  const angleTolerance = 2 * Math.PI / 180;
+  const maxThickness = Math.max(4, minDim * 0.02);
+
+  const angleDiff = (a: LineSegment, b: LineSegment) => {
+    const d = Math.abs(a.angle - b.angle);
+    return Math.min(d, Math.PI - d);
+  };
+  const frame = (line: LineSegment) => {
+    const ux = Math.cos(line.angle), uy = Math.sin(line.angle);
+    return {
+      ux, uy,
+      along: (p: { x: number; y: number }) => (p.x - line.start.x) * ux + (p.y - line.start.y) * uy,
+      across: (p: { x: number; y: number }) => (p.y - line.start.y) * ux - (p.x - line.start.x) * uy,
+    };
+  };
+
+  // Pair stroke sides
+  const strokes: Array<{ start: { x: number; y: number }; end: { x: number; y: number }; thickness: number; angle: number }> = [];
+  const used = new Set<number>();
+  const order = segments.map((_, i) => i).sort((a, b) => segments[b].length - segments[a].length);
+  for (const i of order) {
+    if (used.has(i)) continue;
+    used.add(i);
+    const line = segments[i];
+    const f = frame(line);
+    let partner = -1, partnerOffset = 0;
+    for (const j of order) {
+      if (used.has(j) || angleDiff(line, segments[j]) > angleTolerance) continue;
+      const other = segments[j];
+      const offset = f.across({ x: (other.start.x + other.end.x) / 2, y: (other.start.y + other.end.y) / 2 });
+      if (Math.abs(offset) > maxThickness) continue;
+      const a = f.along(other.start), b = f.along(other.end);
+      const overlap = Math.min(line.length, Math.max(a, b)) - Math.max(0, Math.min(a, b));
+      if (overlap < Math.min(line.length, other.length) * 0.5) continue;
+      partner = j;
+      partnerOffset = offset;
+      break;
+    }
+    if (partner >= 0) used.add(partner);
+    const shift = partnerOffset / 2;
+    strokes.push({
+      start: { x: line.start.x - f.uy * shift, y: line.start.y + f.ux * shift },
+      end: { x: line.end.x - f.uy * shift, y: line.end.y + f.ux * shift },
+      thickness: partner >= 0 ? Math.max(1, Math.abs(partnerOffset)) : 1,
+      angle: line.angle,
+    });
+  }
+
+  // Chain collinear strokes into dashed lines
+  const maxGap = minDim * 0.05;
+  const lines: ImageLine[] = [];
+  const chained = new Set<number>();
+  for (let i = 0; i < strokes.length; i++) {
+    if (chained.has(i)) continue;
+    chained.add(i);
+    const base = strokes[i];
+    const f = frame({ ...base, length: 0, support: 0 });
+    const pieces = [{ index: i, from: 0, to: f.along(base.end) }];
+    for (let j = i + 1; j < strokes.length; j++) {
+      const other = strokes[j];
+      if (chained.has(j)) continue;
+      let d = Math.abs(other.angle - base.angle);
+      d = Math.min(d, Math.PI - d);
+      if (d > angleTolerance || Math.abs(f.across(other.start)) > 2 || Math.abs(f.across(other.end)) > 2) continue;
+      const a = f.along(other.start), b = f.along(other.end);
+      pieces.push({ index: j, from: Math.min(a, b), to: Math.max(a, b) });
+    }
+    pieces.sort((p, q) => p.from - q.from);
+
+    // Keep the run of pieces connected to the base through small gaps
+    let run = [pieces[0]];
+    const runs: typeof run[] = [];
+    for (let k = 1; k < pieces.length; k++) {
+      if (pieces[k].from - run[run.length - 1].to <= maxGap) run.push(pieces[k]);
+      else {
+        runs.push(run);
+        run = [pieces[k]];
+      }
+    }
+    runs.push(run);
+    const own = runs.find(r => r.some(p => p.index === i))!;
+    for (const p of own) chained.add(p.index);
+
+    const from = own[0].from, to = own[own.length - 1].to;
+    lines.push({
+      start: { x: base.start.x + f.ux * from, y: base.start.y + f.uy * from },
+      end: { x: base.start.x + f.ux * to, y: base.start.y + f.uy * to },
+      thickness: Math.round(own.reduce((sum, p) => sum + strokes[p.index].thickness, 0) / own.length * 10) / 10,
+      type: own.length >= 3 ? 'dashed' : 'solid',
+    });
+  }
+
+  return lines;
+}
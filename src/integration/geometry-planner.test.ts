@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import type { DesignRequest, DesignSolution } from '../ai/types';
+import { createPartGeometry, planElementGeometry } from './geometry-planner';
+
+type Point = [number, number, number];
+
+function request(a: Point, b: Point): DesignRequest {
+  const at = ([x, y, z]: Point) => ({ position: { x, y, z }, type: 'floor' as const });
+  return {
+    id: 'request-1',
+    description: 'Test request',
+    pointA: at(a),
+    pointB: at(b),
+    environment: {
+      boundaries: { min: { x: -10000, y: -10000, z: -10000 }, max: { x: 10000, y: 10000, z: 10000 } },
+      obstacles: [],
+      conditions: { exposure: 'indoor' },
+    },
+    constraints: { buildingType: 'commercial', codes: [{ code: 'IBC' }] },
+  };
+}
+
+function solution(elementType: string, parameters: Record<string, unknown> = {}): DesignSolution {
+  return { id: 'solution-1', elementType, parameters } as DesignSolution;
+}
+
+function plan(elementType: string, a: Point, b: Point, parameters?: Record<string, unknown>) {
+  return planElementGeometry(solution(elementType, parameters), request(a, b));
+}
+
+describe('planElementGeometry', () => {
+  it('lays out stairs sized by the stair calculator', () => {
+    const stairs = plan('stairs', [0, 0, 0], [5000, 0, 3000]);
+    const calc = stairs.calculation as { numTreads: number; riserHeight: number; treadDepth: number; stairAngle: number };
+
+    expect(stairs.calculator).toBe('calculateStairs');
+    expect(stairs.errors).toEqual([]);
+    const treads = stairs.parts.filter(p => p.partType === 'tread');
+    expect(treads).toHaveLength(calc.numTreads);
+    expect(treads[0].bounds.max.z).toBeCloseTo(calc.riserHeight, 6);
+    expect(treads[1].bounds.min.x).toBeCloseTo(calc.treadDepth, 6);
+    expect(treads[0].bounds.max.y).toBe(1100);
+
+    // Tabulated C10x25 stringers with level and plumb end cuts
+    const [stringer] = stairs.parts.filter(p => p.partType === 'stringer-channel');
+    expect(stringer.metadata).toMatchObject({ profile: 'C10x25', shape: 'channel', size: 254, width: 73 });
+    expect(stringer.metadata.endAngles).toEqual([calc.stairAngle, 90 - calc.stairAngle]);
+    expect(stringer.weight / (stringer.metadata.length as number)).toBeCloseTo(0.0372, 4);
+
+    expect(stairs.builderInput).toMatchObject({ totalRise: 3000, riserHeight: calc.riserHeight, width: 1100 });
+  });
+
+  it('lands descending stairs at the lower point', () => {
+    const stairs = plan('stairs', [0, 0, 3000], [5000, 0, 0]);
+    const treads = stairs.parts.filter(p => p.partType === 'tread');
+
+    expect(Math.min(...treads.map(t => t.bounds.min.z))).toBeGreaterThanOrEqual(0);
+    // The lowest tread is furthest along the run, nearest B
+    const lowest = treads.reduce((a, b) => (a.bounds.min.z < b.bounds.min.z ? a : b));
+    expect(lowest.bounds.max.x).toBeGreaterThan(treads[treads.length - 1].bounds.max.x);
+  });
+
+  it('reports an error instead of parts when the stairs do not climb', () => {
+    const flat = plan('stairs', [0, 0, 0], [3000, 0, 0]);
+    expect(flat.errors).toEqual(['Stairs require an elevation change between point A and point B']);
+    expect(flat.parts).toEqual([]);
+  });
+
+  it('picks the lightest adequate wide-flange beam with shear tabs at each end', () => {
+    const beam = plan('beam', [0, 0, 3000], [6000, 0, 3000]);
+    const [member, ...tabs] = beam.parts;
+
+    expect(beam.calculator).toBe('calculateSteelBeam');
+    expect(member.metadata).toMatchObject({ profile: 'W8x18', shape: 'i-beam', length: 6000, size: 207 });
+    expect(member.metadata.designRatio).toBeLessThanOrEqual(1);
+    expect(tabs.map(t => t.partType)).toEqual(['shear-tab', 'shear-tab']);
+    expect(beam.builderInput).toMatchObject({ profile: 'w-flange', depth: 207, length: 6000, orientation: 'horizontal' });
+
+    const requested = plan('beam', [0, 0, 3000], [6000, 0, 3000], { profile: 'W99x1' });
+    expect(requested.warnings).toContain('Profile W99x1 not tabulated; selected W8x18');
+  });
+
+  it('reads section dimensions from designations that are not tabulated', () => {
+    const bracing = plan('bracing', [0, 0, 0], [6000, 0, 4000]);
+    const brace = bracing.parts.find(p => p.partType === 'bracing-angle')!;
+
+    // L4x4x1/4 is read in inches
+    expect(brace.metadata).toMatchObject({ profile: 'L4x4x1/4', shape: 'angle', size: 101.6, width: 101.6 });
+    expect(brace.metadata.length).toBeCloseTo(Math.hypot(6000, 4000), 6);
+  });
+
+  it('falls back to a placeholder member without a calculator', () => {
+    const unknown = plan('gizmo', [0, 0, 0], [1000, 0, 0]);
+
+    expect(unknown.calculator).toBeUndefined();
+    expect(unknown.warnings).toEqual(['No calculator available for gizmo; geometry is a placeholder envelope']);
+    expect(unknown.parts).toHaveLength(1);
+    expect(unknown.parts[0].bounds).toEqual({ min: { x: 0, y: -50, z: -50 }, max: { x: 1000, y: 50, z: 50 } });
+  });
+});
+
+describe('createPartGeometry', () => {
+  it('turns a planned part into a geometry result', () => {
+    const [tread] = plan('stairs', [0, 0, 0], [5000, 0, 3000]).parts.filter(p => p.partType === 'tread');
+    const geometry = createPartGeometry(tread, 'A36', 'shape-7');
+
+    expect(geometry.shapeId).toBe('shape-7');
+    expect(geometry.elementType).toBe('tread');
+    expect(geometry.material).toBe('A36');
+    expect(geometry.transform.position).toEqual(tread.bounds.min);
+    expect(geometry.properties.centerOfMass.y).toBe(550);
+    expect(geometry.metadata).toBe(tread.metadata);
+  });
+});
@@ -0,0 +1,2232 @@
+/**
+ * Element Geometry Planner
+ *
+ * Sizes a design solution with the domain calculators and lays out the
+ * resulting parts in world coordinates. Each part carries its calculated
+ * envelope, volume and weight so the assembly, BOM and cut list reflect
+ * the engineered design even when the OpenCascade kernel is unavailable.
+ * All measurements in millimeters.
+ */
+
+import type { Point3D, Vector3D } from '../knowledge/types';
+import type { DesignRequest, DesignSolution } from '../ai/types';
+import type { GeometryResult } from '../geometry/types';
+import type { StairInput, LadderInput, RampInput, PlatformInput } from '../geometry/builders/access';
+import type { BeamInput, ColumnInput, BracingInput } from '../geometry/builders/structure';
+import type { GuardInput, FenceInput, PanelInput, CoverInput } from '../geometry/builders/enclosure';
+import type { PipeInput, DuctInput, CableTrayInput } from '../geometry/builders/flow';
+import type {
+  ShaftInput,
+  BearingInput,
+  CouplingInput,
+  BracketInput,
+  LinkageInput,
+} from '../geometry/builders/mechanical';
+import type { ElementGeometryPlan, PlannedPart } from './types';
+import { calculateWeight, generateGeometryId } from '../geometry/builder';
+import { getMaterialDensity } from '../geometry/types';
+import { layoutShaft, fourBarJoints } from '../geometry/builders/mechanical';
+import {
+  calculateStairs,
+  calculateLadder,
+  calculateRamp,
+  calculatePlatform,
+} from '../knowledge/domains/access';
+import {
+  calculateSteelBeam,
+  calculateSteelColumn,
+  calculateDiagonalBracing,
+  steelBeamSections,
+  steelColumnSections,
+  braceSections,
+} from '../knowledge/domains/structure';
+import {
+  calculateGuard,
+  calculateFenceLayout,
+  calculateAccessPanel,
+  calculateEnclosure,
+} from '../knowledge/domains/enclosure';
+import {
+  calculatePipe,
+  calculateDuct,
+  calculateCableTray,
+  calculatePipeFlexibility,
+  pipeSizes,
+} from '../knowledge/domains/flow';
+import {
+  designShaft,
+  selectBearing,
+  selectCoupling,
+  analyzeFourBar,
+  calculateBracket,
+} from '../knowledge/domains/mechanical';
+import { routeRun } from '../spatial';
+
+// ============================================================================
+// SECTION PROFILES
+// ============================================================================
+
+interface SectionProfile {
+  designation: string;
+  shape: 'i-beam' | 'channel' | 'angle' | 'tube-rect' | 'tube-round' | 'bar-flat' | 'bar-round';
+  depth: number;          // mm
+  width: number;          // mm
+  webThickness?: number;  // mm (tabulated sections)
+  area: number;           // mm²
+  perimeter: number;      // mm
+  massPerMeter?: number;  // kg/m (from section tables)
+}
+
+const MM_PER_INCH = 25.4;
+const KG_PER_M_PER_LB_PER_FT = 1.48816;
+
+/** Bar grating weight for 1-1/4" x 3/16" bearing bars at 30mm pitch */
+const GRATING_WEIGHT_PER_M2 = 35;
+
+function parseInches(value: string): number {
+  const mixed = value.match(/^(\d+)-(\d+)\/(\d+)$/);
+  if (mixed) {
+    return parseInt(mixed[1]) + parseInt(mixed[2]) / parseInt(mixed[3]);
+  }
+  const fraction = value.match(/^(\d+)\/(\d+)$/);
+  if (fraction) {
+    return parseInt(fraction[1]) / parseInt(fraction[2]);
+  }
+  return parseFloat(value);
+}
+
+function flatBar(width: number, thickness: number): SectionProfile {
+  return {
+    designation: `FB${width}x${thickness}`,
+    shape: 'bar-flat',
+    depth: width,
+    width: thickness,
+    area: width * thickness,
+    perimeter: 2 * (width + thickness),
+  };
+}
+
+function roundBar(diameter: number): SectionProfile {
+  return {
+    designation: `RB${diameter}`,
+    shape: 'bar-round',
+    depth: diameter,
+    width: diameter,
+    area: Math.PI * diameter * diameter / 4,
+    perimeter: Math.PI * diameter,
+  };
+}
+
+function roundTube(od: number, wall: number, designation = `TUBE${od}x${wall}`): SectionProfile {
+  const id = Math.max(0, od - 2 * wall);
+  return {
+    designation,
+    shape: 'tube-round',
+    depth: od,
+    width: od,
+    area: Math.PI * (od * od - id * id) / 4,
+    perimeter: Math.PI * od,
+  };
+}
+
+function rectTube(depth: number, width: number, wall: number, designation = `TUBE${depth}x${width}x${wall}`): SectionProfile {
+  return {
+    designation,
+    shape: 'tube-rect',
+    depth,
+    width,
+    area: 2 * wall * (depth + width - 2 * wall),
+    perimeter: 2 * (depth + width),
+  };
+}
+
+function angleSection(legA: number, legB: number, thickness: number, designation: string): SectionProfile {
+  return {
+    designation,
+    shape: 'angle',
+    depth: legA,
+    width: legB,
+    area: thickness * (legA + legB - thickness),
+    perimeter: 2 * (legA + legB),
+  };
+}
+
+/**
+ * Standard pipe section from the flow domain pipe tables
+ */
+function pipeSection(nps: string, schedule: string): SectionProfile | undefined {
+  const size = pipeSizes.find(s => s.nps === nps);
+  const data = size?.schedules[schedule];
+  if (!size || !data) return undefined;
+
+  return {
+    ...roundTube(size.od, data.wall, `PIPE ${nps} ${schedule}`),
+    massPerMeter: data.weight,
+  };
+}
+
+/**
+ * Resolve a section designation (imperial or metric) to its profile.
+ * Tabulated structural sections are used when available; otherwise the
+ * dimensions are read from the designation itself.
+ */
+function resolveSection(designation: string): SectionProfile | undefined {
+  const tabulated =
+    steelBeamSections.find(s => s.designation === designation) ||
+    steelColumnSections.find(s => s.designation === designation);
+
+  if (tabulated) {
+    const type = tabulated.type.toLowerCase();
+    if (type.includes('round') || type.includes('pipe')) {
+      return { ...roundTube(tabulated.d, tabulated.tw, designation), area: tabulated.A, massPerMeter: tabulated.W };
+    }
+    const shape: SectionProfile['shape'] = type.startsWith('hss')
+      ? 'tube-rect'
+      : type.startsWith('c') ? 'channel' : 'i-beam';
+    return {
+      designation,
+      shape,
+      depth: tabulated.d,
+      width: tabulated.bf,
+      webThickness: tabulated.tw,
+      area: tabulated.A,
+      perimeter: shape === 'tube-rect'
+        ? 2 * (tabulated.d + tabulated.bf)
+        : 2 * tabulated.d + 4 * tabulated.bf - 2 * tabulated.tw,
+      massPerMeter: tabulated.W,
+    };
+  }
+
+  const parsed = parseSectionDesignation(designation);
+  const braced = braceSections.find(s => s.designation === designation);
+  if (parsed && braced) {
+    return { ...parsed, area: braced.A, massPerMeter: braced.W };
+  }
+  return parsed;
+}
+
+function parseSectionDesignation(designation: string): SectionProfile | undefined {
+  // Wide flange: W8x31 (in x lb/ft) or W200x46 (mm x kg/m)
+  const wide = designation.match(/^W(\d+(?:\.\d+)?)x(\d+(?:\.\d+)?)$/i);
+  if (wide) {
+    const metric = parseFloat(wide[1]) >= 100;
+    const depth = metric ? parseFloat(wide[1]) : parseFloat(wide[1]) * MM_PER_INCH;
+    const massPerMeter = metric ? parseFloat(wide[2]) : parseFloat(wide[2]) * KG_PER_M_PER_LB_PER_FT;
+    const width = depth * 0.65;
+    return {
+      designation,
+      shape: 'i-beam',
+      depth,
+      width,
+      area: massPerMeter / 7850 * 1e6,
+      perimeter: 2 * depth + 4 * width,
+      massPerMeter,
+    };
+  }
+
+  // Channel: C6x13 or C150x19
+  const channel = designation.match(/^C(\d+(?:\.\d+)?)x(\d+(?:\.\d+)?)$/i);
+  if (channel) {
+    const metric = parseFloat(channel[1]) >= 75;
+    const depth = metric ? parseFloat(channel[1]) : parseFloat(channel[1]) * MM_PER_INCH;
+    const massPerMeter = metric ? parseFloat(channel[2]) : parseFloat(channel[2]) * KG_PER_M_PER_LB_PER_FT;
+    const width = depth * 0.35;
+    return {
+      designation,
+      shape: 'channel',
+      depth,
+      width,
+      area: massPerMeter / 7850 * 1e6,
+      perimeter: 2 * depth + 4 * width,
+      massPerMeter,
+    };
+  }
+
+  // Rectangular HSS: HSS6x6x3/8 or HSS150x150x6
+  const hssRect = designation.match(/^HSS([\d.]+)x([\d.]+)x([\d./-]+)$/i);
+  if (hssRect) {
+    const metric = parseFloat(hssRect[1]) >= 40;
+    const scale = metric ? 1 : MM_PER_INCH;
+    return rectTube(
+      parseFloat(hssRect[1]) * scale,
+      parseFloat(hssRect[2]) * scale,
+      parseInches(hssRect[3]) * scale,
+      designation
+    );
+  }
+
+  // Round HSS: HSS4x0.250
+  const hssRound = designation.match(/^HSS([\d.]+)x([\d.]+)$/i);
+  if (hssRound) {
+    const metric = parseFloat(hssRound[1]) >= 40;
+    const scale = metric ? 1 : MM_PER_INCH;
+    return roundTube(parseFloat(hssRound[1]) * scale, parseFloat(hssRound[2]) * scale, designation);
+  }
+
+  // Angle: L3x3x1/4, L2-1/2x2-1/2x1/4 or L100x100x8
+  const angle = designation.match(/^L([\d./-]+)x([\d./-]+)x([\d./-]+)$/i);
+  if (angle) {
+    const metric = parseInches(angle[1]) >= 20;
+    const scale = metric ? 1 : MM_PER_INCH;
+    return angleSection(
+      parseInches(angle[1]) * scale,
+      parseInches(angle[2]) * scale,
+      parseInches(angle[3]) * scale,
+      designation
+    );
+  }
+
+  return undefined;
+}
+
+function sectionMassPerMeter(section: SectionProfile, material: string): number {
+  return section.massPerMeter ?? section.area * getMaterialDensity(material) / 1e6;
+}
+
+// ============================================================================
+// LAYOUT FRAME
+// ============================================================================
+
+/**
+ * Local layout frame for an element: `s` runs horizontally from point A
+ * towards point B, `t` runs across (left of the run direction) and `h` is
+ * the height above point A.
+ */
+interface LayoutFrame {
+  origin: Point3D;
+  along: Vector3D;
+  across: Vector3D;
+  run: number;    // Horizontal distance A→B (mm)
+  rise: number;   // Elevation change A→B (mm)
+  span: number;   // Straight-line distance A→B (mm)
+}
+
+function createLayoutFrame(pointA: Point3D, pointB: Point3D): LayoutFrame {
+  const dx = pointB.x - pointA.x;
+  const dy = pointB.y - pointA.y;
+  const run = Math.sqrt(dx * dx + dy * dy);
+  const along = run > 1e-6 ? { x: dx / run, y: dy / run, z: 0 } : { x: 1, y: 0, z: 0 };
+  const rise = pointB.z - pointA.z;
+
+  return {
+    origin: pointA,
+    along,
+    across: { x: -along.y, y: along.x, z: 0 },
+    run,
+    rise,
+    span: Math.sqrt(run * run + rise * rise),
+  };
+}
+
+function toWorld(frame: LayoutFrame, s: number, t: number, h: number): Point3D {
+  return {
+    x: frame.origin.x + frame.along.x * s + frame.across.x * t,
+    y: frame.origin.y + frame.along.y * s + frame.across.y * t,
+    z: frame.origin.z + h,
+  };
+}
+
+// ============================================================================
+// PART PRIMITIVES
+// ============================================================================
+
+function boundsOf(points: Point3D[]): PlannedPart['bounds'] {
+  return {
+    min: {
+      x: Math.min(...points.map(p => p.x)),
+      y: Math.min(...points.map(p => p.y)),
+      z: Math.min(...points.map(p => p.z)),
+    },
+    max: {
+      x: Math.max(...points.map(p => p.x)),
+      y: Math.max(...points.map(p => p.y)),
+      z: Math.max(...points.map(p => p.z)),
+    },
+  };
+}
+
+/**
+ * Prismatic member (beam, tube, bar, pipe) between two points
+ */
+function memberPart(
+  name: string,
+  partType: string,
+  start: Point3D,
+  end: Point3D,
+  section: SectionProfile,
+  material: string,
+  metadata: Record<string, unknown> = {}
+): PlannedPart {
+  const d = { x: end.x - start.x, y: end.y - start.y, z: end.z - start.z };
+  const length = Math.sqrt(d.x * d.x + d.y * d.y + d.z * d.z);
+  const half = Math.max(section.depth, section.width) / 2;
+
+  // Envelope of a swept section: no growth along the member axis
+  const grow = (component: number) =>
+    length > 0 ? half * Math.sqrt(Math.max(0, 1 - (component / length) ** 2)) : half;
+  const gx = grow(d.x);
+  const gy = grow(d.y);
+  const gz = grow(d.z);
+
+  return {
+    name,
+    partType,
+    bounds: {
+      min: { x: Math.min(start.x, end.x) - gx, y: Math.min(start.y, end.y) - gy, z: Math.min(start.z, end.z) - gz },
+      max: { x: Math.max(start.x, end.x) + gx, y: Math.max(start.y, end.y) + gy, z: Math.max(start.z, end.z) + gz },
+    },
+    volume: section.area * length,
+    surfaceArea: section.perimeter * length,
+    weight: sectionMassPerMeter(section, material) * length / 1000,
+    metadata: {
+      profile: section.designation,
+      shape: section.shape,
+      length,
+      size: section.depth,
+      width: section.width,
+      ...(section.shape === 'tube-round' || section.shape === 'bar-round' ? { diameter: section.depth } : {}),
+      ...metadata,
+    },
+  };
+}
+
+/**
+ * Rectangular block (plate, panel, deck) in the layout frame
+ */
+function blockPart(
+  frame: LayoutFrame,
+  name: string,
+  partType: string,
+  s: [number, number],
+  t: [number, number],
+  h: [number, number],
+  material: string,
+  metadata: Record<string, unknown> = {},
+  weight?: number
+): PlannedPart {
+  const corners: Point3D[] = [];
+  for (const si of s) {
+    for (const ti of t) {
+      for (const hi of h) {
+        corners.push(toWorld(frame, si, ti, hi));
+      }
+    }
+  }
+
+  const a = Math.abs(s[1] - s[0]);
+  const b = Math.abs(t[1] - t[0]);
+  const c = Math.abs(h[1] - h[0]);
+  const volume = a * b * c;
+
+  return {
+    name,
+    partType,
+    bounds: boundsOf(corners),
+    volume,
+    surfaceArea: 2 * (a * b + b * c + a * c),
+    weight: weight ?? calculateWeight(volume, material),
+    metadata: { length: Math.max(a, b, c), ...metadata },
+  };
+}
+
+/**
+ * Part with an explicit envelope and calculated mass properties (rings, fittings)
+ */
+function envelopePart(
+  name: string,
+  partType: string,
+  corners: Point3D[],
+  volume: number,
+  surfaceArea: number,
+  weight: number,
+  metadata: Record<string, unknown> = {}
+): PlannedPart {
+  return {
+    name,
+    partType,
+    bounds: boundsOf(corners),
+    volume,
+    surfaceArea,
+    weight,
+    metadata,
+  };
+}
+
+/**
+ * Evenly spaced positions over [start, end], including both ends
+ */
+function spacedPositions(start: number, end: number, count: number): number[] {
+  if (count <= 0) return [];
+  if (count === 1) return [(start + end) / 2];
+  return Array.from({ length: count }, (_, i) => start + (end - start) * i / (count - 1));
+}
+
+// ============================================================================
+// PLANNING CONTEXT
+// ============================================================================
+
+interface PlanContext {
+  solution: DesignSolution;
+  request: DesignRequest;
+  params: Record<string, unknown>;
+  frame: LayoutFrame;
+  material: string;
+}
+
+function numberParam(params: Record<string, unknown>, key: string, fallback: number): number {
+  const value = params[key];
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+function stringParam(params: Record<string, unknown>, key: string, fallback: string): string {
+  const value = params[key];
+  return typeof value === 'string' && value.length > 0 ? value : fallback;
+}
+
+function booleanParam(params: Record<string, unknown>, key: string, fallback: boolean): boolean {
+  const value = params[key];
+  return typeof value === 'boolean' ? value : fallback;
+}
+
+type MaterialFamily = 'steel' | 'stainless' | 'aluminum' | 'galvanized';
+
+function materialFamily(material: string): MaterialFamily {
+  const id = material.toLowerCase();
+  if (id.includes('stainless')) return 'stainless';
+  if (id.includes('alum')) return 'aluminum';
+  if (id.includes('galv')) return 'galvanized';
+  return 'steel';
+}
+
+function emptyPlan(elementType: string, calculator?: string): ElementGeometryPlan {
+  return {
+    elementType,
+    calculator,
+    parts: [],
+    errors: [],
+    warnings: [],
+  };
+}
+
+// ============================================================================
+// ACCESS DOMAIN
+// ============================================================================
+
+function planStairs(ctx: PlanContext): ElementGeometryPlan {
+  const { frame, params, material, request } = ctx;
+  const plan = emptyPlan('stairs', 'calculateStairs');
+  const totalRise = Math.abs(frame.rise);
+
+  if (totalRise <= 0) {
+    plan.errors.push('Stairs require an elevation change between point A and point B');
+    return plan;
+  }
+
+  const width = numberParam(params, 'width', 1100);
+  const handrailHeight = numberParam(params, 'handrailHeight', 900);
+  const occupancy = request.constraints.buildingType === 'institutional'
+    ? 'assembly'
+    : request.constraints.buildingType ?? 'commercial';
+
+  const calc = calculateStairs({
+    totalRise,
+    availableRun: frame.run > 0 ? frame.run : undefined,
+    width,
+    occupancyType: occupancy,
+    stairType: 'straight',
+    constructionType: 'steel-pan',
+  });
+  plan.calculation = calc;
+  plan.errors.push(...calc.errors);
+  plan.warnings.push(...calc.warnings);
+
+  const stringer = resolveSection('C10x25')!;
+  const rail = pipeSection('1-1/2"', 'SCH40')!;
+  const treadThickness = 6;
+  const run = calc.totalRun;
+  const slope = totalRise / run;
+  const sides = [-stringer.width / 2, width + stringer.width / 2];
+
+  // Laid out climbing from the foot; a descent from A is the same flight
+  // mirrored along the run so its foot lands at B's elevation
+  const descending = frame.rise < 0;
+  const at = (s: number, t: number, h: number): Point3D => descending
+    ? toWorld(frame, run - s, t, h - totalRise)
+    : toWorld(frame, s, t, h);
+
+  sides.forEach((t, i) => {
+    plan.parts.push(memberPart(
+      `${i === 0 ? 'Left' : 'Right'} Stringer`, 'stringer-channel',
+      at(0, t, 0), at(run, t, totalRise),
+      // Level cut on the floor at the foot, plumb cut at the head
+      stringer, material, { angle: calc.stairAngle, endAngles: [calc.stairAngle, 90 - calc.stairAngle] }
+    ));
+  });
+
+  for (let i = 1; i <= calc.numTreads; i++) {
+    const top = i * calc.riserHeight;
+    const treadRun: [number, number] = descending
+      ? [run - i * calc.treadDepth, run - (i - 1) * calc.treadDepth]
+      : [(i - 1) * calc.treadDepth, i * calc.treadDepth];
+    const offset = descending ? -totalRise : 0;
+    plan.parts.push(blockPart(
+      frame, `Tread ${i}`, 'tread',
+      treadRun, [0, width], [top - treadThickness + offset, top + offset],
+      material, { thickness: treadThickness, depth: calc.treadDepth }
+    ));
+  }
+
+  const postsPerSide = Math.ceil(calc.components.posts / 2);
+  sides.forEach((t, side) => {
+    spacedPositions(0, run, postsPerSide).forEach((s, i) => {
+      const base = s * slope;
+      plan.parts.push(memberPart(
+        `${side === 0 ? 'Left' : 'Right'} Post ${i + 1}`, 'post-pipe',
+        at(s, t, base), at(s, t, base + handrailHeight),
+        rail, material
+      ));
+    });
+  });
+
+  if (calc.components.handrailLength > 0) {
+    sides.forEach((t, i) => {
+      plan.parts.push(memberPart(
+        `${i === 0 ? 'Left' : 'Right'} Handrail`, 'handrail-pipe',
+        at(0, t, handrailHeight), at(run, t, totalRise + handrailHeight),
+        rail, material, { cutLength: calc.components.handrailLength / 2 }
+      ));
+    });
+  }
+
+  plan.builderInput = {
+    totalRise,
+    riserHeight: calc.riserHeight,
+    treadDepth: calc.treadDepth,
+    width,
+    stringerThickness: stringer.webThickness!,
+    treadThickness,
+    includeHandrails: calc.components.handrailLength > 0,
+    handrailHeight,
+  } satisfies StairInput;
+
+  return plan;
+}
+
+function planLadder(ctx: PlanContext): ElementGeometryPlan {
+  const { frame, params, material } = ctx;
+  const plan = emptyPlan('ladder', 'calculateLadder');
+  const totalHeight = Math.abs(frame.rise);
+
+  if (totalHeight <= 0) {
+    plan.errors.push('Ladders require an elevation change between point A and point B');
+    return plan;
+  }
+
+  const calc = calculateLadder({
+    totalHeight,
+    ladderType: 'fixed-vertical',
+    width: numberParam(params, 'width', 450),
+    rungSpacing: numberParam(params, 'rungSpacing', 300),
+    includesCage: booleanParam(params, 'cageRequired', false),
+    material: materialFamily(material) === 'aluminum' ? 'aluminum' : 'steel',
+  });
+  plan.calculation = calc;
+  plan.errors.push(...calc.errors);
+  plan.warnings.push(...calc.warnings);
+
+  const sideRail = flatBar(64, 10);
+  const rung = roundBar(19);
+  const hoop = flatBar(50, 6);
+  const vertical = flatBar(38, 6);
+  const bracket = resolveSection('L3x3x1/4')!;
+  const halfWidth = calc.width / 2;
+  const railOffset = halfWidth + sideRail.width / 2;
+  const wallClearance = 178; // 7" rung centerline to wall (OSHA 1910.23(d)(13))
+
+  [-railOffset, railOffset].forEach((t, i) => {
+    plan.parts.push(memberPart(
+      `${i === 0 ? 'Left' : 'Right'} Side Rail`, 'rail',
+      toWorld(frame, 0, t, 0), toWorld(frame, 0, t, calc.railLength),
+      sideRail, material
+    ));
+  });
+
+  for (let i = 1; i <= calc.rungCount; i++) {
+    const h = Math.min(i * calc.rungSpacing, calc.railLength);
+    plan.parts.push(memberPart(
+      `Rung ${i}`, 'rung',
+      toWorld(frame, 0, -halfWidth, h), toWorld(frame, 0, halfWidth, h),
+      rung, material
+    ));
+  }
+
+  if (calc.cageRequired && calc.cageStartHeight !== undefined) {
+    const cageDiameter = 700;
+    const radius = cageDiameter / 2;
+    const cageTop = calc.railLength;
+    const hoopLength = Math.PI * cageDiameter;
+
+    spacedPositions(calc.cageStartHeight, cageTop - hoop.depth, calc.cageHoopCount ?? 0).forEach((h, i) => {
+      plan.parts.push(envelopePart(
+        `Cage Hoop ${i + 1}`, 'cage-hoop',
+        [toWorld(frame, -cageDiameter, -radius, h), toWorld(frame, 0, radius, h + hoop.depth)],
+        hoop.area * hoopLength,
+        hoop.perimeter * hoopLength,
+        calculateWeight(hoop.area * hoopLength, material),
+        { profile: hoop.designation, length: hoopLength, diameter: cageDiameter }
+      ));
+    });
+
+    // Verticals spread around the back of the cage, clear of the climbing face
+    const count = calc.components.cageVerticals;
+    spacedPositions(60, 300, count).forEach((angleDeg, i) => {
+      const angle = angleDeg * Math.PI / 180;
+      const s = -radius - radius * Math.cos(angle);
+      const t = radius * Math.sin(angle);
+      plan.parts.push(memberPart(
+        `Cage Vertical ${i + 1}`, 'cage-vertical',
+        toWorld(frame, s, t, calc.cageStartHeight!), toWorld(frame, s, t, cageTop),
+        vertical, material
+      ));
+    });
+  }
+
+  spacedPositions(0, calc.railLength, calc.components.mountingBrackets + 2)
+    .slice(1, -1)
+    .forEach((h, i) => {
+      const t = i % 2 === 0 ? -railOffset : railOffset;
+      plan.parts.push(memberPart(
+        `Mounting Bracket ${i + 1}`, 'bracket-angle',
+        toWorld(frame, 0, t, h), toWorld(frame, wallClearance, t, h),
+        bracket, material
+      ));
+    });
+
+  plan.builderInput = {
+    height: totalHeight,
+    width: calc.width,
+    rungSpacing: calc.rungSpacing,
+    rungDiameter: rung.depth,
+    railWidth: sideRail.depth,
+    railDepth: sideRail.width,
+    includeCage: calc.cageRequired,
+    cageStartHeight: calc.cageStartHeight ?? 0,
+  } satisfies LadderInput;
+
+  return plan;
+}
+
+function planRamp(ctx: PlanContext): ElementGeometryPlan {
+  const { frame, params, material } = ctx;
+  const plan = emptyPlan('ramp', 'calculateRamp');
+  const totalRise = Math.abs(frame.rise);
+
+  if (totalRise <= 0) {
+    plan.errors.push('Ramps require an elevation change between point A and point B');
+    return plan;
+  }
+
+  const width = numberParam(params, 'width', 1200);
+  const calc = calculateRamp({
+    totalRise,
+    width,
+    useType: 'wheelchair-accessible',
+    slopeRatio: numberParam(params, 'slope', 12),
+    rampType: 'straight',
+    availableRun: frame.run > 0 ? frame.run : undefined,
+  });
+  plan.calculation = calc;
+  plan.errors.push(...calc.errors);
+  plan.warnings.push(...calc.warnings);
+
+  const stringer = resolveSection('C6x13')!;
+  const crossMember = resolveSection('L2x2x1/4')!;
+  const rail = pipeSection('1-1/2"', 'SCH40')!;
+  const plateThickness = 6;
+  const handrailHeight = 900;
+
+  // Straight layout: sloped runs between level landings
+  const segments: Array<{ s0: number; s1: number; h0: number; h1: number; landing: boolean }> = [];
+  let s = 0;
+  let previousRise = 0;
+  for (const landingRise of calc.landingPositions) {
+    const runLength = (landingRise - previousRise) * calc.slopeRatio;
+    segments.push({ s0: s, s1: s + runLength, h0: previousRise, h1: landingRise, landing: false });
+    s += runLength;
+    segments.push({ s0: s, s1: s + calc.landingDepth, h0: landingRise, h1: landingRise, landing: true });
+    s += calc.landingDepth;
+    previousRise = landingRise;
+  }
+  const totalLength = s;
+  const surfaceHeight = (position: number): number => {
+    const segment = segments.find(seg => position >= seg.s0 && position <= seg.s1) ?? segments[segments.length - 1];
+    if (segment.s1 === segment.s0) return segment.h1;
+    return segment.h0 + (segment.h1 - segment.h0) * (position - segment.s0) / (segment.s1 - segment.s0);
+  };
+
+  const stringerLines = spacedPositions(0, width, calc.components.stringers);
+  let runIndex = 0;
+  let landingIndex = 0;
+
+  for (const segment of segments) {
+    if (segment.landing) {
+      landingIndex++;
+      plan.parts.push(blockPart(
+        frame, `Landing ${landingIndex}`, 'landing',
+        [segment.s0, segment.s1], [0, width], [segment.h1 - plateThickness, segment.h1],
+        material, { thickness: plateThickness }
+      ));
+      continue;
+    }
+
+    runIndex++;
+    const runLength = segment.s1 - segment.s0;
+    const slopeLength = Math.sqrt(runLength ** 2 + (segment.h1 - segment.h0) ** 2);
+    const top = (position: number) => surfaceHeight(position) - plateThickness;
+
+    stringerLines.forEach((t, i) => {
+      plan.parts.push(memberPart(
+        `Run ${runIndex} Stringer ${i + 1}`, 'stringer-channel',
+        toWorld(frame, segment.s0, t, top(segment.s0) - stringer.depth / 2),
+        toWorld(frame, segment.s1, t, top(segment.s1) - stringer.depth / 2),
+        stringer, material
+      ));
+    });
+
+    const plates = Math.max(1, Math.ceil(slopeLength / 2000));
+    for (let i = 0; i < plates; i++) {
+      const a = segment.s0 + runLength * i / plates;
+      const b = segment.s0 + runLength * (i + 1) / plates;
+      const plateLength = slopeLength / plates;
+      plan.parts.push(envelopePart(
+        `Run ${runIndex} Deck Plate ${i + 1}`, 'deck-plate',
+        [toWorld(frame, a, 0, top(a)), toWorld(frame, b, width, surfaceHeight(b))],
+        plateLength * width * plateThickness,
+        2 * plateLength * width,
+        calculateWeight(plateLength * width * plateThickness, material),
+        { thickness: plateThickness, length: plateLength, width }
+      ));
+    }
+
+    const crossCount = Math.ceil(slopeLength / 600) + 1;
+    spacedPositions(segment.s0, segment.s1, crossCount).forEach((position, i) => {
+      const h = top(position) - crossMember.depth / 2;
+      plan.parts.push(memberPart(
+        `Run ${runIndex} Cross Member ${i + 1}`, 'cross-member-angle',
+        toWorld(frame, position, 0, h), toWorld(frame, position, width, h),
+        crossMember, material
+      ));
+    });
+
+    if (calc.handrailsRequired) {
+      [0, width].forEach((t, i) => {
+        plan.parts.push(memberPart(
+          `Run ${runIndex} ${i === 0 ? 'Left' : 'Right'} Handrail`, 'handrail-pipe',
+          toWorld(frame, segment.s0, t, segment.h0 + handrailHeight),
+          toWorld(frame, segment.s1, t, segment.h1 + handrailHeight),
+          rail, material
+        ));
+      });
+    }
+  }
+
+  const postsPerSide = Math.ceil(calc.components.posts / 2);
+  [0, width].forEach((t, side) => {
+    spacedPositions(0, totalLength, postsPerSide).forEach((position, i) => {
+      const base = surfaceHeight(position);
+      plan.parts.push(memberPart(
+        `${side === 0 ? 'Left' : 'Right'} Post ${i + 1}`, 'post-pipe',
+        toWorld(frame, position, t, base), toWorld(frame, position, t, base + handrailHeight),
+        rail, material
+      ));
+    });
+  });
+
+  plan.builderInput = {
+    totalRise,
+    slope: calc.slopeRatio,
+    width,
+    surfaceThickness: plateThickness,
+    includeHandrails: calc.handrailsRequired,
+    includeLandings: calc.numLandings > 0,
+    maxRunLength: 762 * calc.slopeRatio,
+  } satisfies RampInput;
+
+  return plan;
+}
+
+function planPlatform(ctx: PlanContext): ElementGeometryPlan {
+  const { frame, params, material, solution } = ctx;
+  const walkway = solution.elementType === 'walkway';
+  const plan = emptyPlan(solution.elementType, 'calculatePlatform');
+
+  const deckElevation = Math.max(0, frame.rise);
+  const baseElevation = frame.rise > 0 ? 0 : -frame.origin.z;
+  const height = deckElevation - baseElevation;
+  if (height <= 0) {
+    plan.errors.push(`${walkway ? 'Walkway' : 'Platform'} deck must be above its supporting floor`);
+    return plan;
+  }
+
+  const length = walkway
+    ? numberParam(params, 'length', frame.run || 3000)
+    : numberParam(params, 'width', frame.run || 1500);
+  const width = walkway ? numberParam(params, 'width', 1000) : numberParam(params, 'depth', 1500);
+
+  const calc = calculatePlatform({
+    length,
+    width,
+    height,
+    platformType: walkway ? 'work-platform' : 'equipment-platform',
+    useType: 'personnel',
+    liveLoad: numberParam(params, 'loadCapacity', 4.8),
+    deckType: 'bar-grating',
+    material: materialFamily(material) === 'aluminum' ? 'aluminum' : 'steel',
+  });
+  plan.calculation = calc;
+  plan.errors.push(...calc.errors);
+  plan.warnings.push(...calc.warnings);
+
+  const column = resolveSection(calc.suggestedColumnSize) ?? rectTube(100, 100, 6);
+  const beam = resolveSection(calc.suggestedBeamSize) ?? resolveSection('W8x18')!;
+  const joist = resolveSection(calc.suggestedJoistSize) ?? resolveSection('C6x13')!;
+  const guardRail = pipeSection('1-1/2"', 'SCH40')!;
+  const deckThickness = 32;
+  const basePlateSize = Math.round(column.depth * 2.5);
+  const basePlateThickness = 19;
+  const guardrailHeight = 1070;
+  const toeBoardHeight = 100;
+
+  const deckBottom = deckElevation - deckThickness;
+  const beamTop = deckBottom;
+  const columnTop = beamTop - beam.depth;
+  const halfWidth = width / 2;
+
+  // Column grid
+  const columnsX = Math.max(2, Math.round(length / calc.columnSpacingX) + 1);
+  const columnsY = Math.max(2, Math.round(width / calc.columnSpacingY) + 1);
+  let columnIndex = 0;
+  for (const s of spacedPositions(0, length, columnsX)) {
+    for (const t of spacedPositions(-halfWidth, halfWidth, columnsY)) {
+      columnIndex++;
+      plan.parts.push(memberPart(
+        `Column ${columnIndex}`, 'column',
+        toWorld(frame, s, t, baseElevation + basePlateThickness), toWorld(frame, s, t, columnTop),
+        column, material
+      ));
+      plan.parts.push(blockPart(
+        frame, `Base Plate ${columnIndex}`, 'base-plate',
+        [s - basePlateSize / 2, s + basePlateSize / 2],
+        [t - basePlateSize / 2, t + basePlateSize / 2],
+        [baseElevation, baseElevation + basePlateThickness],
+        material, { thickness: basePlateThickness }
+      ));
+    }
+  }
+
+  spacedPositions(-halfWidth, halfWidth, calc.components.mainBeams).forEach((t, i) => {
+    const h = beamTop - beam.depth / 2;
+    plan.parts.push(memberPart(
+      `Main Beam ${i + 1}`, 'beam',
+      toWorld(frame, 0, t, h), toWorld(frame, length, t, h),
+      beam, material
+    ));
+  });
+
+  spacedPositions(0, length, calc.components.joists + 2).slice(1, -1).forEach((s, i) => {
+    const h = beamTop - joist.depth / 2;
+    plan.parts.push(memberPart(
+      `Joist ${i + 1}`, 'joist-channel',
+      toWorld(frame, s, -halfWidth, h), toWorld(frame, s, halfWidth, h),
+      joist, material
+    ));
+  });
+
+  const panels = Math.max(1, calc.components.deckPanels);
+  for (let i = 0; i < panels; i++) {
+    const a = length * i / panels;
+    const b = length * (i + 1) / panels;
+    plan.parts.push(blockPart(
+      frame, `Deck Panel ${i + 1}`, 'grating',
+      [a, b], [-halfWidth, halfWidth], [deckBottom, deckElevation],
+      material, { thickness: deckThickness },
+      (b - a) * width / 1e6 * GRATING_WEIGHT_PER_M2
+    ));
+  }
+
+  if (calc.guardrailsRequired) {
+    // Guarded perimeter: both long sides and the far end; the near end is the access opening
+    const path: Array<[number, number]> = [[0, -halfWidth], [length, -halfWidth], [length, halfWidth], [0, halfWidth]];
+    const edges = path.slice(1).map((point, i) => ({ from: path[i], to: point }));
+    const edgeLengths = edges.map(e => Math.hypot(e.to[0] - e.from[0], e.to[1] - e.from[1]));
+    const perimeter = edgeLengths.reduce((sum, l) => sum + l, 0);
+
+    spacedPositions(0, perimeter, calc.components.guardrailPosts).forEach((distance, i) => {
+      let remaining = distance;
+      let edgeIndex = 0;
+      while (edgeIndex < edges.length - 1 && remaining > edgeLengths[edgeIndex]) {
+        remaining -= edgeLengths[edgeIndex];
+        edgeIndex++;
+      }
+      const edge = edges[edgeIndex];
+      const f = edgeLengths[edgeIndex] > 0 ? remaining / edgeLengths[edgeIndex] : 0;
+      const s = edge.from[0] + (edge.to[0] - edge.from[0]) * f;
+      const t = edge.from[1] + (edge.to[1] - edge.from[1]) * f;
+      plan.parts.push(memberPart(
+        `Guardrail Post ${i + 1}`, 'post-pipe',
+        toWorld(frame, s, t, deckElevation), toWorld(frame, s, t, deckElevation + guardrailHeight),
+        guardRail, material
+      ));
+    });
+
+    const sideNames = ['Left', 'End', 'Right'];
+    edges.forEach((edge, i) => {
+      const from = (h: number) => toWorld(frame, edge.from[0], edge.from[1], h);
+      const to = (h: number) => toWorld(frame, edge.to[0], edge.to[1], h);
+      plan.parts.push(memberPart(
+        `${sideNames[i]} Top Rail`, 'top-rail-pipe',
+        from(deckElevation + guardrailHeight), to(deckElevation + guardrailHeight), guardRail, material
+      ));
+      plan.parts.push(memberPart(
+        `${sideNames[i]} Mid Rail`, 'mid-rail-pipe',
+        from(deckElevation + guardrailHeight / 2), to(deckElevation + guardrailHeight / 2), guardRail, material
+      ));
+      plan.parts.push(memberPart(
+        `${sideNames[i]} Toe Board`, 'toe-board',
+        from(deckElevation + toeBoardHeight / 2), to(deckElevation + toeBoardHeight / 2),
+        flatBar(toeBoardHeight, 3), material
+      ));
+    });
+  }
+
+  if (!walkway) {
+    plan.builderInput = {
+      width: length,
+      depth: width,
+      height,
+      deckThickness,
+      frameSize: beam.depth,
+      includeGuardrails: calc.guardrailsRequired,
+      guardrailHeight,
+      includeToeBoard: calc.guardrailsRequired,
+      toeBoardHeight,
+      includeGrating: true,
+      gratingBarSpacing: 30,
+    } satisfies PlatformInput;
+  }
+
+  return plan;
+}
+
+// ============================================================================
+// STRUCTURE DOMAIN
+// ============================================================================
+
+/** Wide-flange beams in order of increasing weight */
+function wideFlangeCandidates(): string[] {
+  return steelBeamSections
+    .filter(s => s.type === 'W-beam')
+    .sort((a, b) => a.W - b.W)
+    .map(s => s.designation);
+}
+
+function planBeam(ctx: PlanContext): ElementGeometryPlan {
+  const { frame, params, material } = ctx;
+  const plan = emptyPlan('beam', 'calculateSteelBeam');
+  const span = frame.span;
+
+  if (span <= 0) {
+    plan.errors.push('Beam requires distinct end points');
+    return plan;
+  }
+
+  const beamInput = (profileSize: string) => ({
+    spanLength: span,
+    supportType: stringParam(params, 'supportType', 'simple'),
+    profileType: 'W-beam',
+    profileSize,
+    steelGrade: stringParam(params, 'steelGrade', 'A992'),
+    loadType: stringParam(params, 'loadType', 'uniform'),
+    deadLoad: numberParam(params, 'deadLoad', 2),
+    liveLoad: numberParam(params, 'liveLoad', 7.5),
+    deflectionLimit: stringParam(params, 'deflectionLimit', 'L/360'),
+    lateralSupport: 'continuous',
+    unbracedLength: 0,
+  });
+
+  // Use the requested profile when it is tabulated, otherwise the lightest adequate section
+  const requested = stringParam(params, 'profile', '');
+  let calc = requested && steelBeamSections.some(s => s.designation === requested)
+    ? calculateSteelBeam(beamInput(requested))
+    : undefined;
+  let profileSize = requested;
+
+  if (!calc) {
+    const candidates = wideFlangeCandidates();
+    for (const candidate of candidates) {
+      profileSize = candidate;
+      calc = calculateSteelBeam(beamInput(candidate));
+      if (calc.isValid) break;
+    }
+    if (requested) {
+      plan.warnings.push(`Profile ${requested} not tabulated; selected ${profileSize}`);
+    }
+  }
+
+  plan.calculation = { ...calc, profileSize };
+  plan.errors.push(...calc!.errors);
+  plan.warnings.push(...calc!.warnings);
+
+  const section = resolveSection(profileSize)!;
+  const tabulated = steelBeamSections.find(s => s.designation === profileSize)!;
+  const a = toWorld(frame, 0, 0, 0);
+  const b = toWorld(frame, frame.run, 0, frame.rise);
+
+  plan.parts.push(memberPart('Beam', 'beam', a, b, section, material, {
+    designRatio: Math.max(calc!.flexure.ratio, calc!.shear.ratio, calc!.deflection.ratio),
+  }));
+
+  // Single-plate shear connections at each support
+  const tabDepth = Math.round(section.depth * 0.6);
+  const tabThickness = 10;
+  const tabWidth = 115;
+  [0, frame.run].forEach((s, i) => {
+    const h = frame.run > 0 ? frame.rise * s / frame.run : 0;
+    const inward = i === 0 ? 1 : -1;
+    plan.parts.push(blockPart(
+      frame, `${i === 0 ? 'Start' : 'End'} Shear Tab`, 'shear-tab',
+      [s, s + inward * tabWidth].sort((x, y) => x - y) as [number, number],
+      [tabulated.tw / 2, tabulated.tw / 2 + tabThickness],
+      [h - tabDepth / 2, h + tabDepth / 2],
+      material, { thickness: tabThickness }
+    ));
+  });
+
+  plan.builderInput = {
+    profile: 'w-flange',
+    depth: tabulated.d,
+    width: tabulated.bf,
+    webThickness: tabulated.tw,
+    flangeThickness: tabulated.tf,
+    length: span,
+    orientation: Math.abs(frame.rise) < 1 ? 'horizontal' : 'custom',
+    customAngle: Math.abs(frame.rise) < 1
+      ? undefined
+      : { x: 0, y: -Math.atan2(frame.rise, frame.run) * 180 / Math.PI, z: 0 },
+  } satisfies BeamInput;
+
+  return plan;
+}
+
+function planColumn(ctx: PlanContext): ElementGeometryPlan {
+  const { frame, params, material } = ctx;
+  const plan = emptyPlan('column', 'calculateSteelColumn');
+  const height = Math.abs(frame.rise) > 0 ? Math.abs(frame.rise) : numberParam(params, 'height', 3000);
+
+  const columnInput = (profileSize: string) => ({
+    height,
+    endConditionX: 'pinned-pinned',
+    endConditionY: 'pinned-pinned',
+    profileType: profileSize.startsWith('W') ? 'W-beam' : 'HSS',
+    profileSize,
+    steelGrade: stringParam(params, 'steelGrade', 'A500-B'),
+    axialLoad: numberParam(params, 'axialLoad', 200),
+    momentX: numberParam(params, 'momentX', 0),
+    momentY: numberParam(params, 'momentY', 0),
+    bracedPointX: 0,
+    bracedPointY: 0,
+  });
+
+  const requested = stringParam(params, 'profile', '');
+  let profileSize = requested;
+  let calc = requested && steelColumnSections.some(s => s.designation === requested)
+    ? calculateSteelColumn(columnInput(requested))
+    : undefined;
+
+  if (!calc) {
+    const candidates = [...steelColumnSections].sort((a, b) => a.W - b.W);
+    for (const candidate of candidates) {
+      profileSize = candidate.designation;
+      calc = calculateSteelColumn(columnInput(profileSize));
+      if (calc.isValid) break;
+    }
+    if (requested) {
+      plan.warnings.push(`Profile ${requested} not tabulated; selected ${profileSize}`);
+    }
+  }
+
+  plan.calculation = { ...calc, profileSize };
+  plan.errors.push(...calc!.errors);
+  plan.warnings.push(...calc!.warnings);
+
+  const section = resolveSection(profileSize)!;
+  const basePlateSize = numberParam(params, 'basePlateSize', Math.round(section.depth * 2 + 100));
+  const basePlateThickness = 20;
+  const capPlateThickness = 12;
+  const capPlateSize = Math.round(section.depth + 50);
+
+  plan.parts.push(blockPart(
+    frame, 'Base Plate', 'base-plate',
+    [-basePlateSize / 2, basePlateSize / 2], [-basePlateSize / 2, basePlateSize / 2], [0, basePlateThickness],
+    material, { thickness: basePlateThickness }
+  ));
+  plan.parts.push(memberPart(
+    'Column', 'column',
+    toWorld(frame, 0, 0, basePlateThickness), toWorld(frame, 0, 0, height - capPlateThickness),
+    section, material, { axialRatio: calc!.axialCapacity.ratio }
+  ));
+  plan.parts.push(blockPart(
+    frame, 'Cap Plate', 'cap-plate',
+    [-capPlateSize / 2, capPlateSize / 2], [-capPlateSize / 2, capPlateSize / 2], [height - capPlateThickness, height],
+    material, { thickness: capPlateThickness }
+  ));
+
+  const type = section.shape === 'tube-round' ? 'tube-round' : section.shape === 'tube-rect' ? 'tube-square' : 'w-flange';
+  plan.builderInput = {
+    profile: type,
+    size: section.depth,
+    wallThickness: section.shape === 'i-beam' ? 0 : section.area / section.perimeter,
+    height,
+    includeBasePlate: true,
+    basePlateSize,
+    basePlateThickness,
+    includeCapPlate: true,
+  } satisfies ColumnInput;
+
+  return plan;
+}
+
+function planBracing(ctx: PlanContext): ElementGeometryPlan {
+  const { frame, params, material } = ctx;
+  const plan = emptyPlan('bracing', 'calculateDiagonalBracing');
+  const bayWidth = frame.run;
+  const bayHeight = Math.abs(frame.rise);
+
+  if (bayWidth <= 0 || bayHeight <= 0) {
+    plan.errors.push('Bracing requires a bay with both width and height between point A and point B');
+    return plan;
+  }
+
+  const bracingType = stringParam(params, 'type', 'x-brace');
+  const bracingInput = (braceSize: string, braceProfile: string) => ({
+    bracingType,
+    bayWidth,
+    bayHeight,
+    designForce: numberParam(params, 'designForce', 50),
+    loadDirection: 'reversible',
+    braceProfile,
+    braceSize,
+    materialGrade: stringParam(params, 'steelGrade', 'A36'),
+    connectionType: 'bolted',
+    seismicSystem: stringParam(params, 'seismicSystem', 'OCBF'),
+  });
+
+  const requested = stringParam(params, 'profile', '');
+  const requestedSection = braceSections.find(s => s.designation === requested);
+  let section = requestedSection;
+  let calc = section ? calculateDiagonalBracing(bracingInput(section.designation, section.type)) : undefined;
+
+  if (!calc) {
+    const candidates = [...braceSections]
+      .filter(s => s.type === 'single-angle')
+      .sort((a, b) => a.W - b.W);
+    for (const candidate of candidates) {
+      section = candidate;
+      calc = calculateDiagonalBracing(bracingInput(candidate.designation, candidate.type));
+      if (calc.isValid) break;
+    }
+    if (requested) {
+      plan.warnings.push(`Profile ${requested} not tabulated; selected ${section!.designation}`);
+    }
+  }
+
+  plan.calculation = { ...calc, braceSize: section!.designation };
+  plan.errors.push(...calc!.errors);
+  plan.warnings.push(...calc!.warnings);
+
+  const profile = resolveSection(section!.designation)!;
+  const rise = frame.rise;
+  const diagonals: Array<[[number, number], [number, number]]> = bracingType === 'x-brace'
+    ? [[[0, 0], [bayWidth, rise]], [[0, rise], [bayWidth, 0]]]
+    : bracingType.startsWith('chevron') || bracingType === 'k-brace'
+      ? [[[0, 0], [bayWidth / 2, rise]], [[bayWidth / 2, rise], [bayWidth, 0]]]
+      : [[[0, 0], [bayWidth, rise]]];
+
+  diagonals.slice(0, calc!.geometry.braceCount).forEach(([from, to], i) => {
+    plan.parts.push(memberPart(
+      `Brace ${i + 1}`, 'bracing-angle',
+      toWorld(frame, from[0], 0, from[1]), toWorld(frame, to[0], 0, to[1]),
+      profile, material, { angle: calc!.geometry.braceAngle }
+    ));
+  });
+
+  // Gusset plate at every brace end (shared at a chevron apex)
+  const gussetSize = Math.max(200, Math.round(calc!.connection.weldLength / 2));
+  const gussetThickness = 10;
+  const gussetPoints = new Map<string, [number, number]>();
+  for (const [from, to] of diagonals.slice(0, calc!.geometry.braceCount)) {
+    gussetPoints.set(`${from[0]},${from[1]}`, from);
+    gussetPoints.set(`${to[0]},${to[1]}`, to);
+  }
+  Array.from(gussetPoints.values()).forEach(([s, h], i) => {
+    plan.parts.push(blockPart(
+      frame, `Gusset Plate ${i + 1}`, 'gusset',
+      [s - gussetSize / 2, s + gussetSize / 2], [-gussetThickness / 2, gussetThickness / 2], [h - gussetSize / 2, h + gussetSize / 2],
+      material, { thickness: gussetThickness }
+    ));
+  });
+
+  plan.builderInput = {
+    type: bracingType === 'x-brace' ? 'x-brace' : bracingType === 'k-brace' ? 'k-brace' : bracingType.startsWith('chevron') ? 'v-brace' : 'diagonal',
+    profile: 'angle',
+    size: profile.depth,
+    thickness: profile.area / (profile.depth + profile.width),
+  } satisfies BracingInput;
+
+  return plan;
+}
+
+// ============================================================================
+// ENCLOSURE DOMAIN
+// ============================================================================
+
+function planGuard(ctx: PlanContext): ElementGeometryPlan {
+  const { frame, params, material } = ctx;
+  const plan = emptyPlan('guard', 'calculateGuard');
+  const width = numberParam(params, 'width', frame.run > 0 ? frame.run : 2000);
+  const frameSize = 40;
+
+  const guardInput: GuardInput = {
+    width,
+    height: numberParam(params, 'height', 1400),
+    guardType: booleanParam(params, 'interlocked', false) ? 'interlocked' : 'fixed',
+    panelType: 'mesh',
+    hazardDistance: numberParam(params, 'hazardDistance', 200),
+    openingSize: numberParam(params, 'openingSize', 12),
+    hasDoor: booleanParam(params, 'hasDoor', false),
+    frameSize,
+  };
+
+  const calc = calculateGuard({ ...guardInput, frameProfile: 'steel-tube' });
+  plan.calculation = calc;
+  plan.errors.push(...calc.errors);
+  plan.warnings.push(...calc.warnings);
+
+  const tube = rectTube(frameSize, frameSize, 3);
+  const meshThickness = 3;
+
+  spacedPositions(0, width, calc.numPosts).forEach((s, i) => {
+    plan.parts.push(memberPart(
+      `Post ${i + 1}`, 'post-tube',
+      toWorld(frame, s, 0, 0), toWorld(frame, s, 0, calc.postLength),
+      tube, material
+    ));
+  });
+
+  [frameSize / 2, calc.height - frameSize / 2].forEach((h, i) => {
+    plan.parts.push(memberPart(
+      `${i === 0 ? 'Bottom' : 'Top'} Rail`, 'rail-tube',
+      toWorld(frame, 0, 0, h), toWorld(frame, calc.railLength, 0, h),
+      tube, material
+    ));
+  });
+
+  for (let i = 0; i < calc.numPanels; i++) {
+    const s0 = i * calc.panelWidth;
+    const isDoor = i < calc.components.doors;
+    plan.parts.push(blockPart(
+      frame, isDoor ? `Door Panel ${i + 1}` : `Mesh Panel ${i + 1}`, isDoor ? 'door' : 'mesh-panel',
+      [s0 + frameSize / 2, s0 + calc.panelWidth - frameSize / 2],
+      [-meshThickness / 2, meshThickness / 2],
+      [frameSize, frameSize + calc.panelHeight],
+      material, { opening: numberParam(params, 'openingSize', 12) },
+      calc.panelWidth * calc.panelHeight / 1e6 * 5
+    ));
+  }
+
+  plan.builderInput = guardInput;
+
+  return plan;
+}
+
+function planFence(ctx: PlanContext): ElementGeometryPlan {
+  const { frame, params, material } = ctx;
+  const plan = emptyPlan('fence', 'calculateFenceLayout');
+  const totalLength = numberParam(params, 'length', frame.run > 0 ? frame.run : 10000);
+  const gateCount = numberParam(params, 'gateCount', 0);
+  const gateWidth = numberParam(params, 'gateWidth', 1000);
+  const height = numberParam(params, 'height', 2100);
+  const postSpacing = numberParam(params, 'postSpacing', 2400);
+
+  const fenceInput: FenceInput = {
+    totalLength,
+    height,
+    postSpacing,
+    meshOpening: numberParam(params, 'openingSize', 50),
+    safetyDistance: numberParam(params, 'safetyDistance', 1000),
+    gateCount,
+    gateWidth,
+    gateType: 'single-swing',
+    interlocked: booleanParam(params, 'interlocked', false),
+    frameType: 'steel-tube-square',
+  };
+
+  const calc = calculateFenceLayout({ ...fenceInput, totalLength, mountingType: 'floor-mounted' });
+  plan.calculation = calc;
+  plan.errors.push(...calc.errors);
+  plan.warnings.push(...calc.warnings);
+
+  // Gates first, then standard panels, then the filler panel
+  const bays: Array<{ width: number; gate: boolean }> = [];
+  for (let i = 0; i < gateCount; i++) bays.push({ width: gateWidth, gate: true });
+  const standardPanels = calc.panelCount - (calc.fillerPanelWidth ? 1 : 0);
+  for (let i = 0; i < standardPanels; i++) bays.push({ width: calc.standardPanelWidth, gate: false });
+  if (calc.fillerPanelWidth) bays.push({ width: calc.fillerPanelWidth, gate: false });
+
+  const postLength = height + 200; // Includes embedment / base allowance
+  const panelHeight = calc.standardPanelHeight;
+  const frameWeightPerMeter = 2.5;
+  let s = 0;
+  let panelIndex = 0;
+  let gateIndex = 0;
+
+  const addPost = (position: number, gatePost: boolean, index: number) => {
+    const size = gatePost ? calc.gatePostSize : calc.standardPostSize;
+    plan.parts.push(memberPart(
+      `${gatePost ? 'Gate ' : ''}Post ${index}`, 'post-tube',
+      toWorld(frame, position, 0, 0), toWorld(frame, position, 0, postLength),
+      rectTube(size.profileSize, size.profileSize, size.wallThickness), material,
+      { basePlateSize: size.basePlateSize, basePlateThickness: size.basePlateThickness }
+    ));
+  };
+
+  bays.forEach((bay, i) => {
+    addPost(s, bay.gate || bays[i - 1]?.gate === true, i + 1);
+    const meshArea = bay.width * panelHeight / 1e6;
+    const framePerimeter = 2 * (bay.width + panelHeight) / 1000;
+    const name = bay.gate ? `Gate ${++gateIndex}` : `Panel ${++panelIndex}`;
+    plan.parts.push(blockPart(
+      frame, name, bay.gate ? 'gate' : 'mesh-panel',
+      [s, s + bay.width], [-15, 15], [50, 50 + panelHeight],
+      material, { opening: calc.meshSpec.meshOpening, wireDiameter: calc.meshSpec.wireDiameter },
+      meshArea * calc.meshSpec.weight + framePerimeter * frameWeightPerMeter
+    ));
+    s += bay.width;
+  });
+  addPost(s, bays[bays.length - 1]?.gate === true, bays.length + 1);
+
+  plan.builderInput = fenceInput;
+
+  return plan;
+}
+
+function planAccessPanel(ctx: PlanContext): ElementGeometryPlan {
+  const { frame, params, material, solution } = ctx;
+  const plan = emptyPlan(solution.elementType, 'calculateAccessPanel');
+  const family = materialFamily(material);
+  const thickness = numberParam(params, 'thickness', 2);
+
+  const panelInput: PanelInput = {
+    panelType: solution.elementType === 'door' ? 'hinged' : stringParam(params, 'panelType', 'hinged'),
+    width: numberParam(params, 'width', 600),
+    height: numberParam(params, 'height', 600),
+    thickness,
+    latchType: 'quarter-turn',
+    latchCount: numberParam(params, 'latchCount', 2),
+    sealType: stringParam(params, 'sealType', 'gasket'),
+    ipRating: stringParam(params, 'ipRating', 'IP54'),
+  };
+
+  const calc = calculateAccessPanel({
+    ...panelInput,
+    material: family === 'stainless' ? 'stainless-304' : family,
+    frameType: 'flanged',
+  });
+  plan.calculation = calc;
+  plan.errors.push(...calc.errors);
+  plan.warnings.push(...calc.warnings);
+
+  const { panelWidth, panelHeight, frameWidth, frameHeight } = calc.dimensions;
+  const flange = (frameWidth - panelWidth) / 2;
+
+  plan.parts.push(blockPart(
+    frame, solution.elementType === 'door' ? 'Door Leaf' : 'Access Panel', 'panel',
+    [flange, flange + panelWidth], [0, thickness], [flange, flange + panelHeight],
+    material, { thickness }
+  ));
+
+  const frameVolume = (frameWidth * frameHeight - panelWidth * panelHeight) * thickness;
+  plan.parts.push(envelopePart(
+    'Panel Frame', 'frame',
+    [toWorld(frame, 0, -thickness, 0), toWorld(frame, frameWidth, 0, frameHeight)],
+    frameVolume,
+    2 * (frameWidth * frameHeight - panelWidth * panelHeight),
+    calculateWeight(frameVolume, material),
+    { thickness, flange }
+  ));
+
+  if (solution.elementType === 'panel') {
+    plan.builderInput = panelInput;
+  }
+
+  return plan;
+}
+
+function planCover(ctx: PlanContext): ElementGeometryPlan {
+  const { frame, params, material } = ctx;
+  const plan = emptyPlan('cover', 'calculateEnclosure');
+  const family = materialFamily(material);
+  const length = numberParam(params, 'length', 600);
+  const width = numberParam(params, 'depth', 300);
+  const height = numberParam(params, 'height', 800);
+
+  const coverInput: CoverInput = {
+    length,
+    width,
+    height,
+    enclosureType: 'cabinet',
+    material: family === 'stainless' ? 'stainless-304' : family === 'aluminum' ? 'aluminum' : 'steel',
+    wallThickness: numberParam(params, 'thickness', 2),
+    ipRating: stringParam(params, 'ipRating', 'IP54'),
+    mountingType: 'wall-mount',
+    hasBackpanel: true,
+  };
+
+  const calc = calculateEnclosure(coverInput);
+  plan.calculation = calc;
+  plan.errors.push(...calc.errors);
+  plan.warnings.push(...calc.warnings);
+
+  // Box stands off the wall at point A: s = depth from wall, t = across, h = up
+  const wall = calc.wallThickness;
+  const half = length / 2;
+  for (const blank of calc.blanks) {
+    for (let q = 0; q < blank.quantity; q++) {
+      const blankVolume = blank.length * blank.width * wall;
+      const metadata = { thickness: wall, blankLength: blank.length, blankWidth: blank.width };
+      if (blank.name.startsWith('Body')) {
+        plan.parts.push(envelopePart(
+          'Enclosure Body', 'body',
+          [toWorld(frame, 0, -half, 0), toWorld(frame, width, half, height)],
+          blankVolume, 2 * blank.length * blank.width, calculateWeight(blankVolume, material), metadata
+        ));
+      } else if (blank.name === 'Door') {
+        plan.parts.push(blockPart(
+          frame, 'Door', 'door',
+          [width, width + wall], [-blank.length / 2, blank.length / 2], [2, 2 + blank.width * height / width],
+          material, metadata, calculateWeight(blankVolume, material)
+        ));
+      } else {
+        plan.parts.push(blockPart(
+          frame, blank.name, 'panel',
+          [wall + 20, wall + 20 + wall], [-blank.length / 2, blank.length / 2], [wall + 5, wall + 5 + blank.width * height / width],
+          material, metadata, calculateWeight(blankVolume, material)
+        ));
+      }
+    }
+  }
+
+  const bracket = resolveSection('L2x2x1/4')!;
+  [[-half, 0], [half, 0], [-half, height], [half, height]]
+    .slice(0, calc.components.brackets)
+    .forEach(([t, h], i) => {
+      plan.parts.push(memberPart(
+        `Wall Bracket ${i + 1}`, 'bracket-angle',
+        toWorld(frame, 0, t, h), toWorld(frame, 0, t + (t < 0 ? -50 : 50), h),
+        bracket, material
+      ));
+    });
+
+  plan.builderInput = coverInput;
+
+  return plan;
+}
+
+// ============================================================================
+// FLOW DOMAIN
+// ============================================================================
+
+/** Nominal bore (DN, mm) to nominal pipe size */
+const nominalPipeSizes: Record<number, string> = {
+  15: '1/2"', 20: '3/4"', 25: '1"', 40: '1-1/2"', 50: '2"', 80: '3"', 100: '4"', 150: '6"', 200: '8"',
+};
+
+function planPipe(ctx: PlanContext): ElementGeometryPlan {
+  const { params, material, request } = ctx;
+  const plan = emptyPlan('pipe', 'calculatePipe');
+  const family = materialFamily(material);
+
+  const nominal = params.nominalSize;
+  const nominalSize = typeof nominal === 'string' ? nominal : nominalPipeSizes[numberParam(params, 'nominalSize', 50)] ?? '2"';
+  const schedule = stringParam(params, 'schedule', '40');
+
+  // Route around the request's obstacles when there are any
+  const obstacles = request.environment.obstacles;
+  const routingType = stringParam(params, 'routingType', obstacles.length > 0 ? 'routed' : 'orthogonal');
+  let route: Point3D[] | undefined;
+  const od = pipeSizes.find(s => s.nps === nominalSize)?.od;
+  if (routingType === 'routed' && od !== undefined) {
+    const routed = routeRun({
+      start: { position: request.pointA.position, direction: request.pointA.normal },
+      end: { position: request.pointB.position, direction: request.pointB.normal },
+      size: od,
+      obstacles,
+      bounds: request.environment.boundaries,
+      minBendRadius: numberParam(params, 'bendRadius', 1.5 * od),
+      slope: numberParam(params, 'slope', 0),
+    });
+    plan.errors.push(...routed.errors);
+    plan.warnings.push(...routed.warnings);
+    if (routed.valid) route = routed.points;
+  }
+
+  const calc = calculatePipe({
+    startPoint: request.pointA.position,
+    endPoint: request.pointB.position,
+    nominalSize,
+    schedule: schedule.toUpperCase().startsWith('SCH') ? schedule.toUpperCase() : `SCH${schedule}`,
+    material: family === 'stainless' ? 'stainless-304' : 'carbon-steel',
+    routingType: route ? 'routed' : routingType === 'direct' ? 'direct' : 'orthogonal',
+    route,
+    designPressure: numberParam(params, 'designPressure', 10),
+  });
+  plan.calculation = calc;
+  plan.errors.push(...calc.errors);
+  plan.warnings.push(...calc.warnings);
+  if (!calc.valid && calc.routeSegments.length === 0) return plan;
+
+  // Hot lines: thermal growth between the end anchors
+  const designTemperature = numberParam(params, 'designTemperature', 20);
+  if (Math.abs(designTemperature - 20) > 30) {
+    const flexibility = calculatePipeFlexibility({
+      route: calc,
+      material: family === 'stainless' ? 'stainless-304' : 'carbon-steel',
+      designTemperature,
+    });
+    plan.errors.push(...flexibility.errors);
+    plan.warnings.push(...flexibility.warnings);
+  }
+
+  const section: SectionProfile = {
+    ...roundTube(calc.od, calc.wallThickness, `PIPE ${calc.nominalSize} ${calc.schedule}`),
+    massPerMeter: calc.pipeWeight,
+  };
+  const elbowRadius = 1.5 * calc.od; // Long-radius elbow
+
+  calc.routeSegments.forEach((segment, i) => {
+    plan.parts.push(memberPart(
+      `Pipe Spool ${i + 1}`, 'pipe', segment.start, segment.end, section, material,
+      { nominalSize: calc.nominalSize, schedule: calc.schedule, direction: segment.direction }
+    ));
+  });
+
+  calc.routeSegments.slice(1).forEach((segment, i) => {
+    const corner = segment.start;
+    const arcLength = Math.PI / 2 * elbowRadius;
+    plan.parts.push(envelopePart(
+      `90° Elbow ${i + 1}`, 'pipe-elbow',
+      [
+        { x: corner.x - elbowRadius, y: corner.y - elbowRadius, z: corner.z - elbowRadius },
+        { x: corner.x + elbowRadius, y: corner.y + elbowRadius, z: corner.z + elbowRadius },
+      ],
+      section.area * arcLength,
+      section.perimeter * arcLength,
+      calc.pipeWeight * arcLength / 1000,
+      { nominalSize: calc.nominalSize, schedule: calc.schedule, diameter: calc.od, radius: elbowRadius }
+    ));
+  });
+
+  // Clamp-type supports spread along the route
+  const clamp = flatBar(40, 5);
+  const clampLength = Math.PI * (calc.od + clamp.width);
+  const pointAlong = (distance: number): Point3D => {
+    let remaining = distance;
+    for (const segment of calc.routeSegments) {
+      if (remaining <= segment.length || segment === calc.routeSegments[calc.routeSegments.length - 1]) {
+        const f = segment.length > 0 ? Math.min(1, remaining / segment.length) : 0;
+        return {
+          x: segment.start.x + (segment.end.x - segment.start.x) * f,
+          y: segment.start.y + (segment.end.y - segment.start.y) * f,
+          z: segment.start.z + (segment.end.z - segment.start.z) * f,
+        };
+      }
+      remaining -= segment.length;
+    }
+    return request.pointB.position;
+  };
+
+  spacedPositions(0, calc.totalLength, calc.numSupports).forEach((distance, i) => {
+    const p = pointAlong(distance);
+    const r = calc.od / 2 + clamp.width;
+    plan.parts.push(envelopePart(
+      `Pipe Support ${i + 1}`, 'pipe-support',
+      [{ x: p.x - r, y: p.y - r, z: p.z - r }, { x: p.x + r, y: p.y + r, z: p.z + r }],
+      clamp.area * clampLength,
+      clamp.perimeter * clampLength,
+      calculateWeight(clamp.area * clampLength, material),
+      { profile: clamp.designation, diameter: calc.od }
+    ));
+  });
+
+  if (calc.valid) {
+    plan.builderInput = {
+      nominalSize: calc.nominalSize,
+      schedule: calc.schedule,
+      route: [calc.routeSegments[0].start, ...calc.routeSegments.map(segment => segment.end)],
+      operatingTemperature: designTemperature,
+    } satisfies PipeInput;
+  }
+
+  return plan;
+}
+
+function planDuct(ctx: PlanContext): ElementGeometryPlan {
+  const { frame, params, material } = ctx;
+  const plan = emptyPlan('duct', 'calculateDuct');
+  const family = materialFamily(material);
+  const length = frame.span > 0 ? frame.span : numberParam(params, 'length', 3000);
+  const round = params.diameter !== undefined;
+
+  const calc = calculateDuct({
+    ductType: round ? 'round' : 'rectangular',
+    width: numberParam(params, 'width', 400),
+    height: numberParam(params, 'height', 300),
+    diameter: round ? numberParam(params, 'diameter', 300) : undefined,
+    length,
+    material: family === 'stainless' ? 'stainless-steel' : family === 'aluminum' ? 'aluminum' : 'galvanized-steel',
+    gauge: String(params.gauge ?? '24'),
+    serviceType: 'supply',
+  });
+  plan.calculation = calc;
+  plan.errors.push(...calc.errors);
+  plan.warnings.push(...calc.warnings);
+
+  const width = round ? numberParam(params, 'diameter', 300) : numberParam(params, 'width', 400);
+  const height = round ? width : numberParam(params, 'height', 300);
+  const sheetThickness = calc.sheetArea > 0 ? calc.weight / calc.sheetArea / getMaterialDensity(material) * 1000 : 0.6;
+  const section: SectionProfile = round
+    ? { ...roundTube(width, sheetThickness, `DUCT Ø${width}`), massPerMeter: calc.weight / (length / 1000) }
+    : { ...rectTube(height, width, sheetThickness, `DUCT ${width}x${height}`), massPerMeter: calc.weight / (length / 1000) };
+
+  const dirAlong = { x: frame.run / length, z: frame.rise / length };
+  for (let i = 0; i < calc.numSections; i++) {
+    const a = i * calc.sectionLength;
+    const b = (i + 1) * calc.sectionLength;
+    plan.parts.push(memberPart(
+      `Duct Section ${i + 1}`, 'duct-section',
+      toWorld(frame, a * dirAlong.x, 0, a * dirAlong.z), toWorld(frame, b * dirAlong.x, 0, b * dirAlong.z),
+      section, material, { width, height, gauge: String(params.gauge ?? '24') }
+    ));
+  }
+
+  // Trapeze hangers below the duct
+  const trapeze = resolveSection('L2x2x1/4')!;
+  spacedPositions(0, length, calc.supports).forEach((distance, i) => {
+    const h = distance * dirAlong.z - height / 2 - trapeze.depth / 2;
+    const s = distance * dirAlong.x;
+    plan.parts.push(memberPart(
+      `Duct Support ${i + 1}`, 'duct-support-angle',
+      toWorld(frame, s, -width / 2 - 75, h), toWorld(frame, s, width / 2 + 75, h),
+      trapeze, material
+    ));
+  });
+
+  plan.builderInput = {
+    ductType: round ? 'round' : 'rectangular',
+    width: round ? undefined : width,
+    height: round ? undefined : height,
+    diameter: round ? width : undefined,
+    gauge: String(params.gauge ?? '24'),
+  } satisfies DuctInput;
+
+  return plan;
+}
+
+function planCableTray(ctx: PlanContext): ElementGeometryPlan {
+  const { frame, params, material, request } = ctx;
+  const plan = emptyPlan('cable-tray', 'calculateCableTray');
+  const family = materialFamily(material);
+  const length = frame.span > 0 ? frame.span : numberParam(params, 'length', 3000);
+  const width = numberParam(params, 'width', 300);
+  const depth = numberParam(params, 'depth', 100);
+  const trayType = stringParam(params, 'type', 'ladder');
+  const standardType = (['ladder', 'solid-bottom', 'ventilated-trough', 'channel', 'wire-mesh'].includes(trayType)
+    ? trayType
+    : 'ladder') as CableTrayInput['trayType'];
+
+  const calc = calculateCableTray({
+    trayType: standardType,
+    width,
+    depth,
+    length,
+    material: family === 'stainless' ? 'stainless-304' : family === 'aluminum' ? 'aluminum' : 'galvanized-steel',
+    loadingClass: 'medium',
+    environment: request.environment.conditions.exposure === 'outdoor' ? 'outdoor' : 'indoor-dry',
+    elevationChange: frame.rise,
+  });
+  plan.calculation = calc;
+  plan.errors.push(...calc.errors);
+  plan.warnings.push(...calc.warnings);
+
+  const sections = Math.max(1, calc.straightSections);
+  const sectionLength = length / sections;
+  const dirAlong = { x: frame.run / length, z: frame.rise / length };
+  const section: SectionProfile = {
+    ...rectTube(depth, width, 2, `TRAY ${width}x${depth}`),
+    massPerMeter: calc.trayWeight,
+  };
+
+  for (let i = 0; i < sections; i++) {
+    const a = i * sectionLength;
+    const b = (i + 1) * sectionLength;
+    plan.parts.push(memberPart(
+      `Tray Section ${i + 1}`, 'tray-section',
+      toWorld(frame, a * dirAlong.x, 0, a * dirAlong.z + depth / 2),
+      toWorld(frame, b * dirAlong.x, 0, b * dirAlong.z + depth / 2),
+      section, material, { trayType, width, depth }
+    ));
+  }
+
+  const strut = rectTube(41, 41, 2.5, 'STRUT 41x41');
+  spacedPositions(0, length, calc.supports).forEach((distance, i) => {
+    const h = distance * dirAlong.z - strut.depth / 2;
+    const s = distance * dirAlong.x;
+    plan.parts.push(memberPart(
+      `Tray Support ${i + 1}`, 'tray-support-channel',
+      toWorld(frame, s, -width / 2 - 100, h), toWorld(frame, s, width / 2 + 100, h),
+      strut, material
+    ));
+  });
+
+  // Tray route runs along the centre of the tray, half its depth above A→B
+  const lift = (p: Point3D): Point3D => ({ ...p, z: p.z + depth / 2 });
+  plan.builderInput = {
+    trayType: standardType,
+    width,
+    depth,
+    loadingClass: 'medium',
+    route: [lift(request.pointA.position), lift(request.pointB.position)],
+  } satisfies CableTrayInput;
+
+  return plan;
+}
+
+// ============================================================================
+// MECHANICAL DOMAIN
+// ============================================================================
+
+function shaftMaterialId(material: string): string {
+  switch (materialFamily(material)) {
+    case 'stainless': return '316-stainless';
+    case 'aluminum': return '6061-aluminum';
+    default: return '1045-steel';
+  }
+}
+
+function bearingPart(
+  frame: LayoutFrame,
+  name: string,
+  s: number,
+  bearing: { designation: string; boreDiameter: number; outerDiameter: number; width: number; weight: number }
+): PlannedPart {
+  const volume = Math.PI / 4 * (bearing.outerDiameter ** 2 - bearing.boreDiameter ** 2) * bearing.width;
+  return {
+    ...blockPart(
+      frame, name, 'bearing',
+      [s - bearing.width / 2, s + bearing.width / 2],
+      [-bearing.outerDiameter / 2, bearing.outerDiameter / 2],
+      [-bearing.outerDiameter / 2, bearing.outerDiameter / 2],
+      'carbon-steel', { designation: bearing.designation, diameter: bearing.outerDiameter }, bearing.weight
+    ),
+    volume,
+    material: 'carbon-steel',
+  };
+}
+
+function planShaft(ctx: PlanContext): ElementGeometryPlan {
+  const { frame, params, material } = ctx;
+  const plan = emptyPlan('shaft', 'designShaft');
+  const diameter = numberParam(params, 'diameter', 50);
+  const length = numberParam(params, 'length', 500);
+  const speed = numberParam(params, 'speed', 1450);
+  const radialLoad = numberParam(params, 'radialLoad', 1000);
+  const span = numberParam(params, 'bearingSpan', length * 0.8);
+
+  const calc = designShaft({
+    diameter,
+    length,
+    material: shaftMaterialId(material),
+    torque: numberParam(params, 'torque', 100),
+    speed,
+    bearingSpan: span,
+    radialLoad,
+    includeKeyway: booleanParam(params, 'keyway', true),
+  });
+  plan.calculation = calc;
+  plan.errors.push(...calc.errors);
+  plan.warnings.push(...calc.warnings);
+
+  const bearing = selectBearing({
+    boreDiameter: diameter,
+    radialLoad: radialLoad / 2,
+    axialLoad: numberParam(params, 'axialLoad', 0),
+    operatingSpeed: speed,
+    designLife: numberParam(params, 'designLife', 20000),
+  });
+  plan.warnings.push(...bearing.warnings);
+  const selected = bearing.selectedBearing;
+
+  // Key on the drive journal outboard of the second bearing
+  const journal = selected ? (length - span) / 2 - selected.width / 2 : length;
+  const shaftInput = {
+    diameter,
+    length,
+    bearingSpan: span,
+    bearing: selected?.designation,
+    keyLength: calc.keyway ? Math.max(0, Math.min(Math.round(1.5 * diameter), Math.floor(journal))) : 0,
+  } satisfies ShaftInput;
+  const layout = layoutShaft(shaftInput);
+
+  const volume = layout.steps.reduce((sum, step) => sum + Math.PI / 4 * step.diameter ** 2 * step.length, 0);
+  plan.parts.push({
+    ...memberPart(
+      'Shaft', 'shaft-bar',
+      toWorld(frame, 0, 0, 0), toWorld(frame, length, 0, 0),
+      roundBar(Math.max(...layout.steps.map(step => step.diameter))), material,
+      { stockDiameter: layout.stockDiameter, turnedProfile: layout.steps }
+    ),
+    volume,
+    weight: calculateWeight(volume, material),
+  });
+
+  if (layout.keyway && layout.keyLength > 0) {
+    plan.parts.push(blockPart(
+      frame, 'Key', 'key',
+      [length - layout.keyLength, length],
+      [-layout.keyway.keyWidth / 2, layout.keyway.keyWidth / 2],
+      [diameter / 2 - layout.keyway.shaftDepth, diameter / 2 - layout.keyway.shaftDepth + layout.keyway.keyHeight],
+      'carbon-steel', { keyWidth: layout.keyway.keyWidth, keyHeight: layout.keyway.keyHeight }
+    ));
+  }
+
+  if (selected) {
+    layout.seats.forEach((s, i) => {
+      plan.parts.push(bearingPart(frame, `Bearing ${i + 1} (${selected.designation})`, s, selected));
+    });
+  }
+
+  plan.builderInput = shaftInput;
+
+  return plan;
+}
+
+function planBearing(ctx: PlanContext): ElementGeometryPlan {
+  const { frame, params } = ctx;
+  const plan = emptyPlan('bearing', 'selectBearing');
+
+  const calc = selectBearing({
+    boreDiameter: numberParam(params, 'boreDiameter', numberParam(params, 'diameter', 50)),
+    radialLoad: numberParam(params, 'radialLoad', 1000),
+    axialLoad: numberParam(params, 'axialLoad', 0),
+    operatingSpeed: numberParam(params, 'speed', 1450),
+    designLife: numberParam(params, 'designLife', 20000),
+  });
+  plan.calculation = calc;
+  plan.errors.push(...calc.errors);
+  plan.warnings.push(...calc.warnings);
+
+  if (calc.selectedBearing) {
+    plan.parts.push(bearingPart(frame, `Bearing ${calc.selectedBearing.designation}`, 0, calc.selectedBearing));
+    plan.builderInput = { designation: calc.selectedBearing.designation } satisfies BearingInput;
+  }
+
+  return plan;
+}
+
+function planCoupling(ctx: PlanContext): ElementGeometryPlan {
+  const { frame, params, material } = ctx;
+  const plan = emptyPlan('coupling', 'selectCoupling');
+  const boreDrive = numberParam(params, 'boreDrive', numberParam(params, 'size', 50));
+  const boreDriven = numberParam(params, 'boreDriven', boreDrive);
+  const bore = Math.max(boreDrive, boreDriven);
+
+  const calc = selectCoupling({
+    torque: numberParam(params, 'torque', 100),
+    speed: numberParam(params, 'speed', 1450),
+    angularMisalignment: numberParam(params, 'misalignmentCapacity', 1),
+    parallelMisalignment: numberParam(params, 'parallelMisalignment', 0.2),
+    axialMisalignment: numberParam(params, 'axialMisalignment', 1),
+    boreDrive,
+    boreDriven,
+  });
+  plan.calculation = calc;
+  plan.errors.push(...calc.errors);
+  plan.warnings.push(...calc.warnings);
+
+  const type = calc.selectedCoupling?.type ?? stringParam(params, 'type', 'flexible-jaw');
+  const hubDiameter = Math.round(bore * 2.2);
+  const hubLength = Math.round(bore * 1.2);
+  const elementLength = Math.round(bore * 0.4);
+  const hub = (hubBore: number) => roundTube(hubDiameter, (hubDiameter - hubBore) / 2, `HUB Ø${hubDiameter}/${hubBore}`);
+  const turnedProfile = [{ diameter: hubDiameter, length: hubLength }];
+
+  plan.parts.push(memberPart(
+    'Drive Hub', 'hub', toWorld(frame, 0, 0, 0), toWorld(frame, hubLength, 0, 0),
+    hub(boreDrive), material, { boreDiameter: boreDrive, couplingType: type, turnedProfile }
+  ));
+  plan.parts.push({
+    ...memberPart(
+      'Flexible Element', 'coupling-element',
+      toWorld(frame, hubLength, 0, 0), toWorld(frame, hubLength + elementLength, 0, 0),
+      roundBar(hubDiameter), type.startsWith('flexible-jaw') ? 'plastic-hdpe' : material,
+      { couplingType: type }
+    ),
+    material: type.startsWith('flexible-jaw') ? 'plastic-hdpe' : undefined,
+  });
+  plan.parts.push(memberPart(
+    'Driven Hub', 'hub',
+    toWorld(frame, hubLength + elementLength, 0, 0), toWorld(frame, 2 * hubLength + elementLength, 0, 0),
+    hub(boreDriven), material, { boreDiameter: boreDriven, couplingType: type, turnedProfile }
+  ));
+
+  if (calc.selectedCoupling) {
+    plan.builderInput = {
+      couplingType: type,
+      boreDrive,
+      boreDriven,
+      hubDiameter,
+      hubLength,
+      elementLength,
+      keyways: booleanParam(params, 'keyway', true),
+    } satisfies CouplingInput;
+  }
+
+  return plan;
+}
+
+function planLinkage(ctx: PlanContext): ElementGeometryPlan {
+  const { frame, params, material } = ctx;
+  const plan = emptyPlan('linkage', 'analyzeFourBar');
+  const ground = numberParam(params, 'groundLink', frame.run > 0 ? frame.run : 300);
+  const links = {
+    groundLink: ground,
+    crankLink: numberParam(params, 'crankLink', ground * 0.3),
+    couplerLink: numberParam(params, 'couplerLink', ground * 0.9),
+    rockerLink: numberParam(params, 'rockerLink', ground * 0.8),
+  };
+
+  const calc = analyzeFourBar(links);
+  plan.calculation = calc;
+  plan.errors.push(...calc.errors);
+  plan.warnings.push(...calc.warnings);
+
+  // Joint positions in the vertical plane through A and B at the input angle
+  const inputAngle = numberParam(params, 'inputAngle', 90);
+  const joints = fourBarJoints(links, inputAngle);
+  const o2: [number, number] = [0, 0];
+  const o4: [number, number] = [links.groundLink, 0];
+  let p: [number, number];
+  let q: [number, number];
+  if (joints) {
+    p = [joints.crankPin.x, joints.crankPin.y];
+    q = [joints.rockerPin.x, joints.rockerPin.y];
+  } else {
+    plan.warnings.push('Linkage cannot assemble at the requested input angle; rocker drawn at the output angle');
+    const theta = inputAngle * Math.PI / 180;
+    const phi = numberParam(params, 'outputAngle', 45) * Math.PI / 180;
+    p = [links.crankLink * Math.cos(theta), links.crankLink * Math.sin(theta)];
+    q = [o4[0] + links.rockerLink * Math.cos(Math.PI - phi), links.rockerLink * Math.sin(Math.PI - phi)];
+  }
+
+  const bar = flatBar(40, 10);
+  const at = ([s, h]: [number, number], t = 0) => toWorld(frame, s, t, h);
+  plan.parts.push(memberPart('Ground Link', 'link-bar', at(o2, -bar.width), at(o4, -bar.width), bar, material));
+  plan.parts.push(memberPart('Crank', 'link-bar', at(o2), at(p), bar, material));
+  plan.parts.push(memberPart('Coupler', 'link-bar', at(p, bar.width), at(q, bar.width), bar, material));
+  plan.parts.push(memberPart('Rocker', 'link-bar', at(q), at(o4), bar, material));
+
+  const pin = roundBar(12);
+  [o2, p, q, o4].forEach((joint, i) => {
+    plan.parts.push(memberPart(
+      `Pivot Pin ${i + 1}`, 'pin', at(joint, -1.5 * bar.width), at(joint, 2 * bar.width), pin, 'carbon-steel'
+    ));
+  });
+
+  if (joints) {
+    plan.builderInput = {
+      ...links,
+      inputAngle,
+      barWidth: bar.depth,
+      barThickness: bar.width,
+      pinDiameter: pin.depth,
+    } satisfies LinkageInput;
+  }
+
+  return plan;
+}
+
+function planBracket(ctx: PlanContext): ElementGeometryPlan {
+  const { frame, params, material } = ctx;
+  const plan = emptyPlan('bracket', 'calculateBracket');
+  const family = materialFamily(material);
+  const legA = numberParam(params, 'legALength', 100);
+  const legB = numberParam(params, 'legBLength', 100);
+  const legWidth = numberParam(params, 'legWidth', 50);
+  const thickness = numberParam(params, 'thickness', 5);
+  const includeGusset = booleanParam(params, 'includeGusset', numberParam(params, 'loadCapacity', 50) > 100);
+  const bracketType = stringParam(params, 'bracketType', 'l-bracket');
+  const holePattern = stringParam(params, 'holePattern', 'single');
+  const holeDiameter = numberParam(params, 'holeDiameter', 10);
+
+  const calc = calculateBracket({
+    bracketType,
+    legALength: legA,
+    legBLength: legB,
+    legWidth,
+    materialThickness: thickness,
+    material: family === 'stainless' ? 'stainless-304' : family === 'aluminum' ? 'aluminum-6061' : family === 'galvanized' ? 'galvanized' : 'mild-steel',
+    loadCapacity: numberParam(params, 'loadCapacity', 50),
+    holePattern,
+    holeDiameter,
+    includeGusset,
+    quantity: 1,
+  });
+  plan.calculation = calc;
+  plan.errors.push(...calc.errors);
+  plan.warnings.push(...calc.warnings);
+
+  const holes = Array.from({ length: calc.holesPerBracket }, (_, i) => ({
+    position: (i + 1) * calc.flatPatternLength / (calc.holesPerBracket + 1),
+    diameter: holeDiameter,
+  }));
+
+  // Leg A against the mounting surface, leg B projecting along the run direction
+  const weight = calc.estimatedWeight;
+  const gussetSize = Math.min(legA, legB) * 0.5;
+  const gussetArea = includeGusset ? 0.5 * gussetSize * gussetSize : 0;
+  const bodyWeight = calc.materialArea > 0 ? weight * (1 - gussetArea / calc.materialArea) : weight;
+  const body = envelopePart(
+    'Bracket Body', 'bracket',
+    [toWorld(frame, 0, -legWidth / 2, 0), toWorld(frame, legB, legWidth / 2, legA)],
+    (calc.materialArea - gussetArea) * thickness,
+    2 * (calc.materialArea - gussetArea),
+    bodyWeight,
+    { thickness, flatPatternLength: calc.flatPatternLength, flatPatternWidth: calc.flatPatternWidth, holes }
+  );
+  plan.parts.push(body);
+
+  if (includeGusset) {
+    plan.parts.push(blockPart(
+      frame, 'Gusset Plate', 'gusset',
+      [thickness, thickness + gussetSize], [-thickness / 2, thickness / 2], [thickness, thickness + gussetSize],
+      material, { thickness, triangular: true }, weight - bodyWeight
+    ));
+  }
+
+  if (bracketType === 'l-bracket' || bracketType === 'angle-bracket' || bracketType === 'z-bracket') {
+    plan.builderInput = {
+      bracketType,
+      legALength: legA,
+      legBLength: legB,
+      legWidth,
+      thickness,
+      holePattern: holePattern as BracketInput['holePattern'],
+      holeDiameter,
+      gussetSize: includeGusset ? gussetSize : 0,
+    } satisfies BracketInput;
+  }
+
+  return plan;
+}
+
+// ============================================================================
+// PLANNER ENTRY POINTS
+// ============================================================================
+
+const elementPlanners: Record<string, (ctx: PlanContext) => ElementGeometryPlan> = {
+  stairs: planStairs,
+  ladder: planLadder,
+  ramp: planRamp,
+  platform: planPlatform,
+  walkway: planPlatform,
+  beam: planBeam,
+  column: planColumn,
+  bracing: planBracing,
+  guard: planGuard,
+  fence: planFence,
+  panel: planAccessPanel,
+  door: planAccessPanel,
+  cover: planCover,
+  pipe: planPipe,
+  duct: planDuct,
+  'cable-tray': planCableTray,
+  shaft: planShaft,
+  bearing: planBearing,
+  coupling: planCoupling,
+  linkage: planLinkage,
+  bracket: planBracket,
+};
+
+/**
+ * Size a design solution with its domain calculator and lay out its parts
+ */
+export function planElementGeometry(
+  solution: DesignSolution,
+  request: DesignRequest
+): ElementGeometryPlan {
+  const planner = elementPlanners[solution.elementType];
+  const material = (solution.parameters.material as string) || 'carbon-steel';
+  const frame = createLayoutFrame(request.pointA.position, request.pointB.position);
+
+  if (!planner) {
+    // No calculator for this element: a single member spanning A→B
+    const plan = emptyPlan(solution.elementType);
+    plan.warnings.push(`No calculator available for ${solution.elementType}; geometry is a placeholder envelope`);
+    plan.parts.push(memberPart(
+      solution.elementType, solution.elementType,
+      request.pointA.position, request.pointB.position,
+      rectTube(100, 100, 5), material
+    ));
+    return plan;
+  }
+
+  return planner({
+    solution,
+    request,
+    params: solution.parameters,
+    frame,
+    material,
+  });
+}
+
+/**
+ * Convert a planned part to a geometry result
+ */
+export function createPartGeometry(
+  part: PlannedPart,
+  material: string,
+  shapeId: string = ''
+): GeometryResult {
+  const { min, max } = part.bounds;
+
+  return {
+    id: generateGeometryId(part.partType),
+    shapeId,
+    name: part.name,
+    elementType: part.partType,
+    bounds: { min, max },
+    transform: { position: min, rotation: { x: 0, y: 0, z: 0 } },
+    properties: {
+      volume: part.volume,
+      surfaceArea: part.surfaceArea,
+      weight: part.weight,
+      centerOfMass: {
+        x: (min.x + max.x) / 2,
+        y: (min.y + max.y) / 2,
+        z: (min.z + max.z) / 2,
+      },
+    },
+    material: part.material ?? material,
+    metadata: part.metadata,
+  };
+}
@@ -3,6 +3,7 @@
  *
  * Complete MayhemAI pipeline from requirements to manufacturing outputs:
  * - Pipeline orchestration
+ * - Calculator-driven geometry planning
  * - Demo scenarios
  * - Interactive design refinement
  * - Production readiness validation
@@ -23,6 +24,10 @@ export type {
   DesignFeedback,
   IterationResult,
 
+  // Geometry planning types
+  PlannedPart,
+  ElementGeometryPlan,
+
   // Validation types
   ProductionReadinessCheck,
   EngineeringPackage,
@@ -35,6 +40,12 @@ export {
   defaultPipelineConfig,
 } from './pipeline';
 
+// Export geometry planner
+export {
+  planElementGeometry,
+  createPartGeometry,
+} from './geometry-planner';
+
 // Export demos
 export {
   DemoRunner,
@@ -16,7 +16,12 @@ import type {
   ProductionReadinessCheck,
 } from './types';
 import type { DesignRequest, DesignSolution } from '../ai/types';
-import type { AssemblyResult, GeometryResult } from '../geometry/types';
+import type {
+  AssemblyResult,
+  BuilderContext,
+  GeometryResult,
+  ValidationIssue,
+} from '../geometry/types';
 import type { EnvironmentModel, ScanToCADResult } from '../inputs/types';
 
 // Import components (type-only to avoid circular deps)
@@ -24,6 +29,8 @@ import { createAIOrchestrator } from '../ai/orchestrator';
 import { createEnvironmentModeler } from '../inputs/environment-modeler';
 import { createManufacturingFactory, generateManufacturingPackage } from '../outputs/index';
 import { createNaturalLanguageParser } from '../ai/nl-parser';
+import { getBuilder } from '../geometry/index';
+import { planElementGeometry, createPartGeometry } from './geometry-planner';
 
 // ============================================================================
 // DEFAULT CONFIGURATION
@@ -333,6 +340,11 @@ export class MayhemAIPipeline {
 
   /**
    * Generate geometry from solution
+   *
+   * Parts are sized by the element's domain calculator. When a geometry
+   * builder is registered for the element, its solid model is attached to
+   * the assembly; without the OpenCascade kernel (e.g., headless runs) the
+   * calculated part envelopes are used on their own.
    */
   private async generateGeometry(
     solution: DesignSolution,
@@ -340,135 +352,53 @@ export class MayhemAIPipeline {
   ): Promise<AssemblyResult> {
     const startPos = request.pointA.position;
     const endPos = request.pointB.position;
-
-    // Calculate run and rise
-    const run = Math.abs(endPos.x - startPos.x);
-    const rise = Math.abs(endPos.z - startPos.z);
-    const width = Math.max(1000, Math.abs(endPos.y - startPos.y) || 1000); // Default 1m wide
-
-    const components: GeometryResult[] = [];
     const material = (solution.parameters.material as string) || 'carbon-steel';
 
-    switch (solution.elementType) {
-      case 'stairs': {
-        const numRisers = (solution.parameters.numRisers as number) || Math.max(1, Math.round(rise / 180));
-        const riserHeight = rise / numRisers;
-        const treadDepth = run / numRisers;
-
-        // Left Stringer - diagonal beam on left side
-        components.push(this.createStairComponent(
-          'Left Stringer', 'stringer', material,
-          { x: startPos.x, y: startPos.y, z: startPos.z },
-          { x: endPos.x, y: startPos.y + 100, z: endPos.z },
-          25
-        ));
-
-        // Right Stringer - diagonal beam on right side
-        components.push(this.createStairComponent(
-          'Right Stringer', 'stringer', material,
-          { x: startPos.x, y: startPos.y + width - 100, z: startPos.z },
-          { x: endPos.x, y: startPos.y + width, z: endPos.z },
-          25
-        ));
-
-        // Treads - horizontal steps
-        for (let i = 0; i < numRisers; i++) {
-          const treadX = startPos.x + (i + 0.5) * treadDepth;
-          const treadZ = startPos.z + (i + 1) * riserHeight;
-          components.push(this.createStairComponent(
-            `Tread ${i + 1}`, 'tread', material,
-            { x: treadX - treadDepth / 2, y: startPos.y, z: treadZ - 30 },
-            { x: treadX + treadDepth / 2, y: startPos.y + width, z: treadZ },
-            8
-          ));
-        }
+    const plan = planElementGeometry(solution, request);
+    const components: GeometryResult[] = plan.parts.map(part => createPartGeometry(part, material));
 
-        // Left Handrail - follows stringer at 900mm height
-        components.push(this.createStairComponent(
-          'Left Handrail', 'handrail', material,
-          { x: startPos.x, y: startPos.y - 50, z: startPos.z + 900 },
-          { x: endPos.x, y: startPos.y, z: endPos.z + 900 },
-          5
-        ));
-
-        // Right Handrail
-        components.push(this.createStairComponent(
-          'Right Handrail', 'handrail', material,
-          { x: startPos.x, y: startPos.y + width, z: startPos.z + 900 },
-          { x: endPos.x, y: startPos.y + width + 50, z: endPos.z + 900 },
-          5
-        ));
-        break;
-      }
+    const errors: ValidationIssue[] = plan.errors.map(message => ({
+      code: 'DESIGN_CALCULATION',
+      severity: 'error' as const,
+      message,
+    }));
+    const warnings: ValidationIssue[] = plan.warnings.map(message => ({
+      code: 'DESIGN_CALCULATION',
+      severity: 'warning' as const,
+      message,
+    }));
+
+    // Solid model from the registered builder
+    let combinedShapeId: string | undefined;
+    const builder = getBuilder(solution.elementType);
+    if (builder && plan.builderInput) {
+      const context: BuilderContext = {
+        pointA: startPos,
+        pointB: endPos,
+        material,
+        parameters: Object.fromEntries(
+          Object.entries(solution.parameters).filter(
+            (entry): entry is [string, number | string | boolean] =>
+              ['number', 'string', 'boolean'].includes(typeof entry[1])
+          )
+        ),
+      };
 
-      case 'ladder': {
-        const numRungs = (solution.parameters.numRungs as number) || Math.max(3, Math.round(rise / 300));
-        const rungSpacing = rise / (numRungs + 1);
-        const ladderWidth = 500;
-
-        // Left Rail
-        components.push(this.createStairComponent(
-          'Left Rail', 'rail', material,
-          { x: startPos.x, y: startPos.y, z: startPos.z },
-          { x: startPos.x + 50, y: startPos.y + 50, z: endPos.z + 300 },
-          15
-        ));
-
-        // Right Rail
-        components.push(this.createStairComponent(
-          'Right Rail', 'rail', material,
-          { x: startPos.x, y: startPos.y + ladderWidth, z: startPos.z },
-          { x: startPos.x + 50, y: startPos.y + ladderWidth + 50, z: endPos.z + 300 },
-          15
-        ));
-
-        // Rungs
-        for (let i = 0; i < numRungs; i++) {
-          const rungZ = startPos.z + (i + 1) * rungSpacing;
-          components.push(this.createStairComponent(
-            `Rung ${i + 1}`, 'rung', material,
-            { x: startPos.x, y: startPos.y, z: rungZ },
-            { x: startPos.x + 30, y: startPos.y + ladderWidth, z: rungZ + 30 },
-            2
-          ));
+      const builderValidation = builder.validate(context, plan.builderInput);
+      errors.push(...builderValidation.errors);
+      warnings.push(...builderValidation.warnings);
+
+      if (builderValidation.valid) {
+        try {
+          const solid = await builder.build(context, plan.builderInput);
+          combinedShapeId = solid.shapeId;
+        } catch (error) {
+          warnings.push({
+            code: 'SOLID_MODEL_UNAVAILABLE',
+            severity: 'warning',
+            message: `Solid model not generated: ${error instanceof Error ? error.message : String(error)}`,
+          });
         }
-        break;
-      }
-
-      case 'ramp': {
-        // Ramp surface
-        components.push(this.createStairComponent(
-          'Ramp Surface', 'surface', material,
-          { x: startPos.x, y: startPos.y, z: startPos.z },
-          { x: endPos.x, y: startPos.y + width, z: endPos.z + 50 },
-          150
-        ));
-
-        // Left Handrail
-        components.push(this.createStairComponent(
-          'Left Handrail', 'handrail', material,
-          { x: startPos.x, y: startPos.y - 50, z: startPos.z + 900 },
-          { x: endPos.x, y: startPos.y, z: endPos.z + 950 },
-          5
-        ));
-
-        // Right Handrail
-        components.push(this.createStairComponent(
-          'Right Handrail', 'handrail', material,
-          { x: startPos.x, y: startPos.y + width, z: startPos.z + 900 },
-          { x: endPos.x, y: startPos.y + width + 50, z: endPos.z + 950 },
-          5
-        ));
-        break;
-      }
-
-      default: {
-        components.push(this.createStairComponent(
-          solution.elementType, 'beam', material,
-          startPos,
-          endPos,
-          50
-        ));
       }
     }
 
@@ -477,10 +407,12 @@ export class MayhemAIPipeline {
     const allY = components.flatMap(c => [c.bounds.min.y, c.bounds.max.y]);
     const allZ = components.flatMap(c => [c.bounds.min.z, c.bounds.max.z]);
 
-    const assemblyBounds = {
-      min: { x: Math.min(...allX), y: Math.min(...allY), z: Math.min(...allZ) },
-      max: { x: Math.max(...allX), y: Math.max(...allY), z: Math.max(...allZ) },
-    };
+    const assemblyBounds = components.length > 0
+      ? {
+          min: { x: Math.min(...allX), y: Math.min(...allY), z: Math.min(...allZ) },
+          max: { x: Math.max(...allX), y: Math.max(...allY), z: Math.max(...allZ) },
+        }
+      : { min: { ...startPos }, max: { ...startPos } };
 
     const totalWeight = components.reduce((sum, c) => sum + (c.properties?.weight || 0), 0);
 
@@ -488,6 +420,7 @@ export class MayhemAIPipeline {
       id: `assembly-${solution.id}`,
       name: `${solution.elementType} Assembly`,
       components,
+      combinedShapeId,
       bounds: assemblyBounds,
       totalWeight,
       connectionPoints: [
@@ -500,65 +433,14 @@ export class MayhemAIPipeline {
         },
       ],
       validation: {
-        valid: true,
-        errors: [],
-        warnings: [],
+        valid: errors.length === 0,
+        errors,
+        warnings,
         clearanceChecks: [],
       },
     };
   }
 
-  /**
-   * Create a component with specific bounds
-   */
-  private createStairComponent(
-    name: string,
-    elementType: string,
-    material: string,
-    min: Point3D,
-    max: Point3D,
-    weight: number
-  ): GeometryResult {
-    // Ensure min < max for each axis
-    const actualMin = {
-      x: Math.min(min.x, max.x),
-      y: Math.min(min.y, max.y),
-      z: Math.min(min.z, max.z),
-    };
-    const actualMax = {
-      x: Math.max(min.x, max.x),
-      y: Math.max(min.y, max.y),
-      z: Math.max(min.z, max.z),
-    };
-
-    const width = actualMax.x - actualMin.x;
-    const depth = actualMax.y - actualMin.y;
-    const height = actualMax.z - actualMin.z;
-    const volumeM3 = (width * depth * height) / 1e9;
-    const surfaceAreaM2 = 2 * (width * depth + width * height + depth * height) / 1e6;
-
-    return {
-      id: `${elementType}-${name.toLowerCase().replace(/\s+/g, '-')}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      shapeId: `shape-${Date.now()}`,
-      name,
-      elementType,
-      bounds: { min: actualMin, max: actualMax },
-      transform: { position: actualMin, rotation: { x: 0, y: 0, z: 0 } },
-      properties: {
-        volume: volumeM3,
-        surfaceArea: surfaceAreaM2,
-        weight,
-        centerOfMass: {
-          x: (actualMin.x + actualMax.x) / 2,
-          y: (actualMin.y + actualMax.y) / 2,
-          z: (actualMin.z + actualMax.z) / 2,
-        },
-      },
-      material,
-      metadata: {},
-    };
-  }
-
   /**
    * Validate the design
    */
@@ -598,6 +480,15 @@ export class MayhemAIPipeline {
       }
     }
 
+    // Calculator and solid-model findings
+    for (const issue of assembly.validation.errors) {
+      codeCompliant = false;
+      issues.push(issue.message);
+    }
+    for (const issue of assembly.validation.warnings) {
+      warnings.push(issue.message);
+    }
+
     // Check manufacturing feasibility (basic checks)
     let manufacturingFeasible = true;
     const totalWeight = assembly.components.reduce((sum, c) => sum + c.properties.weight, 0);
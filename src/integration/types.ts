@@ -270,6 +270,68 @@ export interface IterationResult {
   };
 }
 
+// ============================================================================
+// GEOMETRY PLANNING TYPES
+// ============================================================================
+
+/**
+ * A fabricated part sized by a domain calculator
+ */
+export interface PlannedPart {
+  /** Part name (e.g., "Tread 3") */
+  name: string;
+
+  /** Part type used for BOM / cut list grouping (e.g., "tread", "beam") */
+  partType: string;
+
+  /** Axis-aligned envelope in world coordinates (mm) */
+  bounds: {
+    min: Point3D;
+    max: Point3D;
+  };
+
+  /** Solid volume (mm³) */
+  volume: number;
+
+  /** Surface area (mm²) */
+  surfaceArea: number;
+
+  /** Weight (kg) */
+  weight: number;
+
+  /** Material override (defaults to the solution material) */
+  material?: string;
+
+  /** Profile, stock and calculation data for manufacturing outputs */
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Calculator-driven geometry plan for a design solution
+ */
+export interface ElementGeometryPlan {
+  /** Element type the plan was generated for */
+  elementType: string;
+
+  /** Calculator that sized the element (e.g., "calculateStairs") */
+  calculator?: string;
+
+  /** Raw calculator output */
+  calculation?: unknown;
+
+  /** Parts making up the element */
+  parts: PlannedPart[];
+
+  /** Input for the registered geometry builder, if one exists for the element */
+  builderInput?: unknown;
+
+  /** Calculator errors (code or capacity violations) */
+  errors: string[];
+
+  /** Calculator warnings */
+  warnings: string[];
+}
+
 // ============================================================================
 // VALIDATION TYPES
 // ============================================================================
@@ -98,9 +98,9 @@ const rampParameters: ParameterDefinition[] = [
     name: 'Landing Interval',
     type: 'number',
     unit: 'mm',
-    default: 9144,   // 30" rise maximum between landings (ADA)
+    default: 9144,   // 30' run at 1:12 gives the 30" maximum rise (ADA)
     required: false,
-    description: 'Maximum rise between landings',
+    description: 'Horizontal run between landings',
   },
   {
     id: 'top_landing_depth',
@@ -222,7 +222,11 @@ const rampRules: Rule[] = [
     description: 'Maximum rise of 30 inches (762mm) between landings',
     type: 'constraint',
     source: 'ADA 405.6',
-    expression: { type: 'range', param: 'landing_interval', max: 762 },
+    expression: {
+      type: 'formula',
+      formula: 'run_rise = landing_interval / slope_ratio',
+      result: 'run_rise <= 762',
+    },
     errorMessage: 'Landing required every 762mm of rise',
   },
 
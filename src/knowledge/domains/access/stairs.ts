@@ -239,8 +239,8 @@ const stairRules: Rule[] = [
     source: 'Industry Standard',
     expression: {
       type: 'formula',
-      formula: '2 * riser_height + tread_depth',
-      result: 'comfort_factor',
+      formula: 'comfort_factor = 2 * riser_height + tread_depth',
+      result: 'comfort_factor >= 610 && comfort_factor <= 660',
     },
     errorMessage: 'Stair may be uncomfortable (2R+T should be 610-660mm)',
   },
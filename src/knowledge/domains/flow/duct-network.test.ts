@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeDuctNetwork, type DuctNetworkInput } from './duct-network';
+
+/** 400×300 trunk feeding a near and a far 250 mm diffuser branch */
+function network(overrides: Partial<DuctNetworkInput> = {}): DuctNetworkInput {
+  return {
+    system: 'supply',
+    sections: [
+      { id: 'trunk', shape: 'rectangular', width: 400, height: 300, length: 10000, fittings: [{ type: 'elbow-90-smooth' }] },
+      { id: 'near', parent: 'trunk', shape: 'round', diameter: 250, length: 2000, terminal: { id: 'D1', type: 'diffuser', airflow: 250, pressureDrop: 25 } },
+      { id: 'far', parent: 'trunk', shape: 'round', diameter: 250, length: 12000, terminal: { id: 'D2', type: 'diffuser', airflow: 250, pressureDrop: 25 } },
+    ],
+    ...overrides,
+  };
+}
+
+describe('analyzeDuctNetwork', () => {
+  it('carries the terminal airflow back to the fan', () => {
+    const result = analyzeDuctNetwork(network());
+    const section = (id: string) => result.sections.find(s => s.id === id)!;
+
+    expect(result.valid).toBe(true);
+    expect(section('trunk').airflow).toBe(500);
+    expect(section('near').airflow).toBe(250);
+    expect(result.fan.airflow).toBe(500);
+    expect(result.fan.airflowCfm).toBeCloseTo(500 * 2.11888, -1);
+
+    // Velocity from airflow over area, velocity pressure ½ρv²
+    expect(section('trunk').velocity).toBeCloseTo(0.5 / (0.4 * 0.3), 1);
+    expect(section('near').velocityPressure).toBeCloseTo(0.5 * 1.204 * section('near').velocity ** 2, 0);
+  });
+
+  it('adds leakage to the fan airflow', () => {
+    const result = analyzeDuctNetwork(network({ leakage: 0.1 }));
+    expect(result.fan.airflow).toBeCloseTo(550, 0);
+  });
+
+  it('sizes the fan for the critical path and balances the others', () => {
+    const result = analyzeDuctNetwork(network());
+    const near = result.paths.find(p => p.terminal === 'D1')!;
+    const far = result.paths.find(p => p.terminal === 'D2')!;
+
+    expect(result.criticalPath?.terminal).toBe('D2');
+    expect(far.sections).toEqual(['trunk', 'far']);
+    expect(far.excessPressure).toBe(0);
+    expect(near.excessPressure).toBeCloseTo(far.pressureLoss - near.pressureLoss, 1);
+    expect(near.damper?.section).toBe('near');
+    expect(near.damper?.bladeAngle).toBeGreaterThan(0);
+
+    // Path loss is the sum of its sections
+    const loss = (id: string) => result.sections.find(s => s.id === id)!.totalLoss;
+    expect(far.pressureLoss).toBeCloseTo(loss('trunk') + loss('far'), 1);
+    expect(result.fan.totalPressure).toBeGreaterThanOrEqual(far.pressureLoss);
+    expect(result.fan.airPower).toBeCloseTo(0.5 * result.fan.totalPressure / 1000, 2);
+  });
+
+  it('scales friction loss with length', () => {
+    const result = analyzeDuctNetwork(network());
+    const near = result.sections.find(s => s.id === 'near')!;
+    const far = result.sections.find(s => s.id === 'far')!;
+
+    expect(far.frictionRate).toBeCloseTo(near.frictionRate, 6);
+    expect(near.frictionLoss).toBeCloseTo(near.frictionRate * 2, 0);
+    expect(far.frictionLoss).toBeCloseTo(far.frictionRate * 12, 0);
+  });
+
+  it('finds the operating point on a fan curve', () => {
+    const result = analyzeDuctNetwork(network({
+      fanCurve: [
+        { airflow: 0, staticPressure: 200 },
+        { airflow: 500, staticPressure: 150 },
+        { airflow: 1000, staticPressure: 0 },
+      ],
+    }));
+
+    const point = result.fan.operatingPoint!;
+    expect(point.airflow).toBeGreaterThan(500);
+    expect(point.airflow).toBeLessThan(1000);
+  });
+
+  it('reports sections that are not connected to the fan', () => {
+    const input = network();
+    input.sections.push({ id: 'orphan', parent: 'missing', shape: 'round', diameter: 200, length: 1000 });
+    const result = analyzeDuctNetwork(input);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.join(' ')).toMatch(/missing/);
+  });
+});
@@ -0,0 +1,445 @@
+/**
+ * FLOW Domain - Duct Networks
+ *
+ * Static pressure and fan selection for branched air systems:
+ * - Trunk, branch and terminal sections in a tree from the fan
+ * - Friction (Darcy-Colebrook) and fitting losses (ASHRAE coefficients)
+ * - Critical path and total / static pressure at the fan
+ * - Branch balancing with opposed-blade damper settings
+ * - Fan operating point against a fan curve
+ */
+
+import { darcyFrictionFactor, standardMotorSizes } from './hydraulics';
+import type { DuctCalculationInput } from './ducts';
+
+// =============================================================================
+// MODEL
+// =============================================================================
+
+/**
+ * Fittings by ASHRAE Duct Fitting Database family. Each loss is C × the
+ * velocity pressure of the section the fitting is listed on; tee and wye
+ * branch coefficients belong on the branch section, straight-through
+ * coefficients on the downstream main section.
+ */
+export type DuctFittingType =
+  | 'elbow-90-smooth'         // CD3-1 / CR3-1, R/D 1.5
+  | 'elbow-90-mitered'        // CD3-12 / CR3-6, no vanes
+  | 'elbow-90-vaned'          // CR3-9, single-thickness turning vanes
+  | 'elbow-45-smooth'
+  | 'tee-branch'              // SD5-9 / SR5-13, 90° branch
+  | 'tee-main'                // straight-through past a branch
+  | 'wye-branch'              // SD5-1, 45° branch
+  | 'wye-main'
+  | 'conical-takeoff'         // SD5-10 / SR5-11 bellmouth tap
+  | 'contraction'             // SD4-1, gradual
+  | 'expansion'               // SD4-2, 30° included angle
+  | 'entry'                   // ED1-3, duct entry from a plenum
+  | 'exit'                    // SD2-1, discharge to a plenum
+  | 'fire-damper'
+  | 'damper';                 // opposed-blade, fully open
+
+export const ductFittingCoefficients: Record<DuctFittingType, number> = {
+  'elbow-90-smooth': 0.15,
+  'elbow-90-mitered': 1.2,
+  'elbow-90-vaned': 0.25,
+  'elbow-45-smooth': 0.1,
+  'tee-branch': 1.0,
+  'tee-main': 0.15,
+  'wye-branch': 0.4,
+  'wye-main': 0.1,
+  'conical-takeoff': 0.6,
+  'contraction': 0.05,
+  'expansion': 0.3,
+  'entry': 0.5,
+  'exit': 1.0,
+  'fire-damper': 0.12,
+  'damper': 0.52,
+};
+
+export interface DuctFitting {
+  type: DuctFittingType;
+  count?: number;
+  /** Overrides the tabulated coefficient */
+  coefficient?: number;
+}
+
+export interface DuctTerminal {
+  id: string;
+  type: 'diffuser' | 'grille' | 'register' | 'louver';
+  airflow: number;         // L/s
+  /** Catalogue pressure drop at design airflow (Pa) */
+  pressureDrop?: number;
+}
+
+export interface DuctSection {
+  id: string;
+  /** Upstream section (toward the fan); omit for the section at the fan */
+  parent?: string;
+  shape: 'rectangular' | 'round';
+  width?: number;          // mm (rectangular)
+  height?: number;         // mm (rectangular)
+  diameter?: number;       // mm (round)
+  length: number;          // mm
+  fittings?: DuctFitting[];
+  /** Filters, coils and other fixed pressure drops (Pa) */
+  equipment?: Array<{ name: string; pressureDrop: number }>;
+  /** Outlet or inlet at the end of the section */
+  terminal?: DuctTerminal;
+}
+
+export interface FanCurvePoint {
+  airflow: number;         // L/s
+  staticPressure: number;  // Pa
+}
+
+export interface DuctNetworkInput {
+  system: DuctCalculationInput['serviceType'];
+  sections: DuctSection[];
+  material?: DuctCalculationInput['material'];
+  airDensity?: number;     // kg/m³, default 1.204 (20 °C, sea level)
+  /** Added to the terminal airflow total (fraction, e.g. 0.05) */
+  leakage?: number;
+  maxTrunkVelocity?: number;     // m/s, default 10
+  maxTerminalVelocity?: number;  // m/s, default 6
+  fanEfficiency?: number;  // total efficiency, default 0.65
+  /** Manufacturer's static pressure curve, for the operating point */
+  fanCurve?: FanCurvePoint[];
+}
+
+// =============================================================================
+// RESULTS
+// =============================================================================
+
+export interface DuctSectionResult {
+  id: string;
+  airflow: number;         // L/s
+  velocity: number;        // m/s
+  velocityPressure: number;// Pa
+  frictionRate: number;    // Pa/m
+  frictionLoss: number;    // Pa
+  fittingLoss: number;     // Pa
+  equipmentLoss: number;   // Pa
+  terminalLoss: number;    // Pa
+  totalLoss: number;       // Pa
+}
+
+export interface DuctDamperSetting {
+  section: string;
+  /** Loss coefficient the damper must add over fully open */
+  lossCoefficient: number;
+  /** Opposed-blade angle from fully open (degrees) */
+  bladeAngle: number;
+}
+
+export interface DuctPathResult {
+  terminal: string;
+  /** Fan to terminal */
+  sections: string[];
+  pressureLoss: number;    // Pa
+  /** Pressure to be taken up by balancing (Pa) */
+  excessPressure: number;
+  damper?: DuctDamperSetting;
+}
+
+export interface DuctNetworkResult {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+  sections: DuctSectionResult[];
+  paths: DuctPathResult[];
+  criticalPath?: DuctPathResult;
+  fan: {
+    airflow: number;           // L/s
+    airflowCfm: number;
+    totalPressure: number;     // Pa
+    staticPressure: number;    // Pa
+    staticPressureInWg: number;
+    airPower: number;          // kW
+    shaftPower: number;        // kW
+    motorSize: number;         // kW
+    /** Where the fan curve meets the system curve */
+    operatingPoint?: FanCurvePoint;
+  };
+}
+
+// =============================================================================
+// CALCULATION
+// =============================================================================
+
+const AIR_VISCOSITY = 1.81e-5;   // Pa·s at 20 °C
+const LPS_TO_CFM = 2.11888;
+const PA_TO_IN_WG = 1 / 249.089;
+
+/** Absolute roughness (mm), ASHRAE Fundamentals Ch. 21 */
+const ductRoughness: Record<DuctCalculationInput['material'], number> = {
+  'galvanized-steel': 0.09,
+  'stainless-steel': 0.05,
+  'aluminum': 0.05,
+};
+
+/**
+ * Opposed-blade damper loss coefficient by blade angle (ASHRAE CR9-4,
+ * representative values). 0° is fully open.
+ */
+const damperCurve: Array<[number, number]> = [
+  [0, 0.52], [10, 0.92], [20, 2.1], [30, 5.0], [40, 11], [50, 28], [60, 77], [70, 225],
+];
+
+function damperAngle(coefficient: number): number | undefined {
+  if (coefficient <= damperCurve[0][1]) return 0;
+  for (let i = 1; i < damperCurve.length; i++) {
+    const [a0, c0] = damperCurve[i - 1];
+    const [a1, c1] = damperCurve[i];
+    if (coefficient <= c1) {
+      // Coefficient rises roughly exponentially with angle
+      return a0 + (a1 - a0) * Math.log(coefficient / c0) / Math.log(c1 / c0);
+    }
+  }
+  return undefined;
+}
+
+function sectionArea(section: DuctSection): { area: number; hydraulicDiameter: number } | undefined {
+  if (section.shape === 'round') {
+    if (!section.diameter) return undefined;
+    return { area: Math.PI * section.diameter * section.diameter / 4, hydraulicDiameter: section.diameter };
+  }
+  if (!section.width || !section.height) return undefined;
+  const area = section.width * section.height;
+  return { area, hydraulicDiameter: 4 * area / (2 * (section.width + section.height)) };
+}
+
+function emptyFan(): DuctNetworkResult['fan'] {
+  return {
+    airflow: 0,
+    airflowCfm: 0,
+    totalPressure: 0,
+    staticPressure: 0,
+    staticPressureInWg: 0,
+    airPower: 0,
+    shaftPower: 0,
+    motorSize: 0,
+  };
+}
+
+/**
+ * Static pressure through a branched duct system, branch balancing and
+ * the fan duty
+ */
+export function analyzeDuctNetwork(input: DuctNetworkInput): DuctNetworkResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const density = input.airDensity ?? 1.204;
+  const roughness = ductRoughness[input.material ?? 'galvanized-steel'] ?? 0.09;
+  const maxTrunkVelocity = input.maxTrunkVelocity ?? 10;
+  const maxTerminalVelocity = input.maxTerminalVelocity ?? 6;
+
+  // Topology
+  const byId = new Map<string, DuctSection>();
+  for (const section of input.sections) {
+    if (byId.has(section.id)) errors.push(`Duplicate duct section ${section.id}`);
+    byId.set(section.id, section);
+    if (!sectionArea(section)) {
+      errors.push(section.shape === 'round'
+        ? `Section ${section.id}: diameter required for round duct`
+        : `Section ${section.id}: width and height required for rectangular duct`);
+    }
+  }
+  const roots = input.sections.filter(s => !s.parent);
+  if (roots.length !== 1) {
+    errors.push(`A duct network needs exactly one section at the fan; found ${roots.length}`);
+  }
+  const children = new Map<string, DuctSection[]>();
+  for (const section of input.sections) {
+    if (!section.parent) continue;
+    if (!byId.has(section.parent)) {
+      errors.push(`Section ${section.id} references unknown section ${section.parent}`);
+      continue;
+    }
+    children.set(section.parent, [...(children.get(section.parent) ?? []), section]);
+  }
+
+  // Fan-to-section paths; a loop never reaches the fan
+  const pathTo = new Map<string, string[]>();
+  for (const section of input.sections) {
+    const path: string[] = [];
+    let current: DuctSection | undefined = section;
+    while (current && !path.includes(current.id)) {
+      path.unshift(current.id);
+      current = current.parent ? byId.get(current.parent) : undefined;
+    }
+    if (current) {
+      errors.push(`Section ${section.id} is part of a loop`);
+      continue;
+    }
+    pathTo.set(section.id, path);
+  }
+  if (errors.length > 0) {
+    return { valid: false, errors, warnings, sections: [], paths: [], fan: emptyFan() };
+  }
+
+  // Airflow is the sum of the terminals downstream
+  const airflow = new Map<string, number>();
+  const flowOf = (section: DuctSection): number => {
+    const known = airflow.get(section.id);
+    if (known !== undefined) return known;
+    const flow = (section.terminal?.airflow ?? 0) +
+      (children.get(section.id) ?? []).reduce((sum, child) => sum + flowOf(child), 0);
+    airflow.set(section.id, flow);
+    return flow;
+  };
+
+  // Section losses
+  const sections = input.sections.map((section): DuctSectionResult => {
+    const { area, hydraulicDiameter } = sectionArea(section)!;
+    const flow = flowOf(section);
+    const velocity = (flow / 1000) / (area / 1e6);
+    const velocityPressure = density * velocity * velocity / 2;
+    const reynolds = density * velocity * (hydraulicDiameter / 1000) / AIR_VISCOSITY;
+    const friction = darcyFrictionFactor(reynolds, roughness / hydraulicDiameter);
+    const frictionRate = friction / (hydraulicDiameter / 1000) * velocityPressure;
+    const frictionLoss = frictionRate * section.length / 1000;
+    const fittingLoss = (section.fittings ?? []).reduce((sum, fitting) =>
+      sum + (fitting.count ?? 1) * (fitting.coefficient ?? ductFittingCoefficients[fitting.type]) * velocityPressure, 0);
+    const equipmentLoss = (section.equipment ?? []).reduce((sum, e) => sum + e.pressureDrop, 0);
+    const terminalLoss = section.terminal
+      ? section.terminal.pressureDrop ?? (section.terminal.type === 'diffuser' ? 25 : 15)
+      : 0;
+
+    if (flow === 0) {
+      warnings.push(`Section ${section.id} serves no terminals`);
+    }
+    const isTerminal = !children.has(section.id);
+    const limit = isTerminal ? maxTerminalVelocity : maxTrunkVelocity;
+    if (velocity > limit) {
+      warnings.push(`Section ${section.id}: velocity ${velocity.toFixed(1)} m/s exceeds ${limit} m/s`);
+    }
+    if (section.shape === 'rectangular') {
+      const aspect = Math.max(section.width!, section.height!) / Math.min(section.width!, section.height!);
+      if (aspect > 4) warnings.push(`Section ${section.id}: aspect ratio ${aspect.toFixed(1)}:1 exceeds 4:1`);
+    }
+
+    return {
+      id: section.id,
+      airflow: Math.round(flow * 10) / 10,
+      velocity: Math.round(velocity * 100) / 100,
+      velocityPressure: Math.round(velocityPressure * 10) / 10,
+      frictionRate: Math.round(frictionRate * 100) / 100,
+      frictionLoss: Math.round(frictionLoss * 10) / 10,
+      fittingLoss: Math.round(fittingLoss * 10) / 10,
+      equipmentLoss,
+      terminalLoss,
+      totalLoss: Math.round((frictionLoss + fittingLoss + equipmentLoss + terminalLoss) * 10) / 10,
+    };
+  });
+  const resultOf = new Map(sections.map(s => [s.id, s]));
+
+  // Paths to each terminal; the largest loss is the critical path
+  const paths = input.sections
+    .filter(section => section.terminal)
+    .map((section): DuctPathResult => {
+      const ids = pathTo.get(section.id)!;
+      return {
+        terminal: section.terminal!.id,
+        sections: ids,
+        pressureLoss: Math.round(ids.reduce((sum, id) => sum + resultOf.get(id)!.totalLoss, 0) * 10) / 10,
+        excessPressure: 0,
+      };
+    });
+  if (paths.length === 0) {
+    errors.push('Duct network has no terminals');
+    return { valid: false, errors, warnings, sections, paths, fan: emptyFan() };
+  }
+  const criticalPath = paths.reduce((worst, path) => path.pressureLoss > worst.pressureLoss ? path : worst);
+
+  // Balance every other path with a damper in its terminal section
+  for (const path of paths) {
+    path.excessPressure = Math.round((criticalPath.pressureLoss - path.pressureLoss) * 10) / 10;
+    if (path.excessPressure < 1) continue;
+    const section = resultOf.get(path.sections[path.sections.length - 1])!;
+    const lossCoefficient = path.excessPressure / section.velocityPressure;
+    const angle = damperAngle(damperCurve[0][1] + lossCoefficient);
+    if (angle === undefined) {
+      warnings.push(`Terminal ${path.terminal}: ${path.excessPressure} Pa excess is beyond a damper; reduce the branch size or add an orifice`);
+    }
+    path.damper = {
+      section: section.id,
+      lossCoefficient: Math.round(lossCoefficient * 100) / 100,
+      bladeAngle: Math.round(angle ?? damperCurve[damperCurve.length - 1][0]),
+    };
+  }
+
+  // Fan duty
+  const root = resultOf.get(roots[0].id)!;
+  const fanAirflow = root.airflow * (1 + (input.leakage ?? 0));
+  // Leakage taken as flowing the whole critical path, which is conservative
+  const totalPressure = criticalPath.pressureLoss * Math.pow(1 + (input.leakage ?? 0), 2);
+  // Supply fans discharge into the network; return and exhaust fans draw from it
+  const staticPressure = input.system === 'supply' ? totalPressure - root.velocityPressure : totalPressure;
+  const airPower = (fanAirflow / 1000) * totalPressure / 1000;
+  const shaftPower = airPower / (input.fanEfficiency ?? 0.65);
+  const motorSize = standardMotorSizes.find(size => size >= shaftPower * 1.15) ??
+    standardMotorSizes[standardMotorSizes.length - 1];
+
+  let operatingPoint: FanCurvePoint | undefined;
+  if (input.fanCurve && input.fanCurve.length >= 2) {
+    operatingPoint = fanOperatingPoint(input.fanCurve, fanAirflow, staticPressure);
+    if (!operatingPoint) {
+      warnings.push('Fan curve does not meet the system curve');
+    } else if (operatingPoint.airflow < fanAirflow * 0.95) {
+      warnings.push(`Fan delivers ${Math.round(operatingPoint.airflow)} L/s against ${Math.round(fanAirflow)} L/s required; select a larger fan or higher speed`);
+    } else if (operatingPoint.airflow > fanAirflow * 1.1) {
+      warnings.push(`Fan delivers ${Math.round(operatingPoint.airflow)} L/s against ${Math.round(fanAirflow)} L/s required; reduce the fan speed`);
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+    sections,
+    paths,
+    criticalPath,
+    fan: {
+      airflow: Math.round(fanAirflow),
+      airflowCfm: Math.round(fanAirflow * LPS_TO_CFM),
+      totalPressure: Math.round(totalPressure),
+      staticPressure: Math.round(staticPressure),
+      staticPressureInWg: Math.round(staticPressure * PA_TO_IN_WG * 100) / 100,
+      airPower: Math.round(airPower * 1000) / 1000,
+      shaftPower: Math.round(shaftPower * 1000) / 1000,
+      motorSize,
+      operatingPoint,
+    },
+  };
+}
+
+/**
+ * Intersect a fan static pressure curve with the system curve
+ * ΔP = k·Q², k fixed by the design duty
+ */
+function fanOperatingPoint(curve: FanCurvePoint[], airflow: number, pressure: number): FanCurvePoint | undefined {
+  const k = pressure / (airflow * airflow);
+  const points = [...curve].sort((a, b) => a.airflow - b.airflow);
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    const ga = a.staticPressure - k * a.airflow * a.airflow;
+    const gb = b.staticPressure - k * b.airflow * b.airflow;
+    if (ga >= 0 && gb <= 0) {
+      // Bisect along the linear curve segment
+      let lo = 0;
+      let hi = 1;
+      for (let n = 0; n < 50; n++) {
+        const t = (lo + hi) / 2;
+        const q = a.airflow + (b.airflow - a.airflow) * t;
+        const p = a.staticPressure + (b.staticPressure - a.staticPressure) * t;
+        if (p - k * q * q > 0) lo = t;
+        else hi = t;
+      }
+      const q = a.airflow + (b.airflow - a.airflow) * lo;
+      return { airflow: Math.round(q), staticPressure: Math.round(k * q * q) };
+    }
+  }
+  return undefined;
+}
@@ -144,6 +144,15 @@ const ductParameters: ParameterDefinition[] = [
   },
 
   // Insulation
+  {
+    id: 'location',
+    name: 'Location',
+    type: 'select',
+    options: ['conditioned', 'unconditioned', 'outdoor'],
+    default: 'conditioned',
+    required: false,
+    description: 'Space the duct runs through',
+  },
   {
     id: 'insulation_type',
     name: 'Insulation Type',
@@ -239,11 +248,12 @@ const ductRules: Rule[] = [
   {
     id: 'supply_insulation',
     name: 'Supply Duct Insulation',
-    description: 'Supply ducts typically require insulation',
+    description: 'Supply ducts outside conditioned space require insulation',
     type: 'recommendation',
+    source: 'IECC C403.11.1',
     expression: {
       type: 'conditional',
-      condition: 'service_type == "supply"',
+      condition: 'service_type == "supply" && location != "conditioned"',
       then: { type: 'required-if', param: 'insulation_type', condition: 'insulation_type != "none"' },
     },
     errorMessage: 'Consider insulation for supply duct',
@@ -258,7 +268,7 @@ const ductRules: Rule[] = [
     source: 'SMACNA',
     expression: {
       type: 'conditional',
-      condition: 'pressure_class >= "4\""',
+      condition: 'pressure_class >= "4\\""',
       then: { type: 'required-if', param: 'connection_type', condition: 'connection_type == "flange" || connection_type == "welded"' },
     },
     errorMessage: 'High pressure requires flanged or welded connections',
@@ -500,6 +510,18 @@ export function sizeDuct(input: DuctSizingInput): DuctSizingResult {
 // DUCT CALCULATOR
 // =============================================================================
 
+/**
+ * Galvanized sheet thickness by gauge (mm)
+ */
+export const ductGaugeThickness: Record<string, number> = {
+  '26': 0.5,
+  '24': 0.6,
+  '22': 0.8,
+  '20': 0.9,
+  '18': 1.2,
+  '16': 1.5,
+};
+
 export interface DuctCalculationInput {
   ductType: 'rectangular' | 'round';
   width?: number;          // mm (rectangular)
@@ -590,15 +612,7 @@ export function calculateDuct(input: DuctCalculationInput): DuctCalculationResul
   const sectionLength = input.length / numSections;
 
   // Material thickness by gauge (mm)
-  const gaugeThickness: Record<string, number> = {
-    '26': 0.5,
-    '24': 0.6,
-    '22': 0.8,
-    '20': 0.9,
-    '18': 1.2,
-    '16': 1.5,
-  };
-  const thickness = gaugeThickness[input.gauge] || 0.6;
+  const thickness = ductGaugeThickness[input.gauge] || 0.6;
 
   // Sheet area (unfolded perimeter × length)
   const sheetArea = (perimeter / 1000) * (input.length / 1000);  // m²
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { calculatePipeFlexibility, thermalExpansionRate, type PipeFlexibilityInput } from './flexibility';
+
+type Route = PipeFlexibilityInput['route'];
+
+/** Orthogonal route through the given points (mm), 6" pipe */
+function route(...points: Array<[number, number, number]>): Route {
+  const routeSegments = points.slice(1).map((end, i) => {
+    const start = points[i];
+    const axis = [0, 1, 2].find(k => end[k] !== start[k])!;
+    return {
+      start: { x: start[0], y: start[1], z: start[2] },
+      end: { x: end[0], y: end[1], z: end[2] },
+      length: Math.abs(end[axis] - start[axis]),
+      direction: (['X', 'Y', 'Z'] as const)[axis],
+    };
+  });
+  return { od: 168.3, supportSpacing: 5000, routeSegments };
+}
+
+const E = 203000;
+const SA = 207;
+
+describe('thermalExpansionRate', () => {
+  it('interpolates the expansion table relative to the install temperature', () => {
+    expect(thermalExpansionRate('carbon-steel', 200)).toBeCloseTo(2.33, 9);
+    expect(thermalExpansionRate('carbon-steel', 150)).toBeCloseTo((0.99 + 2.33) / 2, 9);
+    expect(thermalExpansionRate('stainless-316', 200, 100)).toBeCloseTo(3.08 - 1.33, 9);
+    expect(thermalExpansionRate('pvc', 0)).toBeCloseTo(-1.08, 9);
+  });
+
+  it('keeps growing up to each material limit', () => {
+    for (const [material, limit] of [['carbon-steel', 425], ['stainless-304', 540], ['stainless-316', 540], ['pvc', 60]] as const) {
+      let previous = -Infinity;
+      for (let t = -60; t <= limit; t += 10) {
+        const rate = thermalExpansionRate(material, t);
+        expect(rate, `${material} at ${t}°C`).toBeGreaterThan(previous);
+        previous = rate;
+      }
+    }
+    // Past the last row the last segment is extended, not the first
+    expect(thermalExpansionRate('stainless-316', 540)).toBeCloseTo(8.53 + 0.4 * (8.53 - 6.67), 9);
+  });
+});
+
+describe('calculatePipeFlexibility', () => {
+  it('shares anchor-to-anchor growth between the legs of an L-bend', () => {
+    const result = calculatePipeFlexibility({
+      route: route([0, 0, 0], [20000, 0, 0], [20000, 6000, 0]),
+      material: 'carbon-steel',
+      designTemperature: 200,
+    });
+    const [long, short] = result.segments;
+
+    expect(result.temperatureChange).toBe(180);
+    expect(result.expansionRate).toBe(2.33);
+    expect(long.expansion).toBeCloseTo(46.6, 1);
+
+    // X growth is taken by the Y leg in bending and vice versa
+    expect(short.deflection).toBeCloseTo(46.6, 1);
+    expect(long.deflection).toBeCloseTo(14, 1);
+
+    // Guided cantilever: σ = 3·E·D·Δ/L², L = √(3·E·D·Δ/SA)
+    expect(short.stress).toBeCloseTo(3 * E * 168.3 * 46.6 / 6000 ** 2, 0);
+    expect(short.requiredLength).toBeCloseTo(Math.sqrt(3 * E * 168.3 * 46.6 / SA), -1);
+    expect(short.ok).toBe(true);
+  });
+
+  it('flags a leg too short for the growth it takes', () => {
+    const result = calculatePipeFlexibility({
+      route: route([0, 0, 0], [30000, 0, 0], [30000, 2000, 0]),
+      material: 'carbon-steel',
+      designTemperature: 250,
+    });
+
+    expect(result.segments[1].ok).toBe(false);
+    expect(result.segments[1].stress).toBeGreaterThan(SA);
+    expect(result.spans[0].ok).toBe(false);
+    expect(result.warnings.some(w => w.startsWith('Leg 2 (2000mm) needs'))).toBe(true);
+  });
+
+  it('puts a loop with guides into a straight anchored run', () => {
+    const result = calculatePipeFlexibility({
+      route: route([0, 0, 0], [30000, 0, 0]),
+      material: 'carbon-steel',
+      designTemperature: 200,
+      maxLoopHeight: 6000,
+    });
+
+    // A straight run between anchors has no flexibility at all
+    expect(result.spans[0].screeningRatio).toBe(999);
+    const [loop] = result.devices;
+    expect(loop.type).toBe('loop');
+    expect(loop.position).toEqual({ x: 15000, y: 0, z: 0 });
+    expect(loop.movement).toBeCloseTo(69.9, 1);
+    expect(loop.loopHeight! % 50).toBe(0);
+    expect(loop.loopHeight!).toBeGreaterThanOrEqual(Math.sqrt(3 * E * 168.3 * loop.movement / 2 / SA));
+
+    // Guides at 4D and 14D either side of the loop, anchors at the ends
+    const guides = result.supports.filter(s => s.supportType === 'guide').map(s => s.distance);
+    expect(guides.map(d => Math.round(Math.abs(d - 15000)))).toEqual([2356, 673, 673, 2356]);
+    const anchors = result.supports.filter(s => s.supportType === 'anchor');
+    expect(anchors.map(a => [a.distance, a.thermalMovement])).toEqual([[0, 0], [30000, 0]]);
+  });
+
+  it('falls back to bellows when the loop would be too tall', () => {
+    const result = calculatePipeFlexibility({
+      route: route([0, 0, 0], [30000, 0, 0]),
+      material: 'carbon-steel',
+      designTemperature: 200,
+      maxLoopHeight: 1000,
+    });
+    expect(result.devices[0].type).toBe('bellows');
+  });
+
+  it('rejects temperatures above the material limit and empty routes', () => {
+    const hot = calculatePipeFlexibility({ route: route([0, 0, 0], [5000, 0, 0]), material: 'pvc', designTemperature: 80 });
+    expect(hot.valid).toBe(false);
+    expect(hot.errors[0]).toContain('exceeds the 60°C limit');
+
+    const empty = calculatePipeFlexibility({ route: route([0, 0, 0]), material: 'carbon-steel', designTemperature: 150 });
+    expect(empty.errors).toEqual(['Route has no segments']);
+  });
+});
@@ -0,0 +1,386 @@
+/**
+ * FLOW Domain - Piping Flexibility
+ *
+ * Thermal expansion checks for hot piping (steam, hot oil, hot water):
+ * - Expansion per segment from mean coefficients (ASME B31.3 Table C-1)
+ * - Guided-cantilever check of every leg that absorbs growth
+ * - ASME B31.3 319.4.1 simplified check between anchors
+ * - Expansion loop or bellows where the route cannot absorb the growth
+ * - Anchor, guide and hanger placements for `pipeSupportElement`
+ *
+ * Units: mm, °C, MPa.
+ */
+
+import type { PipeCalculationInput, PipeCalculationResult } from './pipes';
+
+// =============================================================================
+// MATERIAL DATA
+// =============================================================================
+
+interface ExpansionData {
+  /** Total expansion from 20 °C (mm/m) by temperature (°C) */
+  expansion: Array<[number, number]>;
+  elasticModulus: number;      // MPa, at installation temperature
+  /** Allowable displacement stress range SA (MPa) */
+  allowableStressRange: number;
+  maxTemperature: number;      // °C
+}
+
+const expansionData: Record<PipeCalculationInput['material'], ExpansionData> = {
+  'carbon-steel': {
+    expansion: [[-50, -0.80], [20, 0], [100, 0.99], [200, 2.33], [300, 3.76], [400, 5.29], [500, 6.88]],
+    elasticModulus: 203000,
+    allowableStressRange: 207,
+    maxTemperature: 425,
+  },
+  'stainless-304': {
+    expansion: [[-50, -1.05], [20, 0], [100, 1.33], [200, 3.08], [300, 4.85], [400, 6.67], [500, 8.53]],
+    elasticModulus: 195000,
+    allowableStressRange: 207,
+    maxTemperature: 540,
+  },
+  'stainless-316': {
+    expansion: [[-50, -1.05], [20, 0], [100, 1.33], [200, 3.08], [300, 4.85], [400, 6.67], [500, 8.53]],
+    elasticModulus: 195000,
+    allowableStressRange: 207,
+    maxTemperature: 540,
+  },
+  'pvc': {
+    expansion: [[0, -1.08], [20, 0], [60, 2.16]],
+    elasticModulus: 2900,
+    allowableStressRange: 10,
+    maxTemperature: 60,
+  },
+};
+
+/**
+ * Thermal growth between two temperatures (mm per m of pipe)
+ */
+export function thermalExpansionRate(
+  material: PipeCalculationInput['material'],
+  temperature: number,
+  installTemperature: number = 20
+): number {
+  const table = (expansionData[material] ?? expansionData['carbon-steel']).expansion;
+  // Interpolate within the table; beyond either end, extend its end segment
+  const at = (t: number): number => {
+    const above = table.findIndex(([temp]) => temp >= t);
+    const i = above < 0 ? table.length - 1 : Math.max(above, 1);
+    const [t0, e0] = table[i - 1];
+    const [t1, e1] = table[i];
+    return e0 + (e1 - e0) * (t - t0) / (t1 - t0);
+  };
+  return at(temperature) - at(installTemperature);
+}
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface PipeFlexibilityInput {
+  route: Pick<PipeCalculationResult, 'routeSegments' | 'od' | 'supportSpacing'>;
+  material: PipeCalculationInput['material'];
+  designTemperature: number;   // °C
+  installTemperature?: number; // °C, default 20
+  /** Route points (0 = start) fixed by anchors; default both ends */
+  anchors?: number[];
+  /** Override SA (MPa) */
+  allowableStressRange?: number;
+  /** Tallest loop that fits before bellows are preferred (mm, default 3000) */
+  maxLoopHeight?: number;
+}
+
+export interface FlexibilitySegmentResult {
+  segment: number;
+  direction: 'X' | 'Y' | 'Z';
+  length: number;              // mm
+  expansion: number;           // mm along the leg
+  /** Transverse movement the leg takes up in bending (mm) */
+  deflection: number;
+  /** Guided-cantilever length needed for that movement (mm) */
+  requiredLength: number;
+  stress: number;              // MPa
+  ok: boolean;
+}
+
+export interface FlexibilitySpanResult {
+  fromPoint: number;
+  toPoint: number;
+  developedLength: number;     // m
+  anchorDistance: number;      // m
+  displacement: number;        // mm, between the anchors
+  /** B31.3 319.4.1 D·Y/(L−U)² over its limit 208000·SA/E (mm, m) */
+  screeningRatio: number;
+  ok: boolean;
+}
+
+export interface ExpansionDevice {
+  type: 'loop' | 'bellows';
+  segment: number;
+  position: { x: number; y: number; z: number };
+  movement: number;            // mm, axial
+  loopHeight?: number;         // mm, perpendicular legs
+  loopWidth?: number;          // mm
+}
+
+export type FlexibilitySupportType = 'anchor' | 'guide' | 'clevis-hanger' | 'pipe-shoe' | 'spring-hanger' | 'riser-clamp';
+
+/** A `pipeSupportElement` placement: support_type and thermal_movement */
+export interface FlexibilitySupport {
+  supportType: FlexibilitySupportType;
+  position: { x: number; y: number; z: number };
+  segment: number;
+  /** Distance along the route from the start (mm) */
+  distance: number;
+  thermalMovement: number;     // mm
+}
+
+export interface PipeFlexibilityResult {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+  temperatureChange: number;   // °C
+  expansionRate: number;       // mm/m
+  totalExpansion: number;      // mm, whole route
+  segments: FlexibilitySegmentResult[];
+  spans: FlexibilitySpanResult[];
+  devices: ExpansionDevice[];
+  supports: FlexibilitySupport[];
+}
+
+// =============================================================================
+// CALCULATION
+// =============================================================================
+
+type Point = { x: number; y: number; z: number };
+const AXIS_KEYS = { X: 'x', Y: 'y', Z: 'z' } as const;
+
+function lerp(a: Point, b: Point, f: number): Point {
+  return { x: a.x + (b.x - a.x) * f, y: a.y + (b.y - a.y) * f, z: a.z + (b.z - a.z) * f };
+}
+
+function distanceBetween(a: Point, b: Point): number {
+  return Math.hypot(b.x - a.x, b.y - a.y, b.z - a.z);
+}
+
+/**
+ * Guided cantilever: length needed to take a transverse movement
+ * at the allowable stress range, L = √(3·E·D·Δ / SA)
+ */
+function guidedCantileverLength(E: number, od: number, deflection: number, SA: number): number {
+  return Math.sqrt(3 * E * od * deflection / SA);
+}
+
+/**
+ * Check thermal growth along a pipe route and place anchors, guides
+ * and expansion devices
+ */
+export function calculatePipeFlexibility(input: PipeFlexibilityInput): PipeFlexibilityResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const data = expansionData[input.material] ?? expansionData['carbon-steel'];
+  const installTemperature = input.installTemperature ?? 20;
+  const temperatureChange = input.designTemperature - installTemperature;
+  const rate = thermalExpansionRate(input.material, input.designTemperature, installTemperature);
+  const E = data.elasticModulus;
+  const SA = input.allowableStressRange ?? data.allowableStressRange;
+  const od = input.route.od;
+  const maxLoopHeight = input.maxLoopHeight ?? 3000;
+  const segments = input.route.routeSegments;
+
+  if (input.designTemperature > data.maxTemperature) {
+    errors.push(`${input.designTemperature}°C exceeds the ${data.maxTemperature}°C limit for ${input.material}`);
+  }
+  if (segments.length === 0) {
+    errors.push('Route has no segments');
+    return {
+      valid: false, errors, warnings, temperatureChange, expansionRate: rate, totalExpansion: 0,
+      segments: [], spans: [], devices: [], supports: [],
+    };
+  }
+
+  const points = [segments[0].start, ...segments.map(s => s.end)];
+  const anchors = [...new Set(input.anchors ?? [0, points.length - 1])]
+    .filter(i => i >= 0 && i < points.length)
+    .sort((a, b) => a - b);
+  if (anchors.length < 2) {
+    warnings.push('Fewer than two anchors; the route grows freely and only guides are placed');
+  }
+
+  // Guided-cantilever check span by span: the growth between anchors along
+  // each axis is shared by the legs across that axis in proportion to L³
+  const segmentResults: FlexibilitySegmentResult[] = segments.map((s, i) => ({
+    segment: i,
+    direction: s.direction,
+    length: Math.round(s.length),
+    expansion: Math.round(s.length / 1000 * Math.abs(rate) * 10) / 10,
+    deflection: 0,
+    requiredLength: 0,
+    stress: 0,
+    ok: true,
+  }));
+  const spans: FlexibilitySpanResult[] = [];
+  const devices: ExpansionDevice[] = [];
+
+  for (let a = 0; a + 1 < anchors.length; a++) {
+    const from = anchors[a];
+    const to = anchors[a + 1];
+    const legs = segments.slice(from, to).map((s, k) => ({ segment: s, index: from + k }));
+    const growth = {
+      x: (points[to].x - points[from].x) * rate / 1000,
+      y: (points[to].y - points[from].y) * rate / 1000,
+      z: (points[to].z - points[from].z) * rate / 1000,
+    };
+
+    const transverse = new Map<number, Point>();
+    for (const axis of ['X', 'Y', 'Z'] as const) {
+      const movement = Math.abs(growth[AXIS_KEYS[axis]]);
+      if (movement < 1e-6) continue;
+      const absorbing = legs.filter(l => l.segment.direction !== axis);
+      const flexibility = absorbing.reduce((sum, l) => sum + Math.pow(l.segment.length, 3), 0);
+      if (flexibility === 0) continue;
+      for (const l of absorbing) {
+        const share = movement * Math.pow(l.segment.length, 3) / flexibility;
+        const current = transverse.get(l.index) ?? { x: 0, y: 0, z: 0 };
+        current[AXIS_KEYS[axis]] += share;
+        transverse.set(l.index, current);
+      }
+    }
+
+    for (const l of legs) {
+      const t = transverse.get(l.index);
+      if (!t) continue;
+      const deflection = Math.hypot(t.x, t.y, t.z);
+      const result = segmentResults[l.index];
+      result.deflection = Math.round(deflection * 10) / 10;
+      result.requiredLength = Math.round(guidedCantileverLength(E, od, deflection, SA));
+      result.stress = Math.round(3 * E * od * deflection / (l.segment.length * l.segment.length) * 10) / 10;
+      result.ok = result.stress <= SA;
+      if (!result.ok) {
+        warnings.push(`Leg ${l.index + 1} (${result.length}mm) needs ${result.requiredLength}mm to take ${result.deflection}mm of growth`);
+      }
+    }
+
+    // B31.3 319.4.1 screening
+    const developedLength = legs.reduce((sum, l) => sum + l.segment.length, 0) / 1000;
+    const anchorDistance = distanceBetween(points[from], points[to]) / 1000;
+    const displacement = Math.hypot(growth.x, growth.y, growth.z);
+    const slack = developedLength - anchorDistance;
+    const screening = slack > 1e-6 ? (od * displacement / (slack * slack)) / (208000 * SA / E) : Infinity;
+    const spanOk = screening <= 1 && legs.every(l => segmentResults[l.index].ok);
+    spans.push({
+      fromPoint: from,
+      toPoint: to,
+      developedLength: Math.round(developedLength * 1000) / 1000,
+      anchorDistance: Math.round(anchorDistance * 1000) / 1000,
+      displacement: Math.round(displacement * 10) / 10,
+      screeningRatio: Number.isFinite(screening) ? Math.round(screening * 1000) / 1000 : 999,
+      ok: spanOk,
+    });
+
+    if (!spanOk && displacement > 0.5) {
+      // Put the device in the longest leg along the main growth
+      const longest = legs.reduce((best, l) => (l.segment.length > best.segment.length ? l : best));
+      const movement = longest.segment.length / 1000 * Math.abs(rate);
+      // U-loop: each of the two loop legs is a guided cantilever taking half the movement
+      const loopHeight = Math.ceil(guidedCantileverLength(E, od, movement / 2, SA) / 50) * 50;
+      const position = lerp(longest.segment.start, longest.segment.end, 0.5);
+      if (loopHeight <= maxLoopHeight && input.material !== 'pvc') {
+        devices.push({
+          type: 'loop',
+          segment: longest.index,
+          position,
+          movement: Math.round(movement * 10) / 10,
+          loopHeight,
+          loopWidth: Math.ceil(loopHeight / 2 / 50) * 50,
+        });
+        warnings.push(`Add a ${loopHeight}mm expansion loop in leg ${longest.index + 1}`);
+      } else {
+        devices.push({ type: 'bellows', segment: longest.index, position, movement: Math.round(movement * 10) / 10 });
+        warnings.push(`Add an axial expansion joint for ${movement.toFixed(1)}mm in leg ${longest.index + 1}, with main anchors either side`);
+      }
+    }
+  }
+
+  const supports = placeFlexibilitySupports(input, points, anchors, devices, rate);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+    temperatureChange,
+    expansionRate: Math.round(rate * 1000) / 1000,
+    totalExpansion: Math.round(segments.reduce((sum, s) => sum + s.length, 0) / 1000 * Math.abs(rate) * 10) / 10,
+    segments: segmentResults,
+    spans,
+    devices,
+    supports,
+  };
+}
+
+/**
+ * Anchors at the anchor points, guides either side of each expansion
+ * device (4D and 14D, per EJMA), and hangers between at the route's
+ * support spacing. Movement at each support is its free growth from the
+ * nearest anchor; large movements call for shoes or spring hangers.
+ */
+function placeFlexibilitySupports(
+  input: PipeFlexibilityInput,
+  points: Point[],
+  anchors: number[],
+  devices: ExpansionDevice[],
+  rate: number
+): FlexibilitySupport[] {
+  const segments = input.route.routeSegments;
+  const od = input.route.od;
+  const spacing = input.route.supportSpacing > 0 ? input.route.supportSpacing : 3000;
+  const supports: FlexibilitySupport[] = [];
+
+  const starts: number[] = [];
+  segments.reduce((sum, s) => (starts.push(sum), sum + s.length), 0);
+  const anchorPoints = anchors.map(i => points[i]);
+  const movementAt = (p: Point): number => {
+    if (anchorPoints.length === 0) return 0;
+    const nearest = anchorPoints.reduce((best, a) => (distanceBetween(a, p) < distanceBetween(best, p) ? a : best));
+    return Math.round(distanceBetween(nearest, p) / 1000 * Math.abs(rate) * 10) / 10;
+  };
+  const add = (supportType: FlexibilitySupportType, segment: number, along: number) => {
+    const s = segments[segment];
+    const position = lerp(s.start, s.end, s.length > 0 ? along / s.length : 0);
+    supports.push({ supportType, position, segment, distance: starts[segment] + along, thermalMovement: movementAt(position) });
+  };
+
+  for (const i of anchors) {
+    const segment = Math.min(i, segments.length - 1);
+    add('anchor', segment, i < segments.length ? 0 : segments[segment].length);
+  }
+
+  for (const device of devices) {
+    const s = segments[device.segment];
+    const centre = distanceBetween(s.start, device.position);
+    for (const offset of [4 * od, 14 * od]) {
+      for (const along of [centre - offset, centre + offset]) {
+        if (along > 0 && along < s.length) add('guide', device.segment, along);
+      }
+    }
+  }
+
+  segments.forEach((s, index) => {
+    if (s.direction === 'Z') {
+      const foot = s.end.z < s.start.z ? s.length : 0;
+      const position = lerp(s.start, s.end, s.length > 0 ? foot / s.length : 0);
+      add(movementAt(position) > 6 ? 'spring-hanger' : 'riser-clamp', index, foot);
+      return;
+    }
+    const count = Math.max(1, Math.ceil(s.length / spacing));
+    for (let k = 0; k < count; k++) {
+      const along = (s.length * (k + 0.5)) / count;
+      const taken = supports.some(p => p.segment === index && Math.abs(p.distance - (starts[index] + along)) < spacing / 4);
+      if (taken) continue;
+      const position = lerp(s.start, s.end, along / s.length);
+      add(movementAt(position) > 12 ? 'pipe-shoe' : 'clevis-hanger', index, along);
+    }
+  });
+
+  return supports.sort((a, b) => a.distance - b.distance);
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { calculatePipeHydraulics, darcyFrictionFactor, pipeRoughness, waterProperties } from './hydraulics';
+
+const GRAVITY = 9.81;
+
+describe('darcyFrictionFactor', () => {
+  it('is 64/Re in laminar flow', () => {
+    expect(darcyFrictionFactor(1000, 0.001)).toBeCloseTo(0.064, 10);
+    expect(darcyFrictionFactor(0, 0.001)).toBe(0);
+  });
+
+  it('solves the Colebrook-White equation in turbulent flow', () => {
+    for (const [re, rr] of [[1e4, 0], [1e5, 1e-4], [1e6, 1e-3], [5e7, 0.01]]) {
+      const f = darcyFrictionFactor(re, rr);
+      const colebrook = -2 * Math.log10(rr / 3.7 + 2.51 / (re * Math.sqrt(f)));
+      expect(1 / Math.sqrt(f)).toBeCloseTo(colebrook, 8);
+    }
+  });
+
+  it('matches the Moody chart', () => {
+    // Smooth pipe at Re 1e5 and fully rough at ε/D 0.01
+    expect(darcyFrictionFactor(1e5, 0)).toBeCloseTo(0.018, 3);
+    expect(darcyFrictionFactor(1e8, 0.01)).toBeCloseTo(0.038, 3);
+  });
+});
+
+describe('calculatePipeHydraulics', () => {
+  const base = {
+    flowRate: 20,              // m³/h
+    nominalSize: '2"',
+    schedule: 'SCH40',
+    material: 'carbon-steel' as const,
+    length: 50000,             // mm
+    elevationChange: 10000,    // mm
+  };
+
+  it('derives velocity, Reynolds number and friction from the pipe bore', () => {
+    const result = calculatePipeHydraulics(base);
+    const water = waterProperties(20);
+    const area = Math.PI * (result.internalDiameter / 1000) ** 2 / 4;
+    const velocity = base.flowRate / 3600 / area;
+    const reynolds = water.density * velocity * (result.internalDiameter / 1000) / water.viscosity;
+
+    expect(result.velocity).toBeCloseTo(velocity, 2);
+    expect(result.reynoldsNumber).toBeCloseTo(reynolds, -1);
+    expect(result.flowRegime).toBe('turbulent');
+    expect(result.frictionFactor).toBeCloseTo(
+      darcyFrictionFactor(reynolds, pipeRoughness['carbon-steel'] / result.internalDiameter), 4);
+  });
+
+  it('sums Darcy-Weisbach, fitting and static head into the pump duty', () => {
+    const result = calculatePipeHydraulics({ ...base, fittings: { elbows90: 4 } });
+    const velocity = base.flowRate / 3600 / (Math.PI * (result.internalDiameter / 1000) ** 2 / 4);
+    const straight = result.frictionFactor * (base.length / result.internalDiameter) * velocity ** 2 / (2 * GRAVITY);
+
+    expect(result.straightRunLoss).toBeCloseTo(straight, 2);
+    expect(result.fittingLoss).toBeCloseTo(result.fittingK * result.velocityHead, 2);
+    expect(result.elevationHead).toBe(10);
+    expect(result.totalDynamicHead).toBeCloseTo(result.straightRunLoss + result.fittingLoss + 10, 2);
+
+    const density = waterProperties(20).density;
+    expect(result.pump.hydraulicPower).toBeCloseTo(density * GRAVITY * (20 / 3600) * result.totalDynamicHead / 1000, 2);
+    expect(result.pump.shaftPower).toBeCloseTo(result.pump.hydraulicPower / 0.7, 2);
+    expect(result.pump.motorSize).toBeGreaterThanOrEqual(result.pump.shaftPower * 1.15 / 0.9);
+  });
+
+  it('suggests a larger size when the run exceeds the head loss limit', () => {
+    const result = calculatePipeHydraulics(base);
+    expect(result.headLossPer100m).toBeGreaterThan(4);
+    expect(result.suggestedNominalSize).toBe('3"');
+
+    const upsized = calculatePipeHydraulics({ ...base, nominalSize: '3"' });
+    expect(upsized.headLossPer100m).toBeLessThanOrEqual(4);
+    expect(upsized.suggestedNominalSize).toBeUndefined();
+  });
+
+  it('needs no pump for a gravity run', () => {
+    const result = calculatePipeHydraulics({ ...base, flowRate: 2, elevationChange: -20000 });
+    expect(result.totalDynamicHead).toBeLessThan(0);
+    expect(result.pump.motorSize).toBe(0);
+    expect(result.warnings).toContain('Run flows by gravity; no pump required');
+  });
+
+  it('rejects unknown sizes and non-positive flow', () => {
+    expect(calculatePipeHydraulics({ ...base, nominalSize: '7"' }).errors).toContain('Unknown pipe size: 7"');
+    expect(calculatePipeHydraulics({ ...base, flowRate: 0 }).valid).toBe(false);
+  });
+});
@@ -0,0 +1,346 @@
+/**
+ * FLOW Domain - Pipe Hydraulics
+ *
+ * Pressure drop and pump sizing for liquid piping:
+ * - Reynolds number and Darcy friction factor (Colebrook-White)
+ * - Straight-run and fitting losses (Crane K-factors)
+ * - Elevation and pressure head, total dynamic head
+ * - Pump power and motor size
+ * - Upsizing when velocity or pressure drop limits are exceeded
+ */
+
+import { pipeSizes } from './pipes';
+import type { PipeCalculationInput, PipeCalculationResult } from './pipes';
+
+// =============================================================================
+// FLUIDS
+// =============================================================================
+
+export interface FluidProperties {
+  name: string;
+  density: number;         // kg/m³
+  viscosity: number;       // Pa·s (dynamic)
+}
+
+const GRAVITY = 9.81;
+
+/**
+ * Water at atmospheric pressure, 0-100 °C
+ */
+export function waterProperties(temperature: number = 20): FluidProperties {
+  const t = Math.min(Math.max(temperature, 0), 100);
+  return {
+    name: `water at ${t}°C`,
+    // Thiesen equation
+    density: 1000 * (1 - ((t + 288.9414) / (508929.2 * (t + 68.12963))) * Math.pow(t - 3.9863, 2)),
+    // Vogel equation
+    viscosity: 0.02939e-3 * Math.exp(507.88 / (t + 273.15 - 149.3)),
+  };
+}
+
+/**
+ * Absolute roughness (mm)
+ */
+export const pipeRoughness: Record<PipeCalculationInput['material'], number> = {
+  'carbon-steel': 0.045,
+  'stainless-304': 0.015,
+  'stainless-316': 0.015,
+  'pvc': 0.0015,
+};
+
+// =============================================================================
+// FRICTION
+// =============================================================================
+
+/**
+ * Darcy friction factor. Laminar below Re 2300, Colebrook-White above
+ * (transitional flow taken as turbulent, which is conservative).
+ */
+export function darcyFrictionFactor(reynolds: number, relativeRoughness: number): number {
+  if (reynolds <= 0) return 0;
+  if (reynolds < 2300) return 64 / reynolds;
+
+  // Swamee-Jain as the starting point
+  let f = 0.25 / Math.pow(Math.log10(relativeRoughness / 3.7 + 5.74 / Math.pow(reynolds, 0.9)), 2);
+  for (let i = 0; i < 50; i++) {
+    const next = Math.pow(-2 * Math.log10(relativeRoughness / 3.7 + 2.51 / (reynolds * Math.sqrt(f))), -2);
+    if (Math.abs(next - f) < 1e-10) return next;
+    f = next;
+  }
+  return f;
+}
+
+// =============================================================================
+// FITTINGS
+// =============================================================================
+
+export interface FittingCounts {
+  elbows90: number;
+  elbows45: number;
+  /** Flow through the branch */
+  tees: number;
+  /** Flow through the run */
+  teesRun: number;
+  gateValves: number;
+  ballValves: number;
+  globeValves: number;
+  checkValves: number;
+  /** Square-edged entrance from a tank */
+  entrances: number;
+  /** Discharge into a tank */
+  exits: number;
+}
+
+/**
+ * Crane TP-410 resistance, as multiples of the fully turbulent friction
+ * factor fT; entrances and exits are absolute K values
+ */
+const fittingResistance: Record<keyof FittingCounts, { ft?: number; k?: number }> = {
+  elbows90: { ft: 20 },
+  elbows45: { ft: 16 },
+  tees: { ft: 60 },
+  teesRun: { ft: 20 },
+  gateValves: { ft: 8 },
+  ballValves: { ft: 3 },
+  globeValves: { ft: 340 },
+  checkValves: { ft: 100 },
+  entrances: { k: 0.5 },
+  exits: { k: 1.0 },
+};
+
+// =============================================================================
+// PIPE HYDRAULICS CALCULATOR
+// =============================================================================
+
+export interface PipeHydraulicsInput {
+  flowRate: number;            // m³/h
+  fluid?: FluidProperties;     // default water at 20 °C
+  nominalSize: string;
+  schedule: string;
+  material: PipeCalculationInput['material'];
+  length?: number;             // mm of pipe
+  fittings?: Partial<FittingCounts>;
+  elevationChange?: number;    // mm, discharge minus suction
+  pressureChange?: number;     // kPa, discharge minus suction vessel pressure
+  /** Length, elbows, tees and elevation from a calculated run; added to the fittings above */
+  route?: Pick<PipeCalculationResult, 'totalLength' | 'fittingsCount' | 'routeSegments'>;
+  maxVelocity?: number;        // m/s, default 3.0
+  minVelocity?: number;        // m/s, default 0.6
+  maxHeadLoss?: number;        // m per 100 m of pipe, default 4.0
+  pumpEfficiency?: number;     // default 0.70
+  motorEfficiency?: number;    // default 0.90
+}
+
+export interface PipeHydraulicsResult {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+
+  // Flow
+  internalDiameter: number;    // mm
+  velocity: number;            // m/s
+  velocityHead: number;        // m
+  reynoldsNumber: number;
+  flowRegime: 'laminar' | 'transitional' | 'turbulent';
+  frictionFactor: number;      // Darcy
+
+  // Head losses (m)
+  straightRunLoss: number;
+  fittingLoss: number;
+  fittingK: number;            // Sum of fitting K values
+  elevationHead: number;
+  pressureHead: number;
+  totalDynamicHead: number;
+  headLossPer100m: number;
+  pressureDrop: number;        // kPa, friction and fittings
+
+  // Pump
+  pump: {
+    flowRate: number;          // m³/h
+    head: number;              // m
+    hydraulicPower: number;    // kW
+    shaftPower: number;        // kW
+    motorSize: number;         // kW, standard IEC rating
+  };
+
+  /** Smallest size meeting the velocity and head loss limits, when the given one does not */
+  suggestedNominalSize?: string;
+}
+
+/** IEC standard motor ratings (kW) */
+export const standardMotorSizes = [
+  0.37, 0.55, 0.75, 1.1, 1.5, 2.2, 3, 4, 5.5, 7.5, 11, 15, 18.5, 22, 30, 37, 45, 55, 75, 90, 110, 132, 160, 200, 250, 315,
+];
+
+interface FlowState {
+  velocity: number;
+  reynolds: number;
+  friction: number;
+  headLossPer100m: number;
+}
+
+function flowState(flowRate: number, fluid: FluidProperties, idMm: number, roughnessMm: number): FlowState {
+  const d = idMm / 1000;
+  const velocity = flowRate / 3600 / (Math.PI * d * d / 4);
+  const reynolds = fluid.density * velocity * d / fluid.viscosity;
+  const friction = darcyFrictionFactor(reynolds, roughnessMm / idMm);
+  const headLossPer100m = friction * (100 / d) * velocity * velocity / (2 * GRAVITY);
+  return { velocity, reynolds, friction, headLossPer100m };
+}
+
+/**
+ * Calculate pressure drop, total dynamic head and pump size for a pipe run
+ */
+export function calculatePipeHydraulics(input: PipeHydraulicsInput): PipeHydraulicsResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const fluid = input.fluid ?? waterProperties(20);
+  const roughness = pipeRoughness[input.material] ?? 0.045;
+  const maxVelocity = input.maxVelocity ?? 3.0;
+  const minVelocity = input.minVelocity ?? 0.6;
+  const maxHeadLoss = input.maxHeadLoss ?? 4.0;
+
+  const sizeIndex = pipeSizes.findIndex(s => s.nps === input.nominalSize);
+  const scheduleData = pipeSizes[sizeIndex]?.schedules[input.schedule];
+  if (sizeIndex === -1) {
+    errors.push(`Unknown pipe size: ${input.nominalSize}`);
+  } else if (!scheduleData) {
+    errors.push(`Schedule ${input.schedule} not available for ${input.nominalSize}`);
+  }
+  if (input.flowRate <= 0) {
+    errors.push('Flow rate must be positive');
+  }
+  if (!scheduleData || errors.length > 0) {
+    return {
+      valid: false,
+      errors,
+      warnings,
+      internalDiameter: scheduleData?.id ?? 0,
+      velocity: 0,
+      velocityHead: 0,
+      reynoldsNumber: 0,
+      flowRegime: 'laminar',
+      frictionFactor: 0,
+      straightRunLoss: 0,
+      fittingLoss: 0,
+      fittingK: 0,
+      elevationHead: 0,
+      pressureHead: 0,
+      totalDynamicHead: 0,
+      headLossPer100m: 0,
+      pressureDrop: 0,
+      pump: { flowRate: input.flowRate, head: 0, hydraulicPower: 0, shaftPower: 0, motorSize: 0 },
+    };
+  }
+
+  // Run geometry
+  const segments = input.route?.routeSegments ?? [];
+  const length = (input.length ?? 0) + (input.route?.totalLength ?? 0);
+  const elevationChange = (input.elevationChange ?? 0) +
+    (segments.length > 0 ? segments[segments.length - 1].end.z - segments[0].start.z : 0);
+  const fittings: Partial<FittingCounts> = { ...input.fittings };
+  if (input.route) {
+    fittings.elbows90 = (fittings.elbows90 ?? 0) + input.route.fittingsCount.elbows90;
+    fittings.elbows45 = (fittings.elbows45 ?? 0) + input.route.fittingsCount.elbows45;
+    fittings.tees = (fittings.tees ?? 0) + input.route.fittingsCount.tees;
+  }
+  if (length <= 0) {
+    warnings.push('No pipe length given; only fitting losses are included');
+  }
+
+  // Flow
+  const id = scheduleData.id;
+  const flow = flowState(input.flowRate, fluid, id, roughness);
+  const velocityHead = flow.velocity * flow.velocity / (2 * GRAVITY);
+  const flowRegime = flow.reynolds < 2300 ? 'laminar' : flow.reynolds < 4000 ? 'transitional' : 'turbulent';
+  if (flowRegime === 'transitional') {
+    warnings.push(`Transitional flow (Re ${Math.round(flow.reynolds)}); friction taken as turbulent`);
+  }
+
+  // Losses
+  const fullyTurbulent = Math.pow(-2 * Math.log10(roughness / id / 3.7), -2);
+  const fittingK = (Object.keys(fittingResistance) as Array<keyof FittingCounts>).reduce((sum, key) => {
+    const count = fittings[key] ?? 0;
+    const resistance = fittingResistance[key];
+    return sum + count * (resistance.k ?? (resistance.ft ?? 0) * fullyTurbulent);
+  }, 0);
+  const straightRunLoss = flow.headLossPer100m * (length / 1000) / 100;
+  const fittingLoss = fittingK * velocityHead;
+  const elevationHead = elevationChange / 1000;
+  const pressureHead = (input.pressureChange ?? 0) * 1000 / (fluid.density * GRAVITY);
+  const totalDynamicHead = straightRunLoss + fittingLoss + elevationHead + pressureHead;
+
+  // Pump
+  const pumpEfficiency = input.pumpEfficiency ?? 0.70;
+  const motorEfficiency = input.motorEfficiency ?? 0.90;
+  const head = Math.max(0, totalDynamicHead);
+  const hydraulicPower = fluid.density * GRAVITY * (input.flowRate / 3600) * head / 1000;
+  const shaftPower = hydraulicPower / pumpEfficiency;
+  // 15% service margin over the motor input
+  const motorSize = head > 0
+    ? standardMotorSizes.find(size => size >= shaftPower * 1.15 / motorEfficiency) ?? standardMotorSizes[standardMotorSizes.length - 1]
+    : 0;
+  if (totalDynamicHead <= 0) {
+    warnings.push('Run flows by gravity; no pump required');
+  }
+  if (motorSize === standardMotorSizes[standardMotorSizes.length - 1] && shaftPower * 1.15 / motorEfficiency > motorSize) {
+    warnings.push(`Shaft power ${shaftPower.toFixed(0)} kW exceeds the largest standard motor`);
+  }
+
+  // Limits and upsizing
+  const overVelocity = flow.velocity > maxVelocity;
+  const overHeadLoss = flow.headLossPer100m > maxHeadLoss;
+  if (overVelocity) {
+    warnings.push(`Velocity ${flow.velocity.toFixed(2)} m/s exceeds ${maxVelocity} m/s`);
+  }
+  if (overHeadLoss) {
+    warnings.push(`Head loss ${flow.headLossPer100m.toFixed(2)} m/100m exceeds ${maxHeadLoss} m/100m`);
+  }
+  if (flow.velocity < minVelocity) {
+    warnings.push(`Velocity ${flow.velocity.toFixed(2)} m/s is below ${minVelocity} m/s; solids may settle and the pipe may be oversized`);
+  }
+
+  let suggestedNominalSize: string | undefined;
+  if (overVelocity || overHeadLoss) {
+    const larger = pipeSizes.slice(sizeIndex + 1).find(size => {
+      const schedule = size.schedules[input.schedule];
+      if (!schedule) return false;
+      const candidate = flowState(input.flowRate, fluid, schedule.id, roughness);
+      return candidate.velocity <= maxVelocity && candidate.headLossPer100m <= maxHeadLoss;
+    });
+    if (larger) {
+      suggestedNominalSize = larger.nps;
+      warnings.push(`Upsize to ${larger.nps} ${input.schedule}`);
+    } else {
+      errors.push(`No ${input.schedule} pipe size meets the velocity and head loss limits; use parallel runs`);
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+    internalDiameter: id,
+    velocity: Math.round(flow.velocity * 1000) / 1000,
+    velocityHead: Math.round(velocityHead * 1000) / 1000,
+    reynoldsNumber: Math.round(flow.reynolds),
+    flowRegime,
+    frictionFactor: Math.round(flow.friction * 1e5) / 1e5,
+    straightRunLoss: Math.round(straightRunLoss * 1000) / 1000,
+    fittingLoss: Math.round(fittingLoss * 1000) / 1000,
+    fittingK: Math.round(fittingK * 1000) / 1000,
+    elevationHead: Math.round(elevationHead * 1000) / 1000,
+    pressureHead: Math.round(pressureHead * 1000) / 1000,
+    totalDynamicHead: Math.round(totalDynamicHead * 1000) / 1000,
+    headLossPer100m: Math.round(flow.headLossPer100m * 1000) / 1000,
+    pressureDrop: Math.round((straightRunLoss + fittingLoss) * fluid.density * GRAVITY / 1000 * 100) / 100,
+    pump: {
+      flowRate: input.flowRate,
+      head: Math.round(head * 100) / 100,
+      hydraulicPower: Math.round(hydraulicPower * 1000) / 1000,
+      shaftPower: Math.round(shaftPower * 1000) / 1000,
+      motorSize,
+    },
+    suggestedNominalSize,
+  };
+}
@@ -3,7 +3,10 @@
  *
  * Elements for transporting fluids, gases, and cables:
  * - Pipes (pressure piping, process piping)
+ * - Hydraulics (pressure drop, pump sizing)
+ * - Flexibility (thermal expansion, loops, anchors and guides)
  * - Ducts (HVAC ductwork, exhaust systems)
+ * - Duct Networks (static pressure, balancing, fan selection)
  * - Cable Trays (cable routing, conduit)
  * - Supports (pipe hangers, duct supports, tray supports)
  */
@@ -16,8 +19,35 @@ export type {
   PipeSizeData,
 } from './pipes';
 
+// Hydraulics
+export {
+  calculatePipeHydraulics,
+  darcyFrictionFactor,
+  waterProperties,
+  pipeRoughness,
+  standardMotorSizes,
+} from './hydraulics';
+export type {
+  FluidProperties,
+  FittingCounts,
+  PipeHydraulicsInput,
+  PipeHydraulicsResult,
+} from './hydraulics';
+
+// Flexibility
+export { calculatePipeFlexibility, thermalExpansionRate } from './flexibility';
+export type {
+  PipeFlexibilityInput,
+  PipeFlexibilityResult,
+  FlexibilitySegmentResult,
+  FlexibilitySpanResult,
+  ExpansionDevice,
+  FlexibilitySupportType,
+  FlexibilitySupport,
+} from './flexibility';
+
 // Ducts
-export { ductElement, calculateDuct, sizeDuct } from './ducts';
+export { ductElement, calculateDuct, sizeDuct, ductGaugeThickness } from './ducts';
 export type {
   DuctCalculationInput,
   DuctCalculationResult,
@@ -25,6 +55,21 @@ export type {
   DuctSizingResult,
 } from './ducts';
 
+// Duct Networks
+export { analyzeDuctNetwork, ductFittingCoefficients } from './duct-network';
+export type {
+  DuctFittingType,
+  DuctFitting,
+  DuctTerminal,
+  DuctSection,
+  FanCurvePoint,
+  DuctNetworkInput,
+  DuctSectionResult,
+  DuctDamperSetting,
+  DuctPathResult,
+  DuctNetworkResult,
+} from './duct-network';
+
 // Cable Trays
 export {
   cableTrayElement,
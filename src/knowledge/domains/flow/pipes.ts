@@ -129,7 +129,7 @@ const pipeParameters: ParameterDefinition[] = [
     id: 'routing_type',
     name: 'Routing Type',
     type: 'select',
-    options: ['direct', 'orthogonal', 'spline'],
+    options: ['direct', 'orthogonal', 'routed', 'spline'],
     default: 'orthogonal',
     required: true,
     description: 'How pipe is routed between points',
@@ -524,7 +524,9 @@ export interface PipeCalculationInput {
   nominalSize: string;
   schedule: string;
   material: 'carbon-steel' | 'stainless-304' | 'stainless-316' | 'pvc';
-  routingType: 'direct' | 'orthogonal';
+  routingType: 'direct' | 'orthogonal' | 'routed';
+  /** Centreline polyline for 'routed', e.g. `routeRun().points` */
+  route?: Array<{ x: number; y: number; z: number }>;
   designPressure?: number;     // bar
   designTemperature?: number;  // °C
   startConnection?: string;
@@ -636,7 +638,33 @@ export function calculatePipe(input: PipeCalculationInput): PipeCalculationResul
   let totalLength = 0;
   let elbows90 = 0;
 
-  if (input.routingType === 'direct') {
+  if (input.routingType === 'routed' && (!input.route || input.route.length < 2)) {
+    errors.push('Routed pipe requires a route of at least two points');
+  }
+
+  if (input.routingType === 'routed' && input.route && input.route.length >= 2) {
+    // Precomputed route; every change of direction is an elbow
+    const route = input.route;
+    for (let i = 1; i < route.length; i++) {
+      const d = {
+        x: route[i].x - route[i - 1].x,
+        y: route[i].y - route[i - 1].y,
+        z: route[i].z - route[i - 1].z,
+      };
+      const length = Math.sqrt(d.x * d.x + d.y * d.y + d.z * d.z);
+      if (length === 0) continue;
+      const abs = [Math.abs(d.x), Math.abs(d.y), Math.abs(d.z)];
+      const direction = (['X', 'Y', 'Z'] as const)[abs.indexOf(Math.max(...abs))];
+      if (routeSegments.length > 0) elbows90++;
+      routeSegments.push({
+        start: { ...route[i - 1] },
+        end: { ...route[i] },
+        length,
+        direction,
+      });
+      totalLength += length;
+    }
+  } else if (input.routingType === 'direct') {
     // Direct route
     const length = Math.sqrt(dx * dx + dy * dy + dz * dz);
     routeSegments.push({
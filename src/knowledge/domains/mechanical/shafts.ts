@@ -488,7 +488,11 @@ const couplingRules: Rule[] = [
     description: 'Rigid couplings require precise alignment',
     type: 'constraint',
     source: 'Engineering Practice',
-    expression: { type: 'range', param: 'angular_misalignment', max: 0.5 },
+    expression: {
+      type: 'conditional',
+      condition: 'coupling_type == "rigid"',
+      then: { type: 'range', param: 'angular_misalignment', max: 0.5 },
+    },
     errorMessage: 'Rigid coupling requires better alignment than specified',
   },
   {
@@ -57,6 +57,16 @@ const steelBeamParameters: ParameterDefinition[] = [
     required: true,
     description: 'Standard designation (e.g., W8x31, HSS6x4x1/4)',
   },
+  {
+    id: 'section_depth',
+    name: 'Section Depth',
+    type: 'number',
+    unit: 'mm',
+    min: 50,
+    max: 1200,
+    required: false,
+    description: 'Overall depth of the selected profile (derived from profile_size when not given)',
+  },
   {
     id: 'steel_grade',
     name: 'Steel Grade',
@@ -201,16 +211,16 @@ const steelBeamRules: Rule[] = [
   {
     id: 'deflection_check',
     name: 'Deflection Check',
-    description: 'Deflection must not exceed serviceability limits',
-    type: 'constraint',
+    description: 'Span-to-depth ratio should stay within the limit that keeps deflection serviceable',
+    type: 'recommendation',   // rule of thumb; calculateSteelBeam checks the actual deflection
     source: 'IBC, AISC Design Guide 3',
     expression: {
       type: 'ratio',
       param1: 'span_length',
-      param2: 'dead_load',
-      max: 500,
+      param2: 'section_depth',
+      max: 24,   // L/d <= 24 for floor beams (AISC 360 Commentary L3)
     },
-    errorMessage: 'Deflection exceeds allowable limit',
+    errorMessage: 'Beam is shallow for its span; check deflection',
   },
   {
     id: 'lateral_torsional_buckling',
@@ -342,8 +352,27 @@ export const steelBeamElement: ElementDefinition = {
   rules: steelBeamRules,
   materials: ['A36', 'A572-50', 'A992', 'A500-B', 'A500-C'],
   components: steelBeamComponents,
+  deriveParameters: (params) => {
+    const depth = typeof params.profile_size === 'string' ? steelSectionDepth(params.profile_size) : undefined;
+    return depth !== undefined ? { section_depth: depth } : {};
+  },
 };
 
+/**
+ * Overall depth (mm) of a steel section designation. Tabulated sections use
+ * their actual depth; others use the nominal depth in the designation
+ * (W24x68, C10x25, HSS8x4x1/4 in inches; W610x101 in mm).
+ */
+export function steelSectionDepth(designation: string): number | undefined {
+  const tabulated = steelBeamSections.find(s => s.designation === designation.trim());
+  if (tabulated) return tabulated.d;
+
+  const match = /^(?:W|S|MC|C|WT|HSS)\s*(\d+(?:\.\d+)?)x/i.exec(designation.trim());
+  if (!match) return undefined;
+  const nominal = parseFloat(match[1]);
+  return nominal >= 75 ? nominal : nominal * 25.4;
+}
+
 // ============================================================================
 // WOOD BEAM PARAMETERS
 // ============================================================================
@@ -401,6 +430,7 @@ const woodBeamParameters: ParameterDefinition[] = [
     name: 'Nominal Depth',
     type: 'select',
     options: ['4', '6', '8', '10', '12', '14', '16'],
+    unit: 'in',
     default: '10',
     required: true,
     description: 'Nominal depth in inches',
@@ -667,6 +697,15 @@ export interface SteelBeamInput {
   deflectionLimit: string;
   lateralSupport: string;
   unbracedLength: number;
+  /** Factored load from a load combination; replaces 1.2D + 1.6L */
+  factoredLoad?: number;
+  /** Demands from a frame analysis; replace the single-span formulas */
+  demand?: {
+    Mu: number;           // Factored moment (kN-m)
+    Vu: number;           // Factored shear (kN)
+    deflection?: number;  // mm
+    reactions?: { left: number; right: number }; // kN
+  };
 }
 
 export interface SteelBeamResult {
@@ -882,7 +921,7 @@ export function calculateSteelBeam(input: SteelBeamInput): SteelBeamResult {
   const grade = steelGradeProps[input.steelGrade] || steelGradeProps['A36'];
   const L = input.spanLength;
   const w = input.deadLoad + input.liveLoad; // kN/m
-  const wFactored = 1.2 * input.deadLoad + 1.6 * input.liveLoad;
+  const wFactored = input.factoredLoad ?? 1.2 * input.deadLoad + 1.6 * input.liveLoad;
 
   // Calculate moment and shear based on support type and load
   let Mu: number; // factored moment (kN-m)
@@ -941,6 +980,13 @@ export function calculateSteelBeam(input: SteelBeamInput): SteelBeamResult {
       deflectionCoeff = 5 / 384;
   }
 
+  if (input.demand) {
+    Mu = input.demand.Mu;
+    Vu = input.demand.Vu;
+    leftReaction = input.demand.reactions?.left ?? leftReaction;
+    rightReaction = input.demand.reactions?.right ?? rightReaction;
+  }
+
   // Moment capacity (phi = 0.9 for flexure)
   const Zx = section.Zx * 1e3; // mm³
   const Mn = (grade.Fy * Zx) / 1e6; // kN-m
@@ -974,6 +1020,9 @@ export function calculateSteelBeam(input: SteelBeamInput): SteelBeamResult {
     const P = w * 1e3; // N
     deflection = (deflectionCoeff * P * Math.pow(L, 3)) / (grade.E * Ix);
   }
+  if (input.demand?.deflection !== undefined) {
+    deflection = input.demand.deflection;
+  }
 
   const deflectionLimitRatio = parseInt(input.deflectionLimit.split('/')[1]);
   const allowableDeflection = L / deflectionLimitRatio;
@@ -420,7 +420,7 @@ const woodColumnParameters: ParameterDefinition[] = [
     id: 'load_duration',
     name: 'Load Duration',
     type: 'select',
-    options: ['permanent', 'ten-years', 'two-months', 'seven-days'],
+    options: ['permanent', 'ten-years', 'two-months', 'seven-days', 'ten-minutes'],
     default: 'ten-years',
     required: true,
     description: 'Duration of maximum load',
@@ -962,6 +962,7 @@ export function calculateWoodColumn(input: WoodColumnInput): WoodColumnResult {
     'ten-years': 1.0,
     'two-months': 1.15,
     'seven-days': 1.25,
+    'ten-minutes': 1.6,
   };
   const CD_val = CD[input.loadDuration] || 1.0;
   const CM = input.moistureCondition === 'wet' ? 0.8 : 1.0;
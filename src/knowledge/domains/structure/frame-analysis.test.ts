@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeFrame, type FrameModel } from './frame-analysis';
+import { steelBeamSections } from './beams';
+
+// W8x31: Ix tabulated in 10⁶ mm⁴, E = 200 GPa
+const E = 200000;
+const Ix = steelBeamSections.find(s => s.designation === 'W8x31')!.Ix * 1e6;
+
+function span(length: number, supports: ['pinned' | 'fixed', 'roller' | 'fixed' | 'free']): FrameModel {
+  return {
+    dimension: '2d',
+    nodes: [
+      { id: 'A', x: 0, z: 0, support: supports[0] },
+      { id: 'B', x: length, z: 0, support: supports[1] === 'free' ? undefined : supports[1] },
+    ],
+    members: [{ id: 'M1', start: 'A', end: 'B', section: 'W8x31' }],
+    loads: [],
+  };
+}
+
+describe('analyzeFrame', () => {
+  it('matches the closed form for a simply supported beam under uniform load', () => {
+    const L = 6000;
+    const w = 10; // kN/m = N/mm
+    const model = span(L, ['pinned', 'roller']);
+    model.loads.push({ type: 'distributed', member: 'M1', force: { z: -w } });
+    const result = analyzeFrame(model);
+
+    expect(result.isValid).toBe(true);
+    for (const reaction of result.reactions) {
+      expect(reaction.force.z).toBeCloseTo(w * L / 2000, 6);
+    }
+    const member = result.members[0];
+    expect(member.maxMomentStrong).toBeCloseTo(w * (L / 1000) ** 2 / 8, 4);
+    expect(member.maxShear).toBeCloseTo(w * L / 2000, 4);
+    expect(member.maxDeflection).toBeCloseTo(5 * w * L ** 4 / (384 * E * Ix), 1);
+  });
+
+  it('matches the closed form for a cantilever with a tip load', () => {
+    const L = 3000;
+    const P = 20; // kN
+    const model = span(L, ['fixed', 'free']);
+    model.loads.push({ type: 'nodal', node: 'B', force: { z: -P } });
+    const result = analyzeFrame(model);
+
+    const [root] = result.reactions;
+    expect(root.force.z).toBeCloseTo(P, 6);
+    expect(Math.abs(root.moment.y)).toBeCloseTo(P * L / 1000, 6);
+
+    const tip = result.displacements.find(d => d.node === 'B')!;
+    expect(tip.translation.z).toBeCloseTo(-P * 1000 * L ** 3 / (3 * E * Ix), 3);
+    expect(Math.abs(tip.rotation.y)).toBeCloseTo(P * 1000 * L ** 2 / (2 * E * Ix), 6);
+  });
+
+  it('balances applied load with the support reactions in a portal frame', () => {
+    const model: FrameModel = {
+      dimension: '2d',
+      nodes: [
+        { id: 'A', x: 0, z: 0, support: 'fixed' },
+        { id: 'B', x: 0, z: 4000 },
+        { id: 'C', x: 6000, z: 4000 },
+        { id: 'D', x: 6000, z: 0, support: 'fixed' },
+      ],
+      members: [
+        { id: 'C1', start: 'A', end: 'B', section: 'W8x31' },
+        { id: 'B1', start: 'B', end: 'C', section: 'W8x31' },
+        { id: 'C2', start: 'D', end: 'C', section: 'W8x31' },
+      ],
+      loads: [
+        { type: 'distributed', member: 'B1', force: { z: -15 } },
+        { type: 'nodal', node: 'B', force: { x: 12 } },
+      ],
+    };
+    const result = analyzeFrame(model);
+    const total = result.reactions.reduce(
+      (sum, r) => ({ x: sum.x + r.force.x, z: sum.z + r.force.z }),
+      { x: 0, z: 0 }
+    );
+
+    expect(result.isValid).toBe(true);
+    expect(total.x).toBeCloseTo(-12, 6);
+    expect(total.z).toBeCloseTo(15 * 6, 6);
+    expect(result.members.find(m => m.member === 'C1')!.role).toBe('column');
+    expect(result.members.find(m => m.member === 'B1')!.role).toBe('beam');
+  });
+
+  it('reports a mechanism instead of solving it', () => {
+    const model = span(6000, ['pinned', 'free']);
+    model.loads.push({ type: 'nodal', node: 'B', force: { z: -10 } });
+    const result = analyzeFrame(model);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,1100 @@
+/**
+ * STRUCTURE Domain - Frame Analysis
+ *
+ * Linear direct-stiffness analysis of 2D and 3D steel frames:
+ * - Pinned, fixed and roller supports
+ * - Member end moment releases (pinned connections)
+ * - Nodal loads, member point loads and uniform member loads
+ * - Member forces, reactions and displacements that feed the
+ *   beam, column and base plate checks
+ * - Loads by case, checked over every ASCE 7 combination
+ *
+ * Units: mm for geometry, kN and kN-m for loads and results.
+ * Global Z is up. 2D frames lie in the X-Z plane.
+ */
+
+import { calculateSteelBeam, steelBeamSections, steelGradeProps } from './beams';
+import type { SteelBeamResult } from './beams';
+import { calculateSteelColumn, steelColumnSections } from './columns';
+import type { SteelColumnResult } from './columns';
+import { calculateBasePlate } from './base-plates';
+import type { BasePlateInput, BasePlateResult } from './base-plates';
+import { generateLoadCombinations } from './load-combinations';
+import type { CombinationOptions, DesignMethod, LoadCase, LoadCaseValues, LoadCombination } from './load-combinations';
+
+// ============================================================================
+// MODEL
+// ============================================================================
+
+export interface FrameVector {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * - `pinned`: all translations restrained
+ * - `fixed`: translations and rotations restrained
+ * - `roller`: vertical translation restrained
+ */
+export type FrameSupport = 'free' | 'pinned' | 'fixed' | 'roller';
+
+export interface FrameNode {
+  id: string;
+  x: number;
+  /** Omit for 2D frames */
+  y?: number;
+  z: number;
+  support?: FrameSupport;
+}
+
+export interface FrameMember {
+  id: string;
+  start: string;
+  end: string;
+  /** Steel section designation, e.g. W8x31 or HSS6x6x3/8 */
+  section: string;
+  /** Inferred from orientation when omitted: vertical = column, horizontal = beam */
+  role?: 'beam' | 'column' | 'brace';
+  /** `true` releases bending moment at that end (pinned connection) */
+  releases?: { start?: boolean; end?: boolean };
+  /** Rotation of the section about the member axis (degrees) */
+  rollAngle?: number;
+  /** Column buckling end condition for the member check (default pinned-pinned) */
+  endCondition?: string;
+}
+
+/**
+ * Loads act in global directions. Forces in kN, moments in kN-m,
+ * distributed loads in kN/m along the member length. `case` (default D)
+ * is only used when checking load combinations.
+ */
+export type FrameLoad = (
+  | { type: 'nodal'; node: string; force?: Partial<FrameVector>; moment?: Partial<FrameVector> }
+  | { type: 'point'; member: string; position: number; force: Partial<FrameVector> }
+  | { type: 'distributed'; member: string; force: Partial<FrameVector> }
+) & { case?: LoadCase };
+
+export interface FrameModel {
+  dimension: '2d' | '3d';
+  nodes: FrameNode[];
+  members: FrameMember[];
+  loads: FrameLoad[];
+  /** Default A992 */
+  steelGrade?: string;
+  /** Add member self-weight as a gravity load (case D) */
+  includeSelfWeight?: boolean;
+}
+
+// ============================================================================
+// RESULTS
+// ============================================================================
+
+export interface NodeDisplacement {
+  node: string;
+  translation: FrameVector;   // mm
+  rotation: FrameVector;      // rad
+}
+
+export interface SupportReaction {
+  node: string;
+  force: FrameVector;         // kN
+  moment: FrameVector;        // kN-m
+}
+
+/**
+ * Internal actions at a point along a member, in member axes.
+ * Axial tension is positive; moments are positive in sagging.
+ * Strong-axis bending deflects the member in its local y direction
+ * (vertical for beams, global X for columns).
+ */
+export interface MemberStation {
+  position: number;           // mm from start
+  axial: number;              // kN
+  shearY: number;             // kN
+  shearZ: number;             // kN
+  torsion: number;            // kN-m
+  momentStrong: number;       // kN-m
+  momentWeak: number;         // kN-m
+  displacement: number;       // mm transverse, from the member's original line
+}
+
+export interface MemberAnalysisResult {
+  member: string;
+  length: number;
+  role: 'beam' | 'column' | 'brace';
+  stations: MemberStation[];
+  maxCompression: number;     // kN
+  maxTension: number;         // kN
+  maxShear: number;           // kN
+  maxMomentStrong: number;    // kN-m
+  maxMomentWeak: number;      // kN-m
+  /** Largest transverse deflection relative to the chord between the member ends (mm) */
+  maxDeflection: number;
+  /** Largest transverse displacement from the undeformed member line (mm) */
+  maxDisplacement: number;
+  /** Shear at each end, for beam reactions (kN) */
+  endShear: { start: number; end: number };
+}
+
+export interface FrameAnalysisResult {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+  displacements: NodeDisplacement[];
+  reactions: SupportReaction[];
+  members: MemberAnalysisResult[];
+  maxDisplacement: { node: string; value: number };
+}
+
+// ============================================================================
+// SECTION AND MATERIAL PROPERTIES
+// ============================================================================
+
+const STATIONS = 20;
+const DEFLECTION_STEPS = 200;
+const GRAVITY = 9.81;
+const POISSON = 0.3;
+
+interface MemberProps {
+  E: number;   // MPa
+  G: number;   // MPa
+  A: number;   // mm²
+  Iz: number;  // mm⁴, strong axis
+  Iy: number;  // mm⁴, weak axis
+  J: number;   // mm⁴
+  weight: number; // kg/m
+}
+
+interface FrameSection {
+  type: string;
+  d: number;
+  bf: number;
+  tw: number;
+  tf: number;
+  A: number;
+  W: number;
+  Ix: number;
+  Iy: number;
+}
+
+function findFrameSection(designation: string): FrameSection | undefined {
+  return steelColumnSections.find(s => s.designation === designation)
+    ?? steelBeamSections.find(s => s.designation === designation);
+}
+
+/**
+ * Saint-Venant torsion constant (mm⁴): Bredt's formula for closed
+ * sections, sum of bt³/3 for open ones
+ */
+function torsionConstant(section: FrameSection): number {
+  if (section.type === 'pipe') {
+    return 2 * section.Ix * 1e6;
+  }
+  if (section.type.startsWith('HSS')) {
+    const t = section.tw;
+    const h = section.d - t;
+    const b = section.bf - t;
+    return (4 * Math.pow(b * h, 2) * t) / (2 * (b + h));
+  }
+  return (2 * section.bf * Math.pow(section.tf, 3) + (section.d - 2 * section.tf) * Math.pow(section.tw, 3)) / 3;
+}
+
+function memberProps(section: FrameSection, grade: string): MemberProps {
+  const E = (steelGradeProps[grade] ?? steelGradeProps['A992']).E;
+  return {
+    E,
+    G: E / (2 * (1 + POISSON)),
+    A: section.A,
+    Iz: section.Ix * 1e6,
+    Iy: section.Iy * 1e6,
+    J: torsionConstant(section),
+    weight: section.W,
+  };
+}
+
+// ============================================================================
+// VECTOR AND MATRIX HELPERS
+// ============================================================================
+
+type Vec = [number, number, number];
+
+function sub(a: Vec, b: Vec): Vec {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function dot(a: Vec, b: Vec): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function cross(a: Vec, b: Vec): Vec {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function scale(a: Vec, s: number): Vec {
+  return [a[0] * s, a[1] * s, a[2] * s];
+}
+
+function normalize(a: Vec): Vec {
+  return scale(a, 1 / Math.hypot(a[0], a[1], a[2]));
+}
+
+function zeros(rows: number, cols: number): number[][] {
+  return Array.from({ length: rows }, () => new Array<number>(cols).fill(0));
+}
+
+/**
+ * Solve A x = b by Gaussian elimination with partial pivoting.
+ * Returns undefined when A is singular.
+ */
+function solveLinear(A: number[][], b: number[]): number[] | undefined {
+  const n = b.length;
+  const m = A.map((row, i) => [...row, b[i]]);
+  const tolerance = 1e-12 * Math.max(1, ...A.map((row, i) => Math.abs(row[i])));
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < tolerance) return undefined;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      if (factor === 0) continue;
+      for (let k = col; k <= n; k++) {
+        m[row][k] -= factor * m[col][k];
+      }
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) {
+      sum -= m[row][k] * x[k];
+    }
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+// ============================================================================
+// MEMBER STIFFNESS
+// ============================================================================
+
+// Local DOF order per end: ux, uy, uz, rx, ry, rz
+const START_MOMENT_DOFS = [4, 5];
+const END_MOMENT_DOFS = [10, 11];
+
+interface PreparedMember {
+  member: FrameMember;
+  role: 'beam' | 'column' | 'brace';
+  startIndex: number;
+  endIndex: number;
+  length: number;
+  /** Rows are the local x, y, z axes in global coordinates */
+  axes: [Vec, Vec, Vec];
+  props: MemberProps;
+  released: number[];
+  /** Uniform load in local axes (N/mm) */
+  distributed: Vec;
+  /** Point loads in local axes (N) at distance a (mm) */
+  points: Array<{ a: number; force: Vec }>;
+}
+
+/**
+ * Local axes: x along the member; y is the strong-axis bending direction,
+ * taken as "up" for sloping members and global X for vertical ones
+ */
+function memberAxes(start: Vec, end: Vec, rollAngle: number): [Vec, Vec, Vec] {
+  const ex = normalize(sub(end, start));
+  const reference: Vec = Math.abs(ex[2]) > 0.999 ? [1, 0, 0] : [0, 0, 1];
+  let ey = normalize(sub(reference, scale(ex, dot(reference, ex))));
+  let ez = cross(ex, ey);
+
+  if (rollAngle !== 0) {
+    const c = Math.cos((rollAngle * Math.PI) / 180);
+    const s = Math.sin((rollAngle * Math.PI) / 180);
+    [ey, ez] = [
+      [c * ey[0] + s * ez[0], c * ey[1] + s * ez[1], c * ey[2] + s * ez[2]],
+      [c * ez[0] - s * ey[0], c * ez[1] - s * ey[1], c * ez[2] - s * ey[2]],
+    ];
+  }
+  return [ex, ey, ez];
+}
+
+function localStiffness(p: MemberProps, L: number): number[][] {
+  const k = zeros(12, 12);
+  const set = (i: number, j: number, value: number) => {
+    k[i][j] = value;
+    k[j][i] = value;
+  };
+
+  const axial = (p.E * p.A) / L;
+  set(0, 0, axial); set(6, 6, axial); set(0, 6, -axial);
+
+  const torsion = (p.G * p.J) / L;
+  set(3, 3, torsion); set(9, 9, torsion); set(3, 9, -torsion);
+
+  // Strong axis: bending in the local x-y plane
+  const z = p.E * p.Iz;
+  set(1, 1, (12 * z) / L ** 3); set(7, 7, (12 * z) / L ** 3); set(1, 7, (-12 * z) / L ** 3);
+  set(1, 5, (6 * z) / L ** 2); set(1, 11, (6 * z) / L ** 2);
+  set(5, 7, (-6 * z) / L ** 2); set(7, 11, (-6 * z) / L ** 2);
+  set(5, 5, (4 * z) / L); set(11, 11, (4 * z) / L); set(5, 11, (2 * z) / L);
+
+  // Weak axis: bending in the local x-z plane
+  const y = p.E * p.Iy;
+  set(2, 2, (12 * y) / L ** 3); set(8, 8, (12 * y) / L ** 3); set(2, 8, (-12 * y) / L ** 3);
+  set(2, 4, (-6 * y) / L ** 2); set(2, 10, (-6 * y) / L ** 2);
+  set(4, 8, (6 * y) / L ** 2); set(8, 10, (6 * y) / L ** 2);
+  set(4, 4, (4 * y) / L); set(10, 10, (4 * y) / L); set(4, 10, (2 * y) / L);
+
+  return k;
+}
+
+/**
+ * Fixed-end forces (forces the supports apply to a fully fixed member)
+ */
+function fixedEndForces(m: PreparedMember): number[] {
+  const L = m.length;
+  const f = new Array<number>(12).fill(0);
+  const [wx, wy, wz] = m.distributed;
+
+  f[0] -= (wx * L) / 2; f[6] -= (wx * L) / 2;
+  f[1] -= (wy * L) / 2; f[7] -= (wy * L) / 2;
+  f[5] -= (wy * L * L) / 12; f[11] += (wy * L * L) / 12;
+  f[2] -= (wz * L) / 2; f[8] -= (wz * L) / 2;
+  f[4] += (wz * L * L) / 12; f[10] -= (wz * L * L) / 12;
+
+  for (const { a, force: [px, py, pz] } of m.points) {
+    const b = L - a;
+    f[0] -= (px * b) / L; f[6] -= (px * a) / L;
+    f[1] -= (py * b * b * (3 * a + b)) / L ** 3; f[7] -= (py * a * a * (a + 3 * b)) / L ** 3;
+    f[5] -= (py * a * b * b) / L ** 2; f[11] += (py * a * a * b) / L ** 2;
+    f[2] -= (pz * b * b * (3 * a + b)) / L ** 3; f[8] -= (pz * a * a * (a + 3 * b)) / L ** 3;
+    f[4] += (pz * a * b * b) / L ** 2; f[10] -= (pz * a * a * b) / L ** 2;
+  }
+  return f;
+}
+
+/**
+ * Statically condense released end moments out of the member stiffness
+ */
+function condense(k: number[][], f: number[], released: number[]): { k: number[][]; f: number[] } {
+  if (released.length === 0) return { k, f };
+
+  const kept = [...Array(12).keys()].filter(i => !released.includes(i));
+  const krr = released.map(i => released.map(j => k[i][j]));
+  const kc = zeros(12, 12);
+  const fc = new Array<number>(12).fill(0);
+
+  // krr⁻¹ applied column by column
+  const solveRR = (rhs: number[]) => solveLinear(krr, rhs) ?? rhs.map(() => 0);
+  const krrInvF = solveRR(released.map(i => f[i]));
+  const krrInvKra = kept.map(j => solveRR(released.map(i => k[i][j])));
+
+  kept.forEach(i => {
+    fc[i] = f[i] - released.reduce((sum, r, ri) => sum + k[i][r] * krrInvF[ri], 0);
+    kept.forEach((j, b) => {
+      kc[i][j] = k[i][j] - released.reduce((sum, r, ri) => sum + k[i][r] * krrInvKra[b][ri], 0);
+    });
+  });
+  return { k: kc, f: fc };
+}
+
+function toGlobal(k: number[][], axes: [Vec, Vec, Vec]): number[][] {
+  // T is block-diagonal with the axes as rows; K = Tᵀ k T
+  const T = zeros(12, 12);
+  for (let block = 0; block < 4; block++) {
+    for (let r = 0; r < 3; r++) {
+      for (let c = 0; c < 3; c++) {
+        T[block * 3 + r][block * 3 + c] = axes[r][c];
+      }
+    }
+  }
+  const kT = zeros(12, 12);
+  for (let i = 0; i < 12; i++) {
+    for (let j = 0; j < 12; j++) {
+      let sum = 0;
+      for (let m = 0; m < 12; m++) sum += k[i][m] * T[m][j];
+      kT[i][j] = sum;
+    }
+  }
+  const K = zeros(12, 12);
+  for (let i = 0; i < 12; i++) {
+    for (let j = 0; j < 12; j++) {
+      let sum = 0;
+      for (let m = 0; m < 12; m++) sum += T[m][i] * kT[m][j];
+      K[i][j] = sum;
+    }
+  }
+  return K;
+}
+
+function localVector(axes: [Vec, Vec, Vec], v: Vec): Vec {
+  return [dot(axes[0], v), dot(axes[1], v), dot(axes[2], v)];
+}
+
+function globalVector(axes: [Vec, Vec, Vec], v: Vec): Vec {
+  return [
+    axes[0][0] * v[0] + axes[1][0] * v[1] + axes[2][0] * v[2],
+    axes[0][1] * v[0] + axes[1][1] * v[1] + axes[2][1] * v[2],
+    axes[0][2] * v[0] + axes[1][2] * v[1] + axes[2][2] * v[2],
+  ];
+}
+
+function vec(v: Partial<FrameVector> | undefined, factor: number): Vec {
+  return [(v?.x ?? 0) * factor, (v?.y ?? 0) * factor, (v?.z ?? 0) * factor];
+}
+
+function inferRole(axes: [Vec, Vec, Vec]): 'beam' | 'column' | 'brace' {
+  const vertical = Math.abs(axes[0][2]);
+  if (vertical > 0.95) return 'column';
+  if (vertical < 0.2) return 'beam';
+  return 'brace';
+}
+
+// ============================================================================
+// MEMBER ACTIONS
+// ============================================================================
+
+/**
+ * Internal actions along a member from its start-end forces and loads
+ * (N, N-mm, local axes)
+ */
+function memberStations(m: PreparedMember, endForces: number[], localDisp: number[]): {
+  stations: MemberStation[];
+  maxDeflection: number;
+  maxDisplacement: number;
+} {
+  const L = m.length;
+  const [wx, wy, wz] = m.distributed;
+  const F = endForces;
+
+  const actions = (x: number) => {
+    let axial = -F[0] - wx * x;
+    let shearY = F[1] + wy * x;
+    let shearZ = F[2] + wz * x;
+    let strong = -F[5] + x * F[1] + (wy * x * x) / 2;
+    let weak = F[4] + x * F[2] + (wz * x * x) / 2;
+    for (const { a, force: [px, py, pz] } of m.points) {
+      if (a >= x) continue;
+      axial -= px;
+      shearY += py;
+      shearZ += pz;
+      strong += (x - a) * py;
+      weak += (x - a) * pz;
+    }
+    return { axial, shearY, shearZ, strong, weak };
+  };
+
+  // Transverse deflection from curvature M/EI, integrated twice,
+  // then measured from the chord and from the undeformed line
+  const h = L / DEFLECTION_STEPS;
+  const curvature = (x: number) => {
+    const a = actions(x);
+    return [a.strong / (m.props.E * m.props.Iz), a.weak / (m.props.E * m.props.Iy)];
+  };
+  const slope = [0, 0];
+  const shape: Array<[number, number]> = [[0, 0]];
+  let previous = curvature(0);
+  for (let i = 1; i <= DEFLECTION_STEPS; i++) {
+    const current = curvature(i * h);
+    const last = shape[i - 1];
+    const next: [number, number] = [0, 0];
+    for (const axis of [0, 1]) {
+      const newSlope = slope[axis] + ((previous[axis] + current[axis]) / 2) * h;
+      next[axis] = last[axis] + ((slope[axis] + newSlope) / 2) * h;
+      slope[axis] = newSlope;
+    }
+    shape.push(next);
+    previous = current;
+  }
+  const end = shape[DEFLECTION_STEPS];
+  const chordOffset = (i: number): [number, number] => {
+    const t = i / DEFLECTION_STEPS;
+    return [shape[i][0] - end[0] * t, shape[i][1] - end[1] * t];
+  };
+  const lineOffset = (i: number): [number, number] => {
+    const t = i / DEFLECTION_STEPS;
+    const [cy, cz] = chordOffset(i);
+    return [cy + localDisp[1] + (localDisp[7] - localDisp[1]) * t, cz + localDisp[2] + (localDisp[8] - localDisp[2]) * t];
+  };
+
+  let maxDeflection = 0;
+  let maxDisplacement = 0;
+  for (let i = 0; i <= DEFLECTION_STEPS; i++) {
+    maxDeflection = Math.max(maxDeflection, Math.hypot(...chordOffset(i)));
+    maxDisplacement = Math.max(maxDisplacement, Math.hypot(...lineOffset(i)));
+  }
+
+  // Report at regular stations and just either side of point loads
+  const positions = new Set<number>();
+  for (let i = 0; i <= STATIONS; i++) positions.add((L * i) / STATIONS);
+  for (const { a } of m.points) {
+    positions.add(Math.max(0, a - 1e-6));
+    positions.add(Math.min(L, a + 1e-6));
+  }
+
+  const stations = [...positions].sort((a, b) => a - b).map((x): MemberStation => {
+    const a = actions(x);
+    const i = Math.round((x / L) * DEFLECTION_STEPS);
+    return {
+      position: x,
+      axial: a.axial / 1e3,
+      shearY: a.shearY / 1e3,
+      shearZ: a.shearZ / 1e3,
+      torsion: -F[3] / 1e6,
+      momentStrong: a.strong / 1e6,
+      momentWeak: a.weak / 1e6,
+      displacement: Math.hypot(...lineOffset(i)),
+    };
+  });
+
+  return { stations, maxDeflection, maxDisplacement };
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+const DOF_NAMES = ['x', 'y', 'z', 'rx', 'ry', 'rz'];
+
+const SUPPORT_DOFS: Record<FrameSupport, number[]> = {
+  free: [],
+  pinned: [0, 1, 2],
+  fixed: [0, 1, 2, 3, 4, 5],
+  roller: [2],
+};
+
+// Out-of-plane DOFs of a frame in the X-Z plane
+const PLANAR_RESTRAINED_DOFS = [1, 3, 5];
+
+function emptyResult(errors: string[], warnings: string[]): FrameAnalysisResult {
+  return {
+    isValid: false,
+    errors,
+    warnings,
+    displacements: [],
+    reactions: [],
+    members: [],
+    maxDisplacement: { node: '', value: 0 },
+  };
+}
+
+export function analyzeFrame(model: FrameModel): FrameAnalysisResult {
+  return analyzeFactoredFrame(model);
+}
+
+/**
+ * Analysis with each load scaled by its case factor. Without factors
+ * every load is applied as given.
+ */
+function analyzeFactoredFrame(model: FrameModel, factors?: LoadCaseValues): FrameAnalysisResult {
+  const caseFactor = (loadCase: LoadCase) => (factors ? factors[loadCase] ?? 0 : 1);
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const grade = model.steelGrade ?? 'A992';
+
+  // Nodes
+  const nodeIndex = new Map<string, number>();
+  model.nodes.forEach((node, i) => {
+    if (nodeIndex.has(node.id)) errors.push(`Duplicate node ${node.id}`);
+    nodeIndex.set(node.id, i);
+    if (model.dimension === '2d' && (node.y ?? 0) !== 0) {
+      errors.push(`Node ${node.id} is out of the X-Z plane of a 2D frame`);
+    }
+  });
+  const coordinates = model.nodes.map((node): Vec => [node.x, node.y ?? 0, node.z]);
+
+  // Members
+  const prepared: PreparedMember[] = [];
+  const memberIndex = new Map<string, PreparedMember>();
+  for (const member of model.members) {
+    const startIndex = nodeIndex.get(member.start);
+    const endIndex = nodeIndex.get(member.end);
+    const section = findFrameSection(member.section);
+    if (startIndex === undefined || endIndex === undefined) {
+      errors.push(`Member ${member.id} references an unknown node`);
+      continue;
+    }
+    if (!section) {
+      errors.push(`Member ${member.id}: section ${member.section} not found in database`);
+      continue;
+    }
+    const length = Math.hypot(...sub(coordinates[endIndex], coordinates[startIndex]));
+    if (length <= 0) {
+      errors.push(`Member ${member.id} has zero length`);
+      continue;
+    }
+
+    const axes = memberAxes(coordinates[startIndex], coordinates[endIndex], member.rollAngle ?? 0);
+    const m: PreparedMember = {
+      member,
+      role: member.role ?? inferRole(axes),
+      startIndex,
+      endIndex,
+      length,
+      axes,
+      props: memberProps(section, grade),
+      released: [
+        ...(member.releases?.start ? START_MOMENT_DOFS : []),
+        ...(member.releases?.end ? END_MOMENT_DOFS : []),
+      ],
+      distributed: [0, 0, 0],
+      points: [],
+    };
+    if (model.includeSelfWeight) {
+      // kg/m × g → N/m → N/mm
+      m.distributed = localVector(axes, [0, 0, (-m.props.weight * GRAVITY * caseFactor('D')) / 1000]);
+    }
+    prepared.push(m);
+    memberIndex.set(member.id, m);
+  }
+
+  // Loads (kN → N, kN/m → N/mm, kN-m → N-mm)
+  const dofCount = model.nodes.length * 6;
+  const loadVector = new Array<number>(dofCount).fill(0);
+  for (const load of model.loads) {
+    const factor = caseFactor(load.case ?? 'D');
+    if (load.type === 'nodal') {
+      const index = nodeIndex.get(load.node);
+      if (index === undefined) {
+        errors.push(`Load references unknown node ${load.node}`);
+        continue;
+      }
+      const force = vec(load.force, 1e3 * factor);
+      const moment = vec(load.moment, 1e6 * factor);
+      for (let d = 0; d < 3; d++) {
+        loadVector[index * 6 + d] += force[d];
+        loadVector[index * 6 + 3 + d] += moment[d];
+      }
+      continue;
+    }
+
+    const m = memberIndex.get(load.member);
+    if (!m) {
+      errors.push(`Load references unknown member ${load.member}`);
+      continue;
+    }
+    if (load.type === 'distributed') {
+      const w = localVector(m.axes, vec(load.force, factor));
+      m.distributed = [m.distributed[0] + w[0], m.distributed[1] + w[1], m.distributed[2] + w[2]];
+    } else if (load.position < 0 || load.position > m.length) {
+      errors.push(`Point load on member ${m.member.id} is off the member`);
+    } else {
+      m.points.push({ a: load.position, force: localVector(m.axes, vec(load.force, 1e3 * factor)) });
+    }
+  }
+
+  if (errors.length > 0) return emptyResult(errors, warnings);
+
+  // Assemble
+  const K = zeros(dofCount, dofCount);
+  const condensed = prepared.map(m => {
+    const c = condense(localStiffness(m.props, m.length), fixedEndForces(m), m.released);
+    const Kg = toGlobal(c.k, m.axes);
+    const dofs = [
+      ...[0, 1, 2, 3, 4, 5].map(d => m.startIndex * 6 + d),
+      ...[0, 1, 2, 3, 4, 5].map(d => m.endIndex * 6 + d),
+    ];
+    dofs.forEach((gi, i) => dofs.forEach((gj, j) => { K[gi][gj] += Kg[i][j]; }));
+
+    // Member loads enter as equivalent nodal loads
+    for (let end = 0; end < 2; end++) {
+      const base = end * 6;
+      const force = globalVector(m.axes, [c.f[base], c.f[base + 1], c.f[base + 2]]);
+      const moment = globalVector(m.axes, [c.f[base + 3], c.f[base + 4], c.f[base + 5]]);
+      const node = end === 0 ? m.startIndex : m.endIndex;
+      for (let d = 0; d < 3; d++) {
+        loadVector[node * 6 + d] -= force[d];
+        loadVector[node * 6 + 3 + d] -= moment[d];
+      }
+    }
+    return { ...c, dofs };
+  });
+
+  // Boundary conditions
+  const restrained = new Set<number>();
+  const supported = new Set<number>();
+  model.nodes.forEach((node, i) => {
+    const dofs = SUPPORT_DOFS[node.support ?? 'free'];
+    if (dofs.length > 0) supported.add(i);
+    dofs.forEach(d => restrained.add(i * 6 + d));
+    if (model.dimension === '2d') {
+      PLANAR_RESTRAINED_DOFS.forEach(d => restrained.add(i * 6 + d));
+    }
+  });
+  if (supported.size === 0) {
+    return emptyResult(['Frame has no supports'], warnings);
+  }
+
+  // A DOF nothing stiffens (e.g. rotation at a node where every member is
+  // pinned) carries no load and is held; a loaded one is a mechanism
+  const stiffest = Math.max(...K.map((row, i) => Math.abs(row[i])));
+  for (let dof = 0; dof < dofCount; dof++) {
+    if (restrained.has(dof) || Math.abs(K[dof][dof]) > 1e-9 * stiffest) continue;
+    const node = model.nodes[Math.floor(dof / 6)].id;
+    if (Math.abs(loadVector[dof]) > 0) {
+      errors.push(`Node ${node} has no stiffness in ${DOF_NAMES[dof % 6]} but is loaded`);
+    }
+    restrained.add(dof);
+  }
+  if (errors.length > 0) return emptyResult(errors, warnings);
+
+  const free = [...Array(dofCount).keys()].filter(dof => !restrained.has(dof));
+  const solution = solveLinear(
+    free.map(i => free.map(j => K[i][j])),
+    free.map(i => loadVector[i])
+  );
+  if (!solution) {
+    return emptyResult(['Frame is unstable: supports or connections form a mechanism'], warnings);
+  }
+
+  const d = new Array<number>(dofCount).fill(0);
+  free.forEach((dof, i) => { d[dof] = solution[i]; });
+
+  // Displacements
+  const displacements = model.nodes.map((node, i): NodeDisplacement => ({
+    node: node.id,
+    translation: { x: d[i * 6], y: d[i * 6 + 1], z: d[i * 6 + 2] },
+    rotation: { x: d[i * 6 + 3], y: d[i * 6 + 4], z: d[i * 6 + 5] },
+  }));
+  const maxDisplacement = displacements.reduce(
+    (max, disp) => {
+      const value = Math.hypot(disp.translation.x, disp.translation.y, disp.translation.z);
+      return value > max.value ? { node: disp.node, value } : max;
+    },
+    { node: '', value: 0 }
+  );
+
+  // Reactions: R = K d - P at supported nodes
+  const reactions = [...supported].map((i): SupportReaction => {
+    const reaction = [0, 1, 2, 3, 4, 5].map(local => {
+      const dof = i * 6 + local;
+      if (!restrained.has(dof)) return 0;
+      return K[dof].reduce((sum, k, j) => sum + k * d[j], 0) - loadVector[dof];
+    });
+    return {
+      node: model.nodes[i].id,
+      force: { x: reaction[0] / 1e3, y: reaction[1] / 1e3, z: reaction[2] / 1e3 },
+      moment: { x: reaction[3] / 1e6, y: reaction[4] / 1e6, z: reaction[5] / 1e6 },
+    };
+  });
+
+  // Member forces
+  const members = prepared.map((m, index): MemberAnalysisResult => {
+    const { dofs } = condensed[index];
+    const local = new Array<number>(12).fill(0);
+    for (let block = 0; block < 4; block++) {
+      const g: Vec = [d[dofs[block * 3]], d[dofs[block * 3 + 1]], d[dofs[block * 3 + 2]]];
+      const l = localVector(m.axes, g);
+      local[block * 3] = l[0];
+      local[block * 3 + 1] = l[1];
+      local[block * 3 + 2] = l[2];
+    }
+
+    // Recover the rotations at released ends from the full member stiffness
+    const k = localStiffness(m.props, m.length);
+    const f = fixedEndForces(m);
+    if (m.released.length > 0) {
+      const kept = [...Array(12).keys()].filter(i => !m.released.includes(i));
+      const rhs = m.released.map(r => -f[r] - kept.reduce((sum, j) => sum + k[r][j] * local[j], 0));
+      const rotations = solveLinear(m.released.map(r => m.released.map(c => k[r][c])), rhs) ?? rhs.map(() => 0);
+      m.released.forEach((r, i) => { local[r] = rotations[i]; });
+    }
+    const endForces = k.map((row, i) => row.reduce((sum, kij, j) => sum + kij * local[j], 0) + f[i]);
+
+    const { stations, maxDeflection, maxDisplacement: memberDisplacement } = memberStations(m, endForces, local);
+    return {
+      member: m.member.id,
+      length: m.length,
+      role: m.role,
+      stations,
+      maxCompression: Math.max(0, ...stations.map(s => -s.axial)),
+      maxTension: Math.max(0, ...stations.map(s => s.axial)),
+      maxShear: Math.max(...stations.map(s => Math.hypot(s.shearY, s.shearZ))),
+      maxMomentStrong: Math.max(...stations.map(s => Math.abs(s.momentStrong))),
+      maxMomentWeak: Math.max(...stations.map(s => Math.abs(s.momentWeak))),
+      maxDeflection,
+      maxDisplacement: memberDisplacement,
+      endShear: {
+        start: Math.hypot(endForces[1], endForces[2]) / 1e3,
+        end: Math.hypot(endForces[7], endForces[8]) / 1e3,
+      },
+    };
+  });
+
+  return {
+    isValid: true,
+    errors,
+    warnings,
+    displacements,
+    reactions,
+    members,
+    maxDisplacement,
+  };
+}
+
+// ============================================================================
+// MEMBER CHECKS
+// ============================================================================
+
+export interface FrameDesignOptions {
+  /** Beam deflection limit (default L/360) */
+  deflectionLimit?: string;
+  /** Base plate and anchor details; plate size defaults to the column plus 100mm */
+  basePlate?: Partial<BasePlateInput>;
+}
+
+export interface FrameDesignResult {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+  analysis: FrameAnalysisResult;
+  beamChecks: Array<{ member: string; result: SteelBeamResult }>;
+  columnChecks: Array<{ member: string; result: SteelColumnResult }>;
+  basePlateChecks: Array<{ node: string; member: string; result: BasePlateResult }>;
+}
+
+function roundUpTo(value: number, step: number): number {
+  return Math.ceil(value / step) * step;
+}
+
+/**
+ * Analyze the frame, then check every beam, column and column base
+ * against the analysed forces. Loads are taken as factored, so beam
+ * deflections from the same analysis are conservative.
+ */
+export function designFrame(model: FrameModel, options: FrameDesignOptions = {}): FrameDesignResult {
+  return checkFrameMembers(model, analyzeFrame(model), options);
+}
+
+function checkFrameMembers(
+  model: FrameModel,
+  analysis: FrameAnalysisResult,
+  options: FrameDesignOptions
+): FrameDesignResult {
+  const errors = [...analysis.errors];
+  const warnings = [...analysis.warnings];
+  const result: FrameDesignResult = {
+    isValid: false,
+    errors,
+    warnings,
+    analysis,
+    beamChecks: [],
+    columnChecks: [],
+    basePlateChecks: [],
+  };
+  if (!analysis.isValid) return result;
+
+  const grade = model.steelGrade ?? 'A992';
+  const nodes = new Map(model.nodes.map(n => [n.id, n]));
+  const connections = new Map<string, number>();
+  for (const member of model.members) {
+    connections.set(member.start, (connections.get(member.start) ?? 0) + 1);
+    connections.set(member.end, (connections.get(member.end) ?? 0) + 1);
+  }
+  const isFreeEnd = (nodeId: string) =>
+    (nodes.get(nodeId)?.support ?? 'free') === 'free' && connections.get(nodeId) === 1;
+
+  for (const forces of analysis.members) {
+    const member = model.members.find(m => m.id === forces.member)!;
+    const section = findFrameSection(member.section)!;
+
+    if (forces.role === 'beam') {
+      const cantilever = isFreeEnd(member.start) || isFreeEnd(member.end);
+      const pinned = member.releases?.start && member.releases?.end;
+      const check = calculateSteelBeam({
+        spanLength: forces.length,
+        supportType: cantilever ? 'cantilever' : pinned ? 'simple' : 'fixed-fixed',
+        profileType: section.type,
+        profileSize: member.section,
+        steelGrade: grade,
+        loadType: 'uniform',
+        deadLoad: 0,
+        liveLoad: 0,
+        deflectionLimit: options.deflectionLimit ?? 'L/360',
+        lateralSupport: 'continuous',
+        unbracedLength: forces.length,
+        demand: {
+          Mu: forces.maxMomentStrong,
+          Vu: forces.maxShear,
+          deflection: cantilever ? forces.maxDisplacement : forces.maxDeflection,
+          reactions: { left: forces.endShear.start, right: forces.endShear.end },
+        },
+      });
+      result.beamChecks.push({ member: member.id, result: check });
+      errors.push(...check.errors.map(e => `Beam ${member.id}: ${e}`));
+      warnings.push(...check.warnings.map(w => `Beam ${member.id}: ${w}`));
+    } else if (forces.role === 'column') {
+      const check = calculateSteelColumn({
+        height: forces.length,
+        endConditionX: member.endCondition ?? 'pinned-pinned',
+        endConditionY: member.endCondition ?? 'pinned-pinned',
+        profileType: section.type,
+        profileSize: member.section,
+        steelGrade: grade,
+        axialLoad: forces.maxCompression,
+        momentX: forces.maxMomentStrong,
+        momentY: forces.maxMomentWeak,
+        bracedPointX: 0,
+        bracedPointY: 0,
+      });
+      result.columnChecks.push({ member: member.id, result: check });
+      errors.push(...check.errors.map(e => `Column ${member.id}: ${e}`));
+      warnings.push(...check.warnings.map(w => `Column ${member.id}: ${w}`));
+    } else {
+      warnings.push(`Brace ${member.id} is not checked; use the diagonal bracing calculation`);
+    }
+  }
+
+  // Column bases at supports
+  for (const reaction of analysis.reactions) {
+    const column = model.members.find(m =>
+      (m.start === reaction.node || m.end === reaction.node) &&
+      analysis.members.find(f => f.member === m.id)?.role === 'column'
+    );
+    if (!column) continue;
+    const section = findFrameSection(column.section)!;
+
+    const hasMoment = Math.abs(reaction.moment.x) > 1e-6 || Math.abs(reaction.moment.y) > 1e-6;
+    const hasShear = Math.abs(reaction.force.x) > 1e-6 || Math.abs(reaction.force.y) > 1e-6;
+    const check = calculateBasePlate({
+      loadType: hasMoment && hasShear ? 'combined' : hasMoment ? 'axial-moment' : hasShear ? 'axial-shear' : 'axial-only',
+      axialLoad: Math.max(0, reaction.force.z),
+      axialTension: Math.max(0, -reaction.force.z),
+      momentX: Math.abs(reaction.moment.x),
+      momentY: Math.abs(reaction.moment.y),
+      shearX: Math.abs(reaction.force.x),
+      shearY: Math.abs(reaction.force.y),
+      columnDepth: section.d,
+      columnWidth: section.bf,
+      plateWidth: Math.max(300, roundUpTo(section.bf + 100, 25)),
+      plateLength: Math.max(300, roundUpTo(section.d + 100, 25)),
+      plateThickness: 25,
+      plateGrade: 'A36',
+      concreteStrength: '4000psi',
+      anchorType: 'cast-in-place',
+      anchorDiameter: '3/4"',
+      anchorCount: 4,
+      embedmentDepth: 200,
+      edgeDistance: 150,
+      ...options.basePlate,
+    });
+    result.basePlateChecks.push({ node: reaction.node, member: column.id, result: check });
+    errors.push(...check.errors.map(e => `Base plate at ${reaction.node}: ${e}`));
+    warnings.push(...check.warnings.map(w => `Base plate at ${reaction.node}: ${w}`));
+  }
+
+  result.isValid = errors.length === 0;
+  return result;
+}
+
+// ============================================================================
+// LOAD COMBINATIONS
+// ============================================================================
+
+export interface FrameCombinationOptions extends FrameDesignOptions, CombinationOptions {
+  /** Default LRFD; the member checks are strength checks */
+  method?: DesignMethod;
+  /** Explicit combinations; generated from the load cases in the model otherwise */
+  combinations?: LoadCombination[];
+}
+
+export interface GoverningCheck<R> {
+  /** Member id, or support node id for base plates */
+  id: string;
+  combination: LoadCombination;
+  result: R;
+  utilization: number;
+}
+
+export interface FrameCombinationResult {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+  designs: Array<{ combination: LoadCombination; design: FrameDesignResult }>;
+  governing: {
+    beams: GoverningCheck<SteelBeamResult>[];
+    columns: GoverningCheck<SteelColumnResult>[];
+    basePlates: GoverningCheck<BasePlateResult>[];
+  };
+}
+
+function keepGoverning<R extends { isValid: boolean }>(
+  governing: Map<string, GoverningCheck<R>>,
+  id: string,
+  combination: LoadCombination,
+  result: R,
+  utilization: number
+): void {
+  const current = governing.get(id);
+  const governs = !current ||
+    (result.isValid === current.result.isValid ? utilization > current.utilization : !result.isValid);
+  if (governs) governing.set(id, { id, combination, result, utilization });
+}
+
+/**
+ * Analyze and check the frame under every load combination of the load
+ * cases in the model, reporting the governing combination for each beam,
+ * column and base plate.
+ */
+export function designFrameCombinations(
+  model: FrameModel,
+  options: FrameCombinationOptions = {}
+): FrameCombinationResult {
+  const cases = [...new Set<LoadCase>(model.loads.map(load => load.case ?? 'D'))];
+  const combinations = options.combinations
+    ?? generateLoadCombinations(options.method ?? 'LRFD', cases, options);
+
+  const beams = new Map<string, GoverningCheck<SteelBeamResult>>();
+  const columns = new Map<string, GoverningCheck<SteelColumnResult>>();
+  const basePlates = new Map<string, GoverningCheck<BasePlateResult>>();
+  const errors: string[] = [];
+  const warnings = new Set<string>();
+
+  const designs = combinations.map(combination => {
+    const design = checkFrameMembers(model, analyzeFactoredFrame(model, combination.factors), options);
+    for (const { member, result } of design.beamChecks) {
+      keepGoverning(beams, member, combination, result,
+        Math.max(result.flexure.ratio, result.shear.ratio, result.deflection.ratio));
+    }
+    for (const { member, result } of design.columnChecks) {
+      keepGoverning(columns, member, combination, result,
+        result.interaction?.ratio ?? result.axialCapacity.ratio);
+    }
+    for (const { node, result } of design.basePlateChecks) {
+      keepGoverning(basePlates, node, combination, result,
+        Math.max(result.bearing.ratio, result.plateBending.ratio, result.anchors.interactionRatio));
+    }
+    if (!design.analysis.isValid) {
+      errors.push(...design.analysis.errors.map(e => `${combination.name}: ${e}`));
+    }
+    design.warnings.forEach(w => warnings.add(w));
+    return { combination, design };
+  });
+
+  const governing = {
+    beams: [...beams.values()],
+    columns: [...columns.values()],
+    basePlates: [...basePlates.values()],
+  };
+  const label = { beams: 'Beam', columns: 'Column', basePlates: 'Base plate at' };
+  for (const [group, checks] of Object.entries(governing) as Array<[keyof typeof governing, GoverningCheck<{ errors: string[] }>[]]>) {
+    for (const check of checks) {
+      errors.push(...check.result.errors.map(e => `${label[group]} ${check.id} (${check.combination.name}): ${e}`));
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings: [...warnings],
+    designs,
+    governing,
+  };
+}
@@ -3,6 +3,8 @@
  *
  * Elements for structural support:
  * - Steel Frames (I-beams, HSS, channels)
+ * - Frame Analysis (2D/3D direct stiffness)
+ * - Loads & Load Combinations (ASCE 7 snow, wind, seismic; LRFD/ASD)
  * - Aluminum Extrusion Frames (T-slot systems)
  * - Individual Beams (steel, wood)
  * - Columns (steel, wood with buckling)
@@ -34,6 +36,84 @@ export type {
   ExtrusionFrameCalculationResult,
 } from './frames';
 
+// ============================================================================
+// FRAME ANALYSIS
+// ============================================================================
+
+export {
+  analyzeFrame,
+  designFrame,
+} from './frame-analysis';
+
+export type {
+  FrameVector,
+  FrameSupport,
+  FrameNode,
+  FrameMember,
+  FrameLoad,
+  FrameModel,
+  NodeDisplacement,
+  SupportReaction,
+  MemberStation,
+  MemberAnalysisResult,
+  FrameAnalysisResult,
+  FrameDesignOptions,
+  FrameDesignResult,
+  FrameCombinationOptions,
+  FrameCombinationResult,
+  GoverningCheck,
+} from './frame-analysis';
+
+// ============================================================================
+// LOAD COMBINATIONS
+// ============================================================================
+
+export {
+  designFrameCombinations,
+} from './frame-analysis';
+
+export {
+  generateLoadCombinations,
+  combineLoads,
+  calculateSnowLoad,
+  calculateWindLoad,
+  calculateSeismicLoad,
+  runLoadCombinations,
+  checkSteelBeamCombinations,
+  checkWoodBeamCombinations,
+  checkSteelColumnCombinations,
+  checkWoodColumnCombinations,
+  checkBasePlateCombinations,
+  checkDiagonalBracingCombinations,
+  checkBoltedConnectionCombinations,
+  checkWeldedConnectionCombinations,
+  checkSteelFrameCombinations,
+} from './load-combinations';
+
+export type {
+  LoadCase,
+  LoadCaseValues,
+  DesignMethod,
+  LoadCombination,
+  CombinationOptions,
+  RiskCategory,
+  WindExposure,
+  SnowLoadInput,
+  SnowLoadResult,
+  WindLoadInput,
+  WindLoadResult,
+  SiteClass,
+  SeismicSystemType,
+  SeismicLoadInput,
+  SeismicLoadResult,
+  CombinationCheck,
+  CombinationResult,
+  CombinationRunOptions,
+  ColumnLoads,
+  BasePlateLoads,
+  ConnectionLoads,
+} from './load-combinations';
+
 // ============================================================================
 // BEAMS
 // ============================================================================
@@ -43,6 +123,7 @@ export {
   woodBeamElement,
   calculateSteelBeam,
   calculateWoodBeam,
+  steelSectionDepth,
   steelBeamSections,
   steelGradeProps,
   woodSections,
@@ -232,6 +313,7 @@ export const structureDomainInfo = {
     },
   ],
   standards: [
+    'ASCE 7 - Minimum Design Loads for Buildings and Other Structures',
     'AISC 360 - Specification for Structural Steel Buildings',
     'AISC 341 - Seismic Provisions for Structural Steel Buildings',
     'ACI 318 - Building Code Requirements for Structural Concrete',
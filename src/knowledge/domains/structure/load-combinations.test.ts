@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { LoadCombination } from './load-combinations';
+import { combineLoads, generateLoadCombinations, runLoadCombinations } from './load-combinations';
+
+const names = (combinations: LoadCombination[]) => combinations.map(c => c.name);
+
+describe('generateLoadCombinations', () => {
+  it('keeps only the combinations for the cases present', () => {
+    expect(names(generateLoadCombinations('LRFD', ['D', 'L']))).toEqual(['1.4D', '1.2D + 1.6L', '1.2D + L']);
+    // D alone collapses the ASD set to one combination
+    expect(names(generateLoadCombinations('ASD', ['D']))).toEqual(['D']);
+  });
+
+  it('takes each roof load in turn and wind in both directions', () => {
+    const combinations = generateLoadCombinations('LRFD', ['D', 'L', 'Lr', 'S', 'W']);
+    const all = names(combinations);
+
+    expect(all).toContain('1.2D + 1.6L + 0.5Lr');
+    expect(all).toContain('1.2D + 1.6L + 0.5S');
+    expect(all).toContain('1.2D + 1.6S + 0.5W');
+    expect(all).toContain('1.2D + 1.6S - 0.5W');
+    expect(all).toContain('0.9D - W');
+    expect(combinations.find(c => c.name === '1.2D + L + 1.6Lr')?.equation).toBe('2.3.1-3');
+    expect(new Set(all).size).toBe(all.length);
+  });
+
+  it('adds the vertical seismic effect and redundancy to E', () => {
+    const lrfd = generateLoadCombinations('LRFD', ['D', 'L', 'E'], { sds: 1.0, rho: 1.3 });
+    expect(lrfd.filter(c => c.factors.E !== undefined).map(c => c.factors)).toEqual([
+      { D: 1.4, L: 1.0, E: 1.3 },
+      { D: 1.4, L: 1.0, E: -1.3 },
+      { D: 0.7, E: 1.3 },
+      { D: 0.7, E: -1.3 },
+    ]);
+
+    const asd = generateLoadCombinations('ASD', ['D', 'E'], { sds: 1.0 });
+    expect(names(asd)).toContain('1.14D + 0.7E');
+    expect(names(asd)).toContain('0.46D - 0.7E');
+  });
+});
+
+describe('combineLoads', () => {
+  it('sums the factored effects, ignoring cases without a value', () => {
+    const [, gravity] = generateLoadCombinations('LRFD', ['D', 'L']);
+    expect(combineLoads({ D: 10, L: 5, W: 100 }, gravity)).toBeCloseTo(1.2 * 10 + 1.6 * 5, 9);
+    expect(combineLoads({ D: 10 }, gravity)).toBeCloseTo(12, 9);
+  });
+});
+
+describe('runLoadCombinations', () => {
+  const combinations = generateLoadCombinations('LRFD', ['D', 'L']);
+  const check = (ratio: number) => ({ isValid: ratio <= 1, errors: ratio > 1 ? ['overstressed'] : [], warnings: ['check bracing'], ratio });
+
+  it('picks the highest utilization as governing', () => {
+    const run = runLoadCombinations(combinations, c => check(combineLoads({ D: 0.3, L: 0.2 }, c)), r => r.ratio);
+
+    expect(run.isValid).toBe(true);
+    expect(run.governing.combination.name).toBe('1.2D + 1.6L');
+    expect(run.checks).toHaveLength(3);
+    expect(run.warnings).toEqual(['1.2D + 1.6L: check bracing']);
+  });
+
+  it('lets a failing combination govern and counts the other failures', () => {
+    const run = runLoadCombinations(
+      combinations,
+      c => (c.name === '1.4D' ? { ...check(2), ratio: 0 } : check(combineLoads({ D: 0.5, L: 0.5 }, c))),
+      r => r.ratio
+    );
+
+    expect(run.isValid).toBe(false);
+    expect(run.governing.combination.name).toBe('1.2D + 1.6L');
+    expect(run.errors).toEqual(['1.2D + 1.6L: overstressed', '2 other load combinations also fail']);
+  });
+
+  it('needs at least one combination', () => {
+    expect(() => runLoadCombinations([], () => check(0), r => r.ratio)).toThrow('No load combinations to check');
+  });
+});
@@ -0,0 +1,762 @@
+/**
+ * STRUCTURE Domain - Loads and Load Combinations
+ *
+ * ASCE 7-16 load cases for outdoor platforms, canopies and frames:
+ * - Snow (Chapter 7 flat and sloped roof snow)
+ * - Wind (Chapter 26 velocity pressure, force coefficient method)
+ * - Seismic (Chapters 11-12 equivalent lateral force)
+ * - LRFD (2.3) and ASD (2.4) combinations
+ * - Every structural calculator run over every combination,
+ *   reporting the governing case
+ */
+
+import { calculateSteelBeam, calculateWoodBeam } from './beams';
+import type { SteelBeamInput, SteelBeamResult, WoodBeamInput, WoodBeamResult } from './beams';
+import { calculateSteelColumn, calculateWoodColumn } from './columns';
+import type { SteelColumnInput, SteelColumnResult, WoodColumnInput, WoodColumnResult } from './columns';
+import { calculateBasePlate } from './base-plates';
+import type { BasePlateInput, BasePlateResult } from './base-plates';
+import { calculateDiagonalBracing } from './bracing';
+import type { DiagonalBracingInput, DiagonalBracingResult } from './bracing';
+import { calculateBoltedConnection, calculateWeldedConnection } from './connections';
+import type {
+  BoltedConnectionInput,
+  BoltedConnectionResult,
+  WeldedConnectionInput,
+  WeldedConnectionResult,
+} from './connections';
+import { calculateSteelFrame } from './frames';
+import type { SteelFrameCalculationInput, SteelFrameCalculationResult } from './frames';
+
+// ============================================================================
+// LOAD CASES AND COMBINATIONS
+// ============================================================================
+
+/**
+ * D dead, L live, Lr roof live, S snow, W wind, E seismic
+ */
+export type LoadCase = 'D' | 'L' | 'Lr' | 'S' | 'W' | 'E';
+
+/** A load effect (force, moment or line load) per case */
+export type LoadCaseValues = Partial<Record<LoadCase, number>>;
+
+export type DesignMethod = 'LRFD' | 'ASD';
+
+export interface LoadCombination {
+  name: string;
+  method: DesignMethod;
+  /** ASCE 7 equation, e.g. "2.3.1-2" */
+  equation: string;
+  factors: LoadCaseValues;
+}
+
+export interface CombinationOptions {
+  /** Short-period design acceleration; adds the vertical seismic effect 0.2·SDS·D */
+  sds?: number;
+  /** Redundancy factor applied to E (default 1.0) */
+  rho?: number;
+}
+
+const LOAD_CASES: LoadCase[] = ['D', 'L', 'Lr', 'S', 'W', 'E'];
+
+// "Lr or S" slots take each roof case present, one combination each
+type CombinationTemplate = {
+  equation: string;
+  factors: LoadCaseValues;
+  roof?: number;
+  reversible?: 'W' | 'E';
+};
+
+function lrfdTemplates(sds: number, rho: number): CombinationTemplate[] {
+  return [
+    { equation: '2.3.1-1', factors: { D: 1.4 } },
+    { equation: '2.3.1-2', factors: { D: 1.2, L: 1.6 }, roof: 0.5 },
+    { equation: '2.3.1-3', factors: { D: 1.2, L: 1.0 }, roof: 1.6 },
+    { equation: '2.3.1-3', factors: { D: 1.2, W: 0.5 }, roof: 1.6, reversible: 'W' },
+    { equation: '2.3.1-4', factors: { D: 1.2, W: 1.0, L: 1.0 }, roof: 0.5, reversible: 'W' },
+    { equation: '2.3.6-1', factors: { D: 1.2 + 0.2 * sds, E: rho, L: 1.0, S: 0.2 }, reversible: 'E' },
+    { equation: '2.3.1-5', factors: { D: 0.9, W: 1.0 }, reversible: 'W' },
+    { equation: '2.3.6-2', factors: { D: 0.9 - 0.2 * sds, E: rho }, reversible: 'E' },
+  ];
+}
+
+function asdTemplates(sds: number, rho: number): CombinationTemplate[] {
+  return [
+    { equation: '2.4.1-1', factors: { D: 1.0 } },
+    { equation: '2.4.1-2', factors: { D: 1.0, L: 1.0 } },
+    { equation: '2.4.1-3', factors: { D: 1.0 }, roof: 1.0 },
+    { equation: '2.4.1-4', factors: { D: 1.0, L: 0.75 }, roof: 0.75 },
+    { equation: '2.4.1-5', factors: { D: 1.0, W: 0.6 }, reversible: 'W' },
+    { equation: '2.4.1-6', factors: { D: 1.0, L: 0.75, W: 0.45 }, roof: 0.75, reversible: 'W' },
+    { equation: '2.4.1-7', factors: { D: 0.6, W: 0.6 }, reversible: 'W' },
+    { equation: '2.4.5-8', factors: { D: 1.0 + 0.14 * sds, E: 0.7 * rho }, reversible: 'E' },
+    { equation: '2.4.5-9', factors: { D: 1.0 + 0.105 * sds, E: 0.525 * rho, L: 0.75, S: 0.75 }, reversible: 'E' },
+    { equation: '2.4.5-10', factors: { D: 0.6 - 0.14 * sds, E: 0.7 * rho }, reversible: 'E' },
+  ];
+}
+
+function formatFactor(factor: number): string {
+  return Number(factor.toFixed(3)).toString();
+}
+
+function combinationName(factors: LoadCaseValues): string {
+  return LOAD_CASES
+    .filter(c => factors[c] !== undefined && factors[c] !== 0)
+    .map((c, i) => {
+      const factor = factors[c]!;
+      const sign = factor < 0 ? (i === 0 ? '-' : ' - ') : (i === 0 ? '' : ' + ');
+      const magnitude = Math.abs(factor);
+      return `${sign}${magnitude === 1 ? '' : formatFactor(magnitude)}${c}`;
+    })
+    .join('');
+}
+
+/**
+ * ASCE 7-16 strength (LRFD) or allowable stress (ASD) combinations for the
+ * cases present. Wind and seismic are taken in both directions.
+ */
+export function generateLoadCombinations(
+  method: DesignMethod,
+  cases: LoadCase[] = LOAD_CASES,
+  options: CombinationOptions = {}
+): LoadCombination[] {
+  const sds = options.sds ?? 0;
+  const rho = options.rho ?? 1.0;
+  const present = new Set<LoadCase>(['D', ...cases]);
+  const templates = method === 'LRFD' ? lrfdTemplates(sds, rho) : asdTemplates(sds, rho);
+  const roofCases = (['Lr', 'S'] as LoadCase[]).filter(c => present.has(c));
+
+  const combinations: LoadCombination[] = [];
+  const seen = new Set<string>();
+
+  for (const template of templates) {
+    if (template.reversible && !present.has(template.reversible)) continue;
+
+    const roofVariants = template.roof !== undefined && roofCases.length > 0
+      ? roofCases.map(c => ({ [c]: (template.factors[c] ?? 0) + template.roof! }))
+      : [{}];
+    const signs = template.reversible ? [1, -1] : [1];
+
+    for (const roof of roofVariants) {
+      for (const sign of signs) {
+        const factors: LoadCaseValues = {};
+        for (const [c, factor] of Object.entries({ ...template.factors, ...roof }) as Array<[LoadCase, number]>) {
+          if (!present.has(c) || factor === 0) continue;
+          factors[c] = c === template.reversible ? sign * factor : factor;
+        }
+
+        const key = LOAD_CASES.map(c => factors[c] ?? 0).join('|');
+        if (seen.has(key)) continue;
+        seen.add(key);
+        combinations.push({ name: combinationName(factors), method, equation: template.equation, factors });
+      }
+    }
+  }
+
+  return combinations;
+}
+
+/**
+ * Factored load effect of one combination
+ */
+export function combineLoads(values: LoadCaseValues, combination: LoadCombination): number {
+  return LOAD_CASES.reduce((sum, c) => sum + (combination.factors[c] ?? 0) * (values[c] ?? 0), 0);
+}
+
+function casesIn(...values: Array<LoadCaseValues | undefined>): LoadCase[] {
+  return LOAD_CASES.filter(c => values.some(v => v?.[c] !== undefined && v[c] !== 0));
+}
+
+// ============================================================================
+// SNOW (ASCE 7-16 CHAPTER 7)
+// ============================================================================
+
+export type RiskCategory = 'I' | 'II' | 'III' | 'IV';
+export type WindExposure = 'B' | 'C' | 'D';
+
+export interface SnowLoadInput {
+  groundSnowLoad: number;       // pg (kPa)
+  exposure: WindExposure;
+  roofExposure: 'fully-exposed' | 'partially-exposed' | 'sheltered';
+  thermalCondition: 'heated' | 'unheated' | 'open-air' | 'freezer';
+  riskCategory: RiskCategory;
+  roofSlope: number;            // degrees
+}
+
+export interface SnowLoadResult {
+  Ce: number;
+  Ct: number;
+  Is: number;
+  Cs: number;
+  flatRoofLoad: number;         // pf (kPa)
+  slopedRoofLoad: number;       // ps (kPa)
+  minimumLoad: number;          // pm (kPa), 0 when not applicable
+  designLoad: number;           // kPa
+}
+
+// Table 7.3-1
+const exposureFactors: Record<WindExposure, Record<SnowLoadInput['roofExposure'], number>> = {
+  B: { 'fully-exposed': 0.9, 'partially-exposed': 1.0, 'sheltered': 1.2 },
+  C: { 'fully-exposed': 0.9, 'partially-exposed': 1.0, 'sheltered': 1.1 },
+  D: { 'fully-exposed': 0.8, 'partially-exposed': 0.9, 'sheltered': 1.0 },
+};
+
+// Table 7.3-2
+const thermalFactors: Record<SnowLoadInput['thermalCondition'], number> = {
+  'heated': 1.0,
+  'unheated': 1.2,
+  'open-air': 1.2,
+  'freezer': 1.3,
+};
+
+// Table 1.5-2
+const snowImportance: Record<RiskCategory, number> = { I: 0.8, II: 1.0, III: 1.1, IV: 1.2 };
+const seismicImportance: Record<RiskCategory, number> = { I: 1.0, II: 1.0, III: 1.25, IV: 1.5 };
+
+export function calculateSnowLoad(input: SnowLoadInput): SnowLoadResult {
+  const Ce = exposureFactors[input.exposure][input.roofExposure];
+  const Ct = thermalFactors[input.thermalCondition];
+  const Is = snowImportance[input.riskCategory];
+  const pg = input.groundSnowLoad;
+
+  const flatRoofLoad = 0.7 * Ce * Ct * Is * pg;
+
+  // Figure 7.4-1, "all other surfaces": no reduction up to a slope that
+  // rises with Ct, then linear to zero at 70°
+  const fullLoadSlope = Ct <= 1.0 ? 30 : Ct <= 1.1 ? 37.5 : 45;
+  const Cs = input.roofSlope <= fullLoadSlope
+    ? 1.0
+    : Math.max(0, (70 - input.roofSlope) / (70 - fullLoadSlope));
+  const slopedRoofLoad = Cs * flatRoofLoad;
+
+  // 7.3.4 minimum for low-slope roofs
+  const minimumLoad = input.roofSlope < 15
+    ? (pg <= 0.96 ? Is * pg : 0.96 * Is)
+    : 0;
+
+  return {
+    Ce,
+    Ct,
+    Is,
+    Cs,
+    flatRoofLoad,
+    slopedRoofLoad,
+    minimumLoad,
+    designLoad: Math.max(slopedRoofLoad, minimumLoad),
+  };
+}
+
+// ============================================================================
+// WIND (ASCE 7-16 CHAPTERS 26-29)
+// ============================================================================
+
+export interface WindLoadInput {
+  basicWindSpeed: number;       // V (m/s)
+  exposure: WindExposure;
+  height: number;               // z (m)
+  topographicFactor?: number;   // Kzt, default 1.0
+  directionalityFactor?: number; // Kd, default 0.85
+  elevationFactor?: number;     // Ke, default 1.0
+  gustFactor?: number;          // G, default 0.85
+  forceCoefficient?: number;    // Cf, default 1.3 (open frames and canopies)
+}
+
+export interface WindLoadResult {
+  Kz: number;
+  velocityPressure: number;     // qz (kPa)
+  designPressure: number;       // p = qz·G·Cf (kPa)
+}
+
+// Table 26.11-1: α and zg (m)
+const terrainConstants: Record<WindExposure, { alpha: number; zg: number }> = {
+  B: { alpha: 7.0, zg: 365.76 },
+  C: { alpha: 9.5, zg: 274.32 },
+  D: { alpha: 11.5, zg: 213.36 },
+};
+
+export function calculateWindLoad(input: WindLoadInput): WindLoadResult {
+  const { alpha, zg } = terrainConstants[input.exposure];
+  const z = Math.min(Math.max(input.height, 4.57), zg);
+  const Kz = 2.01 * Math.pow(z / zg, 2 / alpha);
+
+  const Kzt = input.topographicFactor ?? 1.0;
+  const Kd = input.directionalityFactor ?? 0.85;
+  const Ke = input.elevationFactor ?? 1.0;
+  const qz = 0.613 * Kz * Kzt * Kd * Ke * input.basicWindSpeed * input.basicWindSpeed / 1000;
+
+  return {
+    Kz,
+    velocityPressure: qz,
+    designPressure: qz * (input.gustFactor ?? 0.85) * (input.forceCoefficient ?? 1.3),
+  };
+}
+
+// ============================================================================
+// SEISMIC (ASCE 7-16 CHAPTERS 11-12)
+// ============================================================================
+
+export type SiteClass = 'A' | 'B' | 'C' | 'D' | 'E';
+export type SeismicSystemType = 'steel-moment-frame' | 'concrete-moment-frame' | 'braced-frame' | 'other';
+
+export interface SeismicLoadInput {
+  Ss: number;                   // Mapped short-period acceleration (g)
+  S1: number;                   // Mapped 1-second acceleration (g)
+  siteClass: SiteClass;
+  riskCategory: RiskCategory;
+  responseModification: number; // R
+  seismicWeight: number;        // W (kN)
+  height: number;               // hn (m)
+  systemType: SeismicSystemType;
+  longPeriodTransition?: number; // TL (s), default 8
+}
+
+export interface SeismicLoadResult {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+  Fa: number;
+  Fv: number;
+  SDS: number;
+  SD1: number;
+  seismicDesignCategory: 'A' | 'B' | 'C' | 'D' | 'E' | 'F';
+  importanceFactor: number;
+  period: number;               // Ta (s)
+  responseCoefficient: number;  // Cs
+  baseShear: number;            // V (kN)
+}
+
+// Tables 11.4-1 and 11.4-2; null = site response analysis required
+const FA_BREAKS = [0.25, 0.5, 0.75, 1.0, 1.25, 1.5];
+const FV_BREAKS = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6];
+const siteCoefficientsFa: Record<SiteClass, Array<number | null>> = {
+  A: [0.8, 0.8, 0.8, 0.8, 0.8, 0.8],
+  B: [0.9, 0.9, 0.9, 0.9, 0.9, 0.9],
+  C: [1.3, 1.3, 1.2, 1.2, 1.2, 1.2],
+  D: [1.6, 1.4, 1.2, 1.1, 1.0, 1.0],
+  E: [2.4, 1.7, 1.3, null, null, null],
+};
+const siteCoefficientsFv: Record<SiteClass, Array<number | null>> = {
+  A: [0.8, 0.8, 0.8, 0.8, 0.8, 0.8],
+  B: [0.8, 0.8, 0.8, 0.8, 0.8, 0.8],
+  C: [1.5, 1.5, 1.5, 1.5, 1.5, 1.4],
+  D: [2.4, 2.2, 2.0, 1.9, 1.8, 1.7],
+  E: [4.2, null, null, null, null, null],
+};
+
+// Table 12.8-2: Ct and x for hn in metres
+const periodParameters: Record<SeismicSystemType, { Ct: number; x: number }> = {
+  'steel-moment-frame': { Ct: 0.0724, x: 0.8 },
+  'concrete-moment-frame': { Ct: 0.0466, x: 0.9 },
+  'braced-frame': { Ct: 0.0731, x: 0.75 },
+  'other': { Ct: 0.0488, x: 0.75 },
+};
+
+/**
+ * Interpolate a site coefficient; undefined when the table calls for a
+ * site response analysis
+ */
+function siteCoefficient(table: Array<number | null>, breaks: number[], value: number): number | undefined {
+  if (value <= breaks[0]) return table[0] ?? undefined;
+  for (let i = 1; i < breaks.length; i++) {
+    if (value <= breaks[i]) {
+      const low = table[i - 1];
+      const high = table[i];
+      if (low === null || high === null) return undefined;
+      return low + ((high - low) * (value - breaks[i - 1])) / (breaks[i] - breaks[i - 1]);
+    }
+  }
+  return table[table.length - 1] ?? undefined;
+}
+
+function categoryFrom(value: number, limits: number[], riskCategory: RiskCategory): 'A' | 'B' | 'C' | 'D' {
+  const index = limits.findIndex(limit => value < limit);
+  const base = index === -1 ? 3 : index;
+  const categories = riskCategory === 'IV' ? ['A', 'C', 'D', 'D'] : ['A', 'B', 'C', 'D'];
+  return categories[base] as 'A' | 'B' | 'C' | 'D';
+}
+
+export function calculateSeismicLoad(input: SeismicLoadInput): SeismicLoadResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  let Fa = siteCoefficient(siteCoefficientsFa[input.siteClass], FA_BREAKS, input.Ss);
+  let Fv = siteCoefficient(siteCoefficientsFv[input.siteClass], FV_BREAKS, input.S1);
+  if (Fa === undefined || Fv === undefined) {
+    warnings.push(`Site class ${input.siteClass} at these accelerations requires a site response analysis (11.4.8); using the last tabulated coefficient`);
+    const lastKnown = (table: Array<number | null>) => [...table].reverse().find((v): v is number => v !== null)!;
+    Fa = Fa ?? lastKnown(siteCoefficientsFa[input.siteClass]);
+    Fv = Fv ?? lastKnown(siteCoefficientsFv[input.siteClass]);
+  }
+
+  const SDS = (2 / 3) * Fa * input.Ss;
+  const SD1 = (2 / 3) * Fv * input.S1;
+
+  // Tables 11.6-1 and 11.6-2, with 11.6 for S1 ≥ 0.75
+  const order = ['A', 'B', 'C', 'D', 'E', 'F'];
+  let seismicDesignCategory: SeismicLoadResult['seismicDesignCategory'] = [
+    categoryFrom(SDS, [0.167, 0.33, 0.5], input.riskCategory),
+    categoryFrom(SD1, [0.067, 0.133, 0.2], input.riskCategory),
+  ].sort((a, b) => order.indexOf(b) - order.indexOf(a))[0];
+  if (input.S1 >= 0.75) {
+    seismicDesignCategory = input.riskCategory === 'IV' ? 'F' : 'E';
+  }
+
+  const Ie = seismicImportance[input.riskCategory];
+  const { Ct, x } = periodParameters[input.systemType];
+  const period = Ct * Math.pow(input.height, x);
+  const TL = input.longPeriodTransition ?? 8;
+  const RIe = input.responseModification / Ie;
+
+  // 12.8.1.1
+  let Cs = SDS / RIe;
+  const CsMax = period <= TL ? SD1 / (period * RIe) : (SD1 * TL) / (period * period * RIe);
+  Cs = Math.min(Cs, CsMax);
+  let CsMin = Math.max(0.044 * SDS * Ie, 0.01);
+  if (input.S1 >= 0.6) {
+    CsMin = Math.max(CsMin, (0.5 * input.S1) / RIe);
+  }
+  Cs = Math.max(Cs, CsMin);
+
+  if (['D', 'E', 'F'].includes(seismicDesignCategory) && input.responseModification > 3) {
+    warnings.push(`SDC ${seismicDesignCategory} requires a detailed seismic system (AISC 341) for R = ${input.responseModification}`);
+  }
+  if (input.seismicWeight <= 0) {
+    errors.push('Seismic weight must be positive');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings,
+    Fa,
+    Fv,
+    SDS,
+    SD1,
+    seismicDesignCategory,
+    importanceFactor: Ie,
+    period,
+    responseCoefficient: Cs,
+    baseShear: Cs * input.seismicWeight,
+  };
+}
+
+// ============================================================================
+// RUNNING CALCULATORS OVER COMBINATIONS
+// ============================================================================
+
+interface CalculationResult {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface CombinationCheck<R> {
+  combination: LoadCombination;
+  result: R;
+  /** Largest demand/capacity ratio in the result */
+  utilization: number;
+}
+
+export interface CombinationResult<R> {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+  governing: CombinationCheck<R>;
+  checks: CombinationCheck<R>[];
+}
+
+export interface CombinationRunOptions extends CombinationOptions {
+  method?: DesignMethod;
+  /** Explicit combinations; generated from the cases present otherwise */
+  combinations?: LoadCombination[];
+}
+
+/**
+ * Run a calculation for every combination and pick the one with the
+ * highest utilization. Errors are reported for the governing combination,
+ * plus a count of any others that also fail.
+ */
+export function runLoadCombinations<R extends CalculationResult>(
+  combinations: LoadCombination[],
+  calculate: (combination: LoadCombination) => R,
+  utilization: (result: R) => number
+): CombinationResult<R> {
+  if (combinations.length === 0) {
+    throw new Error('No load combinations to check');
+  }
+
+  const checks = combinations.map((combination): CombinationCheck<R> => {
+    const result = calculate(combination);
+    return { combination, result, utilization: utilization(result) };
+  });
+
+  const governing = checks.reduce((worst, check) =>
+    // A failing combination governs over a passing one with a higher ratio
+    (check.result.isValid === worst.result.isValid ? check.utilization > worst.utilization : !check.result.isValid)
+      ? check
+      : worst
+  );
+
+  const errors = governing.result.errors.map(e => `${governing.combination.name}: ${e}`);
+  const otherFailures = checks.filter(c => c !== governing && !c.result.isValid).length;
+  if (otherFailures > 0) {
+    errors.push(`${otherFailures} other load combination${otherFailures > 1 ? 's' : ''} also fail`);
+  }
+
+  return {
+    isValid: checks.every(c => c.result.isValid),
+    errors,
+    warnings: [...new Set(governing.result.warnings.map(w => `${governing.combination.name}: ${w}`))],
+    governing,
+    checks,
+  };
+}
+
+function combinationsFor(
+  options: CombinationRunOptions,
+  defaultMethod: DesignMethod,
+  ...values: Array<LoadCaseValues | undefined>
+): LoadCombination[] {
+  return options.combinations
+    ?? generateLoadCombinations(options.method ?? defaultMethod, casesIn(...values), options);
+}
+
+/**
+ * NDS load duration of the shortest load in an ASD combination
+ */
+function loadDuration(combination: LoadCombination): string {
+  const f = combination.factors;
+  if (f.W || f.E) return 'ten-minutes';
+  if (f.Lr) return 'seven-days';
+  if (f.S) return 'two-months';
+  if (f.L) return 'ten-years';
+  return 'permanent';
+}
+
+// ============================================================================
+// CALCULATOR ADAPTERS
+// ============================================================================
+
+/**
+ * Steel beam: strength per LRFD combination; deflection under the worst
+ * ASD (service) combination. Loads in kN/m for uniform, kN for point.
+ */
+export function checkSteelBeamCombinations(
+  input: Omit<SteelBeamInput, 'deadLoad' | 'liveLoad' | 'factoredLoad' | 'demand'>,
+  loads: LoadCaseValues,
+  options: CombinationRunOptions = {}
+): CombinationResult<SteelBeamResult> {
+  const cases = casesIn(loads);
+  const service = Math.max(
+    ...generateLoadCombinations('ASD', cases, options).map(c => Math.abs(combineLoads(loads, c)))
+  );
+  const dead = loads.D ?? 0;
+
+  return runLoadCombinations(
+    combinationsFor({ ...options, method: 'LRFD' }, 'LRFD', loads),
+    combination => calculateSteelBeam({
+      ...input,
+      deadLoad: dead,
+      liveLoad: service - dead,
+      factoredLoad: Math.abs(combineLoads(loads, combination)),
+    }),
+    r => Math.max(r.flexure.ratio, r.shear.ratio, r.deflection.ratio)
+  );
+}
+
+/**
+ * Wood beam: ASD, with the load duration factor set by the shortest
+ * load in each combination
+ */
+export function checkWoodBeamCombinations(
+  input: Omit<WoodBeamInput, 'deadLoad' | 'liveLoad' | 'loadDuration'>,
+  loads: LoadCaseValues,
+  options: CombinationRunOptions = {}
+): CombinationResult<WoodBeamResult> {
+  return runLoadCombinations(
+    combinationsFor({ ...options, method: 'ASD' }, 'ASD', loads),
+    combination => {
+      const dead = (combination.factors.D ?? 0) * (loads.D ?? 0);
+      return calculateWoodBeam({
+        ...input,
+        deadLoad: dead,
+        liveLoad: Math.abs(combineLoads(loads, combination)) - dead,
+        loadDuration: loadDuration(combination),
+      });
+    },
+    r => Math.max(
+      r.bending.ratio,
+      r.shear.ratio,
+      r.bearing.ratio,
+      r.deflection.live / r.deflection.allowable_live
+    )
+  );
+}
+
+export interface ColumnLoads {
+  axial: LoadCaseValues;        // kN, compression positive
+  momentX?: LoadCaseValues;     // kN-m
+  momentY?: LoadCaseValues;     // kN-m
+}
+
+/**
+ * Steel column: LRFD axial and biaxial bending. Net tension is reported
+ * as a warning; the compression check then sees zero axial load.
+ */
+export function checkSteelColumnCombinations(
+  input: Omit<SteelColumnInput, 'axialLoad' | 'momentX' | 'momentY'>,
+  loads: ColumnLoads,
+  options: CombinationRunOptions = {}
+): CombinationResult<SteelColumnResult> {
+  return runLoadCombinations(
+    combinationsFor(options, 'LRFD', loads.axial, loads.momentX, loads.momentY),
+    combination => {
+      const axial = combineLoads(loads.axial, combination);
+      const result = calculateSteelColumn({
+        ...input,
+        axialLoad: Math.max(0, axial),
+        momentX: Math.abs(combineLoads(loads.momentX ?? {}, combination)),
+        momentY: Math.abs(combineLoads(loads.momentY ?? {}, combination)),
+      });
+      if (axial < 0) {
+        result.warnings.push(`Net tension of ${(-axial).toFixed(1)} kN`);
+      }
+      return result;
+    },
+    r => r.interaction?.ratio ?? r.axialCapacity.ratio
+  );
+}
+
+/**
+ * Wood column: ASD axial, with the load duration factor per combination
+ */
+export function checkWoodColumnCombinations(
+  input: Omit<WoodColumnInput, 'axialLoad' | 'loadDuration'>,
+  axial: LoadCaseValues,
+  options: CombinationRunOptions = {}
+): CombinationResult<WoodColumnResult> {
+  return runLoadCombinations(
+    combinationsFor({ ...options, method: 'ASD' }, 'ASD', axial),
+    combination => calculateWoodColumn({
+      ...input,
+      axialLoad: Math.max(0, combineLoads(axial, combination)),
+      loadDuration: loadDuration(combination),
+    }),
+    r => r.capacity.ratio
+  );
+}
+
+export interface BasePlateLoads {
+  axial: LoadCaseValues;        // kN, compression positive
+  momentX?: LoadCaseValues;
+  momentY?: LoadCaseValues;
+  shearX?: LoadCaseValues;
+  shearY?: LoadCaseValues;
+}
+
+/**
+ * Base plate and anchors: LRFD. Uplift combinations load the anchors in tension.
+ */
+export function checkBasePlateCombinations(
+  input: Omit<BasePlateInput, 'axialLoad' | 'axialTension' | 'momentX' | 'momentY' | 'shearX' | 'shearY'>,
+  loads: BasePlateLoads,
+  options: CombinationRunOptions = {}
+): CombinationResult<BasePlateResult> {
+  return runLoadCombinations(
+    combinationsFor(options, 'LRFD', loads.axial, loads.momentX, loads.momentY, loads.shearX, loads.shearY),
+    combination => {
+      const axial = combineLoads(loads.axial, combination);
+      return calculateBasePlate({
+        ...input,
+        axialLoad: Math.max(0, axial),
+        axialTension: Math.max(0, -axial),
+        momentX: Math.abs(combineLoads(loads.momentX ?? {}, combination)),
+        momentY: Math.abs(combineLoads(loads.momentY ?? {}, combination)),
+        shearX: Math.abs(combineLoads(loads.shearX ?? {}, combination)),
+        shearY: Math.abs(combineLoads(loads.shearY ?? {}, combination)),
+      });
+    },
+    r => Math.max(r.bearing.ratio, r.plateBending.ratio, r.anchors.interactionRatio)
+  );
+}
+
+/**
+ * Diagonal bracing: LRFD lateral force, typically wind and seismic
+ */
+export function checkDiagonalBracingCombinations(
+  input: Omit<DiagonalBracingInput, 'designForce'>,
+  lateralForce: LoadCaseValues,
+  options: CombinationRunOptions = {}
+): CombinationResult<DiagonalBracingResult> {
+  return runLoadCombinations(
+    combinationsFor(options, 'LRFD', lateralForce),
+    combination => calculateDiagonalBracing({
+      ...input,
+      designForce: Math.abs(combineLoads(lateralForce, combination)),
+    }),
+    r => Math.max(r.capacity.tensionRatio, r.capacity.compressionRatio)
+  );
+}
+
+export interface ConnectionLoads {
+  shear: LoadCaseValues;        // kN
+  moment?: LoadCaseValues;      // kN-m
+  axial?: LoadCaseValues;       // kN
+}
+
+/**
+ * Bolted connection: LRFD reactions
+ */
+export function checkBoltedConnectionCombinations(
+  input: Omit<BoltedConnectionInput, 'reactionShear' | 'reactionMoment' | 'reactionAxial'>,
+  loads: ConnectionLoads,
+  options: CombinationRunOptions = {}
+): CombinationResult<BoltedConnectionResult> {
+  return runLoadCombinations(
+    combinationsFor(options, 'LRFD', loads.shear, loads.moment, loads.axial),
+    combination => calculateBoltedConnection({
+      ...input,
+      reactionShear: Math.abs(combineLoads(loads.shear, combination)),
+      reactionMoment: Math.abs(combineLoads(loads.moment ?? {}, combination)),
+      reactionAxial: Math.abs(combineLoads(loads.axial ?? {}, combination)),
+    }),
+    r => Math.max(r.boltCapacity.demandRatio, r.plateChecks.demandRatio)
+  );
+}
+
+/**
+ * Welded connection: LRFD reactions
+ */
+export function checkWeldedConnectionCombinations(
+  input: Omit<WeldedConnectionInput, 'reactionShear' | 'reactionMoment'>,
+  loads: Omit<ConnectionLoads, 'axial'>,
+  options: CombinationRunOptions = {}
+): CombinationResult<WeldedConnectionResult> {
+  return runLoadCombinations(
+    combinationsFor(options, 'LRFD', loads.shear, loads.moment),
+    combination => calculateWeldedConnection({
+      ...input,
+      reactionShear: Math.abs(combineLoads(loads.shear, combination)),
+      reactionMoment: Math.abs(combineLoads(loads.moment ?? {}, combination)),
+    }),
+    r => r.weldCapacity.demandRatio
+  );
+}
+
+/**
+ * Steel frame: LRFD total design load per combination (kN)
+ */
+export function checkSteelFrameCombinations(
+  input: Omit<SteelFrameCalculationInput, 'designLoad'>,
+  loads: LoadCaseValues,
+  options: CombinationRunOptions = {}
+): CombinationResult<SteelFrameCalculationResult> {
+  return runLoadCombinations(
+    combinationsFor(options, 'LRFD', loads),
+    combination => calculateSteelFrame({
+      ...input,
+      designLoad: Math.abs(combineLoads(loads, combination)),
+    }),
+    r => Math.max(r.beamCheck.utilizationRatio, r.columnCheck?.utilizationRatio ?? 0)
+  );
+}
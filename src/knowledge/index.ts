@@ -7,5 +7,11 @@
 // Core types
 export * from './types';
 
+// Rule expression evaluation
+export * from './rules';
+
 // Domain knowledge
 export * from './domains';
+
+// Unified material database
+export * from './materials';
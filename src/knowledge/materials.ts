@@ -0,0 +1,180 @@
+/**
+ * Material Database
+ *
+ * One catalogue of engineering materials, unified from the domain tables:
+ * - Structural grades (`steelGrades`)
+ * - Shaft bar stock (`shaftMaterials`)
+ * - Sheet stock (`sheetMetalMaterials`)
+ *
+ * Mechanical data comes from those tables; each entry adds the service data
+ * material selection needs (corrosion, temperature limits, cost, stock forms).
+ */
+
+import type { MaterialProperties } from './types';
+import { steelGrades } from './domains/structure/frames';
+import { shaftMaterials } from './domains/mechanical/shafts';
+import { sheetMetalMaterials } from './domains/enclosure/sheet-metal';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type MaterialFamily = 'carbon-steel' | 'alloy-steel' | 'stainless' | 'aluminum' | 'copper-alloy';
+
+export type StockForm = 'structural' | 'tube' | 'plate' | 'sheet' | 'bar';
+
+export type Rating = MaterialProperties['corrosionResistance'];
+
+export interface MaterialRecord {
+  id: string;
+  name: string;
+  family: MaterialFamily;
+  standard: string;
+  /** Ids of the same alloy in the domain tables */
+  aliases: string[];
+  coating?: 'galvanized';
+  properties: MaterialProperties;
+  enduranceLimit: number;        // MPa, 10^6 cycles (estimated when not tabulated)
+  maxServiceTemperature: number; // °C
+  minServiceTemperature: number; // °C, ductile-to-brittle or coating limit
+  costPerKg: number;             // USD
+  availability: 'stock' | 'order' | 'special';
+  forms: StockForm[];
+}
+
+// ============================================================================
+// FAMILY DEFAULTS
+// ============================================================================
+
+/** Structural steel plate price the cost factors are relative to (USD/kg) */
+export const BASE_STEEL_COST = 1.2;
+
+const familyDefaults: Record<MaterialFamily, {
+  density: number;
+  elasticModulus: number;
+  poissonsRatio: number;
+  thermalExpansion: number;
+  maxServiceTemperature: number;
+  minServiceTemperature: number;
+  /** Endurance limit as a fraction of tensile strength */
+  enduranceRatio: number;
+}> = {
+  'carbon-steel': { density: 7850, elasticModulus: 200, poissonsRatio: 0.29, thermalExpansion: 12.0, maxServiceTemperature: 425, minServiceTemperature: -29, enduranceRatio: 0.5 },
+  'alloy-steel': { density: 7850, elasticModulus: 205, poissonsRatio: 0.29, thermalExpansion: 12.3, maxServiceTemperature: 450, minServiceTemperature: -46, enduranceRatio: 0.45 },
+  'stainless': { density: 8000, elasticModulus: 193, poissonsRatio: 0.29, thermalExpansion: 17.3, maxServiceTemperature: 800, minServiceTemperature: -196, enduranceRatio: 0.4 },
+  'aluminum': { density: 2700, elasticModulus: 69, poissonsRatio: 0.33, thermalExpansion: 23.6, maxServiceTemperature: 150, minServiceTemperature: -196, enduranceRatio: 0.3 },
+  'copper-alloy': { density: 8700, elasticModulus: 110, poissonsRatio: 0.34, thermalExpansion: 18.5, maxServiceTemperature: 200, minServiceTemperature: -196, enduranceRatio: 0.3 },
+};
+
+// ============================================================================
+// CATALOGUE
+// ============================================================================
+
+interface CatalogEntry {
+  id: string;
+  name: string;
+  family: MaterialFamily;
+  standard: string;
+  /** Where the mechanical data comes from, first match wins */
+  steelGrade?: string;
+  shaft?: string;
+  sheet?: string;
+  coating?: 'galvanized';
+  /** Other names in common use, e.g. 'SS316' */
+  aliases?: string[];
+  corrosionResistance: Rating;
+  weldability: Rating;
+  machinability: Rating;
+  costFactor: number;            // per kg, A36 = 1.0
+  availability: MaterialRecord['availability'];
+  forms: StockForm[];
+  maxServiceTemperature?: number;
+  minServiceTemperature?: number;
+}
+
+const catalog: CatalogEntry[] = [
+  // Carbon and HSLA steels
+  { id: 'A36', name: 'A36 Structural Steel', family: 'carbon-steel', standard: 'ASTM A36', steelGrade: 'A36', corrosionResistance: 'poor', weldability: 'excellent', machinability: 'good', costFactor: 1.0, availability: 'stock', forms: ['structural', 'plate', 'bar'] },
+  { id: 'A36-HDG', name: 'A36 Hot-Dip Galvanized', family: 'carbon-steel', standard: 'ASTM A36 / A123', steelGrade: 'A36', coating: 'galvanized', aliases: ['HDG', 'A36 Galvanized'], corrosionResistance: 'good', weldability: 'fair', machinability: 'good', costFactor: 1.35, availability: 'stock', forms: ['structural', 'plate', 'tube'], maxServiceTemperature: 200 },
+  { id: 'A572-50', name: 'A572 Grade 50 HSLA Steel', family: 'carbon-steel', standard: 'ASTM A572', steelGrade: 'A572-50', aliases: ['A572 Grade 50', 'Grade 50', 'HSLA'], corrosionResistance: 'poor', weldability: 'good', machinability: 'good', costFactor: 1.1, availability: 'stock', forms: ['structural', 'plate'] },
+  { id: 'A992', name: 'A992 Wide-Flange Steel', family: 'carbon-steel', standard: 'ASTM A992', steelGrade: 'A992', corrosionResistance: 'poor', weldability: 'excellent', machinability: 'good', costFactor: 1.05, availability: 'stock', forms: ['structural'] },
+  { id: 'A500-B', name: 'A500 Grade B HSS', family: 'carbon-steel', standard: 'ASTM A500', steelGrade: 'A500-B', corrosionResistance: 'poor', weldability: 'excellent', machinability: 'good', costFactor: 1.15, availability: 'stock', forms: ['tube'] },
+  { id: 'A500-C', name: 'A500 Grade C HSS', family: 'carbon-steel', standard: 'ASTM A500', steelGrade: 'A500-C', corrosionResistance: 'poor', weldability: 'excellent', machinability: 'good', costFactor: 1.2, availability: 'stock', forms: ['tube'] },
+  { id: 'CRS', name: 'Cold Rolled Steel (1008/1010)', family: 'carbon-steel', standard: 'ASTM A1008', sheet: 'CRS', aliases: ['Cold Rolled'], corrosionResistance: 'poor', weldability: 'excellent', machinability: 'good', costFactor: 1.1, availability: 'stock', forms: ['sheet'] },
+  { id: 'HRS', name: 'Hot Rolled Steel (1011)', family: 'carbon-steel', standard: 'ASTM A1011', sheet: 'HRS', aliases: ['Hot Rolled'], corrosionResistance: 'poor', weldability: 'excellent', machinability: 'good', costFactor: 0.95, availability: 'stock', forms: ['sheet', 'plate'] },
+  { id: 'G90', name: 'Galvanized Steel Sheet (G90)', family: 'carbon-steel', standard: 'ASTM A653', sheet: 'galvanized', coating: 'galvanized', corrosionResistance: 'good', weldability: 'fair', machinability: 'good', costFactor: 1.25, availability: 'stock', forms: ['sheet'], maxServiceTemperature: 200 },
+  { id: '1045', name: 'AISI 1045 Carbon Steel', family: 'carbon-steel', standard: 'ASTM A29', shaft: '1045-steel', corrosionResistance: 'poor', weldability: 'fair', machinability: 'good', costFactor: 1.4, availability: 'stock', forms: ['bar'] },
+
+  // Alloy steels
+  { id: '4140', name: 'AISI 4140 Alloy Steel', family: 'alloy-steel', standard: 'ASTM A29', shaft: '4140-steel', aliases: ['Chromoly', 'Chrome-Moly'], corrosionResistance: 'poor', weldability: 'poor', machinability: 'fair', costFactor: 2.0, availability: 'stock', forms: ['bar', 'plate'] },
+  { id: '4340', name: 'AISI 4340 Alloy Steel', family: 'alloy-steel', standard: 'ASTM A29', shaft: '4340-steel', corrosionResistance: 'poor', weldability: 'poor', machinability: 'fair', costFactor: 2.8, availability: 'order', forms: ['bar'] },
+
+  // Stainless steels
+  { id: '303', name: '303 Stainless Steel', family: 'stainless', standard: 'ASTM A582', shaft: '303-stainless', corrosionResistance: 'fair', weldability: 'poor', machinability: 'excellent', costFactor: 3.8, availability: 'stock', forms: ['bar'] },
+  { id: '304', name: '304 Stainless Steel', family: 'stainless', standard: 'ASTM A240', sheet: 'stainless-304', aliases: ['304L', 'SS304', '18-8'], corrosionResistance: 'good', weldability: 'good', machinability: 'fair', costFactor: 4.0, availability: 'stock', forms: ['sheet', 'plate', 'bar', 'tube'] },
+  { id: '316', name: '316 Stainless Steel', family: 'stainless', standard: 'ASTM A240', shaft: '316-stainless', sheet: 'stainless-316', aliases: ['316L', 'SS316', 'Marine Grade Stainless'], corrosionResistance: 'excellent', weldability: 'good', machinability: 'fair', costFactor: 5.0, availability: 'stock', forms: ['sheet', 'plate', 'bar', 'tube', 'structural'] },
+  { id: '17-4PH', name: '17-4 PH Stainless Steel', family: 'stainless', standard: 'ASTM A564', shaft: '17-4ph', aliases: ['17-4', '630'], corrosionResistance: 'good', weldability: 'fair', machinability: 'fair', costFactor: 6.5, availability: 'order', forms: ['bar', 'plate'], maxServiceTemperature: 315 },
+
+  // Aluminum
+  { id: '5052-H32', name: '5052-H32 Aluminum', family: 'aluminum', standard: 'ASTM B209', sheet: 'aluminum-5052', corrosionResistance: 'excellent', weldability: 'good', machinability: 'fair', costFactor: 4.0, availability: 'stock', forms: ['sheet', 'plate'] },
+  { id: '6061-T6', name: '6061-T6 Aluminum', family: 'aluminum', standard: 'ASTM B221', shaft: '6061-aluminum', sheet: 'aluminum-6061', corrosionResistance: 'good', weldability: 'fair', machinability: 'excellent', costFactor: 5.0, availability: 'stock', forms: ['sheet', 'plate', 'bar', 'tube', 'structural'] },
+  { id: '7075-T6', name: '7075-T6 Aluminum', family: 'aluminum', standard: 'ASTM B209', shaft: '7075-aluminum', corrosionResistance: 'fair', weldability: 'poor', machinability: 'good', costFactor: 8.0, availability: 'order', forms: ['plate', 'bar'], maxServiceTemperature: 120 },
+
+  // Copper alloys
+  { id: 'C110', name: 'C110 Copper', family: 'copper-alloy', standard: 'ASTM B152', sheet: 'copper', corrosionResistance: 'good', weldability: 'fair', machinability: 'poor', costFactor: 8.5, availability: 'order', forms: ['sheet', 'bar'] },
+  { id: 'C260', name: 'C260 Cartridge Brass', family: 'copper-alloy', standard: 'ASTM B36', sheet: 'brass', aliases: ['Cartridge Brass'], corrosionResistance: 'good', weldability: 'poor', machinability: 'excellent', costFactor: 6.5, availability: 'order', forms: ['sheet', 'bar'] },
+];
+
+function buildRecord(entry: CatalogEntry): MaterialRecord {
+  const defaults = familyDefaults[entry.family];
+  const grade = entry.steelGrade ? steelGrades[entry.steelGrade] : undefined;
+  const shaft = entry.shaft ? shaftMaterials.find(m => m.id === entry.shaft) : undefined;
+  const sheet = entry.sheet ? sheetMetalMaterials.find(m => m.id === entry.sheet) : undefined;
+  if (!grade && !shaft && !sheet) {
+    throw new Error(`Material ${entry.id} has no source data`);
+  }
+
+  const yieldStrength = grade?.Fy ?? shaft?.yieldStrength ?? sheet!.yieldStrength;
+  const tensileStrength = grade?.Fu ?? shaft?.tensileStrength ?? sheet!.tensileStrength;
+
+  return {
+    id: entry.id,
+    name: entry.name,
+    family: entry.family,
+    standard: entry.standard,
+    aliases: [entry.steelGrade, entry.shaft, entry.sheet, ...(entry.aliases ?? [])].filter((a): a is string => a !== undefined),
+    coating: entry.coating,
+    properties: {
+      density: shaft?.density ?? sheet?.density ?? defaults.density,
+      yieldStrength,
+      tensileStrength,
+      elasticModulus: shaft?.elasticModulus ?? sheet?.elasticModulus ?? defaults.elasticModulus,
+      poissonsRatio: defaults.poissonsRatio,
+      thermalExpansion: defaults.thermalExpansion,
+      corrosionResistance: entry.corrosionResistance,
+      weldability: entry.weldability,
+      machinability: shaft?.machinability ?? entry.machinability,
+      costFactor: entry.costFactor,
+    },
+    enduranceLimit: shaft?.enduranceLimit ?? Math.round(defaults.enduranceRatio * tensileStrength),
+    maxServiceTemperature: entry.maxServiceTemperature ?? defaults.maxServiceTemperature,
+    minServiceTemperature: entry.minServiceTemperature ?? defaults.minServiceTemperature,
+    costPerKg: Math.round(entry.costFactor * BASE_STEEL_COST * 100) / 100,
+    availability: entry.availability,
+    forms: entry.forms,
+  };
+}
+
+export const materialDatabase: MaterialRecord[] = catalog.map(buildRecord);
+
+/**
+ * Look up a material by id, domain-table alias or name (case-insensitive)
+ */
+export function findMaterial(query: string): MaterialRecord | undefined {
+  const q = query.toLowerCase();
+  return materialDatabase.find(m =>
+    m.id.toLowerCase() === q ||
+    m.aliases.some(a => a.toLowerCase() === q) ||
+    m.name.toLowerCase() === q
+  );
+}
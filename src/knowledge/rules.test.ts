@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import { convertLength, evaluateExpression, evaluateRule, evaluateRules, parseExpression } from './rules';
+import type { ElementDefinition, ParameterDefinition, Rule } from './types';
+import { steelBeamElement } from './domains/structure/beams';
+import { stairsElement } from './domains/access/stairs';
+
+function rule(expression: Rule['expression'], type: Rule['type'] = 'constraint'): Rule {
+  return { id: 'r', name: 'Rule', description: 'Test rule', type, expression, errorMessage: 'Rule violated' };
+}
+
+describe('evaluateExpression', () => {
+  it('applies arithmetic precedence and associativity', () => {
+    expect(evaluateExpression('2 + 3 * 4', {})).toBe(14);
+    expect(evaluateExpression('(2 + 3) * 4', {})).toBe(20);
+    expect(evaluateExpression('10 - 4 - 3', {})).toBe(3);
+    expect(evaluateExpression('2 ^ 3 ^ 2', {})).toBe(512);
+    expect(evaluateExpression('-2 ^ 2', {})).toBe(-4);
+    expect(evaluateExpression('7 % 4 + 1.5e1', {})).toBe(18);
+  });
+
+  it('ranks comparison below arithmetic and logic below comparison', () => {
+    expect(evaluateExpression('1 + 1 == 2 && 3 > 2 * 2 || !false', {})).toBe(true);
+    expect(evaluateExpression('a >= 5 && a <= 10', { a: 12 })).toBe(false);
+  });
+
+  it('converts literal unit suffixes to mm', () => {
+    expect(evaluateExpression('42in', {})).toBeCloseTo(1066.8, 9);
+    expect(evaluateExpression('1.5m + 3cm', {})).toBe(1530);
+    expect(convertLength(1, 'ft', 'in')).toBeCloseTo(12, 9);
+  });
+
+  it('compares strings and numeric strings', () => {
+    expect(evaluateExpression('rating >= "IP54"', { rating: 'IP65' })).toBe(true);
+    expect(evaluateExpression("kind == 'round'", { kind: 'round' })).toBe(true);
+    expect(evaluateExpression('size > 2', { size: '3/4"' })).toBe(true);
+  });
+
+  it('short-circuits logical operators', () => {
+    expect(evaluateExpression('false && missing > 1', {})).toBe(false);
+    expect(evaluateExpression('true || missing > 1', {})).toBe(true);
+  });
+
+  it('calls whitelisted functions only', () => {
+    expect(evaluateExpression('max(1, min(4, 9), 3) + sqrt(16)', {})).toBe(8);
+    expect(evaluateExpression('twice(a)', { a: 4 }, { twice: x => 2 * x })).toBe(8);
+    expect(() => evaluateExpression('system(1)', {})).toThrow('Unknown function "system"');
+    expect(() => evaluateExpression('toString(1)', {})).toThrow('Unknown function "toString"');
+    expect(() => evaluateExpression('constructor(1)', {})).toThrow('Unknown function');
+  });
+
+  it('reports syntax and evaluation errors', () => {
+    expect(() => parseExpression('1 +')).toThrow('Unexpected end of expression');
+    expect(() => parseExpression('(1 + 2')).toThrow('Expected ")"');
+    expect(() => parseExpression('1 2')).toThrow('Unexpected trailing input');
+    expect(() => parseExpression('3 # 4')).toThrow('Unexpected character "#"');
+    expect(() => parseExpression('"open')).toThrow('Unterminated string');
+    expect(() => parseExpression('3furlongs')).toThrow('Unknown unit "furlongs"');
+    expect(() => evaluateExpression('1 / 0', {})).toThrow('Division by zero');
+    expect(() => evaluateExpression('a * 2', {})).toThrow('Parameter "a" is not defined');
+    expect(() => evaluateExpression('"abc" * 2', {})).toThrow('Expected a number');
+  });
+
+  it('treats assignment to a provided parameter as an equality check', () => {
+    expect(evaluateExpression('area = 2 * 3', {})).toBe(6);
+    expect(evaluateExpression('grounded = true', { grounded: true })).toBe(true);
+    expect(evaluateExpression('grounded = true', { grounded: false })).toBe(false);
+  });
+});
+
+describe('evaluateRule', () => {
+  const parameters: ParameterDefinition[] = [
+    { id: 'height', name: 'Height', type: 'number', unit: 'in', required: true, description: 'Guard height' },
+    { id: 'width', name: 'Width', type: 'number', unit: 'mm', default: 1000, required: true, description: 'Clear width' },
+  ];
+
+  it('checks ranges in mm whatever unit the value was given in', () => {
+    const range = rule({ type: 'range', param: 'height', min: 1000 });
+
+    expect(evaluateRule(range, { height: 42 }, { parameters }).status).toBe('passed');
+    expect(evaluateRule(range, { height: { value: 0.9, unit: 'm' } }, { parameters })).toMatchObject({
+      status: 'failed',
+      passed: false,
+      message: 'Rule violated',
+      detail: 'height = 900 mm, below minimum 1000',
+    });
+  });
+
+  it('falls back to parameter defaults and skips rules with missing values', () => {
+    const ratio = rule({ type: 'ratio', param1: 'width', param2: 'depth', max: 4 });
+
+    expect(evaluateRule(ratio, { depth: 200 }, { parameters }).status).toBe('failed');
+    expect(evaluateRule(ratio, { depth: 250 }, { parameters }).status).toBe('passed');
+    expect(evaluateRule(ratio, {}, { parameters })).toMatchObject({ status: 'skipped', passed: true, missing: ['depth'] });
+    expect(evaluateRule(ratio, { depth: 0 }, { parameters })).toMatchObject({ status: 'error', passed: true });
+  });
+
+  it('stores a formula under an identifier-only result', () => {
+    const stored = evaluateRule(rule({ type: 'formula', formula: 'width * 2', result: 'double_width' }, 'calculation'), {}, { parameters });
+    expect(stored.status).toBe('passed');
+    expect(stored.computed).toEqual({ double_width: 2000 });
+  });
+
+  it('fails a formula whose result check does not hold', () => {
+    const check = rule({ type: 'formula', formula: 'total = 2 * riser + tread', result: 'total >= 610 && total <= 660' });
+
+    expect(evaluateRule(check, { riser: 178, tread: 279 })).toMatchObject({ status: 'passed', computed: { total: 635 } });
+    const failed = evaluateRule(check, { riser: 150, tread: 279 });
+    expect(failed.status).toBe('failed');
+    expect(failed.detail).toBe('total >= 610 && total <= 660 not satisfied (riser = 150, tread = 279, total = 579)');
+  });
+
+  it('evaluates conditional and required-if rules', () => {
+    const conditional = rule({
+      type: 'conditional',
+      condition: 'use == "commercial"',
+      then: { type: 'range', param: 'width', min: 1118 },
+    });
+    expect(evaluateRule(conditional, { use: 'residential' }, { parameters }).status).toBe('not-applicable');
+    expect(evaluateRule(conditional, { use: 'commercial' }, { parameters }).status).toBe('failed');
+
+    const required = rule({ type: 'required-if', param: 'landing', condition: 'rise > 3658' });
+    expect(evaluateRule(required, { rise: 4000 }).status).toBe('failed');
+    expect(evaluateRule(required, { rise: 4000, landing: true }).status).toBe('passed');
+  });
+
+  it('makes values computed by earlier rules visible to later ones', () => {
+    const [area, check] = evaluateRules([
+      rule({ type: 'formula', formula: 'area = width * depth', result: 'area' }, 'calculation'),
+      rule({ type: 'range', param: 'area', max: 100000 }),
+    ], { depth: 200 }, { parameters });
+
+    expect(area.computed.area).toBe(200000);
+    expect(check.status).toBe('failed');
+  });
+});
+
+describe('knowledge base rules', () => {
+  function check(element: ElementDefinition, ruleId: string, params: Record<string, unknown>) {
+    const derived = element.deriveParameters ? { ...element.deriveParameters(params), ...params } : params;
+    const rules = element.rules.filter(r => r.id === ruleId);
+    return evaluateRules(rules, derived, { parameters: element.parameters })[0];
+  }
+
+  it('checks the stair comfort formula against 610-660 mm', () => {
+    expect(check(stairsElement, 'riser_tread_formula', { riser_height: 178, tread_depth: 279 }).status).toBe('passed');
+    expect(check(stairsElement, 'riser_tread_formula', { riser_height: 190, tread_depth: 300 }).status).toBe('failed');
+  });
+
+  it('reads beam depth from the profile size', () => {
+    expect(check(steelBeamElement, 'deflection_check', { span_length: 6000, profile_size: 'W24x68' }).status).toBe('passed');
+    expect(check(steelBeamElement, 'deflection_check', { span_length: 6000, profile_size: 'W8x31' })).toMatchObject({
+      status: 'failed',
+      ruleType: 'recommendation',
+    });
+    expect(check(steelBeamElement, 'deflection_check', { span_length: 6000, profile_size: 'custom' }).status).toBe('skipped');
+  });
+});
@@ -0,0 +1,774 @@
+/**
+ * Rule Expression Evaluator
+ *
+ * Sandboxed evaluator for the declarative RuleExpression objects attached to
+ * every ElementDefinition. Formula and condition strings are parsed by a small
+ * recursive-descent parser (no eval), so only arithmetic, comparisons, logical
+ * operators and a whitelisted function table are reachable.
+ *
+ * All lengths are normalized to millimeters before evaluation: plain numbers
+ * and numeric select values are read in the unit their parameter definition
+ * declares, quantities carry their own unit and literals may carry a suffix.
+ */
+
+import type { Rule, RuleExpression, ParameterDefinition, Units } from './types';
+import { getMinSafetyDistance, getMaxOpeningSize } from './domains/enclosure/fencing';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type RuleValue = number | string | boolean;
+
+/** A value with an explicit unit, e.g. { value: 3, unit: 'm' } */
+export interface Quantity {
+  value: number;
+  unit: Units;
+}
+
+export type RuleFunction = (...args: number[]) => number;
+
+export type RuleStatus =
+  | 'passed'          // Rule evaluated and satisfied
+  | 'failed'          // Rule evaluated and violated
+  | 'not-applicable'  // Condition of a conditional rule did not hold
+  | 'skipped'         // Referenced parameters were not provided
+  | 'error';          // Expression could not be parsed or evaluated
+
+export interface RuleOperand {
+  name: string;
+  value: RuleValue;
+  unit?: Units;
+}
+
+export interface RuleEvaluation {
+  ruleId: string;
+  ruleName: string;
+  ruleType: Rule['type'];
+  status: RuleStatus;
+  /** False only when the rule was evaluated and violated */
+  passed: boolean;
+  /** Standard the rule is cited from */
+  source?: string;
+  /** Rule error message (or description) when not passed */
+  message?: string;
+  /** Human-readable explanation of the offending values */
+  detail?: string;
+  /** Parameter values the rule actually read */
+  values: RuleOperand[];
+  /** Values produced by formula rules */
+  computed: Record<string, RuleValue>;
+  /** Parameters that were required but not provided */
+  missing: string[];
+}
+
+export interface RuleEvaluationOptions {
+  /** Parameter definitions used for defaults and unit normalization */
+  parameters?: ParameterDefinition[];
+  /** Additional functions callable from formulas */
+  functions?: Record<string, RuleFunction>;
+}
+
+// =============================================================================
+// UNITS
+// =============================================================================
+
+const MM_PER_UNIT: Record<Units, number> = {
+  mm: 1,
+  cm: 10,
+  m: 1000,
+  in: 25.4,
+  ft: 304.8,
+};
+
+const UNIT_SUFFIXES = Object.keys(MM_PER_UNIT) as Units[];
+
+/**
+ * Convert a length between units
+ */
+export function convertLength(value: number, from: Units, to: Units): number {
+  return (value * MM_PER_UNIT[from]) / MM_PER_UNIT[to];
+}
+
+function isQuantity(value: unknown): value is Quantity {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Quantity).value === 'number' &&
+    typeof (value as Quantity).unit === 'string' &&
+    (value as Quantity).unit in MM_PER_UNIT
+  );
+}
+
+// =============================================================================
+// FUNCTIONS
+// =============================================================================
+
+/**
+ * Functions available to every formula. Names match those used in the
+ * knowledge base rule definitions.
+ */
+export const defaultRuleFunctions: Record<string, RuleFunction> = {
+  min: (...args) => Math.min(...args),
+  max: (...args) => Math.max(...args),
+  abs: (x) => Math.abs(x),
+  sqrt: (x) => Math.sqrt(x),
+  pow: (x, y) => Math.pow(x, y),
+  floor: (x) => Math.floor(x),
+  ceil: (x) => Math.ceil(x),
+  round: (x) => Math.round(x),
+  getSafetyDistance: (opening) => getMinSafetyDistance(opening),
+  getMaxOpening: (distance) => getMaxOpeningSize(distance),
+};
+
+// =============================================================================
+// TOKENIZER
+// =============================================================================
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'ident'; value: string }
+  | { kind: 'op'; value: string }
+  | { kind: 'eof' };
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '+', '-', '*', '/', '%', '^', '!', '=', '(', ')', ','];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // Numbers, with an optional directly-attached unit suffix (e.g. 42in)
+    if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(source.slice(i));
+      if (!match) throw new Error(`Invalid number at position ${i} in "${source}"`);
+      let value = parseFloat(match[0]);
+      i += match[0].length;
+
+      const suffix = /^[a-z]+/i.exec(source.slice(i));
+      if (suffix) {
+        const unit = suffix[0].toLowerCase() as Units;
+        if (!UNIT_SUFFIXES.includes(unit)) {
+          throw new Error(`Unknown unit "${suffix[0]}" in "${source}"`);
+        }
+        value = convertLength(value, unit, 'mm');
+        i += suffix[0].length;
+      }
+
+      tokens.push({ kind: 'number', value });
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      tokens.push({ kind: 'ident', value: match[0] });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          value += source[i + 1];
+          i += 2;
+        } else {
+          value += source[i++];
+        }
+      }
+      if (i >= source.length) throw new Error(`Unterminated string in "${source}"`);
+      i++;
+      tokens.push({ kind: 'string', value });
+      continue;
+    }
+
+    const op = OPERATORS.find(o => source.startsWith(o, i));
+    if (!op) throw new Error(`Unexpected character "${ch}" at position ${i} in "${source}"`);
+    tokens.push({ kind: 'op', value: op });
+    i += op.length;
+  }
+
+  tokens.push({ kind: 'eof' });
+  return tokens;
+}
+
+// =============================================================================
+// PARSER
+// =============================================================================
+
+export type ExpressionNode =
+  | { type: 'literal'; value: RuleValue }
+  | { type: 'identifier'; name: string }
+  | { type: 'unary'; op: '-' | '!'; operand: ExpressionNode }
+  | { type: 'binary'; op: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] }
+  | { type: 'assign'; name: string; value: ExpressionNode };
+
+const BINARY_PRECEDENCE: string[][] = [
+  ['||'],
+  ['&&'],
+  ['==', '!='],
+  ['<', '<=', '>', '>='],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+class Parser {
+  private pos = 0;
+
+  constructor(private tokens: Token[], private source: string) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseAssignment();
+    this.expectEnd();
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.peek();
+    return token.kind === 'op' && token.value === value;
+  }
+
+  private expectOp(value: string): void {
+    if (!this.isOp(value)) throw this.error(`Expected "${value}"`);
+    this.pos++;
+  }
+
+  private expectEnd(): void {
+    if (this.peek().kind !== 'eof') throw this.error('Unexpected trailing input');
+  }
+
+  private error(message: string): Error {
+    return new Error(`${message} at token ${this.pos} in "${this.source}"`);
+  }
+
+  private parseAssignment(): ExpressionNode {
+    const token = this.peek();
+    const next = this.tokens[this.pos + 1];
+    if (token.kind === 'ident' && next?.kind === 'op' && next.value === '=') {
+      this.pos += 2;
+      return { type: 'assign', name: token.value, value: this.parseBinary(0) };
+    }
+    return this.parseBinary(0);
+  }
+
+  private parseBinary(level: number): ExpressionNode {
+    if (level >= BINARY_PRECEDENCE.length) return this.parseUnary();
+
+    let left = this.parseBinary(level + 1);
+    for (;;) {
+      const token = this.peek();
+      if (token.kind !== 'op' || !BINARY_PRECEDENCE[level].includes(token.value)) {
+        return left;
+      }
+      this.pos++;
+      const right = this.parseBinary(level + 1);
+      left = { type: 'binary', op: token.value, left, right };
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.isOp('-') || this.isOp('!')) {
+      const op = (this.peek() as { value: '-' | '!' }).value;
+      this.pos++;
+      return { type: 'unary', op, operand: this.parseUnary() };
+    }
+    if (this.isOp('+')) {
+      this.pos++;
+      return this.parseUnary();
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): ExpressionNode {
+    const base = this.parsePrimary();
+    if (this.isOp('^')) {
+      this.pos++;
+      // Right-associative, binds tighter than unary minus on the left
+      return { type: 'binary', op: '^', left: base, right: this.parseUnary() };
+    }
+    return base;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+
+    switch (token.kind) {
+      case 'number':
+      case 'string':
+        this.pos++;
+        return { type: 'literal', value: token.value };
+
+      case 'ident': {
+        this.pos++;
+        if (token.value === 'true' || token.value === 'false') {
+          return { type: 'literal', value: token.value === 'true' };
+        }
+        if (this.isOp('(')) {
+          this.pos++;
+          const args: ExpressionNode[] = [];
+          if (!this.isOp(')')) {
+            do {
+              if (args.length > 0) this.pos++;
+              args.push(this.parseBinary(0));
+            } while (this.isOp(','));
+          }
+          this.expectOp(')');
+          return { type: 'call', name: token.value, args };
+        }
+        return { type: 'identifier', name: token.value };
+      }
+
+      case 'op':
+        if (token.value === '(') {
+          this.pos++;
+          const inner = this.parseBinary(0);
+          this.expectOp(')');
+          return inner;
+        }
+        throw this.error(`Unexpected operator "${token.value}"`);
+
+      default:
+        throw this.error('Unexpected end of expression');
+    }
+  }
+}
+
+const parseCache = new Map<string, ExpressionNode>();
+
+/**
+ * Parse a formula or condition string into an expression tree.
+ * Throws on syntax errors.
+ */
+export function parseExpression(source: string): ExpressionNode {
+  let node = parseCache.get(source);
+  if (!node) {
+    node = new Parser(tokenize(source), source).parse();
+    parseCache.set(source, node);
+  }
+  return node;
+}
+
+// =============================================================================
+// EXPRESSION EVALUATION
+// =============================================================================
+
+/** Thrown internally when an expression reads a parameter that is not set */
+class MissingParameter {
+  constructor(readonly name: string) {}
+}
+
+interface EvaluationScope {
+  values: Map<string, RuleValue>;
+  units: Map<string, Units>;
+  functions: Record<string, RuleFunction>;
+  /** Parameters read during evaluation, in order of first access */
+  reads: Map<string, RuleValue>;
+}
+
+/**
+ * Parse select-option dimensions such as '3/4"', '1-1/4"', '2"' or '150mm'
+ * into millimeters. Returns NaN if the string is not a dimension.
+ */
+function parseDimensionString(value: string): number {
+  const match = /^\s*(?:(\d+(?:\.\d+)?)(?:[- ](\d+)\/(\d+))?|(\d+)\/(\d+))\s*("|in|mm|cm|m|ft)\s*$/.exec(value);
+  if (!match) return NaN;
+
+  const [, whole, num, den, fracNum, fracDen, suffix] = match;
+  let magnitude = whole !== undefined ? parseFloat(whole) : 0;
+  if (num !== undefined) magnitude += parseInt(num, 10) / parseInt(den, 10);
+  if (fracNum !== undefined) magnitude = parseInt(fracNum, 10) / parseInt(fracDen, 10);
+
+  const unit: Units = suffix === '"' ? 'in' : (suffix as Units);
+  return convertLength(magnitude, unit, 'mm');
+}
+
+function toNumber(value: RuleValue, context: string): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') {
+    if (!isNaN(Number(value))) return Number(value);
+    const dimension = parseDimensionString(value);
+    if (!isNaN(dimension)) return dimension;
+  }
+  throw new Error(`Expected a number for ${context}, got ${JSON.stringify(value)}`);
+}
+
+function isTruthy(value: RuleValue): boolean {
+  if (typeof value === 'string') return value !== '' && value !== 'false' && value !== 'none';
+  return Boolean(value);
+}
+
+/**
+ * Compare two values. Strings compare with numeric awareness so that
+ * "IP65" > "IP54" and '10"' > '4"'.
+ */
+function compareValues(a: RuleValue, b: RuleValue): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'number' || typeof b === 'number') {
+    return toNumber(a, 'comparison') - toNumber(b, 'comparison');
+  }
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+}
+
+function valuesEqual(a: RuleValue, b: RuleValue): boolean {
+  if (typeof a === typeof b) return a === b;
+  if (typeof a === 'number' || typeof b === 'number') {
+    const na = Number(a);
+    const nb = Number(b);
+    return !isNaN(na) && !isNaN(nb) && na === nb;
+  }
+  return String(a) === String(b);
+}
+
+function evaluateNode(node: ExpressionNode, scope: EvaluationScope): RuleValue {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'identifier': {
+      const value = scope.values.get(node.name);
+      if (value === undefined) throw new MissingParameter(node.name);
+      if (!scope.reads.has(node.name)) scope.reads.set(node.name, value);
+      return value;
+    }
+
+    case 'unary': {
+      const operand = evaluateNode(node.operand, scope);
+      return node.op === '!' ? !isTruthy(operand) : -toNumber(operand, 'unary minus');
+    }
+
+    case 'call': {
+      // Own properties only, so Object.prototype members are not callable
+      if (!Object.prototype.hasOwnProperty.call(scope.functions, node.name)) {
+        throw new Error(`Unknown function "${node.name}"`);
+      }
+      const fn = scope.functions[node.name];
+      const args = node.args.map((arg, i) =>
+        toNumber(evaluateNode(arg, scope), `argument ${i + 1} of ${node.name}()`)
+      );
+      return fn(...args);
+    }
+
+    case 'assign':
+      return evaluateAssignment(node, scope);
+
+    case 'binary':
+      return evaluateBinary(node.op, node.left, node.right, scope);
+  }
+}
+
+function evaluateBinary(
+  op: string,
+  leftNode: ExpressionNode,
+  rightNode: ExpressionNode,
+  scope: EvaluationScope
+): RuleValue {
+  // Short-circuit logical operators so unrelated branches need no parameters
+  if (op === '&&') {
+    return isTruthy(evaluateNode(leftNode, scope)) && isTruthy(evaluateNode(rightNode, scope));
+  }
+  if (op === '||') {
+    return isTruthy(evaluateNode(leftNode, scope)) || isTruthy(evaluateNode(rightNode, scope));
+  }
+
+  const left = evaluateNode(leftNode, scope);
+  const right = evaluateNode(rightNode, scope);
+
+  switch (op) {
+    case '==': return valuesEqual(left, right);
+    case '!=': return !valuesEqual(left, right);
+    case '<': return compareValues(left, right) < 0;
+    case '<=': return compareValues(left, right) <= 0;
+    case '>': return compareValues(left, right) > 0;
+    case '>=': return compareValues(left, right) >= 0;
+  }
+
+  const a = toNumber(left, `left side of "${op}"`);
+  const b = toNumber(right, `right side of "${op}"`);
+
+  switch (op) {
+    case '+': return a + b;
+    case '-': return a - b;
+    case '*': return a * b;
+    case '/':
+      if (b === 0) throw new Error('Division by zero');
+      return a / b;
+    case '%': return a % b;
+    case '^': return Math.pow(a, b);
+    default:
+      throw new Error(`Unsupported operator "${op}"`);
+  }
+}
+
+/**
+ * `name = expr` introduces a derived value. When `name` is already a
+ * provided parameter it cannot be overwritten, so the statement is read
+ * as an equality check instead (e.g. `grounding_provided = true`).
+ */
+function evaluateAssignment(
+  node: Extract<ExpressionNode, { type: 'assign' }>,
+  scope: EvaluationScope
+): RuleValue {
+  const value = evaluateNode(node.value, scope);
+  const existing = scope.values.get(node.name);
+
+  if (existing !== undefined) {
+    if (!scope.reads.has(node.name)) scope.reads.set(node.name, existing);
+    return valuesEqual(existing, value);
+  }
+
+  scope.values.set(node.name, value);
+  return value;
+}
+
+/**
+ * Evaluate a single formula/condition string against a parameter map.
+ * Throws if a referenced parameter is missing or the expression is invalid.
+ */
+export function evaluateExpression(
+  source: string,
+  params: Record<string, unknown>,
+  functions: Record<string, RuleFunction> = defaultRuleFunctions
+): RuleValue {
+  const scope = createScope(params, undefined, functions);
+  try {
+    return evaluateNode(parseExpression(source), scope);
+  } catch (err) {
+    if (err instanceof MissingParameter) {
+      throw new Error(`Parameter "${err.name}" is not defined`);
+    }
+    throw err;
+  }
+}
+
+// =============================================================================
+// RULE EVALUATION
+// =============================================================================
+
+/**
+ * Normalize a parameter value to millimeters when its definition declares a
+ * length unit. Non-numeric values (e.g. 'none', 'L/360') pass through.
+ */
+function normalizeValue(raw: unknown, definition: ParameterDefinition | undefined): RuleValue | undefined {
+  if (isQuantity(raw)) return convertLength(raw.value, raw.unit, 'mm');
+
+  const unit = definition?.unit;
+  const isLength = unit !== undefined && unit in MM_PER_UNIT;
+
+  if (typeof raw === 'number') return isLength ? convertLength(raw, unit, 'mm') : raw;
+  if (typeof raw === 'string') {
+    if (isLength && raw.trim() !== '' && !isNaN(Number(raw))) return convertLength(Number(raw), unit, 'mm');
+    return raw;
+  }
+  if (typeof raw === 'boolean') return raw;
+  return undefined;
+}
+
+function createScope(
+  params: Record<string, unknown>,
+  definitions: ParameterDefinition[] | undefined,
+  functions: Record<string, RuleFunction>
+): EvaluationScope {
+  const values = new Map<string, RuleValue>();
+  const units = new Map<string, Units>();
+  const definitionMap = new Map((definitions || []).map(d => [d.id, d]));
+
+  for (const def of definitions || []) {
+    if (def.unit && def.unit in MM_PER_UNIT) units.set(def.id, 'mm');
+    const value = normalizeValue(def.default, def);
+    if (value !== undefined) values.set(def.id, value);
+  }
+
+  for (const [name, raw] of Object.entries(params)) {
+    const value = normalizeValue(raw, definitionMap.get(name));
+    if (value === undefined) continue;
+    values.set(name, value);
+    if (isQuantity(raw)) units.set(name, 'mm');
+  }
+
+  return { values, units, functions, reads: new Map() };
+}
+
+type ExpressionOutcome =
+  | { status: 'passed' | 'failed' | 'not-applicable'; detail?: string }
+  | { status: 'skipped'; missing: string[] };
+
+function formatOperand(name: string, scope: EvaluationScope): string {
+  const value = scope.values.get(name);
+  const unit = scope.units.get(name);
+  const shown = typeof value === 'number' ? Number(value.toFixed(3)) : JSON.stringify(value);
+  return `${name} = ${shown}${unit && typeof value === 'number' ? ` ${unit}` : ''}`;
+}
+
+function readNumber(name: string, scope: EvaluationScope): number | MissingParameter {
+  const value = scope.values.get(name);
+  if (value === undefined) return new MissingParameter(name);
+  if (!scope.reads.has(name)) scope.reads.set(name, value);
+  return toNumber(value, name);
+}
+
+function checkBounds(label: string, value: number, min?: number, max?: number): ExpressionOutcome {
+  if (min !== undefined && value < min) {
+    return { status: 'failed', detail: `${label}, below minimum ${min}` };
+  }
+  if (max !== undefined && value > max) {
+    return { status: 'failed', detail: `${label}, above maximum ${max}` };
+  }
+  return { status: 'passed' };
+}
+
+function evaluateRuleExpression(
+  expression: RuleExpression,
+  scope: EvaluationScope,
+  computed: Record<string, RuleValue>
+): ExpressionOutcome {
+  switch (expression.type) {
+    case 'range': {
+      const value = readNumber(expression.param, scope);
+      if (value instanceof MissingParameter) return { status: 'skipped', missing: [value.name] };
+      return checkBounds(formatOperand(expression.param, scope), value, expression.min, expression.max);
+    }
+
+    case 'ratio': {
+      const a = readNumber(expression.param1, scope);
+      const b = readNumber(expression.param2, scope);
+      const missing = [a, b].filter((v): v is MissingParameter => v instanceof MissingParameter);
+      if (missing.length > 0) return { status: 'skipped', missing: missing.map(m => m.name) };
+      if (b === 0) throw new Error(`Ratio denominator ${expression.param2} is zero`);
+      const label = `${expression.param1}/${expression.param2} = ${Number(((a as number) / (b as number)).toFixed(3))} ` +
+        `(${formatOperand(expression.param1, scope)}, ${formatOperand(expression.param2, scope)})`;
+      return checkBounds(label, (a as number) / (b as number), expression.min, expression.max);
+    }
+
+    case 'formula': {
+      const formulaNode = parseExpression(expression.formula);
+      const value = evaluateNode(formulaNode, scope);
+      if (formulaNode.type === 'assign' && scope.values.get(formulaNode.name) === value) {
+        computed[formulaNode.name] = value;
+      }
+
+      // `result` is either the name to store the formula value under, or a
+      // check expression over the values computed so far.
+      const resultNode = parseExpression(expression.result);
+      let outcome: RuleValue;
+      if (resultNode.type === 'identifier' && !scope.values.has(resultNode.name)) {
+        scope.values.set(resultNode.name, value);
+        computed[resultNode.name] = value;
+        outcome = value;
+      } else {
+        outcome = evaluateNode(resultNode, scope);
+      }
+
+      if (typeof outcome !== 'boolean' || outcome) return { status: 'passed' };
+
+      const operands = [...scope.reads.keys()].map(name => formatOperand(name, scope));
+      for (const [name, val] of Object.entries(computed)) {
+        if (typeof val === 'number' && !scope.reads.has(name)) operands.push(`${name} = ${Number(val.toFixed(3))}`);
+      }
+      return { status: 'failed', detail: `${expression.result} not satisfied (${operands.join(', ')})` };
+    }
+
+    case 'conditional': {
+      const condition = evaluateNode(parseExpression(expression.condition), scope);
+      if (isTruthy(condition)) return evaluateRuleExpression(expression.then, scope, computed);
+      if (expression.else) return evaluateRuleExpression(expression.else, scope, computed);
+      return { status: 'not-applicable' };
+    }
+
+    case 'required-if': {
+      const value = scope.values.get(expression.param);
+      if (value === undefined) {
+        return { status: 'failed', detail: `${expression.param} is required but was not provided` };
+      }
+      if (!scope.reads.has(expression.param)) scope.reads.set(expression.param, value);
+
+      const condition = evaluateNode(parseExpression(expression.condition), scope);
+      if (!isTruthy(condition) || value === false) {
+        return {
+          status: 'failed',
+          detail: `${formatOperand(expression.param, scope)} does not satisfy ${expression.condition}`,
+        };
+      }
+      return { status: 'passed' };
+    }
+  }
+}
+
+function runRule(rule: Rule, scope: EvaluationScope): RuleEvaluation {
+  const computed: Record<string, RuleValue> = {};
+  scope.reads = new Map();
+
+  let outcome: ExpressionOutcome | { status: 'error'; detail: string };
+  try {
+    outcome = evaluateRuleExpression(rule.expression, scope, computed);
+  } catch (err) {
+    outcome = err instanceof MissingParameter
+      ? { status: 'skipped', missing: [err.name] }
+      : { status: 'error', detail: err instanceof Error ? err.message : String(err) };
+  }
+
+  const evaluation: RuleEvaluation = {
+    ruleId: rule.id,
+    ruleName: rule.name,
+    ruleType: rule.type,
+    status: outcome.status,
+    passed: outcome.status !== 'failed',
+    source: rule.source,
+    values: [...scope.reads.entries()].map(([name, value]) => ({
+      name,
+      value,
+      unit: typeof value === 'number' ? scope.units.get(name) : undefined,
+    })),
+    computed,
+    missing: 'missing' in outcome ? outcome.missing : [],
+  };
+
+  if (outcome.status === 'failed') {
+    evaluation.message = rule.errorMessage || rule.description;
+  }
+  if ('detail' in outcome && outcome.detail) {
+    evaluation.detail = outcome.detail;
+  } else if (outcome.status === 'skipped') {
+    evaluation.detail = `Missing parameter(s): ${evaluation.missing.join(', ')}`;
+  }
+
+  return evaluation;
+}
+
+/**
+ * Evaluate a single rule against a parameter map
+ */
+export function evaluateRule(
+  rule: Rule,
+  params: Record<string, unknown>,
+  options: RuleEvaluationOptions = {}
+): RuleEvaluation {
+  return evaluateRules([rule], params, options)[0];
+}
+
+/**
+ * Evaluate a rule set in order. Values computed by earlier formula rules
+ * are visible to later rules.
+ */
+export function evaluateRules(
+  rules: Rule[],
+  params: Record<string, unknown>,
+  options: RuleEvaluationOptions = {}
+): RuleEvaluation[] {
+  const functions = { ...defaultRuleFunctions, ...options.functions };
+  const scope = createScope(params, options.parameters, functions);
+  return rules.map(rule => runRule(rule, scope));
+}
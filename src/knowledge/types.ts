@@ -58,6 +58,12 @@ export interface ElementDefinition {
 
   /** Sub-components that make up this element */
   components: ComponentDefinition[];
+
+  /**
+   * Parameters that follow from the provided ones (e.g. section depth from
+   * the profile designation). Provided values take precedence.
+   */
+  deriveParameters?: (params: Record<string, unknown>) => Record<string, unknown>;
 }
 
 export type ConnectionType =
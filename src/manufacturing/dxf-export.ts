@@ -559,6 +559,54 @@ export function generateBasePlateProfile(
   return entities;
 }
 
+/**
+ * Outline with holes recovered from an existing drawing (see the inputs
+ * module's extractPlateProfiles)
+ */
+export interface ImportedPlateProfile {
+  outline: Array<{ x: number; y: number }>;
+  holes: Array<{ x: number; y: number; diameter: number }>;
+  cutouts?: Array<Array<{ x: number; y: number }>>;
+}
+
+/**
+ * Generate a DXF profile from an imported plate, moved so its lower-left
+ * corner sits at the origin
+ */
+export function generateImportedPlateProfile(
+  plate: ImportedPlateProfile,
+  options: { includeLabel?: boolean; partNumber?: string } = {}
+): DXFEntity[] {
+  const originX = Math.min(...plate.outline.map(p => p.x));
+  const originY = Math.min(...plate.outline.map(p => p.y));
+  const shift = (p: { x: number; y: number }) => ({ x: p.x - originX, y: p.y - originY });
+
+  const entities: DXFEntity[] = [{
+    type: 'polyline',
+    layer: 'PROFILE',
+    data: { points: plate.outline.map(shift), closed: true } as DXFPolylineData,
+  }];
+
+  for (const hole of plate.holes) {
+    entities.push(createHole(hole.x - originX, hole.y - originY, hole.diameter));
+  }
+
+  for (const cutout of plate.cutouts ?? []) {
+    entities.push({
+      type: 'polyline',
+      layer: 'PROFILE',
+      data: { points: cutout.map(shift), closed: true } as DXFPolylineData,
+    });
+  }
+
+  if (options.includeLabel && options.partNumber) {
+    const top = Math.max(...plate.outline.map(p => p.y)) - originY;
+    entities.push(createLabel(5, top - 10, options.partNumber, 5));
+  }
+
+  return entities;
+}
+
 /**
  * Create rounded rectangle as polyline segments
  */
@@ -30,8 +30,9 @@ export {
   createSlot,
   createLabel,
   generateBasePlateProfile,
+  generateImportedPlateProfile,
 } from './dxf-export';
-export type { BasePlateProfile } from './dxf-export';
+export type { BasePlateProfile, ImportedPlateProfile } from './dxf-export';
 
 // G-code generation
 export {
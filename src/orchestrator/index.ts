@@ -28,6 +28,13 @@
  *
  * // Get AI reasoning
  * const explanation = pipeline.explainDecision('industrial-stair');
+ *
+ * // Generate manufacturing files from the design geometry
+ * pipeline.setAssembly(assembly);
+ * const outputs = await pipeline.generateOutputs([
+ *   { format: 'dxf-flat', options: { units: 'in', nestingOptimization: true } },
+ *   { format: 'bom', options: {} },
+ * ]);
  * ```
  */
 
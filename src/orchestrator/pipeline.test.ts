@@ -0,0 +1,207 @@
+import { describe, expect, it } from 'vitest';
+import type { AssemblyResult, GeometryResult } from '../geometry/types';
+import { EngineeringPipeline } from './pipeline';
+import type { OutputOptions, OutputRequest } from './types';
+
+/** Flat plate lying in XY, as the stair builders produce treads */
+function plate(id: string, length: number, width: number, thickness: number): GeometryResult {
+  return {
+    id,
+    shapeId: '',
+    name: id,
+    elementType: 'plate',
+    bounds: { min: { x: 0, y: 0, z: 0 }, max: { x: length, y: width, z: thickness } },
+    transform: { position: { x: 0, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0 } },
+    properties: {
+      volume: length * width * thickness,
+      surfaceArea: 2 * length * width,
+      weight: length * width * thickness * 7.85e-6,
+      centerOfMass: { x: length / 2, y: width / 2, z: thickness / 2 },
+    },
+    material: 'A36 Steel',
+    metadata: { thickness },
+  };
+}
+
+function assembly(components: GeometryResult[]): AssemblyResult {
+  return {
+    id: 'assembly-1',
+    name: 'Stair Assembly',
+    components,
+    bounds: { min: { x: 0, y: 0, z: 0 }, max: { x: 1100, y: 4000, z: 3000 } },
+  } as AssemblyResult;
+}
+
+async function generate(target: AssemblyResult, format: OutputRequest['format'], options: OutputOptions = {}, projectId = 'P-100') {
+  const pipeline = new EngineeringPipeline(projectId);
+  pipeline.setAssembly(target);
+  const [output] = await pipeline.generateOutputs([{ format, options }]);
+  expect(pipeline.getState().errors).toEqual([]);
+  return { output, text: new TextDecoder().decode(output.content) };
+}
+
+/** X, Y and Z words of every G01 move */
+function moves(gcode: string): Array<{ x?: number; y?: number; z?: number }> {
+  return gcode.split('\n').filter(line => line.startsWith('G01')).map(line => {
+    const word = (axis: string) => {
+      const match = line.match(new RegExp(`${axis}(-?[\\d.]+)`));
+      return match ? Number(match[1]) : undefined;
+    };
+    return { x: word('X'), y: word('Y'), z: word('Z') };
+  });
+}
+
+/** Stair stringer as the geometry planner lays it out: C10x25 climbing at 37° */
+function stringer(id: string): GeometryResult {
+  const angle = 37;
+  const length = 4000;
+  const run = length * Math.cos(angle * Math.PI / 180);
+  const rise = length * Math.sin(angle * Math.PI / 180);
+  return {
+    ...plate(id, run, 66, rise),
+    elementType: 'stringer-channel',
+    properties: { volume: 4740 * length, surfaceArea: 0, weight: 37.2 * length / 1000, centerOfMass: { x: 0, y: 0, z: 0 } },
+    metadata: { profile: 'C10x25', shape: 'channel', length, size: 254, width: 66, angle, endAngles: [angle, 90 - angle] },
+  };
+}
+
+const treads = Array.from({ length: 15 }, (_, i) => plate(`tread-${i + 1}`, 1100, 280, 6));
+
+describe('generateOutputs', () => {
+  it('records an error for each request without an assembly', async () => {
+    const pipeline = new EngineeringPipeline('P-100');
+    const outputs = await pipeline.generateOutputs([{ format: 'bom', options: {} }]);
+
+    expect(outputs).toEqual([]);
+    expect(pipeline.getState().errors.map(e => e.code)).toEqual(['no_design_geometry']);
+  });
+
+  it('keeps going past a format that cannot be rendered', async () => {
+    const pipeline = new EngineeringPipeline('P-100');
+    pipeline.setAssembly(assembly([plate('gusset', 300, 200, 6)]));
+    const outputs = await pipeline.generateOutputs([
+      { format: 'gcode', options: { machineType: 'lathe' } },
+      { format: 'bom', options: {} },
+    ]);
+
+    expect(outputs.map(o => o.format)).toEqual(['bom']);
+    expect(pipeline.getState().errors[0].message).toBe('gcode: Assembly has no turned parts to machine on a lathe');
+  });
+
+  it('writes a BOM with weight per material and a content checksum', async () => {
+    const { output, text } = await generate(assembly([plate('g1', 300, 200, 6), plate('g2', 300, 200, 6)]), 'bom');
+
+    expect(output.mimeType).toBe('text/csv');
+    expect(text.split('\n')[1]).toBe('"1","g1","g1","1","A36 Steel","300 x 200 x 6","2.83"');
+    expect(output.metadata.estimatedMaterial).toEqual([{ material: 'A36 Steel', quantity: 5.65, unit: 'kg' }]);
+    expect(output.metadata.fileSize).toBe(output.content.byteLength);
+    expect(output.metadata.checksum).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('draws flat patterns of plate parts only', async () => {
+    const { output, text } = await generate(assembly([plate('g1', 300, 200, 6), plate('block', 100, 80, 60)]), 'svg');
+
+    expect(output.mimeType).toBe('image/svg+xml');
+    expect(text.match(/<polygon /g)).toHaveLength(1);
+    expect(text).toContain('>g1</text>');
+    expect(text).not.toContain('block');
+  });
+
+  it('nests flat patterns on sheets and scales them to inches', async () => {
+    const { output, text } = await generate(assembly([plate('g1', 300, 200, 6)]), 'dxf-flat', { units: 'in', nestingOptimization: true });
+
+    expect(output.metadata.estimatedMaterial).toEqual([
+      { material: 'A36 Steel', quantity: 1, unit: 'sheet', sheetSize: [2400, 1200], utilizationPercent: 2.1 },
+    ]);
+    // $INSUNITS 1 = inches; the 2400 mm sheet outline is 94.49 in
+    expect(text).toMatch(/\$INSUNITS\n70\n1\n/);
+    expect(text).toContain('\n94.48818897637796\n');
+  });
+});
+
+describe('G-code output', () => {
+  it('wraps rows of parts onto further sheets instead of running off the sheet', async () => {
+    const { output, text } = await generate(assembly(treads), 'gcode');
+    const xs = moves(text).map(m => m.x).filter((x): x is number => x !== undefined);
+    const ys = moves(text).map(m => m.y).filter((y): y is number => y !== undefined);
+
+    // Two treads per row and four rows per 2400x1200 sheet
+    expect(output.metadata.warnings).toContain('Parts span 2 sheets; sheets are laid out side by side along X');
+    expect(Math.max(...xs)).toBeLessThan(2 * 2400 + 100);
+    expect(Math.max(...ys)).toBeLessThan(1200);
+  });
+
+  it('warns about parts larger than the sheet', async () => {
+    const { output } = await generate(assembly([plate('deck', 3000, 1000, 6)]), 'gcode');
+    expect(output.metadata.warnings).toContain('1 part(s) are larger than the 2400x1200mm sheet');
+  });
+
+  it('cuts in passes through the plate, leaving tabs on the last pass', async () => {
+    const { text } = await generate(assembly([plate('gusset', 300, 200, 6)]), 'gcode');
+    const path = moves(text);
+    const depths = Array.from(new Set(path.map(m => m.z)));
+
+    // 6 mm plate plus breakthrough, at most half the 6 mm cutter per pass
+    expect(depths).toEqual([-2.167, -4.333, -6.5, -4.5]);
+    // One tab at the middle of each edge of the last pass
+    const tabs = path.filter(m => m.z === -4.5);
+    expect(tabs).toHaveLength(8);
+    expect(tabs.slice(0, 2).map(m => m.x)).toEqual([144, 156]);
+  });
+
+  it('turns a stepped shaft from both ends on a lathe', async () => {
+    // 6205 seats either side of a Ø34 shoulder
+    const steps = [{ diameter: 25, length: 47.5 }, { diameter: 34, length: 105 }, { diameter: 25, length: 32.5 }];
+    const shaft: GeometryResult = {
+      ...plate('Shaft', 185, 34, 34),
+      elementType: 'shaft',
+      metadata: { turnedProfile: steps },
+    };
+    const { output, text } = await generate(assembly([shaft]), 'gcode', { machineType: 'lathe' });
+    const path = moves(text);
+
+    expect(output.metadata.machineRequirements).toContain('CNC lathe');
+    expect(output.metadata.warnings).toEqual([]);
+    // Shoulder and first seat from one end, then parted off and reversed for the other seat
+    expect(text).toContain('(Finish turn Shaft setup 1)');
+    expect(text).toMatch(/\(Face Shaft setup 2 part reversed in chuck\)\nM00\n/);
+    expect(path).toContainEqual({ x: 34, y: undefined, z: -152.5 });
+    expect(path).toContainEqual({ x: 25, y: undefined, z: -32.5 });
+    // Ø40 bar: nothing is cut beyond the stock
+    expect(Math.max(...path.map(m => m.x ?? 0))).toBeLessThanOrEqual(42);
+  });
+});
+
+describe('output naming', () => {
+  it('names outputs after the project', async () => {
+    const { output, text } = await generate(assembly([plate('gusset', 300, 200, 6)]), 'gcode');
+    expect(output.designId).toBe('P-100');
+    expect(output.filePath).toBe('./output/P-100/P-100-gcode.nc');
+    expect(text.startsWith('(P-100 plate profiles)')).toBe(true);
+  });
+
+  it('falls back to the assembly name without a project id', async () => {
+    const { output, text } = await generate(assembly([plate('gusset', 300, 200, 6)]), 'gcode', {}, '');
+    expect(output.designId).toBe('Stair Assembly');
+    expect(output.filePath).toBe('./output/Stair-Assembly/Stair-Assembly-gcode.nc');
+    expect(text).toContain('(Stair Assembly plate profiles)');
+    expect(text).not.toContain('undefined');
+  });
+});
+
+describe('cut list output', () => {
+  it('lists members by section designation with their end cuts', async () => {
+    const { text } = await generate(assembly([stringer('Left Stringer')]), 'cut-list');
+    const [row] = text.split('\n').filter(line => line.startsWith('1 '));
+
+    expect(row).toContain('C10x25');
+    expect(row).not.toContain('CHANNEL');
+    expect(text).toContain('37° cut - start');
+    expect(text).toContain('53° cut - end');
+    expect(text).not.toContain('Square cut');
+
+    // Centerline plus the long points of the level and plumb cuts
+    const longPoints = 127 / Math.tan(37 * Math.PI / 180) + 127 / Math.tan(53 * Math.PI / 180);
+    expect(row).toContain(` ${Math.round(4000 + longPoints)} `);
+  });
+});
@@ -12,7 +12,9 @@ import type {
   SelectedElement,
   ValidationResult,
   OutputRequest,
+  OutputOptions,
   GeneratedOutput,
+  MaterialEstimate,
   ElementSuggestion,
   ReasoningStep,
   AIResponse,
@@ -25,6 +27,32 @@ import { flowElements, getFlowElement } from '../knowledge/domains/flow';
 import { mechanicalElements, getMechanicalElement } from '../knowledge/domains/mechanical';
 import { structureElements, getStructureElement } from '../knowledge/domains/structure';
 import { ElementDefinition } from '../knowledge/types';
+import { evaluateRules, type RuleEvaluation } from '../knowledge/rules';
+import type { AssemblyResult, GeometryResult } from '../geometry/types';
+import type { TurnedStep } from '../geometry';
+import type { DXFDocument } from '../outputs/types';
+import {
+  createDXFGenerator,
+  createNestingOptimizer,
+  createGCodeGenerator,
+  createBOMGenerator,
+  createCutListGenerator,
+  createDrawingGenerator,
+  createWeldMapGenerator,
+  standardEndmills,
+  standardDrills,
+  standardTurningTools,
+  type ToolpathOperation,
+} from '../outputs';
+import * as kernel from '../core/kernel';
+import {
+  describeComponent,
+  planProcesses,
+  resolveMaterial,
+  type PartClass,
+  type PartDescriptor,
+  type ProcessRecommendation,
+} from '../ai/reasoning';
 
 // ============================================================================
 // DOMAIN REGISTRY
@@ -82,6 +110,67 @@ const domainRegistry: DomainInfo[] = [
   },
 ];
 
+// ============================================================================
+// OUTPUT SETTINGS
+// ============================================================================
+
+const MM_PER_INCH = 25.4;
+
+/** Sheet used for nesting flat patterns (mm) */
+const STANDARD_SHEET = { width: 2400, height: 1200 };
+
+/** Gap between nested sheets in G-code layouts (mm) */
+const SHEET_GAP = 100;
+
+/** Gap between parts laid out in rows on a sheet (mm) */
+const PART_GAP = 20;
+
+/** Plunge feed for profile cuts (mm/min) */
+const PLUNGE_FEED = 100;
+
+/** Deepest profile pass as a fraction of the tool diameter */
+const MAX_STEPDOWN_RATIO = 0.5;
+
+/** Cut below the plate so profiles break through cleanly (mm) */
+const BREAKTHROUGH = 0.5;
+
+/** Holding tabs left at the middle of each profile edge (mm) */
+const TAB_WIDTH = 6;
+const TAB_HEIGHT = 1.5;
+
+/** Thickest part treated as cut plate (mm) */
+const MAX_PLATE_THICKNESS = 25;
+
+/** Bar stock over the largest turned diameter when none is given (mm) */
+const TURNING_STOCK_ALLOWANCE = 3;
+
+/** Radial depth of cut for roughing and boring passes (mm) */
+const ROUGHING_DEPTH = 2;
+
+/** Left on diameter by roughing for the finishing pass (mm) */
+const FINISH_ALLOWANCE = 0.5;
+
+/** Left on the parted end for facing in the second setup (mm) */
+const FACE_STOCK = 1;
+
+/** Lathe spindle limit (RPM) */
+const MAX_LATHE_SPEED = 3000;
+
+interface RenderedOutput {
+  content: string | Uint8Array;
+  extension: string;
+  mimeType: string;
+  warnings: string[];
+  estimatedTime?: number;
+  estimatedMaterial?: MaterialEstimate[];
+  machineRequirements?: string[];
+}
+
+async function sha256Hex(content: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', content as Uint8Array<ArrayBuffer>);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
 // ============================================================================
 // PIPELINE CLASS
 // ============================================================================
@@ -98,6 +187,7 @@ export class EngineeringPipeline {
       designIntent: null,
       selectedElements: [],
       validationResults: [],
+      assembly: null,
       generatedOutputs: [],
       history: [],
       errors: [],
@@ -468,18 +558,16 @@ export class EngineeringPipeline {
       return result;
     }
 
-    // Validate parameters against rules
-    for (const rule of element.rules) {
-      const ruleResult = this.checkRule(rule, selection.parameters);
-      if (!ruleResult.passed) {
-        // 'constraint' rules are errors, 'recommendation' rules are warnings
-        if (rule.type === 'constraint') {
-          result.isValid = false;
-          result.errors.push(`${rule.description} (${rule.source || 'Engineering standard'})`);
-        } else {
-          result.warnings.push(`${rule.description} (${rule.source || 'Best practice'})`);
-        }
-      }
+    // Validate parameters against rules, with derived parameters filled in
+    const parameters = element.deriveParameters
+      ? { ...element.deriveParameters(selection.parameters), ...selection.parameters }
+      : selection.parameters;
+    result.ruleEvaluations = evaluateRules(element.rules, parameters, {
+      parameters: element.parameters,
+    });
+
+    for (const evaluation of result.ruleEvaluations) {
+      this.applyRuleEvaluation(evaluation, result);
     }
 
     // Parameter range validation
@@ -505,14 +593,40 @@ export class EngineeringPipeline {
     return result;
   }
 
-  private checkRule(
-    _rule: ElementDefinition['rules'][0],
-    _params: Record<string, unknown>
-  ): { passed: boolean; message?: string } {
-    // Rule checking would involve parsing the expression
-    // For now, return passed - real implementation would evaluate rule expressions
-    // TODO: Implement expression evaluation based on rule.expression type
-    return { passed: true };
+  private applyRuleEvaluation(evaluation: RuleEvaluation, result: ValidationResult): void {
+    if (evaluation.status === 'error') {
+      this.logError('validation', 'rule_evaluation_failed', `${evaluation.ruleId}: ${evaluation.detail}`, true);
+      result.warnings.push(`Rule ${evaluation.ruleName} could not be evaluated: ${evaluation.detail}`);
+      return;
+    }
+
+    if (evaluation.passed) return;
+
+    const detail = evaluation.detail ? ` [${evaluation.detail}]` : '';
+
+    // 'constraint' rules are errors, 'recommendation' rules are warnings
+    if (evaluation.ruleType === 'constraint') {
+      result.isValid = false;
+      result.errors.push(`${evaluation.message}${detail} (${evaluation.source || 'Engineering standard'})`);
+    } else {
+      result.warnings.push(`${evaluation.message}${detail} (${evaluation.source || 'Best practice'})`);
+    }
+  }
+
+  // ============================================================================
+  // DESIGN GENERATION
+  // ============================================================================
+
+  /**
+   * Attach the generated design geometry used for output generation
+   */
+  setAssembly(assembly: AssemblyResult): void {
+    this.setStage('design-generation');
+    this.state.assembly = assembly;
+    this.logEvent('design-generation', 'assembly_set', {
+      assemblyId: assembly.id,
+      componentCount: assembly.components.length,
+    });
   }
 
   // ============================================================================
@@ -538,29 +652,784 @@ export class EngineeringPipeline {
   }
 
   private async generateOutput(request: OutputRequest): Promise<GeneratedOutput | null> {
-    // Placeholder for output generation
-    // Would integrate with CAD kernel and output generators
+    const assembly = this.state.assembly;
+    if (!assembly) {
+      this.logError('output-generation', 'no_design_geometry', `Cannot generate ${request.format}: no assembly has been set`, true);
+      return null;
+    }
+
+    let rendered: RenderedOutput;
+    let content: Uint8Array;
+    try {
+      rendered = await this.renderOutput(request, assembly);
+      // Renderers relay kernel results, which may come back without data
+      if (typeof rendered.content === 'string') {
+        content = new TextEncoder().encode(rendered.content);
+      } else if (rendered.content instanceof Uint8Array) {
+        content = rendered.content;
+      } else {
+        throw new Error('renderer returned no file content');
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logError('output-generation', 'output_generation_failed', `${request.format}: ${message}`, true);
+      return null;
+    }
+
+    const timestamp = new Date();
+    const fileStem = this.projectName(assembly).replace(/[^\w.-]+/g, '-');
 
     const output: GeneratedOutput = {
-      id: `output-${Date.now()}`,
-      designId: this.state.projectId,
+      id: `output-${request.format}-${timestamp.getTime()}`,
+      designId: this.projectName(assembly),
       format: request.format,
-      filePath: `./output/${this.state.projectId}/${request.format}`,
-      timestamp: new Date(),
+      filePath: `./output/${fileStem}/${fileStem}-${request.format}.${rendered.extension}`,
+      mimeType: rendered.mimeType,
+      content,
+      timestamp,
       metadata: {
-        fileSize: 0,
-        warnings: ['Output generation not yet implemented'],
+        fileSize: content.byteLength,
+        checksum: await sha256Hex(content),
+        units: request.options.units ?? 'mm',
+        warnings: rendered.warnings,
+        estimatedTime: rendered.estimatedTime,
+        estimatedMaterial: rendered.estimatedMaterial,
+        machineRequirements: rendered.machineRequirements,
       },
     };
 
     this.logEvent('output-generation', 'output_generated', {
       format: request.format,
       outputId: output.id,
+      fileSize: output.metadata.fileSize,
     });
 
     return output;
   }
 
+  private async renderOutput(request: OutputRequest, assembly: AssemblyResult): Promise<RenderedOutput> {
+    const options = request.options;
+
+    switch (request.format) {
+      case 'step':
+        return this.renderSTEP(assembly, options);
+      case 'dxf-flat':
+      case 'svg':
+        return this.renderFlatPatterns(assembly, options, request.format);
+      case 'dxf-drawing':
+      case 'drawing-pdf':
+        return this.renderDrawing(assembly, options, request.format);
+      case 'gcode':
+        return this.renderGCode(assembly, options);
+      case 'cut-list':
+        return this.renderCutList(assembly, options);
+      case 'bom':
+        return this.renderBOM(assembly, options);
+      case 'weld-map':
+        return this.renderWeldMap(assembly, options);
+    }
+  }
+
+  /**
+   * STEP from the kernel: the assembly solid, the component solids, or
+   * (without solids) boxes at each component envelope
+   */
+  private async renderSTEP(assembly: AssemblyResult, options: OutputOptions): Promise<RenderedOutput> {
+    const warnings: string[] = [];
+    let shapeIds = assembly.combinedShapeId
+      ? [assembly.combinedShapeId]
+      : assembly.components.map(c => c.shapeId).filter(id => id.length > 0);
+
+    if (shapeIds.length === 0) {
+      warnings.push('No solid model available; STEP contains component envelopes');
+      shapeIds = [];
+      for (const component of assembly.components) {
+        const { min, max } = component.bounds;
+        const box = await kernel.createBox(
+          Math.max(max.x - min.x, 0.1),
+          Math.max(max.y - min.y, 0.1),
+          Math.max(max.z - min.z, 0.1)
+        );
+        const placed = await kernel.translateShape(box.shapeId, min.x, min.y, min.z);
+        shapeIds.push(placed.shapeId);
+      }
+    }
+    if (shapeIds.length === 0) {
+      throw new Error('Assembly has no geometry to export');
+    }
+
+    let shapeId = shapeIds[0];
+    for (const next of shapeIds.slice(1)) {
+      shapeId = (await kernel.booleanUnion(shapeId, next)).shapeId;
+    }
+
+    if (options.scale !== undefined && options.scale !== 1) {
+      shapeId = (await kernel.scaleShape(shapeId, options.scale)).shapeId;
+    }
+    if (options.units === 'in') {
+      warnings.push('STEP files are written in millimeters; units option ignored');
+    }
+
+    return {
+      content: await kernel.exportSTEP(shapeId),
+      extension: 'step',
+      mimeType: 'model/step',
+      warnings,
+    };
+  }
+
+  /**
+   * Flat patterns of plate parts for laser/plasma cutting
+   */
+  private renderFlatPatterns(
+    assembly: AssemblyResult,
+    options: OutputOptions,
+    format: 'dxf-flat' | 'svg'
+  ): RenderedOutput {
+    const warnings: string[] = [];
+    const plans = this.componentPlans(assembly);
+    const parts = this.flatParts(assembly, options, plans);
+    const dxf = createDXFGenerator({
+      units: options.units === 'in' ? 'inch' : 'mm',
+      includeDimensions: options.includeDimensions ?? true,
+    });
+
+    let estimatedMaterial: MaterialEstimate[] | undefined;
+    let doc: DXFDocument;
+
+    if (parts.length === 0) {
+      warnings.push('Assembly has no flat plate parts');
+      doc = dxf.generateMultiPartDXF([]);
+      doc.bounds = { min: { x: 0, y: 0, z: 0 }, max: { x: 0, y: 0, z: 0 } };
+    } else if (options.nestingOptimization) {
+      const nesting = createNestingOptimizer().nestParts(
+        parts.map(p => ({
+          id: p.id,
+          width: p.bounds.max.x - p.bounds.min.x,
+          height: p.bounds.max.y - p.bounds.min.y,
+          quantity: 1,
+        })),
+        STANDARD_SHEET
+      );
+      const placed = nesting.sheets.reduce((sum, sheet) => sum + sheet.parts.length, 0);
+      if (placed < parts.length) {
+        warnings.push(`${parts.length - placed} part(s) exceed the ${STANDARD_SHEET.width}x${STANDARD_SHEET.height}mm sheet and were not nested`);
+      }
+      doc = dxf.generateNestedDXF(parts, nesting);
+      estimatedMaterial = this.sheetMaterialEstimate(parts, nesting.sheets.length, nesting.efficiency);
+    } else {
+      doc = dxf.generateMultiPartDXF(parts);
+    }
+
+    const factor = this.unitFactor(options) * (options.scale ?? 1);
+    if (factor !== 1) {
+      doc = dxf.scaleDocument(doc, factor);
+    }
+
+    return {
+      content: format === 'svg' ? dxf.documentToSVG(doc) : dxf.documentToString(doc),
+      extension: format === 'svg' ? 'svg' : 'dxf',
+      mimeType: format === 'svg' ? 'image/svg+xml' : 'image/vnd.dxf',
+      warnings,
+      estimatedMaterial,
+      machineRequirements: parts.length > 0
+        ? Array.from(new Set(parts.flatMap(p => plans.get(p.id)!.plan.sequence.map(s => s.process))))
+        : ['Laser or plasma cutter'],
+    };
+  }
+
+  /**
+   * Multi-view shop drawing
+   */
+  private renderDrawing(
+    assembly: AssemblyResult,
+    options: OutputOptions,
+    format: 'dxf-drawing' | 'drawing-pdf'
+  ): RenderedOutput {
+    const warnings: string[] = [];
+    const generator = createDrawingGenerator();
+    const drawing = generator.generateDrawing(assembly, {
+      scale: options.scale,
+      includeDimensions: options.includeDimensions,
+      includeAnnotations: options.includeAnnotations,
+      titleBlock: { projectName: this.projectName(assembly) },
+    });
+
+    if (format === 'drawing-pdf') {
+      if (options.units === 'in') {
+        warnings.push('Drawing dimensions are annotated in millimeters');
+      }
+      return {
+        content: generator.toPDF(drawing, assembly),
+        extension: 'pdf',
+        mimeType: 'application/pdf',
+        warnings,
+      };
+    }
+
+    // Sheet geometry is in paper millimeters; convert the sheet for inch drawings
+    const dxf = createDXFGenerator();
+    let doc = generator.toDXFDocument(drawing, assembly);
+    if (options.units === 'in') {
+      doc = dxf.scaleDocument(doc, 1 / MM_PER_INCH, 'inch');
+    }
+
+    return {
+      content: dxf.documentToString(doc),
+      extension: 'dxf',
+      mimeType: 'image/vnd.dxf',
+      warnings,
+    };
+  }
+
+  /**
+   * Profile-cutting G-code for plate parts
+   */
+  private renderGCode(assembly: AssemblyResult, options: OutputOptions): RenderedOutput {
+    const machineType = (['mill', 'lathe', 'router'].includes(options.machineType ?? '')
+      ? options.machineType
+      : 'mill') as 'mill' | 'lathe' | 'router';
+    if (machineType === 'lathe') {
+      return this.renderTurningGCode(assembly, options);
+    }
+    const warnings: string[] = [];
+    const parts = this.flatParts(assembly, options, this.componentPlans(assembly), ['sheet', 'prismatic']);
+    if (parts.length === 0) {
+      throw new Error('Assembly has no plate or machined parts to profile');
+    }
+    if (options.toolLibrary && options.toolLibrary !== 'standard') {
+      warnings.push(`Tool library "${options.toolLibrary}" not available; using standard endmills`);
+    }
+
+    const unitFactor = this.unitFactor(options);
+    const factor = unitFactor * (options.scale ?? 1);
+    const generator = createGCodeGenerator(machineType, {
+      units: options.units === 'in' ? 'inch' : 'mm',
+      programComment: `${this.projectName(assembly)} plate profiles`,
+      safetyHeight: options.units === 'in' ? 1 : 25,
+    });
+
+    // Nested sheet positions, or rows of parts filling each sheet in turn
+    const placements: Array<{ part: GeometryResult; x: number; y: number; rotated: boolean }> = [];
+    let sheetCount = 1;
+    if (options.nestingOptimization) {
+      const nesting = createNestingOptimizer().nestParts(
+        parts.map(p => ({ id: p.id, width: p.bounds.max.x - p.bounds.min.x, height: p.bounds.max.y - p.bounds.min.y, quantity: 1 })),
+        STANDARD_SHEET
+      );
+      sheetCount = nesting.sheets.length;
+      const byId = new Map(parts.map(p => [p.id, p]));
+      nesting.sheets.forEach((sheet, index) => {
+        const sheetOffset = index * (STANDARD_SHEET.width + SHEET_GAP);
+        for (const nested of sheet.parts) {
+          const part = byId.get(nested.partId.replace(/_\d+$/, ''));
+          if (part) {
+            placements.push({ part, x: sheetOffset + nested.position.x, y: nested.position.y, rotated: nested.rotation === 90 });
+          }
+        }
+      });
+      if (placements.length < parts.length) {
+        warnings.push(`${parts.length - placements.length} part(s) exceed the ${STANDARD_SHEET.width}x${STANDARD_SHEET.height}mm sheet and were not programmed`);
+      }
+    } else {
+      let sheet = 0;
+      let x = 0;
+      let y = 0;
+      let rowHeight = 0;
+      let oversize = 0;
+      for (const part of parts) {
+        const width = part.bounds.max.x - part.bounds.min.x;
+        const height = part.bounds.max.y - part.bounds.min.y;
+        if (width > STANDARD_SHEET.width || height > STANDARD_SHEET.height) oversize++;
+        if (x > 0 && x + width > STANDARD_SHEET.width) {
+          x = 0;
+          y += rowHeight + PART_GAP;
+          rowHeight = 0;
+        }
+        if (y > 0 && y + height > STANDARD_SHEET.height) {
+          sheet++;
+          x = 0;
+          y = 0;
+        }
+        placements.push({ part, x: sheet * (STANDARD_SHEET.width + SHEET_GAP) + x, y, rotated: false });
+        x += width + PART_GAP;
+        rowHeight = Math.max(rowHeight, height);
+      }
+      sheetCount = sheet + 1;
+      if (oversize > 0) {
+        warnings.push(`${oversize} part(s) are larger than the ${STANDARD_SHEET.width}x${STANDARD_SHEET.height}mm sheet`);
+      }
+    }
+    if (sheetCount > 1) {
+      warnings.push(`Parts span ${sheetCount} sheets; sheets are laid out side by side along X`);
+    }
+
+    const tool = standardEndmills[0];
+    const radius = tool.diameter / 2;
+    const operations: ToolpathOperation[] = placements.map(({ part, x, y, rotated }) => {
+      const w = part.bounds.max.x - part.bounds.min.x;
+      const h = part.bounds.max.y - part.bounds.min.y;
+      const [width, height] = rotated ? [h, w] : [w, h];
+      const depth = options.materialThickness ?? (part.metadata.thickness as number | undefined) ?? (part.bounds.max.z - part.bounds.min.z);
+      const cutDepth = depth + BREAKTHROUGH;
+      const passes = Math.max(1, Math.ceil(cutDepth / (tool.diameter * MAX_STEPDOWN_RATIO)));
+      const tabTop = -(depth - Math.min(TAB_HEIGHT, depth / 2));
+      const at = (point: { x: number; y: number }, z: number) => ({ x: point.x * factor, y: point.y * factor, z: z * factor });
+
+      // Outside profile, offset by the tool radius
+      const corners = [
+        { x: x - radius, y: y - radius },
+        { x: x + width + radius, y: y - radius },
+        { x: x + width + radius, y: y + height + radius },
+        { x: x - radius, y: y + height + radius },
+      ];
+
+      const segments: ToolpathOperation['segments'] = [];
+      for (let pass = 1; pass <= passes; pass++) {
+        const z = -cutDepth * pass / passes;
+        segments.push({ type: 'linear', start: at(corners[0], z), end: at(corners[0], z), feedRate: PLUNGE_FEED * unitFactor });
+        for (let i = 1; i <= corners.length; i++) {
+          const from = corners[i - 1];
+          const to = corners[i % corners.length];
+          const length = Math.hypot(to.x - from.x, to.y - from.y);
+          // The cutter climbs over a tab at mid-edge once it is below the tab top
+          const tab = (TAB_WIDTH + tool.diameter) / length;
+          if (z >= tabTop || tab >= 0.5) {
+            segments.push({ type: 'linear', start: at(from, z), end: at(to, z) });
+            continue;
+          }
+          const along = (t: number) => ({ x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t });
+          const [up, down] = [along(0.5 - tab / 2), along(0.5 + tab / 2)];
+          segments.push(
+            { type: 'linear', start: at(from, z), end: at(up, z) },
+            { type: 'linear', start: at(up, z), end: at(up, tabTop) },
+            { type: 'linear', start: at(up, tabTop), end: at(down, tabTop) },
+            { type: 'linear', start: at(down, tabTop), end: at(down, z), feedRate: PLUNGE_FEED * unitFactor },
+            { type: 'linear', start: at(down, z), end: at(to, z) }
+          );
+        }
+      }
+
+      return {
+        name: `Profile ${part.name}`,
+        type: 'contour',
+        tool,
+        spindleSpeed: machineType === 'router' ? 18000 : 3000,
+        feedRate: (machineType === 'router' ? 1000 : 500) * unitFactor,
+        coolant: machineType === 'router' ? 'off' : 'flood',
+        startPoint: at(corners[0], 0),
+        segments,
+        depth: cutDepth * factor,
+        stepdown: cutDepth / passes * factor,
+      };
+    });
+
+    const program = generator.generateProgram(parts[0], operations);
+    warnings.push(...program.warnings);
+
+    return {
+      content: generator.programToString(program),
+      extension: 'nc',
+      mimeType: 'text/x-gcode',
+      warnings,
+      estimatedTime: program.estimatedTime / 60,
+      machineRequirements: [`CNC ${machineType}`, ...program.toolList.map(t => t.description)],
+    };
+  }
+
+  /**
+   * Turning G-code for parts that carry a turned profile (shafts, hubs)
+   *
+   * Each part is turned from bar: the steps up to its largest diameter from
+   * the first end, then, when steps remain, parted off and reversed in the
+   * chuck for the rest. X words are diameters; Z0 is the faced end.
+   */
+  private renderTurningGCode(assembly: AssemblyResult, options: OutputOptions): RenderedOutput {
+    const warnings: string[] = [];
+    const plans = this.componentPlans(assembly);
+    const parts = assembly.components.filter(component => {
+      if (plans.get(component.id)!.plan.partClass !== 'turned') return false;
+      const profile = component.metadata.turnedProfile as TurnedStep[] | undefined;
+      if (Array.isArray(profile) && profile.length > 0) return true;
+      warnings.push(`${component.name} is a turned part without a turned profile; program it from the model`);
+      return false;
+    });
+    if (parts.length === 0) {
+      throw new Error('Assembly has no turned parts to machine on a lathe');
+    }
+    if (options.toolLibrary && options.toolLibrary !== 'standard') {
+      warnings.push(`Tool library "${options.toolLibrary}" not available; using standard turning tools`);
+    }
+    if (parts.length > 1) {
+      warnings.push(`${parts.length} turned parts are programmed in sequence with a stop to load each bar`);
+    }
+
+    const unitFactor = this.unitFactor(options);
+    const factor = unitFactor * (options.scale ?? 1);
+    const generator = createGCodeGenerator('lathe', {
+      units: options.units === 'in' ? 'inch' : 'mm',
+      programComment: `${this.projectName(assembly)} turned parts`,
+      safetyHeight: options.units === 'in' ? 2 : 50,
+    });
+
+    const operations = parts.flatMap((part, i) => {
+      const partOperations = this.turningOperations(part, factor, unitFactor, warnings);
+      partOperations[0].programStop = i > 0;
+      return partOperations;
+    });
+
+    const program = generator.generateProgram(parts[0], operations);
+    warnings.push(...program.warnings);
+
+    return {
+      content: generator.programToString(program),
+      extension: 'nc',
+      mimeType: 'text/x-gcode',
+      warnings,
+      estimatedTime: program.estimatedTime / 60,
+      machineRequirements: ['CNC lathe', ...program.toolList.map(t => t.description)],
+    };
+  }
+
+  private turningOperations(
+    part: GeometryResult,
+    factor: number,
+    unitFactor: number,
+    warnings: string[]
+  ): ToolpathOperation[] {
+    const steps = part.metadata.turnedProfile as TurnedStep[];
+    const largest = Math.max(...steps.map(step => step.diameter));
+    const length = steps.reduce((sum, step) => sum + step.length, 0);
+    const requested = part.metadata.stockDiameter as number | undefined;
+    const stock = requested !== undefined && requested > largest
+      ? requested
+      : Math.ceil((largest + TURNING_STOCK_ALLOWANCE) / 5) * 5;
+    const bore = part.metadata.boreDiameter as number | undefined;
+
+    // Largest diameter and everything before it from the first end, the
+    // rest from the other end
+    const peak = steps.findIndex(step => step.diameter === largest);
+    const setups = [steps.slice(0, peak + 1), steps.slice(peak + 1).reverse()].filter(setup => setup.length > 0);
+
+    const [rougher, finisher, partingBlade, boringBar] = standardTurningTools;
+    const at = (x: number, z: number) => ({ x: x * factor, y: 0, z: z * factor });
+    const rpm = (cuttingSpeed: number, diameter: number) =>
+      Math.min(MAX_LATHE_SPEED, Math.round(cuttingSpeed * 1000 / (Math.PI * Math.max(diameter, 1))));
+    const feed = (perRev: number, speed: number) => Math.round(perRev * speed) * unitFactor;
+    const clear = stock + 2;
+    const operations: ToolpathOperation[] = [];
+
+    setups.forEach((profile, setup) => {
+      const label = setups.length > 1 ? `${part.name} setup ${setup + 1}` : part.name;
+      if (profile.some((step, i) => i > 0 && step.diameter < profile[i - 1].diameter)) {
+        warnings.push(`${label}: profile steps down away from the face; the undercut is left for manual finishing`);
+      }
+      const ends = profile.map((_, i) => profile.slice(0, i + 1).reduce((sum, step) => sum + step.length, 0));
+      const starts = ends.map((end, i) => end - profile[i].length);
+
+      // Face
+      const roughSpeed = rpm(180, stock);
+      operations.push({
+        name: `Face ${label}${setup > 0 ? ' (part reversed in chuck)' : ''}`,
+        type: 'face',
+        tool: rougher,
+        spindleSpeed: roughSpeed,
+        feedRate: feed(0.2, roughSpeed),
+        coolant: 'flood',
+        startPoint: at(clear, 1),
+        segments: [
+          { type: 'rapid', start: at(clear, 1), end: at(clear, 0) },
+          { type: 'linear', start: at(clear, 0), end: at(-rougher.diameter, 0) },
+          { type: 'linear', start: at(-rougher.diameter, 0), end: at(-rougher.diameter, 1) },
+        ],
+        programStop: setup > 0,
+      });
+
+      // Rough turn: each level follows the profile plus the finishing
+      // allowance and stops where nothing is left above the previous level
+      const floor = Math.min(...profile.map(step => step.diameter)) + FINISH_ALLOWANCE;
+      const segments: ToolpathOperation['segments'] = [];
+      let previous = stock;
+      while (previous > floor + 1e-6) {
+        const level = Math.max(previous - 2 * ROUGHING_DEPTH, floor);
+        let x = Math.max(level, profile[0].diameter + FINISH_ALLOWANCE);
+        let z = 0;
+        segments.push({ type: 'rapid', start: at(clear, 1), end: at(x, 1) });
+        segments.push({ type: 'linear', start: at(x, 1), end: at(x, 0) });
+        for (let i = 0; i < profile.length; i++) {
+          const diameter = Math.max(level, profile[i].diameter + FINISH_ALLOWANCE);
+          if (diameter >= previous) break;
+          if (diameter !== x) {
+            segments.push({ type: 'linear', start: at(x, -z), end: at(diameter, -z) });
+            x = diameter;
+          }
+          segments.push({ type: 'linear', start: at(x, -z), end: at(x, -ends[i]) });
+          z = ends[i];
+        }
+        segments.push({ type: 'linear', start: at(x, -z), end: at(previous + 1, -z) });
+        segments.push({ type: 'rapid', start: at(previous + 1, -z), end: at(previous + 1, 1) });
+        previous = level;
+      }
+      if (segments.length > 0) {
+        operations.push({
+          name: `Rough turn ${label}`,
+          type: 'contour',
+          tool: rougher,
+          spindleSpeed: roughSpeed,
+          feedRate: feed(0.25, roughSpeed),
+          coolant: 'flood',
+          startPoint: at(clear, 1),
+          segments,
+          depth: (stock - floor) / 2 * factor,
+          stepdown: ROUGHING_DEPTH * factor,
+        });
+      }
+
+      // Finish along the profile, then up the last shoulder
+      const finishSpeed = rpm(220, Math.min(...profile.map(step => step.diameter)));
+      const finish: ToolpathOperation['segments'] = [
+        { type: 'rapid', start: at(clear, 1), end: at(profile[0].diameter, 1) },
+        { type: 'linear', start: at(profile[0].diameter, 1), end: at(profile[0].diameter, 0) },
+      ];
+      profile.forEach((step, i) => {
+        if (i > 0) {
+          finish.push({ type: 'linear', start: at(profile[i - 1].diameter, -starts[i]), end: at(step.diameter, -starts[i]) });
+        }
+        finish.push({ type: 'linear', start: at(step.diameter, -starts[i]), end: at(step.diameter, -ends[i]) });
+      });
+      const last = ends[ends.length - 1];
+      finish.push({ type: 'linear', start: at(profile[profile.length - 1].diameter, -last), end: at(clear, -last) });
+      operations.push({
+        name: `Finish turn ${label}`,
+        type: 'contour',
+        tool: finisher,
+        spindleSpeed: finishSpeed,
+        feedRate: feed(0.1, finishSpeed),
+        coolant: 'flood',
+        startPoint: at(clear, 1),
+        segments: finish,
+      });
+
+      if (setup > 0) return;
+
+      // Through bore: drill, then bore out to size
+      if (bore !== undefined && bore > 0) {
+        const drill = [...standardDrills].reverse().find(d => d.diameter <= bore);
+        if (!drill) {
+          warnings.push(`${part.name}: no standard drill for the Ø${bore}mm bore`);
+        } else {
+          const drillSpeed = rpm(80, drill.diameter);
+          const depth = length + 1;
+          const peck = 3 * drill.diameter;
+          const pecks: ToolpathOperation['segments'] = [];
+          for (let z = Math.min(peck, depth); ; z = Math.min(z + peck, depth)) {
+            pecks.push({ type: 'linear', start: at(0, 1), end: at(0, -z) });
+            pecks.push({ type: 'rapid', start: at(0, -z), end: at(0, 1) });
+            if (z >= depth) break;
+          }
+          operations.push({
+            name: `Drill ${part.name} Ø${drill.diameter}`,
+            type: 'drill',
+            tool: drill,
+            spindleSpeed: drillSpeed,
+            feedRate: feed(0.12, drillSpeed),
+            coolant: 'flood',
+            startPoint: at(0, 2),
+            segments: pecks,
+            depth: depth * factor,
+          });
+
+          if (bore - drill.diameter > 0.05) {
+            if (bore < 10) {
+              warnings.push(`${part.name}: Ø${bore}mm bore is drilled Ø${drill.diameter}mm; ream to size`);
+            } else {
+              const boreSpeed = rpm(150, bore);
+              const boring: ToolpathOperation['segments'] = [];
+              let diameter = drill.diameter;
+              while (diameter < bore - 1e-6) {
+                diameter = Math.min(diameter + 2 * ROUGHING_DEPTH, bore);
+                boring.push({ type: 'rapid', start: at(drill.diameter - 1, 1), end: at(diameter, 1) });
+                boring.push({ type: 'linear', start: at(diameter, 1), end: at(diameter, -depth) });
+                boring.push({ type: 'linear', start: at(diameter, -depth), end: at(diameter - 1, -depth) });
+                boring.push({ type: 'rapid', start: at(diameter - 1, -depth), end: at(diameter - 1, 1) });
+              }
+              operations.push({
+                name: `Bore ${part.name} Ø${bore}`,
+                type: 'contour',
+                tool: boringBar,
+                spindleSpeed: boreSpeed,
+                feedRate: feed(0.15, boreSpeed),
+                coolant: 'flood',
+                startPoint: at(drill.diameter - 1, 2),
+                segments: boring,
+                depth: (bore - drill.diameter) / 2 * factor,
+                stepover: ROUGHING_DEPTH * factor,
+              });
+            }
+          }
+        }
+      }
+
+      // Part off, leaving face stock when the part is reversed for setup 2
+      const partOff = length + (setups.length > 1 ? FACE_STOCK : 0);
+      const partingSpeed = rpm(120, stock);
+      operations.push({
+        name: `Part off ${part.name}`,
+        type: 'groove',
+        tool: partingBlade,
+        spindleSpeed: partingSpeed,
+        feedRate: feed(0.05, partingSpeed),
+        coolant: 'flood',
+        startPoint: at(clear, -partOff),
+        segments: [{ type: 'linear', start: at(clear, -partOff), end: at(-1, -partOff) }],
+      });
+    });
+
+    return operations;
+  }
+
+  private renderCutList(assembly: AssemblyResult, options: OutputOptions): RenderedOutput {
+    const warnings: string[] = [];
+    const generator = createCutListGenerator({ optimizeWaste: options.nestingOptimization ?? true });
+    const plans = this.componentPlans(assembly);
+    const members = assembly.components.filter(c => plans.get(c.id)!.plan.partClass === 'structural-profile');
+    const doc = generator.generateCutList(assembly, members);
+    if (doc.items.length === 0) {
+      warnings.push('Assembly has no linear members');
+    }
+
+    return {
+      content: generator.toText(doc, options.units ?? 'mm'),
+      extension: 'txt',
+      mimeType: 'text/plain',
+      warnings,
+      estimatedMaterial: doc.optimization
+        ? [{
+            material: 'linear stock',
+            quantity: Math.round(doc.optimization.totalStock) / 1000,
+            unit: 'm',
+            utilizationPercent: Math.round((100 - doc.optimization.wastePercentage) * 10) / 10,
+          }]
+        : undefined,
+    };
+  }
+
+  private renderBOM(assembly: AssemblyResult, options: OutputOptions): RenderedOutput {
+    const generator = createBOMGenerator();
+    const doc = generator.generateBOM(assembly, this.projectName(assembly), options.units ?? 'mm');
+
+    // Weight per material
+    const byMaterial = new Map<string, number>();
+    for (const item of doc.items) {
+      const material = item.material ?? 'unspecified';
+      byMaterial.set(material, (byMaterial.get(material) ?? 0) + (item.weight ?? 0) * item.quantity);
+    }
+
+    return {
+      content: generator.toCSV(doc),
+      extension: 'csv',
+      mimeType: 'text/csv',
+      warnings: [],
+      estimatedMaterial: Array.from(byMaterial.entries()).map(([material, weight]) => ({
+        material,
+        quantity: Math.round(weight * 100) / 100,
+        unit: 'kg',
+      })),
+    };
+  }
+
+  /**
+   * Weld schedule with AWS A2.4 symbol data
+   */
+  private renderWeldMap(assembly: AssemblyResult, options: OutputOptions): RenderedOutput {
+    const generator = createWeldMapGenerator();
+    const doc = generator.generateWeldMap(assembly, this.projectName(assembly));
+    const warnings = [...doc.warnings];
+    if (doc.joints.length === 0) {
+      warnings.push('No welded joints found');
+    }
+
+    return {
+      content: generator.toCSV(doc, options.units ?? 'mm'),
+      extension: 'csv',
+      mimeType: 'text/csv',
+      warnings,
+      estimatedMaterial: doc.joints.length > 0
+        ? [{
+            material: `${doc.config.electrode} filler metal`,
+            quantity: Math.round(doc.totals.weldMetalWeight * 100) / 100,
+            unit: 'kg',
+          }]
+        : undefined,
+      machineRequirements: doc.joints.length > 0 ? [`${doc.config.process} welding`] : undefined,
+    };
+  }
+
+  /**
+   * Process plan of each component, keyed by component id
+   */
+  private componentPlans(assembly: AssemblyResult): Map<string, { part: PartDescriptor; plan: ProcessRecommendation }> {
+    return new Map(assembly.components.map(component => {
+      const part = describeComponent(component);
+      return [component.id, { part, plan: planProcesses(part, resolveMaterial(component.material), 1) }];
+    }));
+  }
+
+  /**
+   * Parts of the given plan classes laid flat: in-plane extents (the
+   * developed blank for bent sheet) on x/y, thickness on z
+   */
+  private flatParts(
+    assembly: AssemblyResult,
+    options: OutputOptions,
+    plans: Map<string, { part: PartDescriptor; plan: ProcessRecommendation }>,
+    classes: PartClass[] = ['sheet']
+  ): GeometryResult[] {
+    const maxThickness = options.materialThickness ?? MAX_PLATE_THICKNESS;
+
+    return assembly.components
+      .filter(component => {
+        const { part, plan } = plans.get(component.id)!;
+        if (!classes.includes(plan.partClass)) return false;
+        if (plan.partClass !== 'sheet' && options.materialThickness === undefined) return true;
+        const thickness = part.thickness ?? part.extents[0];
+        return thickness > 0 && thickness <= maxThickness;
+      })
+      .map(component => {
+        const { part } = plans.get(component.id)!;
+        const [length, width] = part.blank ?? [part.extents[2], part.extents[1]];
+        return {
+          ...component,
+          bounds: {
+            min: { x: 0, y: 0, z: 0 },
+            max: { x: length, y: width, z: part.thickness ?? part.extents[0] },
+          },
+        };
+      });
+  }
+
+  private sheetMaterialEstimate(parts: GeometryResult[], sheetCount: number, efficiency: number): MaterialEstimate[] {
+    const materials = Array.from(new Set(parts.map(p => p.material)));
+    return materials.map(material => ({
+      material,
+      quantity: materials.length === 1 ? sheetCount : Math.ceil(sheetCount * parts.filter(p => p.material === material).length / parts.length),
+      unit: 'sheet',
+      sheetSize: [STANDARD_SHEET.width, STANDARD_SHEET.height] as [number, number],
+      utilizationPercent: Math.round(efficiency * 10) / 10,
+    }));
+  }
+
+  /**
+   * Name written into output files: the project id, else the assembly name
+   */
+  private projectName(assembly: AssemblyResult): string {
+    return this.state.projectId?.trim() || assembly.name?.trim() || assembly.id;
+  }
+
+  private unitFactor(options: OutputOptions): number {
+    return options.units === 'in' ? 1 / MM_PER_INCH : 1;
+  }
+
   // ============================================================================
   // STATE MANAGEMENT
   // ============================================================================
@@ -579,8 +1448,6 @@ export class EngineeringPipeline {
     });
   }
 
-  // Reserved for error handling - will be used when rule evaluation is implemented
-  // @ts-expect-error - Method reserved for future use
   private logError(stage: PipelineStage, code: string, message: string, recoverable: boolean): void {
     this.state.errors.push({
       timestamp: new Date(),
@@ -4,6 +4,9 @@
  * Core type definitions for the engineering AI pipeline
  */
 
+import type { RuleEvaluation } from '../knowledge/rules';
+import type { AssemblyResult } from '../geometry/types';
+
 // ============================================================================
 // INPUT TYPES
 // ============================================================================
@@ -262,12 +265,16 @@ export interface GeneratedOutput {
   designId: string;
   format: OutputFormat;
   filePath: string;
+  mimeType: string;
+  content: Uint8Array;
   timestamp: Date;
   metadata: OutputMetadata;
 }
 
 export interface OutputMetadata {
-  fileSize: number;
+  fileSize: number; // bytes
+  checksum: string; // SHA-256, hex
+  units: 'mm' | 'in';
   warnings: string[];
   estimatedTime?: number; // Manufacturing time in minutes
   estimatedMaterial?: MaterialEstimate[];
@@ -306,6 +313,7 @@ export interface PipelineState {
   designIntent: DesignIntent | null;
   selectedElements: SelectedElement[];
   validationResults: ValidationResult[];
+  assembly: AssemblyResult | null;
   generatedOutputs: GeneratedOutput[];
   history: PipelineEvent[];
   errors: PipelineError[];
@@ -325,6 +333,8 @@ export interface ValidationResult {
   errors: string[];
   warnings: string[];
   suggestions: string[];
+  /** Per-rule outcomes, including offending values and source citations */
+  ruleEvaluations?: RuleEvaluation[];
 }
 
 export interface PipelineEvent {
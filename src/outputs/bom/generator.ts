@@ -70,13 +70,13 @@ export class BOMGenerator {
   /**
    * Generate BOM from assembly
    */
-  generateBOM(assembly: AssemblyResult, projectName?: string): BOMDocument {
+  generateBOM(assembly: AssemblyResult, projectName?: string, units: 'mm' | 'in' = 'mm'): BOMDocument {
     const items: BOMItem[] = [];
     let itemNumber = 1;
 
     // Extract items from components
     for (const component of assembly.components) {
-      const item = this.componentToBOMItem(component, itemNumber++);
+      const item = this.componentToBOMItem(component, itemNumber++, units);
       items.push(item);
     }
 
@@ -108,11 +108,13 @@ export class BOMGenerator {
   /**
    * Convert component to BOM item
    */
-  private componentToBOMItem(component: GeometryResult, itemNumber: number): BOMItem {
+  private componentToBOMItem(component: GeometryResult, itemNumber: number, units: 'mm' | 'in'): BOMItem {
     const bounds = component.bounds;
-    const width = bounds.max.x - bounds.min.x;
-    const depth = bounds.max.y - bounds.min.y;
-    const height = bounds.max.z - bounds.min.z;
+    const factor = units === 'in' ? 1 / 25.4 : 1;
+    const digits = units === 'in' ? 2 : 0;
+    const width = (bounds.max.x - bounds.min.x) * factor;
+    const depth = (bounds.max.y - bounds.min.y) * factor;
+    const height = (bounds.max.z - bounds.min.z) * factor;
 
     return {
       itemNumber,
@@ -121,7 +123,7 @@ export class BOMGenerator {
       quantity: 1,
       unit: 'ea',
       material: component.material,
-      dimensions: `${width.toFixed(0)} x ${depth.toFixed(0)} x ${height.toFixed(0)}`,
+      dimensions: `${width.toFixed(digits)} x ${depth.toFixed(digits)} x ${height.toFixed(digits)}${units === 'in' ? ' in' : ''}`,
       weight: component.properties.weight,
     };
   }
@@ -228,18 +230,17 @@ export class CutListGenerator {
 
   /**
    * Generate cut list from assembly
+   * @param members - Components cut from stock lengths; default the linear
+   *   components by element type
    */
-  generateCutList(assembly: AssemblyResult): CutListDocument {
+  generateCutList(assembly: AssemblyResult, members?: GeometryResult[]): CutListDocument {
     const items: CutListItem[] = [];
     let itemNumber = 1;
 
     // Extract linear components (beams, pipes, etc.)
-    for (const component of assembly.components) {
-      // Check if this is a linear component based on element type
-      if (this.isLinearComponent(component)) {
-        const item = this.componentToCutListItem(component, itemNumber++);
-        items.push(item);
-      }
+    for (const component of members ?? assembly.components.filter(c => this.isLinearComponent(c))) {
+      const item = this.componentToCutListItem(component, itemNumber++);
+      items.push(item);
     }
 
     // Optimize stock usage if configured
@@ -276,37 +277,44 @@ export class CutListGenerator {
    */
   private componentToCutListItem(component: GeometryResult, itemNumber: number): CutListItem {
     const bounds = component.bounds;
+    const metadata = component.metadata;
 
-    // Determine longest dimension as length
+    // Members carry their axis length; otherwise take the longest dimension
     const dims = [
       bounds.max.x - bounds.min.x,
       bounds.max.y - bounds.min.y,
       bounds.max.z - bounds.min.z,
     ];
-    const cutLength = Math.max(...dims);
+    const centerline = typeof metadata.cutLength === 'number' ? metadata.cutLength
+      : typeof metadata.length === 'number' ? metadata.length
+      : Math.max(...dims);
 
     // Determine profile from element type
     const profile = this.determineProfile(component);
 
+    // End cuts as angles between the cut face and the member axis (90 = square);
+    // an angled cut runs past the centerline to its long point
+    const endAngles = Array.isArray(metadata.endAngles) ? metadata.endAngles as [number, number] : [90, 90];
+    const depth = typeof metadata.size === 'number' ? metadata.size : 0;
+    const longPoint = (angle: number) => angle < 90 ? depth / 2 / Math.tan(angle * Math.PI / 180) : 0;
+    const cutLength = centerline + longPoint(endAngles[0]) + longPoint(endAngles[1]);
+
     const operations: CutOperation[] = [];
 
     // Add end cuts
-    operations.push({
-      type: 'cut',
-      position: 0,
-      parameters: { angle: 90 },
-      description: 'Square cut - start',
-    });
-    operations.push({
-      type: 'cut',
-      position: cutLength,
-      parameters: { angle: 90 },
-      description: 'Square cut - end',
+    endAngles.forEach((angle, end) => {
+      const label = end === 0 ? 'start' : 'end';
+      operations.push({
+        type: angle === 90 ? 'cut' : 'miter',
+        position: end === 0 ? 0 : cutLength,
+        parameters: { angle },
+        description: angle === 90 ? `Square cut - ${label}` : `${Math.round(angle * 10) / 10}° cut - ${label}`,
+      });
     });
 
     // Check metadata for holes, notches, etc.
-    if (component.metadata.holes) {
-      const holes = component.metadata.holes as Array<{ position: number; diameter: number }>;
+    if (metadata.holes) {
+      const holes = metadata.holes as Array<{ position: number; diameter: number }>;
       for (const hole of holes) {
         operations.push({
           type: 'drill',
@@ -336,8 +344,13 @@ export class CutListGenerator {
     const elementType = component.elementType.toLowerCase();
     const metadata = component.metadata;
 
+    // Section designation from the planner, e.g. C10x25
+    if (typeof metadata.profile === 'string' && metadata.profile) {
+      return metadata.profile;
+    }
+
     if (elementType.includes('beam')) {
-      return metadata.profile as string || 'W-FLANGE';
+      return 'W-FLANGE';
     } else if (elementType.includes('tube')) {
       const size = metadata.size as number;
       return `TUBE ${size}x${size}`;
@@ -440,8 +453,10 @@ export class CutListGenerator {
   /**
    * Export cut list to text format
    */
-  toText(doc: CutListDocument): string {
+  toText(doc: CutListDocument, units: 'mm' | 'in' = 'mm'): string {
     const lines: string[] = [];
+    const length = (mm: number, digits = 0) =>
+      units === 'in' ? (mm / 25.4).toFixed(digits + 2) : mm.toFixed(digits);
 
     lines.push('CUT LIST');
     lines.push('=' .repeat(60));
@@ -454,7 +469,7 @@ export class CutListGenerator {
       'Profile'.padEnd(15) +
       'Material'.padEnd(15) +
       'Qty'.padEnd(5) +
-      'Length'.padEnd(10) +
+      `Length (${units})`.padEnd(12) +
       'Weight'
     );
     lines.push('-'.repeat(80));
@@ -467,13 +482,13 @@ export class CutListGenerator {
         item.profile.substring(0, 14).padEnd(15) +
         item.material.substring(0, 14).padEnd(15) +
         item.quantity.toString().padEnd(5) +
-        item.cutLength.toFixed(0).padEnd(10) +
+        length(item.cutLength).padEnd(12) +
         item.weight.toFixed(2)
       );
 
       // Operations
       for (const op of item.operations) {
-        lines.push(`      - ${op.description} @ ${op.position}mm`);
+        lines.push(`      - ${op.description} @ ${length(op.position, 1)}${units}`);
       }
     }
 
@@ -481,7 +496,7 @@ export class CutListGenerator {
     lines.push(
       'TOTALS'.padEnd(46) +
       doc.totals.totalItems.toString().padEnd(5) +
-      doc.totals.totalLength.toFixed(0).padEnd(10) +
+      length(doc.totals.totalLength).padEnd(12) +
       doc.totals.totalWeight.toFixed(2)
     );
 
@@ -491,8 +506,8 @@ export class CutListGenerator {
       lines.push('STOCK OPTIMIZATION');
       lines.push('-'.repeat(40));
       lines.push(`Waste: ${doc.optimization.wastePercentage.toFixed(1)}%`);
-      lines.push(`Total stock required: ${doc.optimization.totalStock}mm`);
-      lines.push(`Total waste: ${doc.optimization.totalWaste}mm`);
+      lines.push(`Total stock required: ${length(doc.optimization.totalStock)}${units}`);
+      lines.push(`Total waste: ${length(doc.optimization.totalWaste)}${units}`);
     }
 
     return lines.join('\n');
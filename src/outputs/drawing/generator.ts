@@ -0,0 +1,472 @@
+/**
+ * Drawing Generator
+ *
+ * Generates multi-view shop drawings of assemblies with title block,
+ * overall dimensions and parts list, exported as DXF or PDF.
+ */
+
+import type {
+  DrawingConfig,
+  DrawingDocument,
+  DrawingView,
+  Dimension,
+  DrawingNote,
+  TitleBlockConfig,
+  DXFDocument,
+  DXFEntity,
+  DXFLayer,
+} from '../types';
+import type { AssemblyResult, GeometryResult } from '../../geometry/types';
+import { defaultDXFConfig } from '../dxf/generator';
+
+// ============================================================================
+// DEFAULT CONFIGURATIONS
+// ============================================================================
+
+export const defaultDrawingConfig: DrawingConfig = {
+  paperSize: 'A3',
+  orientation: 'landscape',
+  scale: 0, // 0 = largest standard scale that fits the sheet
+  includeBOM: true,
+  dimensionStyle: 'iso',
+  projection: 'third-angle',
+};
+
+/** Sheet sizes in landscape orientation (mm) */
+const paperSizes: Record<DrawingConfig['paperSize'], { width: number; height: number }> = {
+  'A4': { width: 297, height: 210 },
+  'A3': { width: 420, height: 297 },
+  'A2': { width: 594, height: 420 },
+  'A1': { width: 841, height: 594 },
+  'A0': { width: 1189, height: 841 },
+  'letter': { width: 279.4, height: 215.9 },
+  'legal': { width: 355.6, height: 215.9 },
+  'ansi-a': { width: 279.4, height: 215.9 },
+  'ansi-b': { width: 431.8, height: 279.4 },
+  'ansi-c': { width: 558.8, height: 431.8 },
+  'ansi-d': { width: 863.6, height: 558.8 },
+};
+
+/** Standard reduction scales, largest first */
+const standardScales = [1, 1 / 2, 1 / 5, 1 / 10, 1 / 20, 1 / 25, 1 / 50, 1 / 100, 1 / 200, 1 / 500];
+
+const drawingLayers: DXFLayer[] = [
+  { name: 'BORDER', color: 7, lineType: 'continuous', lineWeight: 0.5 },
+  { name: 'OUTLINE', color: 7, lineType: 'continuous', lineWeight: 0.35 },
+  { name: 'DIMENSIONS', color: 3, lineType: 'continuous', lineWeight: 0.18 },
+  { name: 'NOTES', color: 2, lineType: 'continuous', lineWeight: 0.18 },
+];
+
+const SHEET_MARGIN = 10;
+const TITLE_BLOCK = { width: 180, height: 40 };
+const VIEW_GAP = 25;
+
+type ProjectedView = 'front' | 'top' | 'right';
+
+// ============================================================================
+// DRAWING GENERATOR CLASS
+// ============================================================================
+
+export class DrawingGenerator {
+  private config: DrawingConfig;
+
+  constructor(config: Partial<DrawingConfig> = {}) {
+    this.config = { ...defaultDrawingConfig, ...config };
+  }
+
+  /**
+   * Lay out front, top and right views of an assembly on a sheet
+   */
+  generateDrawing(
+    assembly: AssemblyResult,
+    options: {
+      scale?: number;
+      titleBlock?: Partial<TitleBlockConfig>;
+      includeDimensions?: boolean;
+      includeAnnotations?: boolean;
+    } = {}
+  ): DrawingDocument {
+    const sheet = this.sheetSize();
+    const extents = this.viewExtents(assembly);
+    const available = {
+      width: sheet.width - 2 * SHEET_MARGIN - 2 * VIEW_GAP,
+      height: sheet.height - 2 * SHEET_MARGIN - TITLE_BLOCK.height - 2 * VIEW_GAP,
+    };
+
+    // Front + right side by side, front + top stacked
+    const modelWidth = extents.front.width + extents.right.width;
+    const modelHeight = extents.front.height + extents.top.height;
+    const scale = options.scale || this.config.scale || this.fitScale(
+      modelWidth, modelHeight, available.width - VIEW_GAP, available.height - VIEW_GAP
+    );
+
+    const frontOrigin = {
+      x: SHEET_MARGIN + VIEW_GAP,
+      y: SHEET_MARGIN + TITLE_BLOCK.height + VIEW_GAP,
+    };
+    const frontSize = { width: extents.front.width * scale, height: extents.front.height * scale };
+    const thirdAngle = this.config.projection === 'third-angle';
+
+    // Third angle: top above front, right view to the right.
+    // First angle: top below front, right-side view to the left.
+    const topY = thirdAngle
+      ? frontOrigin.y + frontSize.height + VIEW_GAP
+      : frontOrigin.y;
+    const frontY = thirdAngle ? frontOrigin.y : frontOrigin.y + extents.top.height * scale + VIEW_GAP;
+    const rightX = thirdAngle
+      ? frontOrigin.x + frontSize.width + VIEW_GAP
+      : frontOrigin.x;
+    const frontX = thirdAngle ? frontOrigin.x : frontOrigin.x + extents.right.width * scale + VIEW_GAP;
+
+    const views: DrawingView[] = [
+      { type: 'front', position: { x: frontX, y: frontY }, scale, label: 'FRONT VIEW' },
+      { type: 'top', position: { x: frontX, y: topY }, scale, label: 'TOP VIEW' },
+      { type: 'right', position: { x: rightX, y: frontY }, scale, label: 'RIGHT VIEW' },
+    ];
+
+    const dimensions: Dimension[] = [];
+    if (options.includeDimensions !== false) {
+      for (const view of views) {
+        const extent = extents[view.type as ProjectedView];
+        const w = extent.width * scale;
+        const h = extent.height * scale;
+        const { x, y } = view.position;
+        dimensions.push({
+          type: 'linear',
+          points: [{ x, y: y - 8, z: 0 }, { x: x + w, y: y - 8, z: 0 }],
+          value: extent.width,
+          position: { x: x + w / 2, y: y - 10 },
+        });
+        dimensions.push({
+          type: 'linear',
+          points: [{ x: x + w + 8, y, z: 0 }, { x: x + w + 8, y: y + h, z: 0 }],
+          value: extent.height,
+          position: { x: x + w + 10, y: y + h / 2 },
+        });
+      }
+    }
+
+    const notes: DrawingNote[] = [];
+    if (options.includeAnnotations !== false) {
+      const materials = Array.from(new Set(assembly.components.map(c => c.material)));
+      const lines: Array<[string, DrawingNote['style']]> = [
+        ['NOTES:', 'general'],
+        [`1. ALL DIMENSIONS IN MM. SCALE ${this.scaleLabel(scale)}.`, 'general'],
+        [`2. MATERIAL: ${materials.join(', ').toUpperCase() || 'AS NOTED'}.`, 'specification'],
+        [`3. TOTAL WEIGHT: ${assembly.totalWeight.toFixed(1)} KG.`, 'specification'],
+        ...assembly.validation.errors.map(e => [`! ${e.message}`, 'warning'] as [string, DrawingNote['style']]),
+      ];
+
+      // Stacked downwards, ending just above the title block
+      const x = sheet.width - SHEET_MARGIN - TITLE_BLOCK.width;
+      const top = SHEET_MARGIN + TITLE_BLOCK.height + 5 * lines.length;
+      lines.forEach(([text, style], i) => {
+        notes.push({ text, position: { x, y: top - 5 * i }, style });
+      });
+    }
+
+    const titleBlock: TitleBlockConfig = {
+      companyName: 'MayhemAI',
+      projectName: assembly.name,
+      drawingTitle: assembly.name.toUpperCase(),
+      drawingNumber: assembly.id.toUpperCase(),
+      revision: 'A',
+      drawnBy: 'MayhemAI',
+      date: new Date().toISOString().slice(0, 10),
+      ...options.titleBlock,
+    };
+
+    return {
+      config: { ...this.config, scale, titleBlock },
+      views,
+      dimensions,
+      notes,
+      bomItems: this.config.includeBOM
+        ? assembly.components.map((c, i) => ({
+            itemNumber: i + 1,
+            partNumber: c.id,
+            description: c.name,
+            quantity: 1,
+            unit: 'ea' as const,
+            material: c.material,
+            weight: c.properties.weight,
+          }))
+        : undefined,
+      pageCount: 1,
+    };
+  }
+
+  /**
+   * Render a drawing to sheet entities (sheet coordinates, mm)
+   */
+  renderSheet(drawing: DrawingDocument, assembly: AssemblyResult): DXFEntity[] {
+    const entities: DXFEntity[] = [];
+    const sheet = this.sheetSize(drawing.config);
+
+    // Border
+    entities.push(this.rectangle('BORDER', SHEET_MARGIN, SHEET_MARGIN, sheet.width - 2 * SHEET_MARGIN, sheet.height - 2 * SHEET_MARGIN));
+
+    // Views
+    const extents = this.viewExtents(assembly);
+    for (const view of drawing.views) {
+      const type = view.type as ProjectedView;
+      const extent = extents[type];
+      for (const component of assembly.components) {
+        const r = this.project(component, type);
+        entities.push(this.rectangle(
+          'OUTLINE',
+          view.position.x + (r.u - extent.u) * view.scale,
+          view.position.y + (r.v - extent.v) * view.scale,
+          r.width * view.scale,
+          r.height * view.scale
+        ));
+      }
+      if (view.label) {
+        entities.push(this.text('NOTES', view.position.x, view.position.y + extent.height * view.scale + 4, 3.5, view.label));
+      }
+    }
+
+    // Dimensions
+    for (const dimension of drawing.dimensions) {
+      const [a, b] = dimension.points;
+      entities.push({
+        type: 'dimension',
+        layer: 'DIMENSIONS',
+        properties: {
+          dimensionType: dimension.type,
+          defPoint1: { x: a.x, y: a.y },
+          defPoint2: { x: b.x, y: b.y },
+          dimLinePoint: dimension.position,
+          textOverride: `${dimension.prefix ?? ''}${dimension.value.toFixed(0)}${dimension.suffix ?? ''}`,
+        },
+      });
+    }
+
+    // Notes
+    for (const note of drawing.notes) {
+      entities.push(this.text('NOTES', note.position.x, note.position.y, 2.5, note.text));
+    }
+
+    // Title block
+    entities.push(...this.renderTitleBlock(drawing, sheet));
+
+    // Parts list above the title block
+    if (drawing.bomItems && drawing.bomItems.length > 0) {
+      const x = sheet.width - SHEET_MARGIN - TITLE_BLOCK.width;
+      const rowHeight = 4;
+      const maxRows = Math.floor((sheet.height - 2 * SHEET_MARGIN - TITLE_BLOCK.height - 60) / rowHeight);
+      const rows = drawing.bomItems.slice(0, Math.max(0, maxRows));
+      let y = sheet.height - SHEET_MARGIN - 6;
+      entities.push(this.text('NOTES', x + 2, y, 2.5, 'ITEM  QTY  DESCRIPTION                    WEIGHT (KG)'));
+      for (const item of rows) {
+        y -= rowHeight;
+        entities.push(this.text(
+          'NOTES', x + 2, y, 2.5,
+          `${String(item.itemNumber).padEnd(6)}${String(item.quantity).padEnd(5)}${item.description.slice(0, 30).padEnd(31)}${(item.weight ?? 0).toFixed(2)}`
+        ));
+      }
+      if (rows.length < drawing.bomItems.length) {
+        entities.push(this.text('NOTES', x + 2, y - rowHeight, 2.5, `... ${drawing.bomItems.length - rows.length} MORE ITEMS - SEE BOM`));
+      }
+    }
+
+    return entities;
+  }
+
+  /**
+   * Convert drawing to a DXF document in sheet coordinates
+   */
+  toDXFDocument(drawing: DrawingDocument, assembly: AssemblyResult): DXFDocument {
+    const sheet = this.sheetSize(drawing.config);
+    return {
+      config: { ...defaultDXFConfig, layers: drawingLayers, includeDimensions: drawing.dimensions.length > 0 },
+      entities: this.renderSheet(drawing, assembly),
+      bounds: { min: { x: 0, y: 0, z: 0 }, max: { x: sheet.width, y: sheet.height, z: 0 } },
+      partCount: assembly.components.length,
+    };
+  }
+
+  /**
+   * Convert drawing to a single-page PDF
+   */
+  toPDF(drawing: DrawingDocument, assembly: AssemblyResult): string {
+    const sheet = this.sheetSize(drawing.config);
+    const pt = (mm: number) => (mm * 72 / 25.4).toFixed(2);
+    const ops: string[] = ['0.3 w', '0 G'];
+
+    for (const entity of this.renderSheet(drawing, assembly)) {
+      const p = entity.properties;
+      switch (entity.type) {
+        case 'polyline': {
+          const points = p.points as Array<{ x: number; y: number }>;
+          ops.push(`${entity.layer === 'BORDER' ? '0.7' : '0.3'} w`);
+          ops.push(`${pt(points[0].x)} ${pt(points[0].y)} m`);
+          for (const point of points.slice(1)) {
+            ops.push(`${pt(point.x)} ${pt(point.y)} l`);
+          }
+          ops.push(p.closed ? 's' : 'S');
+          break;
+        }
+        case 'line':
+          ops.push('0.3 w', `${pt(p.x1 as number)} ${pt(p.y1 as number)} m`, `${pt(p.x2 as number)} ${pt(p.y2 as number)} l`, 'S');
+          break;
+        case 'text':
+          ops.push(`BT /F1 ${pt(p.height as number)} Tf ${pt(p.x as number)} ${pt(p.y as number)} Td (${this.pdfText(String(p.text))}) Tj ET`);
+          break;
+        case 'dimension': {
+          const a = p.defPoint1 as { x: number; y: number };
+          const b = p.defPoint2 as { x: number; y: number };
+          const d = p.dimLinePoint as { x: number; y: number };
+          ops.push('0.15 w', `${pt(a.x)} ${pt(a.y)} m`, `${pt(b.x)} ${pt(b.y)} l`, 'S');
+          ops.push(`BT /F1 ${pt(2.5)} Tf ${pt(d.x)} ${pt(d.y)} Td (${this.pdfText(String(p.textOverride))}) Tj ET`);
+          break;
+        }
+      }
+    }
+
+    const content = ops.join('\n');
+    const objects = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pt(sheet.width)} ${pt(sheet.height)}] ` +
+        '/Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Courier >>',
+    ];
+
+    // Content is ASCII, so string length equals byte length for the xref table
+    let pdf = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(pdf.length);
+      pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+    const xrefOffset = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    for (const offset of offsets) {
+      pdf += `${offset.toString().padStart(10, '0')} 00000 n \n`;
+    }
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return pdf;
+  }
+
+  // ==========================================================================
+  // LAYOUT HELPERS
+  // ==========================================================================
+
+  private sheetSize(config: DrawingConfig = this.config): { width: number; height: number } {
+    const size = paperSizes[config.paperSize];
+    return config.orientation === 'landscape'
+      ? size
+      : { width: size.height, height: size.width };
+  }
+
+  /**
+   * Largest standard scale at which the views fit the drawing area
+   */
+  private fitScale(modelWidth: number, modelHeight: number, width: number, height: number): number {
+    for (const scale of standardScales) {
+      if (modelWidth * scale <= width && modelHeight * scale <= height) {
+        return scale;
+      }
+    }
+    return Math.min(width / Math.max(modelWidth, 1), height / Math.max(modelHeight, 1));
+  }
+
+  private scaleLabel(scale: number): string {
+    return scale >= 1 ? `${scale.toFixed(0)}:1` : `1:${(1 / scale).toFixed(0)}`;
+  }
+
+  /**
+   * Project a component's bounds onto a view plane (u right, v up)
+   */
+  private project(
+    component: GeometryResult,
+    view: ProjectedView
+  ): { u: number; v: number; width: number; height: number } {
+    const { min, max } = component.bounds;
+    switch (view) {
+      case 'front':
+        return { u: min.x, v: min.z, width: max.x - min.x, height: max.z - min.z };
+      case 'top':
+        return { u: min.x, v: min.y, width: max.x - min.x, height: max.y - min.y };
+      case 'right':
+        return { u: min.y, v: min.z, width: max.y - min.y, height: max.z - min.z };
+    }
+  }
+
+  private viewExtents(
+    assembly: AssemblyResult
+  ): Record<ProjectedView, { u: number; v: number; width: number; height: number }> {
+    const { min, max } = assembly.bounds;
+    return {
+      front: { u: min.x, v: min.z, width: max.x - min.x, height: max.z - min.z },
+      top: { u: min.x, v: min.y, width: max.x - min.x, height: max.y - min.y },
+      right: { u: min.y, v: min.z, width: max.y - min.y, height: max.z - min.z },
+    };
+  }
+
+  private renderTitleBlock(drawing: DrawingDocument, sheet: { width: number; height: number }): DXFEntity[] {
+    const block = drawing.config.titleBlock;
+    const x = sheet.width - SHEET_MARGIN - TITLE_BLOCK.width;
+    const y = SHEET_MARGIN;
+    const entities: DXFEntity[] = [
+      this.rectangle('BORDER', x, y, TITLE_BLOCK.width, TITLE_BLOCK.height),
+      this.line('BORDER', x, y + 20, x + TITLE_BLOCK.width, y + 20),
+      this.line('BORDER', x + 120, y, x + 120, y + 20),
+    ];
+    if (!block) return entities;
+
+    entities.push(this.text('NOTES', x + 3, y + 32, 5, block.drawingTitle));
+    entities.push(this.text('NOTES', x + 3, y + 24, 3, `${block.companyName} - ${block.projectName}`));
+    entities.push(this.text('NOTES', x + 3, y + 13, 3, `DWG NO: ${block.drawingNumber}`));
+    entities.push(this.text('NOTES', x + 3, y + 5, 2.5, `DRAWN: ${block.drawnBy}  DATE: ${block.date}`));
+    entities.push(this.text('NOTES', x + 123, y + 13, 3, `REV ${block.revision}`));
+    entities.push(this.text('NOTES', x + 123, y + 5, 2.5, `SCALE ${this.scaleLabel(drawing.config.scale)}`));
+    return entities;
+  }
+
+  private rectangle(layer: string, x: number, y: number, width: number, height: number): DXFEntity {
+    return {
+      type: 'polyline',
+      layer,
+      properties: {
+        closed: true,
+        points: [
+          { x, y },
+          { x: x + width, y },
+          { x: x + width, y: y + height },
+          { x, y: y + height },
+        ],
+      },
+    };
+  }
+
+  private line(layer: string, x1: number, y1: number, x2: number, y2: number): DXFEntity {
+    return { type: 'line', layer, properties: { x1, y1, x2, y2 } };
+  }
+
+  private text(layer: string, x: number, y: number, height: number, text: string): DXFEntity {
+    return { type: 'text', layer, properties: { x, y, height, text } };
+  }
+
+  /**
+   * Escape PDF string delimiters and drop characters outside printable ASCII
+   */
+  private pdfText(text: string): string {
+    return text
+      .replace(/[^\x20-\x7e]/g, '?')
+      .replace(/\\/g, '\\\\')
+      .replace(/\(/g, '\\(')
+      .replace(/\)/g, '\\)');
+  }
+}
+
+// ============================================================================
+// FACTORY FUNCTION
+// ============================================================================
+
+export function createDrawingGenerator(config?: Partial<DrawingConfig>): DrawingGenerator {
+  return new DrawingGenerator(config);
+}
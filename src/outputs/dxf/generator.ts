@@ -238,6 +238,210 @@ export class DXFGenerator {
     return entities;
   }
 
+  /**
+   * Generate DXF with parts placed on nested sheets
+   */
+  generateNestedDXF(
+    geometries: GeometryResult[],
+    nesting: NestingResult,
+    options: {
+      sheetGap?: number;
+    } = {}
+  ): DXFDocument {
+    const entities: DXFEntity[] = [];
+    const sheetGap = options.sheetGap ?? 100;
+    const byId = new Map(geometries.map(g => [g.id, g]));
+    let sheetX = 0;
+    let partCount = 0;
+    let maxHeight = 0;
+
+    for (const sheet of nesting.sheets) {
+      // Sheet boundary
+      entities.push({
+        type: 'polyline',
+        layer: 'NOTES',
+        properties: {
+          closed: true,
+          points: [
+            { x: sheetX, y: 0 },
+            { x: sheetX + sheet.sheetSize.width, y: 0 },
+            { x: sheetX + sheet.sheetSize.width, y: sheet.sheetSize.height },
+            { x: sheetX, y: sheet.sheetSize.height },
+          ],
+        },
+      });
+      entities.push({
+        type: 'text',
+        layer: 'NOTES',
+        properties: {
+          x: sheetX,
+          y: sheet.sheetSize.height + 20,
+          height: 15,
+          text: `SHEET ${sheet.sheetIndex + 1} - ${sheet.efficiency.toFixed(1)}% UTILIZATION`,
+        },
+      });
+
+      for (const part of sheet.parts) {
+        // Nested part IDs carry an instance suffix (`${id}_${index}`)
+        const geometry = byId.get(part.partId.replace(/_\d+$/, ''));
+        if (!geometry) continue;
+
+        const rotated = part.rotation === 90 ? this.rotateOutline(geometry) : geometry;
+        entities.push(...this.generateOutline(rotated, 'top', {
+          x: sheetX + part.position.x,
+          y: part.position.y,
+        }));
+        partCount++;
+      }
+
+      maxHeight = Math.max(maxHeight, sheet.sheetSize.height);
+      sheetX += sheet.sheetSize.width + sheetGap;
+    }
+
+    return {
+      config: this.config,
+      entities,
+      bounds: {
+        min: { x: 0, y: 0, z: 0 },
+        max: { x: Math.max(0, sheetX - sheetGap), y: maxHeight, z: 0 },
+      },
+      partCount,
+    };
+  }
+
+  /**
+   * Swap the in-plane extents of a part for a 90° nested placement
+   */
+  private rotateOutline(geometry: GeometryResult): GeometryResult {
+    const { min, max } = geometry.bounds;
+    return {
+      ...geometry,
+      bounds: {
+        min: { x: min.y, y: min.x, z: min.z },
+        max: { x: max.y, y: max.x, z: max.z },
+      },
+    };
+  }
+
+  /**
+   * Scale every coordinate in a document (unit conversion or drawing scale)
+   */
+  scaleDocument(doc: DXFDocument, factor: number, units: DXFConfig['units'] = doc.config.units): DXFDocument {
+    const point = (p: { x: number; y: number; z?: number }) => ({
+      ...p,
+      x: p.x * factor,
+      y: p.y * factor,
+    });
+    const scaledKeys = ['x', 'y', 'x1', 'y1', 'x2', 'y2', 'radius', 'height'];
+
+    const entities = doc.entities.map(entity => {
+      const properties: Record<string, unknown> = { ...entity.properties };
+      for (const key of scaledKeys) {
+        if (typeof properties[key] === 'number') {
+          properties[key] = (properties[key] as number) * factor;
+        }
+      }
+      if (Array.isArray(properties.points)) {
+        properties.points = (properties.points as Array<{ x: number; y: number }>).map(point);
+      }
+      for (const key of ['defPoint1', 'defPoint2', 'dimLinePoint']) {
+        if (properties[key]) {
+          properties[key] = point(properties[key] as { x: number; y: number });
+        }
+      }
+      return { ...entity, properties };
+    });
+
+    return {
+      ...doc,
+      config: { ...doc.config, units },
+      entities,
+      bounds: {
+        min: { x: doc.bounds.min.x * factor, y: doc.bounds.min.y * factor, z: doc.bounds.min.z * factor },
+        max: { x: doc.bounds.max.x * factor, y: doc.bounds.max.y * factor, z: doc.bounds.max.z * factor },
+      },
+    };
+  }
+
+  /**
+   * Convert DXF document to SVG (laser/plasma cutting)
+   */
+  documentToSVG(doc: DXFDocument): string {
+    const { min, max } = doc.bounds;
+    const margin = Math.max(max.x - min.x, max.y - min.y) * 0.02 || 1;
+    const width = max.x - min.x + 2 * margin;
+    const height = max.y - min.y + 2 * margin;
+    const unit = doc.config.units === 'mm' ? 'mm' : 'in';
+    const layerColors: Record<string, string> = {
+      CUT: '#000000',
+      ENGRAVE: '#0000ff',
+      FOLD: '#ff0000',
+      DIMENSIONS: '#00a000',
+      NOTES: '#808000',
+    };
+
+    // SVG y axis points down
+    const sx = (x: number) => (x - min.x + margin).toFixed(3);
+    const sy = (y: number) => (max.y - y + margin).toFixed(3);
+    const escape = (text: string) =>
+      text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+    const lines: string[] = [];
+    lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+    lines.push(
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width.toFixed(3)}${unit}" height="${height.toFixed(3)}${unit}" ` +
+      `viewBox="0 0 ${width.toFixed(3)} ${height.toFixed(3)}">`
+    );
+
+    const layers = Array.from(new Set(doc.entities.map(e => e.layer)));
+    for (const layer of layers) {
+      const stroke = layerColors[layer] ?? '#000000';
+      lines.push(`  <g id="${escape(layer)}" stroke="${stroke}" fill="none" stroke-width="${(margin / 20).toFixed(3)}">`);
+
+      for (const entity of doc.entities.filter(e => e.layer === layer)) {
+        const p = entity.properties;
+        switch (entity.type) {
+          case 'line':
+            lines.push(`    <line x1="${sx(p.x1 as number)}" y1="${sy(p.y1 as number)}" x2="${sx(p.x2 as number)}" y2="${sy(p.y2 as number)}"/>`);
+            break;
+          case 'circle':
+            lines.push(`    <circle cx="${sx(p.x as number)}" cy="${sy(p.y as number)}" r="${(p.radius as number).toFixed(3)}"/>`);
+            break;
+          case 'polyline': {
+            const points = (p.points as Array<{ x: number; y: number }>)
+              .map(pt => `${sx(pt.x)},${sy(pt.y)}`)
+              .join(' ');
+            lines.push(`    <${p.closed ? 'polygon' : 'polyline'} points="${points}"/>`);
+            break;
+          }
+          case 'text':
+            lines.push(
+              `    <text x="${sx(p.x as number)}" y="${sy(p.y as number)}" font-size="${(p.height as number).toFixed(3)}" ` +
+              `fill="${stroke}" stroke="none" text-anchor="${p.horizontalJustification === 'center' ? 'middle' : 'start'}">` +
+              `${escape(String(p.text))}</text>`
+            );
+            break;
+          case 'dimension': {
+            const a = p.defPoint1 as { x: number; y: number };
+            const b = p.defPoint2 as { x: number; y: number };
+            const d = p.dimLinePoint as { x: number; y: number };
+            lines.push(`    <line x1="${sx(a.x)}" y1="${sy(a.y)}" x2="${sx(b.x)}" y2="${sy(b.y)}" stroke-dasharray="2,1"/>`);
+            lines.push(
+              `    <text x="${sx(d.x)}" y="${sy(d.y)}" font-size="${(margin / 2).toFixed(3)}" fill="${stroke}" stroke="none" ` +
+              `text-anchor="middle">${escape(String(p.textOverride))}</text>`
+            );
+            break;
+          }
+        }
+      }
+
+      lines.push('  </g>');
+    }
+
+    lines.push('</svg>');
+    return lines.join('\n');
+  }
+
   /**
    * Convert DXF document to string
    */
@@ -245,7 +449,7 @@ export class DXFGenerator {
     const lines: string[] = [];
 
     // HEADER section
-    lines.push(...this.generateHeader());
+    lines.push(...this.generateHeader(doc.config));
 
     // TABLES section
     lines.push(...this.generateTables(doc.config.layers));
@@ -271,9 +475,10 @@ export class DXFGenerator {
   }
 
   /**
-   * Generate DXF header section
+   * Generate DXF header section from the document's own config, which
+   * scaleDocument may have switched to other units
    */
-  private generateHeader(): string[] {
+  private generateHeader(config: DXFConfig): string[] {
     const lines: string[] = [];
 
     lines.push('0');
@@ -285,13 +490,13 @@ export class DXFGenerator {
     lines.push('9');
     lines.push('$ACADVER');
     lines.push('1');
-    lines.push(this.getVersionString());
+    lines.push(this.getVersionString(config.version));
 
     // Units
     lines.push('9');
     lines.push('$INSUNITS');
     lines.push('70');
-    lines.push(this.config.units === 'mm' ? '4' : '1');
+    lines.push(config.units === 'mm' ? '4' : '1');
 
     lines.push('0');
     lines.push('ENDSEC');
@@ -435,8 +640,8 @@ export class DXFGenerator {
   /**
    * Get DXF version string
    */
-  private getVersionString(): string {
-    switch (this.config.version) {
+  private getVersionString(version: DXFConfig['version']): string {
+    switch (version) {
       case 'R12': return 'AC1009';
       case 'R14': return 'AC1014';
       case '2000': return 'AC1015';
@@ -134,7 +134,11 @@ export class GCodeGenerator {
     header.push('');
 
     // Safety block
-    header.push('G17 G40 G49 G80 G90'); // XY plane, cancel cutter comp, cancel length offset, cancel canned cycle, absolute mode
+    if (this.isLathe) {
+      header.push('G18 G40 G80 G98'); // XZ plane, cancel nose radius comp, cancel canned cycle, feed per minute
+    } else {
+      header.push('G17 G40 G49 G80 G90'); // XY plane, cancel cutter comp, cancel length offset, cancel canned cycle, absolute mode
+    }
 
     // Unit selection
     header.push(this.config.units === 'mm' ? 'G21' : 'G20');
@@ -156,9 +160,13 @@ export class GCodeGenerator {
     footer.push('');
     footer.push('M05'); // Spindle stop
     footer.push('M09'); // Coolant off
-    footer.push(`G00 Z${this.config.safetyHeight}`); // Retract
-    footer.push('G28 G91 Z0'); // Return to reference point
-    footer.push('G28 X0 Y0'); // Return XY to reference
+    if (this.isLathe) {
+      footer.push('G28 U0 W0'); // Return turret to reference
+    } else {
+      footer.push(`G00 Z${this.config.safetyHeight}`); // Retract
+      footer.push('G28 G91 Z0'); // Return to reference point
+      footer.push('G28 X0 Y0'); // Return XY to reference
+    }
     footer.push('M30'); // Program end
 
     return footer;
@@ -170,6 +178,13 @@ export class GCodeGenerator {
   private generateOperation(operation: ToolpathOperation): GCodeOperation[] {
     const gcode: GCodeOperation[] = [];
 
+    gcode.push({ type: 'comment', params: { text: operation.name.replace(/[()]/g, '') } });
+
+    // Optional stop, e.g. to re-chuck the part
+    if (operation.programStop) {
+      gcode.push({ type: 'dwell', params: { seconds: 0 } });
+    }
+
     // Tool change if needed
     if (operation.tool && operation.tool.number !== this.currentTool) {
       gcode.push(...this.generateToolChange(operation.tool));
@@ -195,31 +210,44 @@ export class GCodeGenerator {
       });
     }
 
-    // Move to start position
+    // Move to start position. On a lathe the start point is the clearance
+    // point: approach in X in front of the part, then in Z
     if (operation.startPoint) {
-      gcode.push({
-        type: 'rapid',
-        params: { z: this.config.safetyHeight },
-      });
-      gcode.push({
-        type: 'rapid',
-        params: {
-          x: operation.startPoint.x,
-          y: operation.startPoint.y,
-        },
-      });
+      if (this.isLathe) {
+        gcode.push({ type: 'rapid', params: { x: operation.startPoint.x } });
+        gcode.push({ type: 'rapid', params: { z: operation.startPoint.z } });
+      } else {
+        gcode.push({
+          type: 'rapid',
+          params: { z: this.config.safetyHeight },
+        });
+        gcode.push({
+          type: 'rapid',
+          params: {
+            x: operation.startPoint.x,
+            y: operation.startPoint.y,
+          },
+        });
+      }
     }
 
     // Execute toolpath segments
     for (const segment of operation.segments) {
-      gcode.push(...this.generateSegment(segment));
+      gcode.push(...this.generateSegment(segment, operation.feedRate));
     }
 
-    // Retract after operation
-    gcode.push({
-      type: 'rapid',
-      params: { z: this.config.safetyHeight },
-    });
+    // Retract after operation: clear the diameter first on a lathe
+    if (this.isLathe) {
+      if (operation.startPoint) {
+        gcode.push({ type: 'rapid', params: { x: operation.startPoint.x } });
+      }
+      gcode.push({ type: 'rapid', params: { z: this.config.safetyHeight } });
+    } else {
+      gcode.push({
+        type: 'rapid',
+        params: { z: this.config.safetyHeight },
+      });
+    }
 
     return gcode;
   }
@@ -227,18 +255,15 @@ export class GCodeGenerator {
   /**
    * Generate G-code for a toolpath segment
    */
-  private generateSegment(segment: ToolpathSegment): GCodeOperation[] {
+  private generateSegment(segment: ToolpathSegment, operationFeed?: number): GCodeOperation[] {
+    const feed = segment.feedRate || operationFeed || this.config.cuttingFeed;
     const gcode: GCodeOperation[] = [];
 
     switch (segment.type) {
       case 'rapid':
         gcode.push({
           type: 'rapid',
-          params: {
-            x: segment.end.x,
-            y: segment.end.y,
-            z: segment.end.z,
-          },
+          params: this.axisWords(segment.end),
         });
         break;
 
@@ -246,28 +271,25 @@ export class GCodeGenerator {
         gcode.push({
           type: 'linear',
           params: {
-            x: segment.end.x,
-            y: segment.end.y,
-            z: segment.end.z,
-            f: segment.feedRate || this.config.cuttingFeed,
+            ...this.axisWords(segment.end),
+            f: feed,
           },
         });
         break;
 
       case 'arc':
         if (segment.center) {
-          const i = segment.center.x - segment.start.x;
-          const j = segment.center.y - segment.start.y;
+          // Lathe arcs lie in XZ, with the centre given by I and K
+          const offsets: Record<string, number> = this.isLathe
+            ? { i: segment.center.x - segment.start.x, k: segment.center.z - segment.start.z }
+            : { i: segment.center.x - segment.start.x, j: segment.center.y - segment.start.y };
 
           gcode.push({
             type: segment.clockwise ? 'arc-cw' : 'arc-ccw',
             params: {
-              x: segment.end.x,
-              y: segment.end.y,
-              z: segment.end.z,
-              i,
-              j,
-              f: segment.feedRate || this.config.cuttingFeed,
+              ...this.axisWords(segment.end),
+              ...offsets,
+              f: feed,
             },
           });
         }
@@ -277,6 +299,17 @@ export class GCodeGenerator {
     return gcode;
   }
 
+  /**
+   * Axis words for a point: X (diameter) and Z on a lathe, XYZ otherwise
+   */
+  private axisWords(point: Point3D): Record<string, number> {
+    return this.isLathe ? { x: point.x, z: point.z } : { x: point.x, y: point.y, z: point.z };
+  }
+
+  private get isLathe(): boolean {
+    return this.config.machineType === 'lathe';
+  }
+
   /**
    * Generate tool change sequence
    */
@@ -468,6 +501,7 @@ export interface ToolpathOperation {
   depth?: number;
   stepover?: number;
   stepdown?: number;
+  programStop?: boolean; // M00 before the operation, e.g. to re-chuck
 }
 
 // ============================================================================
@@ -492,6 +526,14 @@ export const standardDrills: GCodeTool[] = [
   { number: 15, type: 'drill', diameter: 10.2, length: 110, material: 'carbide', description: '10.2mm carbide drill (M12 tap)' },
 ];
 
+/** Lathe turret: tool diameter is the insert nose diameter or blade width */
+export const standardTurningTools: GCodeTool[] = [
+  { number: 1, type: 'turning', diameter: 1.6, length: 100, material: 'carbide', description: 'CNMG 120408 roughing insert (R0.8)' },
+  { number: 2, type: 'turning', diameter: 0.8, length: 100, material: 'carbide', description: 'VNMG 160404 finishing insert (R0.4)' },
+  { number: 3, type: 'grooving', diameter: 3, length: 100, material: 'carbide', description: '3mm parting blade' },
+  { number: 4, type: 'boring-bar', diameter: 8, length: 120, material: 'carbide', description: '8mm boring bar (R0.4), 10mm min bore' },
+];
+
 // ============================================================================
 // FACTORY FUNCTION
 // ============================================================================
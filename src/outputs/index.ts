@@ -7,6 +7,8 @@
  * - BOM (Bill of Materials) with cost estimation
  * - Cut lists with stock optimization
  * - Assembly instructions
+ * - Multi-view shop drawings (DXF/PDF)
+ * - Weld maps with AWS A2.4 symbols (schedule + DXF overlay)
  */
 
 // Export types
@@ -52,6 +54,14 @@ export type {
   AssemblyInstructionConfig,
   AssemblyInstruction,
   AssemblyInstructionDocument,
+
+  // Weld Map types
+  WeldMapConfig,
+  WeldType,
+  WeldJointType,
+  WeldSymbol,
+  WeldJoint,
+  WeldMapDocument,
 } from './types';
 
 // G-Code Generator
@@ -63,6 +73,7 @@ export {
   defaultRouterConfig,
   standardEndmills,
   standardDrills,
+  standardTurningTools,
 } from './gcode/generator';
 export type { ToolpathOperation } from './gcode/generator';
 
@@ -75,6 +86,13 @@ export {
   createNestingOptimizer,
 } from './dxf/generator';
 
+// Drawing Generator
+export {
+  DrawingGenerator,
+  defaultDrawingConfig,
+  createDrawingGenerator,
+} from './drawing/generator';
+
 // BOM Generator
 export {
   BOMGenerator,
@@ -88,6 +106,13 @@ export {
   createAssemblyInstructionsGenerator,
 } from './bom/generator';
 
+// Weld Map Generator
+export {
+  WeldMapGenerator,
+  defaultWeldMapConfig,
+  createWeldMapGenerator,
+} from './weld/generator';
+
 // ============================================================================
 // CONVENIENCE FACTORY FUNCTIONS
 // ============================================================================
@@ -393,3 +393,85 @@ export interface AssemblyInstructionDocument {
   requiredTools: string[];
   safetyPrecautions: string[];
 }
+
+// ============================================================================
+// WELD MAP TYPES
+// ============================================================================
+
+export interface WeldMapConfig {
+  /** Filler metal classification */
+  electrode: 'E60XX' | 'E70XX' | 'E80XX';
+
+  /** Base metal grade for capacity checks */
+  plateGrade: 'A36' | 'A572-50';
+
+  /** Welding process shown in the symbol tail */
+  process: string;
+
+  /** Gap within which two parts are considered in contact (mm) */
+  contactTolerance: number;
+
+  /** Factored shear per joint for capacity checks (kN) */
+  designShear: number;
+}
+
+export type WeldType = 'fillet' | 'CJP' | 'PJP' | 'flare-bevel' | 'plug';
+
+export type WeldJointType =
+  | 'stringer-to-tread'
+  | 'stringer-to-landing'
+  | 'base-plate'
+  | 'cap-plate'
+  | 'shear-tab'
+  | 'bracing-gusset'
+  | 'post-base'
+  | 'rail-to-post'
+  | 'rung-to-rail'
+  | 'cage'
+  | 'bracket';
+
+/**
+ * Welding symbol data per AWS A2.4
+ */
+export interface WeldSymbol {
+  weldType: WeldType;
+  arrowSide: boolean;
+  otherSide: boolean;
+  size: number; // mm (fillet leg or groove depth)
+  length?: number; // mm per side; omitted for all-around welds
+  allAround: boolean;
+  fieldWeld: boolean;
+  tail?: string; // process / filler reference
+}
+
+export interface WeldJoint {
+  weldId: string;
+  jointType: WeldJointType;
+  description: string;
+  partA: { id: string; name: string };
+  partB: { id: string; name: string } | null; // null = support by others
+  location: Point3D;
+  symbol: WeldSymbol;
+  totalLength: number; // mm, all sides
+  position: 'flat' | 'horizontal' | 'vertical' | 'overhead';
+  inspection: 'VT' | 'VT+MT' | 'VT+UT';
+  capacity: number; // kN
+  demandRatio: number;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface WeldMapDocument {
+  config: WeldMapConfig;
+  projectName?: string;
+  assemblyName: string;
+  joints: WeldJoint[];
+  totals: {
+    jointCount: number;
+    fieldWelds: number;
+    totalLength: number; // mm
+    weldMetalWeight: number; // kg
+  };
+  warnings: string[];
+  generatedDate: string;
+}
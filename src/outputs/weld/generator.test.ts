@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import type { AssemblyResult, GeometryResult } from '../../geometry/types';
+import { createWeldMapGenerator } from './generator';
+
+type Point = [number, number, number];
+
+function part(id: string, elementType: string, min: Point, max: Point, metadata: Record<string, unknown> = {}): GeometryResult {
+  const [x0, y0, z0] = min;
+  const [x1, y1, z1] = max;
+  const volume = (x1 - x0) * (y1 - y0) * (z1 - z0);
+  return {
+    id,
+    shapeId: '',
+    name: id,
+    elementType,
+    bounds: { min: { x: x0, y: y0, z: z0 }, max: { x: x1, y: y1, z: z1 } },
+    transform: { position: { x: x0, y: y0, z: z0 }, rotation: { x: 0, y: 0, z: 0 } },
+    properties: {
+      volume,
+      surfaceArea: 2 * ((x1 - x0) * (y1 - y0) + (y1 - y0) * (z1 - z0) + (x1 - x0) * (z1 - z0)),
+      weight: volume * 7.85e-6,
+      centerOfMass: { x: (x0 + x1) / 2, y: (y0 + y1) / 2, z: (z0 + z1) / 2 },
+    },
+    material: 'A36',
+    metadata,
+  };
+}
+
+function assembly(...components: GeometryResult[]): AssemblyResult {
+  return {
+    id: 'assembly-1',
+    name: 'Test Assembly',
+    components,
+    bounds: { min: { x: -500, y: -500, z: 0 }, max: { x: 1500, y: 1500, z: 4000 } },
+  } as AssemblyResult;
+}
+
+/** HSS100x100x6 column on a 20 mm base plate */
+const basePlate = part('Base Plate', 'base-plate', [-150, -150, 0], [150, 150, 20], { thickness: 20 });
+const column: GeometryResult = {
+  ...part('Column', 'column', [-50, -50, 20], [50, 50, 3000], { profile: 'HSS100x100x6', shape: 'tube-rect' }),
+  properties: { volume: 2256 * 2980, surfaceArea: 400 * 2980, weight: 52.8, centerOfMass: { x: 0, y: 0, z: 1510 } },
+};
+
+/** 6 mm tread resting on a stringer flange */
+const stringer = part('Stringer', 'stringer-channel', [0, -75, 0], [1000, 0, 250], { thickness: 10 });
+const tread = part('Tread', 'tread', [200, -75, 250], [480, 1000, 256], { thickness: 6 });
+
+describe('WeldMapGenerator', () => {
+  it('sizes an all-around weld round the column section', () => {
+    const doc = createWeldMapGenerator().generateWeldMap(assembly(basePlate, column), 'P-1');
+    const [joint] = doc.joints;
+
+    expect(doc.joints).toHaveLength(1);
+    expect(joint).toMatchObject({
+      weldId: 'W-001',
+      jointType: 'base-plate',
+      partA: { name: 'Column' },
+      partB: { name: 'Base Plate' },
+      totalLength: 400,
+      inspection: 'VT',
+      location: { x: 0, y: 0, z: 20 },
+    });
+    // AISC minimum fillet for the wall, read from the section's volume and surface
+    expect(joint.symbol).toMatchObject({ size: 3, allAround: true, fieldWeld: false, length: undefined });
+    expect(joint.capacity).toBeGreaterThan(0);
+    expect(doc.totals.weldMetalWeight).toBeCloseTo(3 ** 2 / 2 * 400 * 7.85e-6, 9);
+  });
+
+  it('welds treads to stringers on both sides along the contact', () => {
+    const doc = createWeldMapGenerator().generateWeldMap(assembly(stringer, tread));
+    const [joint] = doc.joints;
+
+    expect(joint.jointType).toBe('stringer-to-tread');
+    expect(joint.symbol).toMatchObject({ size: 3, otherSide: true, length: 280, allAround: false });
+    expect(joint.totalLength).toBe(560);
+    expect(joint.position).toBe('horizontal');
+    expect(createWeldMapGenerator().symbolNotation(joint.symbol)).toBe('3 FILLET BOTH SIDES 280 (GMAW E70XX)');
+
+    const thick = { ...tread, metadata: { thickness: 12 } };
+    expect(createWeldMapGenerator().generateWeldMap(assembly(stringer, thick)).joints[0].symbol.size).toBe(5);
+  });
+
+  it('adds field welds for shear tabs whose support is not modeled', () => {
+    const tab = part('Shear Tab', 'shear-tab', [0, 0, 0], [115, 10, 124], { thickness: 10 });
+    const doc = createWeldMapGenerator().generateWeldMap(assembly(tab));
+
+    expect(doc.joints[0]).toMatchObject({ partB: null, inspection: 'VT+MT', position: 'vertical' });
+    expect(doc.joints[0].symbol.fieldWeld).toBe(true);
+    expect(doc.joints[0].warnings).toContain('Support not modeled; weld made at erection');
+    expect(doc.totals.fieldWelds).toBe(1);
+  });
+
+  it('warns about contacts it cannot classify and ignores parts apart', () => {
+    const touching = part('Other Tread', 'tread', [480, -75, 250], [760, 1000, 256], { thickness: 6 });
+    const apart = part('Loose Column', 'column', [5000, 0, 0], [5100, 100, 3000]);
+    const doc = createWeldMapGenerator().generateWeldMap(assembly(tread, touching, apart));
+
+    expect(doc.joints).toEqual([]);
+    expect(doc.warnings).toContain('1 contacting part pair(s) not classified as welded joints; confirm bolted or loose');
+  });
+
+  it('checks demand when a design shear is given', () => {
+    const unloaded = createWeldMapGenerator().generateWeldMap(assembly(stringer, tread));
+    expect(unloaded.warnings).toContain('No design shear specified; weld capacities reported without demand');
+    expect(unloaded.joints[0].demandRatio).toBe(0);
+
+    const loaded = createWeldMapGenerator({ designShear: 50 }).generateWeldMap(assembly(stringer, tread));
+    expect(loaded.warnings).not.toContain('No design shear specified; weld capacities reported without demand');
+    expect(loaded.joints[0].demandRatio).toBeCloseTo(50 / loaded.joints[0].capacity, 6);
+  });
+
+  it('writes the schedule as CSV in either unit', () => {
+    const generator = createWeldMapGenerator();
+    const doc = generator.generateWeldMap(assembly(stringer, tread));
+    const [header, row] = generator.toCSV(doc, 'in').split('\n');
+
+    expect(header).toContain('"Size (in)","Length (in)"');
+    expect(row).toContain('"0.118 FILLET BOTH SIDES 11.024 (GMAW E70XX)","0.118","22.05"');
+    expect(generator.toCSV(doc).split('\n').pop()).toContain('"TOTALS","1 joints"');
+  });
+
+  it('draws symbols with flags for field welds in the overlay', () => {
+    const tab = part('Shear Tab', 'shear-tab', [1000, 1000, 0], [1115, 1010, 124], { thickness: 10 });
+    const generator = createWeldMapGenerator();
+    const doc = generator.generateWeldMap(assembly(basePlate, column, tab));
+    const dxf = generator.toDXFDocument(doc, assembly(basePlate, column, tab));
+
+    expect(dxf.entities.filter(e => e.layer === 'REFERENCE')).toHaveLength(3);
+    const ids = dxf.entities.filter(e => e.type === 'text' && e.layer === 'WELDS').map(e => e.properties.text);
+    expect(ids).toEqual(['W-001', 'W-002']);
+    // All-around circle for the column, field flag for the tab
+    expect(dxf.entities.filter(e => e.type === 'circle' && e.layer === 'WELD-SYMBOLS')).toHaveLength(1);
+    expect(dxf.entities.filter(e => e.type === 'polyline' && e.layer === 'WELD-SYMBOLS')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,548 @@
+/**
+ * Weld Map Generator
+ *
+ * Identifies welded joints in fabricated assemblies, sizes each weld with
+ * the welded connection calculator and emits AWS A2.4 symbol data as a
+ * weld schedule and a DXF overlay.
+ */
+
+import type {
+  WeldMapConfig,
+  WeldMapDocument,
+  WeldJoint,
+  WeldJointType,
+  WeldSymbol,
+  WeldType,
+  DXFDocument,
+  DXFEntity,
+  DXFLayer,
+} from '../types';
+import type { Point3D } from '../../knowledge/types';
+import type { AssemblyResult, GeometryResult } from '../../geometry/types';
+import { calculateWeldedConnection } from '../../knowledge/domains/structure';
+import { defaultDXFConfig } from '../dxf/generator';
+
+// ============================================================================
+// DEFAULT CONFIGURATIONS
+// ============================================================================
+
+export const defaultWeldMapConfig: WeldMapConfig = {
+  electrode: 'E70XX',
+  plateGrade: 'A36',
+  process: 'GMAW',
+  contactTolerance: 1,
+  designShear: 0,
+};
+
+/**
+ * Welded joint rules, matched in order against the element types of two
+ * contacting parts
+ */
+interface WeldJointRule {
+  jointType: WeldJointType;
+  description: string;
+  partA: RegExp;
+  partB: RegExp;
+  weldType: WeldType;
+  bothSides: boolean;
+  allAround: boolean;
+  fieldWeld: boolean;
+}
+
+const weldJointRules: WeldJointRule[] = [
+  {
+    jointType: 'stringer-to-tread', description: 'Tread to stringer',
+    partA: /^stringer/, partB: /^tread/,
+    weldType: 'fillet', bothSides: true, allAround: false, fieldWeld: false,
+  },
+  {
+    jointType: 'stringer-to-landing', description: 'Stringer to landing',
+    partA: /^stringer/, partB: /^(landing|deck-plate|grating|frame|joist)/,
+    weldType: 'fillet', bothSides: true, allAround: false, fieldWeld: true,
+  },
+  {
+    jointType: 'base-plate', description: 'Column to base plate',
+    partA: /^(column|post)/, partB: /^base-plate/,
+    weldType: 'fillet', bothSides: false, allAround: true, fieldWeld: false,
+  },
+  {
+    jointType: 'cap-plate', description: 'Column to cap plate',
+    partA: /^column/, partB: /^cap-plate/,
+    weldType: 'fillet', bothSides: false, allAround: true, fieldWeld: false,
+  },
+  {
+    jointType: 'shear-tab', description: 'Shear tab to support',
+    partA: /^shear-tab/, partB: /^(column|girder)/,
+    weldType: 'fillet', bothSides: true, allAround: false, fieldWeld: false,
+  },
+  {
+    jointType: 'bracing-gusset', description: 'Gusset to framing',
+    partA: /^gusset/, partB: /^(column|beam|frame)/,
+    weldType: 'fillet', bothSides: true, allAround: false, fieldWeld: false,
+  },
+  {
+    jointType: 'bracing-gusset', description: 'Brace to gusset',
+    partA: /^(bracing|cross-member)/, partB: /^gusset/,
+    weldType: 'fillet', bothSides: true, allAround: false, fieldWeld: true,
+  },
+  {
+    jointType: 'post-base', description: 'Guard post to support',
+    partA: /^post/, partB: /^(stringer|landing|deck-plate|grating|frame|joist|toe-board)/,
+    weldType: 'fillet', bothSides: false, allAround: true, fieldWeld: true,
+  },
+  {
+    jointType: 'rail-to-post', description: 'Rail to post',
+    partA: /^(handrail|top-rail|mid-rail|rail-tube)/, partB: /^post/,
+    weldType: 'fillet', bothSides: false, allAround: true, fieldWeld: false,
+  },
+  {
+    jointType: 'rung-to-rail', description: 'Rung to side rail',
+    partA: /^rung/, partB: /^(rail|rail-tube)$/,
+    weldType: 'fillet', bothSides: false, allAround: true, fieldWeld: false,
+  },
+  {
+    jointType: 'cage', description: 'Cage hoop to vertical bar',
+    partA: /^cage-hoop/, partB: /^(cage-vertical|rail)/,
+    weldType: 'fillet', bothSides: false, allAround: false, fieldWeld: false,
+  },
+  {
+    jointType: 'bracket', description: 'Bracket to support',
+    partA: /^(bracket|duct-support|tray-support|pipe-support)/, partB: /./,
+    weldType: 'fillet', bothSides: true, allAround: false, fieldWeld: false,
+  },
+];
+
+/** Weld metal density (kg/mm³) */
+const WELD_METAL_DENSITY = 7.85e-6;
+
+const weldLayers: DXFLayer[] = [
+  { name: 'REFERENCE', color: 8, lineType: 'hidden', lineWeight: 0.13 },
+  { name: 'WELDS', color: 1, lineType: 'continuous', lineWeight: 0.25 },
+  { name: 'WELD-SYMBOLS', color: 6, lineType: 'continuous', lineWeight: 0.18 },
+];
+
+// ============================================================================
+// WELD MAP GENERATOR CLASS
+// ============================================================================
+
+export class WeldMapGenerator {
+  private config: WeldMapConfig;
+
+  constructor(config: Partial<WeldMapConfig> = {}) {
+    this.config = { ...defaultWeldMapConfig, ...config };
+  }
+
+  /**
+   * Find and size every welded joint in an assembly
+   */
+  generateWeldMap(assembly: AssemblyResult, projectName?: string): WeldMapDocument {
+    const joints: WeldJoint[] = [];
+    const warnings: string[] = [];
+    const components = assembly.components;
+    const supported = new Set<string>();
+    let unclassified = 0;
+
+    for (let i = 0; i < components.length; i++) {
+      for (let j = i + 1; j < components.length; j++) {
+        if (!this.inContact(components[i], components[j])) continue;
+
+        const match = this.matchRule(components[i], components[j]);
+        if (!match) {
+          unclassified++;
+          continue;
+        }
+        joints.push(this.createJoint(joints.length + 1, match.rule, match.partA, match.partB));
+        if (match.rule.jointType === 'shear-tab') {
+          supported.add(match.partA.id);
+        }
+      }
+    }
+
+    // Shear tabs are shop-welded to a support that is not part of the assembly
+    const shearTab = weldJointRules.find(rule => rule.jointType === 'shear-tab')!;
+    for (const component of components) {
+      if (shearTab.partA.test(component.elementType) && !supported.has(component.id)) {
+        joints.push(this.createJoint(joints.length + 1, { ...shearTab, fieldWeld: true }, component, null));
+      }
+    }
+
+    if (unclassified > 0) {
+      warnings.push(`${unclassified} contacting part pair(s) not classified as welded joints; confirm bolted or loose`);
+    }
+    if (this.config.designShear <= 0) {
+      warnings.push('No design shear specified; weld capacities reported without demand');
+    }
+    const failing = joints.filter(joint => joint.errors.length > 0);
+    if (failing.length > 0) {
+      warnings.push(`${failing.length} weld(s) fail capacity or size checks: ${failing.map(j => j.weldId).join(', ')}`);
+    }
+
+    return {
+      config: this.config,
+      projectName,
+      assemblyName: assembly.name,
+      joints,
+      totals: {
+        jointCount: joints.length,
+        fieldWelds: joints.filter(joint => joint.symbol.fieldWeld).length,
+        totalLength: joints.reduce((sum, joint) => sum + joint.totalLength, 0),
+        weldMetalWeight: joints.reduce(
+          (sum, joint) => sum + joint.symbol.size ** 2 / 2 * joint.totalLength * WELD_METAL_DENSITY,
+          0
+        ),
+      },
+      warnings,
+      generatedDate: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Export weld schedule to CSV
+   */
+  toCSV(doc: WeldMapDocument, units: 'mm' | 'in' = 'mm'): string {
+    const length = (mm: number) => units === 'in' ? (mm / 25.4).toFixed(2) : mm.toFixed(0);
+    const size = (mm: number) => units === 'in' ? (mm / 25.4).toFixed(3) : mm.toFixed(0);
+
+    const rows: string[][] = [[
+      'Weld ID', 'Joint', 'Part A', 'Part B', 'Symbol', `Size (${units})`, `Length (${units})`,
+      'All Around', 'Field Weld', 'Position', 'Inspection', 'Capacity (kN)', 'Location', 'Notes',
+    ]];
+
+    for (const joint of doc.joints) {
+      const { x, y, z } = joint.location;
+      rows.push([
+        joint.weldId,
+        joint.description,
+        joint.partA.name,
+        joint.partB?.name ?? 'Support (by others)',
+        this.symbolNotation(joint.symbol, units),
+        size(joint.symbol.size),
+        length(joint.totalLength),
+        joint.symbol.allAround ? 'Y' : 'N',
+        joint.symbol.fieldWeld ? 'Y' : 'N',
+        joint.position,
+        joint.inspection,
+        joint.capacity.toFixed(0),
+        `${length(x)}/${length(y)}/${length(z)}`,
+        [...joint.errors, ...joint.warnings].join('; '),
+      ]);
+    }
+
+    rows.push([]);
+    rows.push([
+      'TOTALS', `${doc.totals.jointCount} joints`, '', '', '', '', length(doc.totals.totalLength),
+      '', `${doc.totals.fieldWelds} field`, '', '', '', '', `Weld metal ${doc.totals.weldMetalWeight.toFixed(2)} kg`,
+    ]);
+
+    return rows.map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(',')).join('\n');
+  }
+
+  /**
+   * Weld markers, weld IDs and welding symbols in model coordinates
+   */
+  generateOverlay(doc: WeldMapDocument, view: 'top' | 'front' | 'right' = 'front'): DXFEntity[] {
+    const entities: DXFEntity[] = [];
+
+    for (const joint of doc.joints) {
+      const at = this.projectPoint(joint.location, view);
+      const textHeight = Math.max(joint.symbol.size * 4, 20);
+      const elbow = { x: at.x + textHeight * 2, y: at.y + textHeight * 2 };
+      const referenceEnd = { x: elbow.x + textHeight * 8, y: elbow.y };
+
+      // Joint marker and arrow leader
+      entities.push({ type: 'circle', layer: 'WELDS', properties: { x: at.x, y: at.y, radius: textHeight / 4 } });
+      entities.push({ type: 'line', layer: 'WELD-SYMBOLS', properties: { x1: at.x, y1: at.y, x2: elbow.x, y2: elbow.y } });
+      entities.push({
+        type: 'line',
+        layer: 'WELD-SYMBOLS',
+        properties: { x1: elbow.x, y1: elbow.y, x2: referenceEnd.x, y2: referenceEnd.y },
+      });
+
+      if (joint.symbol.allAround) {
+        entities.push({
+          type: 'circle',
+          layer: 'WELD-SYMBOLS',
+          properties: { x: elbow.x, y: elbow.y, radius: textHeight / 3 },
+        });
+      }
+      if (joint.symbol.fieldWeld) {
+        // Flag on a staff at the arrow/reference junction
+        entities.push({
+          type: 'polyline',
+          layer: 'WELD-SYMBOLS',
+          properties: {
+            closed: false,
+            points: [
+              { x: elbow.x, y: elbow.y },
+              { x: elbow.x, y: elbow.y + textHeight * 1.5 },
+              { x: elbow.x + textHeight, y: elbow.y + textHeight * 1.25 },
+              { x: elbow.x, y: elbow.y + textHeight },
+            ],
+          },
+        });
+      }
+
+      // Arrow side below the reference line, other side above
+      const notation = this.symbolNotation({ ...joint.symbol, allAround: false, fieldWeld: false, tail: undefined });
+      entities.push({
+        type: 'text',
+        layer: 'WELD-SYMBOLS',
+        properties: { x: elbow.x + textHeight, y: elbow.y - textHeight * 1.25, height: textHeight, text: notation },
+      });
+      if (joint.symbol.otherSide) {
+        entities.push({
+          type: 'text',
+          layer: 'WELD-SYMBOLS',
+          properties: { x: elbow.x + textHeight, y: elbow.y + textHeight * 0.25, height: textHeight, text: notation },
+        });
+      }
+      entities.push({
+        type: 'text',
+        layer: 'WELDS',
+        properties: { x: referenceEnd.x + textHeight / 2, y: referenceEnd.y - textHeight / 2, height: textHeight, text: joint.weldId },
+      });
+    }
+
+    return entities;
+  }
+
+  /**
+   * DXF overlay with part outlines for reference
+   */
+  toDXFDocument(
+    doc: WeldMapDocument,
+    assembly: AssemblyResult,
+    view: 'top' | 'front' | 'right' = 'front'
+  ): DXFDocument {
+    const entities: DXFEntity[] = assembly.components.map(component => {
+      const min = this.projectPoint(component.bounds.min, view);
+      const max = this.projectPoint(component.bounds.max, view);
+      return {
+        type: 'polyline' as const,
+        layer: 'REFERENCE',
+        properties: {
+          closed: true,
+          points: [
+            { x: min.x, y: min.y },
+            { x: max.x, y: min.y },
+            { x: max.x, y: max.y },
+            { x: min.x, y: max.y },
+          ],
+        },
+      };
+    });
+    entities.push(...this.generateOverlay(doc, view));
+
+    const min = this.projectPoint(assembly.bounds.min, view);
+    const max = this.projectPoint(assembly.bounds.max, view);
+
+    return {
+      config: { ...defaultDXFConfig, layers: weldLayers, includeDimensions: false },
+      entities,
+      bounds: { min: { x: min.x, y: min.y, z: 0 }, max: { x: max.x, y: max.y, z: 0 } },
+      partCount: assembly.components.length,
+    };
+  }
+
+  /**
+   * Plain-text rendering of a welding symbol, e.g. "6 FILLET BOTH SIDES 150 ALL AROUND FIELD (GMAW E70XX)"
+   */
+  symbolNotation(symbol: WeldSymbol, units: 'mm' | 'in' = 'mm'): string {
+    const value = (mm: number) => units === 'in' ? `${(mm / 25.4).toFixed(3)}` : `${Math.round(mm)}`;
+    const parts = [value(symbol.size), symbol.weldType.toUpperCase()];
+
+    if (symbol.arrowSide && symbol.otherSide) parts.push('BOTH SIDES');
+    else if (symbol.otherSide) parts.push('OTHER SIDE');
+    if (symbol.length !== undefined) parts.push(value(symbol.length));
+    if (symbol.allAround) parts.push('ALL AROUND');
+    if (symbol.fieldWeld) parts.push('FIELD');
+    if (symbol.tail) parts.push(`(${symbol.tail})`);
+
+    return parts.join(' ');
+  }
+
+  // ============================================================================
+  // JOINT DETECTION
+  // ============================================================================
+
+  private inContact(a: GeometryResult, b: GeometryResult): boolean {
+    const tolerance = this.config.contactTolerance;
+    return (['x', 'y', 'z'] as const).every(axis =>
+      a.bounds.min[axis] <= b.bounds.max[axis] + tolerance &&
+      b.bounds.min[axis] <= a.bounds.max[axis] + tolerance
+    );
+  }
+
+  private matchRule(
+    a: GeometryResult,
+    b: GeometryResult
+  ): { rule: WeldJointRule; partA: GeometryResult; partB: GeometryResult } | undefined {
+    for (const rule of weldJointRules) {
+      if (rule.partA.test(a.elementType) && rule.partB.test(b.elementType)) {
+        return { rule, partA: a, partB: b };
+      }
+      if (rule.partA.test(b.elementType) && rule.partB.test(a.elementType)) {
+        return { rule, partA: b, partB: a };
+      }
+    }
+    return undefined;
+  }
+
+  private createJoint(
+    index: number,
+    rule: WeldJointRule,
+    partA: GeometryResult,
+    partB: GeometryResult | null
+  ): WeldJoint {
+    const overlap = partB ? this.overlap(partA, partB) : partA.bounds;
+    const extents = {
+      x: overlap.max.x - overlap.min.x,
+      y: overlap.max.y - overlap.min.y,
+      z: overlap.max.z - overlap.min.z,
+    };
+
+    // All-around welds follow the smaller section; line welds follow the contact
+    const sides = rule.bothSides ? 2 : 1;
+    const lineLength = Math.max(extents.x, extents.y, extents.z);
+    const perSide = rule.allAround
+      ? this.sectionPerimeter(partB && this.isPlate(partA) ? partB : partA)
+      : Math.max(lineLength, 25);
+    const totalLength = perSide * sides;
+
+    const thicknesses = [this.partThickness(partA), ...(partB ? [this.partThickness(partB)] : [])];
+    const thinner = Math.min(...thicknesses);
+    const size = this.filletSize(thinner);
+
+    const check = calculateWeldedConnection({
+      connectionType: rule.jointType,
+      beamDepth: lineLength,
+      reactionShear: this.config.designShear,
+      reactionMoment: 0,
+      weldType: rule.weldType,
+      weldSize: size,
+      weldLength: totalLength,
+      weldElectrode: this.config.electrode,
+      plateThickness: thinner,
+      plateGrade: this.config.plateGrade,
+    });
+
+    // Vertical line welds are made in the vertical position
+    const vertical = !rule.allAround && extents.z >= Math.max(extents.x, extents.y);
+    const warnings = [...check.warnings];
+    if (!partB) {
+      warnings.push('Support not modeled; weld made at erection');
+    }
+
+    return {
+      weldId: `W-${String(index).padStart(3, '0')}`,
+      jointType: rule.jointType,
+      description: rule.description,
+      partA: { id: partA.id, name: partA.name },
+      partB: partB ? { id: partB.id, name: partB.name } : null,
+      location: {
+        x: (overlap.min.x + overlap.max.x) / 2,
+        y: (overlap.min.y + overlap.max.y) / 2,
+        z: (overlap.min.z + overlap.max.z) / 2,
+      },
+      symbol: {
+        weldType: rule.weldType,
+        arrowSide: true,
+        otherSide: rule.bothSides,
+        size,
+        length: rule.allAround ? undefined : Math.round(perSide),
+        allAround: rule.allAround,
+        fieldWeld: rule.fieldWeld,
+        tail: `${this.config.process} ${this.config.electrode}`,
+      },
+      totalLength: Math.round(totalLength),
+      position: vertical ? 'vertical' : 'horizontal',
+      inspection: rule.weldType === 'CJP' ? 'VT+UT' : rule.fieldWeld ? 'VT+MT' : 'VT',
+      capacity: check.weldCapacity.totalCapacity,
+      demandRatio: this.config.designShear > 0 ? check.weldCapacity.demandRatio : 0,
+      errors: check.errors,
+      warnings,
+    };
+  }
+
+  private overlap(a: GeometryResult, b: GeometryResult): { min: Point3D; max: Point3D } {
+    const lo = (axis: 'x' | 'y' | 'z') => Math.max(a.bounds.min[axis], b.bounds.min[axis]);
+    const hi = (axis: 'x' | 'y' | 'z') => Math.min(a.bounds.max[axis], b.bounds.max[axis]);
+    // Touching faces overlap by zero; keep the contact plane
+    const range = (axis: 'x' | 'y' | 'z') => {
+      const min = lo(axis);
+      const max = hi(axis);
+      return min <= max ? [min, max] : [(min + max) / 2, (min + max) / 2];
+    };
+    const [x0, x1] = range('x');
+    const [y0, y1] = range('y');
+    const [z0, z1] = range('z');
+    return { min: { x: x0, y: y0, z: z0 }, max: { x: x1, y: y1, z: z1 } };
+  }
+
+  // ============================================================================
+  // SIZING
+  // ============================================================================
+
+  /**
+   * Minimum fillet per AISC 360 Table J2.4 for the thinner part joined,
+   * never larger than that part
+   */
+  private filletSize(thinner: number): number {
+    const minimum = thinner <= 6 ? 3 : thinner <= 13 ? 5 : thinner <= 19 ? 6 : 8;
+    return Math.max(3, Math.min(minimum, Math.floor(thinner)));
+  }
+
+  private isPlate(component: GeometryResult): boolean {
+    return typeof component.metadata.thickness === 'number';
+  }
+
+  /**
+   * Plate thickness, or wall thickness estimated from the section's
+   * volume-to-surface ratio
+   */
+  private partThickness(component: GeometryResult): number {
+    const metadata = component.metadata;
+    if (typeof metadata.thickness === 'number') return metadata.thickness;
+
+    const smallest = Math.min(...this.extents(component));
+    const shape = String(metadata.shape ?? '');
+    const { volume, surfaceArea } = component.properties;
+    if (shape.startsWith('bar') || volume <= 0 || surfaceArea <= 0) return smallest;
+
+    // Hollow sections list outer perimeter only; open sections both faces
+    const ratio = volume / surfaceArea;
+    return Math.min(smallest, shape.startsWith('tube') ? ratio : 2 * ratio);
+  }
+
+  private sectionPerimeter(component: GeometryResult): number {
+    if (typeof component.metadata.diameter === 'number') {
+      return Math.PI * component.metadata.diameter;
+    }
+    const [a, b] = this.extents(component);
+    return 2 * (a + b);
+  }
+
+  private extents(component: GeometryResult): number[] {
+    const { min, max } = component.bounds;
+    return [max.x - min.x, max.y - min.y, max.z - min.z].sort((a, b) => a - b);
+  }
+
+  private projectPoint(point: Point3D, view: 'top' | 'front' | 'right'): { x: number; y: number } {
+    switch (view) {
+      case 'top':
+        return { x: point.x, y: point.y };
+      case 'front':
+        return { x: point.x, y: point.z };
+      case 'right':
+        return { x: point.y, y: point.z };
+    }
+  }
+}
+
+// ============================================================================
+// FACTORY FUNCTIONS
+// ============================================================================
+
+export function createWeldMapGenerator(config?: Partial<WeldMapConfig>): WeldMapGenerator {
+  return new WeldMapGenerator(config);
+}
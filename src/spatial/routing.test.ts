@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import type { BoundingBox3D, Point3D } from '../knowledge/types';
+import type { RouteRequest, RouteSegment } from './routing';
+import { placeRouteSupports, routeRun } from './routing';
+
+const at = (x: number, y: number, z: number): Point3D => ({ x, y, z });
+
+/** 100 mm run at 3 m, 5 m along X */
+const straight: RouteRequest = {
+  start: { position: at(0, 0, 3000) },
+  end: { position: at(5000, 0, 3000) },
+  size: 100,
+};
+
+/** Full-height wall across the straight run */
+const wall: BoundingBox3D = { min: at(2000, -500, 0), max: at(3000, 500, 4000) };
+
+/** Whether an axis-aligned segment passes through the inside of a box */
+function enters(segment: RouteSegment, box: BoundingBox3D): boolean {
+  return (['x', 'y', 'z'] as const).every(a => {
+    const lo = Math.min(segment.start[a], segment.end[a]);
+    const hi = Math.max(segment.start[a], segment.end[a]);
+    return hi > box.min[a] + 1e-6 && lo < box.max[a] - 1e-6;
+  });
+}
+
+describe('routeRun', () => {
+  it('runs straight between facing nozzles with nothing in the way', () => {
+    const route = routeRun(straight);
+
+    expect(route.valid).toBe(true);
+    expect(route.points).toEqual([at(0, 0, 3000), at(5000, 0, 3000)]);
+    expect(route.segments[0].direction).toBe('X');
+    expect(route.bends).toBe(0);
+    expect(route.totalLength).toBe(5000);
+  });
+
+  it('goes round an obstacle at its clearance with the fewest fittings', () => {
+    const route = routeRun({ ...straight, obstacles: [{ id: 'wall', bounds: wall }] });
+    // Radius 50 plus 50 clearance
+    const keepOut = { min: at(1900, -600, -100), max: at(3100, 600, 4100) };
+
+    expect(route.valid).toBe(true);
+    expect(route.bends).toBe(2);
+    expect(route.totalLength).toBe(5000 + 2 * 600);
+    expect(route.segments.some(s => enters(s, keepOut))).toBe(false);
+
+    const sleeved = routeRun({ ...straight, obstacles: [{ id: 'wall', bounds: wall, canPenetrate: true }] });
+    expect(sleeved.bends).toBe(0);
+  });
+
+  it('leaves and enters along the nozzle axes', () => {
+    const route = routeRun({
+      ...straight,
+      start: { position: at(0, 0, 3000), direction: { x: 0, y: 0, z: 1 } },
+      end: { position: at(5000, 0, 3000), direction: { x: 0, y: 0, z: 0.9 } },
+    });
+
+    expect(route.segments.map(s => s.direction)).toEqual(['Z', 'X', 'Z']);
+    // The legs off the nozzles are at least one bend radius
+    expect(route.segments[0].length).toBeGreaterThanOrEqual(150);
+  });
+
+  it('keeps a sloped run falling towards the end', () => {
+    const sloped = routeRun({ ...straight, end: { position: at(5000, 0, 2950) }, slope: 0.01 });
+    expect(sloped.valid).toBe(true);
+    expect(sloped.points[sloped.points.length - 1].z).toBe(2950);
+
+    expect(routeRun({ ...straight, end: { position: at(5000, 0, 2990) }, slope: 0.01 }).errors)
+      .toEqual(['Not enough fall between the nozzles for a 1.0% slope']);
+    expect(routeRun({ ...straight, end: { position: at(5000, 0, 3100) }, slope: 0.01 }).errors)
+      .toEqual(['A sloped run must fall from start to end']);
+  });
+
+  it('reports requests it cannot route', () => {
+    expect(routeRun({ ...straight, size: 0 }).errors).toEqual(['Route size must be positive']);
+    expect(routeRun({ ...straight, bounds: { min: at(-100, -100, 0), max: at(4000, 100, 4000) } }).errors)
+      .toEqual(['End nozzle is outside the routing space']);
+    expect(routeRun({
+      ...straight,
+      bounds: { min: at(-100, -1000, 0), max: at(5100, 1000, 4000) },
+      obstacles: [{ id: 'wall', bounds: { min: at(2000, -2000, -1000), max: at(3000, 2000, 5000) } }],
+    }).errors).toEqual(['No route found clear of the obstacles and clearance zones']);
+  });
+});
+
+describe('placeRouteSupports', () => {
+  const segments: RouteSegment[] = [
+    { start: at(0, 0, 3000), end: at(5000, 0, 3000), length: 5000, direction: 'X' },
+    { start: at(5000, 0, 3000), end: at(5000, 0, 0), length: 3000, direction: 'Z' },
+  ];
+
+  it('spaces hangers along horizontal legs and clamps risers at their foot', () => {
+    const supports = placeRouteSupports({ segments }, 2000);
+
+    expect(supports.map(s => s.type)).toEqual(['hanger', 'hanger', 'hanger', 'hanger', 'riser-clamp']);
+    // 300 from each end, 4400 between in three equal bays
+    expect(supports.slice(0, 4).map(s => Math.round(s.distance))).toEqual([300, 1767, 3233, 4700]);
+    expect(supports[4]).toEqual({ position: at(5000, 0, 0), segment: 1, distance: 8000, type: 'riser-clamp' });
+  });
+
+  it('puts a single hanger mid-span on short legs', () => {
+    const [short] = placeRouteSupports({ segments: [{ ...segments[0], end: at(400, 0, 3000), length: 400 }] }, 2000);
+    expect(short.position).toEqual(at(200, 0, 3000));
+  });
+});
@@ -0,0 +1,562 @@
+/**
+ * Obstacle-Avoiding Routing
+ *
+ * Orthogonal routes for pipe, duct and cable tray runs between two nozzles.
+ * Candidate bend points come from a visibility grid built on the nozzle
+ * positions, the clearance-inflated faces of every obstacle and the
+ * preferred elevations; A* then finds the route with the least length and
+ * fittings. The segment list feeds `calculatePipe` (routingType 'routed'),
+ * `calculateDuct` (length and elbows) and the support spacing calculators.
+ */
+
+import type { Point3D, Vector3D, BoundingBox3D } from '../knowledge/types';
+import type { EnvironmentModel } from '../inputs/types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type RouteAxis = 'X' | 'Y' | 'Z';
+
+export interface RouteNozzle {
+  position: Point3D;
+  /** Outward nozzle axis; the route leaves or enters along it. Snapped to the nearest axis. */
+  direction?: Vector3D;
+}
+
+export interface RouteObstacle {
+  id: string;
+  bounds: BoundingBox3D;
+  /** Kept clear in addition to the route clearance (mm) */
+  avoidanceMargin?: number;
+  /** Penetrations allowed (e.g. sleeved walls); ignored by the router */
+  canPenetrate?: boolean;
+}
+
+export interface RouteRequest {
+  start: RouteNozzle;
+  end: RouteNozzle;
+  /** Outside diameter, or largest cross-section dimension (mm) */
+  size: number;
+  /** Surfaces, obstacles and clearance zones to route around */
+  environment?: EnvironmentModel;
+  /** Further obstacles, e.g. from a design request */
+  obstacles?: RouteObstacle[];
+  /** Space the route must stay within (default: environment bounds) */
+  bounds?: BoundingBox3D;
+  /** Gap between the outside of the run and any obstacle (mm, default 50) */
+  clearance?: number;
+  /** Centreline bend radius (mm, default 1.5 × size, long-radius elbow) */
+  minBendRadius?: number;
+  /** Centreline elevations horizontal runs should keep to (mm) */
+  preferredElevations?: number[];
+  /** Required fall of horizontal runs from start to end (e.g. 0.01 = 1%) */
+  slope?: number;
+  /** Route length one fitting is worth when comparing routes (mm, default 10 × size, at least 500) */
+  bendCost?: number;
+}
+
+export interface RouteSegment {
+  start: Point3D;
+  end: Point3D;
+  length: number;
+  direction: RouteAxis;
+}
+
+export interface RouteResult {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+  /** Centreline polyline, start to end */
+  points: Point3D[];
+  segments: RouteSegment[];
+  totalLength: number;     // mm
+  bends: number;
+  /** Preferred clearance zones the route passes through */
+  zonesCrossed: string[];
+}
+
+export interface RouteSupport {
+  position: Point3D;
+  segment: number;
+  /** Distance along the route from the start (mm) */
+  distance: number;
+  type: 'hanger' | 'riser-clamp';
+}
+
+// =============================================================================
+// GEOMETRY
+// =============================================================================
+
+const AXES = ['x', 'y', 'z'] as const;
+type AxisKey = typeof AXES[number];
+
+/** +X, -X, +Y, -Y, +Z, -Z; 6 = not moving yet */
+const NO_DIRECTION = 6;
+
+interface Box {
+  id: string;
+  min: Point3D;
+  max: Point3D;
+}
+
+function inflate(bounds: BoundingBox3D, by: number, id: string): Box {
+  return {
+    id,
+    min: { x: bounds.min.x - by, y: bounds.min.y - by, z: bounds.min.z - by },
+    max: { x: bounds.max.x + by, y: bounds.max.y + by, z: bounds.max.z + by },
+  };
+}
+
+function contains(box: Box, p: Point3D): boolean {
+  return AXES.every(a => p[a] > box.min[a] && p[a] < box.max[a]);
+}
+
+/**
+ * Does the segment pass through the open interior of the box? (slab test)
+ * Segments running along a face do not.
+ */
+function segmentHitsBox(a: Point3D, b: Point3D, box: Box): boolean {
+  let t0 = 0;
+  let t1 = 1;
+  for (const axis of AXES) {
+    const d = b[axis] - a[axis];
+    if (Math.abs(d) < 1e-9) {
+      if (a[axis] <= box.min[axis] || a[axis] >= box.max[axis]) return false;
+      continue;
+    }
+    let near = (box.min[axis] - a[axis]) / d;
+    let far = (box.max[axis] - a[axis]) / d;
+    if (near > far) [near, far] = [far, near];
+    t0 = Math.max(t0, near);
+    t1 = Math.min(t1, far);
+    if (t0 >= t1) return false;
+  }
+  return t1 - t0 > 1e-9;
+}
+
+function axisOf(v: Vector3D): number {
+  const abs = [Math.abs(v.x), Math.abs(v.y), Math.abs(v.z)];
+  const axis = abs.indexOf(Math.max(...abs));
+  return axis * 2 + ([v.x, v.y, v.z][axis] < 0 ? 1 : 0);
+}
+
+function segmentAxis(a: Point3D, b: Point3D): RouteAxis {
+  return (['X', 'Y', 'Z'] as const)[Math.floor(axisOf({ x: b.x - a.x, y: b.y - a.y, z: b.z - a.z }) / 2)];
+}
+
+function length(a: Point3D, b: Point3D): number {
+  return Math.hypot(b.x - a.x, b.y - a.y, b.z - a.z);
+}
+
+function planLength(a: Point3D, b: Point3D): number {
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
+
+/** Sorted, de-duplicated coordinates within [min, max] */
+function gridLine(values: number[], min: number, max: number): number[] {
+  const sorted = values.filter(v => v >= min - 1e-6 && v <= max + 1e-6).sort((a, b) => a - b);
+  return sorted.filter((v, i) => i === 0 || v - sorted[i - 1] > 1e-3);
+}
+
+// =============================================================================
+// PRIORITY QUEUE
+// =============================================================================
+
+class MinQueue {
+  private keys: number[] = [];
+  private priorities: number[] = [];
+
+  get size(): number {
+    return this.keys.length;
+  }
+
+  push(key: number, priority: number): void {
+    this.keys.push(key);
+    this.priorities.push(priority);
+    let i = this.keys.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.priorities[parent] <= this.priorities[i]) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const top = this.keys[0];
+    const lastKey = this.keys.pop()!;
+    const lastPriority = this.priorities.pop()!;
+    if (this.keys.length > 0) {
+      this.keys[0] = lastKey;
+      this.priorities[0] = lastPriority;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.keys.length && this.priorities[left] < this.priorities[smallest]) smallest = left;
+        if (right < this.keys.length && this.priorities[right] < this.priorities[smallest]) smallest = right;
+        if (smallest === i) break;
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private swap(i: number, j: number): void {
+    [this.keys[i], this.keys[j]] = [this.keys[j], this.keys[i]];
+    [this.priorities[i], this.priorities[j]] = [this.priorities[j], this.priorities[i]];
+  }
+}
+
+// =============================================================================
+// ROUTER
+// =============================================================================
+
+const MAX_EXPANSIONS = 400000;
+
+interface SearchState {
+  node: number;
+  direction: number;
+  cost: number;
+  /** Length of the leg being run so far */
+  leg: number;
+  first: boolean;
+  parent: number | undefined;
+}
+
+function emptyRoute(errors: string[], warnings: string[]): RouteResult {
+  return { valid: false, errors, warnings, points: [], segments: [], totalLength: 0, bends: 0, zonesCrossed: [] };
+}
+
+/**
+ * Find an orthogonal route between two nozzles around the obstacles,
+ * surfaces and required clearance zones of the environment.
+ */
+export function routeRun(request: RouteRequest): RouteResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const { start, end, environment } = request;
+  const radius = request.size / 2;
+  const clearance = request.clearance ?? 50;
+  const bendRadius = request.minBendRadius ?? 1.5 * request.size;
+  const bendCost = request.bendCost ?? Math.max(500, 10 * request.size);
+  const slope = request.slope ?? 0;
+  const preferred = request.preferredElevations ?? [];
+
+  if (request.size <= 0) {
+    errors.push('Route size must be positive');
+    return emptyRoute(errors, warnings);
+  }
+  if (slope > 0 && end.position.z > start.position.z) {
+    errors.push('A sloped run must fall from start to end');
+    return emptyRoute(errors, warnings);
+  }
+
+  // Keep-out boxes, inflated so the centreline may run along their faces
+  const hard: Box[] = [];
+  const soft: Box[] = [];
+  for (const obstacle of environment?.obstacles ?? []) {
+    hard.push(inflate(obstacle.bounds, radius + clearance, obstacle.name ?? obstacle.id));
+  }
+  for (const obstacle of request.obstacles ?? []) {
+    if (obstacle.canPenetrate) continue;
+    hard.push(inflate(obstacle.bounds, radius + clearance + (obstacle.avoidanceMargin ?? 0), obstacle.id));
+  }
+  for (const surface of environment?.surfaces ?? []) {
+    hard.push(inflate(surface.bounds, radius + clearance, `${surface.type} ${surface.id}`));
+  }
+  for (const zone of environment?.clearanceZones ?? []) {
+    if (zone.priority === 'required') hard.push(inflate(zone.bounds, radius, `${zone.type} zone ${zone.id}`));
+    else if (zone.priority === 'preferred') soft.push(inflate(zone.bounds, radius, zone.id));
+  }
+
+  // Routing space
+  const space = request.bounds ?? environment?.bounds ?? (() => {
+    const points = [start.position, end.position, ...hard.flatMap(b => [b.min, b.max])];
+    const margin = 2000;
+    return {
+      min: { x: Math.min(...points.map(p => p.x)) - margin, y: Math.min(...points.map(p => p.y)) - margin, z: Math.min(...points.map(p => p.z)) - margin },
+      max: { x: Math.max(...points.map(p => p.x)) + margin, y: Math.max(...points.map(p => p.y)) + margin, z: Math.max(...points.map(p => p.z)) + margin },
+    };
+  })();
+  const inner = inflate(space, -radius, 'bounds');
+
+  // Nozzles may sit on or inside the boxes they connect to; their own leg
+  // is allowed out through those
+  const nozzles = [start, end].map(nozzle => ({
+    position: nozzle.position,
+    direction: nozzle.direction ? axisOf(nozzle.direction) : undefined,
+    within: new Set(hard.filter(box => contains(box, nozzle.position))),
+  }));
+  for (const [i, nozzle] of nozzles.entries()) {
+    if (!AXES.every(a => nozzle.position[a] >= inner.min[a] - 1e-6 && nozzle.position[a] <= inner.max[a] + 1e-6)) {
+      errors.push(`${i === 0 ? 'Start' : 'End'} nozzle is outside the routing space`);
+    }
+  }
+  if (errors.length > 0) return emptyRoute(errors, warnings);
+
+  // Visibility grid
+  const candidates: Record<AxisKey, number[]> = { x: [], y: [], z: [] };
+  for (const axis of AXES) {
+    candidates[axis].push(inner.min[axis], inner.max[axis]);
+    for (const box of [...hard, ...soft]) candidates[axis].push(box.min[axis], box.max[axis]);
+    for (const nozzle of nozzles) {
+      candidates[axis].push(nozzle.position[axis]);
+      // First bend no closer than one bend radius
+      candidates[axis].push(nozzle.position[axis] - bendRadius, nozzle.position[axis] + bendRadius);
+    }
+  }
+  candidates.z.push(...preferred);
+  const grid = AXES.map(a => gridLine(candidates[a], inner.min[a], inner.max[a]));
+  const [, ny, nz] = grid.map(line => line.length);
+
+  const nodeId = (i: number, j: number, k: number) => (i * ny + j) * nz + k;
+  const nodeIndices = (node: number): [number, number, number] =>
+    [Math.floor(node / (ny * nz)), Math.floor(node / nz) % ny, node % nz];
+  const nodePoint = (node: number): Point3D => {
+    const [i, j, k] = nodeIndices(node);
+    return { x: grid[0][i], y: grid[1][j], z: grid[2][k] };
+  };
+  const findNode = (p: Point3D) => nodeId(
+    grid[0].findIndex(v => Math.abs(v - p.x) < 1e-3),
+    grid[1].findIndex(v => Math.abs(v - p.y) < 1e-3),
+    grid[2].findIndex(v => Math.abs(v - p.z) < 1e-3)
+  );
+  // A fall too small for a riser is left to the slope: search to the end
+  // nozzle at the start elevation and let applySlope take it down
+  const drop = start.position.z - end.position.z;
+  const levelEnd = slope > 0 && drop > 1e-3 && drop < bendRadius && (nozzles[1].direction ?? 0) < 4;
+  const endPoint = levelEnd ? { ...end.position, z: start.position.z } : end.position;
+  const startNode = findNode(start.position);
+  const endNode = findNode(endPoint);
+
+  const onNozzleAxis = (p: Point3D, nozzle: typeof nozzles[number]) =>
+    AXES.filter(a => Math.abs(p[a] - nozzle.position[a]) < 1e-3).length >= 2;
+
+  const blocked = (a: Point3D, b: Point3D): Box | undefined => hard.find(box => {
+    if (!segmentHitsBox(a, b, box)) return false;
+    return !nozzles.some(n => n.within.has(box) && onNozzleAxis(a, n) && onNozzleAxis(b, n));
+  });
+
+  const isPreferredElevation = (z: number) => preferred.length === 0 || preferred.some(e => Math.abs(e - z) < 1);
+  const heuristic = (p: Point3D) =>
+    Math.abs(p.x - endPoint.x) + Math.abs(p.y - endPoint.y) + Math.abs(p.z - endPoint.z);
+  // Arriving at the end nozzle runs against its outward axis
+  const arrival = nozzles[1].direction === undefined ? undefined : nozzles[1].direction ^ 1;
+
+  // A* over (node, direction, leg long enough to bend)
+  const states = new Map<number, SearchState>();
+  const closed = new Set<number>();
+  const queue = new MinQueue();
+  const stateKey = (node: number, direction: number, legOk: boolean) => (node * 7 + direction) * 2 + (legOk ? 1 : 0);
+  const legRequired = (first: boolean) => (first ? bendRadius : 2 * bendRadius);
+
+  const initial = stateKey(startNode, NO_DIRECTION, true);
+  states.set(initial, { node: startNode, direction: NO_DIRECTION, cost: 0, leg: 0, first: true, parent: undefined });
+  queue.push(initial, heuristic(start.position));
+
+  let goal: number | undefined;
+  let expansions = 0;
+  while (queue.size > 0) {
+    const key = queue.pop();
+    if (closed.has(key)) continue;
+    closed.add(key);
+    const state = states.get(key)!;
+
+    if (state.node === endNode && state.node !== startNode) {
+      if ((arrival === undefined || state.direction === arrival) && (state.first || state.leg >= bendRadius - 1e-6)) {
+        goal = key;
+        break;
+      }
+      continue;
+    }
+    if (++expansions > MAX_EXPANSIONS) {
+      warnings.push('Route search stopped at its expansion limit');
+      break;
+    }
+
+    const here = nodePoint(state.node);
+    const indices = nodeIndices(state.node);
+    const legOk = state.leg >= legRequired(state.first) - 1e-6;
+
+    for (let direction = 0; direction < 6; direction++) {
+      const turning = state.direction !== NO_DIRECTION && direction !== state.direction;
+      if (state.direction === NO_DIRECTION && nozzles[0].direction !== undefined && direction !== nozzles[0].direction) continue;
+      if (turning && (direction === (state.direction ^ 1) || !legOk)) continue;
+      if (slope > 0 && direction === 4) continue; // drains never rise
+
+      const axis = direction >> 1;
+      const next = [...indices] as [number, number, number];
+      next[axis] += direction & 1 ? -1 : 1;
+      if (next[axis] < 0 || next[axis] >= grid[axis].length) continue;
+
+      const node = nodeId(...next);
+      const there = nodePoint(node);
+      if (blocked(here, there)) continue;
+
+      const step = length(here, there);
+      let cost = state.cost + step;
+      if (axis < 2 && !isPreferredElevation(here.z)) cost += step;
+      if (soft.some(box => segmentHitsBox(here, there, box))) cost += 2 * step;
+      if (turning) cost += bendCost;
+
+      const leg = turning ? step : state.leg + step;
+      const first = state.first && !turning;
+      const nextKey = stateKey(node, direction, leg >= legRequired(first) - 1e-6);
+      const known = states.get(nextKey);
+      if (closed.has(nextKey) || (known && known.cost <= cost)) continue;
+      states.set(nextKey, { node, direction, cost, leg, first, parent: key });
+      queue.push(nextKey, cost + heuristic(there));
+    }
+  }
+
+  if (goal === undefined) {
+    errors.push('No route found clear of the obstacles and clearance zones');
+    return emptyRoute(errors, warnings);
+  }
+
+  // Corner points
+  const path: Point3D[] = [];
+  for (let key: number | undefined = goal; key !== undefined; key = states.get(key)!.parent) {
+    path.unshift(nodePoint(states.get(key)!.node));
+  }
+  let points = path.filter((p, i) => {
+    if (i === 0 || i === path.length - 1) return true;
+    return segmentAxis(path[i - 1], p) !== segmentAxis(p, path[i + 1]);
+  });
+
+  if (levelEnd) points[points.length - 1] = end.position;
+
+  if (slope > 0) {
+    const sloped = applySlope(points, slope);
+    if (typeof sloped === 'string') {
+      errors.push(sloped);
+      return emptyRoute(errors, warnings);
+    }
+    points = sloped;
+    for (let i = 1; i < points.length; i++) {
+      const box = hard.find(b => segmentHitsBox(points[i - 1], points[i], b));
+      if (box) warnings.push(`Sloped leg ${i} comes within the clearance of ${box.id}`);
+    }
+  }
+
+  const segments = points.slice(1).map((p, i): RouteSegment => ({
+    start: points[i],
+    end: p,
+    length: length(points[i], p),
+    direction: segmentAxis(points[i], p),
+  }));
+
+  for (let i = 0; i < segments.length; i++) {
+    const required = i === 0 || i === segments.length - 1 ? bendRadius : 2 * bendRadius;
+    if (segments.length > 1 && segments[i].length < required - 1e-6) {
+      warnings.push(`Leg ${i + 1} (${Math.round(segments[i].length)}mm) is too short for ${Math.round(bendRadius)}mm bends`);
+    }
+  }
+  const offElevation = segments.find(s => s.direction !== 'Z' && !isPreferredElevation(s.start.z));
+  if (offElevation && slope === 0) {
+    warnings.push(`Horizontal run at ${Math.round(offElevation.start.z)}mm is off the preferred elevations`);
+  }
+
+  const zonesCrossed = soft
+    .filter(box => segments.some(s => segmentHitsBox(s.start, s.end, box)))
+    .map(box => box.id);
+  for (const zone of zonesCrossed) {
+    warnings.push(`Route passes through preferred clearance zone ${zone}`);
+  }
+
+  return {
+    valid: true,
+    errors,
+    warnings,
+    points,
+    segments,
+    totalLength: segments.reduce((sum, s) => sum + s.length, 0),
+    bends: segments.length - 1,
+    zonesCrossed,
+  };
+}
+
+/**
+ * Drop the horizontal legs of an orthogonal route at the given fall. The
+ * last vertical leg takes up the difference so the route still meets the
+ * end nozzle; without one the nozzles themselves must provide the fall.
+ * Returns an error message when there is not enough fall.
+ */
+function applySlope(points: Point3D[], slope: number): Point3D[] | string {
+  const legs = points.slice(1).map((p, i) => ({ from: points[i], to: p, vertical: segmentAxis(points[i], p) === 'Z' }));
+  const horizontal = legs.filter(l => !l.vertical).reduce((sum, l) => sum + planLength(l.from, l.to), 0);
+  const startZ = points[0].z;
+  const endZ = points[points.length - 1].z;
+  const lastRiser = legs.map(l => l.vertical).lastIndexOf(true);
+
+  if (lastRiser === -1) {
+    const available = horizontal > 0 ? (startZ - endZ) / horizontal : 0;
+    if (available < slope - 1e-9) {
+      return `Not enough fall between the nozzles for a ${(slope * 100).toFixed(1)}% slope`;
+    }
+    slope = available;
+  }
+
+  const z = points.map(p => p.z);
+  // Forward to the last vertical leg, backward from the end after it
+  for (let i = 0; i < legs.length; i++) {
+    if (lastRiser !== -1 && i >= lastRiser) break;
+    z[i + 1] = legs[i].vertical ? z[i] + (legs[i].to.z - legs[i].from.z) : z[i] - slope * planLength(legs[i].from, legs[i].to);
+  }
+  if (lastRiser !== -1) {
+    z[legs.length] = endZ;
+    for (let i = legs.length - 1; i > lastRiser; i--) {
+      z[i] = z[i + 1] + slope * planLength(legs[i].from, legs[i].to);
+    }
+    if (z[lastRiser + 1] >= z[lastRiser]) {
+      return `Not enough fall in the vertical drop for a ${(slope * 100).toFixed(1)}% slope`;
+    }
+  }
+
+  return points.map((p, i) => ({ ...p, z: z[i] }));
+}
+
+// =============================================================================
+// SUPPORTS
+// =============================================================================
+
+/**
+ * Hanger positions along a route at no more than `spacing` (e.g. from
+ * `calculatePipeSupportSpacing`), with one near each end of every
+ * horizontal leg and a riser clamp at the foot of each vertical leg.
+ */
+export function placeRouteSupports(route: Pick<RouteResult, 'segments'>, spacing: number, endOffset = 300): RouteSupport[] {
+  const supports: RouteSupport[] = [];
+  let travelled = 0;
+
+  route.segments.forEach((segment, index) => {
+    const along = (d: number): Point3D => {
+      const f = segment.length > 0 ? d / segment.length : 0;
+      return {
+        x: segment.start.x + (segment.end.x - segment.start.x) * f,
+        y: segment.start.y + (segment.end.y - segment.start.y) * f,
+        z: segment.start.z + (segment.end.z - segment.start.z) * f,
+      };
+    };
+
+    if (segment.direction === 'Z') {
+      const foot = segment.end.z < segment.start.z ? segment.length : 0;
+      supports.push({ position: along(foot), segment: index, distance: travelled + foot, type: 'riser-clamp' });
+    } else {
+      const offset = Math.min(endOffset, segment.length / 2);
+      const span = segment.length - 2 * offset;
+      const count = span > 0 ? Math.ceil(span / spacing) + 1 : 1;
+      for (let k = 0; k < count; k++) {
+        const d = count === 1 ? segment.length / 2 : offset + (span * k) / (count - 1);
+        supports.push({ position: along(d), segment: index, distance: travelled + d, type: 'hanger' });
+      }
+    }
+    travelled += segment.length;
+  });
+
+  return supports;
+}